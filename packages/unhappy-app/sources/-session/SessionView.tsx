@@ -10,15 +10,17 @@ import { useDraft } from '@/hooks/useDraft';
 import { Modal } from '@/modal';
 import { gitStatusSync } from '@/sync/gitStatusSync';
 import { machineBash, machineUpdateDaemon, sessionAbort } from '@/sync/ops';
-import { storage, useIsDataReady, useLocalSetting, useMachine, useRealtimeStatus, useSessionMessages, useSessionUsage, setCurrentViewedSessionId, getCurrentViewedSessionId } from '@/sync/storage';
+import { storage, useFriend, useIsDataReady, useLocalSetting, useMachine, useRealtimeStatus, useSessionMessages, useSessionUsage, setCurrentViewedSessionId, getCurrentViewedSessionId } from '@/sync/storage';
 import { useSession } from '@/sync/storage';
 import { Session, type ReasoningEffortMode } from '@/sync/storageTypes';
+import { getDisplayName } from '@/sync/friendTypes';
 import { sync } from '@/sync/sync';
 import { t } from '@/text';
 import { tracking, trackMessageSent } from '@/track';
 import { isMachineOnline } from '@/utils/machineUtils';
 import { isRunningOnMac } from '@/utils/platform';
 import { promptCommitMessage } from '@/utils/promptCommitMessage';
+import { saveSessionArchive } from '@/utils/sessionArchiveFile';
 import { useDeviceType, useHeaderHeight, useIsLandscape, useIsTablet } from '@/utils/responsive';
 import { formatPathRelativeToProjectBase, getSessionName, useSessionStatus } from '@/utils/sessionUtils';
 import { isVersionSupported, MINIMUM_CLI_VERSION } from '@/utils/versionUtils';
@@ -360,7 +362,33 @@ function SessionHeaderActions(props: {
     );
 }
 
-export const SessionView = React.memo((props: { id: string }) => {
+// Replaces the input for sessions a friend shared with us and imported archives
+function ReadOnlySessionBanner({ session }: { session: Session }) {
+    const { theme } = useUnistyles();
+    const owner = useFriend(session.sharedBy ?? undefined);
+    const text = session.sharedBy
+        ? t('sessionSharing.readOnlyBanner', { name: owner ? getDisplayName(owner) : '' })
+        : t('sessionArchive.readOnlyBanner');
+    return (
+        <View style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: 8,
+            paddingHorizontal: 16,
+            paddingVertical: 12,
+            borderTopWidth: StyleSheet.hairlineWidth,
+            borderTopColor: theme.colors.divider,
+        }}>
+            <Ionicons name={session.sharedBy ? 'eye-outline' : 'archive-outline'} size={16} color={theme.colors.textSecondary} />
+            <Text style={{ color: theme.colors.textSecondary, fontSize: 14 }} numberOfLines={2}>
+                {text}
+            </Text>
+        </View>
+    );
+}
+
+export const SessionView = React.memo((props: { id: string, focusMessageId?: string | null }) => {
     const sessionId = props.id;
     const router = useRouter();
     const session = useSession(sessionId);
@@ -428,7 +456,8 @@ export const SessionView = React.memo((props: { id: string }) => {
             isConnected: isConnected,
             flavor: session.metadata?.flavor || null,
             tintColor: isConnected ? '#000' : '#8E8E93',
-            rightActions: (
+            budget: session.agentState?.budget ?? null,
+            rightActions: session.sharedBy ? undefined : (
                 <SessionHeaderActions
                     sessionId={sessionId}
                     session={session}
@@ -441,7 +470,7 @@ export const SessionView = React.memo((props: { id: string }) => {
 
     return (
         <>
-            {session?.metadata?.machineId && session?.metadata?.path && headerMenu && (
+            {!session?.sharedBy && session?.metadata?.machineId && session?.metadata?.path && headerMenu && (
                 <HeaderDropdownPanel
                     kind={headerMenu}
                     sessionId={sessionId}
@@ -516,7 +545,7 @@ export const SessionView = React.memo((props: { id: string }) => {
                     </View>
                 ) : (
                     // Normal session view
-                    <SessionViewLoaded key={sessionId} sessionId={sessionId} session={session} />
+                    <SessionViewLoaded key={sessionId} sessionId={sessionId} session={session} focusMessageId={props.focusMessageId ?? null} />
                 )}
             </View>
         </>
@@ -524,7 +553,7 @@ export const SessionView = React.memo((props: { id: string }) => {
 });
 
 
-function SessionViewLoaded({ sessionId, session }: { sessionId: string, session: Session }) {
+function SessionViewLoaded({ sessionId, session, focusMessageId }: { sessionId: string, session: Session, focusMessageId: string | null }) {
     const { theme } = useUnistyles();
     const router = useRouter();
     const safeArea = useSafeAreaInsets();
@@ -543,7 +572,8 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
     const isMachineReachable = Boolean(machine && isMachineOnline(machine));
     const isCliOutdated = cliVersion && !isVersionSupported(cliVersion, MINIMUM_CLI_VERSION);
     const isAcknowledged = machineId && acknowledgedCliVersions[machineId] === cliVersion;
-    const shouldShowCliWarning = isCliOutdated && !isAcknowledged;
+    const isReadOnly = !!session.sharedBy || !!session.metadata?.imported;
+    const shouldShowCliWarning = isCliOutdated && !isAcknowledged && !isReadOnly;
     const permissionPolicy = React.useMemo(() => normalizePermissionPolicy({
         permissionMode: session.permissionMode || 'default',
     }), [session.permissionMode]);
@@ -638,7 +668,7 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
         <>
             <Deferred>
                 {messages.length > 0 && (
-                    <ChatList session={session} />
+                    <ChatList session={session} focusMessageId={focusMessageId} />
                 )}
             </Deferred>
         </>
@@ -653,7 +683,9 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
         </>
     ) : null;
 
-    const input = (
+    const input = isReadOnly ? (
+        <ReadOnlySessionBanner session={session} />
+    ) : (
         <AgentInput
             placeholder={t('session.inputPlaceholder')}
             value={message}
@@ -676,6 +708,17 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
                 isPulsing: sessionStatus.isPulsing
             }}
             onSend={() => {
+                if (message.trim() === '/export') {
+                    setMessage('');
+                    clearDraft();
+                    sync.exportSession(sessionId)
+                        .then(saveSessionArchive)
+                        .catch((error) => {
+                            console.error('Failed to export session:', error);
+                            Modal.alert(t('common.error'), t('sessionArchive.exportFailed'));
+                        });
+                    return;
+                }
                 if (message.trim()) {
                     setMessage('');
                     clearDraft();
@@ -91,6 +91,38 @@ export default function RootLayout() {
                     headerBackTitle: t('common.back'),
                 }}
             />
+            <Stack.Screen
+                name="session/[id]/sharing"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('sessionSharing.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/audit"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('sessionAudit.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="race/[id]"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('race.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/terminal"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('sessionTerminal.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="session/[id]/finish"
                 options={{
@@ -121,6 +153,12 @@ export default function RootLayout() {
                     headerTitle: t('settings.account'),
                 }}
             />
+            <Stack.Screen
+                name="settings/devices"
+                options={{
+                    headerTitle: t('devices.title'),
+                }}
+            />
             <Stack.Screen
                 name="settings/appearance"
                 options={{
@@ -133,6 +171,12 @@ export default function RootLayout() {
                     headerTitle: t('settings.features'),
                 }}
             />
+            <Stack.Screen
+                name="settings/permissions"
+                options={{
+                    headerTitle: t('permissionRules.title'),
+                }}
+            />
             <Stack.Screen
                 name="terminal/connect"
                 options={{
@@ -318,6 +362,15 @@ export default function RootLayout() {
                     headerBackTitle: t('common.back'),
                 }}
             />
+            <Stack.Screen
+                name="search"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('search.title'),
+                    headerBackTitle: t('common.back'),
+                    contentStyle: groupedContentStyle,
+                }}
+            />
             <Stack.Screen
                 name="settings/connect/claude"
                 options={{
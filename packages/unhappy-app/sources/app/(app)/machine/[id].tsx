@@ -9,6 +9,7 @@ import { Modal } from '@/modal';
 import { machineSpawnNewSession, machineStopDaemon, machineUpdateDaemon, machineUpdateMetadata } from '@/sync/ops';
 import { useMachine, useSessions, useSettingMutable } from '@/sync/storage';
 import type { Session } from '@/sync/storageTypes';
+import type { MachineHealth } from '@/sync/apiMachineHealth';
 import { sync } from '@/sync/sync';
 import { t } from '@/text';
 import { isMachineOnline } from '@/utils/machineUtils';
@@ -17,7 +18,7 @@ import { formatPathRelativeToProjectBase, getSessionName, getSessionSubtitle } f
 import { isAbsolutePathLike, joinBasePath } from '@/utils/basePathUtils';
 import { isVersionSupported, MINIMUM_CLI_VERSION } from '@/utils/versionUtils';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
-import { useCallback, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, Keyboard, Platform, Pressable, RefreshControl, Text, View } from 'react-native';
 import { StyleSheet, useUnistyles } from 'react-native-unistyles';
 
@@ -79,6 +80,7 @@ export default function MachineDetailScreen() {
     const inputRef = useRef<MultiTextInputHandle>(null);
     const [showAllPaths, setShowAllPaths] = useState(false);
     const [projectBasePaths, setProjectBasePaths] = useSettingMutable('projectBasePaths');
+    const [health, setHealth] = useState<MachineHealth | null>(null);
     // Variant D only
 
     const machineSessions = useMemo(() => {
@@ -202,10 +204,24 @@ export default function MachineDetailScreen() {
 
     // inline control below
 
+    const loadHealth = useCallback(async () => {
+        if (!machineId) return;
+        try {
+            setHealth(await sync.getMachineHealth(machineId));
+        } catch (error) {
+            // Older servers don't have the endpoint, the section just stays hidden
+            console.error('Failed to load machine health:', error);
+        }
+    }, [machineId]);
+
+    useEffect(() => {
+        loadHealth();
+    }, [loadHealth]);
+
     const handleRefresh = async () => {
         setIsRefreshing(true);
         try {
-            await sync.refreshMachines();
+            await Promise.all([sync.refreshMachines(), loadHealth()]);
         } finally {
             setIsRefreshing(false);
         }
@@ -484,6 +500,15 @@ export default function MachineDetailScreen() {
                         </>
                     )}
 
+                    <ItemGroup>
+                        <Item
+                            title={t('schedules.title')}
+                            subtitle={t('schedules.machineEntrySubtitle')}
+                            icon={<Ionicons name="alarm-outline" size={29} color={theme.colors.text} />}
+                            onPress={() => router.push(`/machine/${machineId}/schedules`)}
+                        />
+                    </ItemGroup>
+
                 {/* Daemon */}
                     <ItemGroup title={t('machine.daemon')}>
                         <Item
@@ -592,6 +617,48 @@ export default function MachineDetailScreen() {
                         />
                     </ItemGroup>
 
+                    {health && (
+                        <ItemGroup title={t('machineHealth.title')} footer={t('machineHealth.footer')}>
+                            <Item
+                                title={t('machineHealth.uptime')}
+                                subtitle={t('machineHealth.uptimeValue', {
+                                    hours: Math.floor(health.uptimeSeconds / 3600),
+                                    minutes: Math.floor((health.uptimeSeconds % 3600) / 60),
+                                })}
+                            />
+                            <Item
+                                title={t('machineHealth.activeSessions')}
+                                subtitle={String(health.activeSessions)}
+                            />
+                            <Item
+                                title={t('machineHealth.sessionsStarted')}
+                                subtitle={String(health.sessionsSpawned)}
+                            />
+                            <Item
+                                title={t('machineHealth.sessionStartFailures')}
+                                subtitle={String(health.spawnFailures)}
+                            />
+                            <Item
+                                title={t('machineHealth.rpcCalls')}
+                                subtitle={t('machineHealth.rpcCallsValue', { count: health.rpcCalls, errors: health.rpcErrors })}
+                            />
+                            {health.rpcLatencyP50Ms !== null && health.rpcLatencyP95Ms !== null && (
+                                <Item
+                                    title={t('machineHealth.rpcLatency')}
+                                    subtitle={t('machineHealth.rpcLatencyValue', { p50: health.rpcLatencyP50Ms, p95: health.rpcLatencyP95Ms })}
+                                />
+                            )}
+                            <Item
+                                title={t('machineHealth.reconnects')}
+                                subtitle={String(health.reconnects)}
+                            />
+                            <Item
+                                title={t('machineHealth.lastReport')}
+                                subtitle={new Date(health.reportedAt).toLocaleString()}
+                            />
+                        </ItemGroup>
+                    )}
+
                     <ItemGroup title={t('machine.projectSection')}>
                     <Item
                         title={t('finishSession.basePath')}
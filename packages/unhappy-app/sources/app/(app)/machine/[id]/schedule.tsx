@@ -0,0 +1,484 @@
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Switch } from '@/components/Switch';
+import { Typography } from '@/constants/Typography';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
+import { Ionicons } from '@/icons/vector-icons';
+import { Modal } from '@/modal';
+import {
+    machineCreateSchedule,
+    machineDeleteSchedule,
+    machineListSchedules,
+    machineRunScheduleNow,
+    machineScheduleHistory,
+    machineUpdateSchedule,
+    type MachineScheduleInput,
+    type MachineScheduleRecurrence,
+    type MachineScheduleRun,
+} from '@/sync/ops';
+import { useMachine } from '@/sync/storage';
+import { t } from '@/text';
+import { isMachineOnline } from '@/utils/machineUtils';
+import { resolveAbsolutePath } from '@/utils/pathUtils';
+import { describeRunStatus, runStatusColor } from '@/utils/scheduleText';
+import { EVERY_DAY, formatLocalDate, formatTimeOfDay, parseLocalDateTime, parseTimeOfDay, WEEKDAYS } from '@/utils/scheduleUtils';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, Text, TextInput, View } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+
+type Agent = MachineScheduleInput['agent'];
+type RecurrenceType = MachineScheduleRecurrence['type'];
+
+const AGENTS: { id: Agent; title: string }[] = [
+    { id: 'claude', title: 'Claude' },
+    { id: 'codex', title: 'Codex' },
+    { id: 'gemini', title: 'Gemini' },
+];
+
+const styles = StyleSheet.create((theme) => ({
+    field: {
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+    },
+    label: {
+        ...Typography.default('semiBold'),
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        marginBottom: 6,
+    },
+    input: {
+        ...Typography.default(),
+        backgroundColor: theme.colors.input.background,
+        borderRadius: 10,
+        padding: 12,
+        fontSize: 16,
+        color: theme.colors.text,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+    },
+    promptInput: {
+        minHeight: 96,
+        textAlignVertical: 'top',
+    },
+    daysRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    day: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+    },
+    daySelected: {
+        backgroundColor: theme.colors.button.primary.background,
+        borderColor: theme.colors.button.primary.background,
+    },
+    dayText: {
+        ...Typography.default(),
+        fontSize: 14,
+        color: theme.colors.text,
+    },
+    dayTextSelected: {
+        color: theme.colors.button.primary.tint,
+    },
+}));
+
+export default function MachineScheduleEditorScreen() {
+    const { theme } = useUnistyles();
+    const { id: machineId, scheduleId } = useLocalSearchParams<{ id: string; scheduleId?: string }>();
+    const router = useRouter();
+    const machine = useMachine(machineId!);
+    const navigateToSession = useNavigateToSession();
+    const isNew = !scheduleId;
+
+    const [isLoading, setIsLoading] = useState(!isNew);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRunning, setIsRunning] = useState(false);
+    const [name, setName] = useState('');
+    const [directory, setDirectory] = useState('');
+    const [prompt, setPrompt] = useState('');
+    const [agent, setAgent] = useState<Agent>('claude');
+    const [enabled, setEnabled] = useState(true);
+    const [recurrenceType, setRecurrenceType] = useState<RecurrenceType>('weekly');
+    const [days, setDays] = useState<number[]>(WEEKDAYS);
+    const [time, setTime] = useState('09:00');
+    const [date, setDate] = useState(formatLocalDate(Date.now()));
+    const [intervalMinutes, setIntervalMinutes] = useState('60');
+    const [runs, setRuns] = useState<MachineScheduleRun[]>([]);
+
+    const online = !!machine && isMachineOnline(machine);
+    const homeDir = machine?.metadata?.homeDir;
+
+    const loadHistory = useCallback(async () => {
+        if (!machineId || !scheduleId) return;
+        setRuns(await machineScheduleHistory(machineId, scheduleId));
+    }, [machineId, scheduleId]);
+
+    useEffect(() => {
+        if (!machineId || !scheduleId) return;
+        let cancelled = false;
+        (async () => {
+            try {
+                const { schedules } = await machineListSchedules(machineId);
+                const schedule = schedules.find(s => s.id === scheduleId);
+                if (!schedule || cancelled) return;
+                setName(schedule.name);
+                setDirectory(schedule.directory);
+                setPrompt(schedule.prompt);
+                setAgent(schedule.agent);
+                setEnabled(schedule.enabled);
+                setRecurrenceType(schedule.recurrence.type);
+                switch (schedule.recurrence.type) {
+                    case 'weekly':
+                        setDays(schedule.recurrence.days);
+                        setTime(formatTimeOfDay(schedule.recurrence.hour, schedule.recurrence.minute));
+                        break;
+                    case 'interval':
+                        setIntervalMinutes(String(schedule.recurrence.minutes));
+                        break;
+                    case 'once': {
+                        const at = new Date(schedule.recurrence.at);
+                        setDate(formatLocalDate(schedule.recurrence.at));
+                        setTime(formatTimeOfDay(at.getHours(), at.getMinutes()));
+                        break;
+                    }
+                }
+                await loadHistory();
+            } catch (e) {
+                if (!cancelled) {
+                    Modal.alert(t('common.error'), t('schedules.loadFailed'));
+                }
+            } finally {
+                if (!cancelled) {
+                    setIsLoading(false);
+                }
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [machineId, scheduleId, loadHistory]);
+
+    // Returns null (after telling the user why) when the form is incomplete
+    const buildInput = (): MachineScheduleInput | null => {
+        if (!name.trim() || !directory.trim() || !prompt.trim()) {
+            Modal.alert(t('common.error'), t('schedules.missingFields'));
+            return null;
+        }
+
+        let recurrence: MachineScheduleRecurrence;
+        switch (recurrenceType) {
+            case 'weekly': {
+                const parsed = parseTimeOfDay(time);
+                if (!parsed) {
+                    Modal.alert(t('common.error'), t('schedules.invalidTime'));
+                    return null;
+                }
+                if (days.length === 0) {
+                    Modal.alert(t('common.error'), t('schedules.selectDays'));
+                    return null;
+                }
+                recurrence = { type: 'weekly', days: [...days].sort(), ...parsed };
+                break;
+            }
+            case 'interval': {
+                const minutes = Number(intervalMinutes);
+                if (!Number.isInteger(minutes) || minutes < 5) {
+                    Modal.alert(t('common.error'), t('schedules.invalidInterval'));
+                    return null;
+                }
+                recurrence = { type: 'interval', minutes };
+                break;
+            }
+            case 'once': {
+                if (!parseTimeOfDay(time)) {
+                    Modal.alert(t('common.error'), t('schedules.invalidTime'));
+                    return null;
+                }
+                const at = parseLocalDateTime(date, time);
+                if (at === null) {
+                    Modal.alert(t('common.error'), t('schedules.invalidDate'));
+                    return null;
+                }
+                recurrence = { type: 'once', at };
+                break;
+            }
+        }
+
+        return {
+            name: name.trim(),
+            directory: resolveAbsolutePath(directory.trim(), homeDir),
+            prompt: prompt.trim(),
+            agent,
+            recurrence,
+            enabled,
+        };
+    };
+
+    const handleSave = async () => {
+        if (!machineId || isSaving) return;
+        const input = buildInput();
+        if (!input) return;
+
+        setIsSaving(true);
+        try {
+            if (scheduleId) {
+                await machineUpdateSchedule(machineId, scheduleId, input);
+            } else {
+                await machineCreateSchedule(machineId, input);
+            }
+            router.back();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRunNow = async () => {
+        if (!machineId || !scheduleId || isRunning) return;
+        setIsRunning(true);
+        try {
+            const run = await machineRunScheduleNow(machineId, scheduleId);
+            if (run.status === 'skipped') {
+                Modal.alert(t('schedules.statusSkipped'), t('schedules.runSkipped'));
+            } else if (run.status === 'failed') {
+                Modal.alert(t('common.error'), run.error ?? t('schedules.statusFailed'));
+            } else {
+                Modal.alert(t('common.success'), t('schedules.runStarted'));
+            }
+            await loadHistory();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!machineId || !scheduleId) return;
+        const confirmed = await Modal.confirm(
+            t('schedules.deleteConfirmTitle'),
+            t('schedules.deleteConfirmDescription'),
+            { cancelText: t('common.cancel'), confirmText: t('common.delete'), destructive: true }
+        );
+        if (!confirmed) return;
+        try {
+            await machineDeleteSchedule(machineId, scheduleId);
+            router.back();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : t('common.error'));
+        }
+    };
+
+    const toggleDay = (day: number) => {
+        setDays(current => current.includes(day) ? current.filter(d => d !== day) : [...current, day]);
+    };
+
+    if (isLoading) {
+        return (
+            <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+                <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+            </View>
+        );
+    }
+
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerShown: true,
+                    headerTitle: isNew ? t('schedules.newSchedule') : t('schedules.editSchedule'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <ItemList keyboardShouldPersistTaps="handled">
+                <ItemGroup>
+                    <View style={styles.field}>
+                        <Text style={styles.label}>{t('schedules.name')}</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder={t('schedules.namePlaceholder')}
+                            placeholderTextColor={theme.colors.input.placeholder}
+                        />
+                    </View>
+                    <View style={styles.field}>
+                        <Text style={styles.label}>{t('schedules.directory')}</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={directory}
+                            onChangeText={setDirectory}
+                            placeholder={homeDir || '~'}
+                            placeholderTextColor={theme.colors.input.placeholder}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                    </View>
+                    <View style={styles.field}>
+                        <Text style={styles.label}>{t('schedules.prompt')}</Text>
+                        <TextInput
+                            style={[styles.input, styles.promptInput]}
+                            value={prompt}
+                            onChangeText={setPrompt}
+                            placeholder={t('schedules.promptPlaceholder')}
+                            placeholderTextColor={theme.colors.input.placeholder}
+                            multiline
+                        />
+                    </View>
+                    <Item
+                        title={t('schedules.enabled')}
+                        showChevron={false}
+                        rightElement={<Switch value={enabled} onValueChange={setEnabled} />}
+                    />
+                </ItemGroup>
+
+                <ItemGroup title={t('schedules.agent')}>
+                    {AGENTS.map(option => (
+                        <Item
+                            key={option.id}
+                            title={option.title}
+                            selected={agent === option.id}
+                            showChevron={false}
+                            onPress={() => setAgent(option.id)}
+                            rightElement={agent === option.id
+                                ? <Ionicons name="checkmark" size={20} color={theme.colors.button.primary.background} />
+                                : undefined}
+                        />
+                    ))}
+                </ItemGroup>
+
+                <ItemGroup title={t('schedules.repeat')}>
+                    {(['weekly', 'interval', 'once'] as const).map(type => (
+                        <Item
+                            key={type}
+                            title={t(`schedules.${type}`)}
+                            selected={recurrenceType === type}
+                            showChevron={false}
+                            onPress={() => setRecurrenceType(type)}
+                            rightElement={recurrenceType === type
+                                ? <Ionicons name="checkmark" size={20} color={theme.colors.button.primary.background} />
+                                : undefined}
+                        />
+                    ))}
+                    {recurrenceType === 'weekly' && (
+                        <View style={styles.field}>
+                            <Text style={styles.label}>{t('schedules.days')}</Text>
+                            <View style={styles.daysRow}>
+                                {EVERY_DAY.map(day => {
+                                    const selected = days.includes(day);
+                                    return (
+                                        <Pressable
+                                            key={day}
+                                            onPress={() => toggleDay(day)}
+                                            style={[styles.day, selected && styles.daySelected]}
+                                        >
+                                            <Text style={[styles.dayText, selected && styles.dayTextSelected]}>
+                                                {t('schedules.dayShort', { day })}
+                                            </Text>
+                                        </Pressable>
+                                    );
+                                })}
+                            </View>
+                        </View>
+                    )}
+                    {recurrenceType === 'once' && (
+                        <View style={styles.field}>
+                            <Text style={styles.label}>{t('schedules.date')}</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={date}
+                                onChangeText={setDate}
+                                placeholder="2026-01-31"
+                                placeholderTextColor={theme.colors.input.placeholder}
+                                autoCapitalize="none"
+                            />
+                        </View>
+                    )}
+                    {(recurrenceType === 'weekly' || recurrenceType === 'once') && (
+                        <View style={styles.field}>
+                            <Text style={styles.label}>{t('schedules.time')}</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={time}
+                                onChangeText={setTime}
+                                placeholder="09:00"
+                                placeholderTextColor={theme.colors.input.placeholder}
+                                autoCapitalize="none"
+                            />
+                        </View>
+                    )}
+                    {recurrenceType === 'interval' && (
+                        <View style={styles.field}>
+                            <Text style={styles.label}>{t('schedules.intervalMinutes')}</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={intervalMinutes}
+                                onChangeText={setIntervalMinutes}
+                                keyboardType="number-pad"
+                                placeholderTextColor={theme.colors.input.placeholder}
+                            />
+                        </View>
+                    )}
+                </ItemGroup>
+
+                <ItemGroup>
+                    <Item
+                        title={t('common.save')}
+                        onPress={handleSave}
+                        disabled={isSaving || !online}
+                        showChevron={false}
+                        titleStyle={{ color: online ? theme.colors.button.primary.background : '#999' }}
+                        rightElement={isSaving ? <ActivityIndicator size="small" color={theme.colors.textSecondary} /> : undefined}
+                    />
+                    {!isNew && (
+                        <Item
+                            title={t('schedules.runNow')}
+                            onPress={handleRunNow}
+                            disabled={isRunning || !online}
+                            showChevron={false}
+                            rightElement={isRunning
+                                ? <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                                : <Ionicons name="play" size={18} color={online ? theme.colors.button.primary.background : '#999'} />}
+                        />
+                    )}
+                    {!isNew && (
+                        <Item
+                            title={t('common.delete')}
+                            onPress={handleDelete}
+                            disabled={!online}
+                            destructive
+                            showChevron={false}
+                        />
+                    )}
+                </ItemGroup>
+
+                {!isNew && (
+                    <ItemGroup title={t('schedules.history')}>
+                        {runs.length === 0 && (
+                            <Item title={t('schedules.noRuns')} showChevron={false} />
+                        )}
+                        {runs.map(run => (
+                            <Item
+                                key={run.id}
+                                title={new Date(run.startedAt).toLocaleString()}
+                                subtitle={run.error ?? undefined}
+                                subtitleLines={0}
+                                detail={describeRunStatus(run.status)}
+                                detailStyle={{ color: runStatusColor(run.status) }}
+                                onPress={run.sessionId ? () => navigateToSession(run.sessionId!) : undefined}
+                                showChevron={!!run.sessionId}
+                            />
+                        ))}
+                    </ItemGroup>
+                )}
+            </ItemList>
+        </>
+    );
+}
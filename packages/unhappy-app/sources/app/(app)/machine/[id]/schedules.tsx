@@ -0,0 +1,154 @@
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Ionicons } from '@/icons/vector-icons';
+import { machineListSchedules, type MachineSchedule, type MachineScheduleRun } from '@/sync/ops';
+import { useMachine } from '@/sync/storage';
+import { t } from '@/text';
+import { isMachineOnline } from '@/utils/machineUtils';
+import { describeRecurrence, describeRunStatus, runStatusColor } from '@/utils/scheduleText';
+import { useIsFocused } from '@react-navigation/native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, RefreshControl } from 'react-native';
+import { useUnistyles } from 'react-native-unistyles';
+
+export default function MachineSchedulesScreen() {
+    const { theme } = useUnistyles();
+    const { id: machineId } = useLocalSearchParams<{ id: string }>();
+    const router = useRouter();
+    const machine = useMachine(machineId!);
+    const isFocused = useIsFocused();
+    const [schedules, setSchedules] = useState<MachineSchedule[] | null>(null);
+    const [latestRuns, setLatestRuns] = useState<MachineScheduleRun[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+
+    const online = !!machine && isMachineOnline(machine);
+
+    const load = useCallback(async () => {
+        if (!machineId) return;
+        try {
+            const result = await machineListSchedules(machineId);
+            setSchedules([...result.schedules].sort((a, b) => a.name.localeCompare(b.name)));
+            setLatestRuns(result.runs);
+            setError(null);
+        } catch (e) {
+            setError(t('schedules.loadFailed'));
+        }
+    }, [machineId]);
+
+    // Reload whenever we come back from the editor
+    useEffect(() => {
+        if (isFocused && online) {
+            load();
+        }
+    }, [isFocused, online, load]);
+
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        try {
+            await load();
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    const openEditor = (scheduleId?: string) => {
+        router.push(scheduleId
+            ? `/machine/${machineId}/schedule?scheduleId=${scheduleId}`
+            : `/machine/${machineId}/schedule`);
+    };
+
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerShown: true,
+                    headerTitle: t('schedules.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <ItemList
+                refreshControl={
+                    <RefreshControl
+                        refreshing={isRefreshing}
+                        onRefresh={handleRefresh}
+                    />
+                }
+            >
+                {!online && (
+                    <ItemGroup>
+                        <Item
+                            title={t('machine.offlineUnableToSpawn')}
+                            subtitle={t('machine.offlineHelp')}
+                            subtitleLines={0}
+                            showChevron={false}
+                        />
+                    </ItemGroup>
+                )}
+
+                {error && (
+                    <ItemGroup>
+                        <Item
+                            title={t('common.error')}
+                            subtitle={error}
+                            subtitleLines={0}
+                            showChevron={false}
+                            rightElement={<Ionicons name="warning-outline" size={20} color="#FF9500" />}
+                        />
+                    </ItemGroup>
+                )}
+
+                <ItemGroup>
+                    <Item
+                        title={t('schedules.newSchedule')}
+                        icon={<Ionicons name="add-circle-outline" size={29} color={theme.colors.button.primary.background} />}
+                        onPress={() => openEditor()}
+                        disabled={!online}
+                    />
+                </ItemGroup>
+
+                {online && schedules === null && !error && (
+                    <ItemGroup>
+                        <Item
+                            title={t('common.loading')}
+                            showChevron={false}
+                            rightElement={<ActivityIndicator size="small" color={theme.colors.textSecondary} />}
+                        />
+                    </ItemGroup>
+                )}
+
+                {schedules && (
+                    <ItemGroup title={t('schedules.title')}>
+                        {schedules.length === 0 && (
+                            <Item
+                                title={t('schedules.empty')}
+                                showChevron={false}
+                            />
+                        )}
+                        {schedules.map(schedule => {
+                            const latestRun = latestRuns.find(run => run.scheduleId === schedule.id);
+                            const next = schedule.enabled && schedule.nextRunAt
+                                ? t('schedules.nextRun', { date: new Date(schedule.nextRunAt).toLocaleString() })
+                                : t('schedules.notScheduled');
+                            return (
+                                <Item
+                                    key={schedule.id}
+                                    title={schedule.name}
+                                    subtitle={`${describeRecurrence(schedule.recurrence)} · ${schedule.directory}\n${next}`}
+                                    subtitleLines={2}
+                                    detail={latestRun ? describeRunStatus(latestRun.status) : undefined}
+                                    detailStyle={latestRun ? { color: runStatusColor(latestRun.status) } : undefined}
+                                    titleStyle={schedule.enabled ? undefined : { color: theme.colors.textSecondary }}
+                                    icon={<Ionicons name="alarm-outline" size={29} color={schedule.enabled ? theme.colors.text : theme.colors.textSecondary} />}
+                                    onPress={() => openEditor(schedule.id)}
+                                />
+                            );
+                        })}
+                    </ItemGroup>
+                )}
+            </ItemList>
+        </>
+    );
+}
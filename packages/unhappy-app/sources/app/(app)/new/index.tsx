@@ -3,11 +3,13 @@ import { Item } from '@/components/Item';
 import { ItemGroup } from '@/components/ItemGroup';
 import { layout } from '@/components/layout';
 import { PermissionMode } from '@/components/PermissionModeSelector';
+import { RaceContestantPicker, type RaceContestantChoice } from '@/components/RaceContestantPicker';
 import { SearchableListSelector } from '@/components/SearchableListSelector';
 import { StatusDot } from '@/components/StatusDot';
 import { SHOW_GEMINI_UI } from '@/config';
 import { Typography } from '@/constants/Typography';
 import { useCLIDetection } from '@/hooks/useCLIDetection';
+import { useCustomAgents } from '@/hooks/useCustomAgents';
 import { extractEnvVarReferences, resolveEnvVarSubstitution, useEnvironmentVariables } from '@/hooks/useEnvironmentVariables';
 import { Ionicons } from '@/icons/vector-icons';
 import { Modal } from '@/modal';
@@ -17,11 +19,13 @@ import { clearNewSessionDraft, loadNewSessionDraft, saveNewSessionDraft } from '
 import { DEFAULT_PROFILES, getBuiltInProfile } from '@/sync/profileUtils';
 import { AIBackendProfile, getProfileEnvironmentVariables, validateProfileForAgent } from '@/sync/settings';
 import { storage, useAllMachines, useSessions, useSetting, useSettingMutable } from '@/sync/storage';
+import type { RaceAgent } from '@/sync/races';
 import type { ReasoningEffortMode } from '@/sync/storageTypes';
 import { sync } from '@/sync/sync';
 import { t } from '@/text';
 import { joinBasePath, pathRelativeToBase } from '@/utils/basePathUtils';
 import { createWorktree } from '@/utils/createWorktree';
+import { startRace } from '@/utils/race';
 import { generateWorktreeName } from '@/utils/generateWorktreeName';
 import { isMachineOnline } from '@/utils/machineUtils';
 import { resolveAbsolutePath } from '@/utils/pathUtils';
@@ -400,11 +404,12 @@ function NewSessionWizard() {
         sync.applySettings({ lastUsedAgent: agentType });
     }, [agentType]);
 
-    const [sessionType, setSessionType] = React.useState<'simple' | 'worktree'>(() => {
-        if (tempSessionData?.sessionType === 'worktree') return 'worktree';
-        if (persistedDraft?.sessionType === 'worktree') return 'worktree';
+    const [sessionType, setSessionType] = React.useState<'simple' | 'worktree' | 'race'>(() => {
+        if (tempSessionData?.sessionType) return tempSessionData.sessionType;
+        if (persistedDraft?.sessionType) return persistedDraft.sessionType;
         return 'simple';
     });
+    const [raceContestants, setRaceContestants] = React.useState<RaceContestantChoice[]>([]);
     const [worktreeName, setWorktreeName] = React.useState<string>(() => {
         return sanitizeWorktreeNameInput(persistedDraft?.worktreeName || '');
     });
@@ -555,6 +560,20 @@ function NewSessionWizard() {
     // CLI Detection - automatic, non-blocking detection of installed CLIs on selected machine
     const cliAvailability = useCLIDetection(selectedMachineId);
 
+    // Custom ACP agents declared in the machine's agents.json.
+    // A selected custom agent takes precedence over agentType when spawning.
+    const customAgents = useCustomAgents(selectedMachineId);
+    const [customAgent, setCustomAgent] = React.useState<string | null>(null);
+    React.useEffect(() => {
+        if (customAgent && !customAgents.some(agent => agent.name === customAgent)) {
+            setCustomAgent(null);
+        }
+    }, [customAgents, customAgent]);
+    const handleAgentTypeChange = React.useCallback((next: 'claude' | 'codex' | 'gemini') => {
+        setCustomAgent(null);
+        setAgentType(next);
+    }, []);
+
     // Auto-correct invalid agent selection after CLI detection completes
     // This handles the case where lastUsedAgent was 'codex' but codex is not installed
     React.useEffect(() => {
@@ -577,6 +596,21 @@ function NewSessionWizard() {
         }
     }, [cliAvailability.timestamp, cliAvailability.claude, cliAvailability.codex, cliAvailability.gemini, agentType, experimentsEnabled]);
 
+    // Agents that can enter a race, hidden once detection says they're missing
+    const raceAgents = React.useMemo(() => {
+        const agents: RaceAgent[] = ['claude', 'codex'];
+        if (SHOW_GEMINI_UI && experimentsEnabled) {
+            agents.push('gemini');
+        }
+        return agents.filter((agent) => cliAvailability[agent] !== false);
+    }, [cliAvailability, experimentsEnabled]);
+    React.useEffect(() => {
+        setRaceContestants((prev) => {
+            const next = prev.filter((contestant) => raceAgents.includes(contestant.agent));
+            return next.length === prev.length ? prev : next;
+        });
+    }, [raceAgents]);
+
     // Extract all ${VAR} references from profiles to query daemon environment
     const envVarRefs = React.useMemo(() => {
         const refs = new Set<string>();
@@ -782,6 +816,15 @@ function NewSessionWizard() {
 
     // Validation
     const canCreate = React.useMemo(() => {
+        if (sessionType === 'race') {
+            // Each contestant brings its own model
+            return (
+                selectedMachineId !== null &&
+                selectedPath.trim() !== '' &&
+                raceContestants.length >= 2 &&
+                sessionPrompt.trim() !== ''
+            );
+        }
         return (
             selectedMachineId !== null &&
             selectedPath.trim() !== '' &&
@@ -789,7 +832,7 @@ function NewSessionWizard() {
             modelMode.trim() !== '' &&
             modelMode !== 'default'
         );
-    }, [selectedMachineId, selectedPath, modelMode]);
+    }, [selectedMachineId, selectedPath, modelMode, sessionType, raceContestants, sessionPrompt]);
 
     const selectProfile = React.useCallback((profileId: string) => {
         setSelectedProfileId(profileId);
@@ -1115,6 +1158,45 @@ function NewSessionWizard() {
             return;
         }
 
+        if (sessionType === 'race') {
+            if (raceContestants.length < 2) {
+                Modal.alert(t('common.error'), t('race.needContestants'));
+                return;
+            }
+            if (!sessionPrompt.trim()) {
+                Modal.alert(t('common.error'), t('race.needPrompt'));
+                return;
+            }
+            setIsCreating(true);
+            try {
+                const selectedProfile = selectedProfileId ? profileMap.get(selectedProfileId) : undefined;
+                const race = await startRace({
+                    machineId: selectedMachineId,
+                    basePath: selectedPath,
+                    prompt: sessionPrompt,
+                    contestants: raceContestants,
+                    permissionMode: planOnly ? 'plan' : permissionMode,
+                    // The profile only applies to the agents it was made for
+                    environmentFor: (agent) => selectedProfile && validateProfileForAgent(selectedProfile, agent)
+                        ? transformProfileToEnvironmentVars(selectedProfile, agent)
+                        : {},
+                });
+                const updatedPaths = [{ machineId: selectedMachineId, path: selectedPath }, ...recentMachinePaths.filter(rp => rp.machineId !== selectedMachineId)].slice(0, 10);
+                sync.applySettings({
+                    recentMachinePaths: updatedPaths,
+                    lastUsedPermissionMode: permissionMode,
+                    lastUsedPlanOnly: planOnly,
+                });
+                clearNewSessionDraft();
+                router.replace(`/race/${race.id}`);
+            } catch (error) {
+                console.error('Failed to start race', error);
+                Modal.alert(t('common.error'), error instanceof Error ? error.message : t('newSession.failedToStart'));
+                setIsCreating(false);
+            }
+            return;
+        }
+
         setIsCreating(true);
 
         try {
@@ -1175,7 +1257,7 @@ function NewSessionWizard() {
                 machineId: selectedMachineId,
                 directory: actualPath,
                 approvedNewDirectoryCreation: true,
-                agent: agentType,
+                agent: customAgent ?? agentType,
                 environmentVariables
             });
 
@@ -1225,7 +1307,7 @@ function NewSessionWizard() {
                             host: selectedMachine?.metadata?.host || 'unknown',
                             machineId: selectedMachineId,
                             homeDir: selectedMachine?.metadata?.homeDir,
-                            flavor: agentType,
+                            flavor: customAgent ?? agentType,
                         },
                         metadataVersion: 0,
                         agentState: null,
@@ -1296,7 +1378,7 @@ function NewSessionWizard() {
             Modal.alert(t('common.error'), errorMessage);
             setIsCreating(false);
         }
-    }, [selectedMachineId, selectedPath, sessionPrompt, sessionType, experimentsEnabled, agentType, selectedProfileId, permissionMode, planOnly, modelMode, effortMode, recentMachinePaths, profileMap, router, selectedMachine]);
+    }, [selectedMachineId, selectedPath, sessionPrompt, sessionType, raceContestants, experimentsEnabled, agentType, customAgent, selectedProfileId, permissionMode, planOnly, modelMode, effortMode, recentMachinePaths, profileMap, router, selectedMachine]);
 
     const screenWidth = useWindowDimensions().width;
 
@@ -1372,7 +1454,10 @@ function NewSessionWizard() {
                                 autocompletePrefixes={[]}
                                 autocompleteSuggestions={async () => []}
                                 agentType={agentType}
-                                onAgentTypeChange={setAgentType}
+                                onAgentTypeChange={handleAgentTypeChange}
+                                customAgents={customAgents}
+                                customAgent={customAgent}
+                                onCustomAgentChange={setCustomAgent}
                                 machineId={selectedMachineId ?? undefined}
                                 permissionMode={permissionMode}
                                 onPermissionModeChange={handlePermissionModeChange}
@@ -1392,6 +1477,9 @@ function NewSessionWizard() {
                                 worktreeName={worktreeName}
                                 onWorktreeNameChange={(text) => setWorktreeName(sanitizeWorktreeNameInput(text))}
                                 onWorktreeNameGenerate={() => setWorktreeName(generateWorktreeName())}
+                                raceAgents={raceAgents}
+                                raceContestants={raceContestants}
+                                onRaceContestantsChange={setRaceContestants}
                             />
                         </View>
                     </View>
@@ -2098,6 +2186,27 @@ function NewSessionWizard() {
                                         selected={sessionType === 'worktree'}
                                     />
 
+                                    <Item
+                                        title={t('race.sessionType')}
+                                        leftElement={
+                                            <Ionicons
+                                                name="git-compare-outline"
+                                                size={24}
+                                                color={theme.colors.textSecondary}
+                                            />
+                                        }
+                                        rightElement={sessionType === 'race' ? (
+                                            <Ionicons
+                                                name="checkmark-circle"
+                                                size={20}
+                                                color={theme.colors.button.primary.background}
+                                            />
+                                        ) : null}
+                                        onPress={() => setSessionType('race')}
+                                        showChevron={false}
+                                        selected={sessionType === 'race'}
+                                    />
+
                                     {sessionType === 'worktree' && (
                                         <React.Fragment>
                                             <View style={{ paddingHorizontal: 16, paddingBottom: 12 }}>
@@ -2128,6 +2237,17 @@ function NewSessionWizard() {
                                             </View>
                                         </React.Fragment>
                                     )}
+
+                                    {sessionType === 'race' && (
+                                        <View style={{ paddingHorizontal: 16, paddingBottom: 12 }}>
+                                            <RaceContestantPicker
+                                                machineId={selectedMachineId}
+                                                agents={raceAgents}
+                                                value={raceContestants}
+                                                onChange={setRaceContestants}
+                                            />
+                                        </View>
+                                    )}
                                 </ItemGroup>
                             </View>
 
@@ -2202,7 +2322,10 @@ function NewSessionWizard() {
                             autocompletePrefixes={[]}
                             autocompleteSuggestions={async () => []}
                             agentType={agentType}
-                            onAgentTypeChange={setAgentType}
+                            onAgentTypeChange={handleAgentTypeChange}
+                            customAgents={customAgents}
+                            customAgent={customAgent}
+                            onCustomAgentChange={setCustomAgent}
                             machineId={selectedMachineId ?? undefined}
                             permissionMode={permissionMode}
                             onPermissionModeChange={handleAgentInputPermissionChange}
@@ -0,0 +1,441 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, ScrollView, Text, View } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@/icons/vector-icons';
+import { Typography } from '@/constants/Typography';
+import { StatusDot } from '@/components/StatusDot';
+import { layout } from '@/components/layout';
+import { useAuth } from '@/auth/AuthContext';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+import { machineGitDiff, machineGitStatus } from '@/sync/ops';
+import { calculateTotals, queryUsage } from '@/sync/apiUsage';
+import { Race, RaceDiffFile, raceContestantLabel, races, summarizeDiff, withUntrackedFiles } from '@/sync/races';
+import { useSession } from '@/sync/storage';
+import { Session } from '@/sync/storageTypes';
+import { useSessionStatus } from '@/utils/sessionUtils';
+import { finishRace, runRaceTests } from '@/utils/race';
+
+const MAX_FILES = 8;
+
+function formatTokens(tokens: number): string {
+    if (tokens >= 1000000) {
+        return `${(tokens / 1000000).toFixed(2)}M`;
+    }
+    if (tokens >= 1000) {
+        return `${(tokens / 1000).toFixed(1)}K`;
+    }
+    return tokens.toString();
+}
+
+function useRace(raceId: string): Race | null {
+    const [, setVersion] = React.useState(0);
+    React.useEffect(() => races.subscribe(() => setVersion((v) => v + 1)), []);
+    return races.get(raceId);
+}
+
+const SessionStatusLine = React.memo(({ session }: { session: Session }) => {
+    const styles = stylesheet;
+    const status = useSessionStatus(session);
+    const text = !status.isConnected
+        ? t('status.offline')
+        : status.state === 'thinking' ? t('race.working') : status.state === 'permission_required' ? status.statusText : t('race.done');
+    return (
+        <View style={styles.statusRow}>
+            <StatusDot color={status.statusDotColor} isPulsing={status.isPulsing} />
+            <Text style={[styles.statusText, { color: status.statusColor }]}>{text}</Text>
+        </View>
+    );
+});
+
+const ContestantCard = React.memo((props: {
+    race: Race;
+    index: number;
+    finishing: boolean;
+    onPickWinner: (index: number) => void;
+}) => {
+    const { theme } = useUnistyles();
+    const styles = stylesheet;
+    const router = useRouter();
+    const auth = useAuth();
+    const { race, index } = props;
+    const contestant = race.contestants[index];
+    const session = useSession(contestant.sessionId ?? '');
+    const thinking = session?.thinking === true;
+    const [files, setFiles] = React.useState<RaceDiffFile[] | null>(null);
+    const [usage, setUsage] = React.useState<{ tokens: number; cost: number } | null>(null);
+
+    // Refresh whenever the agent finishes a turn
+    React.useEffect(() => {
+        if (!contestant.worktreePath || thinking || race.finishedAt) {
+            return;
+        }
+        let cancelled = false;
+        Promise.all([
+            machineGitDiff(race.machineId, { path: contestant.worktreePath, base: race.baseBranch }),
+            machineGitStatus(race.machineId, contestant.worktreePath),
+        ])
+            .then(([result, status]) => {
+                if (!cancelled && result.success) {
+                    setFiles(withUntrackedFiles(result.files ?? [], status.success ? status.files ?? [] : []));
+                }
+            })
+            .catch((error) => console.error('Failed to load race diff', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [race.machineId, race.baseBranch, race.finishedAt, contestant.worktreePath, thinking]);
+
+    React.useEffect(() => {
+        const credentials = auth.credentials;
+        if (!credentials || !contestant.sessionId || thinking) {
+            return;
+        }
+        let cancelled = false;
+        queryUsage(credentials, { sessionId: contestant.sessionId, startTime: Math.floor(race.createdAt / 1000), groupBy: 'day' })
+            .then((response) => {
+                if (!cancelled) {
+                    const totals = calculateTotals(response.usage);
+                    setUsage({ tokens: totals.totalTokens, cost: totals.totalCost });
+                }
+            })
+            .catch((error) => console.error('Failed to load race usage', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [auth.credentials, contestant.sessionId, race.createdAt, thinking]);
+
+    const isWinner = !!race.finishedAt && !!contestant.sessionId && race.winnerSessionId === contestant.sessionId;
+    const diff = files ? summarizeDiff(files) : null;
+
+    return (
+        <View style={[styles.card, isWinner && styles.cardWinner]}>
+            <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle} numberOfLines={1}>{raceContestantLabel(contestant)}</Text>
+                {isWinner && <Ionicons name="trophy" size={16} color="#FF9500" />}
+            </View>
+            {contestant.branchName && (
+                <Text style={styles.branch} numberOfLines={1}>{contestant.branchName}</Text>
+            )}
+
+            {contestant.error ? (
+                <Text style={[styles.statusText, { color: theme.colors.textDestructive }]}>{t('race.failedToStart', { error: contestant.error })}</Text>
+            ) : session ? (
+                <SessionStatusLine session={session} />
+            ) : (
+                <View style={styles.statusRow}>
+                    <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                    <Text style={styles.statusText}>{t('race.starting')}</Text>
+                </View>
+            )}
+
+            <Text style={styles.sectionLabel}>{t('race.changes')}</Text>
+            {diff === null ? (
+                <Text style={styles.muted}>{contestant.worktreePath ? '…' : t('race.noChanges')}</Text>
+            ) : diff.files === 0 ? (
+                <Text style={styles.muted}>{t('race.noChanges')}</Text>
+            ) : (
+                <View style={styles.files}>
+                    <Text style={styles.value}>{t('race.diff', { files: diff.files, added: diff.added, removed: diff.removed })}</Text>
+                    {files!.slice(0, MAX_FILES).map((file) => (
+                        <Text key={file.path} style={styles.file} numberOfLines={1}>
+                            {file.untracked ? (
+                                <Text style={styles.added}>{t('race.untracked')}</Text>
+                            ) : (
+                                <><Text style={styles.added}>+{file.linesAdded}</Text> <Text style={styles.removed}>−{file.linesRemoved}</Text></>
+                            )} {file.path}
+                        </Text>
+                    ))}
+                    {files!.length > MAX_FILES && (
+                        <Text style={styles.muted}>{t('race.moreFiles', { count: files!.length - MAX_FILES })}</Text>
+                    )}
+                </View>
+            )}
+
+            <Text style={styles.sectionLabel}>{t('race.usage')}</Text>
+            <Text style={usage && usage.tokens > 0 ? styles.value : styles.muted}>
+                {usage && usage.tokens > 0
+                    ? `${t('race.tokens', { tokens: formatTokens(usage.tokens) })} · $${usage.cost.toFixed(4)}`
+                    : t('race.noUsage')}
+            </Text>
+
+            <Text style={styles.sectionLabel}>{t('race.tests')}</Text>
+            {contestant.test ? (
+                <View style={styles.files}>
+                    <Text style={[styles.value, { color: contestant.test.exitCode === 0 ? '#34C759' : '#FF3B30' }]}>
+                        {contestant.test.exitCode === 0 ? t('race.testsPassed') : t('race.testsFailed', { code: contestant.test.exitCode })}
+                    </Text>
+                    {!!contestant.test.output && (
+                        <Text style={styles.output} numberOfLines={10}>{contestant.test.output}</Text>
+                    )}
+                </View>
+            ) : (
+                <Text style={styles.muted}>{t('race.notTested')}</Text>
+            )}
+
+            {contestant.sessionId && (
+                <View style={styles.actions}>
+                    <Pressable style={styles.action} onPress={() => router.push(`/session/${contestant.sessionId}`)}>
+                        <Text style={styles.actionText}>{t('race.openSession')}</Text>
+                    </Pressable>
+                    <Pressable style={styles.action} onPress={() => router.push(`/session/${contestant.sessionId}/review`)}>
+                        <Text style={styles.actionText}>{t('race.viewChanges')}</Text>
+                    </Pressable>
+                    {!race.finishedAt && contestant.worktreePath && (
+                        <Pressable
+                            style={[styles.action, styles.actionPrimary, props.finishing && { opacity: 0.5 }]}
+                            disabled={props.finishing}
+                            onPress={() => props.onPickWinner(index)}
+                        >
+                            <Text style={styles.actionPrimaryText}>{t('race.pickWinner')}</Text>
+                        </Pressable>
+                    )}
+                </View>
+            )}
+        </View>
+    );
+});
+
+export default function RaceScreen() {
+    const { theme } = useUnistyles();
+    const styles = stylesheet;
+    const router = useRouter();
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const race = useRace(id!);
+    const [testing, setTesting] = React.useState(false);
+    const [finishing, setFinishing] = React.useState(false);
+
+    const handleRunTests = React.useCallback(async () => {
+        if (!race) {
+            return;
+        }
+        const command = await Modal.prompt(t('race.runTests'), t('race.testCommand'), {
+            defaultValue: race.testCommand ?? 'npm test',
+            placeholder: 'npm test',
+        });
+        if (!command?.trim()) {
+            return;
+        }
+        setTesting(true);
+        try {
+            await runRaceTests(race.id, command.trim());
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : t('errors.unknownError'));
+        } finally {
+            setTesting(false);
+        }
+    }, [race]);
+
+    const handlePickWinner = React.useCallback(async (index: number) => {
+        if (!race) {
+            return;
+        }
+        const confirmed = await Modal.confirm(
+            t('race.pickWinner'),
+            t('race.pickWinnerConfirm', { name: raceContestantLabel(race.contestants[index]), branch: race.baseBranch }),
+            { confirmText: t('race.merge'), destructive: true }
+        );
+        if (!confirmed) {
+            return;
+        }
+        setFinishing(true);
+        try {
+            const result = await finishRace(race.id, index);
+            if (!result.success) {
+                Modal.alert(t('common.error'), t('race.finishFailed', { error: result.error || t('errors.unknownError') }));
+            }
+        } finally {
+            setFinishing(false);
+        }
+    }, [race]);
+
+    if (!race) {
+        return (
+            <View style={styles.empty}>
+                <Text style={styles.muted}>{t('race.notFound')}</Text>
+            </View>
+        );
+    }
+
+    const winner = race.contestants.find((c) => c.sessionId && c.sessionId === race.winnerSessionId);
+
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerRight: race.finishedAt ? undefined : () => (
+                        <Pressable onPress={handleRunTests} hitSlop={10} disabled={testing}>
+                            {testing
+                                ? <ActivityIndicator size="small" color={theme.colors.text} />
+                                : <Ionicons name="flask-outline" size={22} color={theme.colors.text} />}
+                        </Pressable>
+                    ),
+                }}
+            />
+            <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+                <View style={styles.summary}>
+                    <Text style={styles.prompt} numberOfLines={6}>{race.prompt}</Text>
+                    <Text style={styles.muted}>{t('race.baseBranch', { branch: race.baseBranch })}</Text>
+                    {race.finishedAt && winner && (
+                        <Pressable onPress={() => router.push(`/session/${winner.sessionId}`)} style={styles.finished}>
+                            <Ionicons name="trophy" size={16} color="#FF9500" />
+                            <Text style={styles.value}>{t('race.finished', { name: raceContestantLabel(winner), branch: race.baseBranch })}</Text>
+                        </Pressable>
+                    )}
+                </View>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.columns}>
+                    {race.contestants.map((contestant, index) => (
+                        <ContestantCard
+                            key={`${contestant.agent}-${contestant.model ?? 'default'}`}
+                            race={race}
+                            index={index}
+                            finishing={finishing}
+                            onPickWinner={handlePickWinner}
+                        />
+                    ))}
+                </ScrollView>
+            </ScrollView>
+        </>
+    );
+}
+
+const stylesheet = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.groupped.background,
+    },
+    content: {
+        paddingVertical: 16,
+    },
+    empty: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    summary: {
+        paddingHorizontal: 16,
+        gap: 6,
+        marginBottom: 12,
+        maxWidth: layout.maxWidth,
+    },
+    prompt: {
+        fontSize: 15,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    finished: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginTop: 4,
+    },
+    columns: {
+        paddingHorizontal: 16,
+        gap: 12,
+        alignItems: 'flex-start',
+    },
+    card: {
+        width: 300,
+        borderRadius: 12,
+        padding: 14,
+        gap: 6,
+        backgroundColor: theme.colors.surface,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+    },
+    cardWinner: {
+        borderColor: '#FF9500',
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: 8,
+    },
+    cardTitle: {
+        flex: 1,
+        fontSize: 16,
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    branch: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.mono(),
+    },
+    statusRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    statusText: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    sectionLabel: {
+        marginTop: 8,
+        fontSize: 11,
+        color: theme.colors.textSecondary,
+        textTransform: 'uppercase',
+        ...Typography.default('semiBold'),
+    },
+    value: {
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    muted: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    files: {
+        gap: 2,
+    },
+    file: {
+        fontSize: 12,
+        color: theme.colors.text,
+        ...Typography.mono(),
+    },
+    added: {
+        color: '#34C759',
+    },
+    removed: {
+        color: '#FF3B30',
+    },
+    output: {
+        fontSize: 11,
+        color: theme.colors.textSecondary,
+        backgroundColor: theme.colors.surfaceHigh,
+        borderRadius: 6,
+        padding: 6,
+        ...Typography.mono(),
+    },
+    actions: {
+        marginTop: 10,
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+    },
+    action: {
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        backgroundColor: theme.colors.surfaceHigh,
+    },
+    actionText: {
+        fontSize: 13,
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    actionPrimary: {
+        backgroundColor: theme.colors.button.primary.background,
+    },
+    actionPrimaryText: {
+        fontSize: 13,
+        color: theme.colors.button.primary.tint,
+        ...Typography.default('semiBold'),
+    },
+}));
@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@/icons/vector-icons';
+import { ItemList } from '@/components/ItemList';
+import { ItemGroup } from '@/components/ItemGroup';
+import { Item } from '@/components/Item';
+import { useAllSessions } from '@/sync/storage';
+import { searchIndex, SearchDocument } from '@/sync/searchIndex';
+import { sync } from '@/sync/sync';
+import { getSessionName } from '@/utils/sessionUtils';
+import { useHappyAction } from '@/hooks/useHappyAction';
+import { t } from '@/text';
+
+const ROLE_ICONS: Record<SearchDocument['role'], React.ComponentProps<typeof Ionicons>['name']> = {
+    user: 'person-outline',
+    assistant: 'sparkles-outline',
+    tool: 'construct-outline',
+};
+
+export default function SearchScreen() {
+    const { theme } = useUnistyles();
+    const router = useRouter();
+    const sessions = useAllSessions();
+    const [query, setQuery] = useState('');
+    const [version, setVersion] = useState(0);
+    const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+
+    useEffect(() => searchIndex.subscribe(() => setVersion((v) => v + 1)), []);
+
+    const hits = useMemo(() => searchIndex.search(query, 100), [query, version]);
+    const stats = useMemo(() => searchIndex.getStats(), [version]);
+    const sessionsById = useMemo(() => new Map(sessions.map((s) => [s.id, s])), [sessions]);
+
+    const [indexing, buildIndex] = useHappyAction(async () => {
+        setProgress({ done: 0, total: sessions.length });
+        try {
+            await sync.buildSearchIndex((done, total) => setProgress({ done, total }));
+        } finally {
+            setProgress(null);
+        }
+    });
+
+    return (
+        <KeyboardAvoidingView
+            style={styles.container}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+            <ItemList keyboardShouldPersistTaps="handled" keyboardDismissMode="on-drag">
+                <ItemGroup footer={t('search.indexStats', { messages: stats.messages, sessions: stats.sessions })}>
+                    <View style={styles.searchContainer}>
+                        <TextInput
+                            style={styles.searchInput}
+                            placeholder={t('search.placeholder')}
+                            placeholderTextColor={theme.colors.input.placeholder}
+                            value={query}
+                            onChangeText={setQuery}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            autoFocus={true}
+                            returnKeyType="search"
+                        />
+                    </View>
+                </ItemGroup>
+
+                {query.trim().length > 0 && (
+                    <ItemGroup title={t('search.results')}>
+                        {hits.length === 0 ? (
+                            <Item title={t('search.noResults')} subtitle={t('search.noResultsHint')} showChevron={false} />
+                        ) : hits.map((hit) => {
+                            const session = sessionsById.get(hit.sessionId);
+                            return (
+                                <Item
+                                    key={`${hit.sessionId}:${hit.doc.id}`}
+                                    title={session ? getSessionName(session) : t('search.unknownSession')}
+                                    subtitle={hit.snippet}
+                                    subtitleLines={3}
+                                    icon={<Ionicons name={ROLE_ICONS[hit.doc.role]} size={29} color={theme.colors.textSecondary} />}
+                                    onPress={() => router.push(`/session/${hit.sessionId}?message=${hit.doc.id}`)}
+                                />
+                            );
+                        })}
+                    </ItemGroup>
+                )}
+
+                <ItemGroup footer={t('search.buildIndexFooter')}>
+                    <Item
+                        title={t('search.buildIndex')}
+                        subtitle={progress ? t('search.buildIndexProgress', { done: progress.done, total: progress.total }) : undefined}
+                        icon={<Ionicons name="refresh-outline" size={29} color="#007AFF" />}
+                        onPress={buildIndex}
+                        loading={indexing}
+                        disabled={indexing}
+                        showChevron={false}
+                    />
+                </ItemGroup>
+            </ItemList>
+        </KeyboardAvoidingView>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.groupped.background,
+    },
+    searchContainer: {
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+    },
+    searchInput: {
+        backgroundColor: theme.colors.surface,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 16,
+        color: theme.colors.text,
+    },
+}));
@@ -0,0 +1,133 @@
+import React from 'react';
+import { ActivityIndicator, View } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@/icons/vector-icons';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { t } from '@/text';
+import { sync } from '@/sync/sync';
+import { useSession } from '@/sync/storage';
+import { AuditEvent, summarizeAuditArguments } from '@/sync/auditTypes';
+
+const SOURCE_LABELS = {
+    project: () => t('permissionRules.sourceProject'),
+    account: () => t('permissionRules.sourceAccount'),
+    session: () => t('permissionRules.sourceSession'),
+};
+
+function describeOutcome(event: AuditEvent): string {
+    if (event.type === 'tool') {
+        return event.status === 'success' ? t('sessionAudit.succeeded') : t('sessionAudit.failed');
+    }
+    switch (event.decision) {
+        case 'approved': return t('sessionAudit.approved');
+        case 'approved_for_session': return t('sessionAudit.approvedForSession');
+        case 'denied': return t('sessionAudit.denied');
+        case 'abort': return t('sessionAudit.aborted');
+    }
+}
+
+function describeDetails(event: AuditEvent): string[] {
+    const lines: string[] = [];
+    if (event.type === 'permission') {
+        if (event.decidedBy === 'rule' && event.rule) {
+            lines.push(t('sessionAudit.byRule', { source: SOURCE_LABELS[event.rule.source](), rule: event.rule.description }));
+        } else if (event.decidedBy === 'mode') {
+            lines.push(t('sessionAudit.byMode', { mode: event.mode ?? 'default' }));
+        } else {
+            lines.push(event.sentFrom ? t('sessionAudit.byYouOn', { device: event.sentFrom }) : t('sessionAudit.byYou'));
+        }
+        if (event.reason) {
+            lines.push(event.reason);
+        }
+    } else {
+        if (event.exitCode !== null) {
+            lines.push(t('sessionAudit.exitCode', { code: event.exitCode }));
+        }
+        if (event.files.length > 0) {
+            lines.push(t('sessionAudit.files', { files: event.files.join(', ') }));
+        }
+    }
+    lines.push(new Date(event.time).toLocaleString());
+    return lines;
+}
+
+function AuditEventIcon({ event }: { event: AuditEvent }) {
+    if (event.type === 'tool') {
+        return event.status === 'success'
+            ? <Ionicons name="terminal-outline" size={29} color="#34C759" />
+            : <Ionicons name="terminal-outline" size={29} color="#FF3B30" />;
+    }
+    return event.decision === 'approved' || event.decision === 'approved_for_session'
+        ? <Ionicons name="shield-checkmark-outline" size={29} color="#34C759" />
+        : <Ionicons name="shield-outline" size={29} color="#FF3B30" />;
+}
+
+export default function SessionAuditScreen() {
+    const { theme } = useUnistyles();
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const sessionId = id!;
+    const session = useSession(sessionId);
+    const [events, setEvents] = React.useState<AuditEvent[] | null>(null);
+    const [failed, setFailed] = React.useState(false);
+
+    React.useEffect(() => {
+        let cancelled = false;
+        sync.getSessionAudit(sessionId)
+            .then((loaded) => {
+                if (!cancelled) {
+                    // Newest first, the recent activity is what people look for
+                    setEvents(loaded.reverse());
+                }
+            })
+            .catch((error) => {
+                console.error('Failed to load session audit log:', error);
+                if (!cancelled) {
+                    setFailed(true);
+                    setEvents([]);
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId]);
+
+    if (!session) {
+        return null;
+    }
+
+    if (events === null) {
+        return (
+            <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+                <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+            </View>
+        );
+    }
+
+    return (
+        <ItemList>
+            <ItemGroup footer={t('sessionAudit.footer')}>
+                {events.length === 0 ? (
+                    <Item
+                        title={failed ? t('sessionAudit.loadFailed') : t('sessionAudit.empty')}
+                        icon={<Ionicons name="document-text-outline" size={29} color="#8E8E93" />}
+                        showChevron={false}
+                    />
+                ) : events.map((event) => (
+                    <Item
+                        key={event.id}
+                        title={`${event.tool} ${summarizeAuditArguments(event.arguments)}`}
+                        subtitle={describeDetails(event).join('\n')}
+                        subtitleLines={0}
+                        detail={describeOutcome(event)}
+                        icon={<AuditEventIcon event={event} />}
+                        copy={JSON.stringify(event.arguments, null, 2)}
+                        showChevron={false}
+                    />
+                ))}
+            </ItemGroup>
+        </ItemList>
+    );
+}
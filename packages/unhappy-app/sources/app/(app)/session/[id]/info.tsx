@@ -7,11 +7,14 @@ import { Item } from '@/components/Item';
 import { ItemGroup } from '@/components/ItemGroup';
 import { ItemList } from '@/components/ItemList';
 import { Avatar } from '@/components/Avatar';
-import { useSession, useIsDataReady } from '@/sync/storage';
+import { useSession, useIsDataReady, useFriend, useSetting, storage } from '@/sync/storage';
+import { getDisplayName } from '@/sync/friendTypes';
+import { sync } from '@/sync/sync';
 import { getSessionName, useSessionStatus, formatOSPlatform, formatPathRelativeToProjectBase, getSessionAvatarId } from '@/utils/sessionUtils';
 import * as Clipboard from 'expo-clipboard';
 import { Modal } from '@/modal';
 import { sessionKill, sessionDelete } from '@/sync/ops';
+import { races } from '@/sync/races';
 import { useUnistyles } from 'react-native-unistyles';
 import { layout } from '@/components/layout';
 import { t } from '@/text';
@@ -20,6 +23,9 @@ import { CodeView } from '@/components/CodeView';
 import { Session } from '@/sync/storageTypes';
 import { useHappyAction } from '@/hooks/useHappyAction';
 import { HappyError } from '@/utils/errors';
+import { saveSessionArchive } from '@/utils/sessionArchiveFile';
+import { formatBudget, formatBudgetAmount, resolveBudget } from '@/sync/budget';
+import { promptBudget } from '@/utils/promptBudget';
 
 // Animated status dot component
 function StatusDot({ color, isPulsing, size = 8 }: { color: string; isPulsing?: boolean; size?: number }) {
@@ -66,6 +72,13 @@ function SessionInfoContent({ session }: { session: Session }) {
     const devModeEnabled = __DEV__;
     const sessionName = getSessionName(session);
     const sessionStatus = useSessionStatus(session);
+    const race = React.useMemo(() => races.findBySession(session.id), [session.id]);
+    const sharedBy = useFriend(session.sharedBy ?? undefined);
+    const profiles = useSetting('profiles');
+    const accountBudget = useSetting('sessionBudget');
+    const profileBudget = profiles.find((p) => p.id === session.profileId)?.budget;
+    const budget = resolveBudget(session.budget, profileBudget, accountBudget);
+    const budgetState = session.agentState?.budget;
     
     // Check if CLI version is outdated
     const isCliOutdated = session.metadata?.version && !isVersionSupported(session.metadata.version, MINIMUM_CLI_VERSION);
@@ -90,6 +103,15 @@ function SessionInfoContent({ session }: { session: Session }) {
         }
     }, [session]);
 
+    const [exportingSession, performExport] = useHappyAction(async () => {
+        try {
+            await saveSessionArchive(await sync.exportSession(session.id));
+        } catch (error) {
+            console.error('Failed to export session:', error);
+            throw new HappyError(t('sessionArchive.exportFailed'), false);
+        }
+    });
+
     // Use HappyAction for archiving - it handles errors automatically
     const [archivingSession, performArchive] = useHappyAction(async () => {
         const result = await sessionKill(session.id);
@@ -101,6 +123,13 @@ function SessionInfoContent({ session }: { session: Session }) {
         router.back();
     });
 
+    const handleSetBudget = useCallback(async () => {
+        const result = await promptBudget(t('budget.sessionBudget'), session.budget);
+        if (result !== undefined) {
+            storage.getState().updateSessionBudget(session.id, result);
+        }
+    }, [session.id, session.budget]);
+
     const handleArchiveSession = useCallback(() => {
         Modal.alert(
             t('sessionInfo.archiveSession'),
@@ -271,7 +300,73 @@ function SessionInfoContent({ session }: { session: Session }) {
 
                 {/* Quick Actions */}
                 <ItemGroup title={t('sessionInfo.quickActions')}>
-                    {session.metadata?.machineId && (
+                    {session.sharedBy && (
+                        <Item
+                            title={t('sessionSharing.sharedBy')}
+                            detail={sharedBy ? getDisplayName(sharedBy) : undefined}
+                            icon={<Ionicons name="people-outline" size={29} color="#007AFF" />}
+                            onPress={() => router.push(`/user/${session.sharedBy}`)}
+                        />
+                    )}
+                    {sync.isSessionShareable(session.id) && (
+                        <Item
+                            title={t('sessionSharing.title')}
+                            subtitle={t('sessionSharing.shareSubtitle')}
+                            icon={<Ionicons name="share-outline" size={29} color="#007AFF" />}
+                            onPress={() => router.push(`/session/${session.id}/sharing`)}
+                        />
+                    )}
+                    {session.metadata?.imported && (
+                        <Item
+                            title={t('sessionArchive.importedAt')}
+                            subtitle={formatDate(session.metadata.imported.importedAt)}
+                            icon={<Ionicons name="archive-outline" size={29} color="#007AFF" />}
+                            showChevron={false}
+                        />
+                    )}
+                    {race && (
+                        <Item
+                            title={t('race.openRace')}
+                            subtitle={t('race.openRaceSubtitle', { count: race.contestants.length })}
+                            icon={<Ionicons name="git-compare-outline" size={29} color="#007AFF" />}
+                            onPress={() => router.push(`/race/${race.id}`)}
+                        />
+                    )}
+                    {!session.sharedBy && (
+                        <Item
+                            title={t('sessionAudit.title')}
+                            subtitle={t('sessionAudit.subtitle')}
+                            icon={<Ionicons name="document-text-outline" size={29} color="#007AFF" />}
+                            onPress={() => router.push(`/session/${session.id}/audit`)}
+                        />
+                    )}
+                    {!session.sharedBy && (
+                        <Item
+                            title={t('budget.sessionBudget')}
+                            subtitle={budgetState
+                                ? t('budget.spent', { amount: formatBudgetAmount(budgetState.unit, budgetState.spent) })
+                                : t('budget.sessionSubtitle')}
+                            detail={budget ? formatBudget(budget) : t('budget.none')}
+                            icon={<Ionicons name="wallet-outline" size={29} color="#007AFF" />}
+                            onPress={handleSetBudget}
+                        />
+                    )}
+                    <Item
+                        title={t('sessionArchive.exportTitle')}
+                        subtitle={t('sessionArchive.exportSubtitle')}
+                        icon={<Ionicons name="download-outline" size={29} color="#007AFF" />}
+                        onPress={performExport}
+                        loading={exportingSession}
+                    />
+                    {!session.sharedBy && sessionStatus.isConnected && (
+                        <Item
+                            title={t('sessionTerminal.title')}
+                            subtitle={t('sessionTerminal.openSubtitle')}
+                            icon={<Ionicons name="terminal-outline" size={29} color="#007AFF" />}
+                            onPress={() => router.push(`/session/${session.id}/terminal`)}
+                        />
+                    )}
+                    {!session.sharedBy && session.metadata?.machineId && (
                         <Item
                             title={t('sessionInfo.viewMachine')}
                             subtitle={t('sessionInfo.viewMachineSubtitle')}
@@ -279,7 +374,7 @@ function SessionInfoContent({ session }: { session: Session }) {
                             onPress={() => router.push(`/machine/${session.metadata?.machineId}`)}
                         />
                     )}
-                    {session.metadata?.path?.includes('/.unhappy/worktree/') && session.metadata?.machineId && (
+                    {!session.sharedBy && session.metadata?.path?.includes('/.unhappy/worktree/') && session.metadata?.machineId && (
                         <Item
                             title={t('finishSession.title')}
                             subtitle={t('finishSession.subtitle')}
@@ -287,7 +382,7 @@ function SessionInfoContent({ session }: { session: Session }) {
                             onPress={() => router.push(`/session/${session.id}/finish`)}
                         />
                     )}
-                    {sessionStatus.isConnected && (
+                    {!session.sharedBy && sessionStatus.isConnected && (
                         <Item
                             title={t('sessionInfo.archiveSession')}
                             subtitle={t('sessionInfo.archiveSessionSubtitle')}
@@ -295,7 +390,7 @@ function SessionInfoContent({ session }: { session: Session }) {
                             onPress={handleArchiveSession}
                         />
                     )}
-                    {!sessionStatus.isConnected && !session.active && (
+                    {!session.sharedBy && !sessionStatus.isConnected && !session.active && (
                         <Item
                             title={t('sessionInfo.deleteSession')}
                             subtitle={t('sessionInfo.deleteSessionSubtitle')}
@@ -1,22 +1,43 @@
 import * as React from 'react';
-import { ActivityIndicator, Platform, View } from 'react-native';
-import { useLocalSearchParams } from 'expo-router';
+import { ActivityIndicator, Platform, Pressable, View } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useUnistyles, StyleSheet } from 'react-native-unistyles';
 import { Text } from '@/components/StyledText';
 import { Typography } from '@/constants/Typography';
-import { sessionBash } from '@/sync/ops';
+import { sessionGitDiff } from '@/sync/ops';
 import { storage } from '@/sync/storage';
-import { ChangesEditor, type ChangesEditorFile } from '@/components/diff/ChangesEditor';
+import { sync } from '@/sync/sync';
+import { buildReviewPrompt, reviewComments, type ReviewComment } from '@/sync/reviewComments';
+import { ChangesEditor, type ChangesEditorFile, type ChangesEditorReview } from '@/components/diff/ChangesEditor';
+import type { ReviewDiffComment } from '@/components/diff/ReviewDiffView';
 import { parseUnifiedDiffToChangesEditorFiles } from '@/components/diff/parseUnifiedDiff';
+import { Modal } from '@/modal';
 import { t } from '@/text';
 import { layout } from '@/components/layout';
 
+function toDiffComment(comment: ReviewComment, state: ReviewDiffComment['state']): ReviewDiffComment {
+    return {
+        id: comment.id,
+        side: comment.side,
+        startLine: comment.startLine,
+        endLine: comment.endLine,
+        body: comment.body,
+        state,
+    };
+}
+
 export default function SessionReviewScreen() {
     const { theme } = useUnistyles();
     const styles = stylesheet;
+    const router = useRouter();
     const { id: sessionId } = useLocalSearchParams<{ id: string }>();
 
     const [files, setFiles] = React.useState<ChangesEditorFile[] | null>(null);
+    const [repoRoot, setRepoRoot] = React.useState<string | null>(null);
+    const [submitting, setSubmitting] = React.useState(false);
+    const [reviewVersion, setReviewVersion] = React.useState(0);
+    React.useEffect(() => reviewComments.subscribe(() => setReviewVersion((v) => v + 1)), []);
+    const reviews = React.useMemo(() => reviewComments.get(String(sessionId)), [sessionId, reviewVersion]);
     const [isLoading, setIsLoading] = React.useState(true);
     const [error, setError] = React.useState<string | null>(null);
 
@@ -42,42 +63,17 @@ export default function SessionReviewScreen() {
                     return;
                 }
 
-                const gitCheck = await sessionBash(String(sessionId), {
-                    command: 'git rev-parse --is-inside-work-tree',
-                    cwd,
-                    timeout: 5000,
-                });
-                if (!gitCheck.success || gitCheck.exitCode !== 0) {
-                    setError(t('files.notRepo'));
-                    return;
-                }
-
-                // Prefer a single diff that includes staged+unstaged without duplication.
-                // If HEAD doesn't exist (fresh repo), fall back to staged changes.
-                const head = await sessionBash(String(sessionId), {
-                    command: 'git rev-parse --verify HEAD',
-                    cwd,
-                    timeout: 5000,
-                });
-
-                const diffCmd =
-                    head.success && head.exitCode === 0
-                        ? 'git diff --no-ext-diff HEAD'
-                        : 'git diff --no-ext-diff --cached';
-
-                const diff = await sessionBash(String(sessionId), {
-                    command: diffCmd,
-                    cwd,
-                    timeout: 15000,
-                });
+                // Staged and unstaged changes against HEAD, or staged changes in a repo without commits
+                const diff = await sessionGitDiff(String(sessionId), { path: cwd, mode: 'head' });
 
                 if (cancelled) return;
                 if (!diff.success) {
-                    setError(diff.error || t('errors.operationFailed'));
+                    setError(diff.errorCode === 'NOT_GIT_REPO' ? t('files.notRepo') : diff.error || t('errors.operationFailed'));
                     return;
                 }
 
-                const unified = (diff.stdout || '').trimEnd();
+                setRepoRoot(diff.repoRoot ?? null);
+                const unified = (diff.diff || '').trimEnd();
                 if (!unified.trim()) {
                     setFiles([]);
                     return;
@@ -99,6 +95,58 @@ export default function SessionReviewScreen() {
         };
     }, [sessionId]);
 
+    const review = React.useMemo<ChangesEditorReview>(() => ({
+        commentsFor: (file) => [
+            ...reviews.reviews.flatMap((r) => r.comments
+                .filter((c) => c.path === file.path)
+                .map((c) => toDiffComment(c, c.resolvedAt ? 'resolved' : 'open'))),
+            ...reviews.drafts
+                .filter((c) => c.path === file.path)
+                .map((c) => toDiffComment(c, 'draft')),
+        ],
+        onAddComment: (file, selection, body) => {
+            reviewComments.addDraft(String(sessionId), {
+                path: file.path,
+                absolutePath: repoRoot ? `${repoRoot}/${file.path}` : null,
+                ...selection,
+                body,
+            });
+        },
+        onRemoveComment: (commentId) => reviewComments.removeDraft(String(sessionId), commentId),
+    }), [repoRoot, reviews, sessionId]);
+
+    const drafts = reviews.drafts;
+
+    const discard = React.useCallback(async () => {
+        const confirmed = await Modal.confirm(t('codeReview.discard'), t('codeReview.discardConfirm'), {
+            confirmText: t('codeReview.discard'),
+            destructive: true,
+        });
+        if (confirmed) {
+            reviewComments.discardDrafts(String(sessionId));
+        }
+    }, [sessionId]);
+
+    const submit = React.useCallback(async () => {
+        if (drafts.length === 0 || submitting) return;
+        setSubmitting(true);
+        try {
+            const localId = await sync.sendMessage(
+                String(sessionId),
+                buildReviewPrompt(drafts),
+                t('codeReview.messageDisplay', { count: drafts.length })
+            );
+            if (!localId) {
+                Modal.alert(t('common.error'), t('errors.operationFailed'));
+                return;
+            }
+            reviewComments.markSubmitted(String(sessionId), localId);
+            router.back();
+        } finally {
+            setSubmitting(false);
+        }
+    }, [drafts, router, sessionId, submitting]);
+
     if (isLoading) {
         return (
             <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
@@ -133,8 +181,29 @@ export default function SessionReviewScreen() {
     return (
         <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
             <View style={styles.content}>
-                <ChangesEditor files={files} allowRawToggle defaultMode="rendered" />
+                <Text style={styles.hint}>{t('codeReview.hint')}</Text>
+                <ChangesEditor files={files} allowRawToggle defaultMode="rendered" review={review} />
             </View>
+            {drafts.length > 0 ? (
+                <View style={[styles.submitBar, { borderTopColor: theme.colors.divider, backgroundColor: theme.colors.surfaceHigh }]}>
+                    <Text style={styles.submitBarText}>{t('codeReview.pendingComments', { count: drafts.length })}</Text>
+                    <Pressable onPress={discard} style={styles.discardButton} accessibilityRole="button">
+                        <Text style={[styles.discardButtonText, { color: theme.colors.textDestructive }]}>{t('codeReview.discard')}</Text>
+                    </Pressable>
+                    <Pressable
+                        onPress={submit}
+                        disabled={submitting}
+                        style={[styles.submitButton, { backgroundColor: theme.colors.button.primary.background }]}
+                        accessibilityRole="button"
+                    >
+                        {submitting ? (
+                            <ActivityIndicator size="small" color={theme.colors.button.primary.tint} />
+                        ) : (
+                            <Text style={[styles.submitButtonText, { color: theme.colors.button.primary.tint }]}>{t('codeReview.submit')}</Text>
+                        )}
+                    </Pressable>
+                </View>
+            ) : null}
         </View>
     );
 }
@@ -160,6 +229,45 @@ const stylesheet = StyleSheet.create((theme) => ({
         paddingHorizontal: 20,
         gap: 12,
     },
+    hint: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        marginBottom: 8,
+        ...Typography.default(),
+    },
+    submitBar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 10,
+        borderTopWidth: StyleSheet.hairlineWidth,
+    },
+    submitBarText: {
+        flex: 1,
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    discardButton: {
+        paddingHorizontal: 8,
+        paddingVertical: 8,
+    },
+    discardButtonText: {
+        fontSize: 14,
+        ...Typography.default('semiBold'),
+    },
+    submitButton: {
+        minWidth: 96,
+        alignItems: 'center',
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 8,
+    },
+    submitButtonText: {
+        fontSize: 14,
+        ...Typography.default('semiBold'),
+    },
     centerText: {
         fontSize: 14,
         color: theme.colors.textSecondary,
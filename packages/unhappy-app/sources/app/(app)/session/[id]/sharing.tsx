@@ -0,0 +1,173 @@
+import React from 'react';
+import { ActivityIndicator, View } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@/icons/vector-icons';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Avatar } from '@/components/Avatar';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+import { sync } from '@/sync/sync';
+import { useAcceptedFriends, useSession } from '@/sync/storage';
+import { getDisplayName, UserProfile } from '@/sync/friendTypes';
+import { SessionShare, SessionShareError } from '@/sync/apiSharing';
+
+function FriendAvatar({ friend }: { friend: UserProfile }) {
+    return (
+        <Avatar
+            id={friend.id}
+            size={40}
+            imageUrl={friend.avatar?.url || friend.avatar?.path}
+            thumbhash={friend.avatar?.thumbhash}
+        />
+    );
+}
+
+export default function SessionSharingScreen() {
+    const { theme } = useUnistyles();
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const sessionId = id!;
+    const session = useSession(sessionId);
+    const friends = useAcceptedFriends();
+    const [shares, setShares] = React.useState<SessionShare[] | null>(null);
+    const [busyUserId, setBusyUserId] = React.useState<string | null>(null);
+    const shareable = sync.isSessionShareable(sessionId);
+
+    const loadShares = React.useCallback(async () => {
+        try {
+            setShares(await sync.getSessionShares(sessionId));
+        } catch (error) {
+            console.error('Failed to load session shares:', error);
+            setShares([]);
+        }
+    }, [sessionId]);
+
+    React.useEffect(() => {
+        if (shareable) {
+            loadShares();
+        }
+    }, [shareable, loadShares]);
+
+    const handleShare = React.useCallback(async (friend: UserProfile) => {
+        if (!friend.contentPublicKey) {
+            Modal.alert(t('common.error'), t('sessionSharing.friendNotReady', { name: getDisplayName(friend) }));
+            return;
+        }
+        setBusyUserId(friend.id);
+        try {
+            await sync.shareSession(sessionId, friend);
+            await loadShares();
+        } catch (error) {
+            const message = error instanceof SessionShareError && error.status === 403
+                ? t('sessionSharing.notFriends')
+                : t('sessionSharing.shareFailed');
+            Modal.alert(t('common.error'), message);
+        } finally {
+            setBusyUserId(null);
+        }
+    }, [sessionId, loadShares]);
+
+    const handleRevoke = React.useCallback(async (userId: string, name: string) => {
+        const confirmed = await Modal.confirm(
+            t('sessionSharing.revokeTitle'),
+            t('sessionSharing.revokeConfirm', { name }),
+            { confirmText: t('sessionSharing.revoke'), destructive: true }
+        );
+        if (!confirmed) {
+            return;
+        }
+        setBusyUserId(userId);
+        try {
+            await sync.revokeSessionShare(sessionId, userId);
+            await loadShares();
+        } catch (error) {
+            Modal.alert(t('common.error'), t('sessionSharing.revokeFailed'));
+        } finally {
+            setBusyUserId(null);
+        }
+    }, [sessionId, loadShares]);
+
+    if (!session) {
+        return null;
+    }
+
+    if (!shareable) {
+        return (
+            <ItemList>
+                <ItemGroup footer={t('sessionSharing.notShareableDescription')}>
+                    <Item
+                        title={t('sessionSharing.notShareable')}
+                        icon={<Ionicons name="lock-closed-outline" size={29} color="#8E8E93" />}
+                        showChevron={false}
+                    />
+                </ItemGroup>
+            </ItemList>
+        );
+    }
+
+    if (shares === null) {
+        return (
+            <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+                <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+            </View>
+        );
+    }
+
+    const sharedIds = new Set(shares.map((share) => share.userId));
+    const unsharedFriends = friends.filter((friend) => !sharedIds.has(friend.id));
+
+    return (
+        <ItemList>
+            <ItemGroup
+                title={t('sessionSharing.sharedWith')}
+                footer={t('sessionSharing.readOnlyFooter')}
+            >
+                {shares.length === 0 ? (
+                    <Item
+                        title={t('sessionSharing.notShared')}
+                        icon={<Ionicons name="people-outline" size={29} color="#8E8E93" />}
+                        showChevron={false}
+                    />
+                ) : shares.map((share) => {
+                    const friend = friends.find((f) => f.id === share.userId);
+                    const name = friend ? getDisplayName(friend) : share.userId;
+                    return (
+                        <Item
+                            key={share.userId}
+                            title={name}
+                            subtitle={friend ? `@${friend.username}` : undefined}
+                            leftElement={friend ? <FriendAvatar friend={friend} /> : undefined}
+                            detail={t('sessionSharing.revoke')}
+                            destructive
+                            loading={busyUserId === share.userId}
+                            disabled={busyUserId !== null}
+                            onPress={() => handleRevoke(share.userId, name)}
+                            showChevron={false}
+                        />
+                    );
+                })}
+            </ItemGroup>
+
+            <ItemGroup
+                title={t('sessionSharing.friends')}
+                footer={friends.length === 0 ? t('sessionSharing.noFriends') : undefined}
+            >
+                {unsharedFriends.map((friend) => (
+                    <Item
+                        key={friend.id}
+                        title={getDisplayName(friend)}
+                        subtitle={`@${friend.username}`}
+                        leftElement={<FriendAvatar friend={friend} />}
+                        detail={t('sessionSharing.share')}
+                        loading={busyUserId === friend.id}
+                        disabled={busyUserId !== null}
+                        onPress={() => handleShare(friend)}
+                        showChevron={false}
+                    />
+                ))}
+            </ItemGroup>
+        </ItemList>
+    );
+}
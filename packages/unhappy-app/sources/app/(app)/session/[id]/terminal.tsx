@@ -0,0 +1,374 @@
+import React from 'react';
+import { ActivityIndicator, NativeSyntheticEvent, Platform, Pressable, Text, TextInput, TextInputKeyPressEventData, View } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
+import { Ionicons } from '@/icons/vector-icons';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+import { sync } from '@/sync/sync';
+import { useSession } from '@/sync/storage';
+import { sessionTerminalClose, sessionTerminalInput, sessionTerminalOpen, sessionTerminalResize } from '@/sync/ops';
+import type { TerminalFrame } from '@/sync/terminalTypes';
+import { TerminalView } from '@/components/terminal/TerminalView';
+import { TerminalKeyBar, toControlKey } from '@/components/terminal/TerminalKeyBar';
+import { screenFromSnapshot, TerminalEmulator, TerminalScreen } from '@/utils/terminalEmulator';
+
+type OpenTerminal = { terminalId: string; backend: 'tmux' | 'pty' };
+
+// Terminals keep running when the screen is left, so a dev server or htop is
+// still there when coming back. Remembered per session for this app run.
+const openTerminals = new Map<string, OpenTerminal>();
+
+const SPECIAL_KEYS: Record<string, string> = {
+    Backspace: '\x7f',
+    Tab: '\t',
+    Escape: '\x1b',
+    ArrowUp: '\x1b[A',
+    ArrowDown: '\x1b[B',
+    ArrowRight: '\x1b[C',
+    ArrowLeft: '\x1b[D',
+    Home: '\x1b[H',
+    End: '\x1b[F',
+    Delete: '\x1b[3~',
+    PageUp: '\x1b[5~',
+    PageDown: '\x1b[6~',
+};
+
+const KeyboardWrapper = Platform.select({
+    ios: KeyboardAvoidingView,
+    default: React.Fragment,
+});
+
+const keyboardProps = Platform.select({
+    ios: {
+        behavior: 'padding' as const,
+        keyboardVerticalOffset: 0,
+        style: { flex: 1 },
+    },
+    default: {},
+});
+
+export default function SessionTerminalScreen() {
+    const { theme } = useUnistyles();
+    const router = useRouter();
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const sessionId = id!;
+    const session = useSession(sessionId);
+    const inputRef = React.useRef<TextInput>(null);
+    const terminalRef = React.useRef<OpenTerminal | null>(null);
+    const emulatorRef = React.useRef<TerminalEmulator | null>(null);
+    const sizeRef = React.useRef<{ cols: number; rows: number } | null>(null);
+    const pendingFramesRef = React.useRef<{ terminalId: string; frame: TerminalFrame }[]>([]);
+    const inputQueueRef = React.useRef<Promise<unknown>>(Promise.resolve());
+    const [screen, setScreen] = React.useState<TerminalScreen | null>(null);
+    const [status, setStatus] = React.useState<'starting' | 'running' | 'exited' | 'error'>('starting');
+    const [exitCode, setExitCode] = React.useState<number | null>(null);
+    const [error, setError] = React.useState<string | null>(null);
+    const [backend, setBackend] = React.useState<'tmux' | 'pty' | null>(null);
+    const [ctrl, setCtrl] = React.useState(false);
+
+    const applyFrame = React.useCallback((frame: TerminalFrame) => {
+        if (frame.t === 'screen') {
+            setScreen(screenFromSnapshot(frame));
+        } else if (frame.t === 'data') {
+            const emulator = emulatorRef.current;
+            if (emulator) {
+                emulator.write(frame.data);
+                setScreen(emulator.getScreen());
+            }
+        } else {
+            openTerminals.delete(sessionId);
+            terminalRef.current = null;
+            setExitCode(frame.code);
+            setStatus('exited');
+        }
+    }, [sessionId]);
+
+    React.useEffect(() => {
+        return sync.subscribeToTerminal(sessionId, (terminalId, frame) => {
+            if (terminalRef.current?.terminalId === terminalId) {
+                applyFrame(frame);
+            } else if (!terminalRef.current) {
+                // Output can arrive before terminal-open returns
+                pendingFramesRef.current.push({ terminalId, frame });
+            }
+        });
+    }, [sessionId, applyFrame]);
+
+    const attach = React.useCallback((terminal: OpenTerminal, cols: number, rows: number) => {
+        terminalRef.current = terminal;
+        emulatorRef.current = terminal.backend === 'pty' ? new TerminalEmulator(cols, rows) : null;
+        setBackend(terminal.backend);
+        setStatus('running');
+        const pending = pendingFramesRef.current.filter((entry) => entry.terminalId === terminal.terminalId);
+        pendingFramesRef.current = [];
+        for (const entry of pending) {
+            applyFrame(entry.frame);
+        }
+    }, [applyFrame]);
+
+    const start = React.useCallback(async (cols: number, rows: number) => {
+        setStatus('starting');
+        setError(null);
+        setScreen(null);
+        setExitCode(null);
+        pendingFramesRef.current = [];
+
+        // Reattach to a terminal left running, resizing makes it redraw
+        const existing = openTerminals.get(sessionId);
+        if (existing) {
+            const resized = await sessionTerminalResize(sessionId, existing.terminalId, cols, rows);
+            if (resized.success) {
+                attach(existing, cols, rows);
+                return;
+            }
+            openTerminals.delete(sessionId);
+        }
+
+        const result = await sessionTerminalOpen(sessionId, cols, rows);
+        if (!result.success || !result.terminalId) {
+            setError(result.error ?? null);
+            setStatus('error');
+            return;
+        }
+        const terminal: OpenTerminal = { terminalId: result.terminalId, backend: result.backend ?? 'tmux' };
+        openTerminals.set(sessionId, terminal);
+        attach(terminal, cols, rows);
+    }, [sessionId, attach]);
+
+    const handleResize = React.useCallback((cols: number, rows: number) => {
+        const previous = sizeRef.current;
+        sizeRef.current = { cols, rows };
+        if (!previous) {
+            start(cols, rows);
+            return;
+        }
+        if (previous.cols === cols && previous.rows === rows) {
+            return;
+        }
+        const terminal = terminalRef.current;
+        if (!terminal) {
+            return;
+        }
+        if (emulatorRef.current) {
+            emulatorRef.current.resize(cols, rows);
+            setScreen(emulatorRef.current.getScreen());
+        }
+        sessionTerminalResize(sessionId, terminal.terminalId, cols, rows);
+    }, [sessionId, start]);
+
+    // Keystrokes are sent one RPC at a time so they can't overtake each other
+    const send = React.useCallback((data: string) => {
+        const terminal = terminalRef.current;
+        if (!terminal || data.length === 0) {
+            return;
+        }
+        inputQueueRef.current = inputQueueRef.current.then(() => sessionTerminalInput(sessionId, terminal.terminalId, data));
+    }, [sessionId]);
+
+    const handleText = React.useCallback((text: string) => {
+        if (text.length === 0) {
+            return;
+        }
+        if (ctrl) {
+            setCtrl(false);
+            send(toControlKey(text[0]) + text.slice(1));
+        } else {
+            send(text);
+        }
+    }, [ctrl, send]);
+
+    const handleKeyPress = React.useCallback((event: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
+        const { key, ctrlKey, metaKey } = event.nativeEvent as TextInputKeyPressEventData & { ctrlKey?: boolean; metaKey?: boolean };
+        if (key === 'Enter') {
+            // Native platforms deliver Enter through onSubmitEditing
+            if (Platform.OS === 'web') {
+                event.preventDefault();
+                send('\r');
+            }
+            return;
+        }
+        const special = SPECIAL_KEYS[key];
+        if (special) {
+            if (Platform.OS === 'web') {
+                event.preventDefault();
+            }
+            send(special);
+            return;
+        }
+        if (Platform.OS === 'web' && ctrlKey && !metaKey && key.length === 1) {
+            event.preventDefault();
+            send(toControlKey(key));
+        }
+    }, [send]);
+
+    const handleSubmit = React.useCallback(() => {
+        if (Platform.OS !== 'web') {
+            send('\r');
+        }
+    }, [send]);
+
+    const handleKey = React.useCallback((data: string) => {
+        send(data);
+        inputRef.current?.focus();
+    }, [send]);
+
+    const handleRestart = React.useCallback(() => {
+        const size = sizeRef.current;
+        if (size) {
+            start(size.cols, size.rows);
+        }
+    }, [start]);
+
+    const handleClose = React.useCallback(async () => {
+        const terminal = terminalRef.current;
+        if (!terminal) {
+            router.back();
+            return;
+        }
+        const confirmed = await Modal.confirm(
+            t('sessionTerminal.closeTitle'),
+            t('sessionTerminal.closeConfirm'),
+            { confirmText: t('common.close'), destructive: true }
+        );
+        if (!confirmed) {
+            return;
+        }
+        openTerminals.delete(sessionId);
+        terminalRef.current = null;
+        await sessionTerminalClose(sessionId, terminal.terminalId);
+        router.back();
+    }, [sessionId, router]);
+
+    const HeaderRight = React.useCallback(() => (
+        <Pressable onPress={handleClose} hitSlop={10} style={styles.headerButton}>
+            <Ionicons name="stop-circle-outline" size={24} color={theme.colors.header.tint} />
+        </Pressable>
+    ), [handleClose, theme.colors.header.tint]);
+
+    if (!session || session.sharedBy) {
+        return null;
+    }
+
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerRight: status === 'running' ? HeaderRight : undefined,
+                }}
+            />
+            <KeyboardWrapper {...keyboardProps}>
+                <View style={styles.container}>
+                    <TerminalView
+                        screen={screen}
+                        onResize={handleResize}
+                        onPress={() => inputRef.current?.focus()}
+                    />
+                    {status === 'starting' && (
+                        <View style={styles.overlay} pointerEvents="none">
+                            <ActivityIndicator size="small" color={theme.colors.terminal.stdout} />
+                            <Text style={styles.overlayText}>{t('sessionTerminal.starting')}</Text>
+                        </View>
+                    )}
+                    {(status === 'exited' || status === 'error') && (
+                        <View style={styles.statusBar}>
+                            <Text style={styles.statusText} numberOfLines={2}>
+                                {status === 'error'
+                                    ? error ?? t('sessionTerminal.openFailed')
+                                    : exitCode !== null
+                                        ? t('sessionTerminal.exitedWithCode', { code: exitCode })
+                                        : t('sessionTerminal.exited')}
+                            </Text>
+                            <Pressable style={styles.statusButton} onPress={handleRestart}>
+                                <Text style={styles.statusButtonText}>
+                                    {status === 'error' ? t('common.retry') : t('sessionTerminal.restart')}
+                                </Text>
+                            </Pressable>
+                        </View>
+                    )}
+                    {status === 'running' && backend === 'pty' && (
+                        <Text style={styles.notice}>{t('sessionTerminal.noTmux')}</Text>
+                    )}
+                    {status === 'running' && (
+                        <TerminalKeyBar ctrl={ctrl} onToggleCtrl={() => setCtrl((value) => !value)} onKey={handleKey} />
+                    )}
+                    <TextInput
+                        ref={inputRef}
+                        style={styles.hiddenInput}
+                        value=""
+                        autoFocus
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        autoComplete="off"
+                        spellCheck={false}
+                        submitBehavior="submit"
+                        onChangeText={handleText}
+                        onKeyPress={handleKeyPress}
+                        onSubmitEditing={handleSubmit}
+                    />
+                </View>
+            </KeyboardWrapper>
+        </>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.terminal.background,
+    },
+    headerButton: {
+        paddingHorizontal: 8,
+    },
+    overlay: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+    },
+    overlayText: {
+        fontSize: 13,
+        color: theme.colors.terminal.emptyOutput,
+    },
+    statusBar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        gap: 12,
+        backgroundColor: theme.colors.surfaceHigh,
+    },
+    statusText: {
+        flex: 1,
+        fontSize: 14,
+        color: theme.colors.text,
+    },
+    statusButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 6,
+        backgroundColor: theme.colors.button.primary.background,
+    },
+    statusButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: theme.colors.button.primary.tint,
+    },
+    notice: {
+        fontSize: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 4,
+        color: theme.colors.terminal.emptyOutput,
+    },
+    hiddenInput: {
+        position: 'absolute',
+        width: 1,
+        height: 1,
+        opacity: 0,
+    },
+}));
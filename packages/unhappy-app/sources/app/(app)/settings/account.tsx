@@ -15,6 +15,8 @@ import { getDisplayName } from '@/sync/profile';
 import { useProfile, useSettingMutable } from '@/sync/storage';
 import { sync } from '@/sync/sync';
 import { t } from '@/text';
+import { HappyError } from '@/utils/errors';
+import { pickSessionArchive } from '@/utils/sessionArchiveFile';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import * as Clipboard from 'expo-clipboard';
 import { Image } from 'expo-image';
@@ -80,6 +82,22 @@ export default React.memo(() => {
         }
     };
 
+    // Session import
+    const [importingSession, handleImportSession] = useHappyAction(async () => {
+        const archive = await pickSessionArchive();
+        if (!archive) {
+            return;
+        }
+        let sessionId: string;
+        try {
+            sessionId = await sync.importSession(archive);
+        } catch (error) {
+            console.error('Failed to import session:', error);
+            throw new HappyError(t('sessionArchive.importFailed'), false);
+        }
+        router.push(`/session/${sessionId}`);
+    });
+
     const handleShowSecret = () => {
         setShowSecret(!showSecret);
     };
@@ -151,6 +169,12 @@ export default React.memo(() => {
                         disabled={isConnecting}
                         showChevron={false}
                     />
+                    <Item
+                        title={t('devices.title')}
+                        subtitle={t('devices.subtitle')}
+                        icon={<Ionicons name="phone-portrait-outline" size={ACCOUNT_ICON_SIZE} color={accentPrimary} />}
+                        onPress={() => router.push('/settings/devices')}
+                    />
                 </ItemGroup>
 
                 {/* Profile Section */}
@@ -275,6 +299,20 @@ export default React.memo(() => {
                     </ItemGroup>
                 )}
 
+                {/* Sessions Section */}
+                <ItemGroup
+                    title={t('sessionArchive.groupTitle')}
+                    footer={t('sessionArchive.groupFooter')}
+                >
+                    <Item
+                        title={t('sessionArchive.importTitle')}
+                        subtitle={t('sessionArchive.importSubtitle')}
+                        icon={<Ionicons name="archive-outline" size={ACCOUNT_ICON_SIZE} color={accentPrimary} />}
+                        onPress={handleImportSession}
+                        loading={importingSession}
+                    />
+                </ItemGroup>
+
                 {/* Analytics Section */}
                 <ItemGroup
                     title={t('settingsAccount.privacy')}
@@ -0,0 +1,145 @@
+import { useAuth } from '@/auth/AuthContext';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { useHappyAction } from '@/hooks/useHappyAction';
+import { Ionicons } from '@/icons/vector-icons';
+import { Modal } from '@/modal';
+import { AccountDevice, fetchDevices, revokeDevice } from '@/sync/apiDevices';
+import { useAllMachines } from '@/sync/storage';
+import { sync } from '@/sync/sync';
+import { t } from '@/text';
+import { isMachineOnline } from '@/utils/machineUtils';
+import { formatLastSeen } from '@/utils/sessionUtils';
+import { useRouter } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator } from 'react-native';
+import { useUnistyles } from 'react-native-unistyles';
+
+const DEVICE_ICON_SIZE = 24;
+
+export default function DevicesSettingsScreen() {
+    const { theme } = useUnistyles();
+    const auth = useAuth();
+    const router = useRouter();
+    const machines = useAllMachines();
+    const [devices, setDevices] = useState<AccountDevice[] | null>(null);
+    const [loadFailed, setLoadFailed] = useState(false);
+
+    const loadDevices = useCallback(async () => {
+        try {
+            setDevices(await fetchDevices(auth.credentials!));
+            setLoadFailed(false);
+        } catch (error) {
+            console.error('Failed to load devices:', error);
+            setLoadFailed(true);
+        }
+    }, [auth.credentials]);
+
+    useEffect(() => {
+        loadDevices();
+    }, [loadDevices]);
+
+    const handleRevoke = async (device: AccountDevice) => {
+        const name = device.name || t('devices.unnamed');
+        const confirmed = await Modal.confirm(
+            t('devices.revokeTitle'),
+            t('devices.revokeConfirm', { name }),
+            { confirmText: t('devices.revoke'), destructive: true }
+        );
+        if (!confirmed) {
+            return;
+        }
+        try {
+            await revokeDevice(auth.credentials!, device.id);
+            setDevices((current) => current?.filter((d) => d.id !== device.id) ?? null);
+        } catch (error) {
+            Modal.alert(t('common.error'), t('devices.revokeFailed'));
+        }
+    };
+
+    const [rotating, handleRotate] = useHappyAction(async () => {
+        const confirmed = await Modal.confirm(
+            t('devices.rotateKey'),
+            t('devices.rotateKeyConfirm'),
+            { confirmText: t('devices.rotateKeyAction'), destructive: true }
+        );
+        if (!confirmed) {
+            return;
+        }
+        // Stored right away, the old secret stops working as soon as the server switched
+        const credentials = await sync.rotateAccountKey();
+        await auth.switchCredentials(credentials);
+    });
+
+    return (
+        <ItemList>
+            <ItemGroup title={t('devices.signedIn')} footer={t('devices.signedInFooter')}>
+                {devices === null && !loadFailed && (
+                    <Item title={t('common.loading')} icon={<ActivityIndicator size="small" />} showChevron={false} />
+                )}
+                {loadFailed && (
+                    <Item title={t('devices.loadFailed')} onPress={loadDevices} showChevron={false} />
+                )}
+                {devices?.map((device) => {
+                    const kind = device.kind === 'cli' ? t('devices.terminal') : t('devices.app');
+                    const seen = device.current
+                        ? t('devices.thisDevice')
+                        : t('status.lastSeen', { time: formatLastSeen(device.lastSeenAt) });
+                    return (
+                        <Item
+                            key={device.id}
+                            title={device.name || t('devices.unnamed')}
+                            subtitle={`${kind} • ${seen}`}
+                            icon={
+                                <Ionicons
+                                    name={device.kind === 'cli' ? 'terminal-outline' : 'phone-portrait-outline'}
+                                    size={DEVICE_ICON_SIZE}
+                                    color={device.current ? theme.colors.status.connected : theme.colors.textSecondary}
+                                />
+                            }
+                            onPress={device.current ? undefined : () => handleRevoke(device)}
+                            showChevron={false}
+                        />
+                    );
+                })}
+            </ItemGroup>
+
+            {machines.length > 0 && (
+                <ItemGroup title={t('settings.machines')}>
+                    {machines.map((machine) => {
+                        const isOnline = isMachineOnline(machine);
+                        return (
+                            <Item
+                                key={machine.id}
+                                title={machine.metadata?.displayName || machine.metadata?.host || t('status.unknown')}
+                                subtitle={isOnline ? t('status.online') : t('status.lastSeen', { time: formatLastSeen(machine.activeAt) })}
+                                icon={
+                                    <Ionicons
+                                        name="desktop-outline"
+                                        size={DEVICE_ICON_SIZE}
+                                        color={isOnline ? theme.colors.status.connected : theme.colors.status.disconnected}
+                                    />
+                                }
+                                onPress={() => router.push(`/machine/${machine.id}`)}
+                            />
+                        );
+                    })}
+                </ItemGroup>
+            )}
+
+            <ItemGroup title={t('devices.security')} footer={t('devices.securityFooter')}>
+                <Item
+                    title={t('devices.rotateKey')}
+                    subtitle={t('devices.rotateKeySubtitle')}
+                    icon={<Ionicons name="key-outline" size={DEVICE_ICON_SIZE} color="#FF3B30" />}
+                    destructive
+                    onPress={handleRotate}
+                    loading={rotating}
+                    disabled={rotating}
+                    showChevron={false}
+                />
+            </ItemGroup>
+        </ItemList>
+    );
+}
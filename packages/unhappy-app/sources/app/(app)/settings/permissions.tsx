@@ -0,0 +1,112 @@
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Typography } from '@/constants/Typography';
+import { Ionicons } from '@/icons/vector-icons';
+import { Modal } from '@/modal';
+import { describePermissionRule, formatPermissionRules, parsePermissionRules, PermissionRule } from '@/sync/permissionRules';
+import { useSettingMutable } from '@/sync/storage';
+import { t } from '@/text';
+import { useEffect, useState } from 'react';
+import { TextInput, View } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+
+const styles = StyleSheet.create((theme) => ({
+    field: {
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+    },
+    input: {
+        ...Typography.mono(),
+        backgroundColor: theme.colors.input.background,
+        borderRadius: 10,
+        padding: 12,
+        fontSize: 13,
+        minHeight: 200,
+        textAlignVertical: 'top',
+        color: theme.colors.text,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+    },
+}));
+
+function ruleIcon(rule: PermissionRule): { name: 'checkmark-circle-outline' | 'close-circle-outline' | 'help-circle-outline'; color: string } {
+    switch (rule.action) {
+        case 'allow': return { name: 'checkmark-circle-outline', color: '#34C759' };
+        case 'deny': return { name: 'close-circle-outline', color: '#FF3B30' };
+        case 'ask': return { name: 'help-circle-outline', color: '#FF9500' };
+    }
+}
+
+export default function PermissionRulesSettingsScreen() {
+    const { theme } = useUnistyles();
+    const [rules, setRules] = useSettingMutable('permissionRules');
+    const [text, setText] = useState(() => formatPermissionRules(rules));
+
+    // Pick up rules synced from another device unless there are unsaved edits
+    const [savedText, setSavedText] = useState(text);
+    useEffect(() => {
+        const next = formatPermissionRules(rules);
+        if (text === savedText) {
+            setText(next);
+        }
+        setSavedText(next);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [rules]);
+
+    const dirty = text !== savedText;
+
+    const handleSave = () => {
+        const parsed = parsePermissionRules(text);
+        if ('error' in parsed) {
+            Modal.alert(t('common.error'), t('permissionRules.invalid', { error: parsed.error }));
+            return;
+        }
+        setRules(parsed.rules);
+        setText(formatPermissionRules(parsed.rules));
+    };
+
+    return (
+        <ItemList keyboardShouldPersistTaps="handled">
+            <ItemGroup title={t('permissionRules.rules')} footer={t('permissionRules.rulesFooter')}>
+                {rules.length === 0 && (
+                    <Item title={t('permissionRules.empty')} showChevron={false} />
+                )}
+                {rules.map((rule, index) => {
+                    const icon = ruleIcon(rule);
+                    return (
+                        <Item
+                            key={index}
+                            title={describePermissionRule(rule)}
+                            subtitle={rule.description ? `${rule.action} ${[rule.tool, rule.command, rule.path].filter(Boolean).join(' ')}` : undefined}
+                            icon={<Ionicons name={icon.name} size={24} color={icon.color} />}
+                            showChevron={false}
+                        />
+                    );
+                })}
+            </ItemGroup>
+
+            <ItemGroup title={t('permissionRules.editor')} footer={t('permissionRules.editorFooter')}>
+                <View style={styles.field}>
+                    <TextInput
+                        style={styles.input}
+                        value={text}
+                        onChangeText={setText}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        spellCheck={false}
+                        multiline
+                    />
+                </View>
+                <Item
+                    title={t('common.save')}
+                    onPress={handleSave}
+                    disabled={!dirty}
+                    showChevron={false}
+                    titleStyle={{ color: dirty ? theme.colors.button.primary.background : theme.colors.textSecondary }}
+                />
+            </ItemGroup>
+        </ItemList>
+    );
+}
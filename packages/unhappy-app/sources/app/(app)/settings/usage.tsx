@@ -1,11 +1,66 @@
 import React from 'react';
 import { UsagePanel } from '@/components/usage/UsagePanel';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
 import { ItemList } from '@/components/ItemList';
+import { useAuth } from '@/auth/AuthContext';
+import { useHappyAction } from '@/hooks/useHappyAction';
+import { Ionicons } from '@/icons/vector-icons';
+import { UsagePeriod } from '@/sync/apiUsage';
+import { formatBudget } from '@/sync/budget';
+import { useSettingMutable } from '@/sync/storage';
+import { t } from '@/text';
+import { promptBudget } from '@/utils/promptBudget';
+import { exportUsage } from '@/utils/usageExport';
 
 export default function UsageSettingsScreen() {
+    const auth = useAuth();
+    const [period, setPeriod] = React.useState<UsagePeriod>('7days');
+    const [sessionBudget, setSessionBudget] = useSettingMutable('sessionBudget');
+
+    const handleSetBudget = async () => {
+        const result = await promptBudget(t('budget.sessionBudget'), sessionBudget);
+        if (result !== undefined) {
+            setSessionBudget(result);
+        }
+    };
+
+    const [exportingCsv, handleExportCsv] = useHappyAction(async () => {
+        await exportUsage(auth.credentials!, period, 'csv');
+    });
+    const [exportingJson, handleExportJson] = useHappyAction(async () => {
+        await exportUsage(auth.credentials!, period, 'json');
+    });
+
     return (
         <ItemList style={{ paddingTop: 0 }}>
-            <UsagePanel />
+            <UsagePanel period={period} onPeriodChange={setPeriod} />
+            <ItemGroup title={t('usage.export')} footer={t('usage.exportFooter')}>
+                <Item
+                    title={t('usage.exportCsv')}
+                    icon={<Ionicons name="grid-outline" size={29} color="#34C759" />}
+                    onPress={handleExportCsv}
+                    loading={exportingCsv}
+                    disabled={exportingCsv}
+                    showChevron={false}
+                />
+                <Item
+                    title={t('usage.exportJson')}
+                    icon={<Ionicons name="code-slash-outline" size={29} color="#007AFF" />}
+                    onPress={handleExportJson}
+                    loading={exportingJson}
+                    disabled={exportingJson}
+                    showChevron={false}
+                />
+            </ItemGroup>
+            <ItemGroup title={t('budget.title')} footer={t('budget.accountFooter')}>
+                <Item
+                    title={t('budget.sessionBudget')}
+                    detail={sessionBudget ? formatBudget(sessionBudget) : t('budget.none')}
+                    icon={<Ionicons name="wallet-outline" size={29} color="#007AFF" />}
+                    onPress={handleSetBudget}
+                />
+            </ItemGroup>
         </ItemList>
     );
-}
\ No newline at end of file
+}
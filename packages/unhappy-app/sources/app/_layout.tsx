@@ -17,6 +17,8 @@ import { ModalProvider } from '@/modal';
 import { PostHogProvider } from 'posthog-react-native';
 import { tracking } from '@/track/tracking';
 import { syncRestore } from '@/sync/sync';
+import { registerDevice } from '@/sync/apiDevices';
+import { recoverKeyRotation } from '@/sync/keyRotation';
 import { useTrackScreens } from '@/track/useTrackScreens';
 import { RealtimeProvider } from '@/realtime/RealtimeProvider';
 import { FaviconPermissionIndicator } from '@/components/web/FaviconPermissionIndicator';
@@ -179,10 +181,19 @@ export default function RootLayout() {
             try {
                 await loadFonts();
                 await sodium.ready;
-                const credentials = await TokenStorage.getCredentials();
+                let credentials = await TokenStorage.getCredentials();
                 console.log('credentials', credentials);
                 if (credentials) {
+                    credentials = await recoverKeyRotation(credentials);
                     await syncRestore(credentials);
+
+                    // Installs signed in before device management get their sub-key registered,
+                    // the device-bound token is used from the next start
+                    registerDevice(credentials).then((registered) => {
+                        if (registered !== credentials) {
+                            TokenStorage.setCredentials(registered);
+                        }
+                    });
                 }
 
                 setInitState({ credentials });
@@ -5,12 +5,16 @@ import * as Updates from 'expo-updates';
 import { clearPersistence } from '@/sync/persistence';
 import { DevSettings, Platform } from 'react-native';
 import { trackLogout } from '@/track';
+import { getDeviceId } from '@/auth/deviceKey';
+import { revokeDevice } from '@/sync/apiDevices';
+import { delay } from '@/utils/time';
 
 interface AuthContextType {
     isAuthenticated: boolean;
     credentials: AuthCredentials | null;
     login: (token: string, secret: string) => Promise<void>;
     logout: () => Promise<void>;
+    switchCredentials: (credentials: AuthCredentials) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -21,7 +25,7 @@ export function AuthProvider({ children, initialCredentials }: { children: React
 
     // Update global auth state when local state changes
     useEffect(() => {
-        setCurrentAuth(credentials ? { isAuthenticated, credentials, login, logout } : null);
+        setCurrentAuth(credentials ? { isAuthenticated, credentials, login, logout, switchCredentials } : null);
     }, [isAuthenticated, credentials]);
 
     const login = async (token: string, secret: string) => {
@@ -38,6 +42,13 @@ export function AuthProvider({ children, initialCredentials }: { children: React
 
     const logout = async () => {
         trackLogout();
+
+        // Retire this install on the server, best effort so logout works offline
+        const deviceId = getDeviceId();
+        if (credentials && deviceId) {
+            await Promise.race([revokeDevice(credentials, deviceId).catch(() => {}), delay(3000)]);
+        }
+
         clearPersistence();
         await TokenStorage.removeCredentials();
         
@@ -45,25 +56,20 @@ export function AuthProvider({ children, initialCredentials }: { children: React
         setCredentials(null);
         setIsAuthenticated(false);
         
-        if (Platform.OS === 'web') {
-            window.location.reload();
-        } else {
-            try {
-                await Updates.reloadAsync();
-            } catch (error) {
-                // In dev mode, reloadAsync often throws ERR_UPDATES_DISABLED.
-                // Fall back to the RN dev reload so logout/server changes actually apply.
-                if (__DEV__) {
-                    try {
-                        DevSettings.reload();
-                        return;
-                    } catch (e) {
-                        console.log('DevSettings.reload failed:', e);
-                    }
-                }
-                console.log('Reload failed:', error);
-            }
+        await reloadApp();
+    };
+
+    /**
+     * Replace the stored credentials after the account key was rotated and
+     * restart with them, every decrypted record belongs to the old key
+     */
+    const switchCredentials = async (newCredentials: AuthCredentials) => {
+        const success = await TokenStorage.setCredentials(newCredentials);
+        if (!success) {
+            throw new Error('Failed to save credentials');
         }
+        await TokenStorage.removePendingRotation();
+        await reloadApp();
     };
 
     return (
@@ -73,6 +79,7 @@ export function AuthProvider({ children, initialCredentials }: { children: React
                 credentials,
                 login,
                 logout,
+                switchCredentials,
             }}
         >
             {children}
@@ -80,6 +87,28 @@ export function AuthProvider({ children, initialCredentials }: { children: React
     );
 }
 
+async function reloadApp() {
+    if (Platform.OS === 'web') {
+        window.location.reload();
+    } else {
+        try {
+            await Updates.reloadAsync();
+        } catch (error) {
+            // In dev mode, reloadAsync often throws ERR_UPDATES_DISABLED.
+            // Fall back to the RN dev reload so logout/server changes actually apply.
+            if (__DEV__) {
+                try {
+                    DevSettings.reload();
+                    return;
+                } catch (e) {
+                    console.log('DevSettings.reload failed:', e);
+                }
+            }
+            console.log('Reload failed:', error);
+        }
+    }
+}
+
 export function useAuth() {
     const context = useContext(AuthContext);
     if (context === undefined) {
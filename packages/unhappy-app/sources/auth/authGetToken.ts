@@ -2,11 +2,21 @@ import { authChallenge } from "./authChallenge";
 import axios from 'axios';
 import { encodeBase64 } from "../encryption/base64";
 import { getServerUrl } from "@/sync/serverConfig";
+import { deviceName, deviceSign, setDeviceId } from "./deviceKey";
 
 export async function authGetToken(secret: Uint8Array) {
     const API_ENDPOINT = getServerUrl();
     const { challenge, signature, publicKey } = authChallenge(secret);
-    const response = await axios.post(`${API_ENDPOINT}/v1/auth`, { challenge: encodeBase64(challenge), signature: encodeBase64(signature), publicKey: encodeBase64(publicKey) });
+    const device = deviceSign(challenge);
+    const response = await axios.post(`${API_ENDPOINT}/v1/auth`, {
+        challenge: encodeBase64(challenge),
+        signature: encodeBase64(signature),
+        publicKey: encodeBase64(publicKey),
+        device: { publicKey: encodeBase64(device.publicKey), signature: encodeBase64(device.signature), name: deviceName() }
+    });
     const data = response.data;
+    if (data.deviceId) {
+        setDeviceId(data.deviceId);
+    }
     return data.token;
-}
\ No newline at end of file
+}
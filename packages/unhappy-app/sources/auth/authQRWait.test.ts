@@ -15,6 +15,10 @@ vi.mock("@/encryption/libsodium", () => ({
     decryptBox: vi.fn(),
 }));
 
+vi.mock("./deviceKey", () => ({
+    deviceName: () => "Test phone",
+}));
+
 const mockedAxiosPost = vi.mocked(axios.post);
 const mockedDecryptBox = vi.mocked(decryptBox);
 
@@ -53,6 +57,7 @@ describe("authQRWait", () => {
             {
                 publicKey: encodeBase64(keypair.publicKey),
                 supportsEncryptedToken: true,
+                name: "Test phone",
             },
         );
         expect(mockedDecryptBox).toHaveBeenCalledTimes(2);
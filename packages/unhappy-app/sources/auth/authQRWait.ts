@@ -3,6 +3,7 @@ import { decodeBase64, encodeBase64 } from '../encryption/base64';
 import { getServerUrl } from '@/sync/serverConfig';
 import { QRAuthKeyPair } from './authQRStart';
 import { decryptBox } from '@/encryption/libsodium';
+import { deviceName } from './deviceKey';
 
 export interface AuthCredentials {
     secret: Uint8Array;
@@ -22,6 +23,7 @@ export async function authQRWait(keypair: QRAuthKeyPair, onProgress?: (dots: num
             const response = await axios.post(`${serverUrl}/v1/auth/account/request`, {
                 publicKey: encodeBase64(keypair.publicKey),
                 supportsEncryptedToken: true,
+                name: deviceName(),
             });
 
             if (response.data.state === 'authorized') {
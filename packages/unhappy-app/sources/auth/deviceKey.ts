@@ -0,0 +1,43 @@
+import { getRandomBytes } from 'expo-crypto';
+import * as Device from 'expo-device';
+import { Platform } from 'react-native';
+import sodium from '@/encryption/libsodium.lib';
+import { decodeBase64, encodeBase64 } from '@/encryption/base64';
+import { loadDeviceKey, saveDeviceKey } from '@/sync/persistence';
+
+function deviceSeed(): Uint8Array {
+    const existing = loadDeviceKey();
+    if (existing) {
+        return decodeBase64(existing.seed);
+    }
+    const seed = getRandomBytes(32);
+    saveDeviceKey({ seed: encodeBase64(seed), deviceId: null });
+    return seed;
+}
+
+/**
+ * Sign an auth challenge with the sub-key of this install, created on first use
+ */
+export function deviceSign(challenge: Uint8Array) {
+    const keypair = sodium.crypto_sign_seed_keypair(deviceSeed());
+    const signature = sodium.crypto_sign_detached(challenge, keypair.privateKey);
+    return { publicKey: keypair.publicKey, signature };
+}
+
+/**
+ * Shown in the devices list
+ */
+export function deviceName(): string {
+    return Device.deviceName ?? Device.modelName ?? Platform.OS;
+}
+
+/**
+ * Server id of this install, null until it registered its sub-key
+ */
+export function getDeviceId(): string | null {
+    return loadDeviceKey()?.deviceId ?? null;
+}
+
+export function setDeviceId(deviceId: string) {
+    saveDeviceKey({ seed: encodeBase64(deviceSeed()), deviceId });
+}
@@ -2,6 +2,7 @@ import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 
 const AUTH_KEY = 'auth_credentials';
+const PENDING_ROTATION_KEY = 'auth_pending_rotation';
 
 // Cache for synchronous access
 let credentialsCache: string | null = null;
@@ -57,4 +58,48 @@ export const TokenStorage = {
             return false;
         }
     },
-};
\ No newline at end of file
+
+    /**
+     * Secret of an account key rotation that was sent to the server but whose
+     * credentials were not stored yet
+     */
+    async getPendingRotation(): Promise<string | null> {
+        if (Platform.OS === 'web') {
+            return localStorage.getItem(PENDING_ROTATION_KEY);
+        }
+        try {
+            return await SecureStore.getItemAsync(PENDING_ROTATION_KEY);
+        } catch (error) {
+            console.error('Error getting pending rotation:', error);
+            return null;
+        }
+    },
+
+    async setPendingRotation(secret: string): Promise<boolean> {
+        if (Platform.OS === 'web') {
+            localStorage.setItem(PENDING_ROTATION_KEY, secret);
+            return true;
+        }
+        try {
+            await SecureStore.setItemAsync(PENDING_ROTATION_KEY, secret);
+            return true;
+        } catch (error) {
+            console.error('Error setting pending rotation:', error);
+            return false;
+        }
+    },
+
+    async removePendingRotation(): Promise<boolean> {
+        if (Platform.OS === 'web') {
+            localStorage.removeItem(PENDING_ROTATION_KEY);
+            return true;
+        }
+        try {
+            await SecureStore.deleteItemAsync(PENDING_ROTATION_KEY);
+            return true;
+        } catch (error) {
+            console.error('Error removing pending rotation:', error);
+            return false;
+        }
+    },
+};
@@ -15,8 +15,12 @@ import { FloatingOverlay } from './FloatingOverlay';
 import { TextInputState, MultiTextInputHandle } from './MultiTextInput';
 import { applySuggestion } from './autocomplete/applySuggestion';
 import { GitStatusBadge, useHasMeaningfulGitStatus } from './GitStatusBadge';
+import { RaceContestantPicker, type RaceContestantChoice } from './RaceContestantPicker';
+import { GEMINI_MODELS, SUPPORTED_CLAUDE_MODELS } from './agentModels';
 import { StyleSheet, useUnistyles } from 'react-native-unistyles';
 import { apiSocket } from '@/sync/apiSocket';
+import type { MachineCustomAgent } from '@/sync/ops';
+import type { RaceAgent } from '@/sync/races';
 import { useSetting } from '@/sync/storage';
 import { Theme } from '@/theme';
 import { t } from '@/text';
@@ -67,15 +71,23 @@ interface AgentInputProps {
     agentType?: 'claude' | 'codex' | 'gemini';
     onAgentClick?: () => void;
     onAgentTypeChange?: (agentType: 'claude' | 'codex' | 'gemini') => void;
+    // Custom ACP agents from the machine's agents.json (new session only)
+    customAgents?: MachineCustomAgent[];
+    // Selected custom agent, takes precedence over agentType
+    customAgent?: string | null;
+    onCustomAgentChange?: (name: string) => void;
     machineName?: string | null;
     onMachineClick?: () => void;
     currentPath?: string | null;
     onPathClick?: () => void;
-    sessionType?: 'simple' | 'worktree';
-    onSessionTypeChange?: (value: 'simple' | 'worktree') => void;
+    sessionType?: 'simple' | 'worktree' | 'race';
+    onSessionTypeChange?: (value: 'simple' | 'worktree' | 'race') => void;
     worktreeName?: string;
     onWorktreeNameChange?: (value: string) => void;
     onWorktreeNameGenerate?: () => void;
+    raceAgents?: RaceAgent[];
+    raceContestants?: RaceContestantChoice[];
+    onRaceContestantsChange?: (value: RaceContestantChoice[]) => void;
     isSendDisabled?: boolean;
     isSending?: boolean;
     minHeight?: number;
@@ -85,12 +97,6 @@ interface AgentInputProps {
 
 const MAX_CONTEXT_SIZE = 190000;
 
-const SUPPORTED_CLAUDE_MODELS = new Set([
-    'claude-opus-4-6',
-    'claude-sonnet-4-5',
-    'claude-haiku-4-5',
-]);
-
 const stylesheet = StyleSheet.create((theme, runtime) => ({
     container: {
         alignItems: 'center',
@@ -416,6 +422,10 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                 : 'claude';
     const isCodex = agentFlavor === 'codex';
     const isGemini = agentFlavor === 'gemini';
+    // Custom ACP agents choose their own model, there is nothing to pick here
+    const customAgentName = props.customAgent ?? props.metadata?.flavor ?? null;
+    const isCustomAgent = !!customAgentName && customAgentName !== 'claude' && customAgentName !== 'codex' && customAgentName !== 'gemini';
+    const customAgentLabel = props.customAgents?.find((agent) => agent.name === props.customAgent)?.displayName ?? props.customAgent;
 
     // Calculate context warning (always shown when contextSize is known)
     const contextSize = props.usageData?.contextSize;
@@ -498,7 +508,7 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
     React.useEffect(() => {
         setAvailableModels(null);
         setModelLoadError(null);
-    }, [agentFlavor, props.sessionId, props.machineId]);
+    }, [agentFlavor, isCustomAgent, props.sessionId, props.machineId]);
 
     // Final guard: even if a daemon returns extra Claude ids, only show supported ones.
     React.useEffect(() => {
@@ -516,9 +526,13 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
     }, [agentFlavor, availableModels]);
 
     const loadModels = React.useCallback(async () => {
+        if (isCustomAgent) {
+            setAvailableModels([]);
+            setModelLoadError(null);
+            return;
+        }
         if (agentFlavor === 'gemini') {
-            // Static list, no RPC required.
-            const models = ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+            const models = GEMINI_MODELS;
             setAvailableModels(models);
             setModelLoadError(null);
             ensureValidSelectedModel(models);
@@ -587,7 +601,7 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
         } finally {
             setIsLoadingModels(false);
         }
-    }, [agentFlavor, props.sessionId, props.machineId, ensureValidSelectedModel]);
+    }, [agentFlavor, isCustomAgent, props.sessionId, props.machineId, ensureValidSelectedModel]);
 
     // If the caller supports model selection, ensure we have a *real* model selected.
     //
@@ -630,6 +644,14 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
         setModelLoadError(null);
     }, [props.onAgentTypeChange, props.onModelModeChange]);
 
+    const handleCustomAgentSwitch = React.useCallback((name: string) => {
+        if (!props.onCustomAgentChange) return;
+        hapticsLight();
+        props.onCustomAgentChange(name);
+        setAvailableModels(null);
+        setModelLoadError(null);
+    }, [props.onCustomAgentChange]);
+
     const openPermissionOverlay = React.useCallback(() => {
         if (!props.onPermissionModeChange && !props.onPlanOnlyChange) return;
         hapticsLight();
@@ -966,6 +988,7 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                                         {!props.sessionId && props.onAgentTypeChange && (
                                             <View style={{
                                                 flexDirection: 'row',
+                                                flexWrap: 'wrap',
                                                 gap: 8,
                                                 paddingHorizontal: Platform.select({ web: 12, default: 16 }),
                                                 paddingBottom: 8,
@@ -977,7 +1000,7 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                                                 ).map((k) => {
                                                     // Only show Gemini when the caller has Gemini enabled (ex: experiments flag).
                                                     if (k === 'gemini' && props.connectionStatus?.cliStatus?.gemini === undefined) return null;
-                                                    const active = agentFlavor === k;
+                                                    const active = !isCustomAgent && agentFlavor === k;
                                                     return (
                                                         <Pressable
                                                             key={k}
@@ -1008,6 +1031,34 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                                                         </Pressable>
                                                     );
                                                 })}
+                                                {props.onCustomAgentChange && (props.customAgents || []).map((agent) => {
+                                                    const active = props.customAgent === agent.name;
+                                                    return (
+                                                        <Pressable
+                                                            key={agent.name}
+                                                            onPress={() => handleCustomAgentSwitch(agent.name)}
+                                                            style={({ pressed }: any) => ({
+                                                                height: 28,
+                                                                paddingHorizontal: 10,
+                                                                borderRadius: 999,
+                                                                borderWidth: 1,
+                                                                borderColor: active ? theme.colors.button.primary.background : theme.colors.divider,
+                                                                backgroundColor: active ? theme.colors.button.primary.background + '14' : 'transparent',
+                                                                justifyContent: 'center',
+                                                                opacity: pressed ? 0.7 : 1,
+                                                            })}
+                                                        >
+                                                            <Text style={{
+                                                                fontSize: 12,
+                                                                fontWeight: '600',
+                                                                color: active ? theme.colors.button.primary.background : theme.colors.textSecondary,
+                                                                ...Typography.default('semiBold'),
+                                                            }}>
+                                                                {agent.displayName}
+                                                            </Text>
+                                                        </Pressable>
+                                                    );
+                                                })}
                                             </View>
                                         )}
 
@@ -1339,6 +1390,31 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                             )}
                         </Pressable>
 
+                        {props.raceContestants && props.onRaceContestantsChange && (
+                            <Pressable
+                                onPress={() => {
+                                    hapticsLight();
+                                    props.onSessionTypeChange?.('race');
+                                }}
+                                style={(p) => ([
+                                    styles.sessionTypeOption,
+                                    props.sessionType === 'race' && styles.sessionTypeOptionActive,
+                                    p.pressed ? { opacity: 0.85 } : null,
+                                ])}
+                            >
+                                <Ionicons name="git-compare-outline" size={16} color={theme.colors.textSecondary} />
+                                <Text style={styles.sessionTypeOptionLabel}>{t('race.sessionType')}</Text>
+                                <View style={styles.sessionTypeOptionSpacer} />
+                                {props.sessionType === 'race' && (
+                                    <Ionicons
+                                        name="checkmark-circle"
+                                        size={18}
+                                        color={theme.colors.button.primary.background}
+                                    />
+                                )}
+                            </Pressable>
+                        )}
+
                         {props.sessionType === 'worktree' && props.worktreeName !== undefined && props.onWorktreeNameChange && (
                             <View style={styles.worktreeNameBlock}>
                                 <View style={styles.worktreeNameHeader}>
@@ -1373,6 +1449,17 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                                 <Text style={styles.worktreeNameHint}>{t('newSession.worktree.nameHint')}</Text>
                             </View>
                         )}
+
+                        {props.sessionType === 'race' && props.raceContestants && props.onRaceContestantsChange && (
+                            <View style={styles.worktreeNameBlock}>
+                                <RaceContestantPicker
+                                    machineId={props.machineId ?? null}
+                                    agents={props.raceAgents ?? ['claude', 'codex']}
+                                    value={props.raceContestants}
+                                    onChange={props.onRaceContestantsChange}
+                                />
+                            </View>
+                        )}
                     </View>
                 )}
 
@@ -1551,11 +1638,13 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                                             fontWeight: '600',
                                             ...Typography.default('semiBold'),
                                         }}>
-                                            {props.agentType === 'claude'
-                                                ? t('agentInput.agent.claude')
-                                                : props.agentType === 'codex' || !SHOW_GEMINI_UI
-                                                    ? t('agentInput.agent.codex')
-                                                    : t('agentInput.agent.gemini')}
+                                            {customAgentLabel
+                                                ? customAgentLabel
+                                                : props.agentType === 'claude'
+                                                    ? t('agentInput.agent.claude')
+                                                    : props.agentType === 'codex' || !SHOW_GEMINI_UI
+                                                        ? t('agentInput.agent.codex')
+                                                        : t('agentInput.agent.gemini')}
                                         </Text>
                                     </Pressable>
                                 </View>
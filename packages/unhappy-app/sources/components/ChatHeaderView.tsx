@@ -7,6 +7,8 @@ import { Avatar } from '@/components/Avatar';
 import { Typography } from '@/constants/Typography';
 import { useCompactLayout, useHeaderHeight } from '@/utils/responsive';
 import { useUnistyles } from 'react-native-unistyles';
+import { BudgetState, budgetRemaining, formatBudgetAmount } from '@/sync/budget';
+import { t } from '@/text';
 
 interface ChatHeaderViewProps {
     title: string;
@@ -19,6 +21,7 @@ interface ChatHeaderViewProps {
     isConnected?: boolean;
     flavor?: string | null;
     rightActions?: React.ReactNode;
+    budget?: BudgetState | null;
 }
 
 export const ChatHeaderView: React.FC<ChatHeaderViewProps> = ({
@@ -30,6 +33,7 @@ export const ChatHeaderView: React.FC<ChatHeaderViewProps> = ({
     isConnected = true,
     flavor,
     rightActions,
+    budget,
 }) => {
     const { theme } = useUnistyles();
     const navigation = useNavigation();
@@ -37,6 +41,12 @@ export const ChatHeaderView: React.FC<ChatHeaderViewProps> = ({
     const headerHeight = useHeaderHeight();
     const isWideWeb = useCompactLayout();
 
+    // Remaining budget turns orange under a fifth of the limit and red once the agent is paused
+    const budgetLeft = budget ? budgetRemaining(budget) : null;
+    const budgetColor = budget && budgetLeft !== null
+        ? (budgetLeft === 0 ? theme.colors.box.error.text : budgetLeft < budget.limit / 5 ? theme.colors.box.warning.text : theme.colors.header.tint)
+        : undefined;
+
     const handleBackPress = () => {
         if (onBackPress) {
             onBackPress();
@@ -89,6 +99,15 @@ export const ChatHeaderView: React.FC<ChatHeaderViewProps> = ({
                 </View>
                 
                 <View style={styles.rightContainer}>
+                    {budget && budgetLeft !== null && (
+                        <View style={[styles.budget, { borderColor: budgetColor }]}>
+                            <Text numberOfLines={1} style={[styles.budgetText, { color: budgetColor, ...Typography.default('semiBold') }]}>
+                                {budgetLeft === 0
+                                    ? t('budget.paused')
+                                    : t('budget.left', { amount: formatBudgetAmount(budget.unit, budgetLeft) })}
+                            </Text>
+                        </View>
+                    )}
                     {rightActions}
                     {avatarId && onAvatarPress && (
                         <Pressable
@@ -149,6 +168,16 @@ const styles = StyleSheet.create({
         fontWeight: '400',
         lineHeight: 14,
     },
+    budget: {
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        opacity: 0.85,
+    },
+    budgetText: {
+        fontSize: 11,
+    },
     avatarButton: {
         width: 44,
         height: 44,
@@ -1,29 +1,40 @@
 import * as React from 'react';
-import { useSession, useSessionMessages } from "@/sync/storage";
+import { useChatMessageId, useSession, useSessionMessages } from "@/sync/storage";
 import { ActivityIndicator, FlatList, Platform, View } from 'react-native';
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useHeaderHeight } from '@/utils/responsive';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MessageView } from './MessageView';
 import { Metadata, Session } from '@/sync/storageTypes';
 import { ChatFooter } from './ChatFooter';
 import { Message } from '@/sync/typesMessage';
+import { sync } from '@/sync/sync';
+import { StyleSheet } from 'react-native-unistyles';
 
-export const ChatList = React.memo((props: { session: Session }) => {
-    const { messages } = useSessionMessages(props.session.id);
+export const ChatList = React.memo((props: { session: Session, focusMessageId?: string | null }) => {
+    const { messages, hasOlderMessages, isLoadingOlder } = useSessionMessages(props.session.id);
+    const focusedId = useChatMessageId(props.session.id, props.focusMessageId ?? null);
     return (
         <ChatListInternal
             metadata={props.session.metadata}
             sessionId={props.session.id}
             messages={messages}
+            hasOlderMessages={hasOlderMessages}
+            isLoadingOlder={isLoadingOlder}
+            focusMessageId={props.focusMessageId ?? null}
+            focusedId={focusedId}
         />
     )
 });
 
-const ListHeader = React.memo(() => {
+const ListHeader = React.memo((props: { isLoadingOlder: boolean }) => {
     const headerHeight = useHeaderHeight();
     const safeArea = useSafeAreaInsets();
-    return <View style={{ flexDirection: 'row', alignItems: 'center', height: headerHeight + safeArea.top + 32 }} />;
+    return (
+        <View style={{ flexDirection: 'row', alignItems: 'flex-end', justifyContent: 'center', height: headerHeight + safeArea.top + 32 }}>
+            {props.isLoadingOlder && <ActivityIndicator size="small" style={{ marginBottom: 8 }} />}
+        </View>
+    );
 });
 
 const ListFooter = React.memo((props: { sessionId: string }) => {
@@ -36,14 +47,63 @@ const ChatListInternal = React.memo((props: {
     metadata: Metadata | null,
     sessionId: string,
     messages: Message[],
+    hasOlderMessages: boolean,
+    isLoadingOlder: boolean,
+    focusMessageId: string | null,
+    focusedId: string | null,
 }) => {
     const keyExtractor = useCallback((item: any) => item.id, []);
+    const { sessionId, hasOlderMessages, isLoadingOlder, focusMessageId, focusedId, messages } = props;
+    const listRef = useRef<FlatList<Message>>(null);
+    const [highlightedId, setHighlightedId] = useState<string | null>(null);
+    const scrolledTo = useRef<string | null>(null);
+
+    // Jump to a message from search: page older history in until it shows up
+    useEffect(() => {
+        if (!focusMessageId || focusedId || isLoadingOlder || !hasOlderMessages) {
+            return;
+        }
+        sync.loadOlderMessages(sessionId);
+    }, [sessionId, focusMessageId, focusedId, hasOlderMessages, isLoadingOlder]);
+    useEffect(() => {
+        if (!focusedId || scrolledTo.current === focusedId) {
+            return;
+        }
+        const index = messages.findIndex((m) => m.id === focusedId);
+        if (index < 0) {
+            return;
+        }
+        scrolledTo.current = focusedId;
+        listRef.current?.scrollToIndex({ index, viewPosition: 0.5, animated: true });
+        setHighlightedId(focusedId);
+        const timer = setTimeout(() => setHighlightedId(null), 2500);
+        return () => clearTimeout(timer);
+    }, [focusedId, messages]);
+    const handleScrollToIndexFailed = useCallback((info: { index: number, averageItemLength: number }) => {
+        // Rows are measured lazily, get close first and retry once they are laid out
+        listRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+        setTimeout(() => {
+            listRef.current?.scrollToIndex({ index: info.index, viewPosition: 0.5, animated: true });
+        }, 100);
+    }, []);
+
+    // The list is inverted, so its end is the top of the conversation
+    const handleEndReached = useCallback(() => {
+        if (hasOlderMessages) {
+            sync.loadOlderMessages(sessionId);
+        }
+    }, [sessionId, hasOlderMessages]);
     const renderItem = useCallback(({ item }: { item: any }) => (
-        <MessageView message={item} metadata={props.metadata} sessionId={props.sessionId} />
-    ), [props.metadata, props.sessionId]);
+        <View style={item.id === highlightedId ? styles.highlighted : undefined}>
+            <MessageView message={item} metadata={props.metadata} sessionId={props.sessionId} />
+        </View>
+    ), [props.metadata, props.sessionId, highlightedId]);
     return (
         <FlatList
+            ref={listRef}
             data={props.messages}
+            extraData={highlightedId}
+            onScrollToIndexFailed={handleScrollToIndexFailed}
             inverted={true}
             keyExtractor={keyExtractor}
             maintainVisibleContentPosition={{
@@ -53,8 +113,16 @@ const ChatListInternal = React.memo((props: {
             keyboardShouldPersistTaps="handled"
             keyboardDismissMode={Platform.OS === 'ios' ? 'interactive' : 'on-drag'}
             renderItem={renderItem}
+            onEndReached={handleEndReached}
+            onEndReachedThreshold={0.5}
             ListHeaderComponent={<ListFooter sessionId={props.sessionId} />}
-            ListFooterComponent={<ListHeader />}
+            ListFooterComponent={<ListHeader isLoadingOlder={props.isLoadingOlder} />}
         />
     )
 });
+
+const styles = StyleSheet.create((theme) => ({
+    highlighted: {
+        backgroundColor: theme.colors.surfaceHighest,
+    },
+}));
@@ -3,15 +3,16 @@ import { View, StyleSheet, Platform } from 'react-native';
 import { CommandPaletteInput } from './CommandPaletteInput';
 import { CommandPaletteResults } from './CommandPaletteResults';
 import { useCommandPalette } from './useCommandPalette';
-import { Command } from './types';
+import { Command, CommandCategory } from './types';
 import { useUnistyles } from 'react-native-unistyles';
 
 interface CommandPaletteProps {
     commands: Command[];
+    search?: (query: string) => CommandCategory | null;
     onClose: () => void;
 }
 
-export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+export function CommandPalette({ commands, search, onClose }: CommandPaletteProps) {
     const { theme } = useUnistyles();
     const {
         searchQuery,
@@ -22,7 +23,7 @@ export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
         handleSelectCommand,
         handleKeyPress,
         setSelectedIndex,
-    } = useCommandPalette(commands, onClose);
+    } = useCommandPalette(commands, onClose, search);
 
     // Only render on web
     if (Platform.OS !== 'web') {
@@ -3,7 +3,7 @@ import { Platform } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Modal } from '@/modal';
 import { CommandPalette } from './CommandPalette';
-import { Command } from './types';
+import { Command, CommandCategory } from './types';
 import { useGlobalKeyboard } from '@/hooks/useGlobalKeyboard';
 import { useAuth } from '@/auth/AuthContext';
 import { storage } from '@/sync/storage';
@@ -11,6 +11,7 @@ import { useShallow } from 'zustand/react/shallow';
 import { useNavigateToSession } from '@/hooks/useNavigateToSession';
 import { t } from '@/text';
 import { getSessionName } from '@/utils/sessionUtils';
+import { searchIndex } from '@/sync/searchIndex';
 
 export function CommandPaletteProvider({ children }: { children: React.ReactNode }) {
     const router = useRouter();
@@ -44,6 +45,16 @@ export function CommandPaletteProvider({ children }: { children: React.ReactNode
                     router.push('/');
                 }
             },
+            {
+                id: 'search-messages',
+                title: t('search.title'),
+                subtitle: t('search.commandSubtitle'),
+                icon: 'search-outline',
+                category: t('tabs.sessions'),
+                action: () => {
+                    router.push('/search');
+                }
+            },
             {
                 id: 'settings',
                 title: '설정',
@@ -125,6 +136,28 @@ export function CommandPaletteProvider({ children }: { children: React.ReactNode
         return cmds;
     }, [router, logout, sessions]);
 
+    // Messages matching the query, from the local search index
+    const searchMessages = useCallback((query: string): CommandCategory | null => {
+        if (query.length < 2) return null;
+        const state = storage.getState();
+        return {
+            id: 'messages',
+            title: t('search.results'),
+            commands: searchIndex.search(query, 8).map((hit) => {
+                const session = state.sessions[hit.sessionId];
+                return {
+                    id: `message-${hit.sessionId}-${hit.doc.id}`,
+                    title: hit.snippet,
+                    subtitle: session ? getSessionName(session) : undefined,
+                    icon: 'chatbox-outline',
+                    action: () => {
+                        router.push(`/session/${hit.sessionId}?message=${hit.doc.id}`);
+                    }
+                };
+            })
+        };
+    }, [router]);
+
     const showCommandPalette = useCallback(() => {
         if (Platform.OS !== 'web' || !commandPaletteEnabled) return;
         
@@ -132,9 +165,10 @@ export function CommandPaletteProvider({ children }: { children: React.ReactNode
             component: CommandPalette,
             props: {
                 commands,
+                search: searchMessages,
             }
         } as any);
-    }, [commands, commandPaletteEnabled]);
+    }, [commands, searchMessages, commandPaletteEnabled]);
 
     // Set up global keyboard handler only if feature is enabled
     useGlobalKeyboard(commandPaletteEnabled ? showCommandPalette : () => {});
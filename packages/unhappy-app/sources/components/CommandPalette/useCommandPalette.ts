@@ -2,7 +2,7 @@ import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { TextInput } from 'react-native';
 import { Command, CommandCategory } from './types';
 
-export function useCommandPalette(commands: Command[], onClose: () => void) {
+export function useCommandPalette(commands: Command[], onClose: () => void, search?: (query: string) => CommandCategory | null) {
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedIndex, setSelectedIndex] = useState(0);
     const inputRef = useRef<TextInput>(null);
@@ -35,8 +35,12 @@ export function useCommandPalette(commands: Command[], onClose: () => void) {
             return titleMatch || subtitleMatch;
         });
 
+        // Dynamic results (e.g. message search) go after the matching commands
+        const searched = search?.(searchQuery.trim()) ?? null;
+        const extra = searched && searched.commands.length > 0 ? [searched] : [];
+
         if (filtered.length === 0) {
-            return [];
+            return extra;
         }
 
         // Group filtered results
@@ -49,12 +53,12 @@ export function useCommandPalette(commands: Command[], onClose: () => void) {
             return acc;
         }, {} as Record<string, Command[]>);
 
-        return Object.entries(grouped).map(([title, cmds]) => ({
+        return [...Object.entries(grouped).map(([title, cmds]) => ({
             id: title.toLowerCase().replace(/\s+/g, '-'),
             title,
             commands: cmds
-        }));
-    }, [commands, searchQuery]);
+        })), ...extra];
+    }, [commands, searchQuery, search]);
 
     // Reset selection when search changes
     useEffect(() => {
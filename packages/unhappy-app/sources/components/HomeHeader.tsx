@@ -120,13 +120,22 @@ function HeaderRight() {
     const { theme } = useUnistyles();
 
     return (
-        <Pressable
-            onPress={() => router.push('/new')}
-            hitSlop={15}
-            style={styles.headerButton}
-        >
-            <Ionicons name="add-outline" size={28} color={theme.colors.header.tint} />
-        </Pressable>
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+            <Pressable
+                onPress={() => router.push('/search')}
+                hitSlop={15}
+                style={styles.headerButton}
+            >
+                <Ionicons name="search-outline" size={24} color={theme.colors.header.tint} />
+            </Pressable>
+            <Pressable
+                onPress={() => router.push('/new')}
+                hitSlop={15}
+                style={styles.headerButton}
+            >
+                <Ionicons name="add-outline" size={28} color={theme.colors.header.tint} />
+            </Pressable>
+        </View>
     );
 }
 
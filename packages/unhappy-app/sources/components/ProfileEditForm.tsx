@@ -13,6 +13,8 @@ import { Item } from '@/components/Item';
 import { getBuiltInProfileDocumentation } from '@/sync/profileUtils';
 import { useEnvironmentVariables, extractEnvVarReferences } from '@/hooks/useEnvironmentVariables';
 import { EnvironmentVariablesList } from '@/components/EnvironmentVariablesList';
+import { formatBudget, parseBudget } from '@/sync/budget';
+import { Modal } from '@/modal';
 
 export interface ProfileEditFormProps {
     profile: AIBackendProfile;
@@ -58,6 +60,7 @@ export function ProfileEditForm({
     const [startupScript, setStartupScript] = React.useState(profile.startupBashScript || '');
     const [defaultSessionType, setDefaultSessionType] = React.useState<'simple' | 'worktree'>(profile.defaultSessionType || 'simple');
     const [defaultPermissionMode, setDefaultPermissionMode] = React.useState<PermissionMode>((profile.defaultPermissionMode as PermissionMode) || 'default');
+    const [budgetText, setBudgetText] = React.useState(profile.budget ? formatBudget(profile.budget) : '');
     const [agentType, setAgentType] = React.useState<'claude' | 'codex'>(() => {
         if (profile.compatibility.claude && !profile.compatibility.codex) return 'claude';
         if (profile.compatibility.codex && !profile.compatibility.claude) return 'codex';
@@ -69,6 +72,11 @@ export function ProfileEditForm({
             // Profile name validation - prevent saving empty profiles
             return;
         }
+        const parsedBudget = parseBudget(budgetText);
+        if (!('budget' in parsedBudget)) {
+            Modal.alert(t('common.error'), t('budget.invalid'));
+            return;
+        }
 
         onSave({
             ...profile,
@@ -92,6 +100,7 @@ export function ProfileEditForm({
             startupBashScript: useStartupScript ? (startupScript.trim() || undefined) : undefined,
             defaultSessionType: defaultSessionType,
             defaultPermissionMode: defaultPermissionMode,
+            budget: parsedBudget.budget ?? undefined,
             updatedAt: Date.now(),
         });
     };
@@ -392,6 +401,43 @@ export function ProfileEditForm({
                         editable={useTmux}
                     />
 
+                    {/* Session Budget */}
+                    <Text style={{
+                        fontSize: 14,
+                        fontWeight: '600',
+                        color: theme.colors.text,
+                        marginBottom: 8,
+                        ...Typography.default('semiBold')
+                    }}>
+                        {t('budget.sessionBudget')} ({t('common.optional')})
+                    </Text>
+                    <Text style={{
+                        fontSize: 12,
+                        color: theme.colors.textSecondary,
+                        marginBottom: 8,
+                        ...Typography.default()
+                    }}>
+                        {t('budget.profileFooter')}
+                    </Text>
+                    <TextInput
+                        style={{
+                            backgroundColor: theme.colors.input.background,
+                            borderRadius: 10, // Matches new session panel input fields
+                            padding: 12,
+                            fontSize: 16,
+                            color: theme.colors.text,
+                            marginBottom: 16,
+                            borderWidth: 1,
+                            borderColor: theme.colors.textSecondary,
+                        }}
+                        placeholder={t('budget.placeholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={budgetText}
+                        onChangeText={setBudgetText}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+
                     {/* Startup Bash Script */}
                     <View style={{ marginBottom: 24 }}>
                         <View style={{
@@ -0,0 +1,165 @@
+import * as React from 'react';
+import { ActivityIndicator, Pressable, Text, View } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@/icons/vector-icons';
+import { Typography } from '@/constants/Typography';
+import { apiSocket } from '@/sync/apiSocket';
+import { RaceAgent, raceContestantLabel, sameContestant } from '@/sync/races';
+import { t } from '@/text';
+import { hapticsLight } from './haptics';
+import { GEMINI_MODELS, SUPPORTED_CLAUDE_MODELS } from './agentModels';
+
+export type RaceContestantChoice = { agent: RaceAgent; model: string | null };
+
+interface RaceContestantPickerProps {
+    machineId: string | null;
+    agents: RaceAgent[];
+    value: RaceContestantChoice[];
+    onChange: (value: RaceContestantChoice[]) => void;
+}
+
+type ListModelsResponse =
+    | { success: true; models: string[] }
+    | { success: false; error: string };
+
+async function loadModels(machineId: string, agent: RaceAgent): Promise<string[]> {
+    if (agent === 'gemini') {
+        return GEMINI_MODELS;
+    }
+    try {
+        const resp = await apiSocket.machineRPC<ListModelsResponse, { agent: RaceAgent }>(machineId, 'list-models', { agent });
+        if (!resp.success) {
+            return [];
+        }
+        return agent === 'claude'
+            ? (resp.models || []).filter((m) => SUPPORTED_CLAUDE_MODELS.has(m))
+            : (resp.models || []);
+    } catch {
+        // The default model is still offered
+        return [];
+    }
+}
+
+/**
+ * Agent × model chips for picking the contestants of a race
+ */
+export const RaceContestantPicker = React.memo((props: RaceContestantPickerProps) => {
+    const { theme } = useUnistyles();
+    const styles = stylesheet;
+    const [models, setModels] = React.useState<Partial<Record<RaceAgent, string[]>>>({});
+    const agentsKey = props.agents.join(',');
+
+    React.useEffect(() => {
+        const machineId = props.machineId;
+        if (!machineId) {
+            return;
+        }
+        let cancelled = false;
+        setModels({});
+        for (const agent of props.agents) {
+            void loadModels(machineId, agent).then((loaded) => {
+                if (!cancelled) {
+                    setModels((prev) => ({ ...prev, [agent]: loaded }));
+                }
+            });
+        }
+        return () => {
+            cancelled = true;
+        };
+    }, [props.machineId, agentsKey]);
+
+    const toggle = (choice: RaceContestantChoice) => {
+        hapticsLight();
+        const selected = props.value.some((c) => sameContestant(c, choice));
+        props.onChange(selected
+            ? props.value.filter((c) => !sameContestant(c, choice))
+            : [...props.value, choice]);
+    };
+
+    return (
+        <View style={styles.container}>
+            {props.agents.map((agent) => {
+                const agentModels = models[agent];
+                const choices: RaceContestantChoice[] = [
+                    { agent, model: null },
+                    ...(agentModels ?? []).map((model) => ({ agent, model })),
+                ];
+                return (
+                    <View key={agent} style={styles.agentRow}>
+                        <Text style={styles.agentLabel}>{raceContestantLabel({ agent, model: null })}</Text>
+                        <View style={styles.chips}>
+                            {choices.map((choice) => {
+                                const selected = props.value.some((c) => sameContestant(c, choice));
+                                return (
+                                    <Pressable
+                                        key={choice.model ?? 'default'}
+                                        onPress={() => toggle(choice)}
+                                        style={(p) => ([
+                                            styles.chip,
+                                            selected && styles.chipSelected,
+                                            p.pressed ? { opacity: 0.85 } : null,
+                                        ])}
+                                    >
+                                        {selected && (
+                                            <Ionicons name="checkmark" size={12} color={theme.colors.button.primary.background} />
+                                        )}
+                                        <Text style={styles.chipLabel}>{choice.model ?? t('race.defaultModel')}</Text>
+                                    </Pressable>
+                                );
+                            })}
+                            {agentModels === undefined && !!props.machineId && (
+                                <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                            )}
+                        </View>
+                    </View>
+                );
+            })}
+            <Text style={styles.hint}>{t('race.contestantsHint')}</Text>
+        </View>
+    );
+});
+
+const stylesheet = StyleSheet.create((theme) => ({
+    container: {
+        gap: 10,
+    },
+    agentRow: {
+        gap: 6,
+    },
+    agentLabel: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.default('semiBold'),
+    },
+    chips: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 6,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        borderRadius: 14,
+        paddingHorizontal: 10,
+        paddingVertical: 5,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+        backgroundColor: theme.colors.surfaceHigh,
+    },
+    chipSelected: {
+        borderColor: theme.colors.button.primary.background,
+        backgroundColor: theme.colors.button.primary.background + '10',
+    },
+    chipLabel: {
+        fontSize: 12,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    hint: {
+        fontSize: 11,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+}));
@@ -391,6 +391,12 @@ export const SettingsView = React.memo(function SettingsView() {
                     icon={<Ionicons name="color-palette-outline" size={SETTINGS_ICON_SIZE} color={accentPrimary} />}
                     onPress={() => router.push('/settings/appearance')}
                 />
+                <Item
+                    title={t('permissionRules.title')}
+                    subtitle={t('permissionRules.subtitle')}
+                    icon={<Ionicons name="shield-checkmark-outline" size={SETTINGS_ICON_SIZE} color={accentSuccess} />}
+                    onPress={() => router.push('/settings/permissions')}
+                />
                 <Item
                     title={t('settings.voiceAssistant')}
                     subtitle={t('settings.voiceAssistantSubtitle')}
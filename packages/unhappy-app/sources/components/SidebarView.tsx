@@ -269,6 +269,12 @@ export const SidebarView = React.memo(() => {
                                 )}
                             </Pressable>
                         )}
+                        <Pressable
+                            onPress={() => router.push('/search')}
+                            hitSlop={15}
+                        >
+                            <Ionicons name="search-outline" size={actionIconSize} color={theme.colors.header.tint} />
+                        </Pressable>
                         <Pressable
                             onPress={() => router.push('/settings')}
                             hitSlop={15}
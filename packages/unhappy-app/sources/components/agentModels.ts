@@ -0,0 +1,13 @@
+/**
+ * Models offered in the model pickers, Claude and Codex models are
+ * otherwise listed by the CLI
+ */
+
+export const SUPPORTED_CLAUDE_MODELS = new Set([
+    'claude-opus-4-6',
+    'claude-sonnet-4-5',
+    'claude-haiku-4-5',
+]);
+
+// Static list, no RPC required
+export const GEMINI_MODELS = ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
@@ -5,6 +5,7 @@ import { Ionicons, Octicons } from '@/icons/vector-icons';
 import { Typography } from '@/constants/Typography';
 import { DiffView } from '@/components/diff/DiffView';
 import { RawDiffView } from '@/components/diff/RawDiffView';
+import { ReviewDiffView, type ReviewDiffComment, type ReviewDiffSelection } from '@/components/diff/ReviewDiffView';
 import { FileIcon } from '@/components/FileIcon';
 import { useSettingMutable } from '@/sync/storage';
 import { calculateDiffStats } from '@/components/diff/calculateDiff';
@@ -36,8 +37,19 @@ interface ChangesEditorProps {
     initialFileId?: string;
     allowRawToggle?: boolean;
     defaultMode?: 'rendered' | 'raw';
+    /**
+     * Enables inline review comments. Files are shown as raw diffs, which carry
+     * the real line numbers comments refer to.
+     */
+    review?: ChangesEditorReview;
 }
 
+export type ChangesEditorReview = {
+    commentsFor: (file: ChangesEditorFile) => ReviewDiffComment[];
+    onAddComment: (file: ChangesEditorFile, selection: ReviewDiffSelection, body: string) => void;
+    onRemoveComment: (commentId: string) => void;
+};
+
 function basename(p: string) {
     const parts = p.split('/').filter(Boolean);
     return parts[parts.length - 1] || p;
@@ -90,7 +102,7 @@ function kindBadge(kind: ChangeKind) {
     }
 }
 
-export const ChangesEditor = React.memo<ChangesEditorProps>(({ files, initialFileId, allowRawToggle = true, defaultMode = 'rendered' }) => {
+export const ChangesEditor = React.memo<ChangesEditorProps>(({ files, initialFileId, allowRawToggle = true, defaultMode = 'rendered', review }) => {
     const { theme } = useUnistyles();
     const { width } = useWindowDimensions();
     // Keep explicit theme references here (not hard-coded) so light/dark stay correct.
@@ -155,7 +167,7 @@ export const ChangesEditor = React.memo<ChangesEditorProps>(({ files, initialFil
         return files.find(f => f.id === selectedId) ?? files[0] ?? null;
     }, [files, selectedId]);
 
-    const anyRawDiff = allowRawToggle && files.some((f) => !!f.rawDiff);
+    const anyRawDiff = allowRawToggle && !review && files.some((f) => !!f.rawDiff);
     const [mode, setMode] = React.useState<'rendered' | 'raw'>(defaultMode);
 
     React.useEffect(() => {
@@ -209,7 +221,16 @@ export const ChangesEditor = React.memo<ChangesEditorProps>(({ files, initialFil
         const showPlusMinus = false;
 
         const node =
-            mode === 'raw' && file.rawDiff ? (
+            review && file.rawDiff ? (
+                <ReviewDiffView
+                    diff={file.rawDiff}
+                    comments={review.commentsFor(file)}
+                    wrapLines={wrapLinesInDiffs}
+                    showLineNumbers={showLineNumbers}
+                    onAddComment={(selection, body) => review.onAddComment(file, selection, body)}
+                    onRemoveComment={review.onRemoveComment}
+                />
+            ) : mode === 'raw' && file.rawDiff ? (
                 <RawDiffView
                     diff={file.rawDiff}
                     wrapLines={wrapLinesInDiffs}
@@ -1,11 +1,11 @@
 import * as React from 'react';
-import { View, Text } from 'react-native';
+import { View, Text, Pressable } from 'react-native';
 import { StyleSheet, useUnistyles } from 'react-native-unistyles';
 import { Typography } from '@/constants/Typography';
 
-type RawDiffLineKind = 'header' | 'hunk' | 'add' | 'remove' | 'context' | 'note';
+export type RawDiffLineKind = 'header' | 'hunk' | 'add' | 'remove' | 'context' | 'note';
 
-type ParsedDiffRow = {
+export type ParsedDiffRow = {
     kind: RawDiffLineKind;
     text: string;
     oldLineNumber: number | null;
@@ -26,7 +26,7 @@ function isFileHeaderLine(line: string): boolean {
     );
 }
 
-function parseUnifiedDiffRows(diff: string): ParsedDiffRow[] {
+export function parseUnifiedDiffRows(diff: string): ParsedDiffRow[] {
     const out: ParsedDiffRow[] = [];
     const lines = diff.split('\n');
 
@@ -104,15 +104,26 @@ interface RawDiffViewProps {
      * This makes the view closer to GitHub "Files changed".
      */
     showFileHeaders?: boolean;
+    /**
+     * Review mode: rows become pressable, selected rows are highlighted and
+     * extra content (comments, a composer) can be rendered under a row.
+     * Indexes refer to the rows after header filtering.
+     */
+    onPressRow?: (row: ParsedDiffRow, index: number) => void;
+    isRowSelected?: (index: number) => boolean;
+    renderAfterRow?: (row: ParsedDiffRow, index: number) => React.ReactNode;
+    /** Pre-parsed rows, so callers can keep their indexes in sync with the view */
+    rows?: ParsedDiffRow[];
 }
 
-export const RawDiffView = React.memo<RawDiffViewProps>(({ diff, wrapLines = false, showLineNumbers = true, showFileHeaders = true }) => {
+export const RawDiffView = React.memo<RawDiffViewProps>(({ diff, wrapLines = false, showLineNumbers = true, showFileHeaders = true, onPressRow, isRowSelected, renderAfterRow, rows: providedRows }) => {
     const { theme } = useUnistyles();
     const colors = theme.colors.diff;
     const rows = React.useMemo(() => {
+        if (providedRows) return providedRows;
         const parsed = parseUnifiedDiffRows(diff);
         return showFileHeaders ? parsed : parsed.filter((r) => r.kind !== 'header');
-    }, [diff, showFileHeaders]);
+    }, [diff, showFileHeaders, providedRows]);
 
     return (
         <View style={styles.container}>
@@ -137,13 +148,13 @@ export const RawDiffView = React.memo<RawDiffViewProps>(({ diff, wrapLines = fal
                     kind === 'note' ? theme.colors.textSecondary :
                     colors.contextText;
 
-                return (
+                const selected = isRowSelected?.(idx) ?? false;
+                const rowNode = (
                     <View
-                        key={`raw-${idx}`}
                         style={[
                             styles.row,
                             {
-                                backgroundColor,
+                                backgroundColor: selected ? theme.colors.surfaceSelected : backgroundColor,
                                 borderLeftWidth: (isAdded || isRemoved) ? 3 : 0,
                                 borderLeftColor: isAdded ? colors.addedBorder : isRemoved ? colors.removedBorder : 'transparent',
                             }
@@ -177,6 +188,17 @@ export const RawDiffView = React.memo<RawDiffViewProps>(({ diff, wrapLines = fal
                         </Text>
                     </View>
                 );
+
+                return (
+                    <React.Fragment key={`raw-${idx}`}>
+                        {onPressRow ? (
+                            <Pressable onPress={() => onPressRow(row, idx)} accessibilityRole="button">
+                                {rowNode}
+                            </Pressable>
+                        ) : rowNode}
+                        {renderAfterRow?.(row, idx)}
+                    </React.Fragment>
+                );
             })}
         </View>
     );
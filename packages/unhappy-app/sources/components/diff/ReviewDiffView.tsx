@@ -0,0 +1,298 @@
+import * as React from 'react';
+import { View, Text, TextInput, Pressable } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@/icons/vector-icons';
+import { Typography } from '@/constants/Typography';
+import { RawDiffView, parseUnifiedDiffRows, type ParsedDiffRow } from '@/components/diff/RawDiffView';
+import { t } from '@/text';
+
+export type ReviewDiffComment = {
+    id: string;
+    side: 'new' | 'old';
+    startLine: number;
+    endLine: number;
+    body: string;
+    state: 'draft' | 'open' | 'resolved';
+};
+
+export type ReviewDiffSelection = {
+    side: 'new' | 'old';
+    startLine: number;
+    endLine: number;
+    code: string;
+};
+
+interface ReviewDiffViewProps {
+    diff: string;
+    comments: ReviewDiffComment[];
+    wrapLines?: boolean;
+    showLineNumbers?: boolean;
+    onAddComment: (selection: ReviewDiffSelection, body: string) => void;
+    onRemoveComment: (commentId: string) => void;
+}
+
+function isLineRow(row: ParsedDiffRow): boolean {
+    return row.kind === 'add' || row.kind === 'remove' || row.kind === 'context';
+}
+
+/**
+ * Lines a selection of rows refers to. Only removed lines are commented on
+ * with old line numbers, anything else uses the new file's numbering
+ */
+function selectionFromRows(rows: ParsedDiffRow[]): ReviewDiffSelection | null {
+    const lines = rows.filter(isLineRow);
+    if (lines.length === 0) return null;
+    const side = lines.every((row) => row.kind === 'remove') ? 'old' : 'new';
+    const picked = side === 'old' ? lines : lines.filter((row) => row.kind !== 'remove');
+    const numbers = picked
+        .map((row) => side === 'old' ? row.oldLineNumber : row.newLineNumber)
+        .filter((n): n is number => n !== null);
+    if (numbers.length === 0) return null;
+    return {
+        side,
+        startLine: Math.min(...numbers),
+        endLine: Math.max(...numbers),
+        code: picked.map((row) => row.text).join('\n'),
+    };
+}
+
+function rowLine(row: ParsedDiffRow, side: 'new' | 'old'): number | null {
+    if (side === 'old') return row.kind === 'remove' ? row.oldLineNumber : null;
+    return row.kind === 'remove' ? null : row.newLineNumber;
+}
+
+/**
+ * Raw diff where lines and hunks can be selected and commented on
+ */
+export const ReviewDiffView = React.memo<ReviewDiffViewProps>(({ diff, comments, wrapLines = false, showLineNumbers = true, onAddComment, onRemoveComment }) => {
+    const { theme } = useUnistyles();
+    const rows = React.useMemo(() => parseUnifiedDiffRows(diff).filter((row) => row.kind !== 'header'), [diff]);
+    const [range, setRange] = React.useState<{ start: number; end: number } | null>(null);
+    const [draft, setDraft] = React.useState('');
+
+    React.useEffect(() => {
+        setRange(null);
+        setDraft('');
+    }, [diff]);
+
+    const selection = React.useMemo(() => {
+        return range ? selectionFromRows(rows.slice(range.start, range.end + 1)) : null;
+    }, [range, rows]);
+
+    const onPressRow = React.useCallback((row: ParsedDiffRow, index: number) => {
+        if (row.kind === 'hunk') {
+            // Select every line of the hunk
+            let end = index;
+            while (end + 1 < rows.length && rows[end + 1]!.kind !== 'hunk') end += 1;
+            setRange(end > index ? { start: index + 1, end } : null);
+            return;
+        }
+        if (!isLineRow(row)) return;
+        setRange((current) => {
+            if (current && current.start === index && current.end === index) return null;
+            // Extend the selection until something has been typed for it
+            if (current && !draft.trim()) {
+                return { start: Math.min(current.start, index), end: Math.max(current.end, index) };
+            }
+            return { start: index, end: index };
+        });
+    }, [draft, rows]);
+
+    const cancel = React.useCallback(() => {
+        setRange(null);
+        setDraft('');
+    }, []);
+
+    const submit = React.useCallback(() => {
+        if (!selection || !draft.trim()) return;
+        onAddComment(selection, draft.trim());
+        setRange(null);
+        setDraft('');
+    }, [draft, onAddComment, selection]);
+
+    // Comments are shown under their last line, or above the diff if that line isn't in it anymore
+    const commentsByRow = React.useMemo(() => {
+        const map = new Map<number, ReviewDiffComment[]>();
+        const unplaced: ReviewDiffComment[] = [];
+        for (const comment of comments) {
+            const index = rows.findIndex((row) => rowLine(row, comment.side) === comment.endLine);
+            if (index < 0) {
+                unplaced.push(comment);
+                continue;
+            }
+            map.set(index, [...(map.get(index) ?? []), comment]);
+        }
+        return { map, unplaced };
+    }, [comments, rows]);
+
+    const renderComment = (comment: ReviewDiffComment) => {
+        const lines = comment.startLine === comment.endLine
+            ? `L${comment.startLine}`
+            : `L${comment.startLine}-${comment.endLine}`;
+        const label = comment.state === 'draft'
+            ? t('codeReview.draft')
+            : comment.state === 'resolved' ? t('codeReview.resolved') : t('codeReview.open');
+        return (
+            <View key={comment.id} style={[styles.comment, comment.state === 'resolved' && styles.commentResolved]}>
+                <View style={styles.commentHeader}>
+                    <Ionicons
+                        name={comment.state === 'resolved' ? 'checkmark-circle-outline' : 'chatbubble-outline'}
+                        size={14}
+                        color={comment.state === 'resolved' ? theme.colors.success : theme.colors.textSecondary}
+                    />
+                    <Text style={styles.commentMeta}>{`${comment.side === 'old' ? '−' : ''}${lines} • ${label}`}</Text>
+                    {comment.state === 'draft' ? (
+                        <Pressable
+                            onPress={() => onRemoveComment(comment.id)}
+                            hitSlop={8}
+                            accessibilityRole="button"
+                            accessibilityLabel={t('common.delete')}
+                        >
+                            <Ionicons name="trash-outline" size={14} color={theme.colors.textSecondary} />
+                        </Pressable>
+                    ) : null}
+                </View>
+                <Text style={styles.commentBody}>{comment.body}</Text>
+            </View>
+        );
+    };
+
+    const renderAfterRow = (_row: ParsedDiffRow, index: number) => {
+        const placed = commentsByRow.map.get(index);
+        const showComposer = range !== null && selection !== null && index === range.end;
+        if (!placed && !showComposer) return null;
+        return (
+            <View style={styles.thread}>
+                {placed?.map(renderComment)}
+                {showComposer ? (
+                    <View style={styles.composer}>
+                        <TextInput
+                            value={draft}
+                            onChangeText={setDraft}
+                            placeholder={t('codeReview.commentPlaceholder')}
+                            placeholderTextColor={theme.colors.input.placeholder}
+                            style={styles.input}
+                            multiline
+                            autoFocus
+                        />
+                        <View style={styles.composerActions}>
+                            <Pressable onPress={cancel} style={styles.secondaryButton} accessibilityRole="button">
+                                <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+                            </Pressable>
+                            <Pressable
+                                onPress={submit}
+                                disabled={!draft.trim()}
+                                style={[styles.primaryButton, !draft.trim() && styles.primaryButtonDisabled]}
+                                accessibilityRole="button"
+                            >
+                                <Text style={styles.primaryButtonText}>{t('codeReview.addComment')}</Text>
+                            </Pressable>
+                        </View>
+                    </View>
+                ) : null}
+            </View>
+        );
+    };
+
+    return (
+        <View>
+            {commentsByRow.unplaced.length > 0 ? (
+                <View style={styles.thread}>
+                    {commentsByRow.unplaced.map(renderComment)}
+                </View>
+            ) : null}
+            <RawDiffView
+                diff={diff}
+                rows={rows}
+                wrapLines={wrapLines}
+                showLineNumbers={showLineNumbers}
+                showFileHeaders={false}
+                onPressRow={onPressRow}
+                isRowSelected={(index) => range !== null && index >= range.start && index <= range.end}
+                renderAfterRow={renderAfterRow}
+            />
+        </View>
+    );
+});
+
+const styles = StyleSheet.create((theme) => ({
+    thread: {
+        paddingVertical: 8,
+        paddingHorizontal: 10,
+        gap: 8,
+        backgroundColor: theme.colors.surfaceHigh,
+        borderTopWidth: StyleSheet.hairlineWidth,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+        borderColor: theme.colors.divider,
+    },
+    comment: {
+        padding: 10,
+        borderRadius: 8,
+        backgroundColor: theme.colors.surface,
+        borderWidth: StyleSheet.hairlineWidth,
+        borderColor: theme.colors.divider,
+        gap: 4,
+    },
+    commentResolved: {
+        opacity: 0.6,
+    },
+    commentHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    commentMeta: {
+        flex: 1,
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    commentBody: {
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    composer: {
+        gap: 8,
+    },
+    input: {
+        minHeight: 64,
+        maxHeight: 200,
+        padding: 10,
+        borderRadius: 8,
+        backgroundColor: theme.colors.input.background,
+        color: theme.colors.input.text,
+        fontSize: 14,
+        textAlignVertical: 'top',
+        ...Typography.default(),
+    },
+    composerActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 8,
+    },
+    secondaryButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 6,
+    },
+    secondaryButtonText: {
+        fontSize: 13,
+        color: theme.colors.button.secondary.tint,
+        ...Typography.default('semiBold'),
+    },
+    primaryButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 6,
+        backgroundColor: theme.colors.button.primary.background,
+    },
+    primaryButtonDisabled: {
+        backgroundColor: theme.colors.button.primary.disabled,
+    },
+    primaryButtonText: {
+        fontSize: 13,
+        color: theme.colors.button.primary.tint,
+        ...Typography.default('semiBold'),
+    },
+}));
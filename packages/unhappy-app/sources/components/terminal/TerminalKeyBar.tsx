@@ -0,0 +1,96 @@
+import * as React from 'react';
+import { Pressable, ScrollView, Text } from 'react-native';
+import { StyleSheet } from 'react-native-unistyles';
+import { Typography } from '@/constants/Typography';
+
+/**
+ * Convert a character to its control code, e.g. "c" to ^C
+ */
+export function toControlKey(ch: string): string {
+    if (ch === ' ') {
+        return '\x00';
+    }
+    const code = ch.toUpperCase().charCodeAt(0);
+    if (code >= 64 && code <= 95) {
+        return String.fromCharCode(code - 64);
+    }
+    return ch;
+}
+
+const KEYS: { label: string; data: string }[] = [
+    { label: 'esc', data: '\x1b' },
+    { label: 'tab', data: '\t' },
+    { label: '↑', data: '\x1b[A' },
+    { label: '↓', data: '\x1b[B' },
+    { label: '←', data: '\x1b[D' },
+    { label: '→', data: '\x1b[C' },
+    { label: '^C', data: '\x03' },
+    { label: '|', data: '|' },
+    { label: '~', data: '~' },
+    { label: '/', data: '/' },
+    { label: '-', data: '-' },
+];
+
+interface TerminalKeyBarProps {
+    ctrl: boolean;
+    onToggleCtrl: () => void;
+    onKey: (data: string) => void;
+}
+
+/**
+ * Keys that soft keyboards don't have, shown above the keyboard
+ */
+export const TerminalKeyBar = React.memo<TerminalKeyBarProps>(({ ctrl, onToggleCtrl, onKey }) => {
+    return (
+        <ScrollView
+            horizontal
+            style={styles.bar}
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="always"
+            showsHorizontalScrollIndicator={false}
+        >
+            <Pressable style={[styles.key, ctrl && styles.keyActive]} onPress={onToggleCtrl}>
+                <Text style={[styles.keyText, ctrl && styles.keyTextActive]}>ctrl</Text>
+            </Pressable>
+            {KEYS.map((key) => (
+                <Pressable key={key.label} style={styles.key} onPress={() => onKey(key.data)}>
+                    <Text style={styles.keyText}>{key.label}</Text>
+                </Pressable>
+            ))}
+        </ScrollView>
+    );
+});
+
+const styles = StyleSheet.create((theme) => ({
+    bar: {
+        flexGrow: 0,
+        backgroundColor: theme.colors.surfaceHigh,
+        borderTopWidth: StyleSheet.hairlineWidth,
+        borderTopColor: theme.colors.divider,
+    },
+    content: {
+        paddingHorizontal: 6,
+        paddingVertical: 6,
+        gap: 6,
+    },
+    key: {
+        minWidth: 40,
+        height: 34,
+        paddingHorizontal: 10,
+        borderRadius: 6,
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: theme.colors.surface,
+    },
+    keyActive: {
+        backgroundColor: theme.colors.button.primary.background,
+    },
+    keyText: {
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.mono(),
+    },
+    keyTextActive: {
+        color: theme.colors.button.primary.tint,
+    },
+}));
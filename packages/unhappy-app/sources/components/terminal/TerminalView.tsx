@@ -0,0 +1,119 @@
+import * as React from 'react';
+import { LayoutChangeEvent, Pressable, Text, View } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Typography } from '@/constants/Typography';
+import type { TerminalColor, TerminalScreen, TerminalSpan } from '@/utils/terminalEmulator';
+
+const PADDING = 8;
+
+// xterm default palette for the 16 base colors
+const BASE_COLORS = [
+    '#000000', '#CD3131', '#0DBC79', '#E5E510', '#2472C8', '#BC3FBC', '#11A8CD', '#E5E5E5',
+    '#666666', '#F14C4C', '#23D18B', '#F5F543', '#3B8EEA', '#D670D6', '#29B8DB', '#FFFFFF',
+];
+
+function paletteColor(color: TerminalColor): string {
+    if (typeof color === 'string') {
+        return color;
+    }
+    if (color < 16) {
+        return BASE_COLORS[color];
+    }
+    if (color < 232) {
+        // 6x6x6 color cube
+        const index = color - 16;
+        const level = (value: number) => (value === 0 ? 0 : 55 + value * 40).toString(16).padStart(2, '0');
+        return `#${level(Math.floor(index / 36))}${level(Math.floor(index / 6) % 6)}${level(index % 6)}`;
+    }
+    const gray = (8 + (color - 232) * 10).toString(16).padStart(2, '0');
+    return `#${gray}${gray}${gray}`;
+}
+
+/**
+ * Character cell size for a font size. IBM Plex Mono advances 0.6em.
+ */
+export function terminalCellSize(fontSize: number) {
+    return { width: fontSize * 0.6, height: Math.round(fontSize * 1.25) };
+}
+
+interface TerminalViewProps {
+    screen: TerminalScreen | null;
+    fontSize?: number;
+    /** Called with the grid size that fits the view */
+    onResize?: (cols: number, rows: number) => void;
+    onPress?: () => void;
+}
+
+export const TerminalView = React.memo<TerminalViewProps>(({ screen, fontSize = 13, onResize, onPress }) => {
+    const { theme } = useUnistyles();
+    const cell = terminalCellSize(fontSize);
+    const foreground = theme.colors.terminal.stdout;
+    const background = theme.colors.terminal.background;
+
+    const handleLayout = React.useCallback((event: LayoutChangeEvent) => {
+        const { width, height } = event.nativeEvent.layout;
+        const cols = Math.floor((width - PADDING * 2) / cell.width);
+        const rows = Math.floor((height - PADDING * 2) / cell.height);
+        if (cols > 0 && rows > 0) {
+            onResize?.(cols, rows);
+        }
+    }, [cell.width, cell.height, onResize]);
+
+    const renderSpan = (span: TerminalSpan, key: number) => {
+        let fg = span.style.fg !== undefined ? paletteColor(span.style.fg) : foreground;
+        let bg = span.style.bg !== undefined ? paletteColor(span.style.bg) : undefined;
+        if (span.style.inverse) {
+            [fg, bg] = [bg ?? background, fg];
+        }
+        return (
+            <Text
+                key={key}
+                style={{
+                    color: fg,
+                    backgroundColor: bg,
+                    opacity: span.style.dim ? 0.6 : undefined,
+                    textDecorationLine: span.style.underline ? 'underline' : undefined,
+                    ...Typography.mono(span.style.bold ? 'semiBold' : span.style.italic ? 'italic' : 'regular'),
+                }}
+            >
+                {span.text}
+            </Text>
+        );
+    };
+
+    return (
+        <Pressable style={[styles.container, { backgroundColor: background }]} onLayout={handleLayout} onPress={onPress}>
+            {screen && screen.lines.map((line, row) => (
+                <View key={row} style={{ height: cell.height }}>
+                    <Text style={{ fontSize, lineHeight: cell.height, color: foreground, ...Typography.mono() }} numberOfLines={1}>
+                        {line.length > 0 ? line.map(renderSpan) : ' '}
+                    </Text>
+                    {screen.cursorVisible && screen.cursor.y === row && (
+                        <View
+                            pointerEvents="none"
+                            style={[styles.cursor, {
+                                left: screen.cursor.x * cell.width,
+                                width: cell.width,
+                                height: cell.height,
+                                backgroundColor: foreground,
+                            }]}
+                        />
+                    )}
+                </View>
+            ))}
+        </Pressable>
+    );
+});
+
+const styles = StyleSheet.create(() => ({
+    container: {
+        flex: 1,
+        padding: PADDING,
+        overflow: 'hidden',
+    },
+    cursor: {
+        position: 'absolute',
+        top: 0,
+        opacity: 0.5,
+    },
+}));
@@ -4,6 +4,8 @@ import { sessionAllow, sessionDeny } from '@/sync/ops';
 import { useUnistyles } from 'react-native-unistyles';
 import { storage, useSession, useSocketStatus } from '@/sync/storage';
 import { normalizePermissionPolicy } from '@/sync/permissionPolicy';
+import type { PermissionRuleMatch } from '@/sync/permissionRules';
+import { BUDGET_TOOL } from '@/sync/budget';
 import { t } from '@/text';
 import { Modal } from '@/modal';
 
@@ -15,6 +17,7 @@ interface PermissionFooterProps {
         mode?: string;
         allowedTools?: string[];
         decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
+        matchedRule?: PermissionRuleMatch;
     };
     sessionId: string;
     toolName: string;
@@ -23,6 +26,20 @@ interface PermissionFooterProps {
     showCommandPreview?: boolean;
 }
 
+function describeMatchedRule(match: PermissionRuleMatch): string {
+    const source = match.source === 'project'
+        ? t('permissionRules.sourceProject')
+        : match.source === 'account'
+            ? t('permissionRules.sourceAccount')
+            : t('permissionRules.sourceSession');
+    const params = { source, rule: match.description };
+    switch (match.action) {
+        case 'allow': return t('permissionRules.allowedBy', params);
+        case 'deny': return t('permissionRules.deniedBy', params);
+        case 'ask': return t('permissionRules.askedBy', params);
+    }
+}
+
 export const PermissionFooter: React.FC<PermissionFooterProps> = ({
     permission,
     sessionId,
@@ -106,6 +123,8 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({
 
     // Check if this is a Codex session - check both metadata.flavor and tool name prefix
     const isCodex = metadata?.flavor === 'codex' || toolName.startsWith('Codex');
+    // Continuing past the budget is a plain yes or no, there is no tool to remember
+    const isBudget = toolName === BUDGET_TOOL;
     const commandPreview = React.useMemo(() => {
         if (!showCommandPreview || !toolInput) return null;
 
@@ -330,6 +349,11 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({
         return null;
     }
 
+    // Shared sessions are read-only, only the owner can answer permission prompts.
+    if (session?.sharedBy) {
+        return null;
+    }
+
     // Helper function to check if tool matches allowed pattern
     const isToolAllowed = (toolName: string, toolInput: any, allowedTools: string[] | undefined): boolean => {
         if (!allowedTools) return false;
@@ -481,8 +505,27 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({
             color: theme.colors.text,
             fontWeight: '700',
         },
+        ruleText: {
+            marginBottom: 6,
+            fontSize: 12,
+            color: theme.colors.textSecondary,
+            lineHeight: 16,
+        },
     });
 
+    // Rules decide without asking, so there are no buttons to show, only the rule
+    const matchedRule = permission.matchedRule;
+    if (matchedRule && matchedRule.action !== 'ask' && !isPending) {
+        return (
+            <View style={styles.container}>
+                <Text style={[styles.ruleText, { marginBottom: 0 }]}>{describeMatchedRule(matchedRule)}</Text>
+            </View>
+        );
+    }
+    const ruleNotice = matchedRule?.action === 'ask'
+        ? <Text style={styles.ruleText}>{describeMatchedRule(matchedRule)}</Text>
+        : null;
+
     function OptionButton(props: {
         label: string;
         kind: 'allow' | 'allowAll' | 'deny';
@@ -562,6 +605,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({
 
         return (
             <View style={styles.container}>
+                {ruleNotice}
                 {commandPreview ? (
                     <View style={styles.commandPreview}>
                         <Text style={styles.commandPreviewLabel}>명령어</Text>
@@ -621,6 +665,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({
 
     return (
         <View style={styles.container}>
+                {ruleNotice}
                 {commandPreview ? (
                     <View style={styles.commandPreview}>
                         <Text style={styles.commandPreviewLabel}>명령어</Text>
@@ -631,7 +676,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({
                 ) : null}
             <View style={styles.buttonContainer}>
                 <OptionButton
-                    label={t('common.yes')}
+                    label={isBudget ? t('budget.continue') : t('common.yes')}
                     kind="allow"
                     isSelected={isApprovedViaAllow}
                     isInactive={isDenied || isApprovedViaAllEdits || isApprovedForSession}
@@ -654,7 +699,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({
                     />
                 )}
 
-                {toolName && toolName !== 'Edit' && toolName !== 'MultiEdit' && toolName !== 'Write' && toolName !== 'NotebookEdit' && toolName !== 'exit_plan_mode' && toolName !== 'ExitPlanMode' && (
+                {toolName && !isBudget && toolName !== 'Edit' && toolName !== 'MultiEdit' && toolName !== 'Write' && toolName !== 'NotebookEdit' && toolName !== 'exit_plan_mode' && toolName !== 'ExitPlanMode' && (
                     <OptionButton
                         label={t('claude.permissions.yesForTool')}
                         kind="allowAll"
@@ -668,7 +713,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({
                 )}
 
                 <OptionButton
-                    label={t('claude.permissions.noTellClaude')}
+                    label={isBudget ? t('budget.stop') : t('claude.permissions.noTellClaude')}
                     kind="deny"
                     isSelected={isDenied}
                     isInactive={isApproved}
@@ -5,6 +5,7 @@ import * as z from 'zod';
 import { Ionicons, Octicons } from '@/icons/vector-icons';
 import React from 'react';
 import { t } from '@/text';
+import { BudgetStateSchema, formatBudgetAmount } from '@/sync/budget';
 
 // Icon factory functions
 const ICON_TASK = (size: number = 24, color: string = '#000') => <Octicons name="rocket" size={size} color={color} />;
@@ -17,6 +18,7 @@ const ICON_EXIT = (size: number = 24, color: string = '#000') => <Ionicons name=
 const ICON_TODO = (size: number = 24, color: string = '#000') => <Ionicons name="bulb-outline" size={size} color={color} />;
 const ICON_REASONING = (size: number = 24, color: string = '#000') => <Octicons name="light-bulb" size={size} color={color} />;
 const ICON_QUESTION = (size: number = 24, color: string = '#000') => <Ionicons name="help-circle-outline" size={size} color={color} />;
+const ICON_BUDGET = (size: number = 24, color: string = '#000') => <Ionicons name="wallet-outline" size={size} color={color} />;
 
 export const knownTools = {
     'Task': {
@@ -901,6 +903,24 @@ export const knownTools = {
             return t('tools.desc.showingDiff');
         }
     },
+    // Sent by the CLI when the session budget is used up, not a real tool call
+    'BudgetExceeded': {
+        title: t('budget.exceeded'),
+        icon: ICON_BUDGET,
+        minimal: true,
+        input: BudgetStateSchema.partial().passthrough(),
+        extractDescription: (opts: { metadata: Metadata | null, tool: ToolCall }) => {
+            const parsed = BudgetStateSchema.safeParse(opts.tool.input);
+            if (!parsed.success) {
+                return t('budget.exceeded');
+            }
+            const { unit, limit, spent } = parsed.data;
+            return t('budget.exceededDescription', {
+                spent: formatBudgetAmount(unit, spent),
+                limit: formatBudgetAmount(unit, limit),
+            });
+        }
+    },
     'AskUserQuestion': {
         title: (opts: { metadata: Metadata | null, tool: ToolCall }) => {
             // Use first question header as title if available
@@ -10,6 +10,7 @@ interface UsageBarProps {
     color?: string;
     showPercentage?: boolean;
     height?: number;
+    formatValue?: (value: number) => string;
 }
 
 const styles = StyleSheet.create((theme) => ({
@@ -48,7 +49,8 @@ export const UsageBar: React.FC<UsageBarProps> = ({
     maxValue,
     color,
     showPercentage = false,
-    height = 8
+    height = 8,
+    formatValue
 }) => {
     const { theme } = useUnistyles();
     const percentage = maxValue > 0 ? (value / maxValue) * 100 : 0;
@@ -56,7 +58,7 @@ export const UsageBar: React.FC<UsageBarProps> = ({
     
     const displayValue = showPercentage 
         ? `${percentage.toFixed(1)}%`
-        : value.toLocaleString();
+        : formatValue ? formatValue(value) : value.toLocaleString();
     
     return (
         <View style={styles.container}>
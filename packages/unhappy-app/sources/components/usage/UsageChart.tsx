@@ -75,11 +75,8 @@ export const UsageChart: React.FC<UsageChartProps> = ({
     
     // Calculate max value for scaling
     const getValueForDataPoint = (point: UsageDataPoint): number => {
-        if (metric === 'tokens') {
-            return Object.values(point.tokens).reduce((sum, val) => sum + (val || 0), 0);
-        } else {
-            return Object.values(point.cost).reduce((sum, val) => sum + (val || 0), 0);
-        }
+        // The other keys break the total down
+        return (metric === 'tokens' ? point.tokens.total : point.cost.total) || 0;
     };
     
     const maxValue = Math.max(...data.map(getValueForDataPoint), 1);
@@ -7,12 +7,16 @@ import { Item } from '@/components/Item';
 import { ItemGroup } from '@/components/ItemGroup';
 import { UsageChart } from './UsageChart';
 import { UsageBar } from './UsageBar';
-import { getUsageForPeriod, calculateTotals, UsageDataPoint } from '@/sync/apiUsage';
+import { previousUsageRange, queryUsage, UsageDataPoint, UsagePeriod, usagePeriodRange } from '@/sync/apiUsage';
+import { cacheHitRatio, emptyUsageTotals, groupUsage, sumUsage, UsageDimension, usageChange, usageTimeline } from '@/sync/usageAnalytics';
 import { Ionicons } from '@/icons/vector-icons';
 import { HappyError } from '@/utils/errors';
+import { getUsageSessionInfo } from '@/utils/usageExport';
 import { t } from '@/text';
 
-type TimePeriod = 'today' | '7days' | '30days';
+type TimePeriod = UsagePeriod;
+
+const DIMENSIONS: UsageDimension[] = ['model', 'agent', 'machine', 'project'];
 
 const styles = StyleSheet.create((theme) => ({
     container: {
@@ -63,6 +67,14 @@ const styles = StyleSheet.create((theme) => ({
         fontWeight: '700',
         color: theme.colors.text,
     },
+    statValueColumn: {
+        alignItems: 'flex-end',
+    },
+    statChange: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        marginTop: 2,
+    },
     chartSection: {
         marginTop: 16,
     },
@@ -113,20 +125,22 @@ const styles = StyleSheet.create((theme) => ({
     }
 }));
 
-export const UsagePanel: React.FC<{ sessionId?: string }> = ({ sessionId }) => {
+export const UsagePanel: React.FC<{
+    sessionId?: string;
+    period?: TimePeriod;
+    onPeriodChange?: (period: TimePeriod) => void;
+}> = ({ sessionId, period: controlledPeriod, onPeriodChange }) => {
     const { theme } = useUnistyles();
     const auth = useAuth();
-    const [period, setPeriod] = useState<TimePeriod>('7days');
+    const [ownPeriod, setOwnPeriod] = useState<TimePeriod>('7days');
+    const period = controlledPeriod ?? ownPeriod;
+    const setPeriod = onPeriodChange ?? setOwnPeriod;
     const [chartMetric, setChartMetric] = useState<'tokens' | 'cost'>('tokens');
+    const [dimension, setDimension] = useState<UsageDimension>('model');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [usageData, setUsageData] = useState<UsageDataPoint[]>([]);
-    const [totals, setTotals] = useState({
-        totalTokens: 0,
-        totalCost: 0,
-        tokensByModel: {} as Record<string, number>,
-        costByModel: {} as Record<string, number>
-    });
+    const [previousTotals, setPreviousTotals] = useState(emptyUsageTotals);
     
     useEffect(() => {
         loadUsageData();
@@ -142,9 +156,13 @@ export const UsagePanel: React.FC<{ sessionId?: string }> = ({ sessionId }) => {
         setError(null);
         
         try {
-            const response = await getUsageForPeriod(auth.credentials, period, sessionId);
-            setUsageData(response.usage || []);
-            setTotals(calculateTotals(response.usage || []));
+            const range = usagePeriodRange(period);
+            const [current, previous] = await Promise.all([
+                queryUsage(auth.credentials, { sessionId, ...range, breakdown: ['model', 'agent', 'session'] }),
+                queryUsage(auth.credentials, { sessionId, ...previousUsageRange(range), groupBy: range.groupBy })
+            ]);
+            setUsageData(current.usage || []);
+            setPreviousTotals(sumUsage(previous.usage || []));
         } catch (err) {
             console.error('Failed to load usage data:', err);
             if (err instanceof HappyError) {
@@ -169,6 +187,29 @@ export const UsagePanel: React.FC<{ sessionId?: string }> = ({ sessionId }) => {
     const formatCost = (cost: number): string => {
         return `$${cost.toFixed(4)}`;
     };
+
+    const formatChange = (current: number, previous: number): string | null => {
+        const change = usageChange(current, previous);
+        if (change === null) {
+            return null;
+        }
+        const percent = `${change >= 0 ? '+' : ''}${(change * 100).toFixed(0)}%`;
+        return t('usage.vsPrevious', { change: percent });
+    };
+
+    const dimensionNames: Record<UsageDimension, string> = {
+        'model': t('usage.model'),
+        'agent': t('usage.agent'),
+        'machine': t('usage.machine'),
+        'project': t('usage.project')
+    };
+
+    const dimensionLabels: Record<UsageDimension, string> = {
+        'model': t('usage.byModel'),
+        'agent': t('usage.byAgent'),
+        'machine': t('usage.byMachine'),
+        'project': t('usage.byProject')
+    };
     
     const periodLabels: Record<TimePeriod, string> = {
         'today': t('usage.today'),
@@ -193,12 +234,15 @@ export const UsagePanel: React.FC<{ sessionId?: string }> = ({ sessionId }) => {
         );
     }
     
-    // Get top models by usage
-    const topModels = Object.entries(totals.tokensByModel)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 5);
-    
-    const maxModelTokens = Math.max(...Object.values(totals.tokensByModel), 1);
+    const totals = sumUsage(usageData);
+    const timeline = usageTimeline(usageData);
+    const cacheRatio = cacheHitRatio(totals);
+    const tokensChange = formatChange(totals.tokens, previousTotals.tokens);
+    const costChange = formatChange(totals.cost, previousTotals.cost);
+
+    // Top groups by cost, the most useful order for chargeback
+    const groups = groupUsage(usageData, dimension, getUsageSessionInfo).slice(0, 8);
+    const maxGroupCost = Math.max(...groups.map((group) => group.totals.cost), 0.0001);
     
     return (
         <ScrollView style={styles.container}>
@@ -221,16 +265,28 @@ export const UsagePanel: React.FC<{ sessionId?: string }> = ({ sessionId }) => {
             <View style={styles.statsContainer}>
                 <View style={styles.statRow}>
                     <Text style={styles.statLabel}>{t('usage.totalTokens')}</Text>
-                    <Text style={styles.statValue}>{formatTokens(totals.totalTokens)}</Text>
+                    <View style={styles.statValueColumn}>
+                        <Text style={styles.statValue}>{formatTokens(totals.tokens)}</Text>
+                        {tokensChange && <Text style={styles.statChange}>{tokensChange}</Text>}
+                    </View>
                 </View>
                 <View style={styles.statRow}>
                     <Text style={styles.statLabel}>{t('usage.totalCost')}</Text>
-                    <Text style={styles.statValue}>{formatCost(totals.totalCost)}</Text>
+                    <View style={styles.statValueColumn}>
+                        <Text style={styles.statValue}>{formatCost(totals.cost)}</Text>
+                        {costChange && <Text style={styles.statChange}>{costChange}</Text>}
+                    </View>
                 </View>
+                {cacheRatio !== null && (
+                    <View style={styles.statRow}>
+                        <Text style={styles.statLabel}>{t('usage.cacheHitRatio')}</Text>
+                        <Text style={styles.statValue}>{`${(cacheRatio * 100).toFixed(0)}%`}</Text>
+                    </View>
+                )}
             </View>
             
             {/* Usage Chart */}
-            {usageData.length > 0 && (
+            {timeline.length > 0 && (
                 <View style={styles.chartSection}>
                     <Text style={styles.sectionTitle}>{t('usage.usageOverTime')}</Text>
                     
@@ -255,24 +311,38 @@ export const UsagePanel: React.FC<{ sessionId?: string }> = ({ sessionId }) => {
                     </View>
                     
                     <UsageChart 
-                        data={usageData}
+                        data={timeline}
                         metric={chartMetric}
                         height={180}
                     />
                 </View>
             )}
             
-            {/* Usage by Model */}
-            {topModels.length > 0 && (
-                <ItemGroup title={t('usage.byModel')}>
-                    <View style={{ padding: 16 }}>
-                        {topModels.map(([model, tokens]) => (
+            {/* Usage by model, agent, machine or project */}
+            {groups.length > 0 && (
+                <ItemGroup title={dimensionLabels[dimension]}>
+                    <View style={styles.metricToggle}>
+                        {DIMENSIONS.map((d) => (
+                            <Pressable
+                                key={d}
+                                style={[styles.metricButton, dimension === d && styles.metricButtonActive]}
+                                onPress={() => setDimension(d)}
+                            >
+                                <Text style={[styles.metricText, dimension === d && styles.metricTextActive]}>
+                                    {dimensionNames[d]}
+                                </Text>
+                            </Pressable>
+                        ))}
+                    </View>
+                    <View style={{ paddingHorizontal: 16, paddingBottom: 16 }}>
+                        {groups.map((group) => (
                             <UsageBar
-                                key={model}
-                                label={model}
-                                value={tokens}
-                                maxValue={maxModelTokens}
+                                key={group.key ?? ''}
+                                label={group.key ?? t('usage.unknown')}
+                                value={group.totals.cost}
+                                maxValue={maxGroupCost}
                                 color={theme.colors.chrome.accent}
+                                formatValue={(cost) => `${formatCost(cost)} • ${formatTokens(group.totals.tokens)}`}
                             />
                         ))}
                     </View>
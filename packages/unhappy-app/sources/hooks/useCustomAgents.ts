@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { machineListAgents, type MachineCustomAgent } from '@/sync/ops';
+
+/**
+ * Custom ACP agents declared in ~/.unhappy/agents.json on a machine.
+ *
+ * Fetched whenever the machine changes. Returns an empty list while loading,
+ * when the machine is offline or when its daemon predates custom agents.
+ *
+ * @param machineId - The machine to list agents for (null = none)
+ */
+export function useCustomAgents(machineId: string | null): MachineCustomAgent[] {
+    const [agents, setAgents] = useState<MachineCustomAgent[]>([]);
+
+    useEffect(() => {
+        setAgents([]);
+        if (!machineId) {
+            return;
+        }
+
+        let cancelled = false;
+        machineListAgents(machineId).then((result) => {
+            if (!cancelled) {
+                setAgents(result);
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [machineId]);
+
+    return agents;
+}
@@ -0,0 +1,15 @@
+/**
+ * Stand-in for `@/encryption/libsodium` in specs of the sealed local stores.
+ * Sealing itself is covered by the libsodium wrappers, a key tag is enough to
+ * tell accounts apart. The payload is base64 so stored records never show
+ * the plaintext.
+ */
+
+export function encryptSecretBox(data: any, key: Uint8Array): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify({ key: key[0], data: btoa(JSON.stringify(data)) }));
+}
+
+export function decryptSecretBox(data: Uint8Array, key: Uint8Array): any | null {
+    const sealed = JSON.parse(new TextDecoder().decode(data));
+    return sealed.key === key[0] ? JSON.parse(atob(sealed.data)) : null;
+}
@@ -0,0 +1,61 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { getServerUrl } from './serverConfig';
+
+/**
+ * Create the session for an imported archive. The server returns the existing
+ * session when the tag was used before, so an interrupted import resumes into
+ * the same session. It is created read-only, the server only accepts more
+ * messages through the import endpoint.
+ */
+export async function createImportedSession(
+    credentials: AuthCredentials,
+    request: {
+        tag: string;
+        metadata: string;
+        agentState: string | null;
+        dataEncryptionKey: string;
+    }
+): Promise<{ id: string; dataEncryptionKey: string | null }> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/sessions`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...request, readOnly: true })
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to create session: ${response.status}`);
+    }
+
+    const data = await response.json() as { session: { id: string; dataEncryptionKey: string | null } };
+    return { id: data.session.id, dataEncryptionKey: data.session.dataEncryptionKey };
+}
+
+/**
+ * Append a batch of encrypted messages, the server skips localIds it already has
+ */
+export async function importSessionMessages(
+    credentials: AuthCredentials,
+    sessionId: string,
+    messages: { localId: string; content: string; createdAt: number }[]
+): Promise<number> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/messages`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ messages })
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to import messages: ${response.status}`);
+    }
+
+    const data = await response.json() as { imported: number };
+    return data.imported;
+}
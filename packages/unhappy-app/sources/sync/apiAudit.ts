@@ -0,0 +1,33 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { getServerUrl } from './serverConfig';
+
+export interface ApiAuditEvent {
+    id: string;
+    seq: number;
+    localId: string;
+    content: string;
+    createdAt: number;
+}
+
+/**
+ * One page of encrypted audit events, oldest first
+ */
+export async function fetchSessionAuditPage(
+    credentials: AuthCredentials,
+    sessionId: string,
+    after: number
+): Promise<{ events: ApiAuditEvent[]; hasMore: boolean }> {
+    const API_ENDPOINT = getServerUrl();
+    const params = new URLSearchParams({ after: String(after), limit: '500' });
+    const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/audit?${params}`, {
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch audit log: ${response.status}`);
+    }
+
+    return await response.json() as { events: ApiAuditEvent[]; hasMore: boolean };
+}
@@ -0,0 +1,166 @@
+import axios from 'axios';
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { deviceName, deviceSign, getDeviceId, setDeviceId } from '@/auth/deviceKey';
+import { encodeBase64 } from '@/encryption/base64';
+import { getRandomBytes } from 'expo-crypto';
+import { getServerUrl } from './serverConfig';
+
+export interface AccountDevice {
+    id: string;
+    kind: 'app' | 'cli';
+    name: string | null;
+    current: boolean;
+    lastSeenAt: number;
+    createdAt: number;
+}
+
+export async function fetchDevices(credentials: AuthCredentials): Promise<AccountDevice[]> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/devices`, {
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch devices: ${response.status}`);
+    }
+
+    const data = await response.json() as { devices: AccountDevice[] };
+    return data.devices;
+}
+
+export async function revokeDevice(credentials: AuthCredentials, deviceId: string): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/devices/${deviceId}`, {
+        method: 'DELETE',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    // Already revoked is fine
+    if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to revoke device: ${response.status}`);
+    }
+}
+
+/**
+ * Register the sub-key of an install that signed in before device management
+ * or by linking, the returned credentials carry a token bound to the device.
+ * Failures keep the current token, registration is retried on the next start.
+ */
+export async function registerDevice(credentials: AuthCredentials): Promise<AuthCredentials> {
+    if (getDeviceId()) {
+        return credentials;
+    }
+    try {
+        const API_ENDPOINT = getServerUrl();
+        const challenge = getRandomBytes(32);
+        const { publicKey, signature } = deviceSign(challenge);
+        const response = await axios.post(`${API_ENDPOINT}/v1/devices`, {
+            publicKey: encodeBase64(publicKey),
+            challenge: encodeBase64(challenge),
+            signature: encodeBase64(signature),
+            name: deviceName()
+        }, {
+            headers: { 'Authorization': `Bearer ${credentials.token}` },
+            timeout: 5000
+        });
+        const data = response.data as { deviceId: string, token: string };
+        setDeviceId(data.deviceId);
+        return { ...credentials, token: data.token };
+    } catch (error) {
+        console.error('Device registration failed:', error);
+        return credentials;
+    }
+}
+
+type WrappedKey = { id: string, key: string };
+
+/**
+ * Everything encrypted for the account key, as the server holds it
+ */
+export interface AccountKeys {
+    keyVersion: number;
+    settings: string | null;
+    settingsVersion: number;
+    sessions: { id: string, dataEncryptionKey: string | null }[];
+    machines: { id: string, dataEncryptionKey: string | null }[];
+    artifacts: { id: string, dataEncryptionKey: string }[];
+    shares: { id: string, encryptedDataKey: string }[];
+    kv: { key: string, value: string, version: number }[];
+}
+
+export interface AccountKeysRotation {
+    keyVersion: number;
+    publicKey: string;
+    challenge: string;
+    signature: string;
+    contentPublicKey: string;
+    settings: string | null;
+    settingsVersion: number;
+    sessions: WrappedKey[];
+    machines: WrappedKey[];
+    artifacts: WrappedKey[];
+    shares: WrappedKey[];
+    kv: { key: string, value: string, version: number }[];
+}
+
+export type AccountKeysRotateResult =
+    | { type: 'success', token: string }
+    | { type: 'keys-changed' | 'legacy-encryption' | 'unauthorized' };
+
+export async function fetchAccountKeys(credentials: AuthCredentials): Promise<AccountKeys> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/account/keys`, {
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch account keys: ${response.status}`);
+    }
+
+    return await response.json() as AccountKeys;
+}
+
+/**
+ * Whether the server still accepts a token, network errors are thrown
+ */
+export async function isTokenAccepted(credentials: AuthCredentials): Promise<boolean> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/devices`, {
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+    return response.status !== 401;
+}
+
+export async function rotateAccountKeys(credentials: AuthCredentials, rotation: AccountKeysRotation): Promise<AccountKeysRotateResult> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/account/keys/rotate`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(rotation)
+    });
+
+    if (response.status === 401) {
+        return { type: 'unauthorized' };
+    }
+    if (response.status === 409) {
+        const data = await response.json() as { error: 'keys-changed' | 'legacy-encryption' };
+        return { type: data.error };
+    }
+    if (!response.ok) {
+        throw new Error(`Failed to rotate account keys: ${response.status}`);
+    }
+
+    const data = await response.json() as { token: string };
+    return { type: 'success', token: data.token };
+}
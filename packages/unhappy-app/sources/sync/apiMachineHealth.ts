@@ -0,0 +1,41 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { getServerUrl } from './serverConfig';
+
+/**
+ * Latest counters reported by a daemon, cumulative since it started
+ */
+export interface MachineHealth {
+    reportedAt: number;
+    cliVersion: string;
+    uptimeSeconds: number;
+    activeSessions: number;
+    sessionsSpawned: number;
+    spawnFailures: number;
+    rpcCalls: number;
+    rpcErrors: number;
+    rpcLatencyP50Ms: number | null;
+    rpcLatencyP95Ms: number | null;
+    reconnects: number;
+}
+
+/**
+ * `null` until the daemon sent its first report
+ */
+export async function fetchMachineHealth(
+    credentials: AuthCredentials,
+    machineId: string
+): Promise<MachineHealth | null> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/machines/${machineId}/health`, {
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch machine health: ${response.status}`);
+    }
+
+    const data = await response.json() as { health: MachineHealth | null };
+    return data.health;
+}
@@ -0,0 +1,121 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { backoff } from '@/utils/time';
+import { getServerUrl } from './serverConfig';
+import { encodeBase64 } from '@/encryption/base64';
+
+export interface SessionShare {
+    userId: string;
+    createdAt: number;
+}
+
+export class SessionShareError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'SessionShareError';
+    }
+}
+
+/**
+ * Publish the content public key so friends can share session keys with us
+ */
+export async function publishContentKey(
+    credentials: AuthCredentials,
+    contentPublicKey: Uint8Array
+): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+    await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/account/content-key`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${credentials.token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                contentPublicKey: encodeBase64(contentPublicKey)
+            })
+        });
+
+        // Older servers don't support sharing
+        if (response.status === 404) {
+            return;
+        }
+        if (!response.ok) {
+            throw new Error(`Failed to publish content key: ${response.status}`);
+        }
+    });
+}
+
+/**
+ * List friends a session is shared with
+ */
+export async function getSessionShares(
+    credentials: AuthCredentials,
+    sessionId: string
+): Promise<SessionShare[]> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/shares`, {
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new SessionShareError(response.status, `Failed to get session shares: ${response.status}`);
+    }
+
+    const data = await response.json() as { shares: SessionShare[] };
+    return data.shares;
+}
+
+/**
+ * Share a session with a friend.
+ * The data key must already be encrypted for the friend's content public key.
+ */
+export async function createSessionShare(
+    credentials: AuthCredentials,
+    sessionId: string,
+    userId: string,
+    encryptedDataKey: Uint8Array
+): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/shares`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+            userId,
+            encryptedDataKey: encodeBase64(encryptedDataKey)
+        })
+    });
+
+    if (!response.ok) {
+        throw new SessionShareError(response.status, `Failed to share session: ${response.status}`);
+    }
+}
+
+/**
+ * Revoke a friend's access to a session
+ */
+export async function revokeSessionShare(
+    credentials: AuthCredentials,
+    sessionId: string,
+    userId: string
+): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+    const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/shares/${userId}`, {
+        method: 'DELETE',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    // Already revoked
+    if (response.status === 404) {
+        return;
+    }
+    if (!response.ok) {
+        throw new SessionShareError(response.status, `Failed to revoke session share: ${response.status}`);
+    }
+}
@@ -19,6 +19,20 @@ export interface SyncSocketState {
 
 export type SyncSocketListener = (state: SyncSocketState) => void;
 
+export interface RpcCallOptions {
+    /** Cancels the call, the promise rejects right away and the handler is told to stop */
+    signal?: AbortSignal;
+    /** Deadline enforced by the handler itself, overrides the default ack timeout */
+    timeoutMs?: number;
+    /** Partial results the handler sends while it runs, decrypted */
+    onProgress?: (data: any) => void;
+}
+
+type RpcEncryption = {
+    encryptRaw(data: any): Promise<string>;
+    decryptRaw(encrypted: string): Promise<any | null>;
+};
+
 //
 // Main Class
 //
@@ -34,6 +48,8 @@ class ApiSocket {
     private statusListeners: Set<(status: 'disconnected' | 'connecting' | 'connected' | 'error') => void> = new Set();
     private currentStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
     private connectPromise: Promise<void> | null = null;
+    private rpcProgressHandlers: Map<string, (data: string) => void> = new Map();
+    private rpcCallCounter = 0;
     private readonly DEBUG_SOCKET = __DEV__ || process.env.EXPO_PUBLIC_DEBUG === '1';
     private dlog(...args: any[]) {
         if (!this.DEBUG_SOCKET) return;
@@ -214,13 +230,9 @@ class ApiSocket {
     /**
      * RPC call for sessions - uses session-specific encryption
      */
-    async sessionRPC<R, A>(sessionId: string, method: string, params: A): Promise<R> {
+    async sessionRPC<R, A>(sessionId: string, method: string, params: A, options?: RpcCallOptions): Promise<R> {
         this.dlog('sessionRPC: start', { sessionId, method });
         await this.ensureConnected();
-        const socket = this.socket;
-        if (!socket) {
-            throw new Error('Socket not connected');
-        }
         if (!this.encryption) {
             throw new Error('SyncSocket not initialized');
         }
@@ -229,42 +241,16 @@ class ApiSocket {
         if (!sessionEncryption) {
             throw new Error(`Session encryption not found for ${sessionId}`);
         }
-        
-        const ackTimeoutMs =
-            method === 'bash'
-                ? (typeof (params as any)?.timeout === 'number' && (params as any).timeout > 0
-                    ? (params as any).timeout + 60000
-                    : 10 * 60 * 1000)
-                : 30000;
-
-        const result: any = await socket.timeout(ackTimeoutMs).emitWithAck('rpc-call', {
-            method: `${sessionId}:${method}`,
-            params: await sessionEncryption.encryptRaw(params)
-        });
-        
-        if (result && typeof result === 'object' && result.ok) {
-            this.dlog('sessionRPC: ok', { sessionId, method });
-            return await sessionEncryption.decryptRaw(result.result) as R;
-        }
-        const err =
-            result && typeof result === 'object' && typeof result.error === 'string' && result.error.trim()
-                ? result.error.trim()
-                : 'RPC call failed';
-        const endpoint = this.config?.endpoint ? ` @ ${this.config.endpoint}` : '';
-        this.dlog('sessionRPC: failed', { sessionId, method, err });
-        throw new Error(`RPC call failed (session:${sessionId}:${method})${endpoint}: ${err}`);
+
+        return await this.rpcCall<R>(`session:${sessionId}:${method}`, `${sessionId}:${method}`, method, params, sessionEncryption, options);
     }
 
     /**
      * RPC call for machines - uses legacy/global encryption (for now)
      */
-    async machineRPC<R, A>(machineId: string, method: string, params: A): Promise<R> {
+    async machineRPC<R, A>(machineId: string, method: string, params: A, options?: RpcCallOptions): Promise<R> {
         this.dlog('machineRPC: start', { machineId, method });
         await this.ensureConnected();
-        const socket = this.socket;
-        if (!socket) {
-            throw new Error('Socket not connected');
-        }
         if (!this.encryption) {
             throw new Error('SyncSocket not initialized');
         }
@@ -274,29 +260,89 @@ class ApiSocket {
             throw new Error(`Machine encryption not found for ${machineId}`);
         }
 
+        return await this.rpcCall<R>(`machine:${machineId}:${method}`, `${machineId}:${method}`, method, params, machineEncryption, options);
+    }
+
+    private async rpcCall<R>(
+        label: string,
+        prefixedMethod: string,
+        method: string,
+        params: unknown,
+        encryption: RpcEncryption,
+        options?: RpcCallOptions
+    ): Promise<R> {
+        const socket = this.socket;
+        if (!socket) {
+            throw new Error('Socket not connected');
+        }
+        if (options?.signal?.aborted) {
+            throw new Error('RPC call cancelled');
+        }
+
         const ackTimeoutMs =
-            method === 'bash'
-                ? (typeof (params as any)?.timeout === 'number' && (params as any).timeout > 0
-                    ? (params as any).timeout + 60000
-                    : 10 * 60 * 1000)
-                : 30000;
-
-        const result: any = await socket.timeout(ackTimeoutMs).emitWithAck('rpc-call', {
-            method: `${machineId}:${method}`,
-            params: await machineEncryption.encryptRaw(params)
+            options?.timeoutMs
+                ? options.timeoutMs + 10000
+                : method === 'bash'
+                    ? (typeof (params as any)?.timeout === 'number' && (params as any).timeout > 0
+                        ? (params as any).timeout + 60000
+                        : 10 * 60 * 1000)
+                    : 30000;
+
+        // A callId lets the relay route cancellation and progress for this call
+        const callId = options?.signal || options?.onProgress ? `${Date.now().toString(36)}-${++this.rpcCallCounter}` : undefined;
+        const onProgress = options?.onProgress;
+        if (callId && onProgress) {
+            this.rpcProgressHandlers.set(callId, (data) => {
+                encryption.decryptRaw(data).then((decrypted) => {
+                    if (decrypted !== null && this.rpcProgressHandlers.has(callId)) {
+                        onProgress(decrypted);
+                    }
+                });
+            });
+        }
+
+        let onAbort: (() => void) | null = null;
+        const cancelled = new Promise<never>((_, reject) => {
+            onAbort = () => {
+                socket.emit('rpc-cancel', { callId });
+                reject(new Error('RPC call cancelled'));
+            };
+            options?.signal?.addEventListener('abort', onAbort, { once: true });
         });
+        // Keep an unobserved rejection from being reported when the call finishes first
+        cancelled.catch(() => {});
+
+        let result: any;
+        try {
+            result = await Promise.race([
+                socket.timeout(ackTimeoutMs).emitWithAck('rpc-call', {
+                    method: prefixedMethod,
+                    params: await encryption.encryptRaw(params),
+                    ...(callId ? { callId } : {}),
+                    ...(options?.timeoutMs ? { timeoutMs: options.timeoutMs } : {})
+                }),
+                cancelled
+            ]);
+        } finally {
+            if (onAbort) {
+                options?.signal?.removeEventListener('abort', onAbort);
+            }
+            if (callId) {
+                this.rpcProgressHandlers.delete(callId);
+            }
+        }
 
         if (result && typeof result === 'object' && result.ok) {
-            this.dlog('machineRPC: ok', { machineId, method });
-            return await machineEncryption.decryptRaw(result.result) as R;
+            this.dlog('rpc: ok', { label });
+            return await encryption.decryptRaw(result.result) as R;
         }
         const err =
             result && typeof result === 'object' && typeof result.error === 'string' && result.error.trim()
                 ? result.error.trim()
                 : 'RPC call failed';
         const endpoint = this.config?.endpoint ? ` @ ${this.config.endpoint}` : '';
-        this.dlog('machineRPC: failed', { machineId, method, err });
-        throw new Error(`RPC call failed (machine:${machineId}:${method})${endpoint}: ${err}`);
+        this.dlog('rpc: failed', { label, err });
+        throw new Error(`RPC call failed (${label})${endpoint}: ${err}`);
     }
 
     send(event: string, data: any) {
@@ -396,6 +442,10 @@ class ApiSocket {
             this.dlog('socket error', error instanceof Error ? error.message : error);
         });
 
+        this.socket.on('rpc-progress', (data: { callId: string, data: string }) => {
+            this.rpcProgressHandlers.get(data?.callId)?.(data.data);
+        });
+
         // Message handling
         this.socket.onAny((event, data) => {
             // console.log(`📥 SyncSocket: Received event '${event}':`, JSON.stringify(data).substring(0, 200));
@@ -218,10 +218,18 @@ export const ApiEphemeralMachineActivityUpdateSchema = z.object({
     activeAt: z.number(),
 });
 
+export const ApiEphemeralTerminalOutputSchema = z.object({
+    type: z.literal('terminal-output'),
+    id: z.string(), // session id
+    terminalId: z.string(),
+    frame: z.string(), // encrypted TerminalFrame
+});
+
 export const ApiEphemeralUpdateSchema = z.union([
     ApiEphemeralActivityUpdateSchema,
     ApiEphemeralUsageUpdateSchema,
     ApiEphemeralMachineActivityUpdateSchema,
+    ApiEphemeralTerminalOutputSchema,
 ]);
 
 export type ApiEphemeralActivityUpdate = z.infer<typeof ApiEphemeralActivityUpdateSchema>;
@@ -4,16 +4,25 @@ import { getServerUrl } from './serverConfig';
 
 export interface UsageDataPoint {
     timestamp: number;
+    // Set when the query asked for the matching breakdown, null for reports without it
+    model?: string | null;
+    agent?: string | null;
+    sessionId?: string | null;
     tokens: Record<string, number>;
     cost: Record<string, number>;
     reportCount: number;
 }
 
+export type UsageBreakdown = 'model' | 'agent' | 'session';
+
+export type UsagePeriod = 'today' | '7days' | '30days';
+
 export interface UsageQueryParams {
     sessionId?: string;
     startTime?: number; // Unix timestamp in seconds
     endTime?: number;   // Unix timestamp in seconds
     groupBy?: 'hour' | 'day';
+    breakdown?: UsageBreakdown[];
 }
 
 export interface UsageResponse {
@@ -52,42 +61,45 @@ export async function queryUsage(
 }
 
 /**
- * Helper function to get usage for a specific time period
+ * Time range and bucket size of a period, ending now
  */
-export async function getUsageForPeriod(
-    credentials: AuthCredentials,
-    period: 'today' | '7days' | '30days',
-    sessionId?: string
-): Promise<UsageResponse> {
-    const now = Math.floor(Date.now() / 1000);
+export function usagePeriodRange(period: UsagePeriod, now: Date = new Date()): { startTime: number, endTime: number, groupBy: 'hour' | 'day' } {
+    const endTime = Math.floor(now.getTime() / 1000);
     const oneDaySeconds = 24 * 60 * 60;
-    
-    let startTime: number;
-    let groupBy: 'hour' | 'day';
-    
     switch (period) {
-        case 'today':
+        case 'today': {
             // Start of today (local timezone)
-            const today = new Date();
+            const today = new Date(now);
             today.setHours(0, 0, 0, 0);
-            startTime = Math.floor(today.getTime() / 1000);
-            groupBy = 'hour';
-            break;
+            return { startTime: Math.floor(today.getTime() / 1000), endTime, groupBy: 'hour' };
+        }
         case '7days':
-            startTime = now - (7 * oneDaySeconds);
-            groupBy = 'day';
-            break;
+            return { startTime: endTime - (7 * oneDaySeconds), endTime, groupBy: 'day' };
         case '30days':
-            startTime = now - (30 * oneDaySeconds);
-            groupBy = 'day';
-            break;
+            return { startTime: endTime - (30 * oneDaySeconds), endTime, groupBy: 'day' };
     }
-    
+}
+
+/**
+ * The range of the same length right before, to compare a period with
+ */
+export function previousUsageRange(range: { startTime: number, endTime: number }): { startTime: number, endTime: number } {
+    return { startTime: range.startTime - (range.endTime - range.startTime), endTime: range.startTime };
+}
+
+/**
+ * Helper function to get usage for a specific time period
+ */
+export async function getUsageForPeriod(
+    credentials: AuthCredentials,
+    period: UsagePeriod,
+    sessionId?: string,
+    breakdown?: UsageBreakdown[]
+): Promise<UsageResponse> {
     return queryUsage(credentials, {
         sessionId,
-        startTime,
-        endTime: now,
-        groupBy
+        ...usagePeriodRange(period),
+        breakdown
     });
 }
 
@@ -106,24 +118,18 @@ export function calculateTotals(usage: UsageDataPoint[]): {
         tokensByModel: {} as Record<string, number>,
         costByModel: {} as Record<string, number>
     };
-    
+
     for (const dataPoint of usage) {
-        // Sum tokens
-        for (const [model, tokens] of Object.entries(dataPoint.tokens)) {
-            if (typeof tokens === 'number') {
-                result.totalTokens += tokens;
-                result.tokensByModel[model] = (result.tokensByModel[model] || 0) + tokens;
-            }
-        }
-        
-        // Sum costs
-        for (const [model, cost] of Object.entries(dataPoint.cost)) {
-            if (typeof cost === 'number') {
-                result.totalCost += cost;
-                result.costByModel[model] = (result.costByModel[model] || 0) + cost;
-            }
+        // The other keys break the total down, summing them would count it twice
+        const tokens = dataPoint.tokens.total ?? 0;
+        const cost = dataPoint.cost.total ?? 0;
+        result.totalTokens += tokens;
+        result.totalCost += cost;
+        if (dataPoint.model) {
+            result.tokensByModel[dataPoint.model] = (result.tokensByModel[dataPoint.model] || 0) + tokens;
+            result.costByModel[dataPoint.model] = (result.costByModel[dataPoint.model] || 0) + cost;
         }
     }
-    
+
     return result;
-}
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { AuditEventSchema, summarizeAuditArguments } from './auditTypes';
+
+describe('AuditEventSchema', () => {
+    it('accepts the events written by the CLI', () => {
+        const permission = {
+            type: 'permission', id: '1', time: 1, toolCallId: 'call-1', tool: 'Bash', arguments: { command: 'ls' },
+            decision: 'approved', decidedBy: 'user', sentFrom: 'ios', mode: 'default', rule: null, reason: null,
+        };
+        const tool = {
+            type: 'tool', id: '2', time: 2, toolCallId: 'call-1', tool: 'Bash', arguments: { command: 'ls' },
+            status: 'error', exitCode: 2, files: [], durationMs: 10,
+        };
+        expect(AuditEventSchema.safeParse(permission).success).toBe(true);
+        expect(AuditEventSchema.safeParse(tool).success).toBe(true);
+        expect(AuditEventSchema.safeParse({ ...tool, type: 'network' }).success).toBe(false);
+    });
+});
+
+describe('summarizeAuditArguments', () => {
+    it('prefers the command or the path over raw JSON', () => {
+        expect(summarizeAuditArguments({ command: ['bash', '-lc', 'npm test'] })).toBe('bash -lc npm test');
+        expect(summarizeAuditArguments({ file_path: '/repo/a.ts', content: 'x' })).toBe('/repo/a.ts');
+        expect(summarizeAuditArguments({ query: 'x'.repeat(300) })).toHaveLength(200);
+    });
+});
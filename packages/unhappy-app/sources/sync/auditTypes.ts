@@ -0,0 +1,69 @@
+import * as z from 'zod';
+
+//
+// Session audit trail
+//
+// Append-only record of every permission decision and tool execution in a
+// session, written by the CLI and encrypted with the session key.
+// Mirrors unhappy-cli/src/modules/audit/index.ts.
+//
+
+export const AuditPermissionEventSchema = z.object({
+    type: z.literal('permission'),
+    id: z.string(),
+    time: z.number(),
+    toolCallId: z.string().nullable(),
+    tool: z.string(),
+    arguments: z.unknown(),
+    decision: z.enum(['approved', 'approved_for_session', 'denied', 'abort']),
+    decidedBy: z.enum(['user', 'rule', 'mode']),
+    sentFrom: z.string().nullable(),
+    mode: z.string().nullable(),
+    rule: z.object({
+        action: z.enum(['allow', 'deny', 'ask']),
+        source: z.enum(['project', 'account', 'session']),
+        description: z.string(),
+    }).nullable(),
+    reason: z.string().nullable(),
+});
+
+export const AuditToolEventSchema = z.object({
+    type: z.literal('tool'),
+    id: z.string(),
+    time: z.number(),
+    toolCallId: z.string(),
+    tool: z.string(),
+    arguments: z.unknown(),
+    status: z.enum(['success', 'error']),
+    exitCode: z.number().nullable(),
+    files: z.array(z.string()),
+    durationMs: z.number().nullable(),
+});
+
+export const AuditEventSchema = z.discriminatedUnion('type', [AuditPermissionEventSchema, AuditToolEventSchema]);
+
+export type AuditPermissionEvent = z.infer<typeof AuditPermissionEventSchema>;
+export type AuditToolEvent = z.infer<typeof AuditToolEventSchema>;
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+
+/**
+ * Short human readable form of tool arguments: the command, the file or the
+ * search pattern when there is one, otherwise truncated JSON
+ */
+export function summarizeAuditArguments(args: unknown): string {
+    const record = args && typeof args === 'object' && !Array.isArray(args) ? (args as Record<string, unknown>) : null;
+    const command = record?.command;
+    if (typeof command === 'string') {
+        return command;
+    }
+    if (Array.isArray(command)) {
+        return command.map(String).join(' ');
+    }
+    for (const key of ['file_path', 'notebook_path', 'path', 'pattern', 'url']) {
+        if (typeof record?.[key] === 'string') {
+            return record[key] as string;
+        }
+    }
+    const json = JSON.stringify(args ?? null);
+    return json.length > 200 ? `${json.slice(0, 197)}...` : json;
+}
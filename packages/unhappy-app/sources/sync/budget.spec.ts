@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { budgetRemaining, formatBudget, formatBudgetAmount, parseBudget, resolveBudget } from './budget';
+
+describe('parseBudget', () => {
+    it('reads dollars and tokens', () => {
+        expect(parseBudget('5')).toEqual({ budget: { unit: 'usd', limit: 5 } });
+        expect(parseBudget(' $2.50 ')).toEqual({ budget: { unit: 'usd', limit: 2.5 } });
+        expect(parseBudget('10 USD')).toEqual({ budget: { unit: 'usd', limit: 10 } });
+        expect(parseBudget('200k')).toEqual({ budget: { unit: 'tokens', limit: 200_000 } });
+        expect(parseBudget('1.5M tokens')).toEqual({ budget: { unit: 'tokens', limit: 1_500_000 } });
+        expect(parseBudget('50,000 tokens')).toEqual({ budget: { unit: 'tokens', limit: 50_000 } });
+    });
+
+    it('clears on empty text and rejects anything else', () => {
+        expect(parseBudget('  ')).toEqual({ budget: null });
+        expect(parseBudget('0')).toEqual({ error: true });
+        expect(parseBudget('$5k')).toEqual({ error: true });
+        expect(parseBudget('five dollars')).toEqual({ error: true });
+    });
+
+    it('round-trips formatted budgets', () => {
+        for (const budget of [{ unit: 'usd', limit: 2.5 }, { unit: 'tokens', limit: 1_500_000 }, { unit: 'tokens', limit: 750 }] as const) {
+            expect(parseBudget(formatBudget(budget))).toEqual({ budget });
+        }
+    });
+});
+
+describe('budgets', () => {
+    it('prefers the session over the profile over the account', () => {
+        const account = { unit: 'usd', limit: 20 } as const;
+        const profile = { unit: 'tokens', limit: 100_000 } as const;
+        const session = { unit: 'usd', limit: 1 } as const;
+        expect(resolveBudget(session, profile, account)).toBe(session);
+        expect(resolveBudget(null, profile, account)).toBe(profile);
+        expect(resolveBudget(undefined, undefined, account)).toBe(account);
+        expect(resolveBudget(null, null, null)).toBeNull();
+    });
+
+    it('counts what is left up to the next pause', () => {
+        expect(budgetRemaining({ unit: 'usd', limit: 5, spent: 3.2, pauseAt: 5 })).toBeCloseTo(1.8);
+        expect(budgetRemaining({ unit: 'usd', limit: 5, spent: 5.4, pauseAt: 5 })).toBe(0);
+        expect(formatBudgetAmount('tokens', 12_345)).toBe('12.3k');
+    });
+});
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+//
+// Session budgets, a spending limit in USD or tokens. A budget can be set on the
+// session, on its profile or for the account, the most specific one applies and
+// is sent to the agent with every message. The CLI counts the spend, publishes it
+// in the agent state and pauses the agent with a permission request at the limit.
+//
+
+export const BudgetSchema = z.object({
+    unit: z.enum(['usd', 'tokens']),
+    limit: z.number().positive(),
+});
+
+export type Budget = z.infer<typeof BudgetSchema>;
+
+// Spend as reported by the CLI, `pauseAt` moves past the limit each time the user continues
+export const BudgetStateSchema = BudgetSchema.extend({
+    spent: z.number(),
+    pauseAt: z.number(),
+});
+
+export type BudgetState = z.infer<typeof BudgetStateSchema>;
+
+// Tool name of the permission request the CLI sends at the limit
+export const BUDGET_TOOL = 'BudgetExceeded';
+
+/**
+ * The budget that applies to a session: its own, then its profile's, then the account's
+ */
+export function resolveBudget(sessionBudget: Budget | null | undefined, profileBudget: Budget | null | undefined, accountBudget: Budget | null): Budget | null {
+    return sessionBudget ?? profileBudget ?? accountBudget ?? null;
+}
+
+/**
+ * Parse a budget typed by the user: `5`, `$2.50` or `5 usd` in dollars,
+ * `200k`, `1.5m` or `50000 tokens` in tokens. Empty text clears the budget.
+ */
+export function parseBudget(text: string): { budget: Budget | null } | { error: true } {
+    const normalized = text.trim().toLowerCase().replace(/,/g, '');
+    if (!normalized) {
+        return { budget: null };
+    }
+    const match = normalized.match(/^(\$)?\s*(\d+(?:\.\d+)?)\s*([km])?\s*(usd|\$|tokens?)?$/);
+    if (!match) {
+        return { error: true };
+    }
+    const [, dollarSign, amount, suffix, unitWord] = match;
+    const isTokens = !!suffix || unitWord?.startsWith('token');
+    if (isTokens && (dollarSign || unitWord === 'usd' || unitWord === '$')) {
+        return { error: true };
+    }
+    const multiplier = suffix === 'k' ? 1_000 : suffix === 'm' ? 1_000_000 : 1;
+    const limit = Number(amount) * multiplier;
+    if (!(limit > 0)) {
+        return { error: true };
+    }
+    return { budget: isTokens ? { unit: 'tokens', limit: Math.round(limit) } : { unit: 'usd', limit } };
+}
+
+export function formatBudgetAmount(unit: Budget['unit'], amount: number): string {
+    if (unit === 'usd') {
+        return `$${amount.toFixed(2)}`;
+    }
+    if (amount >= 1_000_000) {
+        return `${Number((amount / 1_000_000).toFixed(1))}M`;
+    }
+    if (amount >= 1_000) {
+        return `${Number((amount / 1_000).toFixed(1))}k`;
+    }
+    return `${Math.round(amount)}`;
+}
+
+/**
+ * Text that parses back to the same budget
+ */
+export function formatBudget(budget: Budget): string {
+    return budget.unit === 'usd'
+        ? formatBudgetAmount('usd', budget.limit)
+        : `${formatBudgetAmount('tokens', budget.limit)} tokens`;
+}
+
+/**
+ * What is left before the agent is paused again, 0 once it is paused
+ */
+export function budgetRemaining(state: BudgetState): number {
+    return Math.max(0, state.pauseAt - state.spent);
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { pickEvictions } from './cacheEviction';
+
+describe('pickEvictions', () => {
+    it('drops least recently used sessions until the rest fits', () => {
+        const entries = {
+            a: { bytes: 40, usedAt: 3 },
+            b: { bytes: 40, usedAt: 1 },
+            c: { bytes: 40, usedAt: 2 },
+        };
+        expect(pickEvictions(entries, 120)).toEqual([]);
+        expect(pickEvictions(entries, 80)).toEqual(['b']);
+        expect(pickEvictions(entries, 30)).toEqual(['b', 'c', 'a']);
+    });
+});
@@ -0,0 +1,26 @@
+/**
+ * Size cap of the local stores that keep one record per session (offline
+ * cache, search index): the sessions used least recently go first.
+ */
+
+export type CacheEntry = {
+    bytes: number;
+    usedAt: number;
+};
+
+/**
+ * Sessions to drop, least recently used first, until the rest fits in `maxBytes`
+ */
+export function pickEvictions(entries: Record<string, CacheEntry>, maxBytes: number): string[] {
+    let total = Object.values(entries).reduce((sum, entry) => sum + entry.bytes, 0);
+    const evicted: string[] = [];
+    const byAge = Object.entries(entries).sort((a, b) => a[1].usedAt - b[1].usedAt);
+    for (const [sessionId, entry] of byAge) {
+        if (total <= maxBytes) {
+            break;
+        }
+        evicted.push(sessionId);
+        total -= entry.bytes;
+    }
+    return evicted;
+}
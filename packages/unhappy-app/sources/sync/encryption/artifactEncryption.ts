@@ -41,7 +41,9 @@ export class ArtifactEncryption {
                 return null;
             }
             return {
-                title: typeof header.title === 'string' ? header.title : null
+                title: typeof header.title === 'string' ? header.title : null,
+                sessions: Array.isArray(header.sessions) ? header.sessions.filter((id: unknown) => typeof id === 'string') : undefined,
+                draft: typeof header.draft === 'boolean' ? header.draft : undefined
             };
         } catch (error) {
             console.error('Failed to decrypt artifact header:', error);
@@ -31,14 +31,18 @@ export class Encryption {
       .slice(0, 16)
       .toLowerCase();
 
+    // Derive key of the local offline cache
+    const cacheKey = await deriveKey(masterSecret, 'Unhappy Coder', ['cache']);
+
     // Create encryption
-    return new Encryption(anonID, masterSecret, contentKeyPair);
+    return new Encryption(anonID, masterSecret, contentKeyPair, cacheKey);
   }
 
   private readonly legacyEncryption: SecretBoxEncryption;
   private readonly contentKeyPair: sodium.KeyPair;
   readonly anonID: string;
   readonly contentDataKey: Uint8Array;
+  readonly cacheKey: Uint8Array;
 
   // Session and machine encryption management
   private sessionEncryptions = new Map<string, SessionEncryption>();
@@ -49,8 +53,10 @@ export class Encryption {
     anonID: string,
     masterSecret: Uint8Array,
     contentKeyPair: sodium.KeyPair,
+    cacheKey: Uint8Array,
   ) {
     this.anonID = anonID;
+    this.cacheKey = cacheKey;
     this.contentKeyPair = contentKeyPair;
     this.legacyEncryption = new SecretBoxEncryption(masterSecret);
     this.cache = new EncryptionCache();
@@ -196,7 +202,15 @@ export class Encryption {
 
   async encryptEncryptionKey(key: Uint8Array): Promise<Uint8Array> {
     // Use public key for encryption (encrypt TO ourselves)
-    const encrypted = encryptBox(key, this.contentKeyPair.publicKey);
+    return this.encryptEncryptionKeyFor(key, this.contentKeyPair.publicKey);
+  }
+
+  /**
+   * Encrypt a data encryption key for another account's content public key,
+   * used to share a session with a friend
+   */
+  async encryptEncryptionKeyFor(key: Uint8Array, contentPublicKey: Uint8Array): Promise<Uint8Array> {
+    const encrypted = encryptBox(key, contentPublicKey);
     const result = new Uint8Array(encrypted.length + 1);
     result[0] = 0; // Version byte
     result.set(encrypted, 1);
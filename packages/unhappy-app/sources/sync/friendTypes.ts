@@ -25,7 +25,8 @@ export const UserProfileSchema = z.object({
     }).nullable(),
     username: z.string(),
     bio: z.string().nullable(),
-    status: RelationshipStatusSchema
+    status: RelationshipStatusSchema,
+    contentPublicKey: z.string().nullish() // Base64, used to share sessions
 });
 
 export type UserProfile = z.infer<typeof UserProfileSchema>;
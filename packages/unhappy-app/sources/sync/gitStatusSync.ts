@@ -1,18 +1,65 @@
 /**
  * Git status synchronization module
- * Provides real-time git repository status tracking using remote bash commands
+ * Provides real-time git repository status tracking using the daemon's git-status RPC
  */
 
 import { InvalidateSync } from '@/utils/sync';
-import { sessionBash } from './ops';
+import { sessionGitStatus, type GitStatusResponse } from './ops';
 import { GitStatus } from './storageTypes';
 import { storage } from './storage';
-import { parseStatusSummary, getStatusCounts, isDirty } from './git-parsers/parseStatus';
-import { parseStatusSummaryV2, getStatusCountsV2, isDirtyV2, getCurrentBranchV2, getTrackingInfoV2 } from './git-parsers/parseStatusV2';
-import { parseCurrentBranch } from './git-parsers/parseBranch';
-import { parseNumStat, mergeDiffSummaries } from './git-parsers/parseDiff';
 import { projectManager, createProjectKey } from './projectManager';
 
+/**
+ * Summarize a structured git-status response for the session header and project list
+ */
+export function toGitStatus(status: GitStatusResponse): GitStatus {
+    const files = status.files ?? [];
+    let stagedLinesAdded = 0;
+    let stagedLinesRemoved = 0;
+    let unstagedLinesAdded = 0;
+    let unstagedLinesRemoved = 0;
+    let modifiedCount = 0;
+    let untrackedCount = 0;
+    let stagedCount = 0;
+    for (const file of files) {
+        if (file.staged) {
+            stagedCount++;
+            stagedLinesAdded += file.staged.linesAdded;
+            stagedLinesRemoved += file.staged.linesRemoved;
+        }
+        if (file.unstaged?.status === 'untracked') {
+            untrackedCount++;
+        } else if (file.unstaged) {
+            modifiedCount++;
+            unstagedLinesAdded += file.unstaged.linesAdded;
+            unstagedLinesRemoved += file.unstaged.linesRemoved;
+        }
+    }
+
+    const linesAdded = stagedLinesAdded + unstagedLinesAdded;
+    const linesRemoved = stagedLinesRemoved + unstagedLinesRemoved;
+    const hasUpstream = !!status.upstream;
+    return {
+        branch: status.branch ?? null,
+        isDirty: files.length > 0,
+        modifiedCount,
+        untrackedCount,
+        stagedCount,
+        stagedLinesAdded,
+        stagedLinesRemoved,
+        unstagedLinesAdded,
+        unstagedLinesRemoved,
+        linesAdded,
+        linesRemoved,
+        linesChanged: linesAdded + linesRemoved,
+        lastUpdatedAt: Date.now(),
+        upstreamBranch: status.upstream ?? null,
+        aheadCount: hasUpstream ? status.ahead ?? 0 : undefined,
+        behindCount: hasUpstream ? status.behind ?? 0 : undefined,
+        stashCount: status.stashCount ?? 0
+    };
+}
+
 export class GitStatusSync {
     // Map project keys to sync instances
     private projectSyncMap = new Map<string, InvalidateSync>();
@@ -109,14 +156,13 @@ export class GitStatusSync {
                 return;
             }
 
-            // First check if we're in a git repository
-            const gitCheckResult = await sessionBash(sessionId, {
-                command: 'git rev-parse --is-inside-work-tree',
-                cwd: session.metadata.path,
-                timeout: 5000
-            });
+            const status = await sessionGitStatus(sessionId, session.metadata.path);
+            if (!status.success) {
+                if (status.errorCode !== 'NOT_GIT_REPO') {
+                    console.error('Failed to get git status:', status.error);
+                    return;
+                }
 
-            if (!gitCheckResult.success || gitCheckResult.exitCode !== 0) {
                 // Not a git repository, clear any existing status
                 storage.getState().applyGitStatus(sessionId, null);
                 
@@ -128,39 +174,7 @@ export class GitStatusSync {
                 return;
             }
 
-            // Get git status in porcelain v2 format (includes branch info)
-            // --untracked-files=all ensures we get individual files, not directories
-            const statusResult = await sessionBash(sessionId, {
-                command: 'git status --porcelain=v2 --branch --show-stash --untracked-files=all',
-                cwd: session.metadata.path,
-                timeout: 10000
-            });
-
-            if (!statusResult.success) {
-                console.error('Failed to get git status:', statusResult.error);
-                return;
-            }
-
-            // Get git diff statistics for unstaged changes
-            const diffStatResult = await sessionBash(sessionId, {
-                command: 'git diff --numstat',
-                cwd: session.metadata.path,
-                timeout: 10000
-            });
-
-            // Get git diff statistics for staged changes
-            const stagedDiffStatResult = await sessionBash(sessionId, {
-                command: 'git diff --cached --numstat',
-                cwd: session.metadata.path,
-                timeout: 10000
-            });
-
-            // Parse the git status output with diff statistics
-            const gitStatus = this.parseGitStatusV2(
-                statusResult.stdout,
-                diffStatResult.success ? diffStatResult.stdout : '',
-                stagedDiffStatResult.success ? stagedDiffStatResult.stdout : ''
-            );
+            const gitStatus = toGitStatus(status);
 
             // Apply to storage (this also updates the project git status via the modified applyGitStatus)
             storage.getState().applyGitStatus(sessionId, gitStatus);
@@ -176,96 +190,6 @@ export class GitStatusSync {
             // Don't apply error state, just skip this update
         }
     }
-
-    /**
-     * Parse git status porcelain v2 output into structured data
-     */
-    private parseGitStatusV2(
-        porcelainV2Output: string,
-        diffStatOutput: string = '',
-        stagedDiffStatOutput: string = ''
-    ): GitStatus {
-        // Parse status using v2 parser
-        const statusSummary = parseStatusSummaryV2(porcelainV2Output);
-        const counts = getStatusCountsV2(statusSummary);
-        const repoIsDirty = isDirtyV2(statusSummary);
-        const branchName = getCurrentBranchV2(statusSummary);
-        const trackingInfo = getTrackingInfoV2(statusSummary);
-
-        // Parse diff statistics
-        const unstagedDiff = parseNumStat(diffStatOutput);
-        const stagedDiff = parseNumStat(stagedDiffStatOutput);
-        const { stagedAdded, stagedRemoved, unstagedAdded, unstagedRemoved } = mergeDiffSummaries(stagedDiff, unstagedDiff);
-        
-        // Calculate totals
-        const linesAdded = stagedAdded + unstagedAdded;
-        const linesRemoved = stagedRemoved + unstagedRemoved;
-        const linesChanged = linesAdded + linesRemoved;
-
-        return {
-            branch: branchName,
-            isDirty: repoIsDirty,
-            modifiedCount: counts.modified,
-            untrackedCount: counts.untracked,
-            stagedCount: counts.staged,
-            stagedLinesAdded: stagedAdded,
-            stagedLinesRemoved: stagedRemoved,
-            unstagedLinesAdded: unstagedAdded,
-            unstagedLinesRemoved: unstagedRemoved,
-            linesAdded,
-            linesRemoved,
-            linesChanged,
-            lastUpdatedAt: Date.now(),
-            // V2-specific fields
-            upstreamBranch: statusSummary.branch.upstream || null,
-            aheadCount: trackingInfo?.ahead,
-            behindCount: trackingInfo?.behind,
-            stashCount: statusSummary.stashCount
-        };
-    }
-
-    /**
-     * Parse git status porcelain output into structured data using simple-git parsers
-     * (Legacy v1 fallback method - kept for compatibility)
-     */
-    private parseGitStatus(
-        branchName: string | null, 
-        porcelainOutput: string,
-        diffStatOutput: string = '',
-        stagedDiffStatOutput: string = ''
-    ): GitStatus {
-        // Parse status using simple-git parser
-        const statusSummary = parseStatusSummary(porcelainOutput);
-        const counts = getStatusCounts(statusSummary);
-        const repoIsDirty = isDirty(statusSummary);
-
-        // Parse diff statistics
-        const unstagedDiff = parseNumStat(diffStatOutput);
-        const stagedDiff = parseNumStat(stagedDiffStatOutput);
-        const { stagedAdded, stagedRemoved, unstagedAdded, unstagedRemoved } = mergeDiffSummaries(stagedDiff, unstagedDiff);
-        
-        // Calculate totals
-        const linesAdded = stagedAdded + unstagedAdded;
-        const linesRemoved = stagedRemoved + unstagedRemoved;
-        const linesChanged = linesAdded + linesRemoved;
-
-        return {
-            branch: branchName || null,
-            isDirty: repoIsDirty,
-            modifiedCount: counts.modified,
-            untrackedCount: counts.untracked,
-            stagedCount: counts.staged,
-            stagedLinesAdded: stagedAdded,
-            stagedLinesRemoved: stagedRemoved,
-            unstagedLinesAdded: unstagedAdded,
-            unstagedLinesRemoved: unstagedRemoved,
-            linesAdded,
-            linesRemoved,
-            linesChanged,
-            lastUpdatedAt: Date.now()
-        };
-    }
-
 }
 
 // Global singleton instance
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountKeys, AccountKeysRotateResult } from './apiDevices';
+import { AuthCredentials } from '@/auth/tokenStorage';
+
+const api = vi.hoisted(() => ({
+    fetchAccountKeys: vi.fn<() => Promise<AccountKeys>>(),
+    rotateAccountKeys: vi.fn<() => Promise<AccountKeysRotateResult>>(),
+    isTokenAccepted: vi.fn<(credentials: AuthCredentials) => Promise<boolean>>(),
+    authGetToken: vi.fn<(secret: Uint8Array) => Promise<string>>(),
+}));
+const stored = vi.hoisted(() => ({ credentials: null as AuthCredentials | null, pendingRotation: null as string | null }));
+
+vi.mock('expo-crypto', () => ({ getRandomBytes: (n: number) => new Uint8Array(n).fill(7) }));
+vi.mock('@/auth/authGetToken', () => ({ authGetToken: api.authGetToken }));
+vi.mock('@/auth/tokenStorage', () => ({
+    TokenStorage: {
+        setCredentials: async (credentials: AuthCredentials) => {
+            stored.credentials = credentials;
+            return true;
+        },
+        getPendingRotation: async () => stored.pendingRotation,
+        setPendingRotation: async (secret: string) => {
+            stored.pendingRotation = secret;
+            return true;
+        },
+        removePendingRotation: async () => {
+            stored.pendingRotation = null;
+            return true;
+        },
+    },
+}));
+vi.mock('@/auth/authChallenge', () => ({
+    authChallenge: () => ({ challenge: new Uint8Array([1]), signature: new Uint8Array([2]), publicKey: new Uint8Array([3]) }),
+}));
+vi.mock('./apiDevices', () => ({
+    fetchAccountKeys: api.fetchAccountKeys,
+    rotateAccountKeys: api.rotateAccountKeys,
+    isTokenAccepted: api.isTokenAccepted,
+}));
+
+// Wrapping is covered by the libsodium wrappers, tags are enough to follow what moved where
+vi.mock('./encryption/encryption', () => ({
+    Encryption: {
+        create: async () => ({
+            contentDataKey: new Uint8Array([9]),
+            encryptEncryptionKey: async (key: Uint8Array) => new TextEncoder().encode(`new:${new TextDecoder().decode(key)}`),
+            encryptRaw: async (data: any) => `new:${JSON.stringify(data)}`,
+        }),
+    },
+}));
+
+import { buildKeyRotation, recoverKeyRotation, rotateAccountKey } from './keyRotation';
+
+const from = {
+    decryptEncryptionKey: async (wrapped: string) => wrapped.startsWith('old:') ? new TextEncoder().encode(wrapped.slice(4)) : null,
+    decryptRaw: async (value: string) => value.startsWith('old:') ? JSON.parse(value.slice(4)) : null,
+} as any;
+
+function keys(overrides: Partial<AccountKeys> = {}): AccountKeys {
+    return {
+        keyVersion: 2,
+        settings: 'old:{"theme":"dark"}',
+        settingsVersion: 7,
+        sessions: [{ id: 's1', dataEncryptionKey: 'old:s1' }],
+        machines: [{ id: 'm1', dataEncryptionKey: 'old:m1' }],
+        artifacts: [{ id: 'a1', dataEncryptionKey: 'old:a1' }],
+        shares: [{ id: 'sh1', encryptedDataKey: 'old:sh1' }],
+        kv: [{ key: 'todo.1', value: 'old:"milk"', version: 3 }],
+        ...overrides,
+    };
+}
+
+function decoded(b64: string) {
+    return Buffer.from(b64, 'base64').toString();
+}
+
+describe('buildKeyRotation', () => {
+    it('re-wraps every data key and re-encrypts settings and kv for the new secret', async () => {
+        const rotation = await buildKeyRotation(keys(), from, new Uint8Array(32));
+
+        expect(rotation).toMatchObject({ keyVersion: 2, settingsVersion: 7, settings: 'new:{"theme":"dark"}' });
+        expect(rotation.contentPublicKey).toBe(Buffer.from([9]).toString('base64'));
+        expect(rotation.sessions.map((s) => [s.id, decoded(s.key)])).toEqual([['s1', 'new:s1']]);
+        expect(rotation.machines.map((m) => [m.id, decoded(m.key)])).toEqual([['m1', 'new:m1']]);
+        expect(rotation.artifacts.map((a) => [a.id, decoded(a.key)])).toEqual([['a1', 'new:a1']]);
+        expect(rotation.shares.map((s) => [s.id, decoded(s.key)])).toEqual([['sh1', 'new:sh1']]);
+        expect(rotation.kv).toEqual([{ key: 'todo.1', value: 'new:"milk"', version: 3 }]);
+    });
+
+    it('refuses accounts with sessions on the legacy encryption', async () => {
+        await expect(buildKeyRotation(keys({ sessions: [{ id: 's1', dataEncryptionKey: null }] }), from, new Uint8Array(32)))
+            .rejects.toThrow(/legacy encryption/);
+    });
+
+    it('stops when a key can not be opened instead of losing it', async () => {
+        await expect(buildKeyRotation(keys({ artifacts: [{ id: 'a1', dataEncryptionKey: 'other:a1' }] }), from, new Uint8Array(32)))
+            .rejects.toThrow(/could not be opened/);
+    });
+});
+
+describe('rotateAccountKey', () => {
+    const credentials = { token: 'old-token', secret: 'old-secret' };
+    const newSecret = Buffer.from(new Uint8Array(32).fill(7)).toString('base64url');
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        stored.credentials = null;
+        stored.pendingRotation = null;
+        api.fetchAccountKeys.mockResolvedValue(keys());
+    });
+
+    it('keeps the new secret pending while the server switches keys', async () => {
+        api.rotateAccountKeys.mockImplementation(async () => {
+            expect(stored.pendingRotation).toBe(newSecret);
+            return { type: 'success', token: 'new-token' };
+        });
+
+        expect(await rotateAccountKey(credentials, from)).toEqual({ token: 'new-token', secret: newSecret });
+        expect(stored.pendingRotation).toBe(newSecret);
+    });
+
+    it('drops the pending secret when the server did not switch', async () => {
+        api.rotateAccountKeys.mockResolvedValue({ type: 'unauthorized' });
+
+        await expect(rotateAccountKey(credentials, from)).rejects.toThrow(/no longer authorized/);
+        expect(stored.pendingRotation).toBeNull();
+    });
+});
+
+describe('recoverKeyRotation', () => {
+    const credentials = { token: 'old-token', secret: 'old-secret' };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        stored.credentials = null;
+        stored.pendingRotation = 'new-secret';
+    });
+
+    it('signs in with the pending secret once the old token is rejected', async () => {
+        api.isTokenAccepted.mockResolvedValue(false);
+        api.authGetToken.mockResolvedValue('new-token');
+
+        const recovered = await recoverKeyRotation(credentials);
+
+        expect(recovered).toEqual({ token: 'new-token', secret: 'new-secret' });
+        expect(stored.credentials).toEqual(recovered);
+        expect(stored.pendingRotation).toBeNull();
+    });
+
+    it('keeps the stored credentials when the server never switched', async () => {
+        api.isTokenAccepted.mockResolvedValue(true);
+
+        expect(await recoverKeyRotation(credentials)).toBe(credentials);
+        expect(api.authGetToken).not.toHaveBeenCalled();
+        expect(stored.pendingRotation).toBeNull();
+    });
+
+    it('tries again on the next start while offline', async () => {
+        api.isTokenAccepted.mockRejectedValue(new Error('Network request failed'));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(await recoverKeyRotation(credentials)).toBe(credentials);
+        expect(stored.pendingRotation).toBe('new-secret');
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * Account key rotation
+ *
+ * Replaces the account secret: every data key the account holds is unwrapped
+ * with the old content key and wrapped for the new one, settings and kv values
+ * are re-encrypted with the new secret, and the server swaps everything in one
+ * transaction together with the account public key. Session and machine
+ * contents stay as they are, only their wrapped keys change. The server then
+ * revokes every other device, so each one has to sign in with the new secret.
+ *
+ * The new secret is kept as a pending rotation until its credentials are
+ * stored, so an app killed while waiting for the server recovers on the next
+ * start instead of being locked out of the account.
+ */
+
+import { authChallenge } from '@/auth/authChallenge';
+import { authGetToken } from '@/auth/authGetToken';
+import { AuthCredentials, TokenStorage } from '@/auth/tokenStorage';
+import { decodeBase64, encodeBase64 } from '@/encryption/base64';
+import { HappyError } from '@/utils/errors';
+import { getRandomBytes } from 'expo-crypto';
+import { AccountKeys, AccountKeysRotation, fetchAccountKeys, isTokenAccepted, rotateAccountKeys } from './apiDevices';
+import { Encryption } from './encryption/encryption';
+
+const MAX_ATTEMPTS = 3;
+
+async function rewrapKey(from: Encryption, to: Encryption, wrapped: string): Promise<string> {
+    const key = await from.decryptEncryptionKey(wrapped);
+    if (!key) {
+        throw new HappyError('A data key could not be opened with the current account key', false);
+    }
+    return encodeBase64(await to.encryptEncryptionKey(key));
+}
+
+async function reencrypt(from: Encryption, to: Encryption, value: string): Promise<string> {
+    const decrypted = await from.decryptRaw(value);
+    if (decrypted === null) {
+        throw new HappyError('A stored value could not be opened with the current account key', false);
+    }
+    return to.encryptRaw(decrypted);
+}
+
+/**
+ * Build the rotation request for a snapshot of the account keys
+ */
+export async function buildKeyRotation(keys: AccountKeys, from: Encryption, secret: Uint8Array): Promise<AccountKeysRotation> {
+    if (keys.sessions.some((s) => !s.dataEncryptionKey) || keys.machines.some((m) => !m.dataEncryptionKey)) {
+        throw new HappyError('Some sessions or machines still use the legacy encryption and can not be moved to a new key', false);
+    }
+
+    const to = await Encryption.create(secret);
+    const { challenge, signature, publicKey } = authChallenge(secret);
+    const rewrap = (wrapped: string) => rewrapKey(from, to, wrapped);
+
+    return {
+        keyVersion: keys.keyVersion,
+        publicKey: encodeBase64(publicKey),
+        challenge: encodeBase64(challenge),
+        signature: encodeBase64(signature),
+        contentPublicKey: encodeBase64(to.contentDataKey),
+        settings: keys.settings ? await reencrypt(from, to, keys.settings) : null,
+        settingsVersion: keys.settingsVersion,
+        sessions: await Promise.all(keys.sessions.map(async (s) => ({ id: s.id, key: await rewrap(s.dataEncryptionKey!) }))),
+        machines: await Promise.all(keys.machines.map(async (m) => ({ id: m.id, key: await rewrap(m.dataEncryptionKey!) }))),
+        artifacts: await Promise.all(keys.artifacts.map(async (a) => ({ id: a.id, key: await rewrap(a.dataEncryptionKey) }))),
+        shares: await Promise.all(keys.shares.map(async (s) => ({ id: s.id, key: await rewrap(s.encryptedDataKey) }))),
+        kv: await Promise.all(keys.kv.map(async (item) => ({ key: item.key, value: await reencrypt(from, to, item.value), version: item.version }))),
+    };
+}
+
+/**
+ * Move the account to a freshly generated secret
+ * @returns credentials for the new secret, the old one no longer signs in
+ */
+export async function rotateAccountKey(credentials: AuthCredentials, encryption: Encryption): Promise<AuthCredentials> {
+    const secret = getRandomBytes(32);
+    const encodedSecret = encodeBase64(secret, 'base64url');
+    const newCredentials = (token: string) => ({ token, secret: encodedSecret });
+    if (!await TokenStorage.setPendingRotation(encodedSecret)) {
+        throw new HappyError('The new account key could not be saved on this device', false);
+    }
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const keys = await fetchAccountKeys(credentials);
+        const rotation = await buildKeyRotation(keys, encryption, secret);
+
+        let result;
+        try {
+            result = await rotateAccountKeys(credentials, rotation);
+        } catch (error) {
+            // The response may be lost after the server committed, the old token stops working once it did
+            if (!await isTokenAccepted(credentials)) {
+                return newCredentials(await authGetToken(secret));
+            }
+            await TokenStorage.removePendingRotation();
+            throw error;
+        }
+
+        switch (result.type) {
+            case 'success':
+                return newCredentials(result.token);
+            case 'legacy-encryption':
+                await TokenStorage.removePendingRotation();
+                throw new HappyError('Some sessions or machines still use the legacy encryption and can not be moved to a new key', false);
+            case 'unauthorized':
+                await TokenStorage.removePendingRotation();
+                throw new HappyError('This device is no longer authorized', false);
+            case 'keys-changed':
+                // Something was created or updated while re-encrypting, start over from a fresh snapshot
+                continue;
+        }
+    }
+    await TokenStorage.removePendingRotation();
+    throw new HappyError('The account keeps changing, try again when no session is running', true);
+}
+
+/**
+ * Finish a rotation whose credentials were never stored. The stored ones are
+ * kept while the server still accepts them, otherwise the pending secret
+ * signs in. Left pending when the server can't be reached.
+ * @returns credentials to start with
+ */
+export async function recoverKeyRotation(credentials: AuthCredentials): Promise<AuthCredentials> {
+    const pending = await TokenStorage.getPendingRotation();
+    if (!pending) {
+        return credentials;
+    }
+    if (pending === credentials.secret) {
+        // Stored, the app stopped before clearing it
+        await TokenStorage.removePendingRotation();
+        return credentials;
+    }
+    try {
+        if (await isTokenAccepted(credentials)) {
+            // The server never switched to the new key
+            await TokenStorage.removePendingRotation();
+            return credentials;
+        }
+        const recovered = { token: await authGetToken(decodeBase64(pending, 'base64url')), secret: pending };
+        if (!await TokenStorage.setCredentials(recovered)) {
+            return credentials;
+        }
+        await TokenStorage.removePendingRotation();
+        return recovered;
+    } catch (error) {
+        console.warn('Failed to recover the account key rotation, retrying on the next start:', error);
+        return credentials;
+    }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mergeCachedMessages, OfflineCache } from './offlineCache';
+import { NormalizedMessage } from './typesRaw';
+
+const records = new Map<string, string>();
+const quota = { bytes: Infinity };
+
+function storedBytes() {
+    let total = 0;
+    for (const value of records.values()) {
+        total += value.length;
+    }
+    return total;
+}
+
+vi.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+
+vi.mock('./persistence', () => ({
+    loadOfflineCacheRecord: (key: string) => records.get(key) ?? null,
+    saveOfflineCacheRecord: (key: string, value: string) => {
+        if (storedBytes() - (records.get(key)?.length ?? 0) + value.length > quota.bytes) {
+            throw new Error('QuotaExceededError');
+        }
+        records.set(key, value);
+    },
+    deleteOfflineCacheRecord: (key: string) => { records.delete(key); },
+    clearOfflineCache: () => { records.clear(); },
+}));
+
+// Sealing is covered by the libsodium wrappers, a key tag is enough to tell accounts apart
+vi.mock('@/encryption/libsodium', () => ({
+    encryptSecretBox: (data: any, key: Uint8Array) => new TextEncoder().encode(JSON.stringify({ key: key[0], data })),
+    decryptSecretBox: (data: Uint8Array, key: Uint8Array) => {
+        const sealed = JSON.parse(new TextDecoder().decode(data));
+        return sealed.key === key[0] ? sealed.data : null;
+    },
+}));
+
+function user(id: string, text: string, createdAt: number): NormalizedMessage {
+    return { id, localId: null, createdAt, isSidechain: false, role: 'user', content: { type: 'text', text } };
+}
+
+describe('mergeCachedMessages', () => {
+    it('replaces messages with the same id and keeps them oldest first', () => {
+        const merged = mergeCachedMessages(
+            [user('m2', 'second', 2), user('m1', 'first', 1)],
+            [user('m3', 'third', 3), user('m2', 'second, edited', 2)]
+        );
+        expect(merged.map((m) => m.id)).toEqual(['m1', 'm2', 'm3']);
+        expect(merged[1].content).toEqual({ type: 'text', text: 'second, edited' });
+    });
+});
+
+describe('OfflineCache', () => {
+    it('keeps message history and the session watermark across restarts', () => {
+        records.clear();
+        const key = new Uint8Array(32).fill(1);
+        const cache = new OfflineCache(key);
+        expect(cache.getSessionsWatermark()).toBeNull();
+
+        cache.saveSessions([], {}, 1000, true);
+        cache.startMessages('s1', { oldestSeq: 5, newestSeq: 6, hasOlderMessages: true, messages: [user('m1', 'hi', 1)] });
+        cache.addMessages('s1', [user('m2', 'there', 2)]);
+        cache.addMessages('s2', [user('m3', 'never fetched', 3)]);
+        cache.updateMessagesRange('s1', { newestSeq: 7 });
+        cache.flush();
+
+        const reopened = new OfflineCache(key);
+        expect(reopened.getSessionsWatermark()?.changedAt).toBe(1000);
+        expect(reopened.loadMessages('s1')).toMatchObject({ oldestSeq: 5, newestSeq: 7, hasOlderMessages: true });
+        expect(reopened.loadMessages('s1')?.messages.map((m) => m.id)).toEqual(['m1', 'm2']);
+        expect(reopened.loadMessages('s2')).toBeNull();
+    });
+
+    it('starts over when the cache belongs to another key', () => {
+        records.clear();
+        const cache = new OfflineCache(new Uint8Array(32).fill(1));
+        cache.startMessages('s1', { oldestSeq: 1, newestSeq: 1, hasOlderMessages: false, messages: [user('m1', 'hi', 1)] });
+        cache.flush();
+
+        const other = new OfflineCache(new Uint8Array(32).fill(2));
+        expect(other.loadMessages('s1')).toBeNull();
+        expect(records.has('messages:s1')).toBe(false);
+    });
+
+    it('evicts the least recently used histories when storage is full', () => {
+        records.clear();
+        quota.bytes = Infinity;
+        const cache = new OfflineCache(new Uint8Array(32).fill(1));
+        const long = 'x'.repeat(1000);
+        vi.useFakeTimers();
+        try {
+            for (const [i, sessionId] of ['s1', 's2', 's3'].entries()) {
+                vi.setSystemTime(1000 * (i + 1));
+                cache.startMessages(sessionId, { oldestSeq: 1, newestSeq: 1, hasOlderMessages: false, messages: [user(`m-${sessionId}`, long, 1)] });
+                cache.flush();
+            }
+            quota.bytes = storedBytes() + 500;
+            vi.setSystemTime(4000);
+            cache.startMessages('s4', { oldestSeq: 1, newestSeq: 1, hasOlderMessages: false, messages: [user('m-s4', long, 1)] });
+            expect(() => cache.flush()).not.toThrow();
+        } finally {
+            vi.useRealTimers();
+            quota.bytes = Infinity;
+        }
+
+        expect(records.has('messages:s1')).toBe(false);
+        expect(cache.loadMessages('s1')).toBeNull();
+        expect(cache.loadMessages('s2')).not.toBeNull();
+        expect(cache.loadMessages('s4')?.messages.map((m) => m.id)).toEqual(['m-s4']);
+    });
+});
@@ -0,0 +1,329 @@
+/**
+ * Offline cache
+ *
+ * Local copy of what the app already decrypted: sessions, machines, artifact
+ * headers and message history, with the data keys needed to decrypt what
+ * arrives later. Startup hydrates `storage` from it, so sessions are readable
+ * without network, and sync only fetches what changed since. Every record is
+ * sealed with a key derived from the account secret. Message history is kept
+ * per session with its seq range and evicted least recently used once the
+ * cache grows past its size cap, or earlier when storage runs out of room.
+ */
+
+import { Platform } from 'react-native';
+import { decodeBase64, encodeBase64 } from '@/encryption/base64';
+import { decryptSecretBox, encryptSecretBox } from '@/encryption/libsodium';
+import { DecryptedArtifact } from './artifactTypes';
+import { CacheEntry, pickEvictions } from './cacheEviction';
+import { clearOfflineCache, deleteOfflineCacheRecord, loadOfflineCacheRecord, saveOfflineCacheRecord } from './persistence';
+import { Machine, Session } from './storageTypes';
+import { NormalizedMessage } from './typesRaw';
+
+const CACHE_VERSION = 1;
+const INDEX_KEY = 'index';
+const SESSIONS_KEY = 'sessions';
+const MACHINES_KEY = 'machines';
+const ARTIFACTS_KEY = 'artifacts';
+const MESSAGES_PREFIX = 'messages:';
+
+/** Web keeps MMKV in localStorage, which browsers cap at a few megabytes */
+export const MAX_MESSAGE_CACHE_BYTES = Platform.OS === 'web' ? 2 * 1024 * 1024 : 32 * 1024 * 1024;
+
+/** Base64 data keys by record id, null for records encrypted with the legacy secret */
+export type CachedKeys = Record<string, string | null>;
+
+export type CachedSession = Omit<Session, 'presence'>;
+
+export type CachedMessages = {
+    oldestSeq: number;
+    newestSeq: number;
+    hasOlderMessages: boolean;
+    messages: NormalizedMessage[];
+};
+
+type CacheIndex = {
+    version: number;
+    // Newest server `updatedAt` among cached sessions, the `changedSince` of the next fetch
+    sessionsChangedAt: number | null;
+    sessionsFullSyncAt: number;
+    messages: Record<string, CacheEntry>;
+};
+
+/**
+ * Add messages to a cached history, replacing ones with the same id, oldest first
+ */
+export function mergeCachedMessages(existing: NormalizedMessage[], added: NormalizedMessage[]): NormalizedMessage[] {
+    const byId = new Map<string, NormalizedMessage>();
+    for (const message of existing) {
+        byId.set(message.id, message);
+    }
+    for (const message of added) {
+        byId.set(message.id, message);
+    }
+    return Array.from(byId.values()).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Local-only fields have their own persistence and live state is stale by the next start
+ */
+function toCachedSession(session: Session): CachedSession {
+    const { presence, draft, permissionMode, modelMode, effortMode, profileId, budget, ...rest } = session;
+    return { ...rest, thinking: false, thinkingAt: 0 };
+}
+
+export function encodeCachedKeys(keys: Map<string, Uint8Array | null>, ids: string[]): CachedKeys {
+    const result: CachedKeys = {};
+    for (const id of ids) {
+        const key = keys.get(id);
+        result[id] = key ? encodeBase64(key) : null;
+    }
+    return result;
+}
+
+export function decodeCachedKeys(keys: CachedKeys): Map<string, Uint8Array | null> {
+    const result = new Map<string, Uint8Array | null>();
+    for (const [id, key] of Object.entries(keys)) {
+        result.set(id, key ? decodeBase64(key) : null);
+    }
+    return result;
+}
+
+export class OfflineCache {
+    private readonly key: Uint8Array;
+    private index: CacheIndex;
+    private messages = new Map<string, CachedMessages>();
+    private dirty = new Set<string>();
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(key: Uint8Array) {
+        this.key = key;
+        const index = this.read<CacheIndex>(INDEX_KEY);
+        if (index && index.version === CACHE_VERSION) {
+            this.index = index;
+        } else {
+            // Another account, an older format or a damaged cache, start over
+            clearOfflineCache();
+            this.index = { version: CACHE_VERSION, sessionsChangedAt: null, sessionsFullSyncAt: 0, messages: {} };
+        }
+    }
+
+    //
+    // Sessions, machines and artifacts
+    //
+
+    /**
+     * Where the last session fetch stopped, null until a full list was cached
+     */
+    getSessionsWatermark(): { changedAt: number; fullSyncAt: number } | null {
+        if (this.index.sessionsChangedAt === null) {
+            return null;
+        }
+        return { changedAt: this.index.sessionsChangedAt, fullSyncAt: this.index.sessionsFullSyncAt };
+    }
+
+    loadSessions(): { sessions: CachedSession[], keys: CachedKeys } | null {
+        return this.read(SESSIONS_KEY);
+    }
+
+    /**
+     * Cache the full session list after a fetch
+     * @param changedAt - Newest `updatedAt` the server returned
+     * @param full - Whether the fetch listed all sessions rather than the changed ones
+     */
+    saveSessions(sessions: Session[], keys: CachedKeys, changedAt: number | null, full: boolean) {
+        this.write(SESSIONS_KEY, { sessions: sessions.map(toCachedSession), keys });
+        if (changedAt !== null) {
+            this.index.sessionsChangedAt = Math.max(changedAt, this.index.sessionsChangedAt ?? 0);
+        }
+        if (full) {
+            this.index.sessionsFullSyncAt = Date.now();
+        }
+        this.saveIndex();
+    }
+
+    loadMachines(): { machines: Machine[], keys: CachedKeys } | null {
+        return this.read(MACHINES_KEY);
+    }
+
+    saveMachines(machines: Machine[], keys: CachedKeys) {
+        this.write(MACHINES_KEY, { machines, keys });
+    }
+
+    loadArtifacts(): { artifacts: DecryptedArtifact[], keys: CachedKeys } | null {
+        return this.read(ARTIFACTS_KEY);
+    }
+
+    /** Headers only, bodies are fetched when an artifact is opened */
+    saveArtifacts(artifacts: DecryptedArtifact[], keys: CachedKeys) {
+        this.write(ARTIFACTS_KEY, { artifacts: artifacts.map((artifact) => ({ ...artifact, body: undefined })), keys });
+    }
+
+    //
+    // Messages
+    //
+
+    /**
+     * Cached history of a session, also marks it as recently used
+     */
+    loadMessages(sessionId: string): CachedMessages | null {
+        let cached = this.messages.get(sessionId) ?? null;
+        if (!cached && this.index.messages[sessionId]) {
+            cached = this.read<CachedMessages>(MESSAGES_PREFIX + sessionId);
+            if (cached) {
+                this.messages.set(sessionId, cached);
+            } else {
+                this.removeSession(sessionId);
+            }
+        }
+        if (cached && this.index.messages[sessionId]) {
+            this.index.messages[sessionId].usedAt = Date.now();
+            this.saveIndex();
+        }
+        return cached;
+    }
+
+    /**
+     * Start caching a session from its first fetched page
+     */
+    startMessages(sessionId: string, history: CachedMessages) {
+        this.messages.set(sessionId, { ...history, messages: mergeCachedMessages([], history.messages) });
+        this.markDirty(sessionId);
+    }
+
+    /**
+     * Add messages to a cached session. Sessions whose history was never
+     * fetched are skipped, their seq range would be unknown.
+     */
+    addMessages(sessionId: string, messages: NormalizedMessage[]) {
+        if (messages.length === 0) {
+            return;
+        }
+        const cached = this.messages.get(sessionId) ?? (this.index.messages[sessionId] ? this.loadMessages(sessionId) : null);
+        if (!cached) {
+            return;
+        }
+        cached.messages = mergeCachedMessages(cached.messages, messages);
+        this.markDirty(sessionId);
+    }
+
+    /**
+     * Record the seq range fetched so far
+     */
+    updateMessagesRange(sessionId: string, range: { oldestSeq?: number, newestSeq?: number, hasOlderMessages?: boolean }) {
+        const cached = this.messages.get(sessionId);
+        if (!cached) {
+            return;
+        }
+        if (range.oldestSeq !== undefined) {
+            cached.oldestSeq = Math.min(cached.oldestSeq, range.oldestSeq);
+        }
+        if (range.newestSeq !== undefined) {
+            cached.newestSeq = Math.max(cached.newestSeq, range.newestSeq);
+        }
+        if (range.hasOlderMessages !== undefined) {
+            cached.hasOlderMessages = range.hasOlderMessages;
+        }
+        this.markDirty(sessionId);
+    }
+
+    removeSession(sessionId: string) {
+        const indexed = !!this.index.messages[sessionId];
+        this.evict(sessionId);
+        if (indexed) {
+            this.saveIndex();
+        }
+    }
+
+    flush() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        try {
+            const now = Date.now();
+            for (const sessionId of this.dirty) {
+                const cached = this.messages.get(sessionId);
+                if (!cached) {
+                    continue;
+                }
+                const bytes = this.write(MESSAGES_PREFIX + sessionId, cached);
+                if (bytes === null) {
+                    this.evict(sessionId);
+                } else {
+                    this.index.messages[sessionId] = { bytes, usedAt: now };
+                }
+            }
+            this.dirty.clear();
+            for (const sessionId of pickEvictions(this.index.messages, MAX_MESSAGE_CACHE_BYTES)) {
+                this.evict(sessionId);
+            }
+            this.saveIndex();
+        } catch (e) {
+            // Runs from a timer, a failed flush must not take the app down
+            console.error('Failed to flush offline cache', e);
+        }
+    }
+
+    private evict(sessionId: string) {
+        this.messages.delete(sessionId);
+        this.dirty.delete(sessionId);
+        if (this.index.messages[sessionId]) {
+            delete this.index.messages[sessionId];
+            deleteOfflineCacheRecord(MESSAGES_PREFIX + sessionId);
+        }
+    }
+
+    private markDirty(sessionId: string) {
+        this.dirty.add(sessionId);
+        // Batch writes, messages arrive in bursts while a session streams
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), 2000);
+        }
+    }
+
+    //
+    // Sealed records
+    //
+
+    private saveIndex() {
+        this.write(INDEX_KEY, this.index);
+    }
+
+    private read<T>(key: string): T | null {
+        const raw = loadOfflineCacheRecord(key);
+        if (!raw) {
+            return null;
+        }
+        try {
+            return decryptSecretBox(decodeBase64(raw), this.key) as T | null;
+        } catch (e) {
+            console.error(`Failed to open offline cache record ${key}`, e);
+            return null;
+        }
+    }
+
+    /**
+     * Store a sealed record. When storage is full (browsers throw once
+     * localStorage hits its quota) message histories are evicted least
+     * recently used first until the record fits.
+     * @returns stored size in bytes, null when it didn't fit
+     */
+    private write(key: string, value: unknown): number | null {
+        const sealed = encodeBase64(encryptSecretBox(value, this.key));
+        while (true) {
+            try {
+                saveOfflineCacheRecord(key, sealed);
+                return sealed.length;
+            } catch (e) {
+                const [oldest] = Object.entries(this.index.messages)
+                    .filter(([sessionId]) => MESSAGES_PREFIX + sessionId !== key)
+                    .sort((a, b) => a[1].usedAt - b[1].usedAt);
+                if (!oldest) {
+                    console.error(`Failed to save offline cache record ${key}`, e);
+                    return null;
+                }
+                this.evict(oldest[0]);
+            }
+        }
+    }
+}
@@ -3,9 +3,10 @@
  * Provides strictly typed functions for all session-related RPC operations
  */
 
-import { apiSocket } from './apiSocket';
+import { apiSocket, type RpcCallOptions } from './apiSocket';
 import { sync } from './sync';
 import type { MachineMetadata } from './storageTypes';
+import { getSentFrom } from '@/utils/platform';
 
 // Strict type definitions for all operations
 
@@ -17,6 +18,7 @@ interface SessionPermissionRequest {
     mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
     allowTools?: string[];
     decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
+    sentFrom?: string;
 }
 
 // Mode change operation types
@@ -121,6 +123,179 @@ interface SessionRipgrepResponse {
     error?: string;
 }
 
+// Git operation types, align with the daemon `registerGitHandlers`
+type GitErrorCode =
+    | 'INVALID_DIR'
+    | 'INVALID_ARGUMENT'
+    | 'NOT_GIT_REPO'
+    | 'INVALID_WORKTREE_NAME'
+    | 'WORKTREE_ERROR'
+    | 'DIRTY'
+    | 'NOTHING_TO_COMMIT'
+    | 'FETCH_FAILED'
+    | 'CHECKOUT_FAILED'
+    | 'MERGE_CONFLICT'
+    | 'PUSH_REJECTED'
+    | 'PUSH_FAILED'
+    | 'GH_UNAVAILABLE'
+    | 'PR_FAILED'
+    | 'GIT_ERROR';
+
+interface GitFileSide {
+    status: 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'untracked' | 'conflicted';
+    linesAdded: number;
+    linesRemoved: number;
+    binary?: boolean;
+}
+
+interface GitFileChange {
+    path: string; // Relative to the repository root
+    oldPath?: string;
+    staged: GitFileSide | null;
+    unstaged: GitFileSide | null;
+}
+
+interface GitStatusRequest {
+    path?: string;
+}
+
+interface GitStatusResponse {
+    success: boolean;
+    repoRoot?: string;
+    branch?: string | null;
+    upstream?: string | null;
+    ahead?: number;
+    behind?: number;
+    stashCount?: number;
+    files?: GitFileChange[];
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitDiffRequest {
+    path?: string;
+    mode?: 'head' | 'staged' | 'unstaged'; // head falls back to staged in a repo without commits
+    base?: string; // Diff against the merge base with this branch, includes the branch's commits
+    files?: string[];
+    contextLines?: number;
+}
+
+interface GitDiffResponse {
+    success: boolean;
+    repoRoot?: string;
+    mode?: 'head' | 'staged' | 'unstaged';
+    diff?: string;
+    files?: Array<{ path: string; oldPath?: string; linesAdded: number; linesRemoved: number; binary: boolean }>;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitWorktreeCreateRequest {
+    path: string;
+    branch: string;
+    autoName?: boolean;
+}
+
+interface GitWorktreeCreateResponse {
+    success: boolean;
+    worktreePath?: string;
+    branchName?: string;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitWorktreeRemoveRequest {
+    path: string;
+    worktreePath: string;
+    branch?: string;
+    deleteRemoteBranch?: boolean;
+}
+
+interface GitCommitRequest {
+    path: string;
+    message: string;
+    all?: boolean;
+}
+
+interface GitMergeRequest {
+    path: string;
+    branch: string;
+    into?: string;
+    worktreePath?: string;
+    push?: boolean;
+}
+
+interface GitPushRequest {
+    path: string;
+    branch: string;
+    remote?: string;
+}
+
+interface GitPrCreateRequest {
+    path: string;
+    base: string;
+    head: string;
+    repo?: string;
+}
+
+interface GitPrCreateResponse {
+    success: boolean;
+    url?: string;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitBranchesRequest {
+    path?: string;
+    compareTo?: string;
+}
+
+interface GitBranch {
+    name: string;
+    current: boolean;
+    upstream: string | null;
+    ahead?: number;
+    behind?: number;
+}
+
+interface GitBranchesResponse {
+    success: boolean;
+    current?: string | null;
+    main?: string;
+    branches?: GitBranch[];
+    remotes?: Array<{ name: string; url: string }>;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitResponse {
+    success: boolean;
+    commit?: string; // git-commit
+    into?: string; // git-merge
+    conflicts?: string[]; // git-merge
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+// Terminal operation types
+interface SessionTerminalOpenRequest {
+    cols: number;
+    rows: number;
+    command?: string;
+}
+
+interface SessionTerminalOpenResponse {
+    success: boolean;
+    terminalId?: string;
+    backend?: 'tmux' | 'pty';
+    error?: string;
+}
+
+interface SessionTerminalResponse {
+    success: boolean;
+    error?: string;
+}
+
 // Kill session operation types
 interface SessionKillRequest {
     // No parameters needed
@@ -148,7 +323,8 @@ export interface SpawnSessionOptions {
     directory: string;
     approvedNewDirectoryCreation?: boolean;
     token?: string;
-    agent?: 'codex' | 'claude' | 'gemini';
+    // Built-in agent, or the name of a custom ACP agent declared in the machine's agents.json
+    agent?: 'codex' | 'claude' | 'gemini' | (string & {});
     // Environment variables from AI backend profile
     // Accepts any environment variables - daemon will pass them to the agent process
     // Common variables include:
@@ -177,7 +353,7 @@ export async function machineSpawnNewSession(options: SpawnSessionOptions): Prom
             directory: string
             approvedNewDirectoryCreation?: boolean,
             token?: string,
-            agent?: 'codex' | 'claude' | 'gemini',
+            agent?: string,
             environmentVariables?: Record<string, string>;
         }>(
             machineId,
@@ -194,6 +370,29 @@ export async function machineSpawnNewSession(options: SpawnSessionOptions): Prom
     }
 }
 
+// Custom ACP agent declared in ~/.unhappy/agents.json on a machine
+export interface MachineCustomAgent {
+    name: string;
+    displayName: string;
+}
+
+/**
+ * List custom ACP agents available on a machine.
+ * Older daemons don't know the RPC, treat that as "no custom agents".
+ */
+export async function machineListAgents(machineId: string): Promise<MachineCustomAgent[]> {
+    try {
+        const result = await apiSocket.machineRPC<{ agents?: MachineCustomAgent[] }, {}>(
+            machineId,
+            'list-agents',
+            {}
+        );
+        return result.agents ?? [];
+    } catch (error) {
+        return [];
+    }
+}
+
 /**
  * Stop the daemon on a specific machine
  */
@@ -219,13 +418,109 @@ export async function machineUpdateDaemon(machineId: string): Promise<{ message:
     return result;
 }
 
+// Scheduled prompts run by the daemon (stored on the machine in ~/.unhappy/schedules.json)
+export type MachineScheduleRecurrence =
+    | { type: 'once'; at: number }
+    | { type: 'weekly'; days: number[]; hour: number; minute: number }
+    | { type: 'interval'; minutes: number };
+
+export interface MachineScheduleInput {
+    name: string;
+    directory: string;
+    prompt: string;
+    agent: 'codex' | 'claude' | 'gemini';
+    recurrence: MachineScheduleRecurrence;
+    enabled: boolean;
+}
+
+export interface MachineSchedule extends MachineScheduleInput {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+    nextRunAt: number | null;
+    lastRunAt: number | null;
+}
+
+export interface MachineScheduleRun {
+    id: string;
+    scheduleId: string;
+    trigger: 'schedule' | 'manual';
+    status: 'running' | 'completed' | 'skipped' | 'failed';
+    startedAt: number;
+    finishedAt: number | null;
+    sessionId: string | null;
+    error: string | null;
+}
+
+/**
+ * List schedules on a machine together with the latest run of each
+ */
+export async function machineListSchedules(machineId: string): Promise<{ schedules: MachineSchedule[]; runs: MachineScheduleRun[] }> {
+    return await apiSocket.machineRPC<{ schedules: MachineSchedule[]; runs: MachineScheduleRun[] }, {}>(
+        machineId,
+        'schedule-list',
+        {}
+    );
+}
+
+/**
+ * Run history of a schedule, newest first
+ */
+export async function machineScheduleHistory(machineId: string, scheduleId: string): Promise<MachineScheduleRun[]> {
+    const result = await apiSocket.machineRPC<{ runs: MachineScheduleRun[] }, { id: string }>(
+        machineId,
+        'schedule-history',
+        { id: scheduleId }
+    );
+    return result.runs;
+}
+
+export async function machineCreateSchedule(machineId: string, input: MachineScheduleInput): Promise<MachineSchedule> {
+    const result = await apiSocket.machineRPC<{ schedule: MachineSchedule }, MachineScheduleInput>(
+        machineId,
+        'schedule-create',
+        input
+    );
+    return result.schedule;
+}
+
+export async function machineUpdateSchedule(machineId: string, scheduleId: string, input: MachineScheduleInput): Promise<MachineSchedule> {
+    const result = await apiSocket.machineRPC<{ schedule: MachineSchedule }, MachineScheduleInput & { id: string }>(
+        machineId,
+        'schedule-update',
+        { ...input, id: scheduleId }
+    );
+    return result.schedule;
+}
+
+export async function machineDeleteSchedule(machineId: string, scheduleId: string): Promise<void> {
+    await apiSocket.machineRPC<{ success: boolean }, { id: string }>(
+        machineId,
+        'schedule-delete',
+        { id: scheduleId }
+    );
+}
+
+/**
+ * Trigger a schedule immediately (still skipped while its previous run is active)
+ */
+export async function machineRunScheduleNow(machineId: string, scheduleId: string): Promise<MachineScheduleRun> {
+    const result = await apiSocket.machineRPC<{ run: MachineScheduleRun }, { id: string }>(
+        machineId,
+        'schedule-run-now',
+        { id: scheduleId }
+    );
+    return result.run;
+}
+
 /**
  * Execute a bash command on a specific machine
  */
 export async function machineBash(
     machineId: string,
     command: string,
-    cwd: string
+    cwd: string,
+    options?: RpcCallOptions
 ): Promise<{
     success: boolean;
     stdout: string;
@@ -244,7 +539,8 @@ export async function machineBash(
         }>(
             machineId,
             'bash',
-            { command, cwd }
+            { command, cwd },
+            options
         );
         return result;
     } catch (error) {
@@ -335,7 +631,7 @@ export async function sessionAbort(sessionId: string): Promise<void> {
  * Allow a permission request
  */
 export async function sessionAllow(sessionId: string, id: string, mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan', allowedTools?: string[], decision?: 'approved' | 'approved_for_session'): Promise<void> {
-    const request: SessionPermissionRequest = { id, approved: true, mode, allowTools: allowedTools, decision };
+    const request: SessionPermissionRequest = { id, approved: true, mode, allowTools: allowedTools, decision, sentFrom: getSentFrom() };
     await apiSocket.sessionRPC(sessionId, 'permission', request);
 }
 
@@ -343,7 +639,7 @@ export async function sessionAllow(sessionId: string, id: string, mode?: 'defaul
  * Deny a permission request
  */
 export async function sessionDeny(sessionId: string, id: string, mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan', allowedTools?: string[], decision?: 'denied' | 'abort'): Promise<void> {
-    const request: SessionPermissionRequest = { id, approved: false, mode, allowTools: allowedTools, decision };
+    const request: SessionPermissionRequest = { id, approved: false, mode, allowTools: allowedTools, decision, sentFrom: getSentFrom() };
     await apiSocket.sessionRPC(sessionId, 'permission', request);
 }
 
@@ -363,12 +659,13 @@ export async function sessionSwitch(sessionId: string, to: 'remote' | 'local'):
 /**
  * Execute a bash command in the session
  */
-export async function sessionBash(sessionId: string, request: SessionBashRequest): Promise<SessionBashResponse> {
+export async function sessionBash(sessionId: string, request: SessionBashRequest, options?: RpcCallOptions): Promise<SessionBashResponse> {
     try {
         const response = await apiSocket.sessionRPC<SessionBashResponse, SessionBashRequest>(
             sessionId,
             'bash',
-            request
+            request,
+            options
         );
         return response;
     } catch (error) {
@@ -483,14 +780,16 @@ export async function machineListDirectory(
 export async function sessionGetDirectoryTree(
     sessionId: string,
     path: string,
-    maxDepth: number
+    maxDepth: number,
+    options?: RpcCallOptions
 ): Promise<SessionGetDirectoryTreeResponse> {
     try {
         const request: SessionGetDirectoryTreeRequest = { path, maxDepth };
         const response = await apiSocket.sessionRPC<SessionGetDirectoryTreeResponse, SessionGetDirectoryTreeRequest>(
             sessionId,
             'getDirectoryTree',
-            request
+            request,
+            options
         );
         return response;
     } catch (error) {
@@ -507,14 +806,16 @@ export async function sessionGetDirectoryTree(
 export async function machineGetDirectoryTree(
     machineId: string,
     path: string,
-    maxDepth: number
+    maxDepth: number,
+    options?: RpcCallOptions
 ): Promise<SessionGetDirectoryTreeResponse> {
     try {
         const request: SessionGetDirectoryTreeRequest = { path, maxDepth };
         const response = await apiSocket.machineRPC<SessionGetDirectoryTreeResponse, SessionGetDirectoryTreeRequest>(
             machineId,
             'getDirectoryTree',
-            request
+            request,
+            options
         );
         return response;
     } catch (error) {
@@ -526,19 +827,30 @@ export async function machineGetDirectoryTree(
 }
 
 /**
- * Run ripgrep in the session
+ * Run ripgrep in the session. `onLines` receives output lines while ripgrep
+ * is still running, the response still carries the whole output.
  */
 export async function sessionRipgrep(
     sessionId: string,
     args: string[],
-    cwd?: string
+    cwd?: string,
+    options?: { signal?: AbortSignal; onLines?: (lines: string[]) => void }
 ): Promise<SessionRipgrepResponse> {
     try {
         const request: SessionRipgrepRequest = { args, cwd };
+        const onLines = options?.onLines;
         const response = await apiSocket.sessionRPC<SessionRipgrepResponse, SessionRipgrepRequest>(
             sessionId,
             'ripgrep',
-            request
+            request,
+            {
+                signal: options?.signal,
+                onProgress: onLines ? (progress: { lines?: unknown }) => {
+                    if (Array.isArray(progress?.lines)) {
+                        onLines(progress.lines.filter((line): line is string => typeof line === 'string'));
+                    }
+                } : undefined
+            }
         );
         return response;
     } catch (error) {
@@ -549,6 +861,173 @@ export async function sessionRipgrep(
     }
 }
 
+/**
+ * Open an interactive terminal in the session's working directory.
+ * Output is streamed back as terminal-output ephemeral events.
+ */
+export async function sessionTerminalOpen(
+    sessionId: string,
+    cols: number,
+    rows: number,
+    command?: string
+): Promise<SessionTerminalOpenResponse> {
+    try {
+        return await apiSocket.sessionRPC<SessionTerminalOpenResponse, SessionTerminalOpenRequest>(
+            sessionId,
+            'terminal-open',
+            { cols, rows, command }
+        );
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+}
+
+/**
+ * Send keystrokes to a terminal
+ */
+export async function sessionTerminalInput(sessionId: string, terminalId: string, data: string): Promise<SessionTerminalResponse> {
+    try {
+        return await apiSocket.sessionRPC<SessionTerminalResponse, { terminalId: string; data: string }>(
+            sessionId,
+            'terminal-input',
+            { terminalId, data }
+        );
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+}
+
+/**
+ * Resize a terminal
+ */
+export async function sessionTerminalResize(sessionId: string, terminalId: string, cols: number, rows: number): Promise<SessionTerminalResponse> {
+    try {
+        return await apiSocket.sessionRPC<SessionTerminalResponse, { terminalId: string; cols: number; rows: number }>(
+            sessionId,
+            'terminal-resize',
+            { terminalId, cols, rows }
+        );
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+}
+
+/**
+ * Close a terminal and kill its shell
+ */
+export async function sessionTerminalClose(sessionId: string, terminalId: string): Promise<SessionTerminalResponse> {
+    try {
+        return await apiSocket.sessionRPC<SessionTerminalResponse, { terminalId: string }>(
+            sessionId,
+            'terminal-close',
+            { terminalId }
+        );
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+}
+
+type GitTarget = { machineId: string } | { sessionId: string };
+
+async function gitRPC<R extends { success: boolean; error?: string }, A>(target: GitTarget, method: string, request: A): Promise<R> {
+    try {
+        return 'machineId' in target
+            ? await apiSocket.machineRPC<R, A>(target.machineId, method, request)
+            : await apiSocket.sessionRPC<R, A>(target.sessionId, method, request);
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        } as R;
+    }
+}
+
+/**
+ * Get structured git status (branch, tracking, changed files with line counts)
+ */
+export async function sessionGitStatus(sessionId: string, path?: string): Promise<GitStatusResponse> {
+    return gitRPC<GitStatusResponse, GitStatusRequest>({ sessionId }, 'git-status', { path });
+}
+
+export async function machineGitStatus(machineId: string, path: string): Promise<GitStatusResponse> {
+    return gitRPC<GitStatusResponse, GitStatusRequest>({ machineId }, 'git-status', { path });
+}
+
+/**
+ * Get a unified diff of the session's working tree
+ */
+export async function sessionGitDiff(sessionId: string, request: GitDiffRequest): Promise<GitDiffResponse> {
+    return gitRPC<GitDiffResponse, GitDiffRequest>({ sessionId }, 'git-diff', request);
+}
+
+/**
+ * Get a unified diff of a repository on the machine
+ */
+export async function machineGitDiff(machineId: string, request: GitDiffRequest): Promise<GitDiffResponse> {
+    return gitRPC<GitDiffResponse, GitDiffRequest>({ machineId }, 'git-diff', request);
+}
+
+/**
+ * Create a worktree under `<repo>/.unhappy/worktree/` on a new or existing branch
+ */
+export async function machineGitWorktreeCreate(machineId: string, request: GitWorktreeCreateRequest): Promise<GitWorktreeCreateResponse> {
+    return gitRPC<GitWorktreeCreateResponse, GitWorktreeCreateRequest>({ machineId }, 'git-worktree-create', request);
+}
+
+/**
+ * Remove a worktree and optionally its local and remote branch
+ */
+export async function machineGitWorktreeRemove(machineId: string, request: GitWorktreeRemoveRequest): Promise<GitResponse> {
+    return gitRPC<GitResponse, GitWorktreeRemoveRequest>({ machineId }, 'git-worktree-remove', request);
+}
+
+/**
+ * Stage everything and commit
+ */
+export async function machineGitCommit(machineId: string, request: GitCommitRequest): Promise<GitResponse> {
+    return gitRPC<GitResponse, GitCommitRequest>({ machineId }, 'git-commit', request);
+}
+
+/**
+ * Merge a branch into the main branch (or `into`), aborting on conflicts
+ */
+export async function machineGitMerge(machineId: string, request: GitMergeRequest): Promise<GitResponse> {
+    return gitRPC<GitResponse, GitMergeRequest>({ machineId }, 'git-merge', request);
+}
+
+/**
+ * Push a branch and set it to track the remote (origin by default)
+ */
+export async function machineGitPush(machineId: string, request: GitPushRequest): Promise<GitResponse> {
+    return gitRPC<GitResponse, GitPushRequest>({ machineId }, 'git-push', request);
+}
+
+/**
+ * Open a pull request with the GitHub CLI, or return the existing one for the branch
+ */
+export async function machineGitPrCreate(machineId: string, request: GitPrCreateRequest): Promise<GitPrCreateResponse> {
+    return gitRPC<GitPrCreateResponse, GitPrCreateRequest>({ machineId }, 'git-pr-create', request);
+}
+
+/**
+ * List local branches, the current branch, the main branch and remotes
+ */
+export async function machineGitBranches(machineId: string, request: GitBranchesRequest): Promise<GitBranchesResponse> {
+    return gitRPC<GitBranchesResponse, GitBranchesRequest>({ machineId }, 'git-branches', request);
+}
+
 /**
  * Kill the session process immediately
  */
@@ -617,5 +1096,12 @@ export type {
     SessionGetDirectoryTreeResponse,
     TreeNode,
     SessionRipgrepResponse,
-    SessionKillResponse
+    SessionTerminalOpenResponse,
+    SessionKillResponse,
+    GitErrorCode,
+    GitFileSide,
+    GitFileChange,
+    GitStatusResponse,
+    GitDiffResponse,
+    GitBranch
 };
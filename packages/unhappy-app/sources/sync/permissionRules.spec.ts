@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { describePermissionRule, formatPermissionRules, parsePermissionRules } from './permissionRules';
+
+describe('parsePermissionRules', () => {
+    it('round-trips the project file format', () => {
+        const rules = [
+            { action: 'deny' as const, tool: 'Bash', command: 'git push*' },
+            { action: 'allow' as const, path: 'src/**', description: 'Edits in src' },
+        ];
+        expect(parsePermissionRules(formatPermissionRules(rules))).toEqual({ rules });
+    });
+
+    it('reports invalid JSON and invalid rules', () => {
+        expect(parsePermissionRules('{ rules: ')).toHaveProperty('error');
+        expect(parsePermissionRules('{"rules":[{"action":"maybe"}]}')).toEqual({
+            error: expect.stringMatching(/^rules\.0\.action: /),
+        });
+    });
+});
+
+describe('describePermissionRule', () => {
+    it('matches the summary reported by the CLI', () => {
+        expect(describePermissionRule({ action: 'deny', tool: 'Bash', command: 'git push*' })).toBe('deny Bash(git push*)');
+        expect(describePermissionRule({ action: 'ask', path: '**/.env' })).toBe('ask *(**/.env)');
+        expect(describePermissionRule({ action: 'allow', tool: 'Read', description: 'Reads' })).toBe('Reads');
+    });
+});
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+//
+// Declarative permission rules, evaluated by the CLI before a request reaches the app.
+// Account rules live in settings and are sent with every message, projects can add
+// their own in `.unhappy/permissions.json` using the same format.
+//
+
+export const PermissionRuleSchema = z.object({
+    action: z.enum(['allow', 'deny', 'ask']),
+    tool: z.string().min(1).optional(), // Glob on the tool name, e.g. `Bash` or `mcp__github__*`
+    command: z.string().min(1).optional(), // Glob on the shell command
+    path: z.string().min(1).optional(), // Glob on the touched file paths, relative to the project root unless absolute
+    description: z.string().optional(),
+});
+
+export type PermissionRule = z.infer<typeof PermissionRuleSchema>;
+
+export const PermissionRulesFileSchema = z.object({
+    rules: z.array(PermissionRuleSchema),
+});
+
+// The rule that decided a tool call, as recorded by the CLI in the agent state
+export const PermissionRuleMatchSchema = z.object({
+    action: z.enum(['allow', 'deny', 'ask']),
+    source: z.enum(['project', 'account', 'session']),
+    description: z.string(),
+});
+
+export type PermissionRuleMatch = z.infer<typeof PermissionRuleMatchSchema>;
+
+/**
+ * Short summary of a rule, matching the one the CLI reports
+ */
+export function describePermissionRule(rule: PermissionRule): string {
+    if (rule.description) {
+        return rule.description;
+    }
+    const args = [rule.command, rule.path].filter(Boolean).join(', ');
+    const target = rule.tool ?? '*';
+    return `${rule.action} ${args ? `${target}(${args})` : target}`;
+}
+
+export function formatPermissionRules(rules: PermissionRule[]): string {
+    return JSON.stringify({ rules }, null, 2);
+}
+
+/**
+ * Parse rules written in the project file format
+ */
+export function parsePermissionRules(text: string): { rules: PermissionRule[] } | { error: string } {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        return { error: e instanceof Error ? e.message : String(e) };
+    }
+    const parsed = PermissionRulesFileSchema.safeParse(json);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return { error: issue ? `${issue.path.join('.') || 'rules'}: ${issue.message}` : parsed.error.message };
+    }
+    return { rules: parsed.data.rules };
+}
@@ -5,12 +5,23 @@ import { Purchases, purchasesDefaults, purchasesParse } from './purchases';
 import { Profile, profileDefaults, profileParse } from './profile';
 import type { PermissionMode } from '@/components/PermissionModeSelector';
 import type { ReasoningEffortMode } from './storageTypes';
+import type { Race } from './races';
+import type { Budget } from './budget';
 
 const mmkv = new MMKV();
+// Separate instance so the offline cache can be measured and wiped on its own
+const offlineCacheStorage = new MMKV({ id: 'offline-cache' });
 const NEW_SESSION_DRAFT_KEY = 'new-session-draft-v1';
+const SEARCH_INDEX_PREFIX = 'search-index-v2:';
+// Plaintext records from before the index was sealed
+const LEGACY_SEARCH_INDEX_PREFIX = 'search-index-v1:';
+const REVIEWS_PREFIX = 'session-reviews-v2:';
+// Plaintext records from before review drafts were sealed
+const LEGACY_REVIEWS_PREFIX = 'session-reviews-v1:';
+const RACES_PREFIX = 'races-v1:';
 
 export type NewSessionAgentType = 'claude' | 'codex' | 'gemini';
-export type NewSessionSessionType = 'simple' | 'worktree';
+export type NewSessionSessionType = 'simple' | 'worktree' | 'race';
 
 export interface NewSessionDraft {
     input: string;
@@ -147,7 +158,9 @@ export function loadNewSessionDraft(): NewSessionDraft | null {
         const permissionMode: PermissionMode = typeof parsed.permissionMode === 'string'
             ? (parsed.permissionMode as PermissionMode)
             : 'default';
-        const sessionType: NewSessionSessionType = parsed.sessionType === 'worktree' ? 'worktree' : 'simple';
+        const sessionType: NewSessionSessionType = parsed.sessionType === 'worktree' || parsed.sessionType === 'race'
+            ? parsed.sessionType
+            : 'simple';
         const worktreeName = typeof parsed.worktreeName === 'string' ? parsed.worktreeName : '';
         const updatedAt = typeof parsed.updatedAt === 'number' ? parsed.updatedAt : Date.now();
 
@@ -243,6 +256,23 @@ export function saveSessionProfileIds(ids: Record<string, string>) {
     mmkv.set('session-profile-ids', JSON.stringify(ids));
 }
 
+export function loadSessionBudgets(): Record<string, Budget> {
+    const budgets = mmkv.getString('session-budgets');
+    if (budgets) {
+        try {
+            return JSON.parse(budgets);
+        } catch (e) {
+            console.error('Failed to parse session budgets', e);
+            return {};
+        }
+    }
+    return {};
+}
+
+export function saveSessionBudgets(budgets: Record<string, Budget>) {
+    mmkv.set('session-budgets', JSON.stringify(budgets));
+}
+
 export function loadProfile(): Profile {
     const profile = mmkv.getString('profile');
     if (profile) {
@@ -261,6 +291,108 @@ export function saveProfile(profile: Profile) {
     mmkv.set('profile', JSON.stringify(profile));
 }
 
+// Device sub-key of this install, registered with the server at sign in.
+// Cleared with the rest on logout, the next sign in registers a new device.
+export function loadDeviceKey(): { seed: string, deviceId: string | null } | null {
+    const device = mmkv.getString('device-key');
+    if (device) {
+        try {
+            return JSON.parse(device);
+        } catch (e) {
+            console.error('Failed to parse device key', e);
+            return null;
+        }
+    }
+    return null;
+}
+
+export function saveDeviceKey(device: { seed: string, deviceId: string | null }) {
+    mmkv.set('device-key', JSON.stringify(device));
+}
+
+// Search index is stored per session so a new message only rewrites its own session
+export function loadSearchIndexRecords(): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const key of mmkv.getAllKeys()) {
+        if (key.startsWith(LEGACY_SEARCH_INDEX_PREFIX)) {
+            mmkv.delete(key);
+            continue;
+        }
+        if (!key.startsWith(SEARCH_INDEX_PREFIX)) {
+            continue;
+        }
+        const raw = mmkv.getString(key);
+        if (raw) {
+            result[key.slice(SEARCH_INDEX_PREFIX.length)] = raw;
+        }
+    }
+    return result;
+}
+
+export function saveSearchIndexRecord(sessionId: string, sealed: string) {
+    mmkv.set(SEARCH_INDEX_PREFIX + sessionId, sealed);
+}
+
+export function deleteSearchIndexRecord(sessionId: string) {
+    mmkv.delete(SEARCH_INDEX_PREFIX + sessionId);
+}
+
+export function loadSessionReviewRecords(): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const key of mmkv.getAllKeys()) {
+        if (key.startsWith(LEGACY_REVIEWS_PREFIX)) {
+            mmkv.delete(key);
+            continue;
+        }
+        if (!key.startsWith(REVIEWS_PREFIX)) {
+            continue;
+        }
+        const raw = mmkv.getString(key);
+        if (raw) {
+            result[key.slice(REVIEWS_PREFIX.length)] = raw;
+        }
+    }
+    return result;
+}
+
+export function saveSessionReviewRecord(sessionId: string, sealed: string) {
+    mmkv.set(REVIEWS_PREFIX + sessionId, sealed);
+}
+
+export function deleteSessionReviewRecord(sessionId: string) {
+    mmkv.delete(REVIEWS_PREFIX + sessionId);
+}
+
+export function loadRaces(): Record<string, Race> {
+    const result: Record<string, Race> = {};
+    for (const key of mmkv.getAllKeys()) {
+        if (!key.startsWith(RACES_PREFIX)) {
+            continue;
+        }
+        const raw = mmkv.getString(key);
+        if (!raw) {
+            continue;
+        }
+        try {
+            const parsed = JSON.parse(raw);
+            if (parsed && typeof parsed.id === 'string' && Array.isArray(parsed.contestants)) {
+                result[parsed.id] = parsed;
+            }
+        } catch (e) {
+            console.error('Failed to parse race', e);
+        }
+    }
+    return result;
+}
+
+export function saveRace(race: Race) {
+    mmkv.set(RACES_PREFIX + race.id, JSON.stringify(race));
+}
+
+export function deleteRace(raceId: string) {
+    mmkv.delete(RACES_PREFIX + raceId);
+}
+
 // Simple temporary text storage for passing large strings between screens
 export function storeTempText(content: string): string {
     const id = `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -278,6 +410,25 @@ export function retrieveTempText(id: string): string | null {
     return null;
 }
 
+// Encrypted offline cache records, sealed by offlineCache.ts
+
+export function loadOfflineCacheRecord(key: string): string | null {
+    return offlineCacheStorage.getString(key) ?? null;
+}
+
+export function saveOfflineCacheRecord(key: string, value: string) {
+    offlineCacheStorage.set(key, value);
+}
+
+export function deleteOfflineCacheRecord(key: string) {
+    offlineCacheStorage.delete(key);
+}
+
+export function clearOfflineCache() {
+    offlineCacheStorage.clearAll();
+}
+
 export function clearPersistence() {
     mmkv.clearAll();
+    offlineCacheStorage.clearAll();
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { raceBranchName, raceContestantLabel, races, sameContestant, summarizeDiff, tailOutput, withUntrackedFiles, Race } from './races';
+
+vi.mock('./persistence', () => ({
+    loadRaces: () => ({}),
+    saveRace: () => {},
+    deleteRace: () => {},
+}));
+
+describe('races', () => {
+    it('names branches after the race, agent and model', () => {
+        expect(raceBranchName('race-brave-otter', { agent: 'claude', model: null })).toBe('race-brave-otter-claude');
+        expect(raceBranchName('race-brave-otter', { agent: 'codex', model: 'GPT-5.1 Codex' })).toBe('race-brave-otter-codex-gpt-5.1-codex');
+        expect(raceContestantLabel({ agent: 'gemini', model: 'gemini-2.5-pro' })).toBe('Gemini · gemini-2.5-pro');
+    });
+
+    it('treats the default model as its own contestant', () => {
+        expect(sameContestant({ agent: 'claude', model: null }, { agent: 'claude', model: null })).toBe(true);
+        expect(sameContestant({ agent: 'claude', model: null }, { agent: 'claude', model: 'claude-opus-4-6' })).toBe(false);
+        expect(sameContestant({ agent: 'claude', model: 'x' }, { agent: 'codex', model: 'x' })).toBe(false);
+    });
+
+    it('keeps the tail of test output and sums diff stats', () => {
+        const output = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n') + '\n\n';
+        expect(tailOutput(output, 3)).toBe('line 28\nline 29\nline 30');
+        expect(summarizeDiff([
+            { linesAdded: 3, linesRemoved: 1 },
+            { linesAdded: 0, linesRemoved: 4 },
+        ])).toEqual({ files: 2, added: 3, removed: 5 });
+    });
+
+    it('adds untracked files the diff leaves out', () => {
+        const untracked = { status: 'untracked' as const, linesAdded: 0, linesRemoved: 0 };
+        expect(withUntrackedFiles([{ path: 'a.ts', linesAdded: 1, linesRemoved: 0 }], [
+            { path: 'a.ts', staged: null, unstaged: { status: 'modified', linesAdded: 1, linesRemoved: 0 } },
+            { path: 'new.ts', staged: null, unstaged: untracked },
+        ])).toEqual([
+            { path: 'a.ts', linesAdded: 1, linesRemoved: 0 },
+            { path: 'new.ts', linesAdded: 0, linesRemoved: 0, untracked: true },
+        ]);
+    });
+
+    it('finds a race by any of its sessions', () => {
+        const race: Race = {
+            id: 'r1', createdAt: 0, machineId: 'm', basePath: '/repo', baseBranch: 'main', prompt: 'fix it',
+            contestants: [
+                { agent: 'claude', model: null, worktreePath: '/w1', branchName: 'b1', sessionId: 's1', error: null, test: null },
+                { agent: 'codex', model: null, worktreePath: '/w2', branchName: 'b2', sessionId: 's2', error: null, test: null },
+            ],
+            testCommand: null, winnerSessionId: null, finishedAt: null,
+        };
+        races.save(race);
+        races.updateContestant('r1', 1, (c) => ({ ...c, sessionId: 's3' }));
+
+        expect(races.findBySession('s3')?.id).toBe('r1');
+        expect(races.findBySession('s2')).toBeNull();
+        races.remove('r1');
+        expect(races.get('r1')).toBeNull();
+    });
+});
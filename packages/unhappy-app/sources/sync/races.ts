@@ -0,0 +1,174 @@
+/**
+ * Races
+ *
+ * One prompt sent to several agents or models at once, each in its own
+ * worktree of the same repository. The race keeps track of the contestants
+ * so their results can be compared side by side, and ends when a winner is
+ * merged and the other worktrees are removed.
+ */
+
+import { deleteRace, loadRaces, saveRace } from './persistence';
+import type { GitFileChange } from './ops';
+
+export type RaceAgent = 'claude' | 'codex' | 'gemini';
+
+export type RaceTestResult = {
+    command: string;
+    exitCode: number;
+    output: string; // Tail of stdout and stderr
+    ranAt: number;
+};
+
+export type RaceContestant = {
+    agent: RaceAgent;
+    model: string | null; // null runs the agent's default model
+    worktreePath: string | null;
+    branchName: string | null;
+    sessionId: string | null;
+    error: string | null; // Why the contestant never started
+    test: RaceTestResult | null;
+};
+
+export type Race = {
+    id: string;
+    createdAt: number;
+    machineId: string;
+    basePath: string;
+    baseBranch: string; // Branch the worktrees were created from, the winner is merged into it
+    prompt: string;
+    contestants: RaceContestant[];
+    testCommand: string | null;
+    winnerSessionId: string | null;
+    finishedAt: number | null;
+};
+
+const TEST_OUTPUT_LINES = 20;
+
+function slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Branch of one contestant, derived from the race name so the worktrees of a
+ * race sort together
+ */
+export function raceBranchName(raceName: string, contestant: { agent: RaceAgent; model: string | null }): string {
+    const model = contestant.model ? slugify(contestant.model) : '';
+    return model ? `${raceName}-${contestant.agent}-${model}` : `${raceName}-${contestant.agent}`;
+}
+
+const AGENT_NAMES: Record<RaceAgent, string> = {
+    claude: 'Claude',
+    codex: 'Codex',
+    gemini: 'Gemini',
+};
+
+export function raceContestantLabel(contestant: { agent: RaceAgent; model: string | null }): string {
+    return contestant.model ? `${AGENT_NAMES[contestant.agent]} · ${contestant.model}` : AGENT_NAMES[contestant.agent];
+}
+
+export function sameContestant(a: { agent: RaceAgent; model: string | null }, b: { agent: RaceAgent; model: string | null }): boolean {
+    return a.agent === b.agent && (a.model ?? null) === (b.model ?? null);
+}
+
+/**
+ * Last lines of a test run, enough to see which tests failed
+ */
+export function tailOutput(output: string, lines: number = TEST_OUTPUT_LINES): string {
+    const all = output.replace(/\s+$/, '').split('\n');
+    return all.slice(-lines).join('\n');
+}
+
+export type RaceDiffFile = {
+    path: string;
+    linesAdded: number;
+    linesRemoved: number;
+    untracked?: boolean; // Line counts are unknown until the file is added
+};
+
+/**
+ * Add the untracked files of a worktree to its diff, git diff leaves out
+ * files that were never added
+ */
+export function withUntrackedFiles(files: RaceDiffFile[], status: GitFileChange[]): RaceDiffFile[] {
+    const listed = new Set(files.map((file) => file.path));
+    const untracked = status
+        .filter((file) => file.unstaged?.status === 'untracked' && !listed.has(file.path))
+        .map((file) => ({ path: file.path, linesAdded: 0, linesRemoved: 0, untracked: true }));
+    return [...files, ...untracked];
+}
+
+/**
+ * Totals of a numstat style file list
+ */
+export function summarizeDiff(files: { linesAdded: number; linesRemoved: number }[]): { files: number; added: number; removed: number } {
+    return files.reduce(
+        (sum, file) => ({ files: sum.files + 1, added: sum.added + file.linesAdded, removed: sum.removed + file.linesRemoved }),
+        { files: 0, added: 0, removed: 0 }
+    );
+}
+
+class Races {
+    private races: Record<string, Race> | null = null;
+    private listeners = new Set<() => void>();
+
+    private get state(): Record<string, Race> {
+        if (!this.races) {
+            this.races = loadRaces();
+        }
+        return this.races;
+    }
+
+    get(raceId: string): Race | null {
+        return this.state[raceId] ?? null;
+    }
+
+    findBySession(sessionId: string): Race | null {
+        return Object.values(this.state).find((race) =>
+            race.contestants.some((contestant) => contestant.sessionId === sessionId)) ?? null;
+    }
+
+    save(race: Race) {
+        this.state[race.id] = race;
+        saveRace(race);
+        this.notify();
+    }
+
+    update(raceId: string, updater: (race: Race) => Race) {
+        const current = this.get(raceId);
+        if (current) {
+            this.save(updater(current));
+        }
+    }
+
+    updateContestant(raceId: string, index: number, updater: (contestant: RaceContestant) => RaceContestant) {
+        this.update(raceId, (race) => ({
+            ...race,
+            contestants: race.contestants.map((contestant, i) => i === index ? updater(contestant) : contestant)
+        }));
+    }
+
+    remove(raceId: string) {
+        if (!this.state[raceId]) {
+            return;
+        }
+        delete this.state[raceId];
+        deleteRace(raceId);
+        this.notify();
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private notify() {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
+
+export const races = new Races();
@@ -1244,7 +1244,7 @@ describe('reducer', () => {
                 {
                     id: 'msg-1',
                     localId: null,
-                    createdAt: 1000,
+                    createdAt: 3000,
                     role: 'agent',
                     content: [{
                         type: 'tool-result',
@@ -1260,8 +1260,9 @@ describe('reducer', () => {
             
             const result1 = reducer(state, resultMessages);
             expect(result1.messages).toHaveLength(0); // Should not create anything
+            expect(state.orphanToolResults.has('tool-1')).toBe(true);
             
-            // Tool call arrives later
+            // Tool call arrives later (e.g. from an older history page)
             const toolMessages: NormalizedMessage[] = [
                 {
                     id: 'msg-2',
@@ -1283,13 +1284,20 @@ describe('reducer', () => {
             
             const result2 = reducer(state, toolMessages);
             expect(result2.messages).toHaveLength(1);
+            expect(result2.messages[0].kind).toBe('tool-call');
             if (result2.messages[0].kind === 'tool-call') {
-                expect(result2.messages[0].tool.state).toBe('running'); // Result was ignored
-                expect(result2.messages[0].tool.result).toBeUndefined();
+                expect(result2.messages[0].tool.state).toBe('completed'); // Buffered result was applied
+                expect(result2.messages[0].tool.result).toBe('Success');
+                expect(result2.messages[0].tool.completedAt).toBe(3000);
             }
-            
-            // Result arrives again (with different message ID since it's a new message)
-            const resultMessages2: NormalizedMessage[] = [
+            expect(state.orphanToolResults.has('tool-1')).toBe(false);
+        });
+
+        it('should merge older history pages loaded after newer ones', () => {
+            const state = createReducer();
+
+            // Newest page: tool result, then a user message
+            const newerPage: NormalizedMessage[] = [
                 {
                     id: 'msg-3',
                     localId: null,
@@ -1298,27 +1306,78 @@ describe('reducer', () => {
                     content: [{
                         type: 'tool-result',
                         tool_use_id: 'tool-1',
-                        content: 'Success',
+                        content: 'file.txt',
                         is_error: false,
-                        uuid: 'result-uuid-2',
+                        uuid: 'result-uuid-1',
                         parentUUID: null
                     }],
                     isSidechain: false
+                },
+                {
+                    id: 'msg-4',
+                    localId: 'local-4',
+                    createdAt: 4000,
+                    role: 'user',
+                    content: { type: 'text', text: 'Thanks' },
+                    isSidechain: false
                 }
             ];
-            
-            const result3 = reducer(state, resultMessages2, null);
-            
-            // Debug: Check if tool was properly registered
-            const toolId = 'tool-1';
-            const msgId = state.toolIdToMessageId.get(toolId);
-            const message = msgId ? state.messages.get(msgId) : null;
-            
-            expect(result3.messages).toHaveLength(1);
-            if (result3.messages[0].kind === 'tool-call') {
-                expect(result3.messages[0].tool.state).toBe('completed');
-                expect(result3.messages[0].tool.result).toBe('Success');
+            reducer(state, newerPage);
+
+            // Older page: user prompt, a context reset and the tool call
+            const olderPage: NormalizedMessage[] = [
+                {
+                    id: 'msg-0',
+                    localId: null,
+                    createdAt: 500,
+                    role: 'event',
+                    content: { type: 'message', message: 'Context was reset' },
+                    isSidechain: false
+                },
+                {
+                    id: 'msg-1',
+                    localId: 'local-1',
+                    createdAt: 1000,
+                    role: 'user',
+                    content: { type: 'text', text: 'List files' },
+                    isSidechain: false
+                },
+                {
+                    id: 'msg-2',
+                    localId: null,
+                    createdAt: 2000,
+                    role: 'agent',
+                    content: [{
+                        type: 'tool-call',
+                        id: 'tool-1',
+                        name: 'Bash',
+                        input: { command: 'ls' },
+                        description: null,
+                        uuid: 'tool-uuid-1',
+                        parentUUID: null
+                    }],
+                    isSidechain: false,
+                    usage: {
+                        input_tokens: 100,
+                        output_tokens: 10
+                    }
+                }
+            ];
+            const result = reducer(state, olderPage);
+
+            const toolMessage = result.messages.find((m) => m.kind === 'tool-call');
+            expect(toolMessage).toBeDefined();
+            if (toolMessage?.kind === 'tool-call') {
+                expect(toolMessage.tool.state).toBe('completed');
+                expect(toolMessage.tool.result).toBe('file.txt');
+                expect(toolMessage.createdAt).toBe(2000);
             }
+            expect(result.messages.filter((m) => m.kind === 'user-text')).toHaveLength(1);
+            expect(state.latestUsage?.inputTokens).toBe(100);
+
+            // Loading the same page again is a no-op
+            const repeated = reducer(state, olderPage);
+            expect(repeated.messages).toHaveLength(0);
         });
 
         it('should handle interleaved messages from multiple sources correctly', () => {
@@ -60,6 +60,8 @@
  *   - Updates tool messages with results
  *   - Sets completion or error states
  *   - Updates completion timestamps
+ *   - Buffers results whose tool call is not known yet (older history pages are
+ *     loaded after newer ones) and applies them once the call arrives
  * 
  * **Phase 4: Sidechains**
  *   - Processes sidechain messages separately
@@ -115,6 +117,7 @@ import { AgentEvent, NormalizedMessage, UsageData } from "../typesRaw";
 import { createTracer, traceMessages, TracerState } from "./reducerTracer";
 import { AgentState } from "../storageTypes";
 import { MessageMeta } from "../typesMessageMeta";
+import { PermissionRuleMatch } from "../permissionRules";
 import { parseMessageAsEvent } from "./messageToEvent";
 
 type ReducerMessage = {
@@ -139,6 +142,14 @@ type StoredPermission = {
     mode?: string;
     allowedTools?: string[];
     decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
+    matchedRule?: PermissionRuleMatch;
+};
+
+type ToolResultContent = Extract<Extract<NormalizedMessage, { role: 'agent' }>['content'][number], { type: 'tool-result' }>;
+
+type OrphanToolResult = {
+    content: ToolResultContent;
+    createdAt: number;
 };
 
 export type ReducerState = {
@@ -149,6 +160,7 @@ export type ReducerState = {
     messageIds: Map<string, string>; // originalId -> internalId
     messages: Map<string, ReducerMessage>;
     sidechains: Map<string, ReducerMessage[]>;
+    orphanToolResults: Map<string, OrphanToolResult[]>; // toolId -> results that arrived before their tool call
     tracerState: TracerState; // Tracer state for sidechain processing
     latestTodos?: {
         todos: Array<{
@@ -178,6 +190,7 @@ export function createReducer(): ReducerState {
         localIds: new Map(),
         messageIds: new Map(),
         sidechains: new Map(),
+        orphanToolResults: new Map(),
         tracerState: createTracer()
     }
 };
@@ -254,7 +267,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
         }
 
         // Handle context reset events - reset state and let the message be shown
-        if (msg.role === 'event' && msg.content.type === 'message' && msg.content.message === 'Context was reset') {
+        // Older history pages can contain these events too, they must not override newer state
+        if (msg.role === 'event' && msg.content.type === 'message' && msg.content.message === 'Context was reset' && !isOlderThanLatestState(state, msg.createdAt)) {
             // Reset todos to empty array and reset usage to zero
             state.latestTodos = {
                 todos: [],
@@ -272,7 +286,7 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
         }
 
         // Handle compaction completed events - reset context but keep todos
-        if (msg.role === 'event' && msg.content.type === 'message' && msg.content.message === 'Compaction completed') {
+        if (msg.role === 'event' && msg.content.type === 'message' && msg.content.message === 'Compaction completed' && !isOlderThanLatestState(state, msg.createdAt)) {
             // Reset usage/context to zero but keep todos unchanged
             state.latestUsage = {
                 inputTokens: 0,
@@ -375,6 +389,11 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                             didChange = true;
                         }
 
+                        if (request.matchedRule && !message.tool.permission.matchedRule) {
+                            message.tool.permission.matchedRule = request.matchedRule;
+                            didChange = true;
+                        }
+
                         // Backfill tool input from AgentState. This fixes a race where:
                         // - a permission-request message is received with empty/missing tool args
                         // - later, AgentState includes the real arguments (e.g. Bash.command)
@@ -412,7 +431,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                         result: undefined,
                         permission: {
                             id: permId,
-                            status: 'pending'
+                            status: 'pending',
+                            matchedRule: request.matchedRule || undefined
                         }
                     };
 
@@ -437,7 +457,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                     tool: request.tool,
                     arguments: request.arguments,
                     createdAt: request.createdAt || Date.now(),
-                    status: 'pending'
+                    status: 'pending',
+                    matchedRule: request.matchedRule || undefined
                 });
             }
         }
@@ -466,7 +487,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                             message.tool.permission?.reason !== completed.reason ||
                             message.tool.permission?.mode !== completed.mode ||
                             message.tool.permission?.allowedTools !== completed.allowedTools ||
-                            message.tool.permission?.decision !== completed.decision;
+                            message.tool.permission?.decision !== completed.decision ||
+                            message.tool.permission?.matchedRule?.description !== completed.matchedRule?.description;
 
                         if (!needsUpdate) {
                             continue;
@@ -482,7 +504,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                                 mode: completed.mode || undefined,
                                 allowedTools: completed.allowedTools || undefined,
                                 decision: completed.decision || undefined,
-                                reason: completed.reason || undefined
+                                reason: completed.reason || undefined,
+                                matchedRule: completed.matchedRule || undefined
                             };
                             hasChanged = true;
                         } else {
@@ -491,6 +514,9 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                             message.tool.permission.mode = completed.mode || undefined;
                             message.tool.permission.allowedTools = completed.allowedTools || undefined;
                             message.tool.permission.decision = completed.decision || undefined;
+                            if (completed.matchedRule) {
+                                message.tool.permission.matchedRule = completed.matchedRule;
+                            }
                             if (completed.reason) {
                                 message.tool.permission.reason = completed.reason;
                             }
@@ -525,7 +551,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                             reason: completed.reason || undefined,
                             mode: completed.mode || undefined,
                             allowedTools: completed.allowedTools || undefined,
-                            decision: completed.decision || undefined
+                            decision: completed.decision || undefined,
+                            matchedRule: completed.matchedRule || undefined
                         });
 
                         if (hasChanged) {
@@ -545,7 +572,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                             createdAt: completed.createdAt || Date.now(),
                             completedAt: completed.completedAt || undefined,
                             status: completed.status,
-                            reason: completed.reason || undefined
+                            reason: completed.reason || undefined,
+                            matchedRule: completed.matchedRule || undefined
                         });
                         continue;
                     }
@@ -574,7 +602,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                             reason: completed.reason || undefined,
                             mode: completed.mode || undefined,
                             allowedTools: completed.allowedTools || undefined,
-                            decision: completed.decision || undefined
+                            decision: completed.decision || undefined,
+                            matchedRule: completed.matchedRule || undefined
                         }
                     };
 
@@ -790,7 +819,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                                 reason: permission.reason,
                                 mode: permission.mode,
                                 allowedTools: permission.allowedTools,
-                                decision: permission.decision
+                                decision: permission.decision,
+                                matchedRule: permission.matchedRule
                             };
 
                             // Update state based on permission status
@@ -842,84 +872,29 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
         if (msg.role === 'agent') {
             for (let c of msg.content) {
                 if (c.type === 'tool-result') {
-                    // Find the message containing this tool
-                    let messageId = state.toolIdToMessageId.get(c.tool_use_id);
-                    if (!messageId) {
-                        continue;
-                    }
-
-                    let message = state.messages.get(messageId);
-                    if (!message || !message.tool) {
-                        continue;
-                    }
-
-                    if (c.is_stream) {
-                        if (message.tool.state === 'running') {
-                            message.tool.result = appendStreamChunk(message.tool.result, c.content);
-                            changed.add(messageId);
-                            continue;
-                        }
-
-                        if (message.tool.state === 'completed') {
-                            const mergedLateChunk = appendLateReasoningStreamChunk(
-                                message.tool.name,
-                                message.tool.result,
-                                c.content
-                            );
-                            if (mergedLateChunk !== message.tool.result) {
-                                message.tool.result = mergedLateChunk;
-                                changed.add(messageId);
-                            }
-                        }
-                        continue;
-                    }
-
-                    if (message.tool.state !== 'running') {
-                        continue;
+                    if (!applyToolResult(state, c, msg.createdAt, changed)) {
+                        // Tool call is not known yet (e.g. an older history page is still
+                        // to be loaded) - keep the result until the call arrives
+                        const orphans = state.orphanToolResults.get(c.tool_use_id) || [];
+                        orphans.push({ content: c, createdAt: msg.createdAt });
+                        state.orphanToolResults.set(c.tool_use_id, orphans);
                     }
-
-                    // Update tool state and result
-                    message.tool.state = c.is_error ? 'error' : 'completed';
-                    message.tool.result = mergeFinalReasoningResultWithStream(
-                        message.tool.name,
-                        message.tool.result,
-                        c.content
-                    );
-                    message.tool.completedAt = msg.createdAt;
-
-                    // Update permission data if provided by backend
-                    if (c.permissions) {
-                        // Merge with existing permission to preserve decision field from agentState
-                        if (message.tool.permission) {
-                            // Preserve existing decision if not provided in tool result
-                            const existingDecision = message.tool.permission.decision;
-                            message.tool.permission = {
-                                ...message.tool.permission,
-                                id: c.tool_use_id,
-                                status: c.permissions.result === 'approved' ? 'approved' : 'denied',
-                                date: c.permissions.date,
-                                mode: c.permissions.mode,
-                                allowedTools: c.permissions.allowedTools,
-                                decision: c.permissions.decision || existingDecision
-                            };
-                        } else {
-                            message.tool.permission = {
-                                id: c.tool_use_id,
-                                status: c.permissions.result === 'approved' ? 'approved' : 'denied',
-                                date: c.permissions.date,
-                                mode: c.permissions.mode,
-                                allowedTools: c.permissions.allowedTools,
-                                decision: c.permissions.decision
-                            };
-                        }
-                    }
-
-                    changed.add(messageId);
                 }
             }
         }
     }
 
+    // Apply buffered results whose tool calls arrived in this batch
+    for (const [toolId, orphans] of state.orphanToolResults) {
+        if (!state.toolIdToMessageId.has(toolId)) {
+            continue;
+        }
+        state.orphanToolResults.delete(toolId);
+        for (const orphan of orphans) {
+            applyToolResult(state, orphan.content, orphan.createdAt, changed);
+        }
+    }
+
     //
     // Phase 4: Process sidechains and store them in state
     //
@@ -1339,6 +1314,11 @@ function appendLateReasoningStreamChunk(toolName: string, current: unknown, chun
     return appendStreamChunk(current, chunkText);
 }
 
+function isOlderThanLatestState(state: ReducerState, timestamp: number): boolean {
+    return (state.latestUsage !== undefined && timestamp < state.latestUsage.timestamp)
+        || (state.latestTodos !== undefined && timestamp < state.latestTodos.timestamp);
+}
+
 function processUsageData(state: ReducerState, usage: UsageData, timestamp: number) {
     // Only update if this is newer than the current latest usage
     if (!state.latestUsage || timestamp > state.latestUsage.timestamp) {
@@ -1354,6 +1334,87 @@ function processUsageData(state: ReducerState, usage: UsageData, timestamp: numb
 }
 
 
+/**
+ * Applies a tool result to its tool message. Returns false when the tool call
+ * is not known yet so the caller can keep the result for later.
+ */
+function applyToolResult(state: ReducerState, c: ToolResultContent, createdAt: number, changed: Set<string>): boolean {
+    // Find the message containing this tool
+    let messageId = state.toolIdToMessageId.get(c.tool_use_id);
+    if (!messageId) {
+        return false;
+    }
+
+    let message = state.messages.get(messageId);
+    if (!message || !message.tool) {
+        return true;
+    }
+
+    if (c.is_stream) {
+        if (message.tool.state === 'running') {
+            message.tool.result = appendStreamChunk(message.tool.result, c.content);
+            changed.add(messageId);
+            return true;
+        }
+
+        if (message.tool.state === 'completed') {
+            const mergedLateChunk = appendLateReasoningStreamChunk(
+                message.tool.name,
+                message.tool.result,
+                c.content
+            );
+            if (mergedLateChunk !== message.tool.result) {
+                message.tool.result = mergedLateChunk;
+                changed.add(messageId);
+            }
+        }
+        return true;
+    }
+
+    if (message.tool.state !== 'running') {
+        return true;
+    }
+
+    // Update tool state and result
+    message.tool.state = c.is_error ? 'error' : 'completed';
+    message.tool.result = mergeFinalReasoningResultWithStream(
+        message.tool.name,
+        message.tool.result,
+        c.content
+    );
+    message.tool.completedAt = createdAt;
+
+    // Update permission data if provided by backend
+    if (c.permissions) {
+        // Merge with existing permission to preserve decision field from agentState
+        if (message.tool.permission) {
+            // Preserve existing decision if not provided in tool result
+            const existingDecision = message.tool.permission.decision;
+            message.tool.permission = {
+                ...message.tool.permission,
+                id: c.tool_use_id,
+                status: c.permissions.result === 'approved' ? 'approved' : 'denied',
+                date: c.permissions.date,
+                mode: c.permissions.mode,
+                allowedTools: c.permissions.allowedTools,
+                decision: c.permissions.decision || existingDecision
+            };
+        } else {
+            message.tool.permission = {
+                id: c.tool_use_id,
+                status: c.permissions.result === 'approved' ? 'approved' : 'denied',
+                date: c.permissions.date,
+                mode: c.permissions.mode,
+                allowedTools: c.permissions.allowedTools,
+                decision: c.permissions.decision
+            };
+        }
+    }
+
+    changed.add(messageId);
+    return true;
+}
+
 function convertReducerMessageToMessage(reducerMsg: ReducerMessage, state: ReducerState): Message | null {
     if (reducerMsg.role === 'user' && reducerMsg.text !== null) {
         return {
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildReviewPrompt, isCommentResolved, ReviewComments, reviewComments, ReviewComment } from './reviewComments';
+import { NormalizedMessage } from './typesRaw';
+
+const files = vi.hoisted(() => new Map<string, string>());
+const records = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('expo-crypto', () => {
+    let next = 0;
+    return { randomUUID: () => `c${++next}` };
+});
+
+vi.mock('./persistence', () => ({
+    loadSessionReviewRecords: () => Object.fromEntries(records),
+    saveSessionReviewRecord: (sessionId: string, sealed: string) => { records.set(sessionId, sealed); },
+    deleteSessionReviewRecord: (sessionId: string) => { records.delete(sessionId); },
+}));
+
+vi.mock('@/encryption/libsodium', () => import('./__testdata__/secretBox'));
+
+vi.mock('./ops', () => ({
+    sessionReadFile: async (_sessionId: string, path: string) => {
+        const content = files.get(path);
+        return content === undefined
+            ? { success: false, error: 'not found' }
+            : { success: true, content: Buffer.from(content).toString('base64') };
+    },
+}));
+
+function comment(overrides: Partial<ReviewComment> = {}): ReviewComment {
+    return {
+        id: 'c',
+        path: 'src/auth.ts',
+        absolutePath: '/repo/src/auth.ts',
+        side: 'new',
+        startLine: 10,
+        endLine: 10,
+        code: 'const token = null;',
+        body: 'Read the token from storage',
+        createdAt: 1,
+        ...overrides,
+    };
+}
+
+function agent(id: string, content: any[], createdAt: number): NormalizedMessage {
+    return { id, localId: null, createdAt, isSidechain: false, role: 'agent', content };
+}
+
+describe('buildReviewPrompt', () => {
+    it('lists every comment with its file, lines and quoted code', () => {
+        const prompt = buildReviewPrompt([
+            comment(),
+            comment({ path: 'README.md', side: 'old', startLine: 3, endLine: 4, code: '```sh\nrun\n```', body: ' Keep this \n' }),
+        ]);
+        expect(prompt).toBe([
+            'Please address these review comments on your changes. Each one quotes the lines it refers to.',
+            '1. src/auth.ts (line 10)\n```\nconst token = null;\n```\nRead the token from storage',
+            '2. README.md (removed lines 3-4)\n````\n```sh\nrun\n```\n````\nKeep this',
+        ].join('\n\n'));
+    });
+});
+
+describe('isCommentResolved', () => {
+    it('resolves once the quoted code is gone', () => {
+        expect(isCommentResolved(comment(), 'let a;\n  const token = null;  \n')).toBe(false);
+        expect(isCommentResolved(comment(), 'const token = load();\n')).toBe(true);
+    });
+
+    it('resolves removed lines and deleted files on any edit', () => {
+        expect(isCommentResolved(comment({ side: 'old' }), 'const token = null;')).toBe(true);
+        expect(isCommentResolved(comment(), null)).toBe(true);
+    });
+});
+
+describe('reviewComments', () => {
+    beforeEach(() => {
+        files.clear();
+        reviewComments.removeSession('s1');
+    });
+
+    function submit() {
+        const { id: _id, createdAt: _createdAt, ...draft } = comment();
+        reviewComments.addDraft('s1', draft);
+        reviewComments.addDraft('s1', { ...draft, path: 'src/other.ts', absolutePath: '/repo/src/other.ts' });
+        reviewComments.markSubmitted('s1', 'local-1');
+        return reviewComments.get('s1').reviews[0]!;
+    }
+
+    it('moves drafts into a review linked to the message', () => {
+        const review = submit();
+        expect(reviewComments.get('s1').drafts).toEqual([]);
+        expect(review.id).toBe('local-1');
+        expect(review.comments.map((c) => c.path)).toEqual(['src/auth.ts', 'src/other.ts']);
+    });
+
+    it('resolves comments when a successful edit removes the quoted code', async () => {
+        const review = submit();
+        const after = review.submittedAt + 1;
+        files.set('/repo/src/auth.ts', 'const token = storage.get();\n');
+
+        await reviewComments.handleMessages('s1', [
+            agent('m1', [{ type: 'tool-call', id: 't1', name: 'Edit', input: { file_path: '/repo/src/auth.ts' }, description: null, uuid: 'u1', parentUUID: null }], after),
+        ]);
+        expect(reviewComments.get('s1').reviews[0]!.comments.every((c) => !c.resolvedAt)).toBe(true);
+
+        await reviewComments.handleMessages('s1', [
+            agent('m2', [{ type: 'tool-result', tool_use_id: 't1', content: 'ok', is_error: false, uuid: 'u2', parentUUID: null }], after),
+        ]);
+        const [auth, other] = reviewComments.get('s1').reviews[0]!.comments;
+        expect(auth!.resolvedAt).toBeDefined();
+        expect(other!.resolvedAt).toBeUndefined();
+    });
+
+    it('ignores failed edits and edits from before the review', async () => {
+        const review = submit();
+        files.set('/repo/src/auth.ts', '');
+
+        await reviewComments.handleMessages('s1', [
+            agent('m1', [{ type: 'tool-call', id: 't1', name: 'Edit', input: { file_path: '/repo/src/auth.ts' }, description: null, uuid: 'u1', parentUUID: null }], review.submittedAt + 1),
+            agent('m2', [{ type: 'tool-result', tool_use_id: 't1', content: 'failed', is_error: true, uuid: 'u2', parentUUID: null }], review.submittedAt + 1),
+            agent('m3', [{ type: 'tool-call', id: 't2', name: 'Edit', input: { file_path: '/repo/src/auth.ts' }, description: null, uuid: 'u3', parentUUID: null }], review.submittedAt - 1),
+            agent('m4', [{ type: 'tool-result', tool_use_id: 't2', content: 'ok', is_error: false, uuid: 'u4', parentUUID: null }], review.submittedAt - 1),
+        ]);
+        expect(reviewComments.get('s1').reviews[0]!.comments.every((c) => !c.resolvedAt)).toBe(true);
+    });
+});
+
+describe('ReviewComments storage', () => {
+    it('stores drafts sealed and reopens them with the same key only', () => {
+        records.clear();
+        const { id: _id, createdAt: _createdAt, ...draft } = comment();
+        const reviews = new ReviewComments();
+        reviews.addDraft('s1', draft);
+        expect(records.size).toBe(0);
+
+        reviews.open(new Uint8Array(32).fill(1));
+        reviews.addDraft('s1', draft);
+        expect(records.get('s1')).not.toContain('token');
+
+        const reopened = new ReviewComments();
+        reopened.open(new Uint8Array(32).fill(1));
+        expect(reopened.get('s1').drafts.map((c) => c.code)).toEqual(['const token = null;']);
+
+        const other = new ReviewComments();
+        other.open(new Uint8Array(32).fill(2));
+        expect(other.get('s1').drafts).toEqual([]);
+        expect(records.size).toBe(0);
+    });
+});
@@ -0,0 +1,270 @@
+/**
+ * Inline review comments
+ *
+ * Comments are written on lines of the session's git diff, collected as
+ * drafts and submitted together as one user message. The submitted review
+ * keeps the message's local id, and a comment is resolved once the agent
+ * edits its file and the quoted lines are gone. Comments quote decrypted
+ * code, so they are stored sealed with the offline cache key.
+ */
+
+import { randomUUID } from 'expo-crypto';
+import { NormalizedMessage } from './typesRaw';
+import { collectToolInputFiles } from './toolInputFiles';
+import { sessionReadFile } from './ops';
+import { deleteSessionReviewRecord, loadSessionReviewRecords, saveSessionReviewRecord } from './persistence';
+import { decodeBase64, encodeBase64 } from '@/encryption/base64';
+import { decryptSecretBox, encryptSecretBox } from '@/encryption/libsodium';
+import { decodeUTF8 } from '@/encryption/text';
+
+export type ReviewComment = {
+    id: string;
+    path: string; // As shown in the diff, relative to the repository root
+    absolutePath: string | null;
+    side: 'new' | 'old'; // Which numbering the lines use, old for removed lines
+    startLine: number;
+    endLine: number;
+    code: string;
+    body: string;
+    createdAt: number;
+    resolvedAt?: number;
+};
+
+export type SubmittedReview = {
+    id: string; // Local id of the message that carried the review
+    submittedAt: number;
+    comments: ReviewComment[];
+};
+
+export type SessionReviews = {
+    drafts: ReviewComment[];
+    reviews: SubmittedReview[];
+};
+
+const EMPTY: SessionReviews = { drafts: [], reviews: [] };
+
+function fence(code: string): string {
+    let ticks = '```';
+    while (code.includes(ticks)) {
+        ticks += '`';
+    }
+    return ticks;
+}
+
+/**
+ * Turn review comments into the prompt sent to the agent
+ */
+export function buildReviewPrompt(comments: ReviewComment[]): string {
+    const parts = ['Please address these review comments on your changes. Each one quotes the lines it refers to.'];
+    comments.forEach((comment, index) => {
+        const lines = comment.startLine === comment.endLine
+            ? `line ${comment.startLine}`
+            : `lines ${comment.startLine}-${comment.endLine}`;
+        const where = comment.side === 'old' ? `removed ${lines}` : lines;
+        const ticks = fence(comment.code);
+        parts.push(`${index + 1}. ${comment.path} (${where})\n${ticks}\n${comment.code}\n${ticks}\n${comment.body.trim()}`);
+    });
+    return parts.join('\n\n');
+}
+
+function normalizeCode(text: string): string {
+    return text.split('\n').map((line) => line.trimEnd()).join('\n').trim();
+}
+
+/**
+ * Whether an edit to the comment's file addressed it. Removed lines can't be
+ * looked up in the new file, so any edit counts for them
+ */
+export function isCommentResolved(comment: ReviewComment, content: string | null): boolean {
+    if (content === null || comment.side === 'old') {
+        return true;
+    }
+    const code = normalizeCode(comment.code);
+    return !code || !normalizeCode(content).includes(code);
+}
+
+function matchesPath(comment: ReviewComment, path: string): boolean {
+    return path === comment.absolutePath || path === comment.path || path.endsWith('/' + comment.path);
+}
+
+export class ReviewComments {
+    private key: Uint8Array | null = null;
+    private state: Record<string, SessionReviews> = {};
+    // Tool calls that touch a commented file, checked once their result arrives
+    private pendingCalls = new Map<string, string[]>();
+    private listeners = new Set<() => void>();
+
+    /**
+     * Load the sealed reviews, comments made before this are kept in memory only
+     * @param key - Derived from the account secret, see `Encryption.cacheKey`
+     */
+    open(key: Uint8Array) {
+        this.key = key;
+        this.state = {};
+        for (const [sessionId, sealed] of Object.entries(loadSessionReviewRecords())) {
+            let reviews: SessionReviews | null = null;
+            try {
+                reviews = decryptSecretBox(decodeBase64(sealed), key);
+            } catch (e) {
+                console.error('Failed to open session reviews', e);
+            }
+            if (reviews && Array.isArray(reviews.drafts) && Array.isArray(reviews.reviews)) {
+                this.state[sessionId] = reviews;
+            } else {
+                // Another account or a damaged record
+                deleteSessionReviewRecord(sessionId);
+            }
+        }
+        this.notify();
+    }
+
+    get(sessionId: string): SessionReviews {
+        return this.state[sessionId] ?? EMPTY;
+    }
+
+    addDraft(sessionId: string, comment: Omit<ReviewComment, 'id' | 'createdAt'>) {
+        const current = this.get(sessionId);
+        this.update(sessionId, {
+            ...current,
+            drafts: [...current.drafts, { ...comment, id: randomUUID(), createdAt: Date.now() }]
+        });
+    }
+
+    removeDraft(sessionId: string, commentId: string) {
+        const current = this.get(sessionId);
+        this.update(sessionId, { ...current, drafts: current.drafts.filter((c) => c.id !== commentId) });
+    }
+
+    discardDrafts(sessionId: string) {
+        this.update(sessionId, { ...this.get(sessionId), drafts: [] });
+    }
+
+    /**
+     * Move the drafts into a review linked to the message that was sent for them
+     */
+    markSubmitted(sessionId: string, messageLocalId: string) {
+        const current = this.get(sessionId);
+        if (current.drafts.length === 0) {
+            return;
+        }
+        this.update(sessionId, {
+            drafts: [],
+            reviews: [...current.reviews, { id: messageLocalId, submittedAt: Date.now(), comments: current.drafts }]
+        });
+    }
+
+    /**
+     * Watch agent edits for files with open comments and resolve the comments they address
+     */
+    async handleMessages(sessionId: string, messages: NormalizedMessage[]) {
+        const reviews = this.state[sessionId]?.reviews ?? [];
+        const open = reviews.flatMap((review) => review.comments
+            .filter((comment) => !comment.resolvedAt)
+            .map((comment) => ({ review, comment })));
+        if (open.length === 0) {
+            return;
+        }
+
+        const touched = new Set<string>();
+        for (const message of messages) {
+            if (message.role !== 'agent') {
+                continue;
+            }
+            for (const block of message.content) {
+                if (block.type === 'tool-call') {
+                    const files = new Set<string>();
+                    collectToolInputFiles(block.input, files);
+                    const relevant = Array.from(files).filter((file) => open.some(({ review, comment }) =>
+                        message.createdAt >= review.submittedAt && matchesPath(comment, file)));
+                    if (relevant.length > 0) {
+                        this.pendingCalls.set(block.id, relevant);
+                    }
+                } else if (block.type === 'tool-result') {
+                    const files = this.pendingCalls.get(block.tool_use_id);
+                    if (files) {
+                        this.pendingCalls.delete(block.tool_use_id);
+                        if (!block.is_error) {
+                            files.forEach((file) => touched.add(file));
+                        }
+                    }
+                }
+            }
+        }
+
+        for (const file of touched) {
+            const response = await sessionReadFile(sessionId, file);
+            const content = response.success && response.content !== undefined
+                ? decodeUTF8(decodeBase64(response.content))
+                : null;
+            const resolved = new Set(open
+                .filter(({ comment }) => matchesPath(comment, file) && isCommentResolved(comment, content))
+                .map(({ comment }) => comment.id));
+            if (resolved.size > 0) {
+                this.resolve(sessionId, resolved);
+            }
+        }
+    }
+
+    removeSession(sessionId: string) {
+        if (!this.state[sessionId]) {
+            return;
+        }
+        delete this.state[sessionId];
+        this.persist(sessionId);
+        this.notify();
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private resolve(sessionId: string, commentIds: Set<string>) {
+        const now = Date.now();
+        const current = this.get(sessionId);
+        this.update(sessionId, {
+            ...current,
+            reviews: current.reviews.map((review) => ({
+                ...review,
+                comments: review.comments.map((comment) =>
+                    commentIds.has(comment.id) && !comment.resolvedAt ? { ...comment, resolvedAt: now } : comment)
+            }))
+        });
+    }
+
+    private update(sessionId: string, value: SessionReviews) {
+        if (value.drafts.length === 0 && value.reviews.length === 0) {
+            delete this.state[sessionId];
+        } else {
+            this.state[sessionId] = value;
+        }
+        this.persist(sessionId);
+        this.notify();
+    }
+
+    private persist(sessionId: string) {
+        if (!this.key) {
+            return;
+        }
+        const value = this.state[sessionId];
+        try {
+            if (value) {
+                saveSessionReviewRecord(sessionId, encodeBase64(encryptSecretBox(value, this.key)));
+            } else {
+                deleteSessionReviewRecord(sessionId);
+            }
+        } catch (e) {
+            console.error('Failed to save session reviews', e);
+        }
+    }
+
+    private notify() {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
+
+export const reviewComments = new ReviewComments();
@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from 'vitest';
+import { extractSearchDocument, MAX_SEARCH_INDEX_BYTES, SearchIndex, searchSessions, SessionSearchIndex } from './searchIndex';
+import { NormalizedMessage } from './typesRaw';
+
+const records = new Map<string, string>();
+const quota = { bytes: Infinity };
+
+function storedBytes() {
+    let total = 0;
+    for (const value of records.values()) {
+        total += value.length;
+    }
+    return total;
+}
+
+vi.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+
+vi.mock('./persistence', () => ({
+    loadSearchIndexRecords: () => Object.fromEntries(records),
+    saveSearchIndexRecord: (sessionId: string, sealed: string) => {
+        if (storedBytes() - (records.get(sessionId)?.length ?? 0) + sealed.length > quota.bytes) {
+            throw new Error('QuotaExceededError');
+        }
+        records.set(sessionId, sealed);
+    },
+    deleteSearchIndexRecord: (sessionId: string) => { records.delete(sessionId); },
+}));
+
+vi.mock('@/encryption/libsodium', () => import('./__testdata__/secretBox'));
+
+function user(id: string, text: string, createdAt = 1): NormalizedMessage {
+    return { id, localId: null, createdAt, isSidechain: false, role: 'user', content: { type: 'text', text } };
+}
+
+function agent(id: string, content: any[], createdAt = 1): NormalizedMessage {
+    return { id, localId: null, createdAt, isSidechain: false, role: 'agent', content };
+}
+
+describe('extractSearchDocument', () => {
+    it('indexes user and assistant text', () => {
+        expect(extractSearchDocument(user('m1', 'Fix the login flow'))).toMatchObject({ id: 'm1', role: 'user', text: 'Fix the login flow' });
+        const doc = extractSearchDocument(agent('m2', [
+            { type: 'thinking', thinking: 'secret plan', uuid: 'u1', parentUUID: null },
+            { type: 'text', text: 'Looking at auth.ts', uuid: 'u2', parentUUID: null },
+        ]));
+        expect(doc).toMatchObject({ role: 'assistant', text: 'Looking at auth.ts' });
+    });
+
+    it('indexes tool names and the files they touched', () => {
+        const doc = extractSearchDocument(agent('m3', [
+            { type: 'tool-call', id: 't1', name: 'Edit', input: { file_path: '/src/auth.ts' }, description: null, uuid: 'u3', parentUUID: null },
+            { type: 'tool-call', id: 't2', name: 'CodexPatch', input: { changes: { '/src/login.tsx': {} } }, description: null, uuid: 'u4', parentUUID: null },
+        ]));
+        expect(doc).toEqual({ id: 'm3', createdAt: 1, role: 'tool', text: 'Edit, CodexPatch', files: ['/src/auth.ts', '/src/login.tsx'] });
+    });
+
+    it('skips sidechains and events', () => {
+        expect(extractSearchDocument({ ...user('m4', 'hidden'), isSidechain: true })).toBeNull();
+        expect(extractSearchDocument({ id: 'm5', localId: null, createdAt: 1, isSidechain: false, role: 'event', content: { type: 'ready' } } as NormalizedMessage)).toBeNull();
+    });
+});
+
+describe('searchSessions', () => {
+    const sessions: Record<string, SessionSearchIndex> = {
+        s1: {
+            indexedThroughSeq: 0,
+            docs: [
+                { id: 'a', createdAt: 1, role: 'user', text: 'Fix the login flow on mobile', files: [] },
+                { id: 'b', createdAt: 3, role: 'tool', text: 'Edit', files: ['/src/Login.tsx'] },
+            ],
+        },
+        s2: {
+            indexedThroughSeq: 0,
+            docs: [{ id: 'c', createdAt: 2, role: 'assistant', text: 'The login button now works', files: [] }],
+        },
+    };
+
+    it('matches every term case-insensitively, newest first', () => {
+        expect(searchSessions(sessions, 'LOGIN', 10).map((hit) => hit.doc.id)).toEqual(['b', 'c', 'a']);
+        expect(searchSessions(sessions, 'login mobile', 10).map((hit) => [hit.sessionId, hit.doc.id])).toEqual([['s1', 'a']]);
+        expect(searchSessions(sessions, '   ', 10)).toEqual([]);
+    });
+
+    it('builds snippets around the match and falls back to the file', () => {
+        const [hit] = searchSessions(sessions, 'button', 1);
+        expect(hit.snippet).toBe('The login button now works');
+        const [fileHit] = searchSessions(sessions, 'login.tsx', 1);
+        expect(fileHit.snippet).toBe('Edit · /src/Login.tsx');
+    });
+
+    it('respects the limit', () => {
+        expect(searchSessions(sessions, 'login', 2)).toHaveLength(2);
+    });
+});
+
+describe('SearchIndex', () => {
+    it('indexes nothing until opened with a key', () => {
+        records.clear();
+        const index = new SearchIndex();
+        index.addMessages('s1', [user('m1', 'Fix the login flow')]);
+        index.flush();
+        expect(index.search('login')).toEqual([]);
+        expect(records.size).toBe(0);
+    });
+
+    it('stores sealed records and reopens them with the same key only', () => {
+        records.clear();
+        const index = new SearchIndex();
+        index.open(new Uint8Array(32).fill(1));
+        index.addMessages('s1', [user('m1', 'Fix the login flow')]);
+        index.flush();
+        expect(records.get('s1')).not.toContain('login');
+
+        const reopened = new SearchIndex();
+        reopened.open(new Uint8Array(32).fill(1));
+        expect(reopened.search('login').map((hit) => hit.doc.id)).toEqual(['m1']);
+
+        const other = new SearchIndex();
+        other.open(new Uint8Array(32).fill(2));
+        expect(other.search('login')).toEqual([]);
+        expect(records.size).toBe(0);
+    });
+
+    it('keeps the in-memory index when storage rejects the write and saves it on the next flush', () => {
+        records.clear();
+        const index = new SearchIndex();
+        index.open(new Uint8Array(32).fill(1));
+        index.addMessages('s1', [user('m1', 'Fix the login flow')]);
+        quota.bytes = 0;
+        try {
+            expect(() => index.flush()).not.toThrow();
+        } finally {
+            quota.bytes = Infinity;
+        }
+        expect(index.search('login')).toHaveLength(1);
+        expect(records.has('s1')).toBe(false);
+
+        index.flush();
+        expect(records.has('s1')).toBe(true);
+    });
+
+    it('drops the sessions with the oldest activity when storage is full', () => {
+        records.clear();
+        const index = new SearchIndex();
+        index.open(new Uint8Array(32).fill(1));
+        index.addMessages('s1', [user('m1', 'Fix the login flow', 1)]);
+        index.addMessages('s2', [user('m2', 'Fix the logout flow', 2)]);
+        index.flush();
+        quota.bytes = storedBytes();
+        try {
+            index.addMessages('s3', [user('m3', 'Fix the email flow', 3)]);
+            index.flush();
+        } finally {
+            quota.bytes = Infinity;
+        }
+        expect(Array.from(records.keys()).sort()).toEqual(['s2', 's3']);
+        expect(index.search('flow').map((hit) => hit.doc.id)).toEqual(['m3', 'm2']);
+    });
+
+    it('drops the sessions with the oldest activity past the size cap', () => {
+        records.clear();
+        const index = new SearchIndex();
+        index.open(new Uint8Array(32).fill(1));
+        const text = 'x'.repeat(3000);
+        const perSession = 200;
+        const sessions = Math.ceil(MAX_SEARCH_INDEX_BYTES / (perSession * 3000)) + 2;
+        for (let s = 0; s < sessions; s++) {
+            index.addMessages(`s${s}`, Array.from({ length: perSession }, (_, m) => user(`s${s}-m${m}`, text, s + 1)));
+        }
+        index.flush();
+        expect(index.getStats().sessions).toBeLessThan(sessions);
+        expect(records.has('s0')).toBe(false);
+        expect(records.has(`s${sessions - 1}`)).toBe(true);
+    });
+});
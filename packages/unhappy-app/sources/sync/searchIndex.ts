@@ -0,0 +1,342 @@
+/**
+ * Local full-text search
+ *
+ * Messages are end-to-end encrypted, so the server can't search them. The
+ * app indexes what it decrypts: user text, assistant text, tool names and
+ * the file paths tools touched. The index is persisted per session, sealed
+ * with the same key as the offline cache, and is filled by regular syncing
+ * and by an explicit backfill that walks each session forward from
+ * `indexedThroughSeq`. Sessions with the oldest activity are dropped once it
+ * grows past its size cap.
+ */
+
+import { Platform } from 'react-native';
+import { decodeBase64, encodeBase64 } from '@/encryption/base64';
+import { decryptSecretBox, encryptSecretBox } from '@/encryption/libsodium';
+import { NormalizedMessage } from './typesRaw';
+import { collectToolInputFiles } from './toolInputFiles';
+import { CacheEntry, pickEvictions } from './cacheEviction';
+import { deleteSearchIndexRecord, loadSearchIndexRecords, saveSearchIndexRecord } from './persistence';
+
+export type SearchDocument = {
+    id: string; // Server message id
+    createdAt: number;
+    role: 'user' | 'assistant' | 'tool';
+    text: string;
+    files: string[];
+};
+
+export type SessionSearchIndex = {
+    indexedThroughSeq: number;
+    docs: SearchDocument[];
+};
+
+export type SearchHit = {
+    sessionId: string;
+    doc: SearchDocument;
+    snippet: string;
+};
+
+const MAX_TEXT_LENGTH = 4000;
+/** Shares the main MMKV instance, which is localStorage on web */
+export const MAX_SEARCH_INDEX_BYTES = Platform.OS === 'web' ? 1024 * 1024 : 16 * 1024 * 1024;
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Turn a normalized message into a search document, null if there is nothing to search
+ */
+export function extractSearchDocument(message: NormalizedMessage): SearchDocument | null {
+    if (message.isSidechain) {
+        return null;
+    }
+    if (message.role === 'user') {
+        return {
+            id: message.id,
+            createdAt: message.createdAt,
+            role: 'user',
+            text: message.content.text.slice(0, MAX_TEXT_LENGTH),
+            files: []
+        };
+    }
+    if (message.role !== 'agent') {
+        return null;
+    }
+
+    const texts: string[] = [];
+    const tools: string[] = [];
+    const files = new Set<string>();
+    for (const content of message.content) {
+        if (content.type === 'text') {
+            texts.push(content.text);
+        } else if (content.type === 'tool-call') {
+            tools.push(content.name);
+            collectToolInputFiles(content.input, files);
+        }
+    }
+    if (texts.length > 0) {
+        return {
+            id: message.id,
+            createdAt: message.createdAt,
+            role: 'assistant',
+            text: texts.join('\n').slice(0, MAX_TEXT_LENGTH),
+            files: Array.from(files)
+        };
+    }
+    if (tools.length > 0) {
+        return {
+            id: message.id,
+            createdAt: message.createdAt,
+            role: 'tool',
+            text: tools.join(', '),
+            files: Array.from(files)
+        };
+    }
+    return null;
+}
+
+function tokenize(query: string): string[] {
+    return query.toLowerCase().split(/\s+/).filter((term) => term.length > 0);
+}
+
+function makeSnippet(doc: SearchDocument, term: string): string {
+    const index = doc.text.toLowerCase().indexOf(term);
+    if (index < 0) {
+        const file = doc.files.find((f) => f.toLowerCase().includes(term));
+        return file ? `${doc.text} · ${file}` : doc.text.slice(0, SNIPPET_RADIUS * 2);
+    }
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(doc.text.length, index + term.length + SNIPPET_RADIUS);
+    return (start > 0 ? '…' : '') + doc.text.slice(start, end).replace(/\s+/g, ' ') + (end < doc.text.length ? '…' : '');
+}
+
+/**
+ * Find documents containing every term of the query, newest first
+ */
+export function searchSessions(sessions: Record<string, SessionSearchIndex>, query: string, limit: number): SearchHit[] {
+    const terms = tokenize(query);
+    if (terms.length === 0) {
+        return [];
+    }
+    const hits: SearchHit[] = [];
+    for (const [sessionId, index] of Object.entries(sessions)) {
+        for (const doc of index.docs) {
+            const haystack = (doc.text + '\n' + doc.files.join('\n')).toLowerCase();
+            if (terms.every((term) => haystack.includes(term))) {
+                hits.push({ sessionId, doc, snippet: '' });
+            }
+        }
+    }
+    hits.sort((a, b) => b.doc.createdAt - a.doc.createdAt);
+    return hits.slice(0, limit).map((hit) => ({ ...hit, snippet: makeSnippet(hit.doc, terms[0]) }));
+}
+
+export class SearchIndex {
+    private key: Uint8Array | null = null;
+    private sessions: Record<string, SessionSearchIndex> = {};
+    private bytes: Record<string, number> = {};
+    private ids = new Map<string, Set<string>>();
+    private dirty = new Set<string>();
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private listeners = new Set<() => void>();
+
+    /**
+     * Load the sealed index, nothing is indexed or stored before this
+     * @param key - Derived from the account secret, see `Encryption.cacheKey`
+     */
+    open(key: Uint8Array) {
+        this.key = key;
+        this.sessions = {};
+        this.bytes = {};
+        this.ids.clear();
+        this.dirty.clear();
+        for (const [sessionId, sealed] of Object.entries(loadSearchIndexRecords())) {
+            const index = this.unseal(sealed);
+            if (!index) {
+                // Another account or a damaged record, it is rebuilt by syncing
+                deleteSearchIndexRecord(sessionId);
+                continue;
+            }
+            this.sessions[sessionId] = index;
+            this.bytes[sessionId] = sealed.length;
+            this.ids.set(sessionId, new Set(index.docs.map((doc) => doc.id)));
+        }
+        this.notify();
+    }
+
+    addMessages(sessionId: string, messages: NormalizedMessage[]) {
+        if (!this.key) {
+            return;
+        }
+        const docs = messages.map(extractSearchDocument).filter((doc): doc is SearchDocument => doc !== null);
+        if (docs.length === 0) {
+            return;
+        }
+        const index = this.sessions[sessionId] ?? (this.sessions[sessionId] = { indexedThroughSeq: 0, docs: [] });
+        let ids = this.ids.get(sessionId);
+        if (!ids) {
+            ids = new Set();
+            this.ids.set(sessionId, ids);
+        }
+        let added = false;
+        for (const doc of docs) {
+            if (!ids.has(doc.id)) {
+                ids.add(doc.id);
+                index.docs.push(doc);
+                added = true;
+            }
+        }
+        if (added) {
+            this.markDirty(sessionId);
+        }
+    }
+
+    /**
+     * Seq up to which the session has been walked by the backfill
+     */
+    getIndexedThroughSeq(sessionId: string): number {
+        return this.sessions[sessionId]?.indexedThroughSeq ?? 0;
+    }
+
+    setIndexedThroughSeq(sessionId: string, seq: number) {
+        if (!this.key) {
+            return;
+        }
+        const index = this.sessions[sessionId] ?? (this.sessions[sessionId] = { indexedThroughSeq: 0, docs: [] });
+        if (seq > index.indexedThroughSeq) {
+            index.indexedThroughSeq = seq;
+            this.markDirty(sessionId);
+        }
+    }
+
+    removeSession(sessionId: string) {
+        if (!this.sessions[sessionId]) {
+            return;
+        }
+        this.drop(sessionId);
+        this.notify();
+    }
+
+    search(query: string, limit: number = 50): SearchHit[] {
+        return searchSessions(this.sessions, query, limit);
+    }
+
+    getStats(): { sessions: number; messages: number } {
+        const indexes = Object.values(this.sessions);
+        return { sessions: indexes.length, messages: indexes.reduce((sum, index) => sum + index.docs.length, 0) };
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    flush() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        const key = this.key;
+        if (!key) {
+            return;
+        }
+        const sessionsBefore = Object.keys(this.sessions).length;
+        for (const sessionId of Array.from(this.dirty)) {
+            const index = this.sessions[sessionId];
+            if (!index) {
+                this.dirty.delete(sessionId);
+                continue;
+            }
+            const sealed = encodeBase64(encryptSecretBox(index, key));
+            // Stays dirty when it didn't fit, the next flush tries again
+            if (this.write(sessionId, sealed)) {
+                this.bytes[sessionId] = sealed.length;
+                this.dirty.delete(sessionId);
+            }
+        }
+        const evicted = pickEvictions(this.entries(), MAX_SEARCH_INDEX_BYTES);
+        for (const sessionId of evicted) {
+            this.drop(sessionId);
+        }
+        if (Object.keys(this.sessions).length !== sessionsBefore) {
+            this.notify();
+        }
+    }
+
+    /**
+     * Store a sealed session index. When storage is full the other sessions
+     * are dropped, oldest activity first, until it fits.
+     */
+    private write(sessionId: string, sealed: string): boolean {
+        while (true) {
+            try {
+                saveSearchIndexRecord(sessionId, sealed);
+                return true;
+            } catch (e) {
+                const [oldest] = Object.entries(this.entries())
+                    .filter(([id]) => id !== sessionId)
+                    .sort((a, b) => a[1].usedAt - b[1].usedAt);
+                if (!oldest) {
+                    // Keep what is in memory, search still works until the app restarts
+                    console.error('Failed to save search index', e);
+                    return false;
+                }
+                this.drop(oldest[0]);
+            }
+        }
+    }
+
+    /**
+     * Stored sessions with their size and newest indexed message
+     */
+    private entries(): Record<string, CacheEntry> {
+        const entries: Record<string, CacheEntry> = {};
+        for (const [sessionId, bytes] of Object.entries(this.bytes)) {
+            const docs = this.sessions[sessionId]?.docs ?? [];
+            entries[sessionId] = { bytes, usedAt: docs.reduce((newest, doc) => Math.max(newest, doc.createdAt), 0) };
+        }
+        return entries;
+    }
+
+    private drop(sessionId: string) {
+        delete this.sessions[sessionId];
+        delete this.bytes[sessionId];
+        this.ids.delete(sessionId);
+        this.dirty.delete(sessionId);
+        try {
+            deleteSearchIndexRecord(sessionId);
+        } catch (e) {
+            console.error('Failed to delete search index record', e);
+        }
+    }
+
+    private unseal(sealed: string): SessionSearchIndex | null {
+        try {
+            const index = decryptSecretBox(decodeBase64(sealed), this.key!);
+            if (index && typeof index.indexedThroughSeq === 'number' && Array.isArray(index.docs)) {
+                return index;
+            }
+        } catch (e) {
+            console.error('Failed to open search index record', e);
+        }
+        return null;
+    }
+
+    private markDirty(sessionId: string) {
+        this.dirty.add(sessionId);
+        // Batch writes, messages arrive in bursts while a session streams
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), 2000);
+        }
+        this.notify();
+    }
+
+    private notify() {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
+
+export const searchIndex = new SearchIndex();
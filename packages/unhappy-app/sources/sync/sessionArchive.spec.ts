@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildSessionArchive, parseSessionArchive, sessionArchiveFileName } from './sessionArchive';
+
+const session = {
+    id: 'session-1',
+    createdAt: Date.UTC(2025, 0, 1),
+    updatedAt: Date.UTC(2025, 0, 2),
+    metadata: { path: '/home/me/project', host: 'laptop', flavor: 'claude', summary: { text: 'Fix the build', updatedAt: 0 } },
+    agentState: null
+};
+
+const messages = [
+    {
+        id: 'm2', seq: 2, localId: null, createdAt: 2,
+        content: {
+            role: 'agent',
+            content: {
+                type: 'output',
+                data: {
+                    type: 'assistant',
+                    message: {
+                        role: 'assistant',
+                        model: 'claude',
+                        content: [
+                            { type: 'text', text: 'Looking at the config.' },
+                            { type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'tsconfig.json' } }
+                        ]
+                    }
+                }
+            }
+        }
+    },
+    { id: 'm1', seq: 1, localId: 'l1', createdAt: 1, content: { role: 'user', content: { type: 'text', text: 'Why does the build fail?' } } },
+    { id: 'm3', seq: 3, localId: null, createdAt: 3, content: { role: 'agent', content: { type: 'codex', data: { type: 'message', message: 'Fixed.' } } } }
+];
+
+describe('sessionArchive', () => {
+    it('renders markdown in seq order and groups by role', () => {
+        const archive = buildSessionArchive({ session, messages, artifacts: [], exportedAt: Date.UTC(2025, 0, 3) });
+        expect(archive.messages.map((m) => m.id)).toEqual(['m1', 'm2', 'm3']);
+        expect(archive.renderings.markdown).toBe([
+            '# Fix the build',
+            '',
+            '- Path: `/home/me/project`',
+            '- Host: laptop',
+            '- Agent: claude',
+            '- Created: 2025-01-01T00:00:00.000Z',
+            '- Exported: 2025-01-03T00:00:00.000Z',
+            '',
+            '## User',
+            '',
+            'Why does the build fail?',
+            '',
+            '## Assistant',
+            '',
+            'Looking at the config.',
+            '',
+            '> Tool: Read',
+            '',
+            'Fixed.',
+            ''
+        ].join('\n'));
+    });
+
+    it('renders one message per JSONL line', () => {
+        const archive = buildSessionArchive({ session, messages, artifacts: [] });
+        const lines = archive.renderings.jsonl.trim().split('\n').map((line) => JSON.parse(line));
+        expect(lines.map((line) => line.seq)).toEqual([1, 2, 3]);
+        expect(lines[0].content.content.text).toBe('Why does the build fail?');
+    });
+
+    it('round trips through parse and rejects other files', () => {
+        const archive = buildSessionArchive({ session, messages, artifacts: [{ id: 'a1', title: 'Plan', body: 'Steps', createdAt: 1, updatedAt: 2 }] });
+        expect(parseSessionArchive(JSON.stringify(archive))).toEqual(archive);
+        expect(parseSessionArchive('{"format":"something-else"}')).toBeNull();
+        expect(parseSessionArchive('not json')).toBeNull();
+    });
+
+    it('names files after the session', () => {
+        const archive = buildSessionArchive({ session, messages: [], artifacts: [], exportedAt: Date.UTC(2025, 0, 3) });
+        expect(sessionArchiveFileName(archive)).toBe('fix-the-build-2025-01-03.unhappy.json');
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * Session archive format
+ *
+ * A single JSON document holding everything needed to recreate a session in
+ * another account or on another server: decrypted metadata, agent state,
+ * raw message records and linked artifacts. Markdown and JSONL renderings are
+ * included for humans and tools. The CLI writes the same format, see
+ * unhappy-cli/src/modules/sessionArchive.
+ */
+
+import { z } from 'zod';
+
+export const SESSION_ARCHIVE_FORMAT = 'unhappy-session-archive';
+export const SESSION_ARCHIVE_VERSION = 1;
+
+const ArchiveMessageSchema = z.object({
+    id: z.string(),
+    seq: z.number(),
+    localId: z.string().nullable(),
+    createdAt: z.number(),
+    content: z.any(),
+});
+
+const ArchiveArtifactSchema = z.object({
+    id: z.string(),
+    title: z.string().nullable(),
+    body: z.string().nullable(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+});
+
+export const SessionArchiveSchema = z.object({
+    format: z.literal(SESSION_ARCHIVE_FORMAT),
+    version: z.literal(SESSION_ARCHIVE_VERSION),
+    exportedAt: z.number(),
+    session: z.object({
+        id: z.string(),
+        createdAt: z.number(),
+        updatedAt: z.number(),
+        metadata: z.any().nullable(),
+        agentState: z.any().nullable(),
+    }),
+    messages: z.array(ArchiveMessageSchema),
+    artifacts: z.array(ArchiveArtifactSchema),
+    renderings: z.object({
+        markdown: z.string(),
+        jsonl: z.string(),
+    }),
+});
+
+export type SessionArchive = z.infer<typeof SessionArchiveSchema>;
+export type SessionArchiveMessage = z.infer<typeof ArchiveMessageSchema>;
+export type SessionArchiveArtifact = z.infer<typeof ArchiveArtifactSchema>;
+
+type ArchiveBlock = { role: 'user' | 'assistant' | 'note'; text: string };
+
+function renderRecord(content: any): ArchiveBlock[] {
+    if (!content || typeof content !== 'object') {
+        return [];
+    }
+    if (content.role === 'user') {
+        return content.content?.type === 'text' ? [{ role: 'user', text: content.content.text }] : [];
+    }
+    if (content.role !== 'agent') {
+        return [];
+    }
+    const record = content.content;
+    if (record?.type === 'output') {
+        const data = record.data;
+        if (data?.type === 'summary') {
+            return [{ role: 'note', text: `Summary: ${data.summary}` }];
+        }
+        if (data?.type !== 'assistant' || !Array.isArray(data.message?.content)) {
+            return [];
+        }
+        const blocks: ArchiveBlock[] = [];
+        for (const block of data.message.content) {
+            if (block?.type === 'text' && block.text) {
+                blocks.push({ role: 'assistant', text: block.text });
+            } else if (block?.type === 'tool_use' || block?.type === 'tool-call') {
+                blocks.push({ role: 'note', text: `Tool: ${block.name}` });
+            }
+        }
+        return blocks;
+    }
+    if (record?.type === 'codex' || record?.type === 'acp') {
+        const data = record.data;
+        if (data?.type === 'message') {
+            return [{ role: 'assistant', text: data.message }];
+        }
+        if (data?.type === 'tool-call') {
+            return [{ role: 'note', text: `Tool: ${data.name}` }];
+        }
+    }
+    return [];
+}
+
+function archiveTitle(metadata: any, sessionId: string): string {
+    if (metadata?.summary?.text) {
+        return metadata.summary.text;
+    }
+    if (metadata?.name) {
+        return metadata.name;
+    }
+    if (metadata?.path) {
+        return String(metadata.path).split('/').filter(Boolean).pop() ?? sessionId;
+    }
+    return sessionId;
+}
+
+/**
+ * Render a transcript of the conversation, tool calls are listed by name only
+ */
+export function renderSessionMarkdown(
+    session: SessionArchive['session'],
+    messages: SessionArchiveMessage[],
+    exportedAt: number
+): string {
+    const lines: string[] = [`# ${archiveTitle(session.metadata, session.id)}`, ''];
+    if (session.metadata?.path) {
+        lines.push(`- Path: \`${session.metadata.path}\``);
+    }
+    if (session.metadata?.host) {
+        lines.push(`- Host: ${session.metadata.host}`);
+    }
+    if (session.metadata?.flavor) {
+        lines.push(`- Agent: ${session.metadata.flavor}`);
+    }
+    lines.push(`- Created: ${new Date(session.createdAt).toISOString()}`);
+    lines.push(`- Exported: ${new Date(exportedAt).toISOString()}`);
+
+    let lastRole: ArchiveBlock['role'] | null = null;
+    for (const message of messages) {
+        for (const block of renderRecord(message.content)) {
+            if (block.role === 'note') {
+                lines.push('', `> ${block.text}`);
+                continue;
+            }
+            if (block.role !== lastRole) {
+                lines.push('', block.role === 'user' ? '## User' : '## Assistant');
+                lastRole = block.role;
+            }
+            lines.push('', block.text);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * One raw message record per line
+ */
+export function renderSessionJsonl(messages: SessionArchiveMessage[]): string {
+    return messages.map((message) => JSON.stringify(message)).join('\n') + (messages.length > 0 ? '\n' : '');
+}
+
+export function buildSessionArchive(opts: {
+    session: SessionArchive['session'];
+    messages: SessionArchiveMessage[];
+    artifacts: SessionArchiveArtifact[];
+    exportedAt?: number;
+}): SessionArchive {
+    const exportedAt = opts.exportedAt ?? Date.now();
+    const messages = [...opts.messages].sort((a, b) => a.seq - b.seq);
+    return {
+        format: SESSION_ARCHIVE_FORMAT,
+        version: SESSION_ARCHIVE_VERSION,
+        exportedAt,
+        session: opts.session,
+        messages,
+        artifacts: opts.artifacts,
+        renderings: {
+            markdown: renderSessionMarkdown(opts.session, messages, exportedAt),
+            jsonl: renderSessionJsonl(messages),
+        },
+    };
+}
+
+/**
+ * Parse an archive file, null if it is not a supported archive
+ */
+export function parseSessionArchive(text: string): SessionArchive | null {
+    try {
+        const parsed = SessionArchiveSchema.safeParse(JSON.parse(text));
+        return parsed.success ? parsed.data : null;
+    } catch {
+        return null;
+    }
+}
+
+export function sessionArchiveFileName(archive: SessionArchive): string {
+    const title = archiveTitle(archive.session.metadata, archive.session.id)
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 48);
+    const date = new Date(archive.exportedAt).toISOString().slice(0, 10);
+    return `${title || 'session'}-${date}.unhappy.json`;
+}
@@ -125,6 +125,8 @@ describe('settings', () => {
                 favoriteDirectories: [],
                 favoriteMachines: [],
                 dismissedCLIWarnings: { perMachine: {}, global: {} },
+                permissionRules: [],
+                sessionBudget: null,
             };
             const delta: Partial<Settings> = {
                 viewInline: true
@@ -161,6 +163,8 @@ describe('settings', () => {
                 favoriteDirectories: [],
                 favoriteMachines: [],
                 dismissedCLIWarnings: { perMachine: {}, global: {} },
+                permissionRules: [],
+                sessionBudget: null,
             });
         });
 
@@ -197,6 +201,8 @@ describe('settings', () => {
                 favoriteDirectories: [],
                 favoriteMachines: [],
                 dismissedCLIWarnings: { perMachine: {}, global: {} },
+                permissionRules: [],
+                sessionBudget: null,
             };
             const delta: Partial<Settings> = {};
             expect(applySettings(currentSettings, delta)).toEqual(currentSettings);
@@ -235,6 +241,8 @@ describe('settings', () => {
                 favoriteDirectories: [],
                 favoriteMachines: [],
                 dismissedCLIWarnings: { perMachine: {}, global: {} },
+                permissionRules: [],
+                sessionBudget: null,
             };
             const delta: Partial<Settings> = {
                 viewInline: false
@@ -278,6 +286,8 @@ describe('settings', () => {
                 favoriteDirectories: [],
                 favoriteMachines: [],
                 dismissedCLIWarnings: { perMachine: {}, global: {} },
+                permissionRules: [],
+                sessionBudget: null,
             };
             expect(applySettings(currentSettings, {})).toEqual(currentSettings);
         });
@@ -330,6 +340,8 @@ describe('settings', () => {
                 favoriteDirectories: [],
                 favoriteMachines: [],
                 dismissedCLIWarnings: { perMachine: {}, global: {} },
+                permissionRules: [],
+                sessionBudget: null,
             };
             const delta: any = {
                 viewInline: false,
@@ -393,6 +405,8 @@ describe('settings', () => {
                 favoriteDirectories: ['~/src', '~/Desktop', '~/Documents'],
                 favoriteMachines: [],
                 dismissedCLIWarnings: { perMachine: {}, global: {} },
+                permissionRules: [],
+                sessionBudget: null,
                 useEnhancedSessionWizard: false,
             });
         });
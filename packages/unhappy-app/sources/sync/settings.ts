@@ -1,4 +1,6 @@
 import * as z from 'zod';
+import { PermissionRuleSchema } from './permissionRules';
+import { BudgetSchema } from './budget';
 
 //
 // Configuration Profile Schema (for environment variable profiles)
@@ -122,6 +124,9 @@ export const AIBackendProfileSchema = z.object({
     // Default model mode for this profile
     defaultModelMode: z.string().optional(),
 
+    // Spending limit of sessions using this profile, overrides the account budget
+    budget: BudgetSchema.optional(),
+
     // Compatibility metadata
     compatibility: ProfileCompatibilitySchema.default({ claude: true, codex: true, gemini: true }),
 
@@ -308,6 +313,10 @@ export const SettingsSchema = z.object({
             gemini: z.boolean().optional(),
         }).default({}),
     }).default({ perMachine: {}, global: {} }).describe('Tracks which CLI installation warnings user has dismissed (per-machine or globally)'),
+    // Account-wide permission rules, sent to the agent with every message
+    permissionRules: z.array(PermissionRuleSchema).describe('Allow, deny and ask rules applied to tool calls in every session'),
+    // Account-wide session budget, profiles and sessions can set their own
+    sessionBudget: BudgetSchema.nullable().describe('Spending limit of each session unless its profile or the session sets one'),
 });
 
 //
@@ -365,6 +374,10 @@ export const settingsDefaults: Settings = {
     favoriteMachines: [],
     // Dismissed CLI warnings (empty by default)
     dismissedCLIWarnings: { perMachine: {}, global: {} },
+    // No account permission rules by default
+    permissionRules: [],
+    // No spending limit by default
+    sessionBudget: null,
 };
 Object.freeze(settingsDefaults);
 
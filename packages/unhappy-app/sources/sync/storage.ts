@@ -1,6 +1,7 @@
 import { create } from "zustand";
 import { useShallow } from 'zustand/react/shallow'
 import { Session, Machine, GitStatus, type ReasoningEffortMode } from "./storageTypes";
+import type { Budget } from "./budget";
 import { createReducer, reducer, ReducerState } from "./reducer/reducer";
 import { Message } from "./typesMessage";
 import { NormalizedMessage } from "./typesRaw";
@@ -30,6 +31,8 @@ import {
     saveSessionEffortModes,
     loadSessionProfileIds,
     saveSessionProfileIds,
+    loadSessionBudgets,
+    saveSessionBudgets,
 } from "./persistence";
 import type { PermissionMode } from '@/components/PermissionModeSelector';
 import type { CustomerInfo } from './revenueCat/types';
@@ -248,6 +251,8 @@ interface SessionMessages {
     messagesMap: Record<string, Message>;
     reducerState: ReducerState;
     isLoaded: boolean;
+    hasOlderMessages: boolean;  // Server reported more history before the oldest loaded message
+    isLoadingOlder: boolean;
 }
 
 // Machine type is now imported from storageTypes - represents persisted machine data
@@ -299,6 +304,7 @@ interface StorageState {
     applyReady: () => void;
     applyMessages: (sessionId: string, messages: NormalizedMessage[]) => { changed: string[], hasReadyEvent: boolean };
     applyMessagesLoaded: (sessionId: string) => void;
+    applyMessagesPagination: (sessionId: string, pagination: { hasOlderMessages?: boolean, isLoadingOlder?: boolean }) => void;
     applySettings: (settings: Settings, version: number) => void;
     applySettingsLocal: (settings: Partial<Settings>) => void;
     applyLocalSettings: (settings: Partial<LocalSettings>) => void;
@@ -318,6 +324,7 @@ interface StorageState {
     updateSessionModelMode: (sessionId: string, mode: string | null) => void;
     updateSessionEffortMode: (sessionId: string, mode: ReasoningEffortMode | null) => void;
     updateSessionProfileId: (sessionId: string, profileId: string | null) => void;
+    updateSessionBudget: (sessionId: string, budget: Budget | null) => void;
     markSessionRead: (sessionId: string) => void;
     // Artifact methods
     applyArtifacts: (artifacts: DecryptedArtifact[]) => void;
@@ -455,6 +462,7 @@ export const storage = create<StorageState>()((set, get) => {
     let sessionModelModes = loadSessionModelModes();
     let sessionEffortModes = loadSessionEffortModes();
     let sessionProfileIds = loadSessionProfileIds();
+    let sessionBudgets = loadSessionBudgets();
     return {
         settings,
         settingsVersion: version,
@@ -516,6 +524,7 @@ export const storage = create<StorageState>()((set, get) => {
             const savedModelModes = isInitialLoad ? sessionModelModes : {};
             const savedEffortModes = isInitialLoad ? sessionEffortModes : {};
             const savedProfileIds = isInitialLoad ? sessionProfileIds : {};
+            const savedBudgets = isInitialLoad ? sessionBudgets : {};
 
             // Merge new sessions with existing ones
             const mergedSessions: Record<string, Session> = { ...state.sessions };
@@ -541,6 +550,8 @@ export const storage = create<StorageState>()((set, get) => {
                 const savedEffortMode = savedEffortModes[session.id];
                 const existingProfileId = state.sessions[session.id]?.profileId;
                 const savedProfileId = savedProfileIds[session.id];
+                const existingBudget = state.sessions[session.id]?.budget;
+                const savedBudget = savedBudgets[session.id];
 
                 // Detect thinking -> not-thinking transition for unread marking
                 const previousSession = state.sessions[session.id];
@@ -558,6 +569,7 @@ export const storage = create<StorageState>()((set, get) => {
                     draft: existingDraft || savedDraft || normalizedSession.draft || null,
                     permissionMode: existingPermissionMode || savedPermissionMode || normalizedSession.permissionMode || 'default',
                     profileId: existingProfileId ?? savedProfileId ?? normalizedSession.profileId ?? null,
+                    budget: existingBudget ?? savedBudget ?? normalizedSession.budget ?? null,
                     modelMode: existingModelMode ?? savedModelMode ?? normalizedSession.modelMode ?? null,
                     effortMode: existingEffortMode ?? savedEffortMode ?? normalizedSession.effortMode ?? null,
                     unread,
@@ -664,10 +676,10 @@ export const storage = create<StorageState>()((set, get) => {
                         .sort((a, b) => b.createdAt - a.createdAt);
 
                     updatedSessionMessages[session.id] = {
+                        ...existingSessionMessages,
                         messages: messagesArray,
                         messagesMap: mergedMessagesMap,
                         reducerState: existingSessionMessages.reducerState, // The reducer modifies state in-place, so this has the updates
-                        isLoaded: existingSessionMessages.isLoaded
                     };
 
                     // IMPORTANT: Copy latestUsage from reducerState to Session for immediate availability
@@ -759,7 +771,9 @@ export const storage = create<StorageState>()((set, get) => {
                     messages: [],
                     messagesMap: {},
                     reducerState: createReducer(),
-                    isLoaded: false
+                    isLoaded: false,
+                    hasOlderMessages: false,
+                    isLoadingOlder: false
                 };
 
                 // Get the session's agentState if available
@@ -877,7 +891,9 @@ export const storage = create<StorageState>()((set, get) => {
                             reducerState,
                             messages,
                             messagesMap,
-                            isLoaded: true
+                            isLoaded: true,
+                            hasOlderMessages: false,
+                            isLoadingOlder: false
                         } satisfies SessionMessages
                     }
                 };
@@ -896,6 +912,22 @@ export const storage = create<StorageState>()((set, get) => {
 
             return result;
         }),
+        applyMessagesPagination: (sessionId: string, pagination: { hasOlderMessages?: boolean, isLoadingOlder?: boolean }) => set((state) => {
+            const existingSession = state.sessionMessages[sessionId];
+            if (!existingSession) {
+                return state;
+            }
+            return {
+                ...state,
+                sessionMessages: {
+                    ...state.sessionMessages,
+                    [sessionId]: {
+                        ...existingSession,
+                        ...pagination
+                    } satisfies SessionMessages
+                }
+            };
+        }),
         applySettingsLocal: (settings: Partial<Settings>) => set((state) => {
             saveSettings(applySettings(state.settings, settings), state.settingsVersion ?? 0);
             return {
@@ -1171,6 +1203,32 @@ export const storage = create<StorageState>()((set, get) => {
                 sessions: updatedSessions
             };
         }),
+        updateSessionBudget: (sessionId: string, budget: Budget | null) => set((state) => {
+            const session = state.sessions[sessionId];
+            if (!session) return state;
+
+            const updatedSessions = {
+                ...state.sessions,
+                [sessionId]: {
+                    ...session,
+                    budget
+                }
+            };
+
+            const allBudgets: Record<string, Budget> = {};
+            Object.entries(updatedSessions).forEach(([id, sess]) => {
+                if (sess.budget) {
+                    allBudgets[id] = sess.budget;
+                }
+            });
+
+            saveSessionBudgets(allBudgets);
+
+            return {
+                ...state,
+                sessions: updatedSessions
+            };
+        }),
         markSessionRead: (sessionId: string) => set((state) => {
             const session = state.sessions[sessionId];
             if (!session || !session.unread) return state;
@@ -1298,6 +1356,10 @@ export const storage = create<StorageState>()((set, get) => {
             const profileIds = loadSessionProfileIds();
             delete profileIds[sessionId];
             saveSessionProfileIds(profileIds);
+
+            const budgets = loadSessionBudgets();
+            delete budgets[sessionId];
+            saveSessionBudgets(budgets);
             
             // Rebuild sessionListViewData without the deleted session
             const sessionListViewData = buildSessionListViewData(remainingSessions);
@@ -1446,12 +1508,14 @@ export function useSession(id: string): Session | null {
 
 const emptyArray: unknown[] = [];
 
-export function useSessionMessages(sessionId: string): { messages: Message[], isLoaded: boolean } {
+export function useSessionMessages(sessionId: string): { messages: Message[], isLoaded: boolean, hasOlderMessages: boolean, isLoadingOlder: boolean } {
     return storage(useShallow((state) => {
         const session = state.sessionMessages[sessionId];
         return {
             messages: session?.messages ?? emptyArray,
-            isLoaded: session?.isLoaded ?? false
+            isLoaded: session?.isLoaded ?? false,
+            hasOlderMessages: session?.hasOlderMessages ?? false,
+            isLoadingOlder: session?.isLoadingOlder ?? false
         };
     }));
 }
@@ -1463,6 +1527,25 @@ export function useMessage(sessionId: string, messageId: string): Message | null
     }));
 }
 
+/**
+ * Map a server message id (as used by search results) to the id of the chat
+ * message rendered for it, null until that message is loaded
+ */
+export function useChatMessageId(sessionId: string, serverMessageId: string | null): string | null {
+    return storage((state) => {
+        const session = state.sessionMessages[sessionId];
+        if (!serverMessageId || !session) {
+            return null;
+        }
+        for (const message of session.reducerState.messages.values()) {
+            if (message.realID === serverMessageId && session.messagesMap[message.id]) {
+                return message.id;
+            }
+        }
+        return null;
+    });
+}
+
 export function useSessionUsage(sessionId: string) {
     return storage(useShallow((state) => {
         const session = state.sessionMessages[sessionId];
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { PermissionRuleMatchSchema } from './permissionRules';
+import { Budget, BudgetStateSchema } from './budget';
 
 //
 // Agent states
@@ -26,6 +28,14 @@ export const MetadataSchema = z.object({
   unhappyHomeDir: z.string().optional(), // Unhappy configuration directory
   hostPid: z.number().optional(), // Process ID of the session
   flavor: z.string().nullish(), // Session flavor/variant identifier
+  // Set on sessions recreated from an archive, they are read-only
+  imported: z
+    .object({
+      sourceSessionId: z.string(),
+      exportedAt: z.number(),
+      importedAt: z.number(),
+    })
+    .optional(),
 });
 
 export type Metadata = z.infer<typeof MetadataSchema>;
@@ -39,6 +49,7 @@ export const AgentStateSchema = z.object({
         tool: z.string(),
         arguments: z.any(),
         createdAt: z.number().nullish(),
+        matchedRule: PermissionRuleMatchSchema.nullish(),
       }),
     )
     .nullish(),
@@ -61,6 +72,7 @@ export const AgentStateSchema = z.object({
           decision: z
             .enum(['approved', 'approved_for_session', 'denied', 'abort'])
             .nullish(),
+          matchedRule: PermissionRuleMatchSchema.nullish(),
         })
         .passthrough()
         .transform(({ allowTools, ...rest }) => ({
@@ -69,6 +81,7 @@ export const AgentStateSchema = z.object({
         })),
     )
     .nullish(),
+  budget: BudgetStateSchema.nullish(),
 });
 
 export type AgentState = z.infer<typeof AgentStateSchema>;
@@ -97,6 +110,7 @@ export interface Session {
   }>;
   draft?: string | null; // Local draft message, not synced to server
   profileId?: string | null; // Local-only: backend profile used when spawning this session
+  budget?: Budget | null; // Local-only: spending limit set on this session, overrides profile and account
   permissionMode?:
     | 'default'
     | 'acceptEdits'
@@ -111,6 +125,7 @@ export interface Session {
   modelMode?: string | null; // Local-only: model override, not synced to server
   effortMode?: ReasoningEffortMode | null; // Local-only: reasoning effort override, not synced to server
   unread?: boolean; // Local-only: true when task completed while user was not viewing this session
+  sharedBy?: string | null; // Owner user id when a friend shared this session with us (read-only)
   // IMPORTANT: latestUsage is extracted from reducerState.latestUsage after message processing.
   // We store it directly on Session to ensure it's available immediately on load.
   // Do NOT store reducerState itself on Session - it's mutable and should only exist in SessionMessages.
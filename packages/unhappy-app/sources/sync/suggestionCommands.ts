@@ -47,7 +47,6 @@ export const IGNORED_COMMANDS = [
     "vim",
     "permissions",
     "hooks",
-    "export",
     "logout",
     "login"
 ];
@@ -55,7 +54,9 @@ export const IGNORED_COMMANDS = [
 // Default commands always available
 const DEFAULT_COMMANDS: CommandItem[] = [
     { command: 'compact', description: 'Compact the conversation history' },
-    { command: 'clear', description: 'Clear the conversation' }
+    { command: 'clear', description: 'Clear the conversation' },
+    // Handled by the app, see SessionView
+    { command: 'export', description: 'Export the session as an archive' }
 ];
 
 // Command descriptions for known tools/commands
@@ -67,7 +68,7 @@ const COMMAND_DESCRIPTIONS: Record<string, string> = {
     help: 'Show available commands',
     clear: 'Clear the conversation',
     reset: 'Reset the session',
-    export: 'Export conversation',
+    export: 'Export the session as an archive',
     debug: 'Show debug information',
     status: 'Show connection status',
     stop: 'Stop current operation',
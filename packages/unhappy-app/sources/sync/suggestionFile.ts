@@ -26,6 +26,44 @@ interface SessionCache {
     refreshLock: AsyncLock;
 }
 
+/**
+ * File items for ripgrep paths plus one folder item per directory not in
+ * `seenDirectories` yet (the set is updated)
+ */
+function buildFileItems(paths: string[], seenDirectories: Set<string>): FileItem[] {
+    const items: FileItem[] = [];
+    paths.forEach(path => {
+        const parts = path.split('/');
+        const fileName = parts[parts.length - 1] || path;
+        const filePath = parts.slice(0, -1).join('/') || '';
+
+        items.push({
+            fileName,
+            filePath: filePath ? filePath + '/' : '',
+            fullPath: path,
+            fileType: 'file' as const
+        });
+
+        // Add unique directories with trailing slash
+        for (let i = 1; i <= parts.length - 1; i++) {
+            const dirPath = parts.slice(0, i).join('/');
+            if (!dirPath || seenDirectories.has(dirPath)) {
+                continue;
+            }
+            seenDirectories.add(dirPath);
+            const dirParts = dirPath.split('/');
+            const parentPath = dirParts.slice(0, -1).join('/');
+            items.push({
+                fileName: dirParts[dirParts.length - 1] + '/',  // Add trailing slash to directory name
+                filePath: parentPath ? parentPath + '/' : '',
+                fullPath: dirPath + '/',  // Add trailing slash to full path
+                fileType: 'folder'
+            });
+        }
+    });
+    return items;
+}
+
 class FileSearchCache {
     private sessions = new Map<string, SessionCache>();
     private cacheTimeout = 5 * 60 * 1000; // 5 minutes
@@ -68,7 +106,7 @@ class FileSearchCache {
         cache.fuse = new Fuse(cache.files, fuseOptions);
     }
 
-    private async ensureCacheValid(sessionId: string): Promise<void> {
+    private async ensureCacheValid(sessionId: string, onFirstResults?: () => void): Promise<void> {
         const cache = this.getOrCreateSessionCache(sessionId);
         const now = Date.now();
         
@@ -87,11 +125,28 @@ class FileSearchCache {
 
             console.log(`FileSearchCache: Refreshing file cache for session ${sessionId}...`);
 
+            // On the first load, paths are searchable as ripgrep finds them so
+            // large projects don't block autocomplete until the listing ends
+            const streaming = cache.files.length === 0;
+            const streamedDirectories = new Set<string>();
+
             // Use ripgrep to get all files in the project
             const response = await sessionRipgrep(
                 sessionId,
                 ['--files', '--follow'],
-                undefined
+                undefined,
+                {
+                    onLines: streaming ? (paths) => {
+                        const items = buildFileItems(paths, streamedDirectories);
+                        cache.files.push(...items);
+                        if (cache.fuse) {
+                            items.forEach(item => cache.fuse!.add(item));
+                        } else {
+                            this.initializeFuse(cache);
+                        }
+                        onFirstResults?.();
+                    } : undefined
+                }
             );
 
             if (!response.success || !response.stdout) {
@@ -100,52 +155,13 @@ class FileSearchCache {
                 return;
             }
 
-            // Parse the output into file items
+            // The full output is authoritative, streamed paths were only a preview
             const filePaths = response.stdout
                 .split('\n')
                 .filter(path => path.trim().length > 0);
-
-            // Clear existing files
-            cache.files = [];
-
-            // Add all files
-            filePaths.forEach(path => {
-                const parts = path.split('/');
-                const fileName = parts[parts.length - 1] || path;
-                const filePath = parts.slice(0, -1).join('/') || '';
-
-                cache.files.push({
-                    fileName,
-                    filePath: filePath ? filePath + '/' : '',
-                    fullPath: path,
-                    fileType: 'file' as const
-                });
-            });
-
-            // Add unique directories with trailing slash
-            const directories = new Set<string>();
-            filePaths.forEach(path => {
-                const parts = path.split('/');
-                for (let i = 1; i <= parts.length - 1; i++) {
-                    const dirPath = parts.slice(0, i).join('/');
-                    if (dirPath) {
-                        directories.add(dirPath);
-                    }
-                }
-            });
-
-            directories.forEach(dirPath => {
-                const parts = dirPath.split('/');
-                const dirName = parts[parts.length - 1] + '/';  // Add trailing slash to directory name
-                const parentPath = parts.slice(0, -1).join('/');
-
-                cache.files.push({
-                    fileName: dirName,
-                    filePath: parentPath ? parentPath + '/' : '',
-                    fullPath: dirPath + '/',  // Add trailing slash to full path
-                    fileType: 'folder'
-                });
-            });
+            const files = buildFileItems(filePaths, new Set());
+            const folders = files.filter(item => item.fileType === 'folder');
+            cache.files = [...files.filter(item => item.fileType === 'file'), ...folders];
 
             cache.lastRefresh = Date.now();
             this.initializeFuse(cache);
@@ -155,7 +171,10 @@ class FileSearchCache {
     }
 
     async search(sessionId: string, query: string, options: SearchOptions = {}): Promise<FileItem[]> {
-        await this.ensureCacheValid(sessionId);
+        // Answer from the first streamed paths instead of waiting for the whole listing
+        let firstResults!: () => void;
+        const partial = new Promise<void>((resolve) => { firstResults = resolve; });
+        await Promise.race([this.ensureCacheValid(sessionId, firstResults), partial]);
         const cache = this.getOrCreateSessionCache(sessionId);
 
         if (!cache.fuse || cache.files.length === 0) {
@@ -6,14 +6,22 @@ import { decodeBase64, encodeBase64 } from '@/encryption/base64';
 import { storage } from './storage';
 import { ApiEphemeralUpdateSchema, ApiMessage, ApiUpdateContainerSchema } from './apiTypes';
 import type { ApiEphemeralActivityUpdate } from './apiTypes';
-import { Session, Machine } from './storageTypes';
+import { Session, Machine, Metadata } from './storageTypes';
 import { InvalidateSync } from '@/utils/sync';
 import { ActivityUpdateAccumulator } from './reducer/activityUpdateAccumulator';
-import { randomUUID } from 'expo-crypto';
+import { getRandomBytes, randomUUID } from 'expo-crypto';
 import * as Notifications from 'expo-notifications';
 import { registerPushToken } from './apiPush';
+import { createSessionShare, getSessionShares, publishContentKey, revokeSessionShare, SessionShare } from './apiSharing';
+import { fetchSessionAuditPage } from './apiAudit';
+import { fetchMachineHealth, type MachineHealth } from './apiMachineHealth';
+import { rotateAccountKey } from './keyRotation';
+import { resolveBudget } from './budget';
+import { AuditEvent, AuditEventSchema } from './auditTypes';
+import { createImportedSession, importSessionMessages } from './apiArchive';
+import { buildSessionArchive, SessionArchive, SessionArchiveArtifact, SessionArchiveMessage } from './sessionArchive';
 import { Platform, AppState } from 'react-native';
-import { isRunningOnMac } from '@/utils/platform';
+import { getSentFrom } from '@/utils/platform';
 import { NormalizedMessage, normalizeRawMessage, RawRecord } from './typesRaw';
 import { applySettings, Settings, settingsDefaults, settingsParse, SUPPORTED_SCHEMA_VERSION } from './settings';
 import { Profile, profileParse } from './profile';
@@ -34,16 +42,45 @@ import { systemPrompt } from './prompt/systemPrompt';
 import { fetchArtifact, fetchArtifacts, createArtifact, updateArtifact } from './apiArtifacts';
 import { DecryptedArtifact, Artifact, ArtifactCreateRequest, ArtifactUpdateRequest } from './artifactTypes';
 import { ArtifactEncryption } from './encryption/artifactEncryption';
+import { SessionEncryption } from './encryption/sessionEncryption';
+import type { TerminalFrame, TerminalFrameListener } from './terminalTypes';
 import { getFriendsList, getUserProfile } from './apiFriends';
 import { fetchFeed } from './apiFeed';
 import { FeedItem } from './feedTypes';
 import { UserProfile } from './friendTypes';
 import { initializeTodoSync } from '../-zen/model/ops';
 import { normalizePermissionPolicy, toWirePermissionMode } from './permissionPolicy';
+import { searchIndex } from './searchIndex';
+import { decodeCachedKeys, encodeCachedKeys, OfflineCache } from './offlineCache';
+import { reviewComments } from './reviewComments';
+
+/**
+ * Session as listed by the server. `/v2/sessions` leaves out `tag` and `lastMessage`.
+ */
+type ApiSessionRecord = {
+    id: string;
+    tag?: string;
+    seq: number;
+    metadata: string;
+    metadataVersion: number;
+    agentState: string | null;
+    agentStateVersion: number;
+    dataEncryptionKey: string | null;
+    active: boolean;
+    activeAt: number;
+    createdAt: number;
+    updatedAt: number;
+    lastMessage?: ApiMessage | null;
+    sharedBy?: string | null;
+};
 
 class Sync {
     // Spawned agents (especially in spawn mode) can take noticeable time to connect.
     private static readonly SESSION_READY_TIMEOUT_MS = 10000;
+    private static readonly MESSAGES_PAGE_SIZE = 150;
+    // Delta fetches miss sessions deleted elsewhere, a full list drops them now and then
+    private static readonly SESSIONS_FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+    private static readonly V1_SESSIONS_LIMIT = 150;
 
     encryption!: Encryption;
     serverID!: string;
@@ -53,14 +90,17 @@ class Sync {
     private sessionsSync: InvalidateSync;
     private messagesSync = new Map<string, InvalidateSync>();
     private sessionReceivedMessages = new Map<string, Set<string>>();
+    private sessionMessageCursors = new Map<string, { oldestSeq: number, newestSeq: number }>(); // Seq range of fetched message history
     private sessionDataKeys = new Map<string, Uint8Array>(); // Store session data encryption keys internally
     private machineDataKeys = new Map<string, Uint8Array>(); // Store machine data encryption keys internally
     private artifactDataKeys = new Map<string, Uint8Array>(); // Store artifact data encryption keys internally
+    private offlineCache: OfflineCache | null = null;
     private settingsSync: InvalidateSync;
     private profileSync: InvalidateSync;
     private purchasesSync: InvalidateSync;
     private machinesSync: InvalidateSync;
     private pushTokenSync: InvalidateSync;
+    private contentKeySync: InvalidateSync;
     private nativeUpdateSync: InvalidateSync;
     private artifactsSync: InvalidateSync;
     private friendsSync: InvalidateSync;
@@ -68,6 +108,8 @@ class Sync {
     private feedSync: InvalidateSync;
     private todosSync: InvalidateSync;
     private activityAccumulator: ActivityUpdateAccumulator;
+    private terminalListeners = new Map<string, Set<TerminalFrameListener>>();
+    private terminalFrameQueue: Promise<void> = Promise.resolve();
     private pendingSettings: Partial<Settings> = loadPendingSettings();
     revenueCatInitialized = false;
 
@@ -98,6 +140,7 @@ class Sync {
             await this.registerPushToken();
         }
         this.pushTokenSync = new InvalidateSync(registerPushToken);
+        this.contentKeySync = new InvalidateSync(this.publishContentKey);
         this.activityAccumulator = new ActivityUpdateAccumulator(this.flushActivityUpdates.bind(this), 2000);
 
         // Listen for app state changes to refresh purchases
@@ -118,6 +161,9 @@ class Sync {
                 this.todosSync.invalidate();
             } else {
                 log.log(`📱 App state changed to: ${nextAppState}`);
+                if (nextAppState === 'background') {
+                    this.offlineCache?.flush();
+                }
             }
         });
     }
@@ -151,6 +197,12 @@ class Sync {
 
     async #init() {
 
+        // Show what was cached last time right away, the syncs below only fetch what changed
+        this.offlineCache = new OfflineCache(this.encryption.cacheKey);
+        searchIndex.open(this.encryption.cacheKey);
+        reviewComments.open(this.encryption.cacheKey);
+        await this.hydrateFromCache();
+
         // Subscribe to updates
         this.subscribeToUpdates();
 
@@ -172,6 +224,7 @@ class Sync {
         this.purchasesSync.invalidate();
         this.machinesSync.invalidate();
         this.pushTokenSync.invalidate();
+        this.contentKeySync.invalidate();
         this.nativeUpdateSync.invalidate();
         this.friendsSync.invalidate();
         this.friendRequestsSync.invalidate();
@@ -211,7 +264,10 @@ class Sync {
     }
 
 
-    async sendMessage(sessionId: string, text: string, displayText?: string) {
+    /**
+     * Send a user message, resolves to its local id once it is handed to the socket
+     */
+    async sendMessage(sessionId: string, text: string, displayText?: string): Promise<string | undefined> {
         // Get session data from storage
         const session = storage.getState().sessions[sessionId];
         if (!session) {
@@ -231,25 +287,15 @@ class Sync {
         const modelMode = session.modelMode;
         const effortMode = session.effortMode ?? null;
 
+        // Budget - the session's own, then its profile's, then the account's
+        const settings = storage.getState().settings;
+        const profileBudget = settings.profiles.find((profile) => profile.id === session.profileId)?.budget;
+
         // Generate local ID
         const localId = randomUUID();
 
         // Determine sentFrom based on platform
-        let sentFrom: string;
-        if (Platform.OS === 'web') {
-            sentFrom = 'web';
-        } else if (Platform.OS === 'android') {
-            sentFrom = 'android';
-        } else if (Platform.OS === 'ios') {
-            // Check if running on Mac (Catalyst or Designed for iPad on Mac)
-            if (isRunningOnMac()) {
-                sentFrom = 'mac';
-            } else {
-                sentFrom = 'ios';
-            }
-        } else {
-            sentFrom = 'web'; // fallback
-        }
+        const sentFrom = getSentFrom();
 
         // Model settings:
         // - We always pass the session's selected model when present.
@@ -279,6 +325,10 @@ class Sync {
                 // We always send the session setting so the agent behavior is deterministic.
                 effort: effortMode,
                 appendSystemPrompt: systemPrompt,
+                // Always sent so removing the last account rule reaches the agent too
+                permissionRules: storage.getState().settings.permissionRules,
+                // Always sent, null removes a budget the agent still applies
+                budget: resolveBudget(session.budget, profileBudget, settings.sessionBudget),
                 ...(displayText && { displayText }) // Add displayText if provided
             }
         };
@@ -345,6 +395,7 @@ class Sync {
             permissionMode: wirePermissionMode,
             planOnly: permissionPolicy.planOnly,
         });
+        return localId;
     }
 
     applySettings = (delta: Partial<Settings>) => {
@@ -519,34 +570,43 @@ class Sync {
         if (!this.credentials) return;
 
         const API_ENDPOINT = getServerUrl();
-        const response = await fetch(`${API_ENDPOINT}/v1/sessions`, {
+
+        // With a cached list only sessions changed since are fetched
+        const watermark = this.offlineCache?.getSessionsWatermark() ?? null;
+        const full = !watermark || Date.now() - watermark.fullSyncAt > Sync.SESSIONS_FULL_SYNC_INTERVAL_MS;
+        let sessions: ApiSessionRecord[];
+        if (full) {
+            const response = await fetch(`${API_ENDPOINT}/v1/sessions`, {
+                headers: {
+                    'Authorization': `Bearer ${this.credentials.token}`,
+                    'Content-Type': 'application/json'
+                }
+            });
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch sessions: ${response.status}`);
+            }
+
+            const data = await response.json();
+            sessions = data.sessions as ApiSessionRecord[];
+        } else {
+            sessions = await this.fetchChangedSessions(watermark.changedAt);
+        }
+        const changedAt = sessions.length > 0 ? Math.max(...sessions.map((session) => session.updatedAt)) : null;
+        const ownSessions = sessions.slice();
+
+        // Sessions shared by friends, their keys are encrypted for our content key
+        const sharedResponse = await fetch(`${API_ENDPOINT}/v1/sessions/shared`, {
             headers: {
                 'Authorization': `Bearer ${this.credentials.token}`,
                 'Content-Type': 'application/json'
             }
         });
-
-        if (!response.ok) {
-            throw new Error(`Failed to fetch sessions: ${response.status}`);
+        if (sharedResponse.ok) { // Older servers don't support sharing
+            const sharedData = await sharedResponse.json();
+            sessions.push(...(sharedData.sessions as ApiSessionRecord[]));
         }
 
-        const data = await response.json();
-        const sessions = data.sessions as Array<{
-            id: string;
-            tag: string;
-            seq: number;
-            metadata: string;
-            metadataVersion: number;
-            agentState: string | null;
-            agentStateVersion: number;
-            dataEncryptionKey: string | null;
-            active: boolean;
-            activeAt: number;
-            createdAt: number;
-            updatedAt: number;
-            lastMessage: ApiMessage | null;
-        }>;
-
         // Initialize all session encryptions first
         const sessionKeys = new Map<string, Uint8Array | null>();
         for (const session of sessions) {
@@ -557,6 +617,7 @@ class Sync {
                     continue;
                 }
                 sessionKeys.set(session.id, decrypted);
+                this.sessionDataKeys.set(session.id, decrypted);
             } else {
                 sessionKeys.set(session.id, null);
             }
@@ -600,8 +661,452 @@ class Sync {
 
         // Apply to storage
         this.applySessions(decryptedSessions);
-        log.log(`📥 fetchSessions completed - processed ${decryptedSessions.length} sessions`);
 
+        // Drop cached sessions deleted since, a changes-only fetch doesn't list them
+        if (this.offlineCache) {
+            const listed = new Set(sessions.map((session) => session.id));
+            // Taken before the request, so sessions created meanwhile aren't dropped
+            const known = Object.values(storage.getState().sessions);
+            const existing = await this.fetchSessionIds();
+            const oldestListed = ownSessions.length >= Sync.V1_SESSIONS_LIMIT
+                ? Math.min(...ownSessions.map((session) => session.updatedAt))
+                : 0;
+            for (const session of known) {
+                if (listed.has(session.id)) {
+                    continue;
+                }
+                // Shared sessions are always listed in full. Without the id list
+                // (older servers) only a full list tells which sessions are gone.
+                const unlisted = session.sharedBy
+                    ? sharedResponse.ok
+                    : existing ? !existing.has(session.id) : full && session.updatedAt >= oldestListed;
+                if (unlisted) {
+                    this.forgetSession(session.id);
+                }
+            }
+            this.saveSessionsCache(changedAt, full);
+        }
+        log.log(`📥 fetchSessions completed - processed ${decryptedSessions.length} sessions (${full ? 'full' : 'changed only'})`);
+
+    }
+
+    /**
+     * Ids of all own sessions, null when the server can't tell
+     */
+    private fetchSessionIds = async (): Promise<Set<string> | null> => {
+        try {
+            const response = await fetch(`${getServerUrl()}/v2/sessions/ids`, {
+                headers: {
+                    'Authorization': `Bearer ${this.credentials!.token}`,
+                    'Content-Type': 'application/json'
+                }
+            });
+            if (!response.ok) {
+                return null;
+            }
+            const data = await response.json();
+            return new Set(data.ids as string[]);
+        } catch (error) {
+            console.error('Failed to fetch session ids', error);
+            return null;
+        }
+    }
+
+    /**
+     * Sessions updated after `changedSince`, walking all pages
+     */
+    private fetchChangedSessions = async (changedSince: number): Promise<ApiSessionRecord[]> => {
+        const API_ENDPOINT = getServerUrl();
+        const result: ApiSessionRecord[] = [];
+        let cursor: string | null = null;
+        while (true) {
+            const params = new URLSearchParams({ changedSince: String(changedSince), limit: '200' });
+            if (cursor) {
+                params.set('cursor', cursor);
+            }
+            const response = await fetch(`${API_ENDPOINT}/v2/sessions?${params.toString()}`, {
+                headers: {
+                    'Authorization': `Bearer ${this.credentials.token}`,
+                    'Content-Type': 'application/json'
+                }
+            });
+            if (!response.ok) {
+                throw new Error(`Failed to fetch changed sessions: ${response.status}`);
+            }
+            const data = await response.json();
+            result.push(...(data.sessions as ApiSessionRecord[]));
+            if (!data.hasNext || !data.nextCursor) {
+                return result;
+            }
+            cursor = data.nextCursor;
+        }
+    }
+
+    /**
+     * Restore sessions, machines and artifact headers from the offline cache.
+     * Messages are restored per session when it is opened.
+     */
+    private hydrateFromCache = async () => {
+        const cache = this.offlineCache;
+        if (!cache) {
+            return;
+        }
+        const start = Date.now();
+
+        const cachedSessions = cache.loadSessions();
+        if (cachedSessions) {
+            const keys = decodeCachedKeys(cachedSessions.keys);
+            for (const [sessionId, key] of keys) {
+                if (key) {
+                    this.sessionDataKeys.set(sessionId, key);
+                }
+            }
+            await this.encryption.initializeSessions(keys);
+            storage.getState().applySessions(cachedSessions.sessions.filter((session) => keys.has(session.id)));
+        }
+
+        const cachedMachines = cache.loadMachines();
+        if (cachedMachines) {
+            const keys = decodeCachedKeys(cachedMachines.keys);
+            for (const [machineId, key] of keys) {
+                if (key) {
+                    this.machineDataKeys.set(machineId, key);
+                }
+            }
+            await this.encryption.initializeMachines(keys);
+            storage.getState().applyMachines(cachedMachines.machines, true);
+        }
+
+        const cachedArtifacts = cache.loadArtifacts();
+        if (cachedArtifacts) {
+            for (const [artifactId, key] of decodeCachedKeys(cachedArtifacts.keys)) {
+                if (key) {
+                    this.artifactDataKeys.set(artifactId, key);
+                }
+            }
+            storage.getState().applyArtifacts(cachedArtifacts.artifacts);
+        }
+
+        if (cachedSessions) {
+            storage.getState().applyReady();
+        }
+        log.log(`💾 Hydrated ${cachedSessions?.sessions.length ?? 0} sessions and ${cachedMachines?.machines.length ?? 0} machines from the offline cache in ${Date.now() - start}ms`);
+    }
+
+    private saveSessionsCache(changedAt: number | null, full: boolean) {
+        if (!this.offlineCache) {
+            return;
+        }
+        const sessions = Object.values(storage.getState().sessions);
+        const ids = sessions.map((session) => session.id);
+        this.offlineCache.saveSessions(sessions, encodeCachedKeys(this.sessionDataKeys, ids), changedAt, full);
+    }
+
+    /**
+     * Remove a session everywhere locally, after it was deleted on the server
+     */
+    private forgetSession(sessionId: string) {
+        // Remove session from storage
+        storage.getState().deleteSession(sessionId);
+
+        // Remove encryption keys from memory
+        this.encryption.removeSessionEncryption(sessionId);
+        this.sessionDataKeys.delete(sessionId);
+
+        // Forget fetched history range
+        this.sessionMessageCursors.delete(sessionId);
+        this.sessionReceivedMessages.delete(sessionId);
+
+        // Drop it from local search, review comments and the offline cache
+        searchIndex.removeSession(sessionId);
+        reviewComments.removeSession(sessionId);
+        this.offlineCache?.removeSession(sessionId);
+
+        // Remove from project manager
+        projectManager.removeSession(sessionId);
+
+        // Clear any cached git status
+        gitStatusSync.clearForSession(sessionId);
+    }
+
+    /**
+     * Legacy sessions without a data encryption key are encrypted with the
+     * master secret and can't be shared.
+     */
+    isSessionShareable(sessionId: string): boolean {
+        const session = storage.getState().sessions[sessionId];
+        return !!session && !session.sharedBy && this.sessionDataKeys.has(sessionId);
+    }
+
+    /**
+     * Share a session read-only with a friend by encrypting its data key
+     * for the friend's content public key.
+     */
+    async shareSession(sessionId: string, friend: UserProfile): Promise<void> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+        const dataKey = this.sessionDataKeys.get(sessionId);
+        if (!dataKey) {
+            throw new Error(`Session ${sessionId} has no data encryption key`);
+        }
+        if (!friend.contentPublicKey) {
+            throw new Error(`User ${friend.id} has not published a content key`);
+        }
+        const encryptedDataKey = await this.encryption.encryptEncryptionKeyFor(dataKey, decodeBase64(friend.contentPublicKey));
+        await createSessionShare(this.credentials, sessionId, friend.id, encryptedDataKey);
+    }
+
+    async revokeSessionShare(sessionId: string, userId: string): Promise<void> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+        await revokeSessionShare(this.credentials, sessionId, userId);
+    }
+
+    async getSessionShares(sessionId: string): Promise<SessionShare[]> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+        return await getSessionShares(this.credentials, sessionId);
+    }
+
+    /**
+     * Export a session with its full message history and linked artifacts.
+     * Everything is decrypted, the archive is meant to leave the system.
+     */
+    async exportSession(sessionId: string): Promise<SessionArchive> {
+        const session = storage.getState().sessions[sessionId];
+        const encryption = this.encryption.getSessionEncryption(sessionId);
+        if (!session || !encryption) {
+            throw new Error(`Session ${sessionId} is not loaded`);
+        }
+
+        // Walk the whole history, the chat only holds the pages scrolled to
+        const messages: SessionArchiveMessage[] = [];
+        let after = 0;
+        while (true) {
+            const page = await this.fetchMessagesPage(sessionId, { after });
+            const decrypted = await encryption.decryptMessages(page.messages);
+            for (const message of decrypted) {
+                if (message && message.content && message.seq !== null) {
+                    messages.push({
+                        id: message.id,
+                        seq: message.seq,
+                        localId: message.localId,
+                        createdAt: message.createdAt,
+                        content: message.content
+                    });
+                }
+            }
+            if (page.messages.length > 0) {
+                after = page.messages[page.messages.length - 1].seq;
+            }
+            if (!page.hasMore || page.messages.length === 0) {
+                break;
+            }
+        }
+
+        const artifacts: SessionArchiveArtifact[] = [];
+        for (const artifact of Object.values(storage.getState().artifacts)) {
+            if (!artifact.sessions?.includes(sessionId)) {
+                continue;
+            }
+            const full = await this.fetchArtifactWithBody(artifact.id);
+            if (full) {
+                artifacts.push({
+                    id: full.id,
+                    title: full.title,
+                    body: full.body ?? null,
+                    createdAt: full.createdAt,
+                    updatedAt: full.updatedAt
+                });
+            }
+        }
+
+        return buildSessionArchive({
+            session: {
+                id: session.id,
+                createdAt: session.createdAt,
+                updatedAt: session.updatedAt,
+                metadata: session.metadata,
+                agentState: session.agentState
+            },
+            messages,
+            artifacts
+        });
+    }
+
+    /**
+     * Load and decrypt the whole audit trail of a session, oldest first.
+     * Events this version of the app doesn't understand are skipped.
+     */
+    async getSessionAudit(sessionId: string): Promise<AuditEvent[]> {
+        const encryption = this.encryption.getSessionEncryption(sessionId);
+        if (!this.credentials || !encryption) {
+            throw new Error(`Session ${sessionId} is not loaded`);
+        }
+
+        const events: AuditEvent[] = [];
+        let after = 0;
+        while (true) {
+            const page = await fetchSessionAuditPage(this.credentials, sessionId, after);
+            for (const event of page.events) {
+                const parsed = AuditEventSchema.safeParse(await encryption.decryptRaw(event.content));
+                if (parsed.success) {
+                    events.push(parsed.data);
+                }
+            }
+            if (page.events.length > 0) {
+                after = page.events[page.events.length - 1].seq;
+            }
+            if (!page.hasMore || page.events.length === 0) {
+                break;
+            }
+        }
+        return events;
+    }
+
+    async getMachineHealth(machineId: string): Promise<MachineHealth | null> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+        return await fetchMachineHealth(this.credentials, machineId);
+    }
+
+    /**
+     * Move the account to a new secret, see keyRotation.ts.
+     * Returns the new credentials, the caller restarts the app with them.
+     */
+    async rotateAccountKey(): Promise<AuthCredentials> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+        return await rotateAccountKey(this.credentials, this.encryption);
+    }
+
+    /**
+     * Recreate an archived session in this account as a read-only copy,
+     * re-encrypted with a new data key. Returns the new session id.
+     */
+    async importSession(archive: SessionArchive): Promise<string> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+
+        // Drop links to the original machine and agent process
+        const { machineId, hostPid, agentSessionId, agentConversationId, imported, ...metadata } = archive.session.metadata ?? {};
+        const importedMetadata: Metadata = {
+            path: '',
+            host: '',
+            ...metadata,
+            imported: {
+                sourceSessionId: archive.session.id,
+                exportedAt: archive.exportedAt,
+                importedAt: Date.now()
+            }
+        };
+        const agentState = archive.session.agentState ? { ...archive.session.agentState, requests: null } : null;
+
+        let dataKey = getRandomBytes(32);
+        let encryptor = await this.encryption.openEncryption(dataKey);
+        const encryptedKey = encodeBase64(await this.encryption.encryptEncryptionKey(dataKey), 'base64');
+        const [encryptedMetadata, encryptedAgentState] = await encryptor.encrypt([importedMetadata, agentState]);
+
+        // The tag is derived from the archive, importing it again resumes the same session
+        const created = await createImportedSession(this.credentials, {
+            tag: `import-${archive.session.id}-${archive.exportedAt}`,
+            metadata: encodeBase64(encryptedMetadata, 'base64'),
+            agentState: agentState ? encodeBase64(encryptedAgentState, 'base64') : null,
+            dataEncryptionKey: encryptedKey
+        });
+        const resumed = created.dataEncryptionKey !== encryptedKey;
+        if (resumed) {
+            const existingKey = created.dataEncryptionKey ? await this.encryption.decryptEncryptionKey(created.dataEncryptionKey) : null;
+            if (!existingKey) {
+                throw new Error(`Failed to open imported session ${created.id}`);
+            }
+            dataKey = existingKey;
+            encryptor = await this.encryption.openEncryption(dataKey);
+        }
+
+        for (let i = 0; i < archive.messages.length; i += Sync.MESSAGES_PAGE_SIZE) {
+            const batch = archive.messages.slice(i, i + Sync.MESSAGES_PAGE_SIZE);
+            const encrypted = await encryptor.encrypt(batch.map((message) => message.content));
+            await importSessionMessages(this.credentials, created.id, batch.map((message, index) => ({
+                localId: message.id,
+                content: encodeBase64(encrypted[index], 'base64'),
+                createdAt: message.createdAt
+            })));
+        }
+
+        const existingTitles = new Set(Object.values(storage.getState().artifacts)
+            .filter((artifact) => artifact.sessions?.includes(created.id))
+            .map((artifact) => artifact.title));
+        for (const artifact of archive.artifacts) {
+            if (resumed && existingTitles.has(artifact.title)) {
+                continue;
+            }
+            await this.createArtifact(artifact.title, artifact.body, [created.id]);
+        }
+
+        await this.refreshSessions();
+        return created.id;
+    }
+
+    /**
+     * Walk the history of every session forward from where the search index
+     * stopped, so search covers sessions that were never opened on this device.
+     */
+    async buildSearchIndex(onProgress?: (done: number, total: number) => void): Promise<void> {
+        const sessions = Object.values(storage.getState().sessions);
+        let done = 0;
+        for (const session of sessions) {
+            const encryption = this.encryption.getSessionEncryption(session.id);
+            if (encryption) {
+                let after = searchIndex.getIndexedThroughSeq(session.id);
+                while (true) {
+                    const page = await this.fetchMessagesPage(session.id, { after });
+                    const decrypted = await encryption.decryptMessages(page.messages);
+                    const normalized: NormalizedMessage[] = [];
+                    for (const message of decrypted) {
+                        const n = message && message.content ? normalizeRawMessage(message.id, message.localId, message.createdAt, message.content) : null;
+                        if (n) {
+                            normalized.push(n);
+                        }
+                    }
+                    searchIndex.addMessages(session.id, normalized);
+                    if (page.messages.length > 0) {
+                        after = page.messages[page.messages.length - 1].seq;
+                        searchIndex.setIndexedThroughSeq(session.id, after);
+                    }
+                    if (!page.hasMore || page.messages.length === 0) {
+                        break;
+                    }
+                }
+            }
+            done++;
+            onProgress?.(done, sessions.length);
+        }
+        searchIndex.flush();
+    }
+
+    /**
+     * Listen to terminal frames of a session. Returns an unsubscribe function.
+     */
+    subscribeToTerminal(sessionId: string, listener: TerminalFrameListener): () => void {
+        let listeners = this.terminalListeners.get(sessionId);
+        if (!listeners) {
+            listeners = new Set();
+            this.terminalListeners.set(sessionId, listeners);
+        }
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0) {
+                this.terminalListeners.delete(sessionId);
+            }
+        };
     }
 
     public refreshMachines = async () => {
@@ -679,6 +1184,7 @@ class Sync {
 
             log.log(`📦 fetchArtifactsList: Successfully decrypted ${decryptedArtifacts.length} artifacts`);
             storage.getState().applyArtifacts(decryptedArtifacts);
+            this.offlineCache?.saveArtifacts(decryptedArtifacts, encodeCachedKeys(this.artifactDataKeys, decryptedArtifacts.map((artifact) => artifact.id)));
             log.log('📦 fetchArtifactsList: Artifacts applied to storage');
         } catch (error) {
             log.log(`📦 fetchArtifactsList: Error fetching artifacts: ${error}`);
@@ -1002,6 +1508,7 @@ class Sync {
 
         // Replace entire machine state with fetched machines
         storage.getState().applyMachines(decryptedMachines, true);
+        this.offlineCache?.saveMachines(decryptedMachines, encodeCachedKeys(this.machineDataKeys, decryptedMachines.map((machine) => machine.id)));
         log.log(`🖥️ fetchMachines completed - processed ${decryptedMachines.length} machines`);
     }
 
@@ -1305,6 +1812,11 @@ class Sync {
         }
     }
 
+    private publishContentKey = async () => {
+        if (!this.credentials) return;
+        await publishContentKey(this.credentials, this.encryption.contentDataKey);
+    }
+
     private fetchProfile = async () => {
         if (!this.credentials) return;
 
@@ -1456,9 +1968,134 @@ class Sync {
             throw new Error(`Session encryption not ready for ${sessionId}`);
         }
 
-        // Request
-        const response = await apiSocket.request(`/v1/sessions/${sessionId}/messages`);
+        let cursor = this.sessionMessageCursors.get(sessionId);
+        if (!cursor) {
+            cursor = this.hydrateMessagesFromCache(sessionId);
+        }
+        let processed = 0;
+        if (!cursor) {
+            // First load - newest page only, older pages are loaded on scroll
+            const page = await this.fetchMessagesPage(sessionId, {});
+            const normalizedMessages = await this.decryptMessagesPage(sessionId, encryption, page.messages);
+            processed += normalizedMessages.length;
+
+            // Apply to storage
+            this.applyMessages(sessionId, normalizedMessages);
+            storage.getState().applyMessagesLoaded(sessionId);
+            storage.getState().applyMessagesPagination(sessionId, { hasOlderMessages: page.hasMore });
+            if (page.messages.length > 0) {
+                const range = {
+                    oldestSeq: page.messages[0].seq,
+                    newestSeq: page.messages[page.messages.length - 1].seq
+                };
+                this.sessionMessageCursors.set(sessionId, range);
+                this.offlineCache?.startMessages(sessionId, { ...range, hasOlderMessages: page.hasMore, messages: normalizedMessages });
+            }
+        } else {
+            // Catch up - walk forward from the newest fetched message
+            while (true) {
+                const page = await this.fetchMessagesPage(sessionId, { after: cursor.newestSeq });
+                const normalizedMessages = await this.decryptMessagesPage(sessionId, encryption, page.messages);
+                processed += normalizedMessages.length;
+                this.applyMessages(sessionId, normalizedMessages);
+                if (page.messages.length > 0) {
+                    cursor.newestSeq = page.messages[page.messages.length - 1].seq;
+                }
+                if (!page.hasMore || page.messages.length === 0) {
+                    break;
+                }
+            }
+            this.offlineCache?.updateMessagesRange(sessionId, { newestSeq: cursor.newestSeq });
+            storage.getState().applyMessagesLoaded(sessionId);
+        }
+        log.log(`💬 fetchMessages completed for session ${sessionId} - processed ${processed} messages`);
+    }
+
+    /**
+     * Show cached history right away, fetching then continues after its newest message
+     */
+    private hydrateMessagesFromCache = (sessionId: string): { oldestSeq: number, newestSeq: number } | undefined => {
+        const cached = this.offlineCache?.loadMessages(sessionId);
+        if (!cached) {
+            return undefined;
+        }
+        let received = this.sessionReceivedMessages.get(sessionId);
+        if (!received) {
+            received = new Set<string>();
+            this.sessionReceivedMessages.set(sessionId, received);
+        }
+        for (const message of cached.messages) {
+            received.add(message.id);
+        }
+
+        // Skip voice hooks - this is history, not new activity
+        storage.getState().applyMessages(sessionId, cached.messages);
+        searchIndex.addMessages(sessionId, cached.messages);
+        storage.getState().applyMessagesLoaded(sessionId);
+        storage.getState().applyMessagesPagination(sessionId, { hasOlderMessages: cached.hasOlderMessages });
+
+        const cursor = { oldestSeq: cached.oldestSeq, newestSeq: cached.newestSeq };
+        this.sessionMessageCursors.set(sessionId, cursor);
+        log.log(`💾 Hydrated ${cached.messages.length} messages for session ${sessionId} from the offline cache`);
+        return cursor;
+    }
+
+    /**
+     * Loads the page of history right before the oldest fetched message.
+     * Called by the chat list when the user scrolls to the top.
+     */
+    loadOlderMessages = async (sessionId: string) => {
+        const cursor = this.sessionMessageCursors.get(sessionId);
+        const sessionMessages = storage.getState().sessionMessages[sessionId];
+        if (!cursor || !sessionMessages || !sessionMessages.hasOlderMessages || sessionMessages.isLoadingOlder) {
+            return;
+        }
+        const encryption = this.encryption.getSessionEncryption(sessionId);
+        if (!encryption) {
+            return;
+        }
+
+        storage.getState().applyMessagesPagination(sessionId, { isLoadingOlder: true });
+        try {
+            const page = await this.fetchMessagesPage(sessionId, { before: cursor.oldestSeq });
+            const normalizedMessages = await this.decryptMessagesPage(sessionId, encryption, page.messages);
+
+            // Skip voice hooks - this is history, not new activity
+            storage.getState().applyMessages(sessionId, normalizedMessages);
+            searchIndex.addMessages(sessionId, normalizedMessages);
+            this.offlineCache?.addMessages(sessionId, normalizedMessages);
+            if (page.messages.length > 0) {
+                cursor.oldestSeq = page.messages[0].seq;
+            }
+            this.offlineCache?.updateMessagesRange(sessionId, { oldestSeq: cursor.oldestSeq, hasOlderMessages: page.hasMore });
+            storage.getState().applyMessagesPagination(sessionId, { hasOlderMessages: page.hasMore, isLoadingOlder: false });
+            log.log(`💬 loadOlderMessages for session ${sessionId} - processed ${normalizedMessages.length} messages`);
+        } catch (error) {
+            console.error(`Failed to load older messages for ${sessionId}:`, error);
+            storage.getState().applyMessagesPagination(sessionId, { isLoadingOlder: false });
+        }
+    }
+
+    private fetchMessagesPage = async (sessionId: string, cursor: { before?: number, after?: number }): Promise<{ messages: ApiMessage[], hasMore: boolean }> => {
+        const params = new URLSearchParams({ limit: String(Sync.MESSAGES_PAGE_SIZE) });
+        if (cursor.before !== undefined) {
+            params.set('before', String(cursor.before));
+        }
+        if (cursor.after !== undefined) {
+            params.set('after', String(cursor.after));
+        }
+        const response = await apiSocket.request(`/v2/sessions/${sessionId}/messages?${params.toString()}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch messages for ${sessionId}: ${response.status}`);
+        }
         const data = await response.json();
+        return {
+            messages: data.messages as ApiMessage[], // Ascending seq order
+            hasMore: data.hasMore === true
+        };
+    }
+
+    private decryptMessagesPage = async (sessionId: string, encryption: SessionEncryption, messages: ApiMessage[]): Promise<NormalizedMessage[]> => {
 
         // Collect existing messages
         let eixstingMessages = this.sessionReceivedMessages.get(sessionId);
@@ -1473,7 +2110,7 @@ class Sync {
 
         // Filter out existing messages and prepare for batch decryption
         const messagesToDecrypt: ApiMessage[] = [];
-        for (const msg of [...data.messages as ApiMessage[]].reverse()) {
+        for (const msg of messages) {
             if (!eixstingMessages.has(msg.id)) {
                 messagesToDecrypt.push(msg);
             }
@@ -1495,13 +2132,7 @@ class Sync {
             }
         }
         console.log('Batch decrypted and normalized messages in', Date.now() - start, 'ms');
-        console.log('normalizedMessages', JSON.stringify(normalizedMessages));
-        // console.log('messages', JSON.stringify(normalizedMessages));
-
-        // Apply to storage
-        this.applyMessages(sessionId, normalizedMessages);
-        storage.getState().applyMessagesLoaded(sessionId);
-        log.log(`💬 fetchMessages completed for session ${sessionId} - processed ${normalizedMessages.length} messages`);
+        return normalizedMessages;
     }
 
     private registerPushToken = async () => {
@@ -1662,18 +2293,8 @@ class Sync {
         } else if (updateData.body.t === 'delete-session') {
             log.log('🗑️ Delete session update received');
             const sessionId = updateData.body.sid;
-
-            // Remove session from storage
-            storage.getState().deleteSession(sessionId);
-
-            // Remove encryption keys from memory
-            this.encryption.removeSessionEncryption(sessionId);
-
-            // Remove from project manager
-            projectManager.removeSession(sessionId);
-
-            // Clear any cached git status
-            gitStatusSync.clearForSession(sessionId);
+            this.forgetSession(sessionId);
+            this.saveSessionsCache(null, false);
 
             log.log(`🗑️ Session ${sessionId} deleted from local storage`);
         } else if (updateData.body.t === 'update-session') {
@@ -1721,7 +2342,8 @@ class Sync {
                     gitStatusSync.invalidate(updateData.body.id);
 
                     // Check for new permission requests and notify voice assistant
-                    if (agentState?.requests && Object.keys(agentState.requests).length > 0) {
+                    // (only the owner can answer them, shared sessions are read-only)
+                    if (!session.sharedBy && agentState?.requests && Object.keys(agentState.requests).length > 0) {
                         const requestIds = Object.keys(agentState.requests);
                         const firstRequest = agentState.requests[requestIds[0]];
                         const toolName = firstRequest?.tool;
@@ -2072,6 +2694,25 @@ class Sync {
             }
         }
 
+        // Terminal output is only decrypted while a terminal screen is open.
+        // Decryption is chained so frames are delivered in order.
+        if (updateData.type === 'terminal-output') {
+            const listeners = this.terminalListeners.get(updateData.id);
+            const encryption = this.encryption.getSessionEncryption(updateData.id);
+            if (listeners && encryption) {
+                this.terminalFrameQueue = this.terminalFrameQueue.then(async () => {
+                    const frame = await encryption.decryptRaw(updateData.frame) as TerminalFrame | null;
+                    if (frame) {
+                        for (const listener of listeners) {
+                            listener(updateData.terminalId, frame);
+                        }
+                    }
+                }).catch((error) => {
+                    console.error('Failed to handle terminal frame:', error);
+                });
+            }
+        }
+
         // daemon-status ephemeral updates are deprecated, machine status is handled via machine-activity
     }
 
@@ -2081,6 +2722,9 @@ class Sync {
 
     private applyMessages = (sessionId: string, messages: NormalizedMessage[]) => {
         const result = storage.getState().applyMessages(sessionId, messages);
+        searchIndex.addMessages(sessionId, messages);
+        this.offlineCache?.addMessages(sessionId, messages);
+        void reviewComments.handleMessages(sessionId, messages);
         let m: Message[] = [];
         for (let messageId of result.changed) {
             const message = storage.getState().sessionMessages[sessionId].messagesMap[messageId];
@@ -0,0 +1,12 @@
+/**
+ * Terminal frames streamed from the CLI, see modules/terminal in the CLI.
+ *
+ * Screen frames are full tmux pane snapshots, data frames are raw PTY output
+ * from machines without tmux.
+ */
+export type TerminalFrame =
+    | { t: 'screen'; lines: string[]; cursor: { x: number; y: number }; cols: number; rows: number }
+    | { t: 'data'; data: string }
+    | { t: 'exit'; code: number | null };
+
+export type TerminalFrameListener = (terminalId: string, frame: TerminalFrame) => void;
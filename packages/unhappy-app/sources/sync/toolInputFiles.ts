@@ -0,0 +1,32 @@
+/**
+ * File paths in tool call inputs, shared by search and review comments
+ */
+
+const FILE_INPUT_KEYS = ['file_path', 'filePath', 'notebook_path', 'path'];
+
+/**
+ * Collect the file paths a tool call's input refers to
+ */
+export function collectToolInputFiles(input: any, files: Set<string>) {
+    if (!input || typeof input !== 'object') {
+        return;
+    }
+    for (const key of FILE_INPUT_KEYS) {
+        if (typeof input[key] === 'string' && input[key]) {
+            files.add(input[key]);
+        }
+    }
+    if (Array.isArray(input.paths)) {
+        for (const path of input.paths) {
+            if (typeof path === 'string') {
+                files.add(path);
+            }
+        }
+    }
+    // apply_patch style inputs carry the touched files as keys of `changes`
+    if (input.changes && typeof input.changes === 'object' && !Array.isArray(input.changes)) {
+        for (const path of Object.keys(input.changes)) {
+            files.add(path);
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import { AgentEvent } from "./typesRaw";
 import { MessageMeta } from "./typesMessageMeta";
+import type { PermissionRuleMatch } from "./permissionRules";
 
 export type ToolCall = {
     name: string;
@@ -18,6 +19,7 @@ export type ToolCall = {
         allowedTools?: string[];
         decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
         date?: number;
+        matchedRule?: PermissionRuleMatch; // Permission rule that decided or forced this request
     };
 }
 
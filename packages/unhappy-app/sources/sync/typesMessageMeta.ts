@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { PermissionRuleSchema } from './permissionRules';
+import { BudgetSchema } from './budget';
 
 // Shared message metadata schema
 export const MessageMetaSchema = z.object({
@@ -12,6 +14,8 @@ export const MessageMetaSchema = z.object({
     appendSystemPrompt: z.string().nullable().optional(), // Append to system prompt for this message (null = reset)
     allowedTools: z.array(z.string()).nullable().optional(), // Allowed tools for this message (null = reset)
     disallowedTools: z.array(z.string()).nullable().optional(), // Disallowed tools for this message (null = reset)
+    permissionRules: z.array(PermissionRuleSchema).nullable().optional(), // Account permission rules (null = reset)
+    budget: BudgetSchema.nullable().optional(), // Budget of the session (null = none)
     displayText: z.string().optional() // Optional text to display in UI instead of actual message text
 });
 
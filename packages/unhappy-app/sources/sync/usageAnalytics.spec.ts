@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { UsageDataPoint } from './apiUsage';
+import { cacheHitRatio, groupUsage, sumUsage, usageChange, usageExportRows, usageTimeline, usageToCsv, UsageSessionInfo } from './usageAnalytics';
+
+function point(timestamp: number, sessionId: string | null, model: string | null, total: number, cost: number, cacheRead = 0): UsageDataPoint {
+    return {
+        timestamp,
+        model,
+        agent: null,
+        sessionId,
+        tokens: { total, input: total - cacheRead, output: 0, cache_creation: 0, cache_read: cacheRead },
+        cost: { total: cost, input: cost, output: 0 },
+        reportCount: 1,
+    };
+}
+
+const sessions: Record<string, UsageSessionInfo> = {
+    s1: { agent: 'claude', machine: 'laptop', project: '~/app' },
+    s2: { agent: 'codex', machine: 'laptop', project: '~/api, v2' },
+};
+const sessionInfo = (id: string) => sessions[id] ?? null;
+
+describe('usageAnalytics', () => {
+    const points = [
+        point(100, 's1', 'claude-sonnet-4-5', 1000, 1, 600),
+        point(100, 's2', 'claude-haiku-4-5', 500, 0.25),
+        point(200, 's1', 'claude-sonnet-4-5', 1000, 2, 400),
+        point(200, 'gone', null, 100, 0.01),
+    ];
+
+    it('sums totals without counting the breakdown keys twice', () => {
+        const totals = sumUsage(points);
+        expect(totals.tokens).toBe(2600);
+        expect(totals.cost).toBeCloseTo(3.26);
+        expect(cacheHitRatio(totals)).toBeCloseTo(1000 / 2600);
+        expect(usageChange(totals.cost, 1.63)).toBeCloseTo(1);
+        expect(usageChange(totals.cost, 0)).toBeNull();
+    });
+
+    it('groups by report fields and by session metadata', () => {
+        expect(groupUsage(points, 'model', sessionInfo).map((g) => [g.key, g.totals.tokens])).toEqual([
+            ['claude-sonnet-4-5', 2000],
+            ['claude-haiku-4-5', 500],
+            [null, 100],
+        ]);
+        expect(groupUsage(points, 'agent', sessionInfo).map((g) => g.key)).toEqual(['claude', 'codex', null]);
+        expect(groupUsage(points, 'machine', sessionInfo).map((g) => [g.key, g.totals.reports])).toEqual([['laptop', 3], [null, 1]]);
+    });
+
+    it('merges split buckets into a timeline', () => {
+        const timeline = usageTimeline(points);
+        expect(timeline.map((p) => [p.timestamp, p.tokens.total, p.reportCount])).toEqual([[100, 1500, 2], [200, 1100, 2]]);
+    });
+
+    it('exports rows as csv with quoted fields', () => {
+        const csv = usageToCsv(usageExportRows([points[1]], sessionInfo));
+        const [header, row] = csv.trim().split('\n');
+        expect(header).toBe('date,model,agent,machine,project,session_id,input_tokens,output_tokens,cache_creation_tokens,cache_read_tokens,total_tokens,cost_usd,reports');
+        expect(row).toBe('1970-01-01T00:01:40.000Z,claude-haiku-4-5,codex,laptop,"~/api, v2",s2,500,0,0,0,500,0.25,1');
+    });
+    it('keeps text fields from being read as spreadsheet formulas', () => {
+        const info = (): UsageSessionInfo => ({ agent: '@agent', machine: '=HYPERLINK("http://x")', project: '-2+3' });
+        const csv = usageToCsv(usageExportRows([point(100, 's9', '+model', 10, -0.5)], info));
+        const [, row] = csv.trim().split('\n');
+        expect(row).toBe(`1970-01-01T00:01:40.000Z,'+model,'@agent,"'=HYPERLINK(""http://x"")",'-2+3,s9,10,0,0,0,10,-0.5,1`);
+    });
+});
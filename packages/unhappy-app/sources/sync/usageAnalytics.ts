@@ -0,0 +1,204 @@
+import type { UsageDataPoint } from './apiUsage';
+
+//
+// Usage analytics over the buckets returned by `/v1/usage/query`. The server
+// only knows the model and agent of a report, machine and project come from the
+// session metadata, which is end-to-end encrypted and resolved here.
+//
+
+export type UsageDimension = 'model' | 'agent' | 'machine' | 'project';
+
+export type UsageTotals = {
+    tokens: number;
+    cost: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    reports: number;
+};
+
+/** What the app knows about the session of a report, null when it is gone */
+export type UsageSessionInfo = {
+    agent: string | null;
+    machine: string | null;
+    project: string | null;
+};
+
+export type UsageGroup = {
+    /** Model, agent, machine or project, null when unknown */
+    key: string | null;
+    totals: UsageTotals;
+};
+
+export type UsageExportRow = {
+    date: string;
+    model: string | null;
+    agent: string | null;
+    machine: string | null;
+    project: string | null;
+    sessionId: string | null;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    totalTokens: number;
+    costUsd: number;
+    reports: number;
+};
+
+export function emptyUsageTotals(): UsageTotals {
+    return { tokens: 0, cost: 0, inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, reports: 0 };
+}
+
+function addPoint(totals: UsageTotals, point: UsageDataPoint) {
+    totals.tokens += point.tokens.total ?? 0;
+    totals.cost += point.cost.total ?? 0;
+    totals.inputTokens += point.tokens.input ?? 0;
+    totals.outputTokens += point.tokens.output ?? 0;
+    totals.cacheCreationTokens += point.tokens.cache_creation ?? 0;
+    totals.cacheReadTokens += point.tokens.cache_read ?? 0;
+    totals.reports += point.reportCount;
+}
+
+export function sumUsage(points: UsageDataPoint[]): UsageTotals {
+    const totals = emptyUsageTotals();
+    for (const point of points) {
+        addPoint(totals, point);
+    }
+    return totals;
+}
+
+/**
+ * Share of input tokens served from the prompt cache, null without input
+ */
+export function cacheHitRatio(totals: UsageTotals): number | null {
+    const input = totals.inputTokens + totals.cacheCreationTokens + totals.cacheReadTokens;
+    return input > 0 ? totals.cacheReadTokens / input : null;
+}
+
+/**
+ * Relative change against the previous period, null when there is nothing to compare with
+ */
+export function usageChange(current: number, previous: number): number | null {
+    return previous > 0 ? (current - previous) / previous : null;
+}
+
+function dimensionKey(point: UsageDataPoint, dimension: UsageDimension, info: UsageSessionInfo | null): string | null {
+    switch (dimension) {
+        case 'model':
+            return point.model ?? null;
+        case 'agent':
+            return point.agent ?? info?.agent ?? null;
+        case 'machine':
+            return info?.machine ?? null;
+        case 'project':
+            return info?.project ?? null;
+    }
+}
+
+/**
+ * Totals per model, agent, machine or project, most expensive first
+ */
+export function groupUsage(
+    points: UsageDataPoint[],
+    dimension: UsageDimension,
+    sessionInfo: (sessionId: string) => UsageSessionInfo | null
+): UsageGroup[] {
+    const groups = new Map<string | null, UsageTotals>();
+    for (const point of points) {
+        const info = point.sessionId ? sessionInfo(point.sessionId) : null;
+        const key = dimensionKey(point, dimension, info);
+        let totals = groups.get(key);
+        if (!totals) {
+            totals = emptyUsageTotals();
+            groups.set(key, totals);
+        }
+        addPoint(totals, point);
+    }
+    return Array.from(groups, ([key, totals]) => ({ key, totals }))
+        .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.tokens - a.totals.tokens);
+}
+
+/**
+ * Merge buckets split by model, agent or session back into one per time step
+ */
+export function usageTimeline(points: UsageDataPoint[]): UsageDataPoint[] {
+    const byTime = new Map<number, UsageDataPoint>();
+    for (const point of points) {
+        let merged = byTime.get(point.timestamp);
+        if (!merged) {
+            merged = { timestamp: point.timestamp, tokens: {}, cost: {}, reportCount: 0 };
+            byTime.set(point.timestamp, merged);
+        }
+        for (const [key, value] of Object.entries(point.tokens)) {
+            merged.tokens[key] = (merged.tokens[key] || 0) + value;
+        }
+        for (const [key, value] of Object.entries(point.cost)) {
+            merged.cost[key] = (merged.cost[key] || 0) + value;
+        }
+        merged.reportCount += point.reportCount;
+    }
+    return Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * One row per bucket with machine and project filled in, for export
+ */
+export function usageExportRows(
+    points: UsageDataPoint[],
+    sessionInfo: (sessionId: string) => UsageSessionInfo | null
+): UsageExportRow[] {
+    return points.map((point) => {
+        const info = point.sessionId ? sessionInfo(point.sessionId) : null;
+        const totals = sumUsage([point]);
+        return {
+            date: new Date(point.timestamp * 1000).toISOString(),
+            model: point.model ?? null,
+            agent: dimensionKey(point, 'agent', info),
+            machine: info?.machine ?? null,
+            project: info?.project ?? null,
+            sessionId: point.sessionId ?? null,
+            inputTokens: totals.inputTokens,
+            outputTokens: totals.outputTokens,
+            cacheCreationTokens: totals.cacheCreationTokens,
+            cacheReadTokens: totals.cacheReadTokens,
+            totalTokens: totals.tokens,
+            costUsd: totals.cost,
+            reports: totals.reports,
+        };
+    });
+}
+
+const CSV_COLUMNS: [keyof UsageExportRow, string][] = [
+    ['date', 'date'],
+    ['model', 'model'],
+    ['agent', 'agent'],
+    ['machine', 'machine'],
+    ['project', 'project'],
+    ['sessionId', 'session_id'],
+    ['inputTokens', 'input_tokens'],
+    ['outputTokens', 'output_tokens'],
+    ['cacheCreationTokens', 'cache_creation_tokens'],
+    ['cacheReadTokens', 'cache_read_tokens'],
+    ['totalTokens', 'total_tokens'],
+    ['costUsd', 'cost_usd'],
+    ['reports', 'reports'],
+];
+
+function csvField(value: string | number | null): string {
+    if (value === null) {
+        return '';
+    }
+    // Spreadsheets run text starting like a formula, names come from machines and projects
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function usageToCsv(rows: UsageExportRow[]): string {
+    const lines = [CSV_COLUMNS.map(([, header]) => header).join(',')];
+    for (const row of rows) {
+        lines.push(CSV_COLUMNS.map(([key]) => csvField(row[key])).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
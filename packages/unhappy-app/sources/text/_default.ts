@@ -1038,6 +1038,20 @@ export const en = {
     usageOverTime: 'Usage over time',
     byModel: 'By Model',
     noData: 'No usage data available',
+    model: 'Model',
+    agent: 'Agent',
+    machine: 'Machine',
+    project: 'Project',
+    byAgent: 'By Agent',
+    byMachine: 'By Machine',
+    byProject: 'By Project',
+    cacheHitRatio: 'Cache hit ratio',
+    vsPrevious: ({ change }: { change: string }) => `${change} vs previous period`,
+    unknown: 'Unknown',
+    export: 'Export',
+    exportCsv: 'Export as CSV',
+    exportJson: 'Export as JSON',
+    exportFooter: 'Usage of the selected period split by day, model, agent, machine and project, for spreadsheets and chargeback.',
   },
 
   feed: {
@@ -1140,6 +1154,290 @@ export const en = {
     deleteWorktreeConfirm: 'Are you sure you want to delete this worktree? All sessions will be archived.',
     archiveSessionConfirm: 'Are you sure you want to archive this session?',
   },
+  schedules: {
+    title: 'Scheduled Prompts',
+    machineEntrySubtitle: 'Run prompts on this machine on a schedule',
+    empty: 'No scheduled prompts yet',
+    newSchedule: 'New Schedule',
+    editSchedule: 'Edit Schedule',
+    name: 'Name',
+    namePlaceholder: 'Morning review',
+    directory: 'Directory',
+    prompt: 'Prompt',
+    promptPlaceholder: 'What should the agent do?',
+    agent: 'Agent',
+    enabled: 'Enabled',
+    repeat: 'Repeat',
+    once: 'Once',
+    weekly: 'Weekly',
+    interval: 'Interval',
+    time: 'Time (HH:MM)',
+    date: 'Date (YYYY-MM-DD)',
+    intervalMinutes: 'Every (minutes)',
+    days: 'Days',
+    dayShort: ({ day }: { day: number }) =>
+      ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][day] ?? '',
+    everyDay: 'Every day',
+    weekdays: 'Weekdays',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} at ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `Every ${minutes} min`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `Once on ${date}`,
+    nextRun: ({ date }: { date: string }) =>
+      `Next run: ${date}`,
+    notScheduled: 'Not scheduled',
+    runNow: 'Run Now',
+    history: 'Run History',
+    noRuns: 'No runs yet',
+    statusRunning: 'Running',
+    statusCompleted: 'Completed',
+    statusSkipped: 'Skipped',
+    statusFailed: 'Failed',
+    deleteConfirmTitle: 'Delete schedule?',
+    deleteConfirmDescription: 'This schedule and its run history will be removed from the machine.',
+    runStarted: 'Run started',
+    runSkipped: 'Skipped: the previous run is still active',
+    missingFields: 'Name, directory and prompt are required',
+    invalidTime: 'Enter the time as HH:MM',
+    invalidDate: 'Enter the date as YYYY-MM-DD',
+    invalidInterval: 'The interval must be at least 5 minutes',
+    selectDays: 'Select at least one day',
+    loadFailed: 'Could not load schedules. Make sure the daemon runs the latest CLI version.',
+  },
+  sessionSharing: {
+    title: 'Share Session',
+    shareSubtitle: 'Let friends follow this session read-only',
+    sharedBy: 'Shared by',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `Read-only: ${name} shared this session with you`,
+    sharedWith: 'Shared With',
+    notShared: 'Not shared with anyone yet',
+    friends: 'Friends',
+    noFriends: 'Add friends to share sessions with them',
+    share: 'Share',
+    revoke: 'Revoke',
+    revokeTitle: 'Revoke access?',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} will no longer see this session.`,
+    revokeFailed: 'Failed to revoke access',
+    shareFailed: 'Failed to share the session',
+    notFriends: 'Sessions can only be shared with friends',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} needs to open the latest app version before you can share with them`,
+    notShareable: 'This session can\'t be shared',
+    notShareableDescription: 'Sessions started with an older CLI version are encrypted with your account key and can\'t be shared.',
+    readOnlyFooter: 'Friends see messages and status in real time but can\'t send messages or answer permission requests.',
+  },
+  sessionTerminal: {
+    title: 'Terminal',
+    openSubtitle: 'Open a shell in the session folder',
+    starting: 'Starting terminal...',
+    exited: 'Process exited',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `Process exited with code ${code}`,
+    restart: 'Restart',
+    closeTitle: 'Close terminal?',
+    closeConfirm: 'Everything running in this terminal will be stopped.',
+    openFailed: 'Failed to open terminal',
+    noTmux: 'tmux is not installed on this machine, resizing and reconnecting are not available.',
+  },
+  sessionArchive: {
+    groupTitle: 'Sessions',
+    groupFooter: 'Archives contain the decrypted conversation, keep them somewhere safe.',
+    exportTitle: 'Export Session',
+    exportSubtitle: 'Save the conversation as an archive file',
+    exportFailed: 'Failed to export the session',
+    importTitle: 'Import Session',
+    importSubtitle: 'Recreate a session from an archive file',
+    importFailed: 'Failed to import the session',
+    invalidFile: 'This file is not a session archive',
+    importedAt: 'Imported',
+    readOnlyBanner: 'Read-only: imported from an archive',
+  },
+  search: {
+    title: 'Search Messages',
+    placeholder: 'Search all sessions',
+    commandSubtitle: 'Find text, tools and files across sessions',
+    results: 'Messages',
+    noResults: 'No matches',
+    noResultsHint: 'Only messages this device has decrypted are searchable, index all sessions below to include older history.',
+    unknownSession: 'Unknown session',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `${messages} messages from ${sessions} sessions indexed on this device`,
+    buildIndex: 'Index All Sessions',
+    buildIndexFooter: 'Downloads and decrypts the history of every session to build the local search index. Nothing leaves this device.',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} of ${total} sessions`,
+  },
+  codeReview: {
+    hint: 'Tap a line to comment on it, tap another line to extend the selection or a hunk header to select the whole hunk.',
+    addComment: 'Add comment',
+    commentPlaceholder: 'Leave a comment for the agent',
+    pendingComments: ({ count }: { count: number }) =>
+      `Pending comments: ${count}`,
+    submit: 'Submit review',
+    discard: 'Discard',
+    discardConfirm: 'Discard all pending comments?',
+    draft: 'Pending',
+    open: 'Sent',
+    resolved: 'Resolved',
+    messageDisplay: ({ count }: { count: number }) =>
+      `Code review: ${count} comments`,
+  },
+  permissionRules: {
+    title: 'Permission rules',
+    subtitle: 'Allow, deny or ask before tools run',
+    rules: 'Account rules',
+    rulesFooter: 'Apply to every session. The deny and ask rules in .unhappy/permissions.json of a project apply on top of these, deny wins over ask and ask wins over allow. Codex runs commands it considers read-only, such as ls or cat, without asking, so rules don\'t apply to them.',
+    empty: 'No account rules',
+    editor: 'Edit as JSON',
+    editorFooter: 'Same format as .unhappy/permissions.json. Each rule has an action (allow, deny or ask) and optional tool, command and path globs.',
+    invalid: ({ error }: { error: string }) =>
+      `Invalid rules: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Allowed by ${source} rule: ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Denied by ${source} rule: ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Asked by ${source} rule: ${rule}`,
+    sourceProject: 'project',
+    sourceAccount: 'account',
+    sourceSession: 'session',
+  },
+  sessionAudit: {
+    title: 'Audit log',
+    subtitle: 'Permission decisions and tool runs',
+    footer: 'Recorded by the CLI and end-to-end encrypted with the session key. Entries can\'t be edited or removed.',
+    empty: 'Nothing recorded yet',
+    loadFailed: 'Failed to load the audit log',
+    approved: 'Approved',
+    approvedForSession: 'Approved for session',
+    denied: 'Denied',
+    aborted: 'Aborted',
+    succeeded: 'Succeeded',
+    failed: 'Failed',
+    byYou: 'By you',
+    byYouOn: ({ device }: { device: string }) =>
+      `By you on ${device}`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `By ${source} rule: ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `Automatically in ${mode} mode`,
+    exitCode: ({ code }: { code: number }) =>
+      `Exit code ${code}`,
+    files: ({ files }: { files: string }) =>
+      `Files: ${files}`,
+  },
+  race: {
+    sessionType: 'Race',
+    title: 'Race',
+    contestantsHint: 'Pick at least two agents or models. Each one gets the same prompt in its own worktree.',
+    defaultModel: 'Default',
+    needContestants: 'Pick at least two contestants for a race',
+    needPrompt: 'A race needs a prompt',
+    notFound: 'Race not found',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `From ${branch}`,
+    starting: 'Starting…',
+    working: 'Working',
+    done: 'Done',
+    failedToStart: ({ error }: { error: string }) =>
+      `Failed to start: ${error}`,
+    changes: 'Changes',
+    noChanges: 'No changes yet',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `${files} files, +${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `and ${count} more`,
+    untracked: 'new',
+    usage: 'Usage',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `${tokens} tokens`,
+    noUsage: 'No usage yet',
+    tests: 'Tests',
+    runTests: 'Run tests',
+    testCommand: 'Command to run in every worktree',
+    testsPassed: 'Passed',
+    testsFailed: ({ code }: { code: number }) =>
+      `Failed (exit code ${code})`,
+    notTested: 'Not run yet',
+    openSession: 'Open session',
+    viewChanges: 'View changes',
+    pickWinner: 'Pick as winner',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `Merge ${name} into ${branch}? The other worktrees and their sessions will be removed.`,
+    merge: 'Merge',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} was merged into ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `Could not finish the race: ${error}`,
+    openRace: 'Race',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `Compare with the other ${count} contestants`,
+  },
+  machineHealth: {
+    title: 'Machine health',
+    footer: 'Counted since the daemon started. Only numbers are reported, never session content.',
+    uptime: 'Daemon uptime',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} h ${minutes} min`,
+    activeSessions: 'Active sessions',
+    sessionsStarted: 'Sessions started',
+    sessionStartFailures: 'Failed session starts',
+    rpcCalls: 'Remote calls',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count} (${errors} failed)`,
+    rpcLatency: 'Remote call latency',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: 'Reconnects',
+    lastReport: 'Last report',
+  },
+  devices: {
+    title: 'Devices',
+    subtitle: 'Apps and terminals signed in to this account',
+    signedIn: 'Signed in',
+    signedInFooter: 'Every app install and terminal signs in with its own key. Tap one to revoke it, it is signed out right away.',
+    thisDevice: 'This device',
+    app: 'App',
+    terminal: 'Terminal',
+    unnamed: 'Unnamed device',
+    loadFailed: 'Could not load devices, tap to retry',
+    revoke: 'Revoke',
+    revokeTitle: 'Revoke device',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} will be signed out and can no longer access this account.`,
+    revokeFailed: 'Failed to revoke the device',
+    security: 'Security',
+    securityFooter: 'Rotate the account key if your secret key may have leaked.',
+    rotateKey: 'Rotate account key',
+    rotateKeySubtitle: 'Replace the secret key and sign out every other device',
+    rotateKeyAction: 'Rotate',
+    rotateKeyConfirm: 'A new secret key is generated and every session, machine and artifact key is re-encrypted with it. All other devices are signed out and need the new secret key to sign in again. The app restarts with the new key, back it up afterwards under Account > Backup.',
+  },
+  budget: {
+    title: 'Budget',
+    none: 'None',
+    sessionBudget: 'Session budget',
+    sessionSubtitle: 'Applies from the next message',
+    accountFooter: 'Applies to every session without a budget of its own or of its profile. The agent pauses at the limit and asks before spending more. Claude sessions only.',
+    profileFooter: 'Sessions started with this profile pause at this limit unless they set their own. Leave empty for the account default.',
+    prompt: 'Dollars like $5 or tokens like 200k tokens. Leave empty to remove the budget.',
+    placeholder: '$5 or 200k tokens',
+    invalid: 'Enter an amount like $5 or 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `${amount} left`,
+    paused: 'Budget used up',
+    spent: ({ amount }: { amount: string }) =>
+      `${amount} spent`,
+    exceeded: 'Budget exceeded',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `Spent ${spent} of ${limit}. Continue for another budget?`,
+    continue: 'Continue',
+    stop: 'Stop',
+  },
 } as const;
 
 export type Translations = typeof en;
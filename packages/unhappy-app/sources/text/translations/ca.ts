@@ -1060,6 +1060,20 @@ export const ca: TranslationStructure = {
     usageOverTime: 'Ús al llarg del temps',
     byModel: 'Per model',
     noData: "No hi ha dades d'ús disponibles",
+    model: 'Model',
+    agent: 'Agent',
+    machine: 'Màquina',
+    project: 'Projecte',
+    byAgent: 'Per agent',
+    byMachine: 'Per màquina',
+    byProject: 'Per projecte',
+    cacheHitRatio: "Taxa d'encerts de memòria cau",
+    vsPrevious: ({ change }: { change: string }) => `${change} respecte al període anterior`,
+    unknown: 'Desconegut',
+    export: 'Exportar',
+    exportCsv: 'Exportar com a CSV',
+    exportJson: 'Exportar com a JSON',
+    exportFooter: 'Ús del període seleccionat desglossat per dia, model, agent, màquina i projecte, per a fulls de càlcul i refacturació.',
   },
 
   finishSession: {
@@ -1163,6 +1177,290 @@ export const ca: TranslationStructure = {
     deleteWorktreeConfirm: "Esteu segur que voleu eliminar aquest worktree? Totes les sessions seran arxivades.",
     archiveSessionConfirm: "Esteu segur que voleu arxivar aquesta sessió?",
   },
+  schedules: {
+    title: 'Prompts programats',
+    machineEntrySubtitle: 'Executa prompts en aquesta màquina segons una programació',
+    empty: 'Encara no hi ha prompts programats',
+    newSchedule: 'Nova programació',
+    editSchedule: 'Edita la programació',
+    name: 'Nom',
+    namePlaceholder: 'Revisió del matí',
+    directory: 'Directori',
+    prompt: 'Prompt',
+    promptPlaceholder: 'Què ha de fer l\'agent?',
+    agent: 'Agent',
+    enabled: 'Activat',
+    repeat: 'Repetició',
+    once: 'Una vegada',
+    weekly: 'Setmanal',
+    interval: 'Interval',
+    time: 'Hora (HH:MM)',
+    date: 'Data (AAAA-MM-DD)',
+    intervalMinutes: 'Cada (minuts)',
+    days: 'Dies',
+    dayShort: ({ day }: { day: number }) =>
+      ['dg.', 'dl.', 'dt.', 'dc.', 'dj.', 'dv.', 'ds.'][day] ?? '',
+    everyDay: 'Cada dia',
+    weekdays: 'Dies feiners',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} a les ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `Cada ${minutes} min`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `Una vegada el ${date}`,
+    nextRun: ({ date }: { date: string }) =>
+      `Propera execució: ${date}`,
+    notScheduled: 'No programat',
+    runNow: 'Executa ara',
+    history: 'Historial d\'execucions',
+    noRuns: 'Encara no hi ha execucions',
+    statusRunning: 'En curs',
+    statusCompleted: 'Completat',
+    statusSkipped: 'Omès',
+    statusFailed: 'Error',
+    deleteConfirmTitle: 'Eliminar la programació?',
+    deleteConfirmDescription: 'Aquesta programació i el seu historial s\'eliminaran de la màquina.',
+    runStarted: 'Execució iniciada',
+    runSkipped: 'Omès: l\'execució anterior encara està activa',
+    missingFields: 'El nom, el directori i el prompt són obligatoris',
+    invalidTime: 'Introdueix l\'hora com HH:MM',
+    invalidDate: 'Introdueix la data com AAAA-MM-DD',
+    invalidInterval: 'L\'interval ha de ser d\'almenys 5 minuts',
+    selectDays: 'Selecciona almenys un dia',
+    loadFailed: 'No s\'han pogut carregar les programacions. Assegura\'t que el dimoni executa l\'última versió del CLI.',
+  },
+  sessionSharing: {
+    title: 'Comparteix la sessió',
+    shareSubtitle: 'Permet que els amics segueixin aquesta sessió en mode només lectura',
+    sharedBy: 'Compartida per',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `Només lectura: ${name} ha compartit aquesta sessió amb tu`,
+    sharedWith: 'Compartida amb',
+    notShared: 'Encara no s\'ha compartit amb ningú',
+    friends: 'Amics',
+    noFriends: 'Afegeix amics per compartir-hi sessions',
+    share: 'Comparteix',
+    revoke: 'Revoca',
+    revokeTitle: 'Revocar l\'accés?',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} ja no podrà veure aquesta sessió.`,
+    revokeFailed: 'No s\'ha pogut revocar l\'accés',
+    shareFailed: 'No s\'ha pogut compartir la sessió',
+    notFriends: 'Les sessions només es poden compartir amb amics',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} ha d'obrir la darrera versió de l'app abans que hi puguis compartir`,
+    notShareable: 'Aquesta sessió no es pot compartir',
+    notShareableDescription: 'Les sessions iniciades amb una versió antiga del CLI estan xifrades amb la clau del teu compte i no es poden compartir.',
+    readOnlyFooter: 'Els amics veuen els missatges i l\'estat en temps real, però no poden enviar missatges ni respondre sol·licituds de permís.',
+  },
+  sessionTerminal: {
+    title: 'Terminal',
+    openSubtitle: 'Obre un shell a la carpeta de la sessió',
+    starting: 'Iniciant el terminal...',
+    exited: 'El procés ha acabat',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `El procés ha acabat amb el codi ${code}`,
+    restart: 'Reinicia',
+    closeTitle: 'Tancar el terminal?',
+    closeConfirm: 'S\'aturarà tot el que s\'executa en aquest terminal.',
+    openFailed: 'No s\'ha pogut obrir el terminal',
+    noTmux: 'tmux no està instal·lat en aquesta màquina, no es pot redimensionar ni reconnectar.',
+  },
+  sessionArchive: {
+    groupTitle: 'Sessions',
+    groupFooter: 'Els arxius contenen la conversa desxifrada, guarda\'ls en un lloc segur.',
+    exportTitle: 'Exporta la sessió',
+    exportSubtitle: 'Desa la conversa com a fitxer d\'arxiu',
+    exportFailed: 'No s\'ha pogut exportar la sessió',
+    importTitle: 'Importa una sessió',
+    importSubtitle: 'Recrea una sessió a partir d\'un fitxer d\'arxiu',
+    importFailed: 'No s\'ha pogut importar la sessió',
+    invalidFile: 'Aquest fitxer no és un arxiu de sessió',
+    importedAt: 'Importada',
+    readOnlyBanner: 'Només lectura: importada d\'un arxiu',
+  },
+  search: {
+    title: 'Cerca missatges',
+    placeholder: 'Cerca a totes les sessions',
+    commandSubtitle: 'Troba text, eines i fitxers a les sessions',
+    results: 'Missatges',
+    noResults: 'Cap coincidència',
+    noResultsHint: 'Només es poden cercar els missatges que aquest dispositiu ha desxifrat, indexa totes les sessions a sota per incloure l\'historial anterior.',
+    unknownSession: 'Sessió desconeguda',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `${messages} missatges de ${sessions} sessions indexats en aquest dispositiu`,
+    buildIndex: 'Indexa totes les sessions',
+    buildIndexFooter: 'Descarrega i desxifra l\'historial de cada sessió per construir l\'índex de cerca local. Res surt d\'aquest dispositiu.',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} de ${total} sessions`,
+  },
+  codeReview: {
+    hint: 'Toca una línia per comentar-la, toca una altra línia per ampliar la selecció o la capçalera d\'un bloc per seleccionar-lo sencer.',
+    addComment: 'Afegeix comentari',
+    commentPlaceholder: 'Deixa un comentari per a l\'agent',
+    pendingComments: ({ count }: { count: number }) =>
+      `Comentaris pendents: ${count}`,
+    submit: 'Envia la revisió',
+    discard: 'Descarta',
+    discardConfirm: 'Vols descartar tots els comentaris pendents?',
+    draft: 'Pendent',
+    open: 'Enviat',
+    resolved: 'Resolt',
+    messageDisplay: ({ count }: { count: number }) =>
+      `Revisió de codi: ${count} comentaris`,
+  },
+  permissionRules: {
+    title: 'Regles de permisos',
+    subtitle: 'Permet, denega o pregunta abans d\'executar eines',
+    rules: 'Regles del compte',
+    rulesFooter: 'S\'apliquen a totes les sessions. Les regles de denegar i preguntar de .unhappy/permissions.json d\'un projecte s\'hi afegeixen; denegar té prioritat sobre preguntar i preguntar sobre permetre. Codex executa sense preguntar les ordres que considera de només lectura, com ls o cat, i les regles no s\'hi apliquen.',
+    empty: 'No hi ha regles del compte',
+    editor: 'Edita com a JSON',
+    editorFooter: 'Mateix format que .unhappy/permissions.json. Cada regla té una acció (allow, deny o ask) i patrons opcionals de tool, command i path.',
+    invalid: ({ error }: { error: string }) =>
+      `Regles no vàlides: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Permès per la regla ${source}: ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Denegat per la regla ${source}: ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Preguntat per la regla ${source}: ${rule}`,
+    sourceProject: 'del projecte',
+    sourceAccount: 'del compte',
+    sourceSession: 'de la sessió',
+  },
+  sessionAudit: {
+    title: 'Registre d\'auditoria',
+    subtitle: 'Decisions de permisos i execucions d\'eines',
+    footer: 'Registrat per la CLI i xifrat d\'extrem a extrem amb la clau de la sessió. Les entrades no es poden editar ni eliminar.',
+    empty: 'Encara no s\'ha registrat res',
+    loadFailed: 'No s\'ha pogut carregar el registre d\'auditoria',
+    approved: 'Aprovat',
+    approvedForSession: 'Aprovat per a la sessió',
+    denied: 'Denegat',
+    aborted: 'Avortat',
+    succeeded: 'Correcte',
+    failed: 'Ha fallat',
+    byYou: 'Per tu',
+    byYouOn: ({ device }: { device: string }) =>
+      `Per tu des de ${device}`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `Per la regla de ${source}: ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `Automàticament en mode ${mode}`,
+    exitCode: ({ code }: { code: number }) =>
+      `Codi de sortida ${code}`,
+    files: ({ files }: { files: string }) =>
+      `Fitxers: ${files}`,
+  },
+  race: {
+    sessionType: 'Cursa',
+    title: 'Cursa',
+    contestantsHint: 'Tria com a mínim dos agents o models. Cadascun rep la mateixa instrucció al seu propi worktree.',
+    defaultModel: 'Per defecte',
+    needContestants: 'Tria com a mínim dos participants per a una cursa',
+    needPrompt: 'Una cursa necessita una instrucció',
+    notFound: 'No s\'ha trobat la cursa',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `Des de ${branch}`,
+    starting: 'Iniciant…',
+    working: 'Treballant',
+    done: 'Fet',
+    failedToStart: ({ error }: { error: string }) =>
+      `No s'ha pogut iniciar: ${error}`,
+    changes: 'Canvis',
+    noChanges: 'Encara no hi ha canvis',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `${files} fitxers, +${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `i ${count} més`,
+    untracked: 'nou',
+    usage: 'Ús',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `${tokens} tokens`,
+    noUsage: 'Encara no hi ha ús',
+    tests: 'Proves',
+    runTests: 'Executa les proves',
+    testCommand: 'Ordre a executar a cada worktree',
+    testsPassed: 'Correctes',
+    testsFailed: ({ code }: { code: number }) =>
+      `Han fallat (codi de sortida ${code})`,
+    notTested: 'Encara no s\'han executat',
+    openSession: 'Obre la sessió',
+    viewChanges: 'Mostra els canvis',
+    pickWinner: 'Tria com a guanyador',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `Fusionar ${name} a ${branch}? Els altres worktrees i les seves sessions s'eliminaran.`,
+    merge: 'Fusiona',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} s'ha fusionat a ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `No s'ha pogut acabar la cursa: ${error}`,
+    openRace: 'Cursa',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `Compara amb els altres ${count} participants`,
+  },
+  machineHealth: {
+    title: 'Estat de la màquina',
+    footer: 'Comptat des que es va iniciar el daemon. Només s\'envien xifres, mai el contingut de les sessions.',
+    uptime: 'Temps actiu del daemon',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} h ${minutes} min`,
+    activeSessions: 'Sessions actives',
+    sessionsStarted: 'Sessions iniciades',
+    sessionStartFailures: 'Inicis de sessió fallits',
+    rpcCalls: 'Crides remotes',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count} (${errors} fallides)`,
+    rpcLatency: 'Latència de les crides remotes',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: 'Reconnexions',
+    lastReport: 'Últim informe',
+  },
+  devices: {
+    title: 'Dispositius',
+    subtitle: 'Apps i terminals connectats a aquest compte',
+    signedIn: 'Connectats',
+    signedInFooter: 'Cada instal·lació de l\'app i cada terminal inicia sessió amb la seva pròpia clau. Toca\'n un per revocar-lo, es desconnecta immediatament.',
+    thisDevice: 'Aquest dispositiu',
+    app: 'App',
+    terminal: 'Terminal',
+    unnamed: 'Dispositiu sense nom',
+    loadFailed: 'No s\'han pogut carregar els dispositius, toca per tornar-ho a provar',
+    revoke: 'Revoca',
+    revokeTitle: 'Revoca el dispositiu',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} es desconnectarà i ja no podrà accedir a aquest compte.`,
+    revokeFailed: 'No s\'ha pogut revocar el dispositiu',
+    security: 'Seguretat',
+    securityFooter: 'Canvia la clau del compte si la teva clau secreta pot haver-se filtrat.',
+    rotateKey: 'Canvia la clau del compte',
+    rotateKeySubtitle: 'Substitueix la clau secreta i desconnecta tots els altres dispositius',
+    rotateKeyAction: 'Canvia',
+    rotateKeyConfirm: 'Es genera una nova clau secreta i totes les claus de sessions, màquines i artefactes es tornen a xifrar amb ella. Tots els altres dispositius es desconnecten i necessiten la nova clau secreta per tornar a iniciar sessió. L\'aplicació es reinicia amb la nova clau, després fes-ne una còpia a Compte > Còpia de seguretat.',
+  },
+  budget: {
+    title: 'Pressupost',
+    none: 'Cap',
+    sessionBudget: 'Pressupost de la sessió',
+    sessionSubtitle: 'S\'aplica a partir del següent missatge',
+    accountFooter: 'S\'aplica a totes les sessions sense pressupost propi ni del seu perfil. L\'agent s\'atura al límit i pregunta abans de gastar més. Només sessions de Claude.',
+    profileFooter: 'Les sessions iniciades amb aquest perfil s\'aturen en aquest límit tret que en defineixin un de propi. Deixa-ho buit per usar el del compte.',
+    prompt: 'Dòlars com $5 o tokens com 200k tokens. Deixa-ho buit per treure el pressupost.',
+    placeholder: '$5 o 200k tokens',
+    invalid: 'Introdueix una quantitat com $5 o 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `Queden ${amount}`,
+    paused: 'Pressupost esgotat',
+    spent: ({ amount }: { amount: string }) =>
+      `${amount} gastats`,
+    exceeded: 'Pressupost superat',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `S'han gastat ${spent} de ${limit}. Continuar amb un altre pressupost?`,
+    continue: 'Continuar',
+    stop: 'Aturar',
+  },
 } as const;
 
 export type TranslationsCa = typeof ca;
@@ -1058,6 +1058,20 @@ export const es: TranslationStructure = {
     usageOverTime: 'Uso a lo largo del tiempo',
     byModel: 'Por modelo',
     noData: 'No hay datos de uso disponibles',
+    model: 'Modelo',
+    agent: 'Agente',
+    machine: 'Máquina',
+    project: 'Proyecto',
+    byAgent: 'Por agente',
+    byMachine: 'Por máquina',
+    byProject: 'Por proyecto',
+    cacheHitRatio: 'Tasa de aciertos de caché',
+    vsPrevious: ({ change }: { change: string }) => `${change} frente al período anterior`,
+    unknown: 'Desconocido',
+    export: 'Exportar',
+    exportCsv: 'Exportar como CSV',
+    exportJson: 'Exportar como JSON',
+    exportFooter: 'Uso del período seleccionado desglosado por día, modelo, agente, máquina y proyecto, para hojas de cálculo y refacturación.',
   },
 
   feed: {
@@ -1161,6 +1175,290 @@ export const es: TranslationStructure = {
     deleteWorktreeConfirm: '¿Estás seguro de que deseas eliminar este worktree? Todas las sesiones serán archivadas.',
     archiveSessionConfirm: '¿Estás seguro de que deseas archivar esta sesión?',
   },
+  schedules: {
+    title: 'Prompts programados',
+    machineEntrySubtitle: 'Ejecuta prompts en esta máquina según una programación',
+    empty: 'Aún no hay prompts programados',
+    newSchedule: 'Nueva programación',
+    editSchedule: 'Editar programación',
+    name: 'Nombre',
+    namePlaceholder: 'Revisión matutina',
+    directory: 'Directorio',
+    prompt: 'Prompt',
+    promptPlaceholder: '¿Qué debe hacer el agente?',
+    agent: 'Agente',
+    enabled: 'Activado',
+    repeat: 'Repetir',
+    once: 'Una vez',
+    weekly: 'Semanal',
+    interval: 'Intervalo',
+    time: 'Hora (HH:MM)',
+    date: 'Fecha (AAAA-MM-DD)',
+    intervalMinutes: 'Cada (minutos)',
+    days: 'Días',
+    dayShort: ({ day }: { day: number }) =>
+      ['dom', 'lun', 'mar', 'mié', 'jue', 'vie', 'sáb'][day] ?? '',
+    everyDay: 'Todos los días',
+    weekdays: 'Días laborables',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} a las ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `Cada ${minutes} min`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `Una vez el ${date}`,
+    nextRun: ({ date }: { date: string }) =>
+      `Próxima ejecución: ${date}`,
+    notScheduled: 'Sin programar',
+    runNow: 'Ejecutar ahora',
+    history: 'Historial de ejecuciones',
+    noRuns: 'Aún no hay ejecuciones',
+    statusRunning: 'En curso',
+    statusCompleted: 'Completado',
+    statusSkipped: 'Omitido',
+    statusFailed: 'Fallido',
+    deleteConfirmTitle: '¿Eliminar programación?',
+    deleteConfirmDescription: 'Esta programación y su historial se eliminarán de la máquina.',
+    runStarted: 'Ejecución iniciada',
+    runSkipped: 'Omitido: la ejecución anterior sigue activa',
+    missingFields: 'El nombre, el directorio y el prompt son obligatorios',
+    invalidTime: 'Introduce la hora como HH:MM',
+    invalidDate: 'Introduce la fecha como AAAA-MM-DD',
+    invalidInterval: 'El intervalo debe ser de al menos 5 minutos',
+    selectDays: 'Selecciona al menos un día',
+    loadFailed: 'No se pudieron cargar las programaciones. Asegúrate de que el daemon use la última versión del CLI.',
+  },
+  sessionSharing: {
+    title: 'Compartir sesión',
+    shareSubtitle: 'Permite que tus amigos sigan esta sesión en modo solo lectura',
+    sharedBy: 'Compartida por',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `Solo lectura: ${name} compartió esta sesión contigo`,
+    sharedWith: 'Compartida con',
+    notShared: 'Aún no se ha compartido con nadie',
+    friends: 'Amigos',
+    noFriends: 'Añade amigos para compartir sesiones con ellos',
+    share: 'Compartir',
+    revoke: 'Revocar',
+    revokeTitle: '¿Revocar el acceso?',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} ya no podrá ver esta sesión.`,
+    revokeFailed: 'No se pudo revocar el acceso',
+    shareFailed: 'No se pudo compartir la sesión',
+    notFriends: 'Las sesiones solo se pueden compartir con amigos',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} debe abrir la última versión de la app antes de que puedas compartir con esa persona`,
+    notShareable: 'Esta sesión no se puede compartir',
+    notShareableDescription: 'Las sesiones iniciadas con una versión antigua del CLI están cifradas con la clave de tu cuenta y no se pueden compartir.',
+    readOnlyFooter: 'Los amigos ven los mensajes y el estado en tiempo real, pero no pueden enviar mensajes ni responder solicitudes de permiso.',
+  },
+  sessionTerminal: {
+    title: 'Terminal',
+    openSubtitle: 'Abre una shell en la carpeta de la sesión',
+    starting: 'Iniciando terminal...',
+    exited: 'El proceso terminó',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `El proceso terminó con el código ${code}`,
+    restart: 'Reiniciar',
+    closeTitle: '¿Cerrar terminal?',
+    closeConfirm: 'Se detendrá todo lo que se esté ejecutando en este terminal.',
+    openFailed: 'No se pudo abrir el terminal',
+    noTmux: 'tmux no está instalado en esta máquina, no se puede redimensionar ni reconectar.',
+  },
+  sessionArchive: {
+    groupTitle: 'Sesiones',
+    groupFooter: 'Los archivos contienen la conversación descifrada, guárdalos en un lugar seguro.',
+    exportTitle: 'Exportar sesión',
+    exportSubtitle: 'Guardar la conversación como archivo',
+    exportFailed: 'No se pudo exportar la sesión',
+    importTitle: 'Importar sesión',
+    importSubtitle: 'Recrear una sesión desde un archivo',
+    importFailed: 'No se pudo importar la sesión',
+    invalidFile: 'Este archivo no es un archivo de sesión',
+    importedAt: 'Importada',
+    readOnlyBanner: 'Solo lectura: importada desde un archivo',
+  },
+  search: {
+    title: 'Buscar mensajes',
+    placeholder: 'Buscar en todas las sesiones',
+    commandSubtitle: 'Encuentra texto, herramientas y archivos en las sesiones',
+    results: 'Mensajes',
+    noResults: 'Sin coincidencias',
+    noResultsHint: 'Solo se pueden buscar los mensajes que este dispositivo ha descifrado, indexa todas las sesiones abajo para incluir el historial anterior.',
+    unknownSession: 'Sesión desconocida',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `${messages} mensajes de ${sessions} sesiones indexados en este dispositivo`,
+    buildIndex: 'Indexar todas las sesiones',
+    buildIndexFooter: 'Descarga y descifra el historial de cada sesión para crear el índice de búsqueda local. Nada sale de este dispositivo.',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} de ${total} sesiones`,
+  },
+  codeReview: {
+    hint: 'Toca una línea para comentarla, toca otra línea para ampliar la selección o el encabezado de un bloque para seleccionarlo entero.',
+    addComment: 'Añadir comentario',
+    commentPlaceholder: 'Deja un comentario para el agente',
+    pendingComments: ({ count }: { count: number }) =>
+      `Comentarios pendientes: ${count}`,
+    submit: 'Enviar revisión',
+    discard: 'Descartar',
+    discardConfirm: '¿Descartar todos los comentarios pendientes?',
+    draft: 'Pendiente',
+    open: 'Enviado',
+    resolved: 'Resuelto',
+    messageDisplay: ({ count }: { count: number }) =>
+      `Revisión de código: ${count} comentarios`,
+  },
+  permissionRules: {
+    title: 'Reglas de permisos',
+    subtitle: 'Permitir, denegar o preguntar antes de ejecutar herramientas',
+    rules: 'Reglas de la cuenta',
+    rulesFooter: 'Se aplican a todas las sesiones. Las reglas de denegar y preguntar de .unhappy/permissions.json de un proyecto se suman a estas; denegar prevalece sobre preguntar y preguntar sobre permitir. Codex ejecuta sin preguntar los comandos que considera de solo lectura, como ls o cat, y las reglas no se les aplican.',
+    empty: 'No hay reglas de la cuenta',
+    editor: 'Editar como JSON',
+    editorFooter: 'Mismo formato que .unhappy/permissions.json. Cada regla tiene una acción (allow, deny o ask) y patrones opcionales de tool, command y path.',
+    invalid: ({ error }: { error: string }) =>
+      `Reglas no válidas: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Permitido por la regla ${source}: ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Denegado por la regla ${source}: ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Preguntado por la regla ${source}: ${rule}`,
+    sourceProject: 'del proyecto',
+    sourceAccount: 'de la cuenta',
+    sourceSession: 'de la sesión',
+  },
+  sessionAudit: {
+    title: 'Registro de auditoría',
+    subtitle: 'Decisiones de permisos y ejecuciones de herramientas',
+    footer: 'Registrado por la CLI y cifrado de extremo a extremo con la clave de la sesión. Las entradas no se pueden editar ni eliminar.',
+    empty: 'Aún no hay nada registrado',
+    loadFailed: 'No se pudo cargar el registro de auditoría',
+    approved: 'Aprobado',
+    approvedForSession: 'Aprobado para la sesión',
+    denied: 'Denegado',
+    aborted: 'Abortado',
+    succeeded: 'Correcto',
+    failed: 'Falló',
+    byYou: 'Por ti',
+    byYouOn: ({ device }: { device: string }) =>
+      `Por ti desde ${device}`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `Por la regla de ${source}: ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `Automáticamente en modo ${mode}`,
+    exitCode: ({ code }: { code: number }) =>
+      `Código de salida ${code}`,
+    files: ({ files }: { files: string }) =>
+      `Archivos: ${files}`,
+  },
+  race: {
+    sessionType: 'Carrera',
+    title: 'Carrera',
+    contestantsHint: 'Elige al menos dos agentes o modelos. Cada uno recibe la misma instrucción en su propio worktree.',
+    defaultModel: 'Predeterminado',
+    needContestants: 'Elige al menos dos participantes para una carrera',
+    needPrompt: 'Una carrera necesita una instrucción',
+    notFound: 'Carrera no encontrada',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `Desde ${branch}`,
+    starting: 'Iniciando…',
+    working: 'Trabajando',
+    done: 'Listo',
+    failedToStart: ({ error }: { error: string }) =>
+      `No se pudo iniciar: ${error}`,
+    changes: 'Cambios',
+    noChanges: 'Aún no hay cambios',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `${files} archivos, +${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `y ${count} más`,
+    untracked: 'nuevo',
+    usage: 'Uso',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `${tokens} tokens`,
+    noUsage: 'Aún no hay uso',
+    tests: 'Pruebas',
+    runTests: 'Ejecutar pruebas',
+    testCommand: 'Comando a ejecutar en cada worktree',
+    testsPassed: 'Correctas',
+    testsFailed: ({ code }: { code: number }) =>
+      `Fallaron (código de salida ${code})`,
+    notTested: 'Aún no se han ejecutado',
+    openSession: 'Abrir sesión',
+    viewChanges: 'Ver cambios',
+    pickWinner: 'Elegir como ganador',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `¿Fusionar ${name} en ${branch}? Los demás worktrees y sus sesiones se eliminarán.`,
+    merge: 'Fusionar',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} se fusionó en ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `No se pudo terminar la carrera: ${error}`,
+    openRace: 'Carrera',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `Comparar con los otros ${count} participantes`,
+  },
+  machineHealth: {
+    title: 'Estado de la máquina',
+    footer: 'Contado desde que se inició el daemon. Solo se envían cifras, nunca el contenido de las sesiones.',
+    uptime: 'Tiempo activo del daemon',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} h ${minutes} min`,
+    activeSessions: 'Sesiones activas',
+    sessionsStarted: 'Sesiones iniciadas',
+    sessionStartFailures: 'Inicios de sesión fallidos',
+    rpcCalls: 'Llamadas remotas',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count} (${errors} fallidas)`,
+    rpcLatency: 'Latencia de las llamadas remotas',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: 'Reconexiones',
+    lastReport: 'Último informe',
+  },
+  devices: {
+    title: 'Dispositivos',
+    subtitle: 'Apps y terminales conectados a esta cuenta',
+    signedIn: 'Conectados',
+    signedInFooter: 'Cada instalación de la app y cada terminal inicia sesión con su propia clave. Toca uno para revocarlo, se desconecta al instante.',
+    thisDevice: 'Este dispositivo',
+    app: 'App',
+    terminal: 'Terminal',
+    unnamed: 'Dispositivo sin nombre',
+    loadFailed: 'No se pudieron cargar los dispositivos, toca para reintentar',
+    revoke: 'Revocar',
+    revokeTitle: 'Revocar dispositivo',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} se desconectará y ya no podrá acceder a esta cuenta.`,
+    revokeFailed: 'No se pudo revocar el dispositivo',
+    security: 'Seguridad',
+    securityFooter: 'Cambia la clave de la cuenta si tu clave secreta puede haberse filtrado.',
+    rotateKey: 'Cambiar clave de la cuenta',
+    rotateKeySubtitle: 'Sustituye la clave secreta y desconecta todos los demás dispositivos',
+    rotateKeyAction: 'Cambiar',
+    rotateKeyConfirm: 'Se genera una nueva clave secreta y todas las claves de sesiones, máquinas y artefactos se vuelven a cifrar con ella. Todos los demás dispositivos se desconectan y necesitan la nueva clave secreta para volver a iniciar sesión. La app se reinicia con la nueva clave, guarda después una copia en Cuenta > Copia de seguridad.',
+  },
+  budget: {
+    title: 'Presupuesto',
+    none: 'Ninguno',
+    sessionBudget: 'Presupuesto de la sesión',
+    sessionSubtitle: 'Se aplica a partir del siguiente mensaje',
+    accountFooter: 'Se aplica a todas las sesiones sin presupuesto propio ni de su perfil. El agente se pausa en el límite y pregunta antes de gastar más. Solo sesiones de Claude.',
+    profileFooter: 'Las sesiones iniciadas con este perfil se pausan en este límite salvo que definan uno propio. Déjalo vacío para usar el de la cuenta.',
+    prompt: 'Dólares como $5 o tokens como 200k tokens. Déjalo vacío para quitar el presupuesto.',
+    placeholder: '$5 o 200k tokens',
+    invalid: 'Introduce una cantidad como $5 o 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `Quedan ${amount}`,
+    paused: 'Presupuesto agotado',
+    spent: ({ amount }: { amount: string }) =>
+      `${amount} gastados`,
+    exceeded: 'Presupuesto superado',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `Gastado ${spent} de ${limit}. ¿Continuar con otro presupuesto?`,
+    continue: 'Continuar',
+    stop: 'Detener',
+  },
 } as const;
 
 export type TranslationsEs = typeof es;
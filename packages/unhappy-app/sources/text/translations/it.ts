@@ -1139,6 +1139,20 @@ export const it: TranslationStructure = {
     usageOverTime: 'Utilizzo nel tempo',
     byModel: 'Per modello',
     noData: 'Nessun dato di utilizzo disponibile',
+    model: 'Modello',
+    agent: 'Agente',
+    machine: 'Macchina',
+    project: 'Progetto',
+    byAgent: 'Per agente',
+    byMachine: 'Per macchina',
+    byProject: 'Per progetto',
+    cacheHitRatio: 'Tasso di hit della cache',
+    vsPrevious: ({ change }: { change: string }) => `${change} rispetto al periodo precedente`,
+    unknown: 'Sconosciuto',
+    export: 'Esporta',
+    exportCsv: 'Esporta come CSV',
+    exportJson: 'Esporta come JSON',
+    exportFooter: 'Utilizzo del periodo selezionato suddiviso per giorno, modello, agente, macchina e progetto, per fogli di calcolo e riaddebito.',
   },
 
   feed: {
@@ -1157,6 +1171,290 @@ export const it: TranslationStructure = {
     deleteWorktreeConfirm: 'Sei sicuro di voler eliminare questo worktree? Tutte le sessioni verranno archiviate.',
     archiveSessionConfirm: 'Sei sicuro di voler archiviare questa sessione?',
   },
+  schedules: {
+    title: 'Prompt pianificati',
+    machineEntrySubtitle: 'Esegui prompt su questa macchina secondo una pianificazione',
+    empty: 'Nessun prompt pianificato',
+    newSchedule: 'Nuova pianificazione',
+    editSchedule: 'Modifica pianificazione',
+    name: 'Nome',
+    namePlaceholder: 'Revisione mattutina',
+    directory: 'Directory',
+    prompt: 'Prompt',
+    promptPlaceholder: 'Cosa deve fare l\'agente?',
+    agent: 'Agente',
+    enabled: 'Attivo',
+    repeat: 'Ripeti',
+    once: 'Una volta',
+    weekly: 'Settimanale',
+    interval: 'Intervallo',
+    time: 'Ora (HH:MM)',
+    date: 'Data (AAAA-MM-GG)',
+    intervalMinutes: 'Ogni (minuti)',
+    days: 'Giorni',
+    dayShort: ({ day }: { day: number }) =>
+      ['dom', 'lun', 'mar', 'mer', 'gio', 'ven', 'sab'][day] ?? '',
+    everyDay: 'Ogni giorno',
+    weekdays: 'Giorni feriali',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} alle ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `Ogni ${minutes} min`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `Una volta il ${date}`,
+    nextRun: ({ date }: { date: string }) =>
+      `Prossima esecuzione: ${date}`,
+    notScheduled: 'Non pianificato',
+    runNow: 'Esegui ora',
+    history: 'Cronologia esecuzioni',
+    noRuns: 'Nessuna esecuzione',
+    statusRunning: 'In corso',
+    statusCompleted: 'Completato',
+    statusSkipped: 'Saltato',
+    statusFailed: 'Fallito',
+    deleteConfirmTitle: 'Eliminare la pianificazione?',
+    deleteConfirmDescription: 'Questa pianificazione e la sua cronologia verranno rimosse dalla macchina.',
+    runStarted: 'Esecuzione avviata',
+    runSkipped: 'Saltato: l\'esecuzione precedente è ancora attiva',
+    missingFields: 'Nome, directory e prompt sono obbligatori',
+    invalidTime: 'Inserisci l\'ora come HH:MM',
+    invalidDate: 'Inserisci la data come AAAA-MM-GG',
+    invalidInterval: 'L\'intervallo deve essere di almeno 5 minuti',
+    selectDays: 'Seleziona almeno un giorno',
+    loadFailed: 'Impossibile caricare le pianificazioni. Assicurati che il daemon usi l\'ultima versione della CLI.',
+  },
+  sessionSharing: {
+    title: 'Condividi sessione',
+    shareSubtitle: 'Consenti agli amici di seguire questa sessione in sola lettura',
+    sharedBy: 'Condivisa da',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `Sola lettura: ${name} ha condiviso questa sessione con te`,
+    sharedWith: 'Condivisa con',
+    notShared: 'Non ancora condivisa con nessuno',
+    friends: 'Amici',
+    noFriends: 'Aggiungi amici per condividere sessioni con loro',
+    share: 'Condividi',
+    revoke: 'Revoca',
+    revokeTitle: 'Revocare l\'accesso?',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} non vedrà più questa sessione.`,
+    revokeFailed: 'Impossibile revocare l\'accesso',
+    shareFailed: 'Impossibile condividere la sessione',
+    notFriends: 'Le sessioni possono essere condivise solo con gli amici',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} deve aprire l'ultima versione dell'app prima che tu possa condividere`,
+    notShareable: 'Questa sessione non può essere condivisa',
+    notShareableDescription: 'Le sessioni avviate con una versione precedente della CLI sono cifrate con la chiave del tuo account e non possono essere condivise.',
+    readOnlyFooter: 'Gli amici vedono messaggi e stato in tempo reale, ma non possono inviare messaggi né rispondere alle richieste di permesso.',
+  },
+  sessionTerminal: {
+    title: 'Terminale',
+    openSubtitle: 'Apri una shell nella cartella della sessione',
+    starting: 'Avvio del terminale...',
+    exited: 'Processo terminato',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `Processo terminato con codice ${code}`,
+    restart: 'Riavvia',
+    closeTitle: 'Chiudere il terminale?',
+    closeConfirm: 'Tutto ciò che è in esecuzione in questo terminale verrà interrotto.',
+    openFailed: 'Impossibile aprire il terminale',
+    noTmux: 'tmux non è installato su questa macchina, ridimensionamento e riconnessione non sono disponibili.',
+  },
+  sessionArchive: {
+    groupTitle: 'Sessioni',
+    groupFooter: 'Gli archivi contengono la conversazione decifrata, conservali in un luogo sicuro.',
+    exportTitle: 'Esporta sessione',
+    exportSubtitle: 'Salva la conversazione come file di archivio',
+    exportFailed: 'Impossibile esportare la sessione',
+    importTitle: 'Importa sessione',
+    importSubtitle: 'Ricrea una sessione da un file di archivio',
+    importFailed: 'Impossibile importare la sessione',
+    invalidFile: 'Questo file non è un archivio di sessione',
+    importedAt: 'Importata',
+    readOnlyBanner: 'Sola lettura: importata da un archivio',
+  },
+  search: {
+    title: 'Cerca messaggi',
+    placeholder: 'Cerca in tutte le sessioni',
+    commandSubtitle: 'Trova testo, strumenti e file nelle sessioni',
+    results: 'Messaggi',
+    noResults: 'Nessun risultato',
+    noResultsHint: 'Sono ricercabili solo i messaggi decifrati da questo dispositivo, indicizza tutte le sessioni qui sotto per includere la cronologia precedente.',
+    unknownSession: 'Sessione sconosciuta',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `${messages} messaggi da ${sessions} sessioni indicizzati su questo dispositivo`,
+    buildIndex: 'Indicizza tutte le sessioni',
+    buildIndexFooter: 'Scarica e decifra la cronologia di ogni sessione per creare l\'indice di ricerca locale. Nulla lascia questo dispositivo.',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} di ${total} sessioni`,
+  },
+  codeReview: {
+    hint: 'Tocca una riga per commentarla, tocca un\'altra riga per estendere la selezione o l\'intestazione di un blocco per selezionarlo tutto.',
+    addComment: 'Aggiungi commento',
+    commentPlaceholder: 'Lascia un commento per l\'agente',
+    pendingComments: ({ count }: { count: number }) =>
+      `Commenti in sospeso: ${count}`,
+    submit: 'Invia revisione',
+    discard: 'Scarta',
+    discardConfirm: 'Scartare tutti i commenti in sospeso?',
+    draft: 'In sospeso',
+    open: 'Inviato',
+    resolved: 'Risolto',
+    messageDisplay: ({ count }: { count: number }) =>
+      `Revisione del codice: ${count} commenti`,
+  },
+  permissionRules: {
+    title: 'Regole dei permessi',
+    subtitle: 'Consenti, nega o chiedi prima di eseguire gli strumenti',
+    rules: 'Regole dell\'account',
+    rulesFooter: 'Valgono per tutte le sessioni. Le regole nega e chiedi in .unhappy/permissions.json di un progetto si aggiungono a queste; nega prevale su chiedi e chiedi su consenti. Codex esegue senza chiedere i comandi che considera di sola lettura, come ls o cat, e le regole non si applicano a questi.',
+    empty: 'Nessuna regola dell\'account',
+    editor: 'Modifica come JSON',
+    editorFooter: 'Stesso formato di .unhappy/permissions.json. Ogni regola ha un\'azione (allow, deny o ask) e pattern facoltativi per tool, command e path.',
+    invalid: ({ error }: { error: string }) =>
+      `Regole non valide: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Consentito dalla regola ${source}: ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Negato dalla regola ${source}: ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Richiesto dalla regola ${source}: ${rule}`,
+    sourceProject: 'del progetto',
+    sourceAccount: 'dell\'account',
+    sourceSession: 'della sessione',
+  },
+  sessionAudit: {
+    title: 'Registro di audit',
+    subtitle: 'Decisioni sui permessi ed esecuzioni degli strumenti',
+    footer: 'Registrato dalla CLI e cifrato end-to-end con la chiave della sessione. Le voci non possono essere modificate o rimosse.',
+    empty: 'Ancora nulla di registrato',
+    loadFailed: 'Impossibile caricare il registro di audit',
+    approved: 'Approvato',
+    approvedForSession: 'Approvato per la sessione',
+    denied: 'Negato',
+    aborted: 'Interrotto',
+    succeeded: 'Riuscito',
+    failed: 'Non riuscito',
+    byYou: 'Da te',
+    byYouOn: ({ device }: { device: string }) =>
+      `Da te su ${device}`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `Dalla regola ${source}: ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `Automaticamente in modalità ${mode}`,
+    exitCode: ({ code }: { code: number }) =>
+      `Codice di uscita ${code}`,
+    files: ({ files }: { files: string }) =>
+      `File: ${files}`,
+  },
+  race: {
+    sessionType: 'Gara',
+    title: 'Gara',
+    contestantsHint: 'Scegli almeno due agenti o modelli. Ognuno riceve lo stesso prompt nel proprio worktree.',
+    defaultModel: 'Predefinito',
+    needContestants: 'Scegli almeno due partecipanti per una gara',
+    needPrompt: 'Una gara ha bisogno di un prompt',
+    notFound: 'Gara non trovata',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `Da ${branch}`,
+    starting: 'Avvio…',
+    working: 'Al lavoro',
+    done: 'Fatto',
+    failedToStart: ({ error }: { error: string }) =>
+      `Avvio non riuscito: ${error}`,
+    changes: 'Modifiche',
+    noChanges: 'Ancora nessuna modifica',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `${files} file, +${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `e altri ${count}`,
+    untracked: 'nuovo',
+    usage: 'Utilizzo',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `${tokens} token`,
+    noUsage: 'Ancora nessun utilizzo',
+    tests: 'Test',
+    runTests: 'Esegui i test',
+    testCommand: 'Comando da eseguire in ogni worktree',
+    testsPassed: 'Superati',
+    testsFailed: ({ code }: { code: number }) =>
+      `Falliti (codice di uscita ${code})`,
+    notTested: 'Non ancora eseguiti',
+    openSession: 'Apri sessione',
+    viewChanges: 'Vedi modifiche',
+    pickWinner: 'Scegli come vincitore',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `Unire ${name} in ${branch}? Gli altri worktree e le loro sessioni verranno rimossi.`,
+    merge: 'Unisci',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} è stato unito in ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `Impossibile concludere la gara: ${error}`,
+    openRace: 'Gara',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `Confronta con gli altri ${count} partecipanti`,
+  },
+  machineHealth: {
+    title: 'Stato della macchina',
+    footer: 'Conteggiato dall\'avvio del daemon. Vengono inviati solo numeri, mai il contenuto delle sessioni.',
+    uptime: 'Tempo di attività del daemon',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} h ${minutes} min`,
+    activeSessions: 'Sessioni attive',
+    sessionsStarted: 'Sessioni avviate',
+    sessionStartFailures: 'Avvii di sessione non riusciti',
+    rpcCalls: 'Chiamate remote',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count} (${errors} non riuscite)`,
+    rpcLatency: 'Latenza delle chiamate remote',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: 'Riconnessioni',
+    lastReport: 'Ultimo report',
+  },
+  devices: {
+    title: 'Dispositivi',
+    subtitle: 'App e terminali collegati a questo account',
+    signedIn: 'Collegati',
+    signedInFooter: 'Ogni installazione dell\'app e ogni terminale accede con una propria chiave. Toccane uno per revocarlo, viene disconnesso subito.',
+    thisDevice: 'Questo dispositivo',
+    app: 'App',
+    terminal: 'Terminale',
+    unnamed: 'Dispositivo senza nome',
+    loadFailed: 'Impossibile caricare i dispositivi, tocca per riprovare',
+    revoke: 'Revoca',
+    revokeTitle: 'Revoca dispositivo',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} verrà disconnesso e non potrà più accedere a questo account.`,
+    revokeFailed: 'Impossibile revocare il dispositivo',
+    security: 'Sicurezza',
+    securityFooter: 'Sostituisci la chiave dell\'account se la tua chiave segreta potrebbe essere trapelata.',
+    rotateKey: 'Sostituisci chiave dell\'account',
+    rotateKeySubtitle: 'Sostituisce la chiave segreta e disconnette tutti gli altri dispositivi',
+    rotateKeyAction: 'Sostituisci',
+    rotateKeyConfirm: 'Viene generata una nuova chiave segreta e tutte le chiavi di sessioni, macchine e artefatti vengono cifrate di nuovo con essa. Tutti gli altri dispositivi vengono disconnessi e per accedere di nuovo serve la nuova chiave segreta. L\'app si riavvia con la nuova chiave, salvala poi in Account > Backup.',
+  },
+  budget: {
+    title: 'Budget',
+    none: 'Nessuno',
+    sessionBudget: 'Budget della sessione',
+    sessionSubtitle: 'Si applica dal prossimo messaggio',
+    accountFooter: 'Si applica a ogni sessione senza un budget proprio o del suo profilo. L\'agente si ferma al limite e chiede prima di spendere altro. Solo sessioni Claude.',
+    profileFooter: 'Le sessioni avviate con questo profilo si fermano a questo limite salvo che ne impostino uno proprio. Lascia vuoto per usare quello dell\'account.',
+    prompt: 'Dollari come $5 o token come 200k tokens. Lascia vuoto per rimuovere il budget.',
+    placeholder: '$5 o 200k tokens',
+    invalid: 'Inserisci un importo come $5 o 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `Restano ${amount}`,
+    paused: 'Budget esaurito',
+    spent: ({ amount }: { amount: string }) =>
+      `${amount} spesi`,
+    exceeded: 'Budget superato',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `Spesi ${spent} di ${limit}. Continuare con un altro budget?`,
+    continue: 'Continua',
+    stop: 'Ferma',
+  },
 } as const;
 
 export type TranslationsIt = typeof it;
@@ -1125,6 +1125,20 @@ export const ja: TranslationStructure = {
     usageOverTime: '使用量の推移',
     byModel: 'モデル別',
     noData: '使用データがありません',
+    model: 'モデル',
+    agent: 'エージェント',
+    machine: 'マシン',
+    project: 'プロジェクト',
+    byAgent: 'エージェント別',
+    byMachine: 'マシン別',
+    byProject: 'プロジェクト別',
+    cacheHitRatio: 'キャッシュヒット率',
+    vsPrevious: ({ change }: { change: string }) => `前の期間比 ${change}`,
+    unknown: '不明',
+    export: 'エクスポート',
+    exportCsv: 'CSVでエクスポート',
+    exportJson: 'JSONでエクスポート',
+    exportFooter: '選択した期間の使用量を日、モデル、エージェント、マシン、プロジェクト別に出力します。表計算や費用配賦に使えます。',
   },
 
   feed: {
@@ -1144,4 +1158,288 @@ export const ja: TranslationStructure = {
     deleteWorktreeConfirm: 'このワークツリーを削除しますか？すべてのセッションがアーカイブされます。',
     archiveSessionConfirm: 'このセッションをアーカイブしますか？',
   },
+  schedules: {
+    title: 'スケジュール済みプロンプト',
+    machineEntrySubtitle: 'このマシンでプロンプトを定期実行します',
+    empty: 'スケジュール済みプロンプトはまだありません',
+    newSchedule: '新しいスケジュール',
+    editSchedule: 'スケジュールを編集',
+    name: '名前',
+    namePlaceholder: '朝のレビュー',
+    directory: 'ディレクトリ',
+    prompt: 'プロンプト',
+    promptPlaceholder: 'エージェントに何をさせますか？',
+    agent: 'エージェント',
+    enabled: '有効',
+    repeat: '繰り返し',
+    once: '1回のみ',
+    weekly: '毎週',
+    interval: '間隔',
+    time: '時刻 (HH:MM)',
+    date: '日付 (YYYY-MM-DD)',
+    intervalMinutes: '間隔（分）',
+    days: '曜日',
+    dayShort: ({ day }: { day: number }) =>
+      ['日', '月', '火', '水', '木', '金', '土'][day] ?? '',
+    everyDay: '毎日',
+    weekdays: '平日',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `${minutes}分ごと`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `${date} に1回`,
+    nextRun: ({ date }: { date: string }) =>
+      `次回実行: ${date}`,
+    notScheduled: '未スケジュール',
+    runNow: '今すぐ実行',
+    history: '実行履歴',
+    noRuns: '実行履歴はまだありません',
+    statusRunning: '実行中',
+    statusCompleted: '完了',
+    statusSkipped: 'スキップ',
+    statusFailed: '失敗',
+    deleteConfirmTitle: 'スケジュールを削除しますか？',
+    deleteConfirmDescription: 'このスケジュールと実行履歴はマシンから削除されます。',
+    runStarted: '実行を開始しました',
+    runSkipped: 'スキップ: 前回の実行がまだ進行中です',
+    missingFields: '名前、ディレクトリ、プロンプトは必須です',
+    invalidTime: '時刻を HH:MM 形式で入力してください',
+    invalidDate: '日付を YYYY-MM-DD 形式で入力してください',
+    invalidInterval: '間隔は5分以上にしてください',
+    selectDays: '少なくとも1つの曜日を選択してください',
+    loadFailed: 'スケジュールを読み込めませんでした。デーモンが最新の CLI で動作していることを確認してください。',
+  },
+  sessionSharing: {
+    title: 'セッションを共有',
+    shareSubtitle: '友達がこのセッションを読み取り専用で見られるようにします',
+    sharedBy: '共有元',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `読み取り専用: ${name} さんがこのセッションを共有しました`,
+    sharedWith: '共有先',
+    notShared: 'まだ誰とも共有していません',
+    friends: '友達',
+    noFriends: 'セッションを共有するには友達を追加してください',
+    share: '共有',
+    revoke: '取り消す',
+    revokeTitle: 'アクセスを取り消しますか？',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} さんはこのセッションを見られなくなります。`,
+    revokeFailed: 'アクセスを取り消せませんでした',
+    shareFailed: 'セッションを共有できませんでした',
+    notFriends: 'セッションは友達とのみ共有できます',
+    friendNotReady: ({ name }: { name: string }) =>
+      `共有するには ${name} さんが最新バージョンのアプリを開く必要があります`,
+    notShareable: 'このセッションは共有できません',
+    notShareableDescription: '古いバージョンの CLI で開始したセッションはアカウントの鍵で暗号化されているため共有できません。',
+    readOnlyFooter: '友達はメッセージと状態をリアルタイムで見られますが、メッセージの送信や権限リクエストへの応答はできません。',
+  },
+  sessionTerminal: {
+    title: 'ターミナル',
+    openSubtitle: 'セッションのフォルダでシェルを開く',
+    starting: 'ターミナルを起動中...',
+    exited: 'プロセスが終了しました',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `プロセスがコード ${code} で終了しました`,
+    restart: '再起動',
+    closeTitle: 'ターミナルを閉じますか？',
+    closeConfirm: 'このターミナルで実行中のものはすべて停止します。',
+    openFailed: 'ターミナルを開けませんでした',
+    noTmux: 'このマシンには tmux がインストールされていないため、サイズ変更と再接続は利用できません。',
+  },
+  sessionArchive: {
+    groupTitle: 'セッション',
+    groupFooter: 'アーカイブには復号済みの会話が含まれます。安全な場所に保管してください。',
+    exportTitle: 'セッションをエクスポート',
+    exportSubtitle: '会話をアーカイブファイルとして保存',
+    exportFailed: 'セッションをエクスポートできませんでした',
+    importTitle: 'セッションをインポート',
+    importSubtitle: 'アーカイブファイルからセッションを再作成',
+    importFailed: 'セッションをインポートできませんでした',
+    invalidFile: 'このファイルはセッションアーカイブではありません',
+    importedAt: 'インポート日時',
+    readOnlyBanner: '読み取り専用：アーカイブからインポート',
+  },
+  search: {
+    title: 'メッセージを検索',
+    placeholder: 'すべてのセッションを検索',
+    commandSubtitle: 'セッション内のテキスト、ツール、ファイルを検索',
+    results: 'メッセージ',
+    noResults: '一致なし',
+    noResultsHint: 'このデバイスで復号されたメッセージのみ検索できます。以前の履歴を含めるには、下ですべてのセッションをインデックスしてください。',
+    unknownSession: '不明なセッション',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `このデバイスで${sessions}件のセッションから${messages}件のメッセージをインデックス済み`,
+    buildIndex: 'すべてのセッションをインデックス',
+    buildIndexFooter: '各セッションの履歴をダウンロードして復号し、ローカル検索インデックスを作成します。データはこのデバイスから出ません。',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${total}件中${done}件のセッション`,
+  },
+  codeReview: {
+    hint: '行をタップしてコメントし、別の行をタップすると選択範囲を広げられます。ハンクのヘッダーをタップするとハンク全体を選択します。',
+    addComment: 'コメントを追加',
+    commentPlaceholder: 'エージェントへのコメントを入力',
+    pendingComments: ({ count }: { count: number }) =>
+      `保留中のコメント: ${count}`,
+    submit: 'レビューを送信',
+    discard: '破棄',
+    discardConfirm: '保留中のコメントをすべて破棄しますか？',
+    draft: '保留中',
+    open: '送信済み',
+    resolved: '解決済み',
+    messageDisplay: ({ count }: { count: number }) =>
+      `コードレビュー: ${count}件のコメント`,
+  },
+  permissionRules: {
+    title: '権限ルール',
+    subtitle: 'ツールの実行前に許可・拒否・確認を行います',
+    rules: 'アカウントのルール',
+    rulesFooter: 'すべてのセッションに適用されます。プロジェクトの .unhappy/permissions.json の拒否と確認のルールも併せて適用され、拒否は確認より、確認は許可より優先されます。Codex は ls や cat など読み取り専用とみなすコマンドを確認なしで実行するため、それらにはルールが適用されません。',
+    empty: 'アカウントのルールはありません',
+    editor: 'JSONで編集',
+    editorFooter: '形式は .unhappy/permissions.json と同じです。各ルールには action（allow、deny、ask）と、任意の tool・command・path のパターンを指定します。',
+    invalid: ({ error }: { error: string }) =>
+      `無効なルール: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `${source}ルールにより許可: ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `${source}ルールにより拒否: ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `${source}ルールにより確認: ${rule}`,
+    sourceProject: 'プロジェクト',
+    sourceAccount: 'アカウント',
+    sourceSession: 'セッション',
+  },
+  sessionAudit: {
+    title: '監査ログ',
+    subtitle: '権限の判断とツールの実行',
+    footer: 'CLI によって記録され、セッションキーでエンドツーエンド暗号化されています。エントリーは編集も削除もできません。',
+    empty: 'まだ記録はありません',
+    loadFailed: '監査ログを読み込めませんでした',
+    approved: '承認',
+    approvedForSession: 'セッション中は承認',
+    denied: '拒否',
+    aborted: '中止',
+    succeeded: '成功',
+    failed: '失敗',
+    byYou: 'あなた',
+    byYouOn: ({ device }: { device: string }) =>
+      `あなた（${device}）`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `${source} のルール: ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `${mode} モードで自動`,
+    exitCode: ({ code }: { code: number }) =>
+      `終了コード ${code}`,
+    files: ({ files }: { files: string }) =>
+      `ファイル: ${files}`,
+  },
+  race: {
+    sessionType: 'レース',
+    title: 'レース',
+    contestantsHint: 'エージェントまたはモデルを2つ以上選択してください。それぞれが専用のワークツリーで同じプロンプトを受け取ります。',
+    defaultModel: 'デフォルト',
+    needContestants: 'レースには2つ以上の参加者を選択してください',
+    needPrompt: 'レースにはプロンプトが必要です',
+    notFound: 'レースが見つかりません',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `${branch} から`,
+    starting: '起動中…',
+    working: '作業中',
+    done: '完了',
+    failedToStart: ({ error }: { error: string }) =>
+      `起動に失敗しました: ${error}`,
+    changes: '変更',
+    noChanges: 'まだ変更はありません',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `${files} ファイル、+${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `ほか ${count} 件`,
+    untracked: '新規',
+    usage: '使用量',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `${tokens} トークン`,
+    noUsage: 'まだ使用量はありません',
+    tests: 'テスト',
+    runTests: 'テストを実行',
+    testCommand: '各ワークツリーで実行するコマンド',
+    testsPassed: '成功',
+    testsFailed: ({ code }: { code: number }) =>
+      `失敗 (終了コード ${code})`,
+    notTested: '未実行',
+    openSession: 'セッションを開く',
+    viewChanges: '変更を表示',
+    pickWinner: '勝者に選ぶ',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} を ${branch} にマージしますか？ほかのワークツリーとそのセッションは削除されます。`,
+    merge: 'マージ',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} を ${branch} にマージしました`,
+    finishFailed: ({ error }: { error: string }) =>
+      `レースを終了できませんでした: ${error}`,
+    openRace: 'レース',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `ほかの ${count} 件の参加者と比較`,
+  },
+  machineHealth: {
+    title: 'マシンの状態',
+    footer: 'デーモン起動時からの集計です。送信されるのは数値のみで、セッションの内容は含まれません。',
+    uptime: 'デーモンの稼働時間',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} 時間 ${minutes} 分`,
+    activeSessions: 'アクティブなセッション',
+    sessionsStarted: '開始したセッション',
+    sessionStartFailures: 'セッション開始の失敗',
+    rpcCalls: 'リモート呼び出し',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count}（失敗 ${errors}）`,
+    rpcLatency: 'リモート呼び出しのレイテンシ',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: '再接続',
+    lastReport: '最終レポート',
+  },
+  devices: {
+    title: 'デバイス',
+    subtitle: 'このアカウントにサインインしているアプリとターミナル',
+    signedIn: 'サインイン中',
+    signedInFooter: 'アプリのインストールとターミナルはそれぞれ固有の鍵でサインインします。タップすると取り消され、すぐにサインアウトされます。',
+    thisDevice: 'このデバイス',
+    app: 'アプリ',
+    terminal: 'ターミナル',
+    unnamed: '名前のないデバイス',
+    loadFailed: 'デバイスを読み込めませんでした。タップして再試行',
+    revoke: '取り消す',
+    revokeTitle: 'デバイスを取り消す',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} はサインアウトされ、このアカウントにアクセスできなくなります。`,
+    revokeFailed: 'デバイスを取り消せませんでした',
+    security: 'セキュリティ',
+    securityFooter: '秘密鍵が漏えいした可能性がある場合は、アカウント鍵を更新してください。',
+    rotateKey: 'アカウント鍵を更新',
+    rotateKeySubtitle: '秘密鍵を置き換え、他のすべてのデバイスをサインアウトします',
+    rotateKeyAction: '更新',
+    rotateKeyConfirm: '新しい秘密鍵が生成され、すべてのセッション、マシン、アーティファクトの鍵がそれで再暗号化されます。他のデバイスはすべてサインアウトされ、再度サインインするには新しい秘密鍵が必要です。アプリは新しい鍵で再起動します。その後、アカウント > バックアップから新しい鍵を保存してください。',
+  },
+  budget: {
+    title: '予算',
+    none: 'なし',
+    sessionBudget: 'セッション予算',
+    sessionSubtitle: '次のメッセージから適用されます',
+    accountFooter: '独自の予算もプロファイルの予算もないすべてのセッションに適用されます。上限に達するとエージェントは一時停止し、追加の支出前に確認します。Claudeセッションのみ。',
+    profileFooter: 'このプロファイルで開始したセッションは、独自の予算がない限りこの上限で一時停止します。空欄にするとアカウントの既定値を使います。',
+    prompt: '$5 のようなドル、または 200k tokens のようなトークン数。空欄にすると予算を削除します。',
+    placeholder: '$5 または 200k tokens',
+    invalid: '$5 や 200k tokens のような金額を入力してください',
+    left: ({ amount }: { amount: string }) =>
+      `残り ${amount}`,
+    paused: '予算を使い切りました',
+    spent: ({ amount }: { amount: string }) =>
+      `${amount} 使用`,
+    exceeded: '予算超過',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `${limit} のうち ${spent} を使用しました。予算を追加して続行しますか？`,
+    continue: '続行',
+    stop: '停止',
+  },
 } as const;
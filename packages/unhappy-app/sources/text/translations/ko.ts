@@ -1010,6 +1010,20 @@ export const ko: TranslationStructure = {
     usageOverTime: '기간별 사용량',
     byModel: '모델별',
     noData: '사용량 데이터가 없습니다',
+    model: '모델',
+    agent: '에이전트',
+    machine: '머신',
+    project: '프로젝트',
+    byAgent: '에이전트별',
+    byMachine: '머신별',
+    byProject: '프로젝트별',
+    cacheHitRatio: '캐시 적중률',
+    vsPrevious: ({ change }: { change: string }) => `이전 기간 대비 ${change}`,
+    unknown: '알 수 없음',
+    export: '내보내기',
+    exportCsv: 'CSV로 내보내기',
+    exportJson: 'JSON으로 내보내기',
+    exportFooter: '선택한 기간의 사용량을 일, 모델, 에이전트, 머신, 프로젝트별로 나누어 내보냅니다. 스프레드시트나 비용 배분에 사용하세요.',
   },
 
   feed: {
@@ -1112,4 +1126,288 @@ export const ko: TranslationStructure = {
     deleteWorktreeConfirm: '이 워크트리를 삭제하시겠습니까? 모든 세션이 보관됩니다.',
     archiveSessionConfirm: '이 세션을 보관하시겠습니까?',
   },
+  schedules: {
+    title: '예약된 프롬프트',
+    machineEntrySubtitle: '이 머신에서 프롬프트를 예약 실행합니다',
+    empty: '예약된 프롬프트가 없습니다',
+    newSchedule: '새 예약',
+    editSchedule: '예약 편집',
+    name: '이름',
+    namePlaceholder: '아침 리뷰',
+    directory: '디렉토리',
+    prompt: '프롬프트',
+    promptPlaceholder: '에이전트가 무엇을 해야 하나요?',
+    agent: '에이전트',
+    enabled: '사용',
+    repeat: '반복',
+    once: '한 번',
+    weekly: '매주',
+    interval: '간격',
+    time: '시간 (HH:MM)',
+    date: '날짜 (YYYY-MM-DD)',
+    intervalMinutes: '간격 (분)',
+    days: '요일',
+    dayShort: ({ day }: { day: number }) =>
+      ['일', '월', '화', '수', '목', '금', '토'][day] ?? '',
+    everyDay: '매일',
+    weekdays: '평일',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `${minutes}분마다`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `${date}에 한 번`,
+    nextRun: ({ date }: { date: string }) =>
+      `다음 실행: ${date}`,
+    notScheduled: '예약 없음',
+    runNow: '지금 실행',
+    history: '실행 기록',
+    noRuns: '실행 기록이 없습니다',
+    statusRunning: '실행 중',
+    statusCompleted: '완료',
+    statusSkipped: '건너뜀',
+    statusFailed: '실패',
+    deleteConfirmTitle: '예약을 삭제하시겠습니까?',
+    deleteConfirmDescription: '이 예약과 실행 기록이 머신에서 삭제됩니다.',
+    runStarted: '실행을 시작했습니다',
+    runSkipped: '건너뜀: 이전 실행이 아직 진행 중입니다',
+    missingFields: '이름, 디렉토리, 프롬프트는 필수입니다',
+    invalidTime: '시간을 HH:MM 형식으로 입력하세요',
+    invalidDate: '날짜를 YYYY-MM-DD 형식으로 입력하세요',
+    invalidInterval: '간격은 최소 5분이어야 합니다',
+    selectDays: '요일을 하나 이상 선택하세요',
+    loadFailed: '예약을 불러올 수 없습니다. 데몬이 최신 CLI 버전으로 실행 중인지 확인하세요.',
+  },
+  sessionSharing: {
+    title: '세션 공유',
+    shareSubtitle: '친구가 이 세션을 읽기 전용으로 볼 수 있게 합니다',
+    sharedBy: '공유한 사람',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `읽기 전용: ${name}님이 이 세션을 공유했습니다`,
+    sharedWith: '공유 대상',
+    notShared: '아직 아무와도 공유하지 않았습니다',
+    friends: '친구',
+    noFriends: '세션을 공유하려면 친구를 추가하세요',
+    share: '공유',
+    revoke: '취소',
+    revokeTitle: '접근 권한을 취소하시겠습니까?',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name}님은 더 이상 이 세션을 볼 수 없습니다.`,
+    revokeFailed: '접근 권한을 취소하지 못했습니다',
+    shareFailed: '세션을 공유하지 못했습니다',
+    notFriends: '세션은 친구와만 공유할 수 있습니다',
+    friendNotReady: ({ name }: { name: string }) =>
+      `공유하려면 ${name}님이 최신 버전의 앱을 열어야 합니다`,
+    notShareable: '이 세션은 공유할 수 없습니다',
+    notShareableDescription: '이전 버전의 CLI로 시작한 세션은 계정 키로 암호화되어 공유할 수 없습니다.',
+    readOnlyFooter: '친구는 메시지와 상태를 실시간으로 볼 수 있지만 메시지를 보내거나 권한 요청에 응답할 수 없습니다.',
+  },
+  sessionTerminal: {
+    title: '터미널',
+    openSubtitle: '세션 폴더에서 셸 열기',
+    starting: '터미널 시작 중...',
+    exited: '프로세스가 종료되었습니다',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `프로세스가 코드 ${code}(으)로 종료되었습니다`,
+    restart: '다시 시작',
+    closeTitle: '터미널을 닫을까요?',
+    closeConfirm: '이 터미널에서 실행 중인 모든 항목이 중지됩니다.',
+    openFailed: '터미널을 열지 못했습니다',
+    noTmux: '이 머신에 tmux가 설치되어 있지 않아 크기 조정과 재연결을 사용할 수 없습니다.',
+  },
+  sessionArchive: {
+    groupTitle: '세션',
+    groupFooter: '아카이브에는 복호화된 대화가 포함되어 있으니 안전한 곳에 보관하세요.',
+    exportTitle: '세션 내보내기',
+    exportSubtitle: '대화를 아카이브 파일로 저장',
+    exportFailed: '세션을 내보내지 못했습니다',
+    importTitle: '세션 가져오기',
+    importSubtitle: '아카이브 파일에서 세션 다시 만들기',
+    importFailed: '세션을 가져오지 못했습니다',
+    invalidFile: '이 파일은 세션 아카이브가 아닙니다',
+    importedAt: '가져온 날짜',
+    readOnlyBanner: '읽기 전용: 아카이브에서 가져옴',
+  },
+  search: {
+    title: '메시지 검색',
+    placeholder: '모든 세션 검색',
+    commandSubtitle: '세션 전체에서 텍스트, 도구, 파일 찾기',
+    results: '메시지',
+    noResults: '일치 항목 없음',
+    noResultsHint: '이 기기에서 복호화한 메시지만 검색할 수 있습니다. 이전 기록을 포함하려면 아래에서 모든 세션을 색인하세요.',
+    unknownSession: '알 수 없는 세션',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `이 기기에서 ${sessions}개 세션의 메시지 ${messages}개 색인됨`,
+    buildIndex: '모든 세션 색인',
+    buildIndexFooter: '모든 세션의 기록을 다운로드하고 복호화하여 로컬 검색 색인을 만듭니다. 데이터는 이 기기를 벗어나지 않습니다.',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${total}개 중 ${done}개 세션`,
+  },
+  codeReview: {
+    hint: '줄을 탭해 코멘트를 남기고, 다른 줄을 탭하면 선택 범위가 넓어집니다. 헝크 헤더를 탭하면 헝크 전체가 선택됩니다.',
+    addComment: '코멘트 추가',
+    commentPlaceholder: '에이전트에게 남길 코멘트',
+    pendingComments: ({ count }: { count: number }) =>
+      `대기 중인 코멘트: ${count}`,
+    submit: '리뷰 제출',
+    discard: '삭제',
+    discardConfirm: '대기 중인 코멘트를 모두 삭제할까요?',
+    draft: '대기 중',
+    open: '전송됨',
+    resolved: '해결됨',
+    messageDisplay: ({ count }: { count: number }) =>
+      `코드 리뷰: 코멘트 ${count}개`,
+  },
+  permissionRules: {
+    title: '권한 규칙',
+    subtitle: '도구 실행 전에 허용, 거부 또는 확인',
+    rules: '계정 규칙',
+    rulesFooter: '모든 세션에 적용됩니다. 프로젝트의 .unhappy/permissions.json에 있는 거부와 확인 규칙도 함께 적용되며, 거부가 확인보다, 확인이 허용보다 우선합니다. Codex는 ls나 cat처럼 읽기 전용으로 보는 명령을 묻지 않고 실행하므로 이런 명령에는 규칙이 적용되지 않습니다.',
+    empty: '계정 규칙이 없습니다',
+    editor: 'JSON으로 편집',
+    editorFooter: '형식은 .unhappy/permissions.json과 같습니다. 각 규칙에는 action(allow, deny, ask)과 선택적인 tool, command, path 패턴이 있습니다.',
+    invalid: ({ error }: { error: string }) =>
+      `잘못된 규칙: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `${source} 규칙으로 허용됨: ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `${source} 규칙으로 거부됨: ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `${source} 규칙으로 확인 요청: ${rule}`,
+    sourceProject: '프로젝트',
+    sourceAccount: '계정',
+    sourceSession: '세션',
+  },
+  sessionAudit: {
+    title: '감사 로그',
+    subtitle: '권한 결정 및 도구 실행',
+    footer: 'CLI가 기록하며 세션 키로 종단 간 암호화됩니다. 항목은 수정하거나 삭제할 수 없습니다.',
+    empty: '아직 기록된 내용이 없습니다',
+    loadFailed: '감사 로그를 불러오지 못했습니다',
+    approved: '승인됨',
+    approvedForSession: '세션 동안 승인됨',
+    denied: '거부됨',
+    aborted: '중단됨',
+    succeeded: '성공',
+    failed: '실패',
+    byYou: '내가 결정',
+    byYouOn: ({ device }: { device: string }) =>
+      `${device}에서 내가 결정`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `${source} 규칙: ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `${mode} 모드에서 자동`,
+    exitCode: ({ code }: { code: number }) =>
+      `종료 코드 ${code}`,
+    files: ({ files }: { files: string }) =>
+      `파일: ${files}`,
+  },
+  race: {
+    sessionType: '레이스',
+    title: '레이스',
+    contestantsHint: '에이전트나 모델을 두 개 이상 선택하세요. 각각 자체 워크트리에서 같은 프롬프트를 받습니다.',
+    defaultModel: '기본값',
+    needContestants: '레이스에는 참가자를 두 개 이상 선택하세요',
+    needPrompt: '레이스에는 프롬프트가 필요합니다',
+    notFound: '레이스를 찾을 수 없습니다',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `${branch}에서`,
+    starting: '시작 중…',
+    working: '작업 중',
+    done: '완료',
+    failedToStart: ({ error }: { error: string }) =>
+      `시작하지 못했습니다: ${error}`,
+    changes: '변경 사항',
+    noChanges: '아직 변경 사항이 없습니다',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `파일 ${files}개, +${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `외 ${count}개`,
+    untracked: '새 파일',
+    usage: '사용량',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `토큰 ${tokens}개`,
+    noUsage: '아직 사용량이 없습니다',
+    tests: '테스트',
+    runTests: '테스트 실행',
+    testCommand: '모든 워크트리에서 실행할 명령',
+    testsPassed: '통과',
+    testsFailed: ({ code }: { code: number }) =>
+      `실패 (종료 코드 ${code})`,
+    notTested: '아직 실행하지 않음',
+    openSession: '세션 열기',
+    viewChanges: '변경 사항 보기',
+    pickWinner: '우승자로 선택',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `${name}을(를) ${branch}에 병합할까요? 다른 워크트리와 해당 세션은 삭제됩니다.`,
+    merge: '병합',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name}이(가) ${branch}에 병합되었습니다`,
+    finishFailed: ({ error }: { error: string }) =>
+      `레이스를 마치지 못했습니다: ${error}`,
+    openRace: '레이스',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `다른 참가자 ${count}개와 비교`,
+  },
+  machineHealth: {
+    title: '머신 상태',
+    footer: '데몬이 시작된 이후의 집계입니다. 숫자만 전송되며 세션 내용은 포함되지 않습니다.',
+    uptime: '데몬 가동 시간',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours}시간 ${minutes}분`,
+    activeSessions: '활성 세션',
+    sessionsStarted: '시작된 세션',
+    sessionStartFailures: '세션 시작 실패',
+    rpcCalls: '원격 호출',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count} (실패 ${errors})`,
+    rpcLatency: '원격 호출 지연 시간',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: '재연결',
+    lastReport: '마지막 보고',
+  },
+  devices: {
+    title: '기기',
+    subtitle: '이 계정에 로그인한 앱과 터미널',
+    signedIn: '로그인됨',
+    signedInFooter: '앱 설치와 터미널은 각자 고유한 키로 로그인합니다. 탭하면 취소되며 즉시 로그아웃됩니다.',
+    thisDevice: '이 기기',
+    app: '앱',
+    terminal: '터미널',
+    unnamed: '이름 없는 기기',
+    loadFailed: '기기를 불러오지 못했습니다. 탭하여 다시 시도',
+    revoke: '취소',
+    revokeTitle: '기기 취소',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name}이(가) 로그아웃되며 더 이상 이 계정에 접근할 수 없습니다.`,
+    revokeFailed: '기기를 취소하지 못했습니다',
+    security: '보안',
+    securityFooter: '비밀 키가 유출되었을 수 있다면 계정 키를 교체하세요.',
+    rotateKey: '계정 키 교체',
+    rotateKeySubtitle: '비밀 키를 교체하고 다른 모든 기기를 로그아웃합니다',
+    rotateKeyAction: '교체',
+    rotateKeyConfirm: '새 비밀 키가 생성되고 모든 세션, 머신, 아티팩트 키가 새 키로 다시 암호화됩니다. 다른 모든 기기는 로그아웃되며 다시 로그인하려면 새 비밀 키가 필요합니다. 앱이 새 키로 다시 시작되니, 이후 계정 > 백업에서 새 키를 보관하세요.',
+  },
+  budget: {
+    title: '예산',
+    none: '없음',
+    sessionBudget: '세션 예산',
+    sessionSubtitle: '다음 메시지부터 적용됩니다',
+    accountFooter: '자체 예산이나 프로필 예산이 없는 모든 세션에 적용됩니다. 한도에 도달하면 에이전트가 일시 중지되고 더 지출하기 전에 확인합니다. Claude 세션만 해당됩니다.',
+    profileFooter: '이 프로필로 시작한 세션은 자체 예산이 없으면 이 한도에서 일시 중지됩니다. 비워 두면 계정 기본값을 사용합니다.',
+    prompt: '$5 같은 달러 또는 200k tokens 같은 토큰 수. 비워 두면 예산이 제거됩니다.',
+    placeholder: '$5 또는 200k tokens',
+    invalid: '$5 또는 200k tokens 같은 금액을 입력하세요',
+    left: ({ amount }: { amount: string }) =>
+      `${amount} 남음`,
+    paused: '예산 소진',
+    spent: ({ amount }: { amount: string }) =>
+      `${amount} 사용`,
+    exceeded: '예산 초과',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `${limit} 중 ${spent}를 사용했습니다. 예산을 추가해 계속할까요?`,
+    continue: '계속',
+    stop: '중지',
+  },
 } as const;
@@ -1081,6 +1081,20 @@ export const pl: TranslationStructure = {
     usageOverTime: 'Użycie w czasie',
     byModel: 'Według modelu',
     noData: 'Brak danych o użyciu',
+    model: 'Model',
+    agent: 'Agent',
+    machine: 'Maszyna',
+    project: 'Projekt',
+    byAgent: 'Według agenta',
+    byMachine: 'Według maszyny',
+    byProject: 'Według projektu',
+    cacheHitRatio: 'Współczynnik trafień pamięci podręcznej',
+    vsPrevious: ({ change }: { change: string }) => `${change} względem poprzedniego okresu`,
+    unknown: 'Nieznany',
+    export: 'Eksport',
+    exportCsv: 'Eksportuj jako CSV',
+    exportJson: 'Eksportuj jako JSON',
+    exportFooter: 'Użycie w wybranym okresie z podziałem na dni, modele, agentów, maszyny i projekty, do arkuszy kalkulacyjnych i rozliczeń kosztów.',
   },
 
   feed: {
@@ -1183,6 +1197,290 @@ export const pl: TranslationStructure = {
     deleteWorktreeConfirm: 'Czy na pewno chcesz usunąć ten worktree? Wszystkie sesje zostaną zarchiwizowane.',
     archiveSessionConfirm: 'Czy na pewno chcesz zarchiwizować tę sesję?',
   },
+  schedules: {
+    title: 'Zaplanowane prompty',
+    machineEntrySubtitle: 'Uruchamiaj prompty na tej maszynie według harmonogramu',
+    empty: 'Brak zaplanowanych promptów',
+    newSchedule: 'Nowy harmonogram',
+    editSchedule: 'Edytuj harmonogram',
+    name: 'Nazwa',
+    namePlaceholder: 'Poranny przegląd',
+    directory: 'Katalog',
+    prompt: 'Prompt',
+    promptPlaceholder: 'Co ma zrobić agent?',
+    agent: 'Agent',
+    enabled: 'Włączony',
+    repeat: 'Powtarzanie',
+    once: 'Jednorazowo',
+    weekly: 'Co tydzień',
+    interval: 'Interwał',
+    time: 'Godzina (HH:MM)',
+    date: 'Data (RRRR-MM-DD)',
+    intervalMinutes: 'Co (minut)',
+    days: 'Dni',
+    dayShort: ({ day }: { day: number }) =>
+      ['nd', 'pn', 'wt', 'śr', 'cz', 'pt', 'sb'][day] ?? '',
+    everyDay: 'Codziennie',
+    weekdays: 'Dni robocze',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} o ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `Co ${minutes} min`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `Jednorazowo ${date}`,
+    nextRun: ({ date }: { date: string }) =>
+      `Następne uruchomienie: ${date}`,
+    notScheduled: 'Nie zaplanowano',
+    runNow: 'Uruchom teraz',
+    history: 'Historia uruchomień',
+    noRuns: 'Brak uruchomień',
+    statusRunning: 'W toku',
+    statusCompleted: 'Zakończono',
+    statusSkipped: 'Pominięto',
+    statusFailed: 'Niepowodzenie',
+    deleteConfirmTitle: 'Usunąć harmonogram?',
+    deleteConfirmDescription: 'Ten harmonogram i jego historia zostaną usunięte z maszyny.',
+    runStarted: 'Uruchomiono',
+    runSkipped: 'Pominięto: poprzednie uruchomienie jest nadal aktywne',
+    missingFields: 'Nazwa, katalog i prompt są wymagane',
+    invalidTime: 'Podaj godzinę jako HH:MM',
+    invalidDate: 'Podaj datę jako RRRR-MM-DD',
+    invalidInterval: 'Interwał musi wynosić co najmniej 5 minut',
+    selectDays: 'Wybierz co najmniej jeden dzień',
+    loadFailed: 'Nie udało się wczytać harmonogramów. Upewnij się, że demon używa najnowszej wersji CLI.',
+  },
+  sessionSharing: {
+    title: 'Udostępnij sesję',
+    shareSubtitle: 'Pozwól znajomym śledzić tę sesję w trybie tylko do odczytu',
+    sharedBy: 'Udostępnione przez',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `Tylko do odczytu: ${name} udostępnia Ci tę sesję`,
+    sharedWith: 'Udostępniono',
+    notShared: 'Jeszcze nikomu nie udostępniono',
+    friends: 'Znajomi',
+    noFriends: 'Dodaj znajomych, aby udostępniać im sesje',
+    share: 'Udostępnij',
+    revoke: 'Cofnij',
+    revokeTitle: 'Cofnąć dostęp?',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} nie będzie już widzieć tej sesji.`,
+    revokeFailed: 'Nie udało się cofnąć dostępu',
+    shareFailed: 'Nie udało się udostępnić sesji',
+    notFriends: 'Sesje można udostępniać tylko znajomym',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} musi otworzyć najnowszą wersję aplikacji, zanim będzie można udostępnić sesję`,
+    notShareable: 'Tej sesji nie można udostępnić',
+    notShareableDescription: 'Sesje uruchomione starszą wersją CLI są szyfrowane kluczem Twojego konta i nie można ich udostępnić.',
+    readOnlyFooter: 'Znajomi widzą wiadomości i status na żywo, ale nie mogą wysyłać wiadomości ani odpowiadać na prośby o uprawnienia.',
+  },
+  sessionTerminal: {
+    title: 'Terminal',
+    openSubtitle: 'Otwórz powłokę w folderze sesji',
+    starting: 'Uruchamianie terminala...',
+    exited: 'Proces zakończył działanie',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `Proces zakończył działanie z kodem ${code}`,
+    restart: 'Uruchom ponownie',
+    closeTitle: 'Zamknąć terminal?',
+    closeConfirm: 'Wszystko, co działa w tym terminalu, zostanie zatrzymane.',
+    openFailed: 'Nie udało się otworzyć terminala',
+    noTmux: 'tmux nie jest zainstalowany na tej maszynie, zmiana rozmiaru i ponowne łączenie są niedostępne.',
+  },
+  sessionArchive: {
+    groupTitle: 'Sesje',
+    groupFooter: 'Archiwa zawierają odszyfrowaną rozmowę, przechowuj je w bezpiecznym miejscu.',
+    exportTitle: 'Eksportuj sesję',
+    exportSubtitle: 'Zapisz rozmowę jako plik archiwum',
+    exportFailed: 'Nie udało się wyeksportować sesji',
+    importTitle: 'Importuj sesję',
+    importSubtitle: 'Odtwórz sesję z pliku archiwum',
+    importFailed: 'Nie udało się zaimportować sesji',
+    invalidFile: 'Ten plik nie jest archiwum sesji',
+    importedAt: 'Zaimportowano',
+    readOnlyBanner: 'Tylko do odczytu: zaimportowano z archiwum',
+  },
+  search: {
+    title: 'Szukaj wiadomości',
+    placeholder: 'Szukaj we wszystkich sesjach',
+    commandSubtitle: 'Znajdź tekst, narzędzia i pliki w sesjach',
+    results: 'Wiadomości',
+    noResults: 'Brak wyników',
+    noResultsHint: 'Można przeszukiwać tylko wiadomości odszyfrowane na tym urządzeniu, zaindeksuj wszystkie sesje poniżej, aby uwzględnić starszą historię.',
+    unknownSession: 'Nieznana sesja',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `Zaindeksowano ${messages} wiadomości z ${sessions} sesji na tym urządzeniu`,
+    buildIndex: 'Zaindeksuj wszystkie sesje',
+    buildIndexFooter: 'Pobiera i odszyfrowuje historię każdej sesji, aby zbudować lokalny indeks wyszukiwania. Nic nie opuszcza tego urządzenia.',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} z ${total} sesji`,
+  },
+  codeReview: {
+    hint: 'Dotknij wiersza, aby go skomentować, dotknij innego wiersza, aby rozszerzyć zaznaczenie, lub nagłówka fragmentu, aby zaznaczyć cały fragment.',
+    addComment: 'Dodaj komentarz',
+    commentPlaceholder: 'Zostaw komentarz dla agenta',
+    pendingComments: ({ count }: { count: number }) =>
+      `Oczekujące komentarze: ${count}`,
+    submit: 'Wyślij recenzję',
+    discard: 'Odrzuć',
+    discardConfirm: 'Odrzucić wszystkie oczekujące komentarze?',
+    draft: 'Oczekuje',
+    open: 'Wysłano',
+    resolved: 'Rozwiązano',
+    messageDisplay: ({ count }: { count: number }) =>
+      `Recenzja kodu: komentarze: ${count}`,
+  },
+  permissionRules: {
+    title: 'Reguły uprawnień',
+    subtitle: 'Zezwalaj, odmawiaj lub pytaj przed uruchomieniem narzędzi',
+    rules: 'Reguły konta',
+    rulesFooter: 'Dotyczą wszystkich sesji. Reguły odmowy i pytania z .unhappy/permissions.json projektu są stosowane razem z nimi; odmowa ma pierwszeństwo przed pytaniem, a pytanie przed zezwoleniem. Codex uruchamia bez pytania polecenia, które uznaje za tylko do odczytu, takie jak ls czy cat, więc reguły ich nie obejmują.',
+    empty: 'Brak reguł konta',
+    editor: 'Edytuj jako JSON',
+    editorFooter: 'Ten sam format co .unhappy/permissions.json. Każda reguła ma akcję (allow, deny lub ask) oraz opcjonalne wzorce tool, command i path.',
+    invalid: ({ error }: { error: string }) =>
+      `Nieprawidłowe reguły: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Dozwolone przez regułę ${source}: ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Odrzucone przez regułę ${source}: ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Pytanie z reguły ${source}: ${rule}`,
+    sourceProject: 'projektu',
+    sourceAccount: 'konta',
+    sourceSession: 'sesji',
+  },
+  sessionAudit: {
+    title: 'Dziennik audytu',
+    subtitle: 'Decyzje o uprawnieniach i uruchomienia narzędzi',
+    footer: 'Zapisywany przez CLI i szyfrowany end-to-end kluczem sesji. Wpisów nie można edytować ani usuwać.',
+    empty: 'Nic jeszcze nie zapisano',
+    loadFailed: 'Nie udało się wczytać dziennika audytu',
+    approved: 'Zatwierdzono',
+    approvedForSession: 'Zatwierdzono na sesję',
+    denied: 'Odrzucono',
+    aborted: 'Przerwano',
+    succeeded: 'Powodzenie',
+    failed: 'Niepowodzenie',
+    byYou: 'Przez Ciebie',
+    byYouOn: ({ device }: { device: string }) =>
+      `Przez Ciebie na ${device}`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `Przez regułę ${source}: ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `Automatycznie w trybie ${mode}`,
+    exitCode: ({ code }: { code: number }) =>
+      `Kod wyjścia ${code}`,
+    files: ({ files }: { files: string }) =>
+      `Pliki: ${files}`,
+  },
+  race: {
+    sessionType: 'Wyścig',
+    title: 'Wyścig',
+    contestantsHint: 'Wybierz co najmniej dwa agenty lub modele. Każdy dostaje to samo polecenie we własnym worktree.',
+    defaultModel: 'Domyślny',
+    needContestants: 'Wybierz co najmniej dwóch uczestników wyścigu',
+    needPrompt: 'Wyścig wymaga polecenia',
+    notFound: 'Nie znaleziono wyścigu',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `Od ${branch}`,
+    starting: 'Uruchamianie…',
+    working: 'Pracuje',
+    done: 'Gotowe',
+    failedToStart: ({ error }: { error: string }) =>
+      `Nie udało się uruchomić: ${error}`,
+    changes: 'Zmiany',
+    noChanges: 'Brak zmian',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `Pliki: ${files}, +${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `i jeszcze ${count}`,
+    untracked: 'nowy',
+    usage: 'Użycie',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `Tokeny: ${tokens}`,
+    noUsage: 'Brak użycia',
+    tests: 'Testy',
+    runTests: 'Uruchom testy',
+    testCommand: 'Polecenie do uruchomienia w każdym worktree',
+    testsPassed: 'Zaliczone',
+    testsFailed: ({ code }: { code: number }) =>
+      `Niezaliczone (kod wyjścia ${code})`,
+    notTested: 'Jeszcze nie uruchomiono',
+    openSession: 'Otwórz sesję',
+    viewChanges: 'Pokaż zmiany',
+    pickWinner: 'Wybierz jako zwycięzcę',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `Scalić ${name} z ${branch}? Pozostałe worktree i ich sesje zostaną usunięte.`,
+    merge: 'Scal',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} scalono z ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `Nie udało się zakończyć wyścigu: ${error}`,
+    openRace: 'Wyścig',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `Porównaj z pozostałymi uczestnikami (${count})`,
+  },
+  machineHealth: {
+    title: 'Stan maszyny',
+    footer: 'Liczone od uruchomienia demona. Wysyłane są tylko liczby, nigdy treść sesji.',
+    uptime: 'Czas działania demona',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} godz. ${minutes} min`,
+    activeSessions: 'Aktywne sesje',
+    sessionsStarted: 'Uruchomione sesje',
+    sessionStartFailures: 'Nieudane uruchomienia sesji',
+    rpcCalls: 'Wywołania zdalne',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count} (nieudane: ${errors})`,
+    rpcLatency: 'Opóźnienie wywołań zdalnych',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: 'Ponowne połączenia',
+    lastReport: 'Ostatni raport',
+  },
+  devices: {
+    title: 'Urządzenia',
+    subtitle: 'Aplikacje i terminale zalogowane na to konto',
+    signedIn: 'Zalogowane',
+    signedInFooter: 'Każda instalacja aplikacji i każdy terminal loguje się własnym kluczem. Stuknij, aby je odwołać, zostanie od razu wylogowane.',
+    thisDevice: 'To urządzenie',
+    app: 'Aplikacja',
+    terminal: 'Terminal',
+    unnamed: 'Urządzenie bez nazwy',
+    loadFailed: 'Nie udało się wczytać urządzeń, stuknij, aby spróbować ponownie',
+    revoke: 'Odwołaj',
+    revokeTitle: 'Odwołaj urządzenie',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} zostanie wylogowane i nie będzie już mieć dostępu do tego konta.`,
+    revokeFailed: 'Nie udało się odwołać urządzenia',
+    security: 'Bezpieczeństwo',
+    securityFooter: 'Wymień klucz konta, jeśli twój tajny klucz mógł wyciec.',
+    rotateKey: 'Wymień klucz konta',
+    rotateKeySubtitle: 'Zastępuje tajny klucz i wylogowuje wszystkie inne urządzenia',
+    rotateKeyAction: 'Wymień',
+    rotateKeyConfirm: 'Zostanie wygenerowany nowy tajny klucz, a wszystkie klucze sesji, maszyn i artefaktów zostaną nim ponownie zaszyfrowane. Wszystkie inne urządzenia zostaną wylogowane i do ponownego logowania potrzebują nowego tajnego klucza. Aplikacja uruchomi się ponownie z nowym kluczem, potem zapisz go w Konto > Kopia zapasowa.',
+  },
+  budget: {
+    title: 'Budżet',
+    none: 'Brak',
+    sessionBudget: 'Budżet sesji',
+    sessionSubtitle: 'Obowiązuje od następnej wiadomości',
+    accountFooter: 'Dotyczy każdej sesji bez własnego budżetu ani budżetu profilu. Agent zatrzymuje się na limicie i pyta przed dalszymi wydatkami. Tylko sesje Claude.',
+    profileFooter: 'Sesje uruchomione z tym profilem zatrzymują się na tym limicie, chyba że ustawią własny. Zostaw puste, aby użyć budżetu konta.',
+    prompt: 'Dolary jak $5 lub tokeny jak 200k tokens. Zostaw puste, aby usunąć budżet.',
+    placeholder: '$5 lub 200k tokens',
+    invalid: 'Wpisz kwotę, np. $5 lub 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `Pozostało ${amount}`,
+    paused: 'Budżet wyczerpany',
+    spent: ({ amount }: { amount: string }) =>
+      `Wydano ${amount}`,
+    exceeded: 'Przekroczono budżet',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `Wydano ${spent} z ${limit}. Kontynuować z kolejnym budżetem?`,
+    continue: 'Kontynuuj',
+    stop: 'Zatrzymaj',
+  },
 } as const;
 
 export type TranslationsPl = typeof pl;
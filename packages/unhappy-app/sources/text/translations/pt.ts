@@ -1057,6 +1057,20 @@ export const pt: TranslationStructure = {
     usageOverTime: 'Uso ao longo do tempo',
     byModel: 'Por modelo',
     noData: 'Nenhum dado de uso disponível',
+    model: 'Modelo',
+    agent: 'Agente',
+    machine: 'Máquina',
+    project: 'Projeto',
+    byAgent: 'Por agente',
+    byMachine: 'Por máquina',
+    byProject: 'Por projeto',
+    cacheHitRatio: 'Taxa de acerto do cache',
+    vsPrevious: ({ change }: { change: string }) => `${change} em relação ao período anterior`,
+    unknown: 'Desconhecido',
+    export: 'Exportar',
+    exportCsv: 'Exportar como CSV',
+    exportJson: 'Exportar como JSON',
+    exportFooter: 'Uso do período selecionado dividido por dia, modelo, agente, máquina e projeto, para planilhas e rateio de custos.',
   },
 
   finishSession: {
@@ -1160,6 +1174,290 @@ export const pt: TranslationStructure = {
     deleteWorktreeConfirm: 'Tem certeza de que deseja excluir este worktree? Todas as sessões serão arquivadas.',
     archiveSessionConfirm: 'Tem certeza de que deseja arquivar esta sessão?',
   },
+  schedules: {
+    title: 'Prompts agendados',
+    machineEntrySubtitle: 'Execute prompts nesta máquina de forma agendada',
+    empty: 'Ainda não há prompts agendados',
+    newSchedule: 'Novo agendamento',
+    editSchedule: 'Editar agendamento',
+    name: 'Nome',
+    namePlaceholder: 'Revisão matinal',
+    directory: 'Diretório',
+    prompt: 'Prompt',
+    promptPlaceholder: 'O que o agente deve fazer?',
+    agent: 'Agente',
+    enabled: 'Ativado',
+    repeat: 'Repetir',
+    once: 'Uma vez',
+    weekly: 'Semanal',
+    interval: 'Intervalo',
+    time: 'Hora (HH:MM)',
+    date: 'Data (AAAA-MM-DD)',
+    intervalMinutes: 'A cada (minutos)',
+    days: 'Dias',
+    dayShort: ({ day }: { day: number }) =>
+      ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sáb'][day] ?? '',
+    everyDay: 'Todos os dias',
+    weekdays: 'Dias úteis',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} às ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `A cada ${minutes} min`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `Uma vez em ${date}`,
+    nextRun: ({ date }: { date: string }) =>
+      `Próxima execução: ${date}`,
+    notScheduled: 'Não agendado',
+    runNow: 'Executar agora',
+    history: 'Histórico de execuções',
+    noRuns: 'Ainda não há execuções',
+    statusRunning: 'Em execução',
+    statusCompleted: 'Concluído',
+    statusSkipped: 'Ignorado',
+    statusFailed: 'Falhou',
+    deleteConfirmTitle: 'Excluir agendamento?',
+    deleteConfirmDescription: 'Este agendamento e seu histórico serão removidos da máquina.',
+    runStarted: 'Execução iniciada',
+    runSkipped: 'Ignorado: a execução anterior ainda está ativa',
+    missingFields: 'Nome, diretório e prompt são obrigatórios',
+    invalidTime: 'Informe a hora como HH:MM',
+    invalidDate: 'Informe a data como AAAA-MM-DD',
+    invalidInterval: 'O intervalo deve ser de pelo menos 5 minutos',
+    selectDays: 'Selecione pelo menos um dia',
+    loadFailed: 'Não foi possível carregar os agendamentos. Verifique se o daemon usa a versão mais recente da CLI.',
+  },
+  sessionSharing: {
+    title: 'Compartilhar sessão',
+    shareSubtitle: 'Permita que amigos acompanhem esta sessão somente para leitura',
+    sharedBy: 'Compartilhada por',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `Somente leitura: ${name} compartilhou esta sessão com você`,
+    sharedWith: 'Compartilhada com',
+    notShared: 'Ainda não compartilhada com ninguém',
+    friends: 'Amigos',
+    noFriends: 'Adicione amigos para compartilhar sessões com eles',
+    share: 'Compartilhar',
+    revoke: 'Revogar',
+    revokeTitle: 'Revogar acesso?',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} não verá mais esta sessão.`,
+    revokeFailed: 'Falha ao revogar o acesso',
+    shareFailed: 'Falha ao compartilhar a sessão',
+    notFriends: 'Sessões só podem ser compartilhadas com amigos',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} precisa abrir a versão mais recente do app antes que você possa compartilhar`,
+    notShareable: 'Esta sessão não pode ser compartilhada',
+    notShareableDescription: 'Sessões iniciadas com uma versão antiga da CLI são criptografadas com a chave da sua conta e não podem ser compartilhadas.',
+    readOnlyFooter: 'Amigos veem mensagens e status em tempo real, mas não podem enviar mensagens nem responder a pedidos de permissão.',
+  },
+  sessionTerminal: {
+    title: 'Terminal',
+    openSubtitle: 'Abrir um shell na pasta da sessão',
+    starting: 'Iniciando terminal...',
+    exited: 'O processo terminou',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `O processo terminou com o código ${code}`,
+    restart: 'Reiniciar',
+    closeTitle: 'Fechar terminal?',
+    closeConfirm: 'Tudo o que está em execução neste terminal será interrompido.',
+    openFailed: 'Falha ao abrir o terminal',
+    noTmux: 'O tmux não está instalado nesta máquina, redimensionar e reconectar não estão disponíveis.',
+  },
+  sessionArchive: {
+    groupTitle: 'Sessões',
+    groupFooter: 'Os arquivos contêm a conversa descriptografada, guarde-os em um lugar seguro.',
+    exportTitle: 'Exportar sessão',
+    exportSubtitle: 'Salvar a conversa como arquivo',
+    exportFailed: 'Falha ao exportar a sessão',
+    importTitle: 'Importar sessão',
+    importSubtitle: 'Recriar uma sessão a partir de um arquivo',
+    importFailed: 'Falha ao importar a sessão',
+    invalidFile: 'Este arquivo não é um arquivo de sessão',
+    importedAt: 'Importada',
+    readOnlyBanner: 'Somente leitura: importada de um arquivo',
+  },
+  search: {
+    title: 'Pesquisar mensagens',
+    placeholder: 'Pesquisar em todas as sessões',
+    commandSubtitle: 'Encontre texto, ferramentas e arquivos nas sessões',
+    results: 'Mensagens',
+    noResults: 'Nenhum resultado',
+    noResultsHint: 'Apenas mensagens descriptografadas neste dispositivo podem ser pesquisadas, indexe todas as sessões abaixo para incluir o histórico anterior.',
+    unknownSession: 'Sessão desconhecida',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `${messages} mensagens de ${sessions} sessões indexadas neste dispositivo`,
+    buildIndex: 'Indexar todas as sessões',
+    buildIndexFooter: 'Baixa e descriptografa o histórico de cada sessão para criar o índice de pesquisa local. Nada sai deste dispositivo.',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} de ${total} sessões`,
+  },
+  codeReview: {
+    hint: 'Toque numa linha para comentá-la, toque em outra linha para ampliar a seleção ou no cabeçalho de um bloco para selecioná-lo inteiro.',
+    addComment: 'Adicionar comentário',
+    commentPlaceholder: 'Deixe um comentário para o agente',
+    pendingComments: ({ count }: { count: number }) =>
+      `Comentários pendentes: ${count}`,
+    submit: 'Enviar revisão',
+    discard: 'Descartar',
+    discardConfirm: 'Descartar todos os comentários pendentes?',
+    draft: 'Pendente',
+    open: 'Enviado',
+    resolved: 'Resolvido',
+    messageDisplay: ({ count }: { count: number }) =>
+      `Revisão de código: ${count} comentários`,
+  },
+  permissionRules: {
+    title: 'Regras de permissão',
+    subtitle: 'Permitir, negar ou perguntar antes de executar ferramentas',
+    rules: 'Regras da conta',
+    rulesFooter: 'Aplicam-se a todas as sessões. As regras de negar e perguntar em .unhappy/permissions.json de um projeto somam-se a estas; negar prevalece sobre perguntar e perguntar sobre permitir. O Codex executa sem perguntar os comandos que considera somente leitura, como ls ou cat, e as regras não se aplicam a eles.',
+    empty: 'Nenhuma regra da conta',
+    editor: 'Editar como JSON',
+    editorFooter: 'Mesmo formato de .unhappy/permissions.json. Cada regra tem uma ação (allow, deny ou ask) e padrões opcionais de tool, command e path.',
+    invalid: ({ error }: { error: string }) =>
+      `Regras inválidas: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Permitido pela regra ${source}: ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Negado pela regra ${source}: ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Perguntado pela regra ${source}: ${rule}`,
+    sourceProject: 'do projeto',
+    sourceAccount: 'da conta',
+    sourceSession: 'da sessão',
+  },
+  sessionAudit: {
+    title: 'Registro de auditoria',
+    subtitle: 'Decisões de permissões e execuções de ferramentas',
+    footer: 'Registrado pela CLI e criptografado de ponta a ponta com a chave da sessão. As entradas não podem ser editadas nem removidas.',
+    empty: 'Nada registrado ainda',
+    loadFailed: 'Falha ao carregar o registro de auditoria',
+    approved: 'Aprovado',
+    approvedForSession: 'Aprovado para a sessão',
+    denied: 'Negado',
+    aborted: 'Abortado',
+    succeeded: 'Sucesso',
+    failed: 'Falhou',
+    byYou: 'Por você',
+    byYouOn: ({ device }: { device: string }) =>
+      `Por você em ${device}`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `Pela regra de ${source}: ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `Automaticamente no modo ${mode}`,
+    exitCode: ({ code }: { code: number }) =>
+      `Código de saída ${code}`,
+    files: ({ files }: { files: string }) =>
+      `Arquivos: ${files}`,
+  },
+  race: {
+    sessionType: 'Corrida',
+    title: 'Corrida',
+    contestantsHint: 'Escolha pelo menos dois agentes ou modelos. Cada um recebe o mesmo prompt em seu próprio worktree.',
+    defaultModel: 'Padrão',
+    needContestants: 'Escolha pelo menos dois participantes para uma corrida',
+    needPrompt: 'Uma corrida precisa de um prompt',
+    notFound: 'Corrida não encontrada',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `A partir de ${branch}`,
+    starting: 'Iniciando…',
+    working: 'Trabalhando',
+    done: 'Concluído',
+    failedToStart: ({ error }: { error: string }) =>
+      `Falha ao iniciar: ${error}`,
+    changes: 'Alterações',
+    noChanges: 'Nenhuma alteração ainda',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `${files} arquivos, +${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `e mais ${count}`,
+    untracked: 'novo',
+    usage: 'Uso',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `${tokens} tokens`,
+    noUsage: 'Nenhum uso ainda',
+    tests: 'Testes',
+    runTests: 'Executar testes',
+    testCommand: 'Comando a executar em cada worktree',
+    testsPassed: 'Passaram',
+    testsFailed: ({ code }: { code: number }) =>
+      `Falharam (código de saída ${code})`,
+    notTested: 'Ainda não executados',
+    openSession: 'Abrir sessão',
+    viewChanges: 'Ver alterações',
+    pickWinner: 'Escolher como vencedor',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `Mesclar ${name} em ${branch}? Os outros worktrees e suas sessões serão removidos.`,
+    merge: 'Mesclar',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} foi mesclado em ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `Não foi possível concluir a corrida: ${error}`,
+    openRace: 'Corrida',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `Comparar com os outros ${count} participantes`,
+  },
+  machineHealth: {
+    title: 'Saúde da máquina',
+    footer: 'Contado desde que o daemon foi iniciado. Apenas números são enviados, nunca o conteúdo das sessões.',
+    uptime: 'Tempo ativo do daemon',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} h ${minutes} min`,
+    activeSessions: 'Sessões ativas',
+    sessionsStarted: 'Sessões iniciadas',
+    sessionStartFailures: 'Falhas ao iniciar sessão',
+    rpcCalls: 'Chamadas remotas',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count} (${errors} com falha)`,
+    rpcLatency: 'Latência das chamadas remotas',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: 'Reconexões',
+    lastReport: 'Último relatório',
+  },
+  devices: {
+    title: 'Dispositivos',
+    subtitle: 'Apps e terminais conectados a esta conta',
+    signedIn: 'Conectados',
+    signedInFooter: 'Cada instalação do app e cada terminal entra com a sua própria chave. Toque em um para revogá-lo, ele é desconectado na hora.',
+    thisDevice: 'Este dispositivo',
+    app: 'App',
+    terminal: 'Terminal',
+    unnamed: 'Dispositivo sem nome',
+    loadFailed: 'Não foi possível carregar os dispositivos, toque para tentar de novo',
+    revoke: 'Revogar',
+    revokeTitle: 'Revogar dispositivo',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} será desconectado e não poderá mais acessar esta conta.`,
+    revokeFailed: 'Falha ao revogar o dispositivo',
+    security: 'Segurança',
+    securityFooter: 'Troque a chave da conta se a sua chave secreta pode ter vazado.',
+    rotateKey: 'Trocar chave da conta',
+    rotateKeySubtitle: 'Substitui a chave secreta e desconecta todos os outros dispositivos',
+    rotateKeyAction: 'Trocar',
+    rotateKeyConfirm: 'Uma nova chave secreta é gerada e todas as chaves de sessões, máquinas e artefatos são criptografadas novamente com ela. Todos os outros dispositivos são desconectados e precisam da nova chave secreta para entrar de novo. O app reinicia com a nova chave, depois guarde uma cópia em Conta > Backup.',
+  },
+  budget: {
+    title: 'Orçamento',
+    none: 'Nenhum',
+    sessionBudget: 'Orçamento da sessão',
+    sessionSubtitle: 'Aplica-se a partir da próxima mensagem',
+    accountFooter: 'Aplica-se a todas as sessões sem orçamento próprio nem do seu perfil. O agente pausa no limite e pergunta antes de gastar mais. Apenas sessões Claude.',
+    profileFooter: 'Sessões iniciadas com este perfil pausam neste limite, a menos que definam um próprio. Deixe vazio para usar o da conta.',
+    prompt: 'Dólares como $5 ou tokens como 200k tokens. Deixe vazio para remover o orçamento.',
+    placeholder: '$5 ou 200k tokens',
+    invalid: 'Digite um valor como $5 ou 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `Restam ${amount}`,
+    paused: 'Orçamento esgotado',
+    spent: ({ amount }: { amount: string }) =>
+      `${amount} gastos`,
+    exceeded: 'Orçamento excedido',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `Gasto ${spent} de ${limit}. Continuar com outro orçamento?`,
+    continue: 'Continuar',
+    stop: 'Parar',
+  },
 } as const;
 
 export type TranslationsPt = typeof pt;
@@ -1078,6 +1078,20 @@ export const ru: TranslationStructure = {
     usageOverTime: 'Использование во времени',
     byModel: 'По модели',
     noData: 'Данные об использовании недоступны',
+    model: 'Модель',
+    agent: 'Агент',
+    machine: 'Машина',
+    project: 'Проект',
+    byAgent: 'По агентам',
+    byMachine: 'По машинам',
+    byProject: 'По проектам',
+    cacheHitRatio: 'Доля попаданий в кэш',
+    vsPrevious: ({ change }: { change: string }) => `${change} к предыдущему периоду`,
+    unknown: 'Неизвестно',
+    export: 'Экспорт',
+    exportCsv: 'Экспорт в CSV',
+    exportJson: 'Экспорт в JSON',
+    exportFooter: 'Использование за выбранный период с разбивкой по дням, моделям, агентам, машинам и проектам — для таблиц и распределения затрат.',
   },
 
   feed: {
@@ -1180,6 +1194,290 @@ export const ru: TranslationStructure = {
     deleteWorktreeConfirm: 'Вы уверены, что хотите удалить это рабочее дерево? Все сессии будут архивированы.',
     archiveSessionConfirm: 'Вы уверены, что хотите архивировать эту сессию?',
   },
+  schedules: {
+    title: 'Запланированные промпты',
+    machineEntrySubtitle: 'Запускайте промпты на этой машине по расписанию',
+    empty: 'Запланированных промптов пока нет',
+    newSchedule: 'Новое расписание',
+    editSchedule: 'Изменить расписание',
+    name: 'Название',
+    namePlaceholder: 'Утренний обзор',
+    directory: 'Каталог',
+    prompt: 'Промпт',
+    promptPlaceholder: 'Что должен сделать агент?',
+    agent: 'Агент',
+    enabled: 'Включено',
+    repeat: 'Повтор',
+    once: 'Однократно',
+    weekly: 'Еженедельно',
+    interval: 'Интервал',
+    time: 'Время (ЧЧ:ММ)',
+    date: 'Дата (ГГГГ-ММ-ДД)',
+    intervalMinutes: 'Каждые (минут)',
+    days: 'Дни',
+    dayShort: ({ day }: { day: number }) =>
+      ['Вс', 'Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб'][day] ?? '',
+    everyDay: 'Каждый день',
+    weekdays: 'Будни',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} в ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `Каждые ${minutes} мин`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `Однократно ${date}`,
+    nextRun: ({ date }: { date: string }) =>
+      `Следующий запуск: ${date}`,
+    notScheduled: 'Не запланировано',
+    runNow: 'Запустить сейчас',
+    history: 'История запусков',
+    noRuns: 'Запусков пока нет',
+    statusRunning: 'Выполняется',
+    statusCompleted: 'Завершено',
+    statusSkipped: 'Пропущено',
+    statusFailed: 'Ошибка',
+    deleteConfirmTitle: 'Удалить расписание?',
+    deleteConfirmDescription: 'Расписание и история запусков будут удалены с машины.',
+    runStarted: 'Запуск начат',
+    runSkipped: 'Пропущено: предыдущий запуск ещё активен',
+    missingFields: 'Название, каталог и промпт обязательны',
+    invalidTime: 'Введите время в формате ЧЧ:ММ',
+    invalidDate: 'Введите дату в формате ГГГГ-ММ-ДД',
+    invalidInterval: 'Интервал должен быть не меньше 5 минут',
+    selectDays: 'Выберите хотя бы один день',
+    loadFailed: 'Не удалось загрузить расписания. Убедитесь, что демон использует последнюю версию CLI.',
+  },
+  sessionSharing: {
+    title: 'Поделиться сессией',
+    shareSubtitle: 'Друзья смогут следить за этой сессией в режиме только для чтения',
+    sharedBy: 'Поделился',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `Только чтение: ${name} поделился с вами этой сессией`,
+    sharedWith: 'Доступ открыт',
+    notShared: 'Пока ни с кем не поделились',
+    friends: 'Друзья',
+    noFriends: 'Добавьте друзей, чтобы делиться с ними сессиями',
+    share: 'Поделиться',
+    revoke: 'Отозвать',
+    revokeTitle: 'Отозвать доступ?',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} больше не увидит эту сессию.`,
+    revokeFailed: 'Не удалось отозвать доступ',
+    shareFailed: 'Не удалось поделиться сессией',
+    notFriends: 'Делиться сессиями можно только с друзьями',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} должен открыть последнюю версию приложения, прежде чем вы сможете поделиться`,
+    notShareable: 'Этой сессией нельзя поделиться',
+    notShareableDescription: 'Сессии, запущенные старой версией CLI, зашифрованы ключом вашего аккаунта, и ими нельзя поделиться.',
+    readOnlyFooter: 'Друзья видят сообщения и статус в реальном времени, но не могут отправлять сообщения или отвечать на запросы разрешений.',
+  },
+  sessionTerminal: {
+    title: 'Терминал',
+    openSubtitle: 'Открыть оболочку в папке сессии',
+    starting: 'Запуск терминала...',
+    exited: 'Процесс завершён',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `Процесс завершён с кодом ${code}`,
+    restart: 'Перезапустить',
+    closeTitle: 'Закрыть терминал?',
+    closeConfirm: 'Всё, что запущено в этом терминале, будет остановлено.',
+    openFailed: 'Не удалось открыть терминал',
+    noTmux: 'На этой машине не установлен tmux, изменение размера и переподключение недоступны.',
+  },
+  sessionArchive: {
+    groupTitle: 'Сессии',
+    groupFooter: 'Архивы содержат расшифрованную переписку, храните их в надёжном месте.',
+    exportTitle: 'Экспортировать сессию',
+    exportSubtitle: 'Сохранить переписку в файл архива',
+    exportFailed: 'Не удалось экспортировать сессию',
+    importTitle: 'Импортировать сессию',
+    importSubtitle: 'Воссоздать сессию из файла архива',
+    importFailed: 'Не удалось импортировать сессию',
+    invalidFile: 'Этот файл не является архивом сессии',
+    importedAt: 'Импортирована',
+    readOnlyBanner: 'Только чтение: импортирована из архива',
+  },
+  search: {
+    title: 'Поиск сообщений',
+    placeholder: 'Искать во всех сессиях',
+    commandSubtitle: 'Ищите текст, инструменты и файлы во всех сессиях',
+    results: 'Сообщения',
+    noResults: 'Совпадений нет',
+    noResultsHint: 'Искать можно только сообщения, расшифрованные на этом устройстве. Проиндексируйте все сессии ниже, чтобы включить более старую историю.',
+    unknownSession: 'Неизвестная сессия',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `Проиндексировано сообщений: ${messages} из сессий: ${sessions} на этом устройстве`,
+    buildIndex: 'Проиндексировать все сессии',
+    buildIndexFooter: 'Загружает и расшифровывает историю каждой сессии для локального поискового индекса. Ничего не покидает это устройство.',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} из ${total} сессий`,
+  },
+  codeReview: {
+    hint: 'Нажмите на строку, чтобы прокомментировать её, нажмите на другую строку, чтобы расширить выделение, или на заголовок блока, чтобы выделить его целиком.',
+    addComment: 'Добавить комментарий',
+    commentPlaceholder: 'Комментарий для агента',
+    pendingComments: ({ count }: { count: number }) =>
+      `Ожидающие комментарии: ${count}`,
+    submit: 'Отправить ревью',
+    discard: 'Отменить',
+    discardConfirm: 'Удалить все ожидающие комментарии?',
+    draft: 'Ожидает',
+    open: 'Отправлено',
+    resolved: 'Решено',
+    messageDisplay: ({ count }: { count: number }) =>
+      `Ревью кода: комментариев: ${count}`,
+  },
+  permissionRules: {
+    title: 'Правила разрешений',
+    subtitle: 'Разрешать, запрещать или спрашивать перед запуском инструментов',
+    rules: 'Правила аккаунта',
+    rulesFooter: 'Действуют во всех сессиях. Правила запрета и вопроса из .unhappy/permissions.json проекта применяются вместе с ними; запрет важнее вопроса, а вопрос важнее разрешения. Codex выполняет без вопроса команды, которые считает только читающими, например ls или cat, и правила на них не действуют.',
+    empty: 'Нет правил аккаунта',
+    editor: 'Редактировать как JSON',
+    editorFooter: 'Тот же формат, что и в .unhappy/permissions.json. У каждого правила есть action (allow, deny или ask) и необязательные шаблоны tool, command и path.',
+    invalid: ({ error }: { error: string }) =>
+      `Неверные правила: ${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Разрешено правилом (${source}): ${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Запрещено правилом (${source}): ${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `Запрошено правилом (${source}): ${rule}`,
+    sourceProject: 'проекта',
+    sourceAccount: 'аккаунта',
+    sourceSession: 'сессии',
+  },
+  sessionAudit: {
+    title: 'Журнал аудита',
+    subtitle: 'Решения о разрешениях и запуски инструментов',
+    footer: 'Записывается CLI и шифруется сквозным шифрованием ключом сессии. Записи нельзя изменить или удалить.',
+    empty: 'Пока ничего не записано',
+    loadFailed: 'Не удалось загрузить журнал аудита',
+    approved: 'Одобрено',
+    approvedForSession: 'Одобрено для сессии',
+    denied: 'Отклонено',
+    aborted: 'Прервано',
+    succeeded: 'Успешно',
+    failed: 'Ошибка',
+    byYou: 'Вами',
+    byYouOn: ({ device }: { device: string }) =>
+      `Вами на ${device}`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `Правилом (${source}): ${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `Автоматически в режиме ${mode}`,
+    exitCode: ({ code }: { code: number }) =>
+      `Код выхода ${code}`,
+    files: ({ files }: { files: string }) =>
+      `Файлы: ${files}`,
+  },
+  race: {
+    sessionType: 'Гонка',
+    title: 'Гонка',
+    contestantsHint: 'Выберите не менее двух агентов или моделей. Каждый получит тот же запрос в собственном worktree.',
+    defaultModel: 'По умолчанию',
+    needContestants: 'Выберите не менее двух участников гонки',
+    needPrompt: 'Для гонки нужен запрос',
+    notFound: 'Гонка не найдена',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `От ${branch}`,
+    starting: 'Запуск…',
+    working: 'Работает',
+    done: 'Готово',
+    failedToStart: ({ error }: { error: string }) =>
+      `Не удалось запустить: ${error}`,
+    changes: 'Изменения',
+    noChanges: 'Изменений пока нет',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `Файлов: ${files}, +${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `и ещё ${count}`,
+    untracked: 'новый',
+    usage: 'Использование',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `Токенов: ${tokens}`,
+    noUsage: 'Использования пока нет',
+    tests: 'Тесты',
+    runTests: 'Запустить тесты',
+    testCommand: 'Команда для запуска в каждом worktree',
+    testsPassed: 'Пройдены',
+    testsFailed: ({ code }: { code: number }) =>
+      `Не пройдены (код выхода ${code})`,
+    notTested: 'Ещё не запускались',
+    openSession: 'Открыть сессию',
+    viewChanges: 'Показать изменения',
+    pickWinner: 'Выбрать победителем',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `Слить ${name} в ${branch}? Остальные worktree и их сессии будут удалены.`,
+    merge: 'Слить',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} слит в ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `Не удалось завершить гонку: ${error}`,
+    openRace: 'Гонка',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `Сравнить с остальными участниками (${count})`,
+  },
+  machineHealth: {
+    title: 'Состояние машины',
+    footer: 'Подсчитано с момента запуска демона. Отправляются только числа, без содержимого сессий.',
+    uptime: 'Время работы демона',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} ч ${minutes} мин`,
+    activeSessions: 'Активные сессии',
+    sessionsStarted: 'Запущено сессий',
+    sessionStartFailures: 'Неудачные запуски сессий',
+    rpcCalls: 'Удалённые вызовы',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count} (с ошибкой: ${errors})`,
+    rpcLatency: 'Задержка удалённых вызовов',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} мс · p95 ${p95} мс`,
+    reconnects: 'Переподключения',
+    lastReport: 'Последний отчёт',
+  },
+  devices: {
+    title: 'Устройства',
+    subtitle: 'Приложения и терминалы, в которых выполнен вход в этот аккаунт',
+    signedIn: 'Выполнен вход',
+    signedInFooter: 'Каждая установка приложения и каждый терминал входят со своим ключом. Нажмите на устройство, чтобы отозвать его, выход произойдёт сразу.',
+    thisDevice: 'Это устройство',
+    app: 'Приложение',
+    terminal: 'Терминал',
+    unnamed: 'Устройство без имени',
+    loadFailed: 'Не удалось загрузить устройства, нажмите, чтобы повторить',
+    revoke: 'Отозвать',
+    revokeTitle: 'Отозвать устройство',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} выйдет из аккаунта и больше не сможет получить к нему доступ.`,
+    revokeFailed: 'Не удалось отозвать устройство',
+    security: 'Безопасность',
+    securityFooter: 'Замените ключ аккаунта, если ваш секретный ключ мог утечь.',
+    rotateKey: 'Заменить ключ аккаунта',
+    rotateKeySubtitle: 'Заменяет секретный ключ и выполняет выход на всех остальных устройствах',
+    rotateKeyAction: 'Заменить',
+    rotateKeyConfirm: 'Будет создан новый секретный ключ, и все ключи сессий, машин и артефактов будут заново зашифрованы им. На всех остальных устройствах будет выполнен выход, для повторного входа понадобится новый секретный ключ. Приложение перезапустится с новым ключом, затем сохраните его в разделе Аккаунт > Резервная копия.',
+  },
+  budget: {
+    title: 'Бюджет',
+    none: 'Нет',
+    sessionBudget: 'Бюджет сессии',
+    sessionSubtitle: 'Применяется со следующего сообщения',
+    accountFooter: 'Применяется ко всем сессиям без собственного бюджета или бюджета профиля. На лимите агент останавливается и спрашивает, прежде чем тратить дальше. Только для сессий Claude.',
+    profileFooter: 'Сессии, запущенные с этим профилем, останавливаются на этом лимите, если не задан собственный. Оставьте пустым, чтобы использовать бюджет аккаунта.',
+    prompt: 'Доллары, например $5, или токены, например 200k tokens. Оставьте пустым, чтобы убрать бюджет.',
+    placeholder: '$5 или 200k tokens',
+    invalid: 'Введите сумму, например $5 или 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `Осталось ${amount}`,
+    paused: 'Бюджет исчерпан',
+    spent: ({ amount }: { amount: string }) =>
+      `Потрачено ${amount}`,
+    exceeded: 'Бюджет превышен',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `Потрачено ${spent} из ${limit}. Продолжить с новым бюджетом?`,
+    continue: 'Продолжить',
+    stop: 'Остановить',
+  },
 } as const;
 
 export type TranslationsRu = typeof ru;
@@ -1009,6 +1009,20 @@ export const zhHans: TranslationStructure = {
     usageOverTime: '使用趋势',
     byModel: '按模型',
     noData: '暂无使用数据',
+    model: '模型',
+    agent: '代理',
+    machine: '机器',
+    project: '项目',
+    byAgent: '按代理',
+    byMachine: '按机器',
+    byProject: '按项目',
+    cacheHitRatio: '缓存命中率',
+    vsPrevious: ({ change }: { change: string }) => `较上一周期 ${change}`,
+    unknown: '未知',
+    export: '导出',
+    exportCsv: '导出为 CSV',
+    exportJson: '导出为 JSON',
+    exportFooter: '按日、模型、代理、机器和项目拆分所选周期的用量，便于电子表格和费用分摊。',
   },
 
   finishSession: {
@@ -1109,4 +1123,288 @@ export const zhHans: TranslationStructure = {
     deleteWorktreeConfirm: '确定要删除此工作树吗？所有会话将被归档。',
     archiveSessionConfirm: '确定要归档此会话吗？',
   },
+  schedules: {
+    title: '定时提示',
+    machineEntrySubtitle: '在此设备上按计划运行提示',
+    empty: '还没有定时提示',
+    newSchedule: '新建计划',
+    editSchedule: '编辑计划',
+    name: '名称',
+    namePlaceholder: '早间审查',
+    directory: '目录',
+    prompt: '提示',
+    promptPlaceholder: '希望代理做什么？',
+    agent: '代理',
+    enabled: '启用',
+    repeat: '重复',
+    once: '一次',
+    weekly: '每周',
+    interval: '间隔',
+    time: '时间 (HH:MM)',
+    date: '日期 (YYYY-MM-DD)',
+    intervalMinutes: '每隔（分钟）',
+    days: '日期',
+    dayShort: ({ day }: { day: number }) =>
+      ['周日', '周一', '周二', '周三', '周四', '周五', '周六'][day] ?? '',
+    everyDay: '每天',
+    weekdays: '工作日',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `每 ${minutes} 分钟`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `${date} 运行一次`,
+    nextRun: ({ date }: { date: string }) =>
+      `下次运行：${date}`,
+    notScheduled: '未计划',
+    runNow: '立即运行',
+    history: '运行历史',
+    noRuns: '还没有运行记录',
+    statusRunning: '运行中',
+    statusCompleted: '已完成',
+    statusSkipped: '已跳过',
+    statusFailed: '失败',
+    deleteConfirmTitle: '删除此计划？',
+    deleteConfirmDescription: '此计划及其运行历史将从设备中删除。',
+    runStarted: '已开始运行',
+    runSkipped: '已跳过：上一次运行仍在进行',
+    missingFields: '名称、目录和提示为必填项',
+    invalidTime: '请按 HH:MM 格式输入时间',
+    invalidDate: '请按 YYYY-MM-DD 格式输入日期',
+    invalidInterval: '间隔至少为 5 分钟',
+    selectDays: '请至少选择一天',
+    loadFailed: '无法加载计划。请确认守护进程运行的是最新版本的 CLI。',
+  },
+  sessionSharing: {
+    title: '共享会话',
+    shareSubtitle: '让好友以只读方式查看此会话',
+    sharedBy: '共享者',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `只读：${name} 与你共享了此会话`,
+    sharedWith: '已共享给',
+    notShared: '尚未与任何人共享',
+    friends: '好友',
+    noFriends: '添加好友后即可与其共享会话',
+    share: '共享',
+    revoke: '撤销',
+    revokeTitle: '撤销访问权限？',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} 将无法再查看此会话。`,
+    revokeFailed: '撤销访问权限失败',
+    shareFailed: '共享会话失败',
+    notFriends: '会话只能与好友共享',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} 需要先打开最新版本的应用才能共享`,
+    notShareable: '此会话无法共享',
+    notShareableDescription: '使用旧版 CLI 启动的会话由你的账户密钥加密，无法共享。',
+    readOnlyFooter: '好友可以实时查看消息和状态，但无法发送消息或响应权限请求。',
+  },
+  sessionTerminal: {
+    title: '终端',
+    openSubtitle: '在会话文件夹中打开 shell',
+    starting: '正在启动终端...',
+    exited: '进程已退出',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `进程已退出，代码 ${code}`,
+    restart: '重新启动',
+    closeTitle: '关闭终端？',
+    closeConfirm: '此终端中运行的所有内容都将被停止。',
+    openFailed: '无法打开终端',
+    noTmux: '此机器未安装 tmux，无法调整大小或重新连接。',
+  },
+  sessionArchive: {
+    groupTitle: '会话',
+    groupFooter: '归档包含已解密的对话，请妥善保管。',
+    exportTitle: '导出会话',
+    exportSubtitle: '将对话保存为归档文件',
+    exportFailed: '无法导出会话',
+    importTitle: '导入会话',
+    importSubtitle: '从归档文件重建会话',
+    importFailed: '无法导入会话',
+    invalidFile: '此文件不是会话归档',
+    importedAt: '导入时间',
+    readOnlyBanner: '只读：从归档导入',
+  },
+  search: {
+    title: '搜索消息',
+    placeholder: '搜索所有会话',
+    commandSubtitle: '在会话中查找文本、工具和文件',
+    results: '消息',
+    noResults: '没有匹配项',
+    noResultsHint: '只能搜索此设备已解密的消息，在下方为所有会话建立索引以包含更早的历史。',
+    unknownSession: '未知会话',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `此设备已索引 ${sessions} 个会话中的 ${messages} 条消息`,
+    buildIndex: '为所有会话建立索引',
+    buildIndexFooter: '下载并解密每个会话的历史以建立本地搜索索引，数据不会离开此设备。',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} / ${total} 个会话`,
+  },
+  codeReview: {
+    hint: '点按一行进行评论，点按另一行可扩展选区，点按代码块标题可选中整个代码块。',
+    addComment: '添加评论',
+    commentPlaceholder: '给代理留下评论',
+    pendingComments: ({ count }: { count: number }) =>
+      `待提交评论：${count}`,
+    submit: '提交审查',
+    discard: '丢弃',
+    discardConfirm: '丢弃所有待提交的评论？',
+    draft: '待提交',
+    open: '已发送',
+    resolved: '已解决',
+    messageDisplay: ({ count }: { count: number }) =>
+      `代码审查：${count} 条评论`,
+  },
+  permissionRules: {
+    title: '权限规则',
+    subtitle: '在工具运行前允许、拒绝或询问',
+    rules: '账户规则',
+    rulesFooter: '适用于所有会话。项目中 .unhappy/permissions.json 的拒绝和询问规则会一并生效，拒绝优先于询问，询问优先于允许。Codex 会直接运行它认为只读的命令（如 ls 或 cat），这些命令不受规则约束。',
+    empty: '没有账户规则',
+    editor: '以 JSON 编辑',
+    editorFooter: '格式与 .unhappy/permissions.json 相同。每条规则包含 action（allow、deny 或 ask）以及可选的 tool、command 和 path 通配符。',
+    invalid: ({ error }: { error: string }) =>
+      `规则无效：${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `由${source}规则允许：${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `由${source}规则拒绝：${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `由${source}规则询问：${rule}`,
+    sourceProject: '项目',
+    sourceAccount: '账户',
+    sourceSession: '会话',
+  },
+  sessionAudit: {
+    title: '审计日志',
+    subtitle: '权限决定和工具运行',
+    footer: '由 CLI 记录，并使用会话密钥进行端到端加密。条目无法编辑或删除。',
+    empty: '暂无记录',
+    loadFailed: '无法加载审计日志',
+    approved: '已批准',
+    approvedForSession: '本次会话内批准',
+    denied: '已拒绝',
+    aborted: '已中止',
+    succeeded: '成功',
+    failed: '失败',
+    byYou: '由你决定',
+    byYouOn: ({ device }: { device: string }) =>
+      `由你在 ${device} 上决定`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `${source} 规则：${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `在 ${mode} 模式下自动`,
+    exitCode: ({ code }: { code: number }) =>
+      `退出码 ${code}`,
+    files: ({ files }: { files: string }) =>
+      `文件：${files}`,
+  },
+  race: {
+    sessionType: '竞赛',
+    title: '竞赛',
+    contestantsHint: '至少选择两个代理或模型。每个都会在自己的工作树中收到相同的提示。',
+    defaultModel: '默认',
+    needContestants: '竞赛至少需要两个参赛者',
+    needPrompt: '竞赛需要提示',
+    notFound: '未找到竞赛',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `基于 ${branch}`,
+    starting: '正在启动…',
+    working: '工作中',
+    done: '已完成',
+    failedToStart: ({ error }: { error: string }) =>
+      `启动失败：${error}`,
+    changes: '更改',
+    noChanges: '暂无更改',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `${files} 个文件，+${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `另外 ${count} 个`,
+    untracked: '新文件',
+    usage: '用量',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `${tokens} 个令牌`,
+    noUsage: '暂无用量',
+    tests: '测试',
+    runTests: '运行测试',
+    testCommand: '在每个工作树中运行的命令',
+    testsPassed: '通过',
+    testsFailed: ({ code }: { code: number }) =>
+      `失败（退出码 ${code}）`,
+    notTested: '尚未运行',
+    openSession: '打开会话',
+    viewChanges: '查看更改',
+    pickWinner: '选为获胜者',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `将 ${name} 合并到 ${branch}？其他工作树及其会话将被删除。`,
+    merge: '合并',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} 已合并到 ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `无法结束竞赛：${error}`,
+    openRace: '竞赛',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `与其他 ${count} 个参赛者比较`,
+  },
+  machineHealth: {
+    title: '机器状态',
+    footer: '自守护进程启动以来的统计。只上报数字，从不包含会话内容。',
+    uptime: '守护进程运行时间',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} 小时 ${minutes} 分钟`,
+    activeSessions: '活跃会话',
+    sessionsStarted: '已启动的会话',
+    sessionStartFailures: '会话启动失败',
+    rpcCalls: '远程调用',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count}（失败 ${errors}）`,
+    rpcLatency: '远程调用延迟',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: '重新连接',
+    lastReport: '最近上报',
+  },
+  devices: {
+    title: '设备',
+    subtitle: '登录此账户的应用和终端',
+    signedIn: '已登录',
+    signedInFooter: '每个应用安装和终端都使用自己的密钥登录。点按即可撤销，它会立即退出登录。',
+    thisDevice: '此设备',
+    app: '应用',
+    terminal: '终端',
+    unnamed: '未命名设备',
+    loadFailed: '无法加载设备，点按重试',
+    revoke: '撤销',
+    revokeTitle: '撤销设备',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} 将退出登录，并且无法再访问此账户。`,
+    revokeFailed: '撤销设备失败',
+    security: '安全',
+    securityFooter: '如果你的密钥可能已泄露，请更换账户密钥。',
+    rotateKey: '更换账户密钥',
+    rotateKeySubtitle: '替换密钥并让其他所有设备退出登录',
+    rotateKeyAction: '更换',
+    rotateKeyConfirm: '将生成新的密钥，并用它重新加密所有会话、机器和工件的密钥。其他所有设备都会退出登录，需要使用新密钥重新登录。应用会使用新密钥重新启动，之后请在 账户 > 备份 中保存新密钥。',
+  },
+  budget: {
+    title: '预算',
+    none: '无',
+    sessionBudget: '会话预算',
+    sessionSubtitle: '从下一条消息开始生效',
+    accountFooter: '适用于没有自身预算或配置文件预算的所有会话。达到上限时代理会暂停，并在继续花费前询问。仅限 Claude 会话。',
+    profileFooter: '使用此配置文件启动的会话会在此上限暂停，除非它们设置了自己的预算。留空则使用账户默认值。',
+    prompt: '美元如 $5，或令牌如 200k tokens。留空则移除预算。',
+    placeholder: '$5 或 200k tokens',
+    invalid: '请输入金额，如 $5 或 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `剩余 ${amount}`,
+    paused: '预算已用完',
+    spent: ({ amount }: { amount: string }) =>
+      `已花费 ${amount}`,
+    exceeded: '超出预算',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `已花费 ${spent}，上限 ${limit}。是否再追加一份预算继续？`,
+    continue: '继续',
+    stop: '停止',
+  },
 } as const;
@@ -1010,6 +1010,20 @@ export const zhHant: TranslationStructure = {
     usageOverTime: '使用趨勢',
     byModel: '按模型',
     noData: '暫無使用資料',
+    model: '模型',
+    agent: '代理',
+    machine: '機器',
+    project: '專案',
+    byAgent: '依代理',
+    byMachine: '依機器',
+    byProject: '依專案',
+    cacheHitRatio: '快取命中率',
+    vsPrevious: ({ change }: { change: string }) => `較上一期間 ${change}`,
+    unknown: '未知',
+    export: '匯出',
+    exportCsv: '匯出為 CSV',
+    exportJson: '匯出為 JSON',
+    exportFooter: '依日、模型、代理、機器和專案拆分所選期間的用量，便於試算表和費用分攤。',
   },
 
   feed: {
@@ -1111,4 +1125,288 @@ export const zhHant: TranslationStructure = {
     deleteWorktreeConfirm: '確定要刪除此工作樹嗎？所有工作階段將被封存。',
     archiveSessionConfirm: '確定要封存此工作階段嗎？',
   },
+  schedules: {
+    title: '排程提示',
+    machineEntrySubtitle: '在此裝置上依排程執行提示',
+    empty: '尚無排程提示',
+    newSchedule: '新增排程',
+    editSchedule: '編輯排程',
+    name: '名稱',
+    namePlaceholder: '早晨審查',
+    directory: '目錄',
+    prompt: '提示',
+    promptPlaceholder: '希望代理做什麼？',
+    agent: '代理',
+    enabled: '啟用',
+    repeat: '重複',
+    once: '一次',
+    weekly: '每週',
+    interval: '間隔',
+    time: '時間 (HH:MM)',
+    date: '日期 (YYYY-MM-DD)',
+    intervalMinutes: '每隔（分鐘）',
+    days: '星期',
+    dayShort: ({ day }: { day: number }) =>
+      ['週日', '週一', '週二', '週三', '週四', '週五', '週六'][day] ?? '',
+    everyDay: '每天',
+    weekdays: '平日',
+    summaryWeekly: ({ days, time }: { days: string; time: string }) =>
+      `${days} ${time}`,
+    summaryInterval: ({ minutes }: { minutes: number }) =>
+      `每 ${minutes} 分鐘`,
+    summaryOnce: ({ date }: { date: string }) =>
+      `${date} 執行一次`,
+    nextRun: ({ date }: { date: string }) =>
+      `下次執行：${date}`,
+    notScheduled: '未排程',
+    runNow: '立即執行',
+    history: '執行紀錄',
+    noRuns: '尚無執行紀錄',
+    statusRunning: '執行中',
+    statusCompleted: '已完成',
+    statusSkipped: '已略過',
+    statusFailed: '失敗',
+    deleteConfirmTitle: '刪除此排程？',
+    deleteConfirmDescription: '此排程及其執行紀錄將從裝置中移除。',
+    runStarted: '已開始執行',
+    runSkipped: '已略過：上一次執行仍在進行',
+    missingFields: '名稱、目錄和提示為必填',
+    invalidTime: '請以 HH:MM 格式輸入時間',
+    invalidDate: '請以 YYYY-MM-DD 格式輸入日期',
+    invalidInterval: '間隔至少為 5 分鐘',
+    selectDays: '請至少選擇一天',
+    loadFailed: '無法載入排程。請確認常駐程式執行的是最新版本的 CLI。',
+  },
+  sessionSharing: {
+    title: '分享工作階段',
+    shareSubtitle: '讓好友以唯讀方式查看此工作階段',
+    sharedBy: '分享者',
+    readOnlyBanner: ({ name }: { name: string }) =>
+      `唯讀：${name} 與你分享了此工作階段`,
+    sharedWith: '已分享給',
+    notShared: '尚未與任何人分享',
+    friends: '好友',
+    noFriends: '新增好友後即可與其分享工作階段',
+    share: '分享',
+    revoke: '撤銷',
+    revokeTitle: '撤銷存取權？',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} 將無法再查看此工作階段。`,
+    revokeFailed: '撤銷存取權失敗',
+    shareFailed: '分享工作階段失敗',
+    notFriends: '工作階段只能與好友分享',
+    friendNotReady: ({ name }: { name: string }) =>
+      `${name} 需要先開啟最新版本的 App 才能分享`,
+    notShareable: '此工作階段無法分享',
+    notShareableDescription: '使用舊版 CLI 啟動的工作階段以你的帳號金鑰加密，無法分享。',
+    readOnlyFooter: '好友可即時查看訊息與狀態，但無法傳送訊息或回應權限請求。',
+  },
+  sessionTerminal: {
+    title: '終端機',
+    openSubtitle: '在工作階段資料夾中開啟 shell',
+    starting: '正在啟動終端機...',
+    exited: '程序已結束',
+    exitedWithCode: ({ code }: { code: number }) =>
+      `程序已結束，代碼 ${code}`,
+    restart: '重新啟動',
+    closeTitle: '關閉終端機？',
+    closeConfirm: '此終端機中執行的所有內容都將被停止。',
+    openFailed: '無法開啟終端機',
+    noTmux: '此機器未安裝 tmux，無法調整大小或重新連線。',
+  },
+  sessionArchive: {
+    groupTitle: '工作階段',
+    groupFooter: '封存檔包含已解密的對話，請妥善保管。',
+    exportTitle: '匯出工作階段',
+    exportSubtitle: '將對話儲存為封存檔',
+    exportFailed: '無法匯出工作階段',
+    importTitle: '匯入工作階段',
+    importSubtitle: '從封存檔重建工作階段',
+    importFailed: '無法匯入工作階段',
+    invalidFile: '此檔案不是工作階段封存檔',
+    importedAt: '匯入時間',
+    readOnlyBanner: '唯讀：從封存檔匯入',
+  },
+  search: {
+    title: '搜尋訊息',
+    placeholder: '搜尋所有工作階段',
+    commandSubtitle: '在工作階段中尋找文字、工具和檔案',
+    results: '訊息',
+    noResults: '沒有符合項目',
+    noResultsHint: '只能搜尋此裝置已解密的訊息，在下方為所有工作階段建立索引以包含較早的歷史。',
+    unknownSession: '未知工作階段',
+    indexStats: ({ messages, sessions }: { messages: number; sessions: number }) =>
+      `此裝置已索引 ${sessions} 個工作階段中的 ${messages} 則訊息`,
+    buildIndex: '為所有工作階段建立索引',
+    buildIndexFooter: '下載並解密每個工作階段的歷史以建立本機搜尋索引，資料不會離開此裝置。',
+    buildIndexProgress: ({ done, total }: { done: number; total: number }) =>
+      `${done} / ${total} 個工作階段`,
+  },
+  codeReview: {
+    hint: '點按一行進行評論，點按另一行可擴展選取範圍，點按程式碼區塊標題可選取整個區塊。',
+    addComment: '新增評論',
+    commentPlaceholder: '給代理留下評論',
+    pendingComments: ({ count }: { count: number }) =>
+      `待提交評論：${count}`,
+    submit: '提交審查',
+    discard: '捨棄',
+    discardConfirm: '捨棄所有待提交的評論？',
+    draft: '待提交',
+    open: '已傳送',
+    resolved: '已解決',
+    messageDisplay: ({ count }: { count: number }) =>
+      `程式碼審查：${count} 則評論`,
+  },
+  permissionRules: {
+    title: '權限規則',
+    subtitle: '在工具執行前允許、拒絕或詢問',
+    rules: '帳號規則',
+    rulesFooter: '適用於所有工作階段。專案中 .unhappy/permissions.json 的拒絕和詢問規則會一併生效，拒絕優先於詢問，詢問優先於允許。Codex 會直接執行它認為唯讀的命令（如 ls 或 cat），這些命令不受規則約束。',
+    empty: '沒有帳號規則',
+    editor: '以 JSON 編輯',
+    editorFooter: '格式與 .unhappy/permissions.json 相同。每條規則包含 action（allow、deny 或 ask）以及選用的 tool、command 和 path 萬用字元。',
+    invalid: ({ error }: { error: string }) =>
+      `規則無效：${error}`,
+    allowedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `由${source}規則允許：${rule}`,
+    deniedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `由${source}規則拒絕：${rule}`,
+    askedBy: ({ source, rule }: { source: string; rule: string }) =>
+      `由${source}規則詢問：${rule}`,
+    sourceProject: '專案',
+    sourceAccount: '帳號',
+    sourceSession: '工作階段',
+  },
+  sessionAudit: {
+    title: '稽核日誌',
+    subtitle: '權限決定與工具執行',
+    footer: '由 CLI 記錄，並以工作階段金鑰進行端對端加密。條目無法編輯或刪除。',
+    empty: '尚無記錄',
+    loadFailed: '無法載入稽核日誌',
+    approved: '已核准',
+    approvedForSession: '本工作階段內核准',
+    denied: '已拒絕',
+    aborted: '已中止',
+    succeeded: '成功',
+    failed: '失敗',
+    byYou: '由你決定',
+    byYouOn: ({ device }: { device: string }) =>
+      `由你在 ${device} 上決定`,
+    byRule: ({ source, rule }: { source: string; rule: string }) =>
+      `${source} 規則：${rule}`,
+    byMode: ({ mode }: { mode: string }) =>
+      `在 ${mode} 模式下自動`,
+    exitCode: ({ code }: { code: number }) =>
+      `結束代碼 ${code}`,
+    files: ({ files }: { files: string }) =>
+      `檔案：${files}`,
+  },
+  race: {
+    sessionType: '競賽',
+    title: '競賽',
+    contestantsHint: '至少選擇兩個代理或模型。每個都會在自己的工作樹中收到相同的提示。',
+    defaultModel: '預設',
+    needContestants: '競賽至少需要兩個參賽者',
+    needPrompt: '競賽需要提示',
+    notFound: '找不到競賽',
+    baseBranch: ({ branch }: { branch: string }) =>
+      `基於 ${branch}`,
+    starting: '正在啟動…',
+    working: '工作中',
+    done: '已完成',
+    failedToStart: ({ error }: { error: string }) =>
+      `啟動失敗：${error}`,
+    changes: '變更',
+    noChanges: '尚無變更',
+    diff: ({ files, added, removed }: { files: number; added: number; removed: number }) =>
+      `${files} 個檔案，+${added} −${removed}`,
+    moreFiles: ({ count }: { count: number }) =>
+      `另外 ${count} 個`,
+    untracked: '新檔案',
+    usage: '用量',
+    tokens: ({ tokens }: { tokens: string }) =>
+      `${tokens} 個權杖`,
+    noUsage: '尚無用量',
+    tests: '測試',
+    runTests: '執行測試',
+    testCommand: '在每個工作樹中執行的命令',
+    testsPassed: '通過',
+    testsFailed: ({ code }: { code: number }) =>
+      `失敗（結束代碼 ${code}）`,
+    notTested: '尚未執行',
+    openSession: '開啟工作階段',
+    viewChanges: '查看變更',
+    pickWinner: '選為獲勝者',
+    pickWinnerConfirm: ({ name, branch }: { name: string; branch: string }) =>
+      `將 ${name} 合併到 ${branch}？其他工作樹及其工作階段將被刪除。`,
+    merge: '合併',
+    finished: ({ name, branch }: { name: string; branch: string }) =>
+      `${name} 已合併到 ${branch}`,
+    finishFailed: ({ error }: { error: string }) =>
+      `無法結束競賽：${error}`,
+    openRace: '競賽',
+    openRaceSubtitle: ({ count }: { count: number }) =>
+      `與其他 ${count} 個參賽者比較`,
+  },
+  machineHealth: {
+    title: '機器狀態',
+    footer: '自守護程序啟動以來的統計。只回報數字，從不包含工作階段內容。',
+    uptime: '守護程序運行時間',
+    uptimeValue: ({ hours, minutes }: { hours: number; minutes: number }) =>
+      `${hours} 小時 ${minutes} 分鐘`,
+    activeSessions: '活躍工作階段',
+    sessionsStarted: '已啟動的工作階段',
+    sessionStartFailures: '工作階段啟動失敗',
+    rpcCalls: '遠端呼叫',
+    rpcCallsValue: ({ count, errors }: { count: number; errors: number }) =>
+      `${count}（失敗 ${errors}）`,
+    rpcLatency: '遠端呼叫延遲',
+    rpcLatencyValue: ({ p50, p95 }: { p50: number; p95: number }) =>
+      `p50 ${p50} ms · p95 ${p95} ms`,
+    reconnects: '重新連線',
+    lastReport: '最近回報',
+  },
+  devices: {
+    title: '裝置',
+    subtitle: '登入此帳號的應用程式和終端機',
+    signedIn: '已登入',
+    signedInFooter: '每個應用程式安裝和終端機都使用自己的金鑰登入。點按即可撤銷，它會立即登出。',
+    thisDevice: '此裝置',
+    app: '應用程式',
+    terminal: '終端機',
+    unnamed: '未命名裝置',
+    loadFailed: '無法載入裝置，點按重試',
+    revoke: '撤銷',
+    revokeTitle: '撤銷裝置',
+    revokeConfirm: ({ name }: { name: string }) =>
+      `${name} 將會登出，且無法再存取此帳號。`,
+    revokeFailed: '撤銷裝置失敗',
+    security: '安全性',
+    securityFooter: '如果你的金鑰可能已外洩，請更換帳號金鑰。',
+    rotateKey: '更換帳號金鑰',
+    rotateKeySubtitle: '替換金鑰並讓其他所有裝置登出',
+    rotateKeyAction: '更換',
+    rotateKeyConfirm: '將產生新的金鑰，並用它重新加密所有工作階段、機器和成品的金鑰。其他所有裝置都會登出，需要使用新金鑰重新登入。應用程式會使用新金鑰重新啟動，之後請在 帳號 > 備份 中保存新金鑰。',
+  },
+  budget: {
+    title: '預算',
+    none: '無',
+    sessionBudget: '工作階段預算',
+    sessionSubtitle: '從下一則訊息開始生效',
+    accountFooter: '適用於沒有自身預算或設定檔預算的所有工作階段。達到上限時代理會暫停，並在繼續花費前詢問。僅限 Claude 工作階段。',
+    profileFooter: '使用此設定檔啟動的工作階段會在此上限暫停，除非它們設定了自己的預算。留空則使用帳戶預設值。',
+    prompt: '美元如 $5，或權杖如 200k tokens。留空則移除預算。',
+    placeholder: '$5 或 200k tokens',
+    invalid: '請輸入金額，如 $5 或 200k tokens',
+    left: ({ amount }: { amount: string }) =>
+      `剩餘 ${amount}`,
+    paused: '預算已用完',
+    spent: ({ amount }: { amount: string }) =>
+      `已花費 ${amount}`,
+    exceeded: '超出預算',
+    exceededDescription: ({ spent, limit }: { spent: string; limit: string }) =>
+      `已花費 ${spent}，上限 ${limit}。是否再追加一份預算繼續？`,
+    continue: '繼續',
+    stop: '停止',
+  },
 } as const;
@@ -16,4 +16,18 @@ export function isRunningOnMac(): boolean {
     // @ts-ignore - isPad is not in the type definitions but exists at runtime
     return Platform.isPad && Platform.Version && typeof Platform.Version === 'string' && 
            Platform.Version.includes('Mac');
-}
\ No newline at end of file
+}
+
+/**
+ * Source identifier sent with messages and permission decisions
+ */
+export function getSentFrom(): string {
+    if (Platform.OS === 'android') {
+        return 'android';
+    }
+    if (Platform.OS === 'ios') {
+        // Check if running on Mac (Catalyst or Designed for iPad on Mac)
+        return isRunningOnMac() ? 'mac' : 'ios';
+    }
+    return 'web';
+}
@@ -0,0 +1,29 @@
+import { Modal } from '@/modal';
+import { Budget, formatBudget, parseBudget } from '@/sync/budget';
+import { t } from '@/text';
+
+/**
+ * Ask for a budget, asking again until the text parses
+ * @returns the new budget, null to remove it, undefined when canceled
+ */
+export async function promptBudget(title: string, current: Budget | null | undefined): Promise<Budget | null | undefined> {
+    let defaultValue = current ? formatBudget(current) : '';
+    while (true) {
+        // The in-app prompt keeps empty text, the native iOS one reports it as canceled
+        const text = await Modal.prompt(title, t('budget.prompt'), {
+            placeholder: t('budget.placeholder'),
+            defaultValue,
+            confirmText: t('common.save'),
+            inputType: 'default',
+        });
+        if (text === null) {
+            return undefined;
+        }
+        const parsed = parseBudget(text);
+        if ('budget' in parsed) {
+            return parsed.budget;
+        }
+        Modal.alert(t('common.error'), t('budget.invalid'));
+        defaultValue = text;
+    }
+}
@@ -0,0 +1,205 @@
+/**
+ * Start, test and finish races (one prompt, several agents, one worktree each)
+ */
+
+import { randomUUID } from 'expo-crypto';
+import { machineBash, machineSpawnNewSession } from '@/sync/ops';
+import { storage } from '@/sync/storage';
+import { sync } from '@/sync/sync';
+import { Race, RaceAgent, raceBranchName, races, tailOutput } from '@/sync/races';
+import type { PermissionMode } from '@/components/PermissionModeSelector';
+import { createWorktree } from './createWorktree';
+import { generateWorktreeName } from './generateWorktreeName';
+import {
+    commitWorktreeChanges,
+    deleteWorktree,
+    FinishResult,
+    getWorktreeStatus,
+    mergeWorktreeBranch,
+    resolveMainBranch,
+    resolveWorktreeBranchName,
+} from './finishWorktree';
+
+export interface StartRaceOptions {
+    machineId: string;
+    basePath: string;
+    prompt: string;
+    contestants: { agent: RaceAgent; model: string | null }[];
+    permissionMode: PermissionMode;
+    environmentFor: (agent: RaceAgent) => Record<string, string>;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitForSession(sessionId: string): Promise<boolean> {
+    for (let attempt = 0; attempt < 10; attempt++) {
+        if (storage.getState().sessions[sessionId]) {
+            return true;
+        }
+        await sync.refreshSessions();
+        if (storage.getState().sessions[sessionId]) {
+            return true;
+        }
+        await wait(1000);
+    }
+    return false;
+}
+
+/**
+ * Create a worktree and a session for every contestant and send them the
+ * prompt. Contestants that fail to start keep their error, the race goes on
+ * with the others.
+ */
+export async function startRace(options: StartRaceOptions): Promise<Race> {
+    const { machineId, basePath } = options;
+    const baseBranch = await resolveWorktreeBranchName(machineId, basePath) ?? await resolveMainBranch(machineId, basePath);
+    const raceName = `race-${generateWorktreeName()}`;
+
+    const race: Race = {
+        id: randomUUID(),
+        createdAt: Date.now(),
+        machineId,
+        basePath,
+        baseBranch,
+        prompt: options.prompt,
+        contestants: options.contestants.map((contestant) => ({
+            agent: contestant.agent,
+            model: contestant.model,
+            worktreePath: null,
+            branchName: null,
+            sessionId: null,
+            error: null,
+            test: null,
+        })),
+        testCommand: null,
+        winnerSessionId: null,
+        finishedAt: null,
+    };
+    races.save(race);
+
+    // Worktrees one at a time, git locks the repository while adding one
+    for (let index = 0; index < race.contestants.length; index++) {
+        const contestant = race.contestants[index];
+        const worktree = await createWorktree(machineId, basePath, { name: raceBranchName(raceName, contestant) });
+        if (!worktree.success) {
+            races.updateContestant(race.id, index, (c) => ({ ...c, error: worktree.error || 'Failed to create worktree' }));
+            continue;
+        }
+        races.updateContestant(race.id, index, (c) => ({ ...c, worktreePath: worktree.worktreePath, branchName: worktree.branchName }));
+
+        try {
+            const result = await machineSpawnNewSession({
+                machineId,
+                directory: worktree.worktreePath,
+                approvedNewDirectoryCreation: true,
+                agent: contestant.agent,
+                environmentVariables: options.environmentFor(contestant.agent),
+            });
+            if (result.type !== 'success') {
+                const error = result.type === 'error' ? result.errorMessage : 'Failed to start session';
+                races.updateContestant(race.id, index, (c) => ({ ...c, error }));
+                continue;
+            }
+            races.updateContestant(race.id, index, (c) => ({ ...c, sessionId: result.sessionId }));
+        } catch (error) {
+            races.updateContestant(race.id, index, (c) => ({ ...c, error: error instanceof Error ? error.message : 'Failed to start session' }));
+        }
+    }
+
+    // Send the prompt once each session is loaded, so the mode and model overrides apply
+    const started = races.get(race.id)!;
+    await Promise.all(started.contestants.map(async (contestant, index) => {
+        if (!contestant.sessionId) {
+            return;
+        }
+        if (!(await waitForSession(contestant.sessionId))) {
+            races.updateContestant(race.id, index, (c) => ({ ...c, error: 'Session did not come online' }));
+            return;
+        }
+        storage.getState().updateSessionPermissionMode(contestant.sessionId, options.permissionMode);
+        if (contestant.model) {
+            storage.getState().updateSessionModelMode(contestant.sessionId, contestant.model);
+        }
+        await sync.sendMessage(contestant.sessionId, options.prompt).catch((error) => {
+            console.error('Failed to send race prompt', error);
+        });
+    }));
+
+    return races.get(race.id)!;
+}
+
+/**
+ * Run the same command in every contestant's worktree
+ */
+export async function runRaceTests(raceId: string, command: string): Promise<void> {
+    const race = races.get(raceId);
+    if (!race) {
+        return;
+    }
+    races.update(raceId, (r) => ({ ...r, testCommand: command }));
+    await Promise.all(race.contestants.map(async (contestant, index) => {
+        if (!contestant.worktreePath) {
+            return;
+        }
+        const result = await machineBash(race.machineId, command, contestant.worktreePath);
+        races.updateContestant(raceId, index, (c) => ({
+            ...c,
+            test: {
+                command,
+                exitCode: result.exitCode,
+                output: tailOutput([result.stdout, result.stderr].filter(Boolean).join('\n')),
+                ranAt: Date.now(),
+            },
+        }));
+    }));
+}
+
+/**
+ * Commit and merge the winner into the race's base branch, then remove the
+ * other contestants' sessions and worktrees. The winner's worktree stays so
+ * its session can be continued or finished as usual.
+ */
+export async function finishRace(raceId: string, winnerIndex: number): Promise<FinishResult> {
+    const race = races.get(raceId);
+    const winner = race?.contestants[winnerIndex];
+    if (!race || !winner?.worktreePath || !winner.branchName) {
+        return { success: false, error: 'This contestant has no worktree' };
+    }
+
+    const status = await getWorktreeStatus(race.machineId, winner.worktreePath);
+    if (!status.success) {
+        return { success: false, error: status.error };
+    }
+    if (status.dirty) {
+        const title = race.prompt.split('\n')[0].trim().slice(0, 72) || 'Race winner';
+        const commit = await commitWorktreeChanges(race.machineId, winner.worktreePath, `${title}\n\nRace winner: ${winner.agent}${winner.model ? ` (${winner.model})` : ''}`);
+        if (!commit.success) {
+            return commit;
+        }
+    }
+
+    const merge = await mergeWorktreeBranch(race.machineId, race.basePath, winner.worktreePath, winner.branchName, race.baseBranch);
+    if (!merge.success) {
+        return merge;
+    }
+
+    const failures: string[] = [];
+    for (const contestant of race.contestants) {
+        if (contestant === winner || !contestant.worktreePath || !contestant.branchName) {
+            continue;
+        }
+        const removed = await deleteWorktree(
+            race.machineId,
+            race.basePath,
+            contestant.worktreePath,
+            contestant.branchName,
+            contestant.sessionId ? [contestant.sessionId] : []
+        );
+        if (!removed.success && removed.error) {
+            failures.push(removed.error);
+        }
+    }
+
+    races.update(raceId, (r) => ({ ...r, winnerSessionId: winner.sessionId, finishedAt: Date.now() }));
+    return failures.length > 0 ? { success: false, error: failures.join('\n\n') } : { success: true };
+}
@@ -0,0 +1,26 @@
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Hand a file to the user: a download on web, the share sheet on native
+ */
+export async function saveTextFile(fileName: string, content: string, mimeType: string): Promise<void> {
+    if (Platform.OS === 'web') {
+        const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+        return;
+    }
+
+    const file = new File(Paths.cache, fileName);
+    if (file.exists) {
+        file.delete();
+    }
+    file.create();
+    file.write(content);
+    await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+}
@@ -0,0 +1,38 @@
+import type { MachineScheduleRecurrence, MachineScheduleRun } from '@/sync/ops';
+import { t } from '@/text';
+import { EVERY_DAY, formatTimeOfDay, isSameDaySet, WEEKDAYS } from './scheduleUtils';
+
+export function describeRecurrence(recurrence: MachineScheduleRecurrence): string {
+    switch (recurrence.type) {
+        case 'once':
+            return t('schedules.summaryOnce', { date: new Date(recurrence.at).toLocaleString() });
+        case 'interval':
+            return t('schedules.summaryInterval', { minutes: recurrence.minutes });
+        case 'weekly': {
+            const days = isSameDaySet(recurrence.days, EVERY_DAY)
+                ? t('schedules.everyDay')
+                : isSameDaySet(recurrence.days, WEEKDAYS)
+                    ? t('schedules.weekdays')
+                    : [...recurrence.days].sort().map(day => t('schedules.dayShort', { day })).join(', ');
+            return t('schedules.summaryWeekly', { days, time: formatTimeOfDay(recurrence.hour, recurrence.minute) });
+        }
+    }
+}
+
+export function describeRunStatus(status: MachineScheduleRun['status']): string {
+    switch (status) {
+        case 'running': return t('schedules.statusRunning');
+        case 'completed': return t('schedules.statusCompleted');
+        case 'skipped': return t('schedules.statusSkipped');
+        case 'failed': return t('schedules.statusFailed');
+    }
+}
+
+export function runStatusColor(status: MachineScheduleRun['status']): string {
+    switch (status) {
+        case 'running': return '#007AFF';
+        case 'completed': return '#34C759';
+        case 'skipped': return '#FF9500';
+        case 'failed': return '#FF3B30';
+    }
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { formatLocalDate, formatTimeOfDay, isSameDaySet, parseLocalDateTime, parseTimeOfDay } from './scheduleUtils';
+
+describe('scheduleUtils', () => {
+    it('parses and formats times of day', () => {
+        expect(parseTimeOfDay('9:00')).toEqual({ hour: 9, minute: 0 });
+        expect(parseTimeOfDay(' 23:59 ')).toEqual({ hour: 23, minute: 59 });
+        expect(parseTimeOfDay('24:00')).toBeNull();
+        expect(parseTimeOfDay('9am')).toBeNull();
+        expect(formatTimeOfDay(9, 5)).toBe('09:05');
+    });
+
+    it('combines local dates and times', () => {
+        const timestamp = parseLocalDateTime('2026-10-19', '09:30');
+        expect(timestamp).toBe(new Date(2026, 9, 19, 9, 30).getTime());
+        expect(formatLocalDate(timestamp!)).toBe('2026-10-19');
+    });
+
+    it('rejects invalid dates', () => {
+        expect(parseLocalDateTime('2026-02-31', '09:00')).toBeNull();
+        expect(parseLocalDateTime('19.10.2026', '09:00')).toBeNull();
+        expect(parseLocalDateTime('2026-10-19', 'noon')).toBeNull();
+    });
+
+    it('compares day selections regardless of order', () => {
+        expect(isSameDaySet([5, 1, 2, 3, 4], [1, 2, 3, 4, 5])).toBe(true);
+        expect(isSameDaySet([1, 2], [1, 2, 3])).toBe(false);
+    });
+});
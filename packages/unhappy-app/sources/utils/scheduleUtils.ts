@@ -0,0 +1,49 @@
+/**
+ * Helpers for editing daemon schedules. Times are wall-clock values,
+ * the daemon evaluates them in the machine's local timezone.
+ */
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function formatTimeOfDay(hour: number, minute: number): string {
+    return `${pad(hour)}:${pad(minute)}`;
+}
+
+export function parseTimeOfDay(value: string): { hour: number; minute: number } | null {
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hour = Number(match[1]);
+    const minute = Number(match[2]);
+    if (hour > 23 || minute > 59) return null;
+    return { hour, minute };
+}
+
+export function formatLocalDate(timestamp: number): string {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Combine a YYYY-MM-DD date and HH:MM time into a local timestamp
+ */
+export function parseLocalDateTime(date: string, time: string): number | null {
+    const match = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const timeOfDay = parseTimeOfDay(time);
+    if (!match || !timeOfDay) return null;
+    const year = Number(match[1]);
+    const month = Number(match[2]) - 1;
+    const day = Number(match[3]);
+    const result = new Date(year, month, day, timeOfDay.hour, timeOfDay.minute);
+    // Reject overflowing values such as 2026-02-31
+    if (result.getFullYear() !== year || result.getMonth() !== month || result.getDate() !== day) {
+        return null;
+    }
+    return result.getTime();
+}
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+export function isSameDaySet(a: number[], b: number[]): boolean {
+    return a.length === b.length && a.every(day => b.includes(day));
+}
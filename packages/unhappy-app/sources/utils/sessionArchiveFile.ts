@@ -0,0 +1,34 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { parseSessionArchive, SessionArchive, sessionArchiveFileName } from '@/sync/sessionArchive';
+import { HappyError } from '@/utils/errors';
+import { t } from '@/text';
+import { saveTextFile } from './saveTextFile';
+
+/**
+ * Hand an archive to the user: a download on web, the share sheet on native
+ */
+export async function saveSessionArchive(archive: SessionArchive): Promise<void> {
+    await saveTextFile(sessionArchiveFileName(archive), JSON.stringify(archive, null, 2), 'application/json');
+}
+
+/**
+ * Let the user pick an archive file, null when the picker was dismissed
+ */
+export async function pickSessionArchive(): Promise<SessionArchive | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', '*/*'],
+        copyToCacheDirectory: true
+    });
+    if (result.canceled || result.assets.length === 0) {
+        return null;
+    }
+
+    const asset = result.assets[0];
+    const text = asset.file ? await asset.file.text() : await new File(asset.uri).text();
+    const archive = parseSessionArchive(text);
+    if (!archive) {
+        throw new HappyError(t('sessionArchive.invalidFile'), false);
+    }
+    return archive;
+}
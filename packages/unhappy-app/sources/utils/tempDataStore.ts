@@ -10,7 +10,7 @@ export interface NewSessionData {
     machineId?: string;
     path?: string;
     agentType?: 'claude' | 'codex' | 'gemini';
-    sessionType?: 'simple' | 'worktree';
+    sessionType?: 'simple' | 'worktree' | 'race';
     taskId?: string;
     taskTitle?: string;
 }
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { applySgr, parseAnsiLine, TerminalEmulator } from './terminalEmulator';
+
+function text(emulator: TerminalEmulator): string[] {
+    return emulator.getScreen().lines.map((line) => line.map((span) => span.text).join(''));
+}
+
+describe('applySgr', () => {
+    it('handles basic, bright, 256 and truecolor', () => {
+        expect(applySgr({}, [1, 31])).toEqual({ bold: true, fg: 1 });
+        expect(applySgr({}, [92, 104])).toEqual({ fg: 10, bg: 12 });
+        expect(applySgr({}, [38, 5, 208])).toEqual({ fg: 208 });
+        expect(applySgr({}, [48, 2, 255, 128, 0])).toEqual({ bg: '#ff8000' });
+        expect(applySgr({ bold: true, fg: 1 }, [])).toEqual({});
+        expect(applySgr({ fg: 1, bg: 2 }, [39])).toEqual({ bg: 2 });
+    });
+});
+
+describe('parseAnsiLine', () => {
+    it('splits a line into styled spans', () => {
+        expect(parseAnsiLine('a \x1b[34msrc\x1b[39m b')).toEqual([
+            { text: 'a ', style: {} },
+            { text: 'src', style: { fg: 4 } },
+            { text: ' b', style: {} },
+        ]);
+    });
+
+    it('drops non-SGR sequences', () => {
+        expect(parseAnsiLine('\x1b]8;;http://x\x07link\x1b[2K')).toEqual([
+            { text: 'link', style: {} },
+        ]);
+    });
+});
+
+describe('TerminalEmulator', () => {
+    it('prints, wraps and scrolls', () => {
+        const emulator = new TerminalEmulator(4, 2);
+        emulator.write('abcdef\r\ngh');
+        expect(text(emulator)).toEqual(['ef', 'gh']);
+        expect(emulator.getScreen().cursor).toEqual({ x: 2, y: 1 });
+    });
+
+    it('handles cursor movement and erasing', () => {
+        const emulator = new TerminalEmulator(10, 3);
+        emulator.write('hello\x1b[2D\x1b[K!\x1b[3;1Hend');
+        expect(text(emulator)).toEqual(['hel!', '', 'end']);
+        emulator.write('\x1b[2J\x1b[H');
+        expect(text(emulator)).toEqual(['', '', '']);
+        expect(emulator.getScreen().cursor).toEqual({ x: 0, y: 0 });
+    });
+
+    it('buffers escape sequences split across writes', () => {
+        const emulator = new TerminalEmulator(10, 1);
+        emulator.write('a\x1b[3');
+        emulator.write('1mb');
+        expect(emulator.getScreen().lines[0]).toEqual([
+            { text: 'a', style: {} },
+            { text: 'b', style: { fg: 1 } },
+        ]);
+    });
+});
@@ -0,0 +1,472 @@
+/**
+ * Minimal terminal model for the session terminal screen.
+ *
+ * tmux-backed terminals send pre-rendered screen snapshots where only SGR
+ * (color/style) escapes remain, those go through parseAnsiLine. The raw PTY
+ * fallback streams unprocessed output, TerminalEmulator interprets the common
+ * subset of xterm control sequences needed by shells and line-based tools.
+ */
+
+/** Palette index (0-255) or a #rrggbb truecolor value */
+export type TerminalColor = number | string;
+
+export interface TerminalStyle {
+    fg?: TerminalColor;
+    bg?: TerminalColor;
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    inverse?: boolean;
+}
+
+export interface TerminalSpan {
+    text: string;
+    style: TerminalStyle;
+}
+
+export interface TerminalScreen {
+    lines: TerminalSpan[][];
+    cursor: { x: number; y: number };
+    cursorVisible: boolean;
+    cols: number;
+    rows: number;
+}
+
+const CSI_PATTERN = /\x1b\[([0-9;:?]*)([@-~])/g;
+const OSC_PATTERN = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+function hex(value: number): string {
+    return Math.max(0, Math.min(255, value)).toString(16).padStart(2, '0');
+}
+
+/**
+ * Apply SGR parameters to a style, returning a new style
+ */
+export function applySgr(style: TerminalStyle, params: number[]): TerminalStyle {
+    let next: TerminalStyle = { ...style };
+    if (params.length === 0) {
+        params = [0];
+    }
+    for (let i = 0; i < params.length; i++) {
+        const p = params[i];
+        if (p === 0) {
+            next = {};
+        } else if (p === 1) {
+            next.bold = true;
+        } else if (p === 2) {
+            next.dim = true;
+        } else if (p === 3) {
+            next.italic = true;
+        } else if (p === 4) {
+            next.underline = true;
+        } else if (p === 7) {
+            next.inverse = true;
+        } else if (p === 22) {
+            next.bold = false;
+            next.dim = false;
+        } else if (p === 23) {
+            next.italic = false;
+        } else if (p === 24) {
+            next.underline = false;
+        } else if (p === 27) {
+            next.inverse = false;
+        } else if (p >= 30 && p <= 37) {
+            next.fg = p - 30;
+        } else if (p === 39) {
+            delete next.fg;
+        } else if (p >= 40 && p <= 47) {
+            next.bg = p - 40;
+        } else if (p === 49) {
+            delete next.bg;
+        } else if (p >= 90 && p <= 97) {
+            next.fg = p - 90 + 8;
+        } else if (p >= 100 && p <= 107) {
+            next.bg = p - 100 + 8;
+        } else if (p === 38 || p === 48) {
+            let color: TerminalColor | undefined;
+            if (params[i + 1] === 5 && params[i + 2] !== undefined) {
+                color = params[i + 2];
+                i += 2;
+            } else if (params[i + 1] === 2 && params[i + 4] !== undefined) {
+                color = `#${hex(params[i + 2])}${hex(params[i + 3])}${hex(params[i + 4])}`;
+                i += 4;
+            }
+            if (color !== undefined) {
+                if (p === 38) {
+                    next.fg = color;
+                } else {
+                    next.bg = color;
+                }
+            }
+        }
+    }
+    return next;
+}
+
+function parseParams(raw: string): number[] {
+    if (raw === '') {
+        return [];
+    }
+    return raw.split(/[;:]/).map((part) => parseInt(part, 10) || 0);
+}
+
+function sameStyle(a: TerminalStyle, b: TerminalStyle): boolean {
+    return a.fg === b.fg
+        && a.bg === b.bg
+        && !!a.bold === !!b.bold
+        && !!a.dim === !!b.dim
+        && !!a.italic === !!b.italic
+        && !!a.underline === !!b.underline
+        && !!a.inverse === !!b.inverse;
+}
+
+function pushSpan(spans: TerminalSpan[], text: string, style: TerminalStyle) {
+    if (text.length === 0) {
+        return;
+    }
+    const last = spans[spans.length - 1];
+    if (last && sameStyle(last.style, style)) {
+        last.text += text;
+    } else {
+        spans.push({ text, style });
+    }
+}
+
+/**
+ * Split a line containing SGR escapes into styled spans. Any other escape
+ * sequence is dropped.
+ */
+export function parseAnsiLine(line: string): TerminalSpan[] {
+    const spans: TerminalSpan[] = [];
+    const input = line.replace(OSC_PATTERN, '');
+    let style: TerminalStyle = {};
+    let index = 0;
+    CSI_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = CSI_PATTERN.exec(input)) !== null) {
+        pushSpan(spans, input.slice(index, match.index), style);
+        if (match[2] === 'm' && !match[1].startsWith('?')) {
+            style = applySgr(style, parseParams(match[1]));
+        }
+        index = match.index + match[0].length;
+    }
+    pushSpan(spans, input.slice(index), style);
+    return spans;
+}
+
+/**
+ * Build a screen from a tmux snapshot frame
+ */
+export function screenFromSnapshot(frame: { lines: string[]; cursor: { x: number; y: number }; cols: number; rows: number }): TerminalScreen {
+    return {
+        lines: frame.lines.map(parseAnsiLine),
+        cursor: frame.cursor,
+        cursorVisible: true,
+        cols: frame.cols,
+        rows: frame.rows
+    };
+}
+
+interface Cell {
+    ch: string;
+    style: TerminalStyle;
+}
+
+const BLANK: Cell = { ch: ' ', style: {} };
+
+/**
+ * Screen buffer fed with raw PTY output
+ */
+export class TerminalEmulator {
+    private cells: Cell[][] = [];
+    private x = 0;
+    private y = 0;
+    private saved = { x: 0, y: 0 };
+    private style: TerminalStyle = {};
+    private cursorVisible = true;
+    private pending = '';
+
+    constructor(private cols: number, private rows: number) {
+        this.clear();
+    }
+
+    resize(cols: number, rows: number) {
+        const lines = this.cells;
+        // Drop lines from the top only when needed to keep the cursor visible
+        const offset = Math.max(0, this.y - rows + 1);
+        this.cols = cols;
+        this.rows = rows;
+        this.clear();
+        for (let row = 0; row < rows && row + offset < lines.length; row++) {
+            this.cells[row] = lines[row + offset].slice(0, cols);
+            while (this.cells[row].length < cols) {
+                this.cells[row].push(BLANK);
+            }
+        }
+        this.y = Math.max(0, Math.min(rows - 1, this.y - offset));
+        this.x = Math.min(cols - 1, this.x);
+    }
+
+    write(data: string) {
+        const input = this.pending + data;
+        this.pending = '';
+        let i = 0;
+        while (i < input.length) {
+            const ch = input[i];
+            if (ch === '\x1b') {
+                const consumed = this.escape(input, i);
+                if (consumed === 0) {
+                    // Incomplete sequence, wait for the next chunk
+                    this.pending = input.slice(i);
+                    return;
+                }
+                i += consumed;
+                continue;
+            }
+            if (ch === '\r') {
+                this.x = 0;
+            } else if (ch === '\n') {
+                this.lineFeed();
+            } else if (ch === '\b') {
+                this.x = Math.max(0, this.x - 1);
+            } else if (ch === '\t') {
+                this.x = Math.min(this.cols - 1, (Math.floor(this.x / 8) + 1) * 8);
+            } else if (ch >= ' ') {
+                this.print(ch);
+            }
+            i++;
+        }
+    }
+
+    getScreen(): TerminalScreen {
+        const lines = this.cells.map((row) => {
+            const spans: TerminalSpan[] = [];
+            let end = row.length;
+            while (end > 0 && row[end - 1].ch === ' ' && row[end - 1].style.bg === undefined && !row[end - 1].style.inverse) {
+                end--;
+            }
+            for (let col = 0; col < end; col++) {
+                pushSpan(spans, row[col].ch, row[col].style);
+            }
+            return spans;
+        });
+        return {
+            lines,
+            cursor: { x: Math.min(this.x, this.cols - 1), y: this.y },
+            cursorVisible: this.cursorVisible,
+            cols: this.cols,
+            rows: this.rows
+        };
+    }
+
+    private blankRow(): Cell[] {
+        return new Array(this.cols).fill(BLANK);
+    }
+
+    private clear() {
+        this.cells = [];
+        for (let row = 0; row < this.rows; row++) {
+            this.cells.push(this.blankRow());
+        }
+    }
+
+    private print(ch: string) {
+        if (this.x >= this.cols) {
+            this.x = 0;
+            this.lineFeed();
+        }
+        this.cells[this.y][this.x] = { ch, style: this.style };
+        this.x++;
+    }
+
+    private lineFeed() {
+        if (this.y === this.rows - 1) {
+            this.cells.shift();
+            this.cells.push(this.blankRow());
+        } else {
+            this.y++;
+        }
+    }
+
+    /**
+     * Handle an escape sequence starting at `start`. Returns the number of
+     * characters consumed, or 0 when the sequence is incomplete.
+     */
+    private escape(input: string, start: number): number {
+        const next = input[start + 1];
+        if (next === undefined) {
+            return 0;
+        }
+        if (next === '[') {
+            let end = start + 2;
+            while (end < input.length && !(input[end] >= '@' && input[end] <= '~')) {
+                end++;
+            }
+            if (end >= input.length) {
+                return 0;
+            }
+            this.csi(input.slice(start + 2, end), input[end]);
+            return end - start + 1;
+        }
+        if (next === ']') {
+            for (let end = start + 2; end < input.length; end++) {
+                if (input[end] === '\x07') {
+                    return end - start + 1;
+                }
+                if (input[end] === '\x1b' && input[end + 1] === '\\') {
+                    return end - start + 2;
+                }
+            }
+            return 0;
+        }
+        if (next === '(' || next === ')') {
+            return start + 2 < input.length ? 3 : 0;
+        }
+        if (next === '7') {
+            this.saved = { x: this.x, y: this.y };
+        } else if (next === '8') {
+            this.x = this.saved.x;
+            this.y = this.saved.y;
+        } else if (next === 'M') {
+            if (this.y === 0) {
+                this.cells.pop();
+                this.cells.unshift(this.blankRow());
+            } else {
+                this.y--;
+            }
+        } else if (next === 'c') {
+            this.style = {};
+            this.x = 0;
+            this.y = 0;
+            this.clear();
+        }
+        return 2;
+    }
+
+    private csi(raw: string, final: string) {
+        const isPrivate = raw.startsWith('?');
+        const params = parseParams(isPrivate ? raw.slice(1) : raw);
+        const n = Math.max(1, params[0] || 1);
+
+        if (isPrivate) {
+            if (params.includes(25)) {
+                this.cursorVisible = final === 'h';
+            }
+            // Alternate screen: start from a blank screen either way
+            if (params.includes(1049) || params.includes(47)) {
+                this.clear();
+                this.x = 0;
+                this.y = 0;
+            }
+            return;
+        }
+
+        switch (final) {
+            case 'm':
+                this.style = applySgr(this.style, params);
+                break;
+            case 'A':
+                this.y = Math.max(0, this.y - n);
+                break;
+            case 'B':
+            case 'e':
+                this.y = Math.min(this.rows - 1, this.y + n);
+                break;
+            case 'C':
+            case 'a':
+                this.x = Math.min(this.cols - 1, this.x + n);
+                break;
+            case 'D':
+                this.x = Math.max(0, this.x - n);
+                break;
+            case 'E':
+                this.x = 0;
+                this.y = Math.min(this.rows - 1, this.y + n);
+                break;
+            case 'F':
+                this.x = 0;
+                this.y = Math.max(0, this.y - n);
+                break;
+            case 'G':
+            case '`':
+                this.x = Math.min(this.cols - 1, n - 1);
+                break;
+            case 'd':
+                this.y = Math.min(this.rows - 1, n - 1);
+                break;
+            case 'H':
+            case 'f':
+                this.y = Math.min(this.rows - 1, Math.max(1, params[0] || 1) - 1);
+                this.x = Math.min(this.cols - 1, Math.max(1, params[1] || 1) - 1);
+                break;
+            case 'J': {
+                const mode = params[0] || 0;
+                if (mode === 2 || mode === 3) {
+                    this.clear();
+                } else if (mode === 0) {
+                    this.eraseLine(0);
+                    for (let row = this.y + 1; row < this.rows; row++) {
+                        this.cells[row] = this.blankRow();
+                    }
+                } else if (mode === 1) {
+                    this.eraseLine(1);
+                    for (let row = 0; row < this.y; row++) {
+                        this.cells[row] = this.blankRow();
+                    }
+                }
+                break;
+            }
+            case 'K':
+                this.eraseLine(params[0] || 0);
+                break;
+            case 'P': {
+                const row = this.cells[this.y];
+                row.splice(this.x, n);
+                while (row.length < this.cols) {
+                    row.push(BLANK);
+                }
+                break;
+            }
+            case '@': {
+                const row = this.cells[this.y];
+                row.splice(this.x, 0, ...new Array(n).fill(BLANK));
+                row.length = this.cols;
+                break;
+            }
+            case 'X':
+                for (let col = this.x; col < Math.min(this.cols, this.x + n); col++) {
+                    this.cells[this.y][col] = BLANK;
+                }
+                break;
+            case 'L':
+                for (let i = 0; i < n; i++) {
+                    this.cells.splice(this.y, 0, this.blankRow());
+                    this.cells.pop();
+                }
+                break;
+            case 'M':
+                for (let i = 0; i < n; i++) {
+                    this.cells.splice(this.y, 1);
+                    this.cells.push(this.blankRow());
+                }
+                break;
+            case 's':
+                this.saved = { x: this.x, y: this.y };
+                break;
+            case 'u':
+                this.x = this.saved.x;
+                this.y = this.saved.y;
+                break;
+        }
+    }
+
+    private eraseLine(mode: number) {
+        const row = this.cells[this.y];
+        const from = mode === 0 ? this.x : 0;
+        const to = mode === 1 ? this.x + 1 : this.cols;
+        for (let col = from; col < Math.min(to, this.cols); col++) {
+            row[col] = BLANK;
+        }
+    }
+}
@@ -0,0 +1,44 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { queryUsage, UsagePeriod, usagePeriodRange } from '@/sync/apiUsage';
+import { storage } from '@/sync/storage';
+import { UsageSessionInfo, usageExportRows, usageToCsv } from '@/sync/usageAnalytics';
+import { formatPathRelativeToHome } from './sessionUtils';
+import { saveTextFile } from './saveTextFile';
+
+/**
+ * Agent, machine and project of a session from its decrypted metadata
+ */
+export function getUsageSessionInfo(sessionId: string): UsageSessionInfo | null {
+    const state = storage.getState();
+    const metadata = state.sessions[sessionId]?.metadata;
+    if (!metadata) {
+        return null;
+    }
+    const machine = metadata.machineId ? state.machines[metadata.machineId] : undefined;
+    return {
+        agent: metadata.flavor || 'claude',
+        machine: machine?.metadata?.displayName || metadata.host,
+        project: formatPathRelativeToHome(metadata.path, metadata.homeDir),
+    };
+}
+
+/**
+ * Export the usage of a period split by day or hour, model, agent, machine and project
+ */
+export async function exportUsage(credentials: AuthCredentials, period: UsagePeriod, format: 'csv' | 'json'): Promise<void> {
+    const range = usagePeriodRange(period);
+    const response = await queryUsage(credentials, { ...range, breakdown: ['model', 'agent', 'session'] });
+    const rows = usageExportRows(response.usage, getUsageSessionInfo);
+    const fileName = `usage-${period}-${new Date(range.endTime * 1000).toISOString().slice(0, 10)}.${format}`;
+    if (format === 'csv') {
+        await saveTextFile(fileName, usageToCsv(rows), 'text/csv');
+    } else {
+        const content = JSON.stringify({
+            startTime: range.startTime,
+            endTime: range.endTime,
+            groupBy: range.groupBy,
+            rows,
+        }, null, 2);
+        await saveTextFile(fileName, content, 'application/json');
+    }
+}
@@ -64,6 +64,7 @@ import {
   handlePlanUpdate,
   handleThinkingUpdate,
 } from './sessionUpdateHandlers';
+import { parsePromptUsage } from './promptUsage';
 
 /**
  * Extended RequestPermissionRequest with additional fields that may be present
@@ -908,8 +909,13 @@ export class AcpBackend implements AgentBackend {
       };
 
       logger.debug(`[AcpBackend] Prompt request:`, JSON.stringify(promptRequest, null, 2));
-      await this.connection.prompt(promptRequest);
+      const response = await this.connection.prompt(promptRequest);
       logger.debug('[AcpBackend] Prompt request sent to ACP connection');
+
+      const usage = parsePromptUsage(response);
+      if (usage) {
+        this.emit({ type: 'token-count', ...usage });
+      }
       
       // Don't emit 'idle' here - it will be emitted after all message chunks are received
       // The idle timeout in handleSessionUpdate will emit 'idle' after the last chunk
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parsePromptUsage } from './promptUsage';
+
+describe('parsePromptUsage', () => {
+  it('reads the protocol usage of a turn', () => {
+    const response = {
+      stopReason: 'end_turn',
+      usage: { totalTokens: 1600, inputTokens: 1000, outputTokens: 500, thoughtTokens: 100, cachedReadTokens: 400 },
+    };
+    expect(parsePromptUsage(response)).toEqual({ tokens: { input: 600, output: 600, cacheRead: 400 } });
+  });
+
+  it('reads the Gemini CLI quota with its model', () => {
+    const response = {
+      stopReason: 'end_turn',
+      _meta: {
+        quota: {
+          token_count: { input_tokens: 300, output_tokens: 40 },
+          model_usage: [{ model: 'gemini-2.5-flash', token_count: { input_tokens: 300, output_tokens: 40 } }],
+        },
+      },
+    };
+    expect(parsePromptUsage(response)).toEqual({ tokens: { input: 300, output: 40, cacheRead: 0 }, model: 'gemini-2.5-flash' });
+  });
+
+  it('returns null when the agent reports no usage', () => {
+    expect(parsePromptUsage({ stopReason: 'end_turn' })).toBeNull();
+    expect(parsePromptUsage(null)).toBeNull();
+    expect(parsePromptUsage({ usage: { inputTokens: 0, outputTokens: 0 } })).toBeNull();
+  });
+});
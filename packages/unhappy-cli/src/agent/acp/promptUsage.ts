@@ -0,0 +1,68 @@
+/**
+ * Token usage of an ACP prompt turn
+ *
+ * ACP agents report what a turn used in the prompt response: `usage` in newer
+ * protocol versions, `_meta.quota` in Gemini CLI. Input counts include the
+ * cached part, thought tokens are billed as output.
+ */
+
+import type { AgentTokens } from '@/utils/pricing';
+
+export type PromptUsage = {
+  tokens: AgentTokens;
+  /** Model that served the turn, when the agent says */
+  model?: string;
+};
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+}
+
+function count(record: Record<string, unknown> | null, key: string): number {
+  const value = record?.[key];
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function usageTokens(input: number, cached: number, output: number): AgentTokens | null {
+  if (input === 0 && output === 0) {
+    return null;
+  }
+  const cacheRead = Math.min(cached, input);
+  return { input: input - cacheRead, output, cacheRead };
+}
+
+/**
+ * Usage of a turn from its prompt response, null when the agent reports none
+ */
+export function parsePromptUsage(response: unknown): PromptUsage | null {
+  const record = toRecord(response);
+
+  // Protocol `usage`, camelCase counts
+  const usage = toRecord(record?.usage);
+  if (usage) {
+    const tokens = usageTokens(
+      count(usage, 'inputTokens'),
+      count(usage, 'cachedReadTokens'),
+      count(usage, 'outputTokens') + count(usage, 'thoughtTokens'),
+    );
+    return tokens ? { tokens } : null;
+  }
+
+  // Gemini CLI `_meta.quota`, snake_case counts and the models it used
+  const quota = toRecord(toRecord(record?._meta)?.quota);
+  const tokenCount = toRecord(quota?.token_count);
+  if (!tokenCount) {
+    return null;
+  }
+  const tokens = usageTokens(
+    count(tokenCount, 'input_tokens'),
+    count(tokenCount, 'cached_tokens'),
+    count(tokenCount, 'output_tokens') + count(tokenCount, 'thoughts_tokens'),
+  );
+  if (!tokens) {
+    return null;
+  }
+  const models = Array.isArray(quota?.model_usage) ? quota.model_usage : [];
+  const model = toRecord(models[0])?.model;
+  return { tokens, ...(typeof model === 'string' ? { model } : {}) };
+}
@@ -72,8 +72,8 @@ export interface McpServerConfig {
 /** Transport type for agent communication */
 export type AgentTransport = 'native-claude' | 'mcp-codex' | 'acp';
 
-/** Agent identifier */
-export type AgentId =
+/** Identifiers of agents that ship with the CLI */
+export type BuiltinAgentId =
   | 'claude'
   | 'codex'
   | 'gemini'
@@ -81,6 +81,14 @@ export type AgentId =
   | 'claude-acp'
   | 'codex-acp';
 
+/**
+ * Agent identifier.
+ *
+ * Besides the built-in agents, any ACP agent declared in ~/.unhappy/agents.json
+ * is addressable by its configured name.
+ */
+export type AgentId = BuiltinAgentId | (string & {});
+
 /**
  * Configuration for creating an agent backend
  */
@@ -21,6 +21,7 @@ export type {
   McpServerConfig,
   AgentTransport,
   AgentId,
+  BuiltinAgentId,
   StartSessionResult,
 } from './AgentBackend';
 
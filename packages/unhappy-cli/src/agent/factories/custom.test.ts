@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parseCustomAgents } from './custom';
+import { ConfigurableTransport } from '../transport';
+
+describe('parseCustomAgents', () => {
+  it('parses agents with defaults', () => {
+    const agents = parseCustomAgents({
+      agents: {
+        opencode: { command: 'opencode', args: ['acp'] },
+        'my-agent': {
+          displayName: 'My Agent',
+          command: '/usr/local/bin/my-agent',
+          env: { MY_AGENT_LOG: 'error' },
+          transport: { initTimeoutMs: 120000 },
+        },
+      },
+    });
+
+    expect(agents).toEqual([
+      {
+        name: 'opencode',
+        displayName: 'opencode',
+        command: 'opencode',
+        args: ['acp'],
+        env: {},
+        transport: {},
+      },
+      {
+        name: 'my-agent',
+        displayName: 'My Agent',
+        command: '/usr/local/bin/my-agent',
+        args: [],
+        env: { MY_AGENT_LOG: 'error' },
+        transport: { initTimeoutMs: 120000 },
+      },
+    ]);
+  });
+
+  it('skips invalid and reserved entries', () => {
+    const agents = parseCustomAgents({
+      agents: {
+        gemini: { command: 'gemini' },
+        daemon: { command: 'daemon' },
+        'Bad Name': { command: 'bad' },
+        'no-command': { args: [] },
+        ok: { command: 'ok' },
+      },
+    });
+
+    expect(agents.map((agent) => agent.name)).toEqual(['ok']);
+  });
+
+  it('returns nothing for a malformed file', () => {
+    expect(parseCustomAgents({ agents: [] })).toEqual([]);
+    expect(parseCustomAgents('nope')).toEqual([]);
+  });
+});
+
+describe('ConfigurableTransport', () => {
+  it('applies configured timeouts and tool patterns', () => {
+    const transport = new ConfigurableTransport('my-agent', {
+      initTimeoutMs: 5000,
+      toolCallTimeoutMs: 1000,
+      investigationTools: ['deep_search'],
+      toolPatterns: [{ name: 'change_title', patterns: ['change_title'] }],
+    });
+
+    expect(transport.getInitTimeout()).toBe(5000);
+    expect(transport.getToolCallTimeout('read-1')).toBe(1000);
+    expect(transport.getToolCallTimeout('deep_search-1')).toBe(600_000);
+    expect(transport.determineToolName('other', 'change_title-42', {}, {
+      recentPromptHadChangeTitle: false,
+      toolCallCountSincePrompt: 0,
+    })).toBe('change_title');
+    expect(transport.determineToolName('Read', 'change_title-42', {}, {
+      recentPromptHadChangeTitle: false,
+      toolCallCountSincePrompt: 0,
+    })).toBe('Read');
+  });
+});
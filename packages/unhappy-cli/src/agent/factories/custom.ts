@@ -0,0 +1,208 @@
+/**
+ * Custom ACP Agents - user-declared agents via ~/.unhappy/agents.json
+ *
+ * Any CLI that speaks the Agent Client Protocol can be plugged in without code
+ * changes by declaring it in the agents file:
+ *
+ * ```json
+ * {
+ *   "agents": {
+ *     "opencode": {
+ *       "displayName": "OpenCode",
+ *       "command": "opencode",
+ *       "args": ["acp"],
+ *       "env": { "OPENCODE_LOG": "error" },
+ *       "transport": { "initTimeoutMs": 120000 }
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * The agent is then available as `unhappy opencode`, through the daemon's
+ * spawn-unhappy-session RPC and in the app's agent picker.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+import { configuration } from '@/configuration';
+import { hasChangeTitleInstruction } from '@/gemini/utils/promptUtils';
+import { logger } from '@/ui/logger';
+import { AcpBackend, type AcpPermissionHandler } from '../acp/AcpBackend';
+import type {
+    AgentBackend,
+    AgentFactoryOptions,
+    McpServerConfig,
+} from '../core';
+import { agentRegistry } from '../core';
+import { ConfigurableTransport } from '../transport';
+
+/**
+ * Names that can't be used for custom agents because they are built-in
+ * agents or CLI subcommands.
+ */
+export const RESERVED_AGENT_NAMES: readonly string[] = [
+  'claude',
+  'codex',
+  'gemini',
+  'audit',
+  'auth',
+  'connect',
+  'daemon',
+  'doctor',
+  'logout',
+  'notify',
+  'session',
+];
+
+const ToolPatternSchema = z.object({
+  name: z.string().min(1),
+  patterns: z.array(z.string().min(1)).min(1),
+});
+
+const CustomAgentTransportSchema = z.object({
+  initTimeoutMs: z.number().int().positive().optional(),
+  toolCallTimeoutMs: z.number().int().positive().optional(),
+  investigationTimeoutMs: z.number().int().positive().optional(),
+  idleTimeoutMs: z.number().int().positive().optional(),
+  toolPatterns: z.array(ToolPatternSchema).optional(),
+  investigationTools: z.array(z.string().min(1)).optional(),
+});
+
+export const CustomAgentSchema = z.object({
+  /** Human readable name shown in the app, defaults to the agent name */
+  displayName: z.string().min(1).optional(),
+  /** Executable that speaks ACP over stdio */
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string(), z.string()).default({}),
+  transport: CustomAgentTransportSchema.default({}),
+});
+
+export const CustomAgentsFileSchema = z.object({
+  agents: z.record(z.string(), z.unknown()).default({}),
+});
+
+export type CustomAgentDefinition = z.infer<typeof CustomAgentSchema> & {
+  /** Name used on the command line and in spawn requests */
+  name: string;
+  displayName: string;
+};
+
+const AGENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Parse the contents of an agents file.
+ *
+ * Invalid entries are skipped with a warning so that one typo doesn't take
+ * down every other custom agent.
+ */
+export function parseCustomAgents(raw: unknown): CustomAgentDefinition[] {
+  const file = CustomAgentsFileSchema.safeParse(raw);
+  if (!file.success) {
+    logger.warn(`[CustomAgents] Ignoring ${configuration.agentsFile}: expected an "agents" object`);
+    return [];
+  }
+
+  const agents: CustomAgentDefinition[] = [];
+  for (const [name, value] of Object.entries(file.data.agents)) {
+    if (!AGENT_NAME_PATTERN.test(name)) {
+      logger.warn(`[CustomAgents] Skipping agent "${name}": names must be lowercase letters, digits, "-" or "_"`);
+      continue;
+    }
+    if (RESERVED_AGENT_NAMES.includes(name)) {
+      logger.warn(`[CustomAgents] Skipping agent "${name}": the name is reserved`);
+      continue;
+    }
+    const parsed = CustomAgentSchema.safeParse(value);
+    if (!parsed.success) {
+      logger.warn(`[CustomAgents] Skipping agent "${name}": ${parsed.error.issues.map((issue) => `${issue.path.join('.') || 'agent'} ${issue.message}`).join(', ')}`);
+      continue;
+    }
+    agents.push({
+      ...parsed.data,
+      name,
+      displayName: parsed.data.displayName ?? name,
+    });
+  }
+  return agents;
+}
+
+/**
+ * Read custom agents from ~/.unhappy/agents.json.
+ *
+ * The file is re-read on every call so edits are picked up by a running
+ * daemon without a restart.
+ */
+export function readCustomAgents(): CustomAgentDefinition[] {
+  if (!existsSync(configuration.agentsFile)) {
+    return [];
+  }
+  try {
+    return parseCustomAgents(JSON.parse(readFileSync(configuration.agentsFile, 'utf8')));
+  } catch (error) {
+    logger.warn(`[CustomAgents] Failed to read ${configuration.agentsFile}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Look up a custom agent by name
+ */
+export function findCustomAgent(name: string): CustomAgentDefinition | null {
+  return readCustomAgents().find((agent) => agent.name === name) ?? null;
+}
+
+/**
+ * Options for creating a custom ACP backend
+ */
+export interface CustomAcpBackendOptions extends AgentFactoryOptions {
+  /** MCP servers to make available to the agent */
+  mcpServers?: Record<string, McpServerConfig>;
+
+  /** Optional permission handler for tool approval */
+  permissionHandler?: AcpPermissionHandler;
+}
+
+/**
+ * Create an ACP backend for a custom agent definition.
+ *
+ * Env from the agents file is layered on top of the caller's env so that
+ * per-agent settings win over profile variables.
+ */
+export function createCustomAcpBackend(
+  agent: CustomAgentDefinition,
+  options: CustomAcpBackendOptions,
+): AgentBackend {
+  logger.debug(`[CustomAgents] Creating ACP backend for ${agent.name}:`, {
+    cwd: options.cwd,
+    command: agent.command,
+    args: agent.args,
+    envKeys: Object.keys(agent.env),
+  });
+
+  return new AcpBackend({
+    agentName: agent.name,
+    cwd: options.cwd,
+    command: agent.command,
+    args: agent.args,
+    env: {
+      ...options.env,
+      ...agent.env,
+    },
+    mcpServers: options.mcpServers,
+    permissionHandler: options.permissionHandler,
+    transportHandler: new ConfigurableTransport(agent.name, agent.transport),
+    hasChangeTitleInstruction,
+  });
+}
+
+/**
+ * Register every custom agent with the global agent registry.
+ */
+export function registerCustomAgents(): void {
+  for (const agent of readCustomAgents()) {
+    agentRegistry.register(agent.name, (opts) => createCustomAcpBackend(agent, opts));
+    logger.debug(`[CustomAgents] Registered ${agent.name} with agent registry`);
+  }
+}
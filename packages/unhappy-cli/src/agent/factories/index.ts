@@ -15,6 +15,16 @@ export {
   type GeminiBackendResult,
 } from './gemini';
 
+// Custom ACP agents declared in ~/.unhappy/agents.json
+export {
+  createCustomAcpBackend,
+  findCustomAgent,
+  readCustomAgents,
+  registerCustomAgents,
+  type CustomAcpBackendOptions,
+  type CustomAgentDefinition,
+} from './custom';
+
 // Future factories:
 // export { createCodexBackend, registerCodexAgent, type CodexBackendOptions } from './codex';
 // export { createClaudeBackend, registerClaudeAgent, type ClaudeBackendOptions } from './claude';
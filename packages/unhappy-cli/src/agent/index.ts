@@ -14,6 +14,7 @@ export type {
   AgentFactory,
   AgentFactoryOptions,
   AgentId,
+  BuiltinAgentId,
   AgentMessage,
   AgentMessageHandler,
   AgentTransport,
@@ -40,4 +41,7 @@ export function initializeAgents(): void {
   // Import and register agents from factories
   const { registerGeminiAgent } = require('./factories/gemini');
   registerGeminiAgent();
+
+  const { registerCustomAgents } = require('./factories/custom');
+  registerCustomAgents();
 }
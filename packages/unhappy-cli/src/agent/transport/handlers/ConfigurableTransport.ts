@@ -0,0 +1,101 @@
+/**
+ * Configurable Transport Handler
+ *
+ * TransportHandler for custom ACP agents declared in ~/.unhappy/agents.json.
+ * Builds on DefaultTransport and lets the config override:
+ * - Init, tool call and idle timeouts
+ * - Tool name patterns (for agents that report tools as "other")
+ * - Investigation tools (long running tools that get a longer timeout)
+ *
+ * @module ConfigurableTransport
+ */
+
+import { DEFAULT_IDLE_TIMEOUT_MS } from '../../acp/sessionUpdateHandlers';
+import { DefaultTransport } from '../DefaultTransport';
+import type { ToolNameContext, ToolPattern } from '../TransportHandler';
+
+/**
+ * Transport options accepted in the agent config file
+ */
+export interface ConfigurableTransportOptions {
+  /** Timeout for initialize/newSession handshakes */
+  initTimeoutMs?: number;
+  /** Timeout for a regular tool call */
+  toolCallTimeoutMs?: number;
+  /** Timeout for investigation tools */
+  investigationTimeoutMs?: number;
+  /** Idle detection after the last message chunk */
+  idleTimeoutMs?: number;
+  /** Known tool names, matched against toolCallId (case-insensitive) */
+  toolPatterns?: ToolPattern[];
+  /** Substrings of toolCallId/kind that mark a tool as an investigation */
+  investigationTools?: string[];
+}
+
+/**
+ * Transport handler whose behaviour is driven by config instead of code.
+ */
+export class ConfigurableTransport extends DefaultTransport {
+  constructor(
+    agentName: string,
+    private readonly options: ConfigurableTransportOptions = {},
+  ) {
+    super(agentName);
+  }
+
+  getInitTimeout(): number {
+    return this.options.initTimeoutMs ?? super.getInitTimeout();
+  }
+
+  getToolPatterns(): ToolPattern[] {
+    return this.options.toolPatterns ?? [];
+  }
+
+  isInvestigationTool(toolCallId: string, toolKind?: string): boolean {
+    const markers = this.options.investigationTools ?? [];
+    const lowerId = toolCallId.toLowerCase();
+    return markers.some((marker) => {
+      const lowerMarker = marker.toLowerCase();
+      return (
+        lowerId.includes(lowerMarker) ||
+        (typeof toolKind === 'string' && toolKind.toLowerCase().includes(lowerMarker))
+      );
+    });
+  }
+
+  getToolCallTimeout(toolCallId: string, toolKind?: string): number {
+    if (this.isInvestigationTool(toolCallId, toolKind)) {
+      return this.options.investigationTimeoutMs ?? 600_000;
+    }
+    if (toolKind !== 'think' && this.options.toolCallTimeoutMs !== undefined) {
+      return this.options.toolCallTimeoutMs;
+    }
+    return super.getToolCallTimeout(toolCallId, toolKind);
+  }
+
+  getIdleTimeout(): number {
+    return this.options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  }
+
+  extractToolNameFromId(toolCallId: string): string | null {
+    const lowerId = toolCallId.toLowerCase();
+    for (const toolPattern of this.getToolPatterns()) {
+      if (toolPattern.patterns.some((pattern) => lowerId.includes(pattern.toLowerCase()))) {
+        return toolPattern.name;
+      }
+    }
+    return null;
+  }
+
+  determineToolName(
+    toolName: string,
+    toolCallId: string,
+    input: Record<string, unknown>,
+    context: ToolNameContext
+  ): string {
+    if (toolName !== 'other' && toolName !== 'Unknown tool') {
+      return toolName;
+    }
+    return this.extractToolNameFromId(toolCallId) ?? super.determineToolName(toolName, toolCallId, input, context);
+  }
+}
@@ -7,6 +7,7 @@
  */
 
 export { GeminiTransport, geminiTransport } from './GeminiTransport';
+export { ConfigurableTransport, type ConfigurableTransportOptions } from './ConfigurableTransport';
 
 // Future handlers:
 // export { CodexTransport, codexTransport } from './CodexTransport';
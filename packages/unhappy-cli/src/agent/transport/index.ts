@@ -19,7 +19,12 @@ export type {
 export { DefaultTransport, defaultTransport } from './DefaultTransport';
 
 // Agent-specific handlers
-export { GeminiTransport, geminiTransport } from './handlers';
+export {
+  GeminiTransport,
+  geminiTransport,
+  ConfigurableTransport,
+  type ConfigurableTransportOptions,
+} from './handlers';
 
 // Future handlers will be exported from ./handlers:
 // export { CodexTransport, codexTransport } from './handlers';
@@ -6,9 +6,13 @@ import type {
   MachineMetadata,
   Metadata,
   Session,
+  SessionAuditPage,
+  SessionMessagesPage,
+  StoredArtifact,
+  StoredSession,
 } from '@/api/types';
 import { configuration } from '@/configuration';
-import { Credentials } from '@/persistence';
+import { Credentials, writeSessionKey } from '@/persistence';
 import { logger } from '@/ui/logger';
 import {
   connectionState,
@@ -17,7 +21,9 @@ import {
 import axios from 'axios';
 import chalk from 'chalk';
 import { ApiMachineClient } from './apiMachine';
+import type { DaemonHealth } from '@/daemon/health';
 import { ApiSessionClient } from './apiSession';
+import type { Outbox } from './outbox';
 import {
   decodeBase64,
   decrypt,
@@ -107,6 +113,12 @@ export class ApiClient {
         `Session created/loaded: ${response.data.session.id} (tag: ${opts.tag})`,
       );
       let raw = response.data.session;
+      if (this.credential.encryption.type === 'dataKey') {
+        // Keep a local copy, the CLI can't decrypt dataEncryptionKey later
+        await writeSessionKey(raw.id, encryptionKey, this.credential.encryption.machineKey).catch((error) =>
+          logger.debug('[API] Failed to store session key:', error),
+        );
+      }
       let session: Session = {
         id: raw.id,
         seq: raw.seq,
@@ -353,18 +365,119 @@ export class ApiClient {
     }
   }
 
-  sessionSyncClient(session: Session): ApiSessionClient {
-    return new ApiSessionClient(this.credential.token, session);
+  sessionSyncClient(session: Session, outbox?: Outbox): ApiSessionClient {
+    return new ApiSessionClient(this.credential.token, session, outbox);
   }
 
-  machineSyncClient(machine: Machine): ApiMachineClient {
-    return new ApiMachineClient(this.credential.token, machine);
+  machineSyncClient(machine: Machine, health?: DaemonHealth): ApiMachineClient {
+    return new ApiMachineClient(this.credential.token, machine, health);
   }
 
   push(): PushNotificationClient {
     return this.pushClient;
   }
 
+  /**
+   * Find one of the account's sessions, still encrypted. Walks the session
+   * list since the server has no single session endpoint.
+   */
+  async getSession(sessionId: string): Promise<StoredSession | null> {
+    let cursor: string | null = null;
+    while (true) {
+      const response: { data: { sessions: StoredSession[]; nextCursor: string | null } } = await axios.get(
+        `${configuration.serverUrl}/v2/sessions`,
+        {
+          params: { limit: 200, ...(cursor ? { cursor } : {}) },
+          headers: { Authorization: `Bearer ${this.credential.token}` },
+          timeout: 30000,
+        },
+      );
+      const found = response.data.sessions.find((s) => s.id === sessionId);
+      if (found) {
+        return found;
+      }
+      if (!response.data.nextCursor) {
+        return null;
+      }
+      cursor = response.data.nextCursor;
+    }
+  }
+
+  /**
+   * Page through session messages in ascending seq order
+   */
+  async getSessionMessages(sessionId: string, after: number): Promise<SessionMessagesPage> {
+    const response = await axios.get<SessionMessagesPage>(
+      `${configuration.serverUrl}/v2/sessions/${sessionId}/messages`,
+      {
+        params: { after, limit: 500 },
+        headers: { Authorization: `Bearer ${this.credential.token}` },
+        timeout: 30000,
+      },
+    );
+    return response.data;
+  }
+
+  /**
+   * Append already encrypted messages, the server skips localIds it has.
+   * Returns the number of new messages, null when the session doesn't exist.
+   */
+  async importSessionMessages(
+    sessionId: string,
+    messages: { localId: string; content: string; createdAt: number }[],
+  ): Promise<number | null> {
+    try {
+      const response = await axios.post<{ imported: number }>(
+        `${configuration.serverUrl}/v1/sessions/${sessionId}/messages`,
+        { messages },
+        {
+          headers: { Authorization: `Bearer ${this.credential.token}` },
+          timeout: 60000,
+        },
+      );
+      return response.data.imported;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getSessionAudit(sessionId: string, after: number): Promise<SessionAuditPage> {
+    const response = await axios.get<SessionAuditPage>(
+      `${configuration.serverUrl}/v1/sessions/${sessionId}/audit`,
+      {
+        params: { after, limit: 500 },
+        headers: { Authorization: `Bearer ${this.credential.token}` },
+        timeout: 30000,
+      },
+    );
+    return response.data;
+  }
+
+  async listArtifacts(): Promise<StoredArtifact[]> {
+    const response = await axios.get<StoredArtifact[]>(
+      `${configuration.serverUrl}/v1/artifacts`,
+      {
+        headers: { Authorization: `Bearer ${this.credential.token}` },
+        timeout: 30000,
+      },
+    );
+    return response.data;
+  }
+
+  async getArtifact(artifactId: string): Promise<StoredArtifact> {
+    const response = await axios.get<StoredArtifact>(
+      `${configuration.serverUrl}/v1/artifacts/${artifactId}`,
+      {
+        headers: { Authorization: `Bearer ${this.credential.token}` },
+        timeout: 30000,
+      },
+    );
+    return response.data;
+  }
+
   /**
    * Register a vendor API token with the server
    * The token is sent as a JSON string - server handles encryption
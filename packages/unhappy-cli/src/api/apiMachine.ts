@@ -3,6 +3,7 @@
  * Similar to ApiSessionClient but for machine-scoped connections
  */
 
+import { readCustomAgents } from '@/agent/factories/custom';
 import { configuration } from '@/configuration';
 import { logger } from '@/ui/logger';
 import { backoff } from '@/utils/time';
@@ -13,23 +14,30 @@ import {
   SpawnSessionOptions,
   SpawnSessionResult,
 } from '../modules/common/registerCommonHandlers';
+import { registerGitHandlers } from '../modules/common/registerGitHandlers';
 import { listClaudeModels, listCodexModels } from '@/modules/common/listModels';
 import { decodeBase64, decrypt, encodeBase64, encrypt } from './encryption';
 import { RpcHandlerManager } from './rpc/RpcHandlerManager';
+import type { RpcProgress, RpcRequest } from './rpc/types';
+import { ScheduleManager } from '@/daemon/schedules/scheduleManager';
+import { ScheduleInputSchema } from '@/daemon/schedules/types';
+import type { DaemonHealth, MachineHealthReport } from '@/daemon/health';
 import {
   DaemonState,
   Machine,
   MachineMetadata,
   Update,
   UpdateMachineBody,
+  UsageReport,
 } from './types';
 
 interface ServerToDaemonEvents {
   update: (data: Update) => void;
   'rpc-request': (
-    data: { method: string; params: string },
+    data: RpcRequest,
     callback: (response: string) => void,
   ) => void;
+  'rpc-cancel': (data: { callId: string }) => void;
   'rpc-registered': (data: { method: string }) => void;
   'rpc-unregistered': (data: { method: string }) => void;
   'rpc-error': (data: { type: string; error: string }) => void;
@@ -40,6 +48,15 @@ interface ServerToDaemonEvents {
 interface DaemonToServerEvents {
   'machine-alive': (data: { machineId: string; time: number }) => void;
 
+  'machine-health': (data: MachineHealthReport) => void;
+
+  'usage-report': (
+    data: UsageReport & { sessionId: string },
+    callback?: (response: { success: boolean; error?: string }) => void,
+  ) => void;
+
+  'rpc-progress': (data: RpcProgress) => void;
+
   'machine-update-metadata': (
     data: {
       machineId: string;
@@ -101,18 +118,22 @@ type MachineRpcHandlers = {
   stopSession: (sessionId: string) => boolean;
   requestShutdown: () => void;
   requestUpdate: () => { message: string };
+  scheduleManager: ScheduleManager;
 };
 
 const EmptyParamsSchema = z.object({}).strict();
+const ScheduleIdParamsSchema = z.object({ id: z.string() });
 
 export class ApiMachineClient {
   private socket!: Socket<ServerToDaemonEvents, DaemonToServerEvents>;
   private keepAliveInterval: NodeJS.Timeout | null = null;
+  private healthInterval: NodeJS.Timeout | null = null;
   private rpcHandlerManager: RpcHandlerManager;
 
   constructor(
     private token: string,
     private machine: Machine,
+    private health?: DaemonHealth,
   ) {
     // Initialize RPC handler manager
     this.rpcHandlerManager = new RpcHandlerManager({
@@ -120,14 +141,14 @@ export class ApiMachineClient {
       encryptionKey: this.machine.encryptionKey,
       encryptionVariant: this.machine.encryptionVariant,
       logger: (msg, data) => logger.debug(msg, data),
+      onRequestHandled: (_method, durationMs, ok) => this.health?.recordRpc(durationMs, ok),
     });
 
     // For machine-scoped RPCs, default to the user's home dir so clients can browse/select directories
     // without being constrained by whatever `process.cwd()` happens to be when the daemon starts.
-    registerCommonHandlers(
-      this.rpcHandlerManager,
-      (this.machine?.metadata?.homeDir || process.cwd()).trim() || process.cwd(),
-    );
+    const workingDirectory = (this.machine?.metadata?.homeDir || process.cwd()).trim() || process.cwd();
+    registerCommonHandlers(this.rpcHandlerManager, workingDirectory);
+    registerGitHandlers(this.rpcHandlerManager, workingDirectory);
   }
 
   setRPCHandlers({
@@ -135,6 +156,7 @@ export class ApiMachineClient {
     stopSession,
     requestShutdown,
     requestUpdate,
+    scheduleManager,
   }: MachineRpcHandlers) {
     // Register spawn session handler
     this.rpcHandlerManager.registerHandler(
@@ -227,6 +249,43 @@ export class ApiMachineClient {
       return requestUpdate();
     });
 
+    // Scheduled prompts (persisted by the daemon in ~/.unhappy/schedules.json)
+    this.rpcHandlerManager.registerHandler('schedule-list', (params: unknown) => {
+      EmptyParamsSchema.parse(params);
+      return scheduleManager.list();
+    });
+
+    this.rpcHandlerManager.registerHandler('schedule-history', (params: unknown) => {
+      const { id } = ScheduleIdParamsSchema.parse(params);
+      return { runs: scheduleManager.history(id) };
+    });
+
+    this.rpcHandlerManager.registerHandler('schedule-create', async (params: unknown) => {
+      const input = ScheduleInputSchema.parse(params);
+      logger.debug(`[API MACHINE] Creating schedule '${input.name}'`);
+      return { schedule: await scheduleManager.create(input) };
+    });
+
+    this.rpcHandlerManager.registerHandler('schedule-update', async (params: unknown) => {
+      const { id } = ScheduleIdParamsSchema.parse(params);
+      const input = ScheduleInputSchema.parse(params);
+      logger.debug(`[API MACHINE] Updating schedule ${id}`);
+      return { schedule: await scheduleManager.update(id, input) };
+    });
+
+    this.rpcHandlerManager.registerHandler('schedule-delete', async (params: unknown) => {
+      const { id } = ScheduleIdParamsSchema.parse(params);
+      logger.debug(`[API MACHINE] Deleting schedule ${id}`);
+      await scheduleManager.delete(id);
+      return { success: true };
+    });
+
+    this.rpcHandlerManager.registerHandler('schedule-run-now', async (params: unknown) => {
+      const { id } = ScheduleIdParamsSchema.parse(params);
+      logger.debug(`[API MACHINE] Running schedule ${id} now`);
+      return { run: await scheduleManager.runNow(id) };
+    });
+
     // Model listing for UI dropdowns (best-effort).
     // Used by the "new session" flow (no sessionId yet) so the UI can still show a model picker.
     // Codex model listing is relatively expensive (spawns `codex app-server`), so cache it.
@@ -322,6 +381,19 @@ export class ApiMachineClient {
       });
       return resp;
     });
+
+    // Custom ACP agents from ~/.unhappy/agents.json, re-read on every request
+    // so the app's agent picker reflects edits without a daemon restart.
+    this.rpcHandlerManager.registerHandler('list-agents', async () => {
+      const agents = readCustomAgents().map((agent) => ({
+        name: agent.name,
+        displayName: agent.displayName,
+      }));
+      logger.debug('[API MACHINE] list-agents response', {
+        count: agents.length,
+      });
+      return { agents };
+    });
   }
 
   /**
@@ -507,6 +579,7 @@ export class ApiMachineClient {
 
     this.socket.on('connect', () => {
       logger.debug('[API MACHINE] Connected to server');
+      this.health?.recordConnect();
 
       // Update daemon state to running
       // We need to override previous state because the daemon (this process)
@@ -536,7 +609,7 @@ export class ApiMachineClient {
     this.socket.on(
       'rpc-request',
       async (
-        data: { method: string; params: string },
+        data: RpcRequest,
         callback: (response: string) => void,
       ) => {
         logger.debugLargeJson(`[API MACHINE] Received RPC request:`, data);
@@ -544,6 +617,10 @@ export class ApiMachineClient {
       },
     );
 
+    this.socket.on('rpc-cancel', (data: { callId: string }) => {
+      this.rpcHandlerManager.cancelRequest(data.callId);
+    });
+
     // Handle update events from server
     this.socket.on('update', (data: Update) => {
       // Machine clients should only care about machine updates
@@ -603,6 +680,13 @@ export class ApiMachineClient {
       this.socket.emit('machine-alive', payload);
     }, 20000);
     logger.debug('[API MACHINE] Keep-alive started (20s interval)');
+
+    const health = this.health;
+    if (health) {
+      this.healthInterval = setInterval(() => {
+        this.socket.emit('machine-health', health.takeReport(this.machine.id));
+      }, 60000);
+    }
   }
 
   private stopKeepAlive() {
@@ -611,6 +695,30 @@ export class ApiMachineClient {
       this.keepAliveInterval = null;
       logger.debug('[API MACHINE] Keep-alive stopped');
     }
+    if (this.healthInterval) {
+      clearInterval(this.healthInterval);
+      this.healthInterval = null;
+    }
+  }
+
+  /**
+   * Send a usage report on behalf of a session, used to replay the outbox of a
+   * CLI process that died offline. Returns false when the server didn't answer.
+   */
+  async reportUsage(report: UsageReport & { sessionId: string }): Promise<boolean> {
+    if (!this.socket?.connected) {
+      return false;
+    }
+    try {
+      const answer = await this.socket.timeout(10000).emitWithAck('usage-report', report);
+      if (!answer.success) {
+        logger.debug(`[API MACHINE] Usage report ${report.key} rejected: ${answer.error}`);
+      }
+      return true;
+    } catch (error) {
+      logger.debug('[API MACHINE] Usage report timed out:', error);
+      return false;
+    }
   }
 
   shutdown() {
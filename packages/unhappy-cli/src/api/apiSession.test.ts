@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { ApiSessionClient } from './apiSession';
+import { agentUsageReport, ApiSessionClient } from './apiSession';
+import { decodeBase64, decrypt } from './encryption';
+import { rmSync } from 'node:fs';
+import { configuration } from '@/configuration';
 
 // Use vi.hoisted to ensure mock function is available when vi.mock factory runs
 const { mockIo } = vi.hoisted(() => ({
@@ -26,8 +29,10 @@ describe('ApiSessionClient connection handling', () => {
             off: vi.fn(),
             disconnect: vi.fn(),
             emit: vi.fn(),
-            emitWithAck: vi.fn()
+            emitWithAck: vi.fn(),
+            timeout: vi.fn()
         };
+        mockSocket.timeout.mockReturnValue(mockSocket);
 
         mockIo.mockReturnValue(mockSocket);
 
@@ -110,6 +115,73 @@ describe('ApiSessionClient connection handling', () => {
         expect(mockSocket.emit).not.toHaveBeenCalled();
     });
 
+    it('should charge the budget once per response even when its usage repeats on every content block', () => {
+        const client = new ApiSessionClient('fake-token', mockSession);
+        client.budget.setBudget({ unit: 'tokens', limit: 1000 });
+        const usage = { input_tokens: 10, output_tokens: 20, cache_creation_input_tokens: 0, cache_read_input_tokens: 70 };
+
+        client.sendUsageData(usage, 'claude-sonnet-4-5', 'msg_1');
+        client.sendUsageData(usage, 'claude-sonnet-4-5', 'msg_1');
+        client.sendUsageData(usage, 'claude-sonnet-4-5', 'msg_2');
+
+        expect(client.budget.state()?.spent).toBe(200);
+    });
+
+    it('should audit the tool calls and results of Claude messages and skip malformed blocks', () => {
+        const client = new ApiSessionClient('fake-token', mockSession);
+        const started = vi.spyOn(client.audit, 'toolStarted');
+        const finished = vi.spyOn(client.audit, 'toolFinished');
+
+        client.sendClaudeSessionMessage({
+            type: 'assistant',
+            uuid: 'a1',
+            message: {
+                content: [
+                    { type: 'text', text: 'Listing' },
+                    { type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'ls' } },
+                    { type: 'tool_use', id: 5, name: 'Bash' }
+                ]
+            }
+        });
+        client.sendClaudeSessionMessage({
+            type: 'user',
+            uuid: 'u1',
+            message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: 'a.ts' }] }
+        });
+
+        expect(started).toHaveBeenCalledTimes(1);
+        expect(started).toHaveBeenCalledWith('t1', 'Bash', { command: 'ls' });
+        expect(finished).toHaveBeenCalledWith('t1', 'a.ts', false);
+    });
+
+    it('should key usage reports by response and tag them with the model and agent', () => {
+        const client = new ApiSessionClient('fake-token', mockSession);
+        const usage = { input_tokens: 10, output_tokens: 20, cache_creation_input_tokens: 0, cache_read_input_tokens: 70 };
+
+        client.sendUsageData(usage, 'claude-sonnet-4-5', 'msg_1');
+        client.sendUsageData(usage, 'claude-sonnet-4-5', 'msg_1');
+        client.sendUsageData(usage, 'claude-sonnet-4-5', 'msg_2');
+
+        const reports = mockSocket.emit.mock.calls.filter(([event]: [string]) => event === 'usage-report').map(([, report]: [string, any]) => report);
+        expect(reports.map((report: any) => report.key)).toEqual(['claude-response:msg_1', 'claude-response:msg_1', 'claude-response:msg_2']);
+        expect(reports[0]).toMatchObject({ model: 'claude-sonnet-4-5', agent: 'claude', tokens: { total: 100, cache_read: 70 } });
+    });
+
+    it('should send agent usage tagged with the agent and charge the budget with it', () => {
+        const client = new ApiSessionClient('fake-token', mockSession);
+        client.budget.setBudget({ unit: 'usd', limit: 100 });
+
+        client.sendUsageReport(agentUsageReport('codex', { input: 1_000_000, output: 100_000, cacheRead: 0 }, 'gpt-5-codex'));
+        client.sendUsageReport(agentUsageReport('my-agent', { input: 10, output: 20, cacheRead: 0 }));
+
+        const reports = mockSocket.emit.mock.calls.filter(([event]: [string]) => event === 'usage-report').map(([, report]: [string, any]) => report);
+        expect(reports[0]).toMatchObject({ model: 'gpt-5-codex', agent: 'codex', tokens: { total: 1_100_000 }, cost: { total: 2.25 } });
+        expect(reports[0].key).toMatch(/^codex-response:/);
+        // Models without a known rate are counted in tokens only
+        expect(reports[1]).toMatchObject({ agent: 'my-agent', tokens: { total: 30 }, cost: { total: 0 } });
+        expect(client.budget.state()?.spent).toBe(2.25);
+    });
+
     it('should flush queued summary metadata after socket reconnects', async () => {
         mockSocket.connected = false;
         mockSocket.emitWithAck.mockImplementation(
@@ -149,7 +221,96 @@ describe('ApiSessionClient connection handling', () => {
         );
     });
 
+    it('should queue messages while disconnected and deliver them in order after connect', async () => {
+        mockSocket.connected = false;
+        mockSocket.emitWithAck.mockResolvedValue({ ok: true });
+
+        const client = new ApiSessionClient('fake-token', mockSession);
+        client.sendCodexMessage({ type: 'message', message: 'first' });
+        client.sendAgentMessage('gemini', { type: 'message', message: 'second' });
+        expect(mockSocket.emit).not.toHaveBeenCalled();
+
+        const connectHandler = mockSocket.on.mock.calls.find(
+            ([event]: [string, Function]) => event === 'connect'
+        )?.[1];
+        mockSocket.connected = true;
+        connectHandler();
+
+        const delivered = () => mockSocket.emitWithAck.mock.calls.filter(([event]: [string]) => event === 'message');
+        await vi.waitFor(() => expect(delivered()).toHaveLength(2));
+        const [first, second] = delivered().map(([, payload]: [string, any]) => payload);
+        expect(decrypt(mockSession.encryptionKey, 'legacy', decodeBase64(first.message)).content.data.message).toBe('first');
+        expect(decrypt(mockSession.encryptionKey, 'legacy', decodeBase64(second.message)).content.data.message).toBe('second');
+        expect(first.localId).toBeTypeOf('string');
+        expect(first.localId).not.toBe(second.localId);
+
+        // Nothing left queued, new messages go out directly
+        client.sendCodexMessage({ type: 'message', message: 'third' });
+        expect(mockSocket.emit).toHaveBeenCalledWith('message', expect.objectContaining({ sid: 'test-session-id' }));
+    });
+
+    it('should keep messages the server rejects queued and retry them', async () => {
+        vi.useFakeTimers();
+        mockSocket.emitWithAck.mockImplementation(async (event: string) => event === 'message' ? { ok: false } : { result: 'success' });
+
+        const client = new ApiSessionClient('fake-token', mockSession);
+        mockSocket.connected = false;
+        client.sendCodexMessage({ type: 'message', message: 'first' });
+        mockSocket.connected = true;
+        const connectHandler = mockSocket.on.mock.calls.find(
+            ([event]: [string, Function]) => event === 'connect'
+        )?.[1];
+        connectHandler();
+
+        const delivered = () => mockSocket.emitWithAck.mock.calls
+            .filter(([event]: [string]) => event === 'message')
+            .map(([, payload]: [string, any]) => decrypt(mockSession.encryptionKey, 'legacy', decodeBase64(payload.message)).content.data.message);
+        // Rejected by the flush of the queued message and the one of the connect
+        await vi.advanceTimersByTimeAsync(0);
+        expect(delivered()).toEqual(['first', 'first']);
+
+        // Still queued and sent again by the retry
+        mockSocket.emitWithAck.mockResolvedValue({ ok: true });
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(delivered()).toEqual(['first', 'first', 'first']);
+
+        client.sendCodexMessage({ type: 'message', message: 'second' });
+        expect(mockSocket.emit).toHaveBeenCalledWith('message', expect.objectContaining({ sid: 'test-session-id' }));
+        vi.useRealTimers();
+    });
+
+    it('should charge the budget and queue usage behind its message while disconnected', async () => {
+        mockSocket.connected = false;
+        mockSocket.emitWithAck.mockImplementation(async (event: string) => event === 'message' ? { ok: true } : { success: true });
+
+        const client = new ApiSessionClient('fake-token', mockSession);
+        client.budget.setBudget({ unit: 'tokens', limit: 1000 });
+        client.sendClaudeSessionMessage({
+            type: 'assistant',
+            message: {
+                id: 'msg_1',
+                model: 'claude-sonnet-4-5',
+                usage: { input_tokens: 10, output_tokens: 20, cache_creation_input_tokens: 0, cache_read_input_tokens: 70 }
+            }
+        } as any);
+        expect(client.budget.state()?.spent).toBe(100);
+        expect(mockSocket.emit).not.toHaveBeenCalled();
+
+        const connectHandler = mockSocket.on.mock.calls.find(
+            ([event]: [string, Function]) => event === 'connect'
+        )?.[1];
+        mockSocket.connected = true;
+        connectHandler();
+
+        await vi.waitFor(() => expect(mockSocket.emitWithAck).toHaveBeenCalledTimes(2));
+        const [[firstEvent], [secondEvent, report]] = mockSocket.emitWithAck.mock.calls;
+        expect([firstEvent, secondEvent]).toEqual(['message', 'usage-report']);
+        expect(report).toMatchObject({ key: 'claude-response:msg_1', sessionId: 'test-session-id', agent: 'claude', tokens: { total: 100 } });
+    });
+
     afterEach(() => {
+        // Messages queued by the disconnected cases
+        rmSync(configuration.outboxDir, { recursive: true, force: true });
         consoleSpy.mockRestore();
         vi.restoreAllMocks();
     });
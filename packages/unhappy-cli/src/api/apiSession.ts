@@ -1,16 +1,29 @@
 import { logger } from '@/ui/logger'
 import { EventEmitter } from 'node:events'
 import { io, Socket } from 'socket.io-client'
-import { AgentState, ClientToServerEvents, MessageContent, Metadata, ServerToClientEvents, Session, Update, UserMessage, UserMessageSchema, Usage } from './types'
+import { AgentState, ClientToServerEvents, MessageContent, Metadata, ServerToClientEvents, Session, Update, UsageReport, UserMessage, UserMessageSchema, Usage } from './types'
 import { decodeBase64, decrypt, encodeBase64, encrypt } from './encryption';
 import { backoff } from '@/utils/time';
 import { configuration } from '@/configuration';
-import { RawJSONLines } from '@/claude/types';
+import { RawJSONLines, ToolContentBlockSchema } from '@/claude/types';
 import { randomUUID } from 'node:crypto';
 import { AsyncLock } from '@/utils/lock';
 import { RpcHandlerManager } from './rpc/RpcHandlerManager';
+import type { RpcRequest } from './rpc/types';
 import { registerCommonHandlers } from '../modules/common/registerCommonHandlers';
-import { calculateCost } from '@/utils/pricing';
+import { registerGitHandlers } from '../modules/common/registerGitHandlers';
+import { registerTerminalHandlers } from '../modules/terminal/registerTerminalHandlers';
+import type { TerminalFrame } from '../modules/terminal/types';
+import { AgentTokens, calculateAgentCost, calculateCost } from '@/utils/pricing';
+import { ScheduledRunHandoff, takeScheduledRunFromEnv } from '@/daemon/schedules/scheduledRun';
+import { notifyDaemonScheduledRunFinished } from '@/daemon/controlClient';
+import { AuditLog } from '@/modules/audit/auditLog';
+import type { AuditEvent } from '@/modules/audit';
+import { setTurnRunning } from '@/utils/keepAwake';
+import { SessionLink } from '@/daemon/dashboard/sessionLink';
+import { Outbox } from './outbox';
+import { BudgetTracker } from '@/utils/budget';
+import axios from 'axios';
 
 /**
  * ACP (Agent Communication Protocol) message data types.
@@ -37,7 +50,138 @@ export type ACPMessageData =
     // Usage/metrics
     | { type: 'token_count';[key: string]: unknown };
 
-export type ACPProvider = 'gemini' | 'codex' | 'claude' | 'opencode';
+/** Built-in providers, or the name of a custom ACP agent from agents.json */
+export type ACPProvider = 'gemini' | 'codex' | 'claude' | 'opencode' | (string & {});
+
+export type SessionEvent = {
+    type: 'switch', mode: 'local' | 'remote'
+} | {
+    type: 'message', message: string
+} | {
+    type: 'permission-mode-changed', mode: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan'
+} | {
+    type: 'ready'
+};
+
+/**
+ * Transcript content for a Claude session log line. Plain user prompts become
+ * user text messages, everything else is wrapped as agent output.
+ */
+export function claudeMessageContent(body: RawJSONLines): MessageContent {
+    if (body.type === 'user' && typeof body.message.content === 'string' && body.isSidechain !== true && body.isMeta !== true) {
+        return {
+            role: 'user',
+            content: {
+                type: 'text',
+                text: body.message.content
+            },
+            meta: {
+                sentFrom: 'cli'
+            }
+        };
+    }
+    return {
+        role: 'agent',
+        content: {
+            type: 'output',
+            data: body  // This wraps the entire Claude message
+        },
+        meta: {
+            sentFrom: 'cli'
+        }
+    };
+}
+
+export function codexMessageContent(body: any) {
+    return {
+        role: 'agent',
+        content: {
+            type: 'codex',
+            data: body
+        },
+        meta: {
+            sentFrom: 'cli'
+        }
+    };
+}
+
+export function agentMessageContent(provider: ACPProvider, body: ACPMessageData) {
+    return {
+        role: 'agent',
+        content: {
+            type: 'acp',
+            provider,
+            data: body
+        },
+        meta: {
+            sentFrom: 'cli'
+        }
+    };
+}
+
+export function sessionEventContent(event: SessionEvent, id?: string) {
+    return {
+        role: 'agent',
+        content: {
+            id: id ?? randomUUID(),
+            type: 'event',
+            data: event
+        }
+    };
+}
+
+/**
+ * Usage report for a Claude response. Claude repeats a response's usage on each
+ * of its content blocks, so reports are keyed by response: the server keeps
+ * one row per response.
+ */
+export function claudeUsageReport(usage: Usage, model?: string, messageId?: string): UsageReport {
+    const costs = calculateCost(usage, model);
+    return {
+        key: messageId ? `claude-response:${messageId}` : 'claude-session',
+        model,
+        agent: 'claude',
+        tokens: {
+            total: usage.input_tokens + usage.output_tokens + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+            input: usage.input_tokens,
+            output: usage.output_tokens,
+            cache_creation: usage.cache_creation_input_tokens || 0,
+            cache_read: usage.cache_read_input_tokens || 0
+        },
+        cost: {
+            total: costs.total,
+            input: costs.input,
+            output: costs.output,
+            cache_creation: costs.cacheCreation,
+            cache_read: costs.cacheRead
+        }
+    };
+}
+
+/**
+ * Usage report for a response of Codex or an ACP agent. Their token counts
+ * arrive once per response, so every report gets its own key.
+ */
+export function agentUsageReport(agent: string, tokens: AgentTokens, model?: string): UsageReport {
+    const costs = calculateAgentCost(agent, tokens, model);
+    return {
+        key: `${agent}-response:${randomUUID()}`,
+        model,
+        agent,
+        tokens: {
+            total: tokens.input + tokens.output + tokens.cacheRead,
+            input: tokens.input,
+            output: tokens.output,
+            cache_read: tokens.cacheRead
+        },
+        cost: {
+            total: costs.total,
+            input: costs.input,
+            output: costs.output,
+            cache_read: costs.cacheRead
+        }
+    };
+}
 
 export class ApiSessionClient extends EventEmitter {
     private readonly token: string;
@@ -50,14 +194,30 @@ export class ApiSessionClient extends EventEmitter {
     private pendingMessages: UserMessage[] = [];
     private pendingMessageCallback: ((message: UserMessage) => void) | null = null;
     readonly rpcHandlerManager: RpcHandlerManager;
+    readonly audit: AuditLog;
+    readonly budget: BudgetTracker;
+    private budgetUpdate: NodeJS.Timeout | null = null;
+    private lastUsage: { messageId: string, tokens: number, usd: number } | null = null;
+    private closeTerminals: () => Promise<void>;
     private agentStateLock = new AsyncLock();
     private metadataLock = new AsyncLock();
     private encryptionKey: Uint8Array;
     private encryptionVariant: 'legacy' | 'dataKey';
     private pendingSummaryMetadataUpdate: { text: string; updatedAt: number } | null = null;
     private summaryMetadataSyncInFlight = false;
+    private scheduledRun: ScheduledRunHandoff | null;
+    private scheduledRunState: 'pending' | 'delivered' | 'reported' = 'pending';
+    private readonly link: SessionLink;
+    private linkAgentState: AgentState | null;
+    private linkAlive: { thinking: boolean; mode: 'local' | 'remote'; time: number } | null = null;
+    private readonly outbox: Outbox;
+    private outboxLock = new AsyncLock();
+    private outboxRetry: NodeJS.Timeout | null = null;
 
-    constructor(token: string, session: Session) {
+    /**
+     * @param outbox - Messages queued before the session existed, e.g. by the offline stub
+     */
+    constructor(token: string, session: Session, outbox?: Outbox) {
         super()
         this.token = token;
         this.sessionId = session.id;
@@ -67,6 +227,13 @@ export class ApiSessionClient extends EventEmitter {
         this.agentStateVersion = session.agentStateVersion;
         this.encryptionKey = session.encryptionKey;
         this.encryptionVariant = session.encryptionVariant;
+        this.scheduledRun = takeScheduledRunFromEnv();
+        this.audit = new AuditLog((events) => this.uploadAuditEvents(events));
+        this.budget = new BudgetTracker(() => this.scheduleBudgetUpdate());
+        this.budget.restore(session.agentState?.budget);
+        this.linkAgentState = session.agentState;
+        this.outbox = outbox ?? new Outbox({ tag: session.id, sessionId: session.id });
+        this.outbox.bindSession(this.sessionId);
 
         // Initialize RPC handler manager
         this.rpcHandlerManager = new RpcHandlerManager({
@@ -76,6 +243,17 @@ export class ApiSessionClient extends EventEmitter {
             logger: (msg, data) => logger.debug(msg, data)
         });
         registerCommonHandlers(this.rpcHandlerManager, this.metadata.path);
+        registerGitHandlers(this.rpcHandlerManager, this.metadata.path);
+        this.closeTerminals = registerTerminalHandlers(this.rpcHandlerManager, this.metadata.path, (terminalId, frame) => this.sendTerminalFrame(terminalId, frame));
+
+        // Mirror to the daemon's LAN dashboard when it runs, works without the relay
+        this.link = new SessionLink(this.sessionId, {
+            onUserMessage: (message) => this.receiveDashboardMessage(message),
+            invokeRpc: (method, params) => this.rpcHandlerManager.invokeLocal(method, params)
+        });
+        this.link.push({ type: 'metadata', metadata: this.metadata });
+        this.link.push({ type: 'state', agentState: this.agentState });
+        void this.link.start();
 
         //
         // Create socket
@@ -105,13 +283,18 @@ export class ApiSessionClient extends EventEmitter {
             logger.debug('Socket connected successfully');
             this.rpcHandlerManager.onSocketConnect(this.socket);
             void this.flushPendingSummaryMetadataUpdate();
+            void this.flushOutbox();
         })
 
         // Set up global RPC request handler
-        this.socket.on('rpc-request', async (data: { method: string, params: string }, callback: (response: string) => void) => {
+        this.socket.on('rpc-request', async (data: RpcRequest, callback: (response: string) => void) => {
             callback(await this.rpcHandlerManager.handleRequest(data));
         })
 
+        this.socket.on('rpc-cancel', (data: { callId: string }) => {
+            this.rpcHandlerManager.cancelRequest(data.callId);
+        })
+
         this.socket.on('disconnect', (reason) => {
             logger.debug('[API] Socket disconnected:', reason);
             this.rpcHandlerManager.onSocketDisconnect();
@@ -140,6 +323,7 @@ export class ApiSessionClient extends EventEmitter {
                     // Try to parse as user message first
                     const userResult = UserMessageSchema.safeParse(body);
                     if (userResult.success) {
+                        this.mirrorMessage(userResult.data);
                         // Server already filtered to only our session
                         if (this.pendingMessageCallback) {
                             this.pendingMessageCallback(userResult.data);
@@ -154,10 +338,13 @@ export class ApiSessionClient extends EventEmitter {
                     if (data.body.metadata && data.body.metadata.version > this.metadataVersion) {
                         this.metadata = decrypt(this.encryptionKey, this.encryptionVariant, decodeBase64(data.body.metadata.value));
                         this.metadataVersion = data.body.metadata.version;
+                        this.link.push({ type: 'metadata', metadata: this.metadata });
                     }
                     if (data.body.agentState && data.body.agentState.version > this.agentStateVersion) {
                         this.agentState = data.body.agentState.value ? decrypt(this.encryptionKey, this.encryptionVariant, decodeBase64(data.body.agentState.value)) : null;
                         this.agentStateVersion = data.body.agentState.version;
+                        this.linkAgentState = this.agentState;
+                        this.link.push({ type: 'state', agentState: this.agentState });
                     }
                 } else if (data.body.t === 'update-machine') {
                     // Session clients shouldn't receive machine updates - log warning
@@ -188,6 +375,61 @@ export class ApiSessionClient extends EventEmitter {
         while (this.pendingMessages.length > 0) {
             callback(this.pendingMessages.shift()!);
         }
+        this.deliverScheduledPrompt();
+    }
+
+    /**
+     * Prompt typed in the LAN dashboard. Written to the transcript when the relay is
+     * reachable, like scheduled prompts, and handed to the agent directly.
+     */
+    private receiveDashboardMessage(message: UserMessage) {
+        logger.debug('[API] Received user message from the dashboard');
+        if (this.socket.connected) {
+            this.socket.emit('message', {
+                sid: this.sessionId,
+                message: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, message))
+            });
+        }
+        this.mirrorMessage(message);
+        if (this.pendingMessageCallback) {
+            this.pendingMessageCallback(message);
+        } else {
+            this.pendingMessages.push(message);
+        }
+    }
+
+    private mirrorMessage(message: unknown) {
+        this.link.push({ type: 'message', time: Date.now(), message });
+    }
+
+    /**
+     * Sessions spawned by the daemon scheduler start with the scheduled prompt as the
+     * first user message. It is written to the transcript so the app shows it, and
+     * handed to the agent directly since the server does not echo it back to us.
+     */
+    private deliverScheduledPrompt() {
+        if (!this.scheduledRun || this.scheduledRunState !== 'pending' || !this.pendingMessageCallback) {
+            return;
+        }
+        this.scheduledRunState = 'delivered';
+        logger.debug(`[API] Delivering scheduled prompt for run ${this.scheduledRun.runId}`);
+
+        const message: UserMessage = {
+            role: 'user',
+            content: {
+                type: 'text',
+                text: this.scheduledRun.prompt
+            },
+            meta: {
+                sentFrom: 'schedule'
+            }
+        };
+        this.socket.emit('message', {
+            sid: this.sessionId,
+            message: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, message))
+        });
+        this.mirrorMessage(message);
+        this.pendingMessageCallback(message);
     }
 
     /**
@@ -195,38 +437,14 @@ export class ApiSessionClient extends EventEmitter {
      * @param body - Message body (can be MessageContent or raw content for agent messages)
      */
     sendClaudeSessionMessage(body: RawJSONLines) {
-        let content: MessageContent;
+        const content = claudeMessageContent(body);
         const isSummaryMessage =
             body.type === 'summary' && 'summary' in body && 'leafUuid' in body;
         const summaryUpdatedAt = Date.now();
 
-        // Check if body is already a MessageContent (has role property)
-        if (body.type === 'user' && typeof body.message.content === 'string' && body.isSidechain !== true && body.isMeta !== true) {
-            content = {
-                role: 'user',
-                content: {
-                    type: 'text',
-                    text: body.message.content
-                },
-                meta: {
-                    sentFrom: 'cli'
-                }
-            }
-        } else {
-            // Wrap Claude messages in the expected format
-            content = {
-                role: 'agent',
-                content: {
-                    type: 'output',
-                    data: body  // This wraps the entire Claude message
-                },
-                meta: {
-                    sentFrom: 'cli'
-                }
-            };
-        }
-
         logger.debugLargeJson('[SOCKET] Sending message through socket:', content)
+        this.auditClaudeMessage(body);
+        this.mirrorMessage(content);
 
         // Keep local metadata snapshot fresh for push/title generation even when offline.
         // Queue server metadata sync so title updates are not lost before socket connect.
@@ -247,51 +465,48 @@ export class ApiSessionClient extends EventEmitter {
             void this.flushPendingSummaryMetadataUpdate();
         }
 
-        // Check if socket is connected before sending
-        if (!this.socket.connected) {
-            logger.debug('[API] Socket not connected, cannot send Claude session message. Message will be lost:', { type: body.type });
-            return;
-        }
+        this.sendMessage(content);
 
-        const encrypted = encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, content));
-        this.socket.emit('message', {
-            sid: this.sessionId,
-            message: encrypted
-        });
-
-        // Track usage from assistant messages
+        // Track usage from assistant messages, queued with the message while offline
         if (body.type === 'assistant' && body.message?.usage) {
             try {
-                this.sendUsageData(body.message.usage, body.message.model);
+                const messageId = typeof body.message.id === 'string' ? body.message.id : undefined;
+                this.sendUsageData(body.message.usage, body.message.model, messageId);
             } catch (error) {
                 logger.debug('[SOCKET] Failed to send usage data:', error);
             }
         }
     }
 
-    sendCodexMessage(body: any) {
-        let content = {
-            role: 'agent',
-            content: {
-                type: 'codex',
-                data: body  // This wraps the entire Claude message
-            },
-            meta: {
-                sentFrom: 'cli'
+    /**
+     * Record the tool calls and results in a Claude transcript message
+     */
+    private auditClaudeMessage(body: RawJSONLines) {
+        if ((body.type !== 'assistant' && body.type !== 'user') || !Array.isArray(body.message?.content)) {
+            return;
+        }
+        for (const item of body.message.content) {
+            const block = ToolContentBlockSchema.safeParse(item);
+            if (!block.success) {
+                continue;
+            }
+            if (block.data.type === 'tool_use') {
+                this.audit.toolStarted(block.data.id, block.data.name, block.data.input);
+            } else {
+                this.audit.toolFinished(block.data.tool_use_id, block.data.content, block.data.is_error === true);
             }
-        };
-        const encrypted = encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, content));
-
-        // Check if socket is connected before sending
-        if (!this.socket.connected) {
-            logger.debug('[API] Socket not connected, cannot send message. Message will be lost:', { type: body.type });
-            // TODO: Consider implementing message queue or HTTP fallback for reliability
         }
+    }
 
-        this.socket.emit('message', {
-            sid: this.sessionId,
-            message: encrypted
-        });
+    sendCodexMessage(body: any) {
+        if (body.type === 'tool-call') {
+            this.audit.toolStarted(body.callId, body.name, body.input);
+        } else if (body.type === 'tool-call-result') {
+            this.audit.toolFinished(body.callId, body.output, body.is_error === true);
+        }
+        const content = codexMessageContent(body);
+        this.mirrorMessage(content);
+        this.sendMessage(content);
     }
 
     /**
@@ -301,56 +516,37 @@ export class ApiSessionClient extends EventEmitter {
      * @param provider - The agent provider sending the message (e.g., 'gemini', 'codex', 'claude')
      * @param body - The message payload (type: 'message' | 'reasoning' | 'tool-call' | 'tool-result')
      */
-    sendAgentMessage(provider: 'gemini' | 'codex' | 'claude' | 'opencode', body: ACPMessageData) {
-        let content = {
-            role: 'agent',
-            content: {
-                type: 'acp',
-                provider,
-                data: body
-            },
-            meta: {
-                sentFrom: 'cli'
-            }
-        };
+    sendAgentMessage(provider: ACPProvider, body: ACPMessageData) {
+        const content = agentMessageContent(provider, body);
 
         logger.debug(`[SOCKET] Sending ACP message from ${provider}:`, { type: body.type, hasMessage: 'message' in body });
+        if (body.type === 'tool-call') {
+            this.audit.toolStarted(body.callId, body.name, body.input);
+        } else if (body.type === 'tool-result') {
+            this.audit.toolFinished(body.callId, body.output, body.isError === true);
+        }
 
-        const encrypted = encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, content));
-        this.socket.emit('message', {
-            sid: this.sessionId,
-            message: encrypted
-        });
+        this.mirrorMessage(content);
+        this.sendMessage(content);
     }
 
-    sendSessionEvent(event: {
-        type: 'switch', mode: 'local' | 'remote'
-    } | {
-        type: 'message', message: string
-    } | {
-        type: 'permission-mode-changed', mode: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan'
-    } | {
-        type: 'ready'
-    }, id?: string) {
-        let content = {
-            role: 'agent',
-            content: {
-                id: id ?? randomUUID(),
-                type: 'event',
-                data: event
-            }
-        };
-        const encrypted = encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, content));
-        this.socket.emit('message', {
-            sid: this.sessionId,
-            message: encrypted
-        });
+    sendSessionEvent(event: SessionEvent, id?: string) {
+        const content = sessionEventContent(event, id);
+        this.mirrorMessage(content);
+        this.sendMessage(content);
+
+        // The first "ready" after the scheduled prompt means the agent finished the run
+        if (event.type === 'ready' && this.scheduledRun && this.scheduledRunState === 'delivered') {
+            this.scheduledRunState = 'reported';
+            void notifyDaemonScheduledRunFinished(this.scheduledRun.runId);
+        }
     }
 
     /**
      * Send a ping message to keep the connection alive
      */
     keepAlive(thinking: boolean, mode: 'local' | 'remote') {
+        setTurnRunning(thinking);
         if (process.env.DEBUG) { // too verbose for production
             logger.debug(`[API] Sending keep alive message: ${thinking}`);
         }
@@ -360,6 +556,13 @@ export class ApiSessionClient extends EventEmitter {
             thinking,
             mode
         });
+
+        // Called every few seconds, the dashboard only needs changes and an occasional refresh
+        const now = Date.now();
+        if (!this.linkAlive || this.linkAlive.thinking !== thinking || this.linkAlive.mode !== mode || now - this.linkAlive.time > 15000) {
+            this.linkAlive = { thinking, mode, time: now };
+            this.link.push({ type: 'alive', time: now, thinking, mode });
+        }
     }
 
     /**
@@ -367,36 +570,55 @@ export class ApiSessionClient extends EventEmitter {
      */
     sendSessionDeath() {
         this.socket.emit('session-end', { sid: this.sessionId, time: Date.now() });
+        void this.link.close();
     }
 
     /**
-     * Send usage data to the server
+     * Send usage data of a Claude response to the server. The budget counts a
+     * response once, however often its usage is repeated.
      */
-    sendUsageData(usage: Usage, model?: string) {
-        // Calculate total tokens
-        const totalTokens = usage.input_tokens + usage.output_tokens + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
-
-        const costs = calculateCost(usage, model);
-
-        // Transform Claude usage format to backend expected format
-        const usageReport = {
-            key: 'claude-session',
-            sessionId: this.sessionId,
-            tokens: {
-                total: totalTokens,
-                input: usage.input_tokens,
-                output: usage.output_tokens,
-                cache_creation: usage.cache_creation_input_tokens || 0,
-                cache_read: usage.cache_read_input_tokens || 0
-            },
-            cost: {
-                total: costs.total,
-                input: costs.input,
-                output: costs.output
-            }
+    sendUsageData(usage: Usage, model?: string, messageId?: string) {
+        const report = claudeUsageReport(usage, model, messageId);
+        const previous = messageId && this.lastUsage?.messageId === messageId ? this.lastUsage : null;
+        this.budget.record(report.tokens.total - (previous?.tokens ?? 0), report.cost.total - (previous?.usd ?? 0));
+        this.lastUsage = messageId ? { messageId, tokens: report.tokens.total, usd: report.cost.total } : null;
+        this.deliverUsageReport(report);
+    }
+
+    /**
+     * Count a usage report against the budget and send it, for agents that
+     * report each response once
+     */
+    sendUsageReport(report: UsageReport) {
+        this.budget.record(report.tokens.total, report.cost.total);
+        this.deliverUsageReport(report);
+    }
+
+    /**
+     * Emit a usage report, queued in the outbox like a message while the socket
+     * is down or messages are waiting, so usage is never lost with delivery
+     */
+    private deliverUsageReport(report: UsageReport) {
+        logger.debugLargeJson('[SOCKET] Sending usage data:', report);
+        if (this.socket.connected && this.outbox.size === 0) {
+            this.socket.emit('usage-report', { ...report, sessionId: this.sessionId });
+            return;
         }
-        logger.debugLargeJson('[SOCKET] Sending usage data:', usageReport)
-        this.socket.emit('usage-report', usageReport);
+        this.queue(report, 'usage');
+    }
+
+    /**
+     * Publish the budget state, at most every few seconds while a turn streams
+     */
+    private scheduleBudgetUpdate() {
+        if (this.budgetUpdate) {
+            return;
+        }
+        this.budgetUpdate = setTimeout(() => {
+            this.budgetUpdate = null;
+            const budget = this.budget.state();
+            this.updateAgentState((currentState) => ({ ...currentState, budget }));
+        }, 3000);
     }
 
     /**
@@ -411,6 +633,7 @@ export class ApiSessionClient extends EventEmitter {
                 if (answer.result === 'success') {
                     this.metadata = decrypt(this.encryptionKey, this.encryptionVariant, decodeBase64(answer.metadata));
                     this.metadataVersion = answer.version;
+                    this.link.push({ type: 'metadata', metadata: this.metadata });
                 } else if (answer.result === 'version-mismatch') {
                     if (answer.version > this.metadataVersion) {
                         this.metadataVersion = answer.version;
@@ -487,6 +710,14 @@ export class ApiSessionClient extends EventEmitter {
      */
     updateAgentState(handler: (metadata: AgentState) => AgentState) {
         logger.debugLargeJson('Updating agent state', this.agentState);
+        // Mirrored right away: the relay update below waits for the socket, and the
+        // dashboard has to see permission requests while the relay is unreachable
+        const previousRequests = this.linkAgentState?.requests ?? {};
+        this.linkAgentState = handler(this.linkAgentState || {});
+        this.link.push({ type: 'state', agentState: this.linkAgentState });
+        if (Object.keys(this.linkAgentState?.requests ?? {}).some((id) => !(id in previousRequests))) {
+            this.socket.emit('session-permission-requested', { sid: this.sessionId });
+        }
         this.agentStateLock.inLock(async () => {
             await backoff(async () => {
                 let updated = handler(this.agentState || {});
@@ -526,8 +757,129 @@ export class ApiSessionClient extends EventEmitter {
         });
     }
 
+    /**
+     * Emit a transcript message, or queue it in the outbox while the socket is down
+     * or older messages are still queued, so the server receives them in order.
+     */
+    private sendMessage(content: unknown) {
+        if (this.socket.connected && this.outbox.size === 0) {
+            this.socket.emit('message', {
+                sid: this.sessionId,
+                message: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, content))
+            });
+            return;
+        }
+        this.queue(content);
+    }
+
+    private queue(content: unknown, kind?: 'usage') {
+        try {
+            this.outbox.append(content, kind);
+        } catch (error) {
+            logger.debug('[API] Failed to queue message in the outbox, message will be lost:', error);
+            return;
+        }
+        void this.flushOutbox();
+    }
+
+    /**
+     * Deliver queued messages one by one, each is removed once the server acknowledged it.
+     * The localId lets the server skip messages it stored before a lost acknowledgement,
+     * usage reports are upserted by key so resending them is harmless. Messages the server
+     * rejects stay queued and are retried, the outbox replay imports whatever is left once
+     * the process exits.
+     */
+    private flushOutbox(): Promise<void> {
+        return this.outboxLock.inLock(async () => {
+            while (this.socket.connected && this.outbox.size > 0) {
+                const [message] = this.outbox.messages();
+                let stored: boolean;
+                try {
+                    if (message.kind === 'usage') {
+                        const answer = await this.socket.timeout(10000).emitWithAck('usage-report', {
+                            ...(message.content as UsageReport),
+                            sessionId: this.sessionId
+                        });
+                        stored = answer.success;
+                    } else {
+                        const answer = await this.socket.timeout(10000).emitWithAck('message', {
+                            sid: this.sessionId,
+                            message: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, message.content)),
+                            localId: message.localId
+                        });
+                        stored = answer.ok;
+                    }
+                } catch (error) {
+                    logger.debug('[API] Outbox flush interrupted, retrying later:', error);
+                    this.scheduleOutboxRetry();
+                    return;
+                }
+                if (!stored) {
+                    logger.debug(`[API] Server rejected queued message ${message.localId}, retrying later`);
+                    this.scheduleOutboxRetry();
+                    return;
+                }
+                this.outbox.markSent([message.localId]);
+            }
+        });
+    }
+
+    private scheduleOutboxRetry() {
+        if (this.outboxRetry) {
+            return;
+        }
+        this.outboxRetry = setTimeout(() => {
+            this.outboxRetry = null;
+            void this.flushOutbox();
+        }, 5000);
+    }
+
+    /**
+     * Stream a terminal frame to the app. Frames are ephemeral: screen frames
+     * are full snapshots, so anything dropped while offline is redrawn by the
+     * next one.
+     */
+    private sendTerminalFrame(terminalId: string, frame: TerminalFrame) {
+        if (!this.socket.connected) {
+            return;
+        }
+        this.socket.emit('terminal-output', {
+            sid: this.sessionId,
+            terminalId,
+            frame: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, frame))
+        });
+    }
+
+    /**
+     * Upload audit events over HTTP, the server keeps them append-only
+     */
+    private async uploadAuditEvents(events: AuditEvent[]) {
+        await axios.post(`${configuration.serverUrl}/v1/sessions/${this.sessionId}/audit`, {
+            events: events.map((event) => ({
+                localId: event.id,
+                content: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, event)),
+                createdAt: event.time
+            }))
+        }, {
+            headers: { Authorization: `Bearer ${this.token}` },
+            timeout: 30000
+        });
+    }
+
     async close() {
         logger.debug('[API] socket.close() called');
+        if (this.outboxRetry) {
+            clearTimeout(this.outboxRetry);
+            this.outboxRetry = null;
+        }
+        if (this.budgetUpdate) {
+            clearTimeout(this.budgetUpdate);
+            this.budgetUpdate = null;
+        }
+        await this.flushOutbox();
+        await this.audit.flush();
+        await this.closeTerminals();
+        await this.link.close();
         this.socket.close();
     }
 }
@@ -78,6 +78,18 @@ export function libsodiumEncryptForPublicKey(data: Uint8Array, recipientPublicKe
   return result;
 }
 
+/**
+ * Open a bundle produced by libsodiumEncryptForPublicKey with the seed of the recipient keypair
+ */
+export function libsodiumDecryptForSecretKey(bundle: Uint8Array, seed: Uint8Array): Uint8Array | null {
+  const hashedSeed = new Uint8Array(createHash('sha512').update(seed).digest());
+  const secretKey = hashedSeed.slice(0, 32);
+  const ephemeralPublicKey = bundle.slice(0, tweetnacl.box.publicKeyLength);
+  const nonce = bundle.slice(tweetnacl.box.publicKeyLength, tweetnacl.box.publicKeyLength + tweetnacl.box.nonceLength);
+  const encrypted = bundle.slice(tweetnacl.box.publicKeyLength + tweetnacl.box.nonceLength);
+  return tweetnacl.box.open(encrypted, nonce, ephemeralPublicKey, secretKey);
+}
+
 /**
  * Encrypt data using the secret key
  * @param data - The data to encrypt
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+describe('Outbox', () => {
+    let homeDir: string;
+
+    beforeEach(async () => {
+        homeDir = await mkdtemp(join(tmpdir(), 'unhappy-home-'));
+        process.env.UNHAPPY_HOME_DIR = homeDir;
+        vi.resetModules();
+    });
+
+    afterEach(async () => {
+        delete process.env.UNHAPPY_HOME_DIR;
+        await rm(homeDir, { recursive: true, force: true });
+    });
+
+    it('persists queued messages encrypted and reads back what was not sent', async () => {
+        const { Outbox } = await import('./outbox');
+        const metadata = { path: '/work', host: 'laptop' } as any;
+        const outbox = new Outbox({ tag: 'tag-1', metadata, state: null });
+        expect(existsSync(outbox.file)).toBe(false);
+
+        const first = outbox.append({ role: 'agent', content: { type: 'codex', data: { text: 'secret output' } } });
+        const second = outbox.append({ role: 'agent', content: { type: 'codex', data: { n: 2 } } });
+        const third = outbox.append({ role: 'agent', content: { type: 'codex', data: { n: 3 } } });
+        outbox.bindSession('session-1');
+        outbox.markSent([first.localId]);
+
+        expect(readFileSync(outbox.file, 'utf8')).not.toContain('secret output');
+        const snapshot = Outbox.load(outbox.file);
+        expect(snapshot).toMatchObject({ pid: process.pid, tag: 'tag-1', sessionId: 'session-1', metadata });
+        expect(snapshot?.messages.map((m) => m.localId)).toEqual([second.localId, third.localId]);
+        expect(snapshot?.messages[0].content).toEqual(second.content);
+        expect(outbox.messages()).toEqual(snapshot?.messages);
+    });
+
+    it('removes the file once everything is delivered and starts over on the next message', async () => {
+        const { Outbox } = await import('./outbox');
+        const outbox = new Outbox({ tag: 'tag-2', sessionId: 'session-2' });
+
+        const message = outbox.append({ n: 1 });
+        outbox.markSent([message.localId]);
+        expect(existsSync(outbox.file)).toBe(false);
+        expect(Outbox.list()).toEqual([]);
+
+        outbox.append({ n: 2 });
+        expect(Outbox.list()).toEqual([outbox.file]);
+        expect(Outbox.load(outbox.file)).toMatchObject({ sessionId: 'session-2', messages: [{ content: { n: 2 } }] });
+    });
+
+    it('keeps usage reports apart from transcript messages', async () => {
+        const { Outbox } = await import('./outbox');
+        const outbox = new Outbox({ tag: 'tag-4' });
+        outbox.append({ n: 1 });
+        outbox.append({ key: 'claude-response:msg_1' }, 'usage');
+
+        expect(Outbox.load(outbox.file)?.messages.map((m) => m.kind)).toEqual([undefined, 'usage']);
+    });
+
+    it('skips a record cut short by a crash', async () => {
+        const { Outbox } = await import('./outbox');
+        const outbox = new Outbox({ tag: 'tag-3' });
+        outbox.append({ n: 1 });
+        appendFileSync(outbox.file, 'dGhpcyBpcyBub3Qg');
+
+        expect(Outbox.load(outbox.file)?.messages.map((m) => m.content)).toEqual([{ n: 1 }]);
+    });
+});
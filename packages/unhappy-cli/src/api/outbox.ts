@@ -0,0 +1,231 @@
+/**
+ * Durable queue for session messages the relay has not confirmed yet
+ *
+ * Each outbox is an append-only file under ~/.unhappy/outbox. Every line is a
+ * record encrypted with a local key (outbox.key): a header with what is needed
+ * to create the session later, the queued messages, and markers for messages
+ * the server acknowledged. Writes are synchronous, so whatever was handed to the
+ * outbox survives a crash, and the file is removed once everything is delivered.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+import { decodeBase64, decrypt, encodeBase64, encrypt, getRandomBytes } from './encryption';
+import type { AgentState, Metadata } from './types';
+
+export type OutboxMessage = {
+    localId: string;
+    createdAt: number;
+    /** Set for usage reports, which are sent as `usage-report` instead of a transcript message */
+    kind?: 'usage';
+    content: unknown;
+};
+
+/**
+ * Outbox left behind by a CLI process, read back for replay
+ */
+export type OutboxSnapshot = {
+    file: string;
+    pid: number;
+    tag: string;
+    sessionId: string | null;
+    metadata: Metadata | null;
+    state: AgentState | null;
+    messages: OutboxMessage[];
+};
+
+type OutboxRecord =
+    | { type: 'header'; pid: number; tag: string; sessionId: string | null; metadata: Metadata | null; state: AgentState | null }
+    | { type: 'session'; sessionId: string }
+    | ({ type: 'message' } & OutboxMessage)
+    | { type: 'sent'; localIds: string[] };
+
+let outboxKey: Uint8Array | null = null;
+
+/**
+ * Local secretbox key, created on first use. Sync because appends are.
+ */
+function loadOutboxKey(): Uint8Array {
+    if (outboxKey) {
+        return outboxKey;
+    }
+    if (!existsSync(configuration.outboxKeyFile)) {
+        try {
+            writeFileSync(configuration.outboxKeyFile, encodeBase64(getRandomBytes(32)), { mode: 0o600, flag: 'wx' });
+        } catch (error) {
+            // Another process created it first
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                throw error;
+            }
+        }
+    }
+    const key = decodeBase64(readFileSync(configuration.outboxKeyFile, 'utf8').trim());
+    if (key.length !== 32) {
+        throw new Error(`Invalid outbox key in ${configuration.outboxKeyFile}`);
+    }
+    outboxKey = key;
+    return key;
+}
+
+function encodeRecord(record: OutboxRecord): string {
+    return encodeBase64(encrypt(loadOutboxKey(), 'legacy', record)) + '\n';
+}
+
+export class Outbox {
+    readonly tag: string;
+    readonly file: string;
+    private sessionId: string | null;
+    private readonly metadata: Metadata | null;
+    private readonly state: AgentState | null;
+    private pending: OutboxMessage[] = [];
+    private created = false;
+
+    constructor(opts: { tag: string; sessionId?: string | null; metadata?: Metadata | null; state?: AgentState | null }) {
+        this.tag = opts.tag;
+        this.sessionId = opts.sessionId ?? null;
+        this.metadata = opts.metadata ?? null;
+        this.state = opts.state ?? null;
+        this.file = join(configuration.outboxDir, `${randomUUID()}.jsonl`);
+    }
+
+    /** Messages waiting for the server, oldest first */
+    get size(): number {
+        return this.pending.length;
+    }
+
+    messages(): OutboxMessage[] {
+        return [...this.pending];
+    }
+
+    /**
+     * Queue a message, the file is created with the first one
+     */
+    append(content: unknown, kind?: 'usage'): OutboxMessage {
+        const message: OutboxMessage = { localId: randomUUID(), createdAt: Date.now(), ...(kind ? { kind } : {}), content };
+        this.write({ type: 'message', ...message });
+        this.pending.push(message);
+        return message;
+    }
+
+    /**
+     * Record the session the messages belong to once the server created it
+     */
+    bindSession(sessionId: string): void {
+        if (this.sessionId === sessionId) {
+            return;
+        }
+        this.sessionId = sessionId;
+        if (this.created) {
+            this.write({ type: 'session', sessionId });
+        }
+    }
+
+    /**
+     * Drop acknowledged messages, removes the file when nothing is left
+     */
+    markSent(localIds: string[]): void {
+        const sent = new Set(localIds);
+        this.pending = this.pending.filter((message) => !sent.has(message.localId));
+        if (!this.created) {
+            return;
+        }
+        if (this.pending.length === 0) {
+            this.created = false;
+            try {
+                unlinkSync(this.file);
+            } catch (error) {
+                logger.debug('[OUTBOX] Failed to remove outbox file:', error);
+            }
+            return;
+        }
+        this.write({ type: 'sent', localIds });
+    }
+
+    private write(record: OutboxRecord): void {
+        if (!this.created) {
+            if (!existsSync(configuration.outboxDir)) {
+                mkdirSync(configuration.outboxDir, { recursive: true, mode: 0o700 });
+            }
+            writeFileSync(this.file, encodeRecord({
+                type: 'header',
+                pid: process.pid,
+                tag: this.tag,
+                sessionId: this.sessionId,
+                metadata: this.metadata,
+                state: this.state
+            }), { mode: 0o600 });
+            this.created = true;
+        }
+        appendFileSync(this.file, encodeRecord(record));
+    }
+
+    /**
+     * Outbox files on disk, including the ones of running processes
+     */
+    static list(): string[] {
+        if (!existsSync(configuration.outboxDir)) {
+            return [];
+        }
+        return readdirSync(configuration.outboxDir)
+            .filter((name) => name.endsWith('.jsonl'))
+            .map((name) => join(configuration.outboxDir, name));
+    }
+
+    /**
+     * Read an outbox file back. Lines that don't decrypt, like a write cut
+     * short by a crash, are skipped. Returns null without a readable header.
+     */
+    static load(file: string): OutboxSnapshot | null {
+        let lines: string[];
+        try {
+            lines = readFileSync(file, 'utf8').split('\n').filter((line) => line.length > 0);
+        } catch {
+            return null;
+        }
+        let snapshot: OutboxSnapshot | null = null;
+        const messages = new Map<string, OutboxMessage>();
+        for (const line of lines) {
+            let record: OutboxRecord | null;
+            try {
+                record = decrypt(loadOutboxKey(), 'legacy', decodeBase64(line));
+            } catch {
+                record = null;
+            }
+            if (!record) {
+                continue;
+            }
+            if (record.type === 'header') {
+                snapshot = {
+                    file,
+                    pid: record.pid,
+                    tag: record.tag,
+                    sessionId: record.sessionId,
+                    metadata: record.metadata,
+                    state: record.state,
+                    messages: []
+                };
+            } else if (record.type === 'session' && snapshot) {
+                snapshot.sessionId = record.sessionId;
+            } else if (record.type === 'message') {
+                messages.set(record.localId, {
+                    localId: record.localId,
+                    createdAt: record.createdAt,
+                    ...(record.kind ? { kind: record.kind } : {}),
+                    content: record.content
+                });
+            } else if (record.type === 'sent') {
+                for (const localId of record.localIds) {
+                    messages.delete(localId);
+                }
+            }
+        }
+        if (!snapshot) {
+            return null;
+        }
+        snapshot.messages = [...messages.values()];
+        return snapshot;
+    }
+}
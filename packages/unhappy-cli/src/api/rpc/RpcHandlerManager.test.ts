@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { Socket } from 'socket.io-client';
+import { decodeBase64, decrypt, encodeBase64, encrypt, getRandomBytes } from '@/api/encryption';
+import { RpcHandlerManager } from './RpcHandlerManager';
+
+function setup() {
+    const key = getRandomBytes(32);
+    const manager = new RpcHandlerManager({ scopePrefix: 's1', encryptionKey: key, encryptionVariant: 'dataKey', logger: () => {} });
+    const emitted: { event: string; data: any }[] = [];
+    manager.onSocketConnect({ emit: (event: string, data: any) => emitted.push({ event, data }) } as unknown as Socket);
+    const seal = (value: unknown) => encodeBase64(encrypt(key, 'dataKey', value));
+    const open = (value: string) => decrypt(key, 'dataKey', decodeBase64(value));
+    return { manager, emitted, seal, open };
+}
+
+describe('RpcHandlerManager', () => {
+    it('streams progress for calls with a callId', async () => {
+        const { manager, emitted, seal, open } = setup();
+        manager.registerHandler('search', async (_params, { progress }) => {
+            progress({ lines: ['a.ts'] });
+            return { done: true };
+        });
+
+        const response = await manager.handleRequest({ method: 's1:search', params: seal({}), callId: 'c1' });
+        expect(open(response)).toEqual({ done: true });
+
+        const progress = emitted.filter((e) => e.event === 'rpc-progress');
+        expect(progress).toHaveLength(1);
+        expect(progress[0].data.callId).toBe('c1');
+        expect(open(progress[0].data.data)).toEqual({ lines: ['a.ts'] });
+
+        // Without a callId nobody is listening
+        await manager.handleRequest({ method: 's1:search', params: seal({}) });
+        expect(emitted.filter((e) => e.event === 'rpc-progress')).toHaveLength(1);
+    });
+
+    it('aborts the handler on cancel and after the deadline', async () => {
+        const { manager, seal, open } = setup();
+        manager.registerHandler('wait', (_params, { signal }) => new Promise((resolve) => {
+            signal.addEventListener('abort', () => resolve({ error: String(signal.reason?.message ?? signal.reason) }));
+        }));
+
+        const cancelled = manager.handleRequest({ method: 's1:wait', params: seal({}), callId: 'c1' });
+        manager.cancelRequest('c1');
+        expect(open(await cancelled)).toEqual({ error: 'RPC call cancelled' });
+
+        const timedOut = await manager.handleRequest({ method: 's1:wait', params: seal({}), callId: 'c2', timeoutMs: 20 });
+        expect(open(timedOut).error).toContain('timeout');
+    });
+});
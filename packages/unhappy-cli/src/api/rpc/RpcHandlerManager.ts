@@ -6,6 +6,7 @@
 import { logger as defaultLogger } from '@/ui/logger';
 import { decodeBase64, encodeBase64, encrypt, decrypt } from '@/api/encryption';
 import {
+    RpcCallContext,
     RpcHandler,
     RpcHandlerMap,
     RpcRequest,
@@ -19,13 +20,17 @@ export class RpcHandlerManager {
     private readonly encryptionKey: Uint8Array;
     private readonly encryptionVariant: 'legacy' | 'dataKey';
     private readonly logger: (message: string, data?: any) => void;
+    private readonly onRequestHandled?: (method: string, durationMs: number, ok: boolean) => void;
     private socket: Socket | null = null;
+    // Running calls that carry a callId, so the caller can cancel them
+    private inFlight = new Map<string, AbortController>();
 
     constructor(config: RpcHandlerConfig) {
         this.scopePrefix = config.scopePrefix;
         this.encryptionKey = config.encryptionKey;
         this.encryptionVariant = config.encryptionVariant;
         this.logger = config.logger || ((msg, data) => defaultLogger.debug(msg, data));
+        this.onRequestHandled = config.onRequestHandled;
     }
 
     /**
@@ -55,6 +60,12 @@ export class RpcHandlerManager {
   async handleRequest(
         request: RpcRequest,
     ): Promise<any> {
+        const startedAt = Date.now();
+        let ok = false;
+        const controller = new AbortController();
+        if (request.callId) {
+            this.inFlight.set(request.callId, controller);
+        }
         try {
             const handler = this.handlers.get(request.method);
 
@@ -84,12 +95,13 @@ export class RpcHandlerManager {
 
             // Call the handler
             this.logger('[RPC] Calling handler', { method: request.method });
-            const result = await handler(decryptedParams);
+            const result = await handler(decryptedParams, this.callContext(request, controller.signal));
             this.logger('[RPC] Handler returned', { method: request.method, hasResult: result !== undefined });
 
             // Encrypt and return the response
             const encryptedResponse = encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, result));
             this.logger('[RPC] Sending encrypted response', { method: request.method, responseLength: encryptedResponse.length });
+            ok = true;
             return encryptedResponse;
         } catch (error) {
             this.logger('[RPC] [ERROR] Error handling request', { error });
@@ -97,7 +109,57 @@ export class RpcHandlerManager {
                 error: error instanceof Error ? error.message : 'Unknown error'
             };
             return encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, errorResponse));
+        } finally {
+            if (request.callId) {
+                this.inFlight.delete(request.callId);
+            }
+            this.onRequestHandled?.(request.method, Date.now() - startedAt, ok);
+        }
+    }
+
+    /**
+     * Abort a running call, the handler still answers (usually with an error)
+     * @param callId - The id the caller sent with the request
+     */
+    cancelRequest(callId: string): void {
+        const controller = this.inFlight.get(callId);
+        if (controller) {
+            this.logger('[RPC] Cancelling call', { callId });
+            controller.abort(new Error('RPC call cancelled'));
+        }
+    }
+
+    private callContext(request: RpcRequest, signal: AbortSignal): RpcCallContext {
+        if (request.timeoutMs && request.timeoutMs > 0) {
+            signal = AbortSignal.any([signal, AbortSignal.timeout(request.timeoutMs)]);
         }
+        const callId = request.callId;
+        return {
+            signal,
+            progress: (data) => {
+                if (!callId || !this.socket || signal.aborted) {
+                    return;
+                }
+                this.socket.emit('rpc-progress', {
+                    callId,
+                    data: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, data)),
+                });
+            },
+        };
+    }
+
+    /**
+     * Call a handler with plain params, for local callers that don't go through the relay
+     * @param method - The method name (without prefix)
+     * @param params - The handler params
+     */
+    async invokeLocal(method: string, params: unknown): Promise<any> {
+        const handler = this.handlers.get(this.getPrefixedMethod(method));
+        if (!handler) {
+            throw new Error('Method not found');
+        }
+        this.logger('[RPC] Calling handler locally', { method });
+        return await handler(params, { signal: new AbortController().signal, progress: () => {} });
     }
 
     onSocketConnect(socket: Socket): void {
@@ -109,6 +171,11 @@ export class RpcHandlerManager {
 
     onSocketDisconnect(): void {
         this.socket = null;
+        // Answers can't reach the caller anymore
+        for (const controller of this.inFlight.values()) {
+            controller.abort(new Error('Connection lost'));
+        }
+        this.inFlight.clear();
     }
 
     /**
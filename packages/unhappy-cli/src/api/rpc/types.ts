@@ -2,13 +2,24 @@
  * Common RPC types and interfaces for both session and machine clients
  */
 
+/**
+ * Per-call context passed to every handler
+ */
+export interface RpcCallContext {
+    /** Aborted when the caller cancels, its deadline passes or the relay connection drops */
+    signal: AbortSignal;
+    /** Send a partial result to the caller, dropped when the caller didn't ask for progress */
+    progress: (data: unknown) => void;
+}
+
 /**
  * Generic RPC handler function type
  * @template TRequest - The request data type
  * @template TResponse - The response data type
  */
 export type RpcHandler<TRequest = any, TResponse = any> = (
-    data: TRequest
+    data: TRequest,
+    context: RpcCallContext
 ) => TResponse | Promise<TResponse>;
 
 /**
@@ -22,6 +33,16 @@ export type RpcHandlerMap = Map<string, RpcHandler>;
 export interface RpcRequest {
     method: string;
     params: string; // Base64 encoded encrypted params
+    callId?: string; // Set by callers that can cancel or want progress
+    timeoutMs?: number; // Caller deadline, the handler is aborted after it
+}
+
+/**
+ * Partial result sent with `rpc-progress` while a call runs
+ */
+export interface RpcProgress {
+    callId: string;
+    data: string; // Base64 encoded encrypted progress payload
 }
 
 /**
@@ -37,6 +58,8 @@ export interface RpcHandlerConfig {
     encryptionKey: Uint8Array;
     encryptionVariant: 'legacy' | 'dataKey';
     logger?: (message: string, data?: any) => void;
+    /** Called after every request from the relay, for health reporting */
+    onRequestHandled?: (method: string, durationMs: number, ok: boolean) => void;
 }
 
 /**
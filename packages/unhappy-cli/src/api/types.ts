@@ -1,5 +1,8 @@
 import { z } from 'zod'
 import { UsageSchema } from '@/claude/types'
+import type { PermissionRule, PermissionRuleMatch } from '@/utils/permissionRules'
+import type { BudgetState } from '@/utils/budget'
+import type { RpcProgress, RpcRequest } from './rpc/types'
 
 /**
  * Permission mode type - includes both Claude and Codex modes
@@ -99,7 +102,8 @@ export type Update = z.infer<typeof UpdateSchema>
  */
 export interface ServerToClientEvents {
   update: (data: Update) => void
-  'rpc-request': (data: { method: string, params: string }, callback: (response: string) => void) => void
+  'rpc-request': (data: RpcRequest, callback: (response: string) => void) => void
+  'rpc-cancel': (data: { callId: string }) => void
   'rpc-registered': (data: { method: string }) => void
   'rpc-unregistered': (data: { method: string }) => void
   'rpc-error': (data: { type: string, error: string }) => void
@@ -113,7 +117,8 @@ export interface ServerToClientEvents {
  * Socket events from client to server
  */
 export interface ClientToServerEvents {
-  message: (data: { sid: string, message: any }) => void
+  // Acknowledged once the message is stored, or was already stored under the same localId
+  message: (data: { sid: string, message: any, localId?: string }, callback?: (answer: { ok: boolean }) => void) => void
   'session-alive': (data: {
     sid: string;
     time: number;
@@ -121,6 +126,8 @@ export interface ClientToServerEvents {
     mode?: 'local' | 'remote';
   }) => void
   'session-end': (data: { sid: string, time: number }) => void,
+  // Content-free signal for server webhooks, agent state itself is encrypted
+  'session-permission-requested': (data: { sid: string }) => void,
   'update-metadata': (data: { sid: string, expectedVersion: number, metadata: string }, cb: (answer: {
     result: 'error'
   } | {
@@ -144,25 +151,38 @@ export interface ClientToServerEvents {
     agentState: string | null
   }) => void) => void,
   'ping': (callback: () => void) => void
+  'terminal-output': (data: { sid: string, terminalId: string, frame: string }) => void
   'rpc-register': (data: { method: string }) => void
   'rpc-unregister': (data: { method: string }) => void
+  'rpc-progress': (data: RpcProgress) => void
   'rpc-call': (data: { method: string, params: string }, callback: (response: {
     ok: boolean
     result?: string
     error?: string
   }) => void) => void
-  'usage-report': (data: {
-    key: string
-    sessionId: string
-    tokens: {
-      total: number
-      [key: string]: number
-    }
-    cost: {
-      total: number
-      [key: string]: number
-    }
-  }) => void
+  'usage-report': (data: UsageReport & { sessionId: string }, callback?: (response: {
+    success: boolean
+    error?: string
+  }) => void) => void
+}
+
+/**
+ * Token usage and cost of one model response, upserted by the server under
+ * its key. The session id is added when the report is sent.
+ */
+export type UsageReport = {
+  key: string
+  sessionId?: string
+  model?: string
+  agent?: string
+  tokens: {
+    total: number
+    [key: string]: number
+  }
+  cost: {
+    total: number
+    [key: string]: number
+  }
 }
 
 /**
@@ -249,7 +269,9 @@ export const MessageMetaSchema = z.object({
   customSystemPrompt: z.string().nullable().optional(), // Custom system prompt for this message (null = reset)
   appendSystemPrompt: z.string().nullable().optional(), // Append to system prompt for this message (null = reset)
   allowedTools: z.array(z.string()).nullable().optional(), // Allowed tools for this message (null = reset)
-  disallowedTools: z.array(z.string()).nullable().optional() // Disallowed tools for this message (null = reset)
+  disallowedTools: z.array(z.string()).nullable().optional(), // Disallowed tools for this message (null = reset)
+  permissionRules: z.array(z.unknown()).nullable().optional(), // Account permission rules, validated by PermissionRules (null = reset)
+  budget: z.unknown().nullable().optional() // Session budget, validated by BudgetTracker (null = none)
 })
 
 export type MessageMeta = z.infer<typeof MessageMetaSchema>
@@ -273,6 +295,63 @@ export const CreateSessionResponseSchema = z.object({
 
 export type CreateSessionResponse = z.infer<typeof CreateSessionResponseSchema>
 
+/**
+ * Session as listed by GET /v2/sessions, still encrypted
+ */
+export const StoredSessionSchema = z.object({
+  id: z.string(),
+  seq: z.number(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  metadata: z.string(),
+  metadataVersion: z.number(),
+  agentState: z.string().nullable(),
+  agentStateVersion: z.number(),
+  dataEncryptionKey: z.string().nullable()
+})
+
+export type StoredSession = z.infer<typeof StoredSessionSchema>
+
+/**
+ * Page of GET /v2/sessions/:id/messages, ascending by seq
+ */
+export const SessionMessagesPageSchema = z.object({
+  messages: z.array(SessionMessageSchema.extend({ localId: z.string().nullable() })),
+  hasMore: z.boolean()
+})
+
+export type SessionMessagesPage = z.infer<typeof SessionMessagesPageSchema>
+
+/**
+ * Page of GET /v1/sessions/:id/audit, ascending by seq
+ */
+export const SessionAuditPageSchema = z.object({
+  events: z.array(z.object({
+    id: z.string(),
+    seq: z.number(),
+    localId: z.string(),
+    content: z.string(),
+    createdAt: z.number()
+  })),
+  hasMore: z.boolean()
+})
+
+export type SessionAuditPage = z.infer<typeof SessionAuditPageSchema>
+
+/**
+ * Artifact from GET /v1/artifacts, body only on single artifact fetches
+ */
+export const StoredArtifactSchema = z.object({
+  id: z.string(),
+  header: z.string(),
+  body: z.string().nullish(),
+  dataEncryptionKey: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number()
+})
+
+export type StoredArtifact = z.infer<typeof StoredArtifactSchema>
+
 export const UserMessageSchema = z.object({
   role: z.literal('user'),
   content: z.object({
@@ -340,7 +419,8 @@ export type AgentState = {
     [id: string]: {
       tool: string,
       arguments: any,
-      createdAt: number
+      createdAt: number,
+      matchedRule?: PermissionRuleMatch
     }
   }
   completedRequests?: {
@@ -353,7 +433,11 @@ export type AgentState = {
       reason?: string,
       mode?: PermissionMode,
       decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort',
-      allowTools?: string[]
+      allowTools?: string[],
+      matchedRule?: PermissionRuleMatch
     }
   }
+  budget?: BudgetState | null
+  // "Approve for this session" decisions, restored when the session is picked up again
+  sessionRules?: PermissionRule[] | null
 }
@@ -16,6 +16,7 @@ import { RawJSONLines } from "@/claude/types";
 import { OutgoingMessageQueue } from "./utils/OutgoingMessageQueue";
 import { getToolName } from "./utils/getToolName";
 import { buildReadyPushNotification } from "@/utils/readyPushNotification";
+import { BUDGET_DECLINED_MESSAGE } from "@/utils/budget";
 
 interface PermissionsField {
     date: number;
@@ -341,33 +342,41 @@ export async function claudeRemoteLauncher(session: Session): Promise<'switch' |
                         return permissionHandler.isAborted(toolCallId);
                     },
                     nextMessage: async () => {
-                        if (pending) {
-                            let p = pending;
-                            pending = null;
-                            permissionHandler.handleModeChange(p.mode.permissionMode);
-                            return p;
-                        }
-
-                        let msg = await session.queue.waitForMessagesAndGetAsString(controller.signal);
+                        while (true) {
+                            let next: { message: string, mode: EnhancedMode };
+                            if (pending) {
+                                next = pending;
+                                pending = null;
+                                permissionHandler.handleModeChange(next.mode.permissionMode);
+                            } else {
+                                let msg = await session.queue.waitForMessagesAndGetAsString(controller.signal);
+
+                                // Exit
+                                if (!msg) {
+                                    return null;
+                                }
 
-                        // Check if mode has changed
-                        if (msg) {
-                            if ((modeHash && msg.hash !== modeHash) || msg.isolate) {
-                                logger.debug('[remote]: mode has changed, pending message');
-                                pending = msg;
-                                return null;
+                                // Check if mode has changed
+                                if ((modeHash && msg.hash !== modeHash) || msg.isolate) {
+                                    logger.debug('[remote]: mode has changed, pending message');
+                                    pending = msg;
+                                    return null;
+                                }
+                                modeHash = msg.hash;
+                                mode = msg.mode;
+                                permissionHandler.handleModeChange(mode.permissionMode);
+                                next = {
+                                    message: msg.message,
+                                    mode: msg.mode
+                                };
                             }
-                            modeHash = msg.hash;
-                            mode = msg.mode;
-                            permissionHandler.handleModeChange(mode.permissionMode);
-                            return {
-                                message: msg.message,
-                                mode: msg.mode
+
+                            // Past the budget the turn only starts once the user allows more spend
+                            if (await permissionHandler.checkBudget(controller.signal)) {
+                                return next;
                             }
+                            session.client.sendSessionEvent({ type: 'message', message: BUDGET_DECLINED_MESSAGE });
                         }
-
-                        // Exit
-                        return null;
                     },
                     onSessionFound: (sessionId) => {
                         // Update converter's session ID when new session is found
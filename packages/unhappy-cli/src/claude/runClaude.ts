@@ -22,7 +22,7 @@ import { Credentials, readSettings } from '@/persistence';
 import { getEnvironmentInfo } from '@/ui/doctor';
 import { logger } from '@/ui/logger';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
-import { startCaffeinate, stopCaffeinate } from '@/utils/caffeinate';
+import { startKeepAwake, stopKeepAwake } from '@/utils/keepAwake';
 import { hashObject } from '@/utils/deterministicJson';
 import {
   connectionState,
@@ -34,6 +34,7 @@ import { projectPath } from '../projectPath';
 import { EnhancedMode, PermissionMode } from './loop';
 import { registerKillSessionHandler } from './registerKillSessionHandler';
 import { Session } from './session';
+import { PermissionRules } from '@/utils/permissionRules';
 
 /** JavaScript runtime to use for spawning Claude Code */
 export type JsRuntime = 'node' | 'bun';
@@ -171,7 +172,7 @@ export async function runClaude(
       });
     } finally {
       reconnection.cancel();
-      stopCaffeinate();
+      stopKeepAwake();
     }
     process.exit(0);
   }
@@ -261,11 +262,9 @@ export async function runClaude(
     controlledByUser: options.startingMode !== 'remote',
   }));
 
-  // Start caffeinate to prevent sleep on macOS
-  const caffeinateStarted = startCaffeinate();
-  if (caffeinateStarted) {
-    logger.infoDeveloper('Sleep prevention enabled (macOS)');
-  }
+  // Prevent sleep according to the keep-awake policy
+  const keepAwakePolicy = await startKeepAwake();
+  logger.debug(`Sleep prevention policy: ${keepAwakePolicy}`);
 
   // Import MessageQueue2 and create message queue
   const messageQueue = new MessageQueue2<EnhancedMode>((mode) =>
@@ -292,6 +291,8 @@ export async function runClaude(
   let currentAppendSystemPrompt: string | undefined = undefined; // Track current append system prompt
   let currentAllowedTools: string[] | undefined = undefined; // Track current allowed tools
   let currentDisallowedTools: string[] | undefined = undefined; // Track current disallowed tools
+  const permissionRules = new PermissionRules(workingDirectory);
+  permissionRules.setSessionRules(response?.agentState?.sessionRules);
   session.onUserMessage((message) => {
     // Resolve permission mode from meta - pass through as-is, mapping happens at SDK boundary
     let messagePermissionMode: PermissionMode | undefined =
@@ -411,6 +412,16 @@ export async function runClaude(
       );
     }
 
+    // Account permission rules apply to every later tool call, not just this message
+    if (message.meta?.hasOwnProperty('permissionRules')) {
+      permissionRules.setAccountRules(message.meta.permissionRules ?? []);
+    }
+
+    // The budget covers the whole session, a message without one leaves it as is
+    if (message.meta?.hasOwnProperty('budget')) {
+      session.budget.setBudget(message.meta.budget ?? null);
+    }
+
     // Check for special commands before processing
     const specialCommand = parseSpecialCommand(message.content.text);
 
@@ -499,8 +510,8 @@ export async function runClaude(
         await session.close();
       }
 
-      // Stop caffeinate
-      stopCaffeinate();
+      // Stop sleep prevention
+      stopKeepAwake();
 
       // Stop Unhappy MCP server
       happyServer.stop();
@@ -579,6 +590,7 @@ export async function runClaude(
     claudeArgs: options.claudeArgs,
     hookSettingsPath,
     jsRuntime: options.jsRuntime,
+    permissionRules,
   });
 
   // Cleanup session resources (intervals, callbacks) - prevents memory leak
@@ -596,8 +608,8 @@ export async function runClaude(
   logger.debug('Closing session...');
   await session.close();
 
-  // Stop caffeinate before exiting
-  stopCaffeinate();
+  // Stop sleep prevention before exiting
+  stopKeepAwake();
   logger.debug('Stopped sleep prevention');
 
   // Stop Unhappy MCP server
@@ -3,6 +3,7 @@ import { MessageQueue2 } from "@/utils/MessageQueue2";
 import { EnhancedMode } from "./loop";
 import { logger } from "@/ui/logger";
 import type { JsRuntime } from "./runClaude";
+import { PermissionRules } from "@/utils/permissionRules";
 
 export class Session {
     readonly path: string;
@@ -19,6 +20,7 @@ export class Session {
     readonly hookSettingsPath: string;
     /** JavaScript runtime to use for spawning Claude Code (default: 'node') */
     readonly jsRuntime: JsRuntime;
+    readonly permissionRules: PermissionRules;
 
     sessionId: string | null;
     mode: 'local' | 'remote' = 'local';
@@ -46,6 +48,7 @@ export class Session {
         hookSettingsPath: string,
         /** JavaScript runtime to use for spawning Claude Code (default: 'node') */
         jsRuntime?: JsRuntime,
+        permissionRules: PermissionRules,
     }) {
         this.path = opts.path;
         this.api = opts.api;
@@ -60,6 +63,7 @@ export class Session {
         this._onModeChange = opts.onModeChange;
         this.hookSettingsPath = opts.hookSettingsPath;
         this.jsRuntime = opts.jsRuntime ?? 'node';
+        this.permissionRules = opts.permissionRules;
 
         // Start keep alive
         this.client.keepAlive(this.thinking, this.mode);
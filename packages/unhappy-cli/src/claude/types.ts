@@ -56,3 +56,19 @@ export const RawJSONLinesSchema = z.discriminatedUnion("type", [
 ]);
 
 export type RawJSONLines = z.infer<typeof RawJSONLinesSchema>
+
+// Tool call and tool result blocks of a message's content - used for the audit log in apiSession.ts
+export const ToolContentBlockSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("tool_use"),
+    id: z.string(),
+    name: z.string(),
+    input: z.unknown()
+  }),
+  z.object({
+    type: z.literal("tool_result"),
+    tool_use_id: z.string(),
+    content: z.unknown(),
+    is_error: z.boolean().optional()
+  })
+]);
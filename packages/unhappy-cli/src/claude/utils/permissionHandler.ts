@@ -5,6 +5,7 @@
  * Handles tool permission requests, responses, and state management.
  */
 
+import { randomUUID } from 'node:crypto';
 import { isDeepStrictEqual } from 'node:util';
 import { logger } from "@/lib";
 import { SDKAssistantMessage, SDKMessage, SDKUserMessage } from "../sdk";
@@ -15,6 +16,8 @@ import { getToolName } from "./getToolName";
 import { EnhancedMode, PermissionMode } from "../loop";
 import { getToolDescriptor } from "./getToolDescriptor";
 import { delay } from "@/utils/time";
+import { escapeGlob, PermissionRuleMatch } from "@/utils/permissionRules";
+import { BUDGET_DENIED_REASON, BUDGET_TOOL } from "@/utils/budget";
 
 interface PermissionResponse {
     id: string;
@@ -24,6 +27,7 @@ interface PermissionResponse {
     allowTools?: string[];
     decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
     receivedAt?: number;
+    sentFrom?: string;
 }
 
 
@@ -77,11 +81,9 @@ export class PermissionHandler {
     private responses = new Map<string, PermissionResponse>();
     private pendingRequests = new Map<string, PendingRequest>();
     private session: Session;
-    private allowedTools = new Set<string>();
-    private allowedBashLiterals = new Set<string>();
-    private allowedBashPrefixes = new Set<string>();
     private permissionMode: PermissionMode = 'default';
     private onPermissionRequestCallback?: (toolCallId: string) => void;
+    private budgetRequest: Promise<boolean> | null = null;
 
     constructor(session: Session) {
         this.session = session;
@@ -107,15 +109,16 @@ export class PermissionHandler {
         pending: PendingRequest
     ): void {
 
-        // Update allowed tools
+        // Remember allowed tools as session rules
         if (response.allowTools && response.allowTools.length > 0) {
             response.allowTools.forEach(tool => {
                 if (tool.startsWith('Bash(') || tool === 'Bash') {
                     this.parseBashPermission(tool);
                 } else {
-                    this.allowedTools.add(tool);
+                    this.session.permissionRules.addSessionRule({ action: 'allow', tool: escapeGlob(tool) });
                 }
             });
+            this.saveSessionRules();
         }
 
         // Update permission mode
@@ -154,23 +157,19 @@ export class PermissionHandler {
      */
     handleToolCall = async (toolName: string, input: unknown, mode: EnhancedMode, options: { signal: AbortSignal }): Promise<PermissionResult> => {
 
-        // Check if tool is explicitly allowed
-        if (toolName === 'Bash') {
-            const inputObj = input as { command?: string };
-            if (inputObj?.command) {
-                // Check literal matches
-                if (this.allowedBashLiterals.has(inputObj.command)) {
-                    return { behavior: 'allow', updatedInput: input as Record<string, unknown> };
-                }
-                // Check prefix matches
-                for (const prefix of this.allowedBashPrefixes) {
-                    if (inputObj.command.startsWith(prefix)) {
-                        return { behavior: 'allow', updatedInput: input as Record<string, unknown> };
-                    }
-                }
-            }
-        } else if (this.allowedTools.has(toolName)) {
-            return { behavior: 'allow', updatedInput: input as Record<string, unknown> };
+        // Past the budget nothing runs until the user allows more spend, whatever the rules and mode say
+        if (!await this.checkBudget(options.signal)) {
+            return { behavior: 'deny', message: BUDGET_DENIED_REASON };
+        }
+
+        // Permission rules decide first. Plan approval always goes to the user
+        const isPlanExit = toolName === 'exit_plan_mode' || toolName === 'ExitPlanMode';
+        const match = isPlanExit ? null : this.session.permissionRules.evaluate(toolName, input);
+        if (match && match.action !== 'ask') {
+            this.recordRuleDecision(toolName, input, match);
+            return match.action === 'allow'
+                ? { behavior: 'allow', updatedInput: input as Record<string, unknown> }
+                : { behavior: 'deny', message: `This tool use was blocked by the ${match.source} permission rule "${match.description}". Do not retry it, find another way or ask the user.` };
         }
 
         // Calculate descriptor
@@ -180,11 +179,14 @@ export class PermissionHandler {
         // Handle special cases
         //
 
-        if (this.permissionMode === 'bypassPermissions') {
+        // An ask rule overrides the permission mode
+        if (this.permissionMode === 'bypassPermissions' && !match) {
+            this.auditModeApproval(toolName, input);
             return { behavior: 'allow', updatedInput: input as Record<string, unknown> };
         }
 
-        if (this.permissionMode === 'acceptEdits' && descriptor.edit) {
+        if (this.permissionMode === 'acceptEdits' && descriptor.edit && !match) {
+            this.auditModeApproval(toolName, input);
             return { behavior: 'allow', updatedInput: input as Record<string, unknown> };
         }
 
@@ -211,7 +213,90 @@ export class PermissionHandler {
         if (!toolCallId) {
             throw new Error(`Could not resolve tool call ID for ${toolName}`);
         }
-        return this.handlePermissionRequest(toolCallId, toolName, input, options.signal);
+        return this.handlePermissionRequest(toolCallId, toolName, input, options.signal, match ?? undefined);
+    }
+
+    /**
+     * Once the budget is used up, asks the user whether to allow more spend.
+     * Checked before every turn and tool call
+     */
+    checkBudget = async (signal: AbortSignal): Promise<boolean> => {
+        if (!this.session.client.budget.isExceeded()) {
+            return true;
+        }
+        return this.askToExceedBudget(signal).catch(() => false);
+    }
+
+    /**
+     * Asks the user whether to continue past the budget, tool calls made in
+     * parallel share one request
+     */
+    private askToExceedBudget(signal: AbortSignal): Promise<boolean> {
+        if (!this.budgetRequest) {
+            const id = `budget-${randomUUID()}`;
+            this.budgetRequest = this.handlePermissionRequest(id, BUDGET_TOOL, this.session.client.budget.state(), signal)
+                .then((result) => {
+                    if (result.behavior === 'allow') {
+                        this.session.client.budget.extend();
+                    }
+                    return result.behavior === 'allow';
+                })
+                .finally(() => {
+                    this.budgetRequest = null;
+                });
+        }
+        return this.budgetRequest;
+    }
+
+    /**
+     * Records a call decided by a permission rule so the app can show the rule.
+     * Calls whose id isn't known yet are decided without a record
+     */
+    private recordRuleDecision(toolName: string, input: unknown, match: PermissionRuleMatch): void {
+        const id = this.resolveToolCallId(toolName, input);
+        const approved = match.action === 'allow';
+        this.session.client.audit.recordPermission({
+            toolCallId: id,
+            tool: toolName,
+            arguments: input,
+            decision: approved ? 'approved' : 'denied',
+            decidedBy: 'rule',
+            rule: match
+        });
+        if (!id) {
+            return;
+        }
+        // Unlike a user denial, a rule denial doesn't end the turn, the agent is told to work around it
+        this.session.client.updateAgentState((currentState) => ({
+            ...currentState,
+            completedRequests: {
+                ...currentState.completedRequests,
+                [id]: {
+                    tool: toolName,
+                    arguments: input,
+                    createdAt: Date.now(),
+                    completedAt: Date.now(),
+                    status: approved ? 'approved' : 'denied',
+                    decision: approved ? 'approved' : 'denied',
+                    reason: approved ? undefined : `Denied by ${match.source} rule: ${match.description}`,
+                    matchedRule: match
+                }
+            }
+        }));
+    }
+
+    /**
+     * Records a call the permission mode allowed without asking
+     */
+    private auditModeApproval(toolName: string, input: unknown): void {
+        this.session.client.audit.recordPermission({
+            toolCallId: this.resolveToolCallId(toolName, input),
+            tool: toolName,
+            arguments: input,
+            decision: 'approved',
+            decidedBy: 'mode',
+            mode: this.permissionMode
+        });
     }
 
     /**
@@ -221,7 +306,8 @@ export class PermissionHandler {
         id: string,
         toolName: string,
         input: unknown,
-        signal: AbortSignal
+        signal: AbortSignal,
+        matchedRule?: PermissionRuleMatch
     ): Promise<PermissionResult> {
         return new Promise<PermissionResult>((resolve, reject) => {
             // Set up abort signal handling
@@ -279,7 +365,8 @@ export class PermissionHandler {
                     [id]: {
                         tool: toolName,
                         arguments: input,
-                        createdAt: Date.now()
+                        createdAt: Date.now(),
+                        ...(matchedRule ? { matchedRule } : {})
                     }
                 }
             }));
@@ -290,7 +377,7 @@ export class PermissionHandler {
 
 
     /**
-     * Parses Bash permission strings into literal and prefix sets
+     * Parses Bash permission strings into literal and prefix session rules
      */
     private parseBashPermission(permission: string): void {
         // Ignore plain "Bash"
@@ -311,10 +398,10 @@ export class PermissionHandler {
         // Check if it's a prefix pattern (ends with :*)
         if (command.endsWith(':*')) {
             const prefix = command.slice(0, -2); // Remove :*
-            this.allowedBashPrefixes.add(prefix);
+            this.session.permissionRules.addSessionRule({ action: 'allow', tool: 'Bash', command: escapeGlob(prefix) + '*' });
         } else {
             // Literal match
-            this.allowedBashLiterals.add(command);
+            this.session.permissionRules.addSessionRule({ action: 'allow', tool: 'Bash', command: escapeGlob(command.replace(/\s+/g, ' ')) });
         }
     }
 
@@ -416,9 +503,7 @@ export class PermissionHandler {
     reset(): void {
         this.toolCalls = [];
         this.responses.clear();
-        this.allowedTools.clear();
-        this.allowedBashLiterals.clear();
-        this.allowedBashPrefixes.clear();
+        this.session.permissionRules.clearSessionRules();
 
         // Cancel all pending requests
         for (const [, pending] of this.pendingRequests.entries()) {
@@ -444,11 +529,17 @@ export class PermissionHandler {
             return {
                 ...currentState,
                 requests: {}, // Clear all pending requests
-                completedRequests
+                completedRequests,
+                sessionRules: []
             };
         });
     }
 
+    private saveSessionRules(): void {
+        const sessionRules = this.session.permissionRules.getSessionRules();
+        this.session.client.updateAgentState((currentState) => ({ ...currentState, sessionRules }));
+    }
+
     /**
      * Sets up the client handler for permission responses
      */
@@ -470,6 +561,16 @@ export class PermissionHandler {
 
             // Handle the permission response based on tool type
             this.handlePermissionResponse(message, pending);
+            this.session.client.audit.recordPermission({
+                toolCallId: id,
+                tool: pending.toolName,
+                arguments: pending.input,
+                decision: message.decision ?? (message.approved ? 'approved' : 'denied'),
+                decidedBy: 'user',
+                sentFrom: message.sentFrom ?? null,
+                mode: message.mode ?? this.permissionMode,
+                reason: message.reason ?? null
+            });
 
             // Move processed request to completedRequests
             this.session.client.updateAgentState((currentState) => {
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ApiSessionClient } from '@/api/apiSession';
+import type { AgentState } from '@/api/types';
+import type { PermissionResponse } from '@/utils/BasePermissionHandler';
+import { PermissionRules } from '@/utils/permissionRules';
+import { CodexPermissionHandler } from '../utils/permissionHandler';
+
+describe('CodexPermissionHandler', () => {
+  let root: string;
+  let state: AgentState;
+  let respond: (response: PermissionResponse) => Promise<void>;
+  let handler: CodexPermissionHandler;
+  let rules: PermissionRules;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'unhappy-codex-rules-'));
+    mkdirSync(join(root, '.unhappy'));
+    state = {};
+    const session = {
+      rpcHandlerManager: {
+        registerHandler: (_method: string, fn: (response: PermissionResponse) => Promise<void>) => {
+          respond = fn;
+        },
+      },
+      updateAgentState: (update: (current: AgentState) => AgentState) => {
+        state = update(state);
+      },
+      budget: { isExceeded: () => false },
+      audit: { recordPermission: vi.fn() },
+    };
+    rules = new PermissionRules(root);
+    handler = new CodexPermissionHandler(session as unknown as ApiSessionClient, rules);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('asks the user even when a project rule allows the call', async () => {
+    writeFileSync(join(root, '.unhappy', 'permissions.json'), JSON.stringify({ rules: [{ action: 'allow', tool: 'CodexBash' }] }));
+
+    const result = handler.handleToolCall('call-1', 'CodexBash', { command: ['bash', '-lc', 'rm -rf build'] });
+    await vi.waitFor(() => expect(state.requests?.['call-1']).toMatchObject({ tool: 'CodexBash' }));
+
+    await respond({ id: 'call-1', approved: false, decision: 'denied' });
+    await expect(result).resolves.toEqual({ decision: 'denied' });
+  });
+
+  it('asks before changing the project rules file even when an account rule allows it', async () => {
+    rules.setAccountRules([{ action: 'allow', tool: 'CodexPatch' }]);
+
+    const result = handler.handleToolCall('call-2', 'CodexPatch', { changes: { [join(root, '.unhappy', 'permissions.json')]: {} } });
+    await vi.waitFor(() => expect(state.requests?.['call-2']?.matchedRule).toMatchObject({ action: 'ask', source: 'project' }));
+
+    await respond({ id: 'call-2', approved: true });
+    await expect(result).resolves.toEqual({ decision: 'approved' });
+  });
+});
@@ -36,6 +36,10 @@ const mockState = vi.hoisted(() => {
     rpcHandlerManager: {
       registerHandler: vi.fn(),
     },
+    budget: {
+      setBudget: vi.fn(),
+      isExceeded: vi.fn(() => false),
+    },
   };
 
   const client = {
@@ -171,8 +175,10 @@ vi.mock('@/utils/MessageQueue2', () => ({
   },
 }));
 
-vi.mock('@/utils/caffeinate', () => ({
-  stopCaffeinate: vi.fn(),
+vi.mock('@/utils/keepAwake', () => ({
+  startKeepAwake: vi.fn(async () => 'never'),
+  stopKeepAwake: vi.fn(),
+  setTurnRunning: vi.fn(),
 }));
 
 vi.mock('@/utils/createSessionMetadata', () => ({
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { CodexTokenUsage } from '../utils/tokenUsage';
+
+function tokenCount(total: number, last: { input_tokens: number; cached_input_tokens: number; output_tokens: number }) {
+  return {
+    type: 'token_count',
+    info: {
+      total_token_usage: { input_tokens: total, cached_input_tokens: 0, output_tokens: total },
+      last_token_usage: last,
+      model_context_window: 272000,
+    },
+  };
+}
+
+describe('CodexTokenUsage', () => {
+  it('counts each response once with cached input split out', () => {
+    const usage = new CodexTokenUsage();
+    const last = { input_tokens: 1000, cached_input_tokens: 800, output_tokens: 50 };
+
+    expect(usage.next(tokenCount(1000, last))).toEqual({ input: 200, output: 50, cacheRead: 800 });
+    // Rate limit updates repeat the same numbers
+    expect(usage.next(tokenCount(1000, last))).toBeNull();
+    expect(usage.next(tokenCount(2000, { input_tokens: 10, cached_input_tokens: 0, output_tokens: 5 }))).toEqual({ input: 10, output: 5, cacheRead: 0 });
+  });
+
+  it('ignores events without usage', () => {
+    const usage = new CodexTokenUsage();
+    expect(usage.next({ info: null })).toBeNull();
+    expect(usage.next({})).toBeNull();
+  });
+});
@@ -1,5 +1,5 @@
 import { ApiClient } from '@/api/api';
-import type { ApiSessionClient } from '@/api/apiSession';
+import { agentUsageReport, type ApiSessionClient } from '@/api/apiSession';
 import { registerKillSessionHandler } from '@/claude/registerKillSessionHandler';
 import { startHappyServer } from '@/claude/utils/startHappyServer';
 import { notifyDaemonSessionStarted } from '@/daemon/controlClient';
@@ -17,7 +17,7 @@ import { CodexDisplay } from '@/ui/ink/CodexDisplay';
 import { MessageBuffer } from '@/ui/ink/messageBuffer';
 import { logger } from '@/ui/logger';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
-import { stopCaffeinate } from '@/utils/caffeinate';
+import { startKeepAwake, stopKeepAwake } from '@/utils/keepAwake';
 import { createSessionMetadata } from '@/utils/createSessionMetadata';
 import { hashObject } from '@/utils/deterministicJson';
 import { buildReadyPushNotification } from '@/utils/readyPushNotification';
@@ -34,6 +34,9 @@ import { CodexAppServerClient } from './codexAppServerClient';
 import type { CodexSessionConfig } from './types';
 import { DiffProcessor } from './utils/diffProcessor';
 import { CodexPermissionHandler } from './utils/permissionHandler';
+import { PermissionRules } from '@/utils/permissionRules';
+import { BUDGET_DECLINED_MESSAGE } from '@/utils/budget';
+import { CodexTokenUsage } from './utils/tokenUsage';
 import { ReasoningProcessor } from './utils/reasoningProcessor';
 
 type ReadyEventOptions = {
@@ -265,6 +268,9 @@ export async function runCodex(opts: {
   // Permission handler declared here so it can be updated in onSessionSwap callback
   // (assigned later at line ~385 after client setup)
   let permissionHandler: CodexPermissionHandler;
+  // Rules outlive session swaps and handler resets, account rules arrive with user messages
+  const permissionRules = new PermissionRules(process.cwd());
+  permissionRules.setSessionRules(response?.agentState?.sessionRules);
   const { session: initialSession, reconnectionHandle } =
     setupOfflineReconnection({
       api,
@@ -412,6 +418,15 @@ export async function runCodex(opts: {
       );
     }
 
+    if (message.meta?.hasOwnProperty('permissionRules')) {
+      permissionRules.setAccountRules(message.meta.permissionRules ?? []);
+    }
+
+    // The budget covers the whole session, a message without one leaves it as is
+    if (message.meta?.hasOwnProperty('budget')) {
+      session.budget.setBudget(message.meta.budget ?? null);
+    }
+
     const enhancedMode: EnhancedMode = {
       permissionMode: messagePermissionMode || 'default',
       model: messageModel,
@@ -421,6 +436,7 @@ export async function runCodex(opts: {
     messageQueue.push(message.content.text, enhancedMode);
   });
   let thinking = false;
+  await startKeepAwake();
   session.keepAlive(thinking, 'remote');
   // Periodic keep-alive; store handle so we can clear on exit
   const keepAliveInterval = setInterval(() => {
@@ -596,8 +612,8 @@ export async function runCodex(opts: {
         );
       }
 
-      // Stop caffeinate
-      stopCaffeinate();
+      // Stop sleep prevention
+      stopKeepAwake();
 
       // Stop Unhappy MCP server
       happyServer.stop();
@@ -890,7 +906,7 @@ export async function runCodex(opts: {
       }
     }
   }
-  permissionHandler = new CodexPermissionHandler(session);
+  permissionHandler = new CodexPermissionHandler(session, permissionRules);
   const reasoningProcessor = new ReasoningProcessor((message) => {
     // Stream reasoning deltas as terminal-output so mobile can append in real-time.
     if (message && typeof message === 'object' && message.type === 'tool-stream') {
@@ -933,6 +949,10 @@ export async function runCodex(opts: {
       : null;
   };
 
+  // Usage of each response is reported with the model of the running turn
+  const tokenUsage = new CodexTokenUsage();
+  let turnModel: string | undefined = undefined;
+
   client.setHandler((msg: any) => {
     // Avoid logging the full raw Codex event payloads (can be huge and include prompt contents).
     const msgType = typeof msg?.type === 'string' ? msg.type : 'unknown';
@@ -1131,6 +1151,10 @@ export async function runCodex(opts: {
         ...msg,
         id: randomUUID(),
       });
+      const tokens = tokenUsage.next(msg);
+      if (tokens) {
+        session.sendUsageReport(agentUsageReport('codex', tokens, turnModel));
+      }
     }
     if (msg.type === 'patch_apply_begin') {
       // Handle the start of a patch operation
@@ -1255,12 +1279,19 @@ export async function runCodex(opts: {
         break;
       }
 
+      // Past the budget the turn only starts once the user allows more spend
+      if (!(await permissionHandler.checkBudget())) {
+        session.sendSessionEvent({ type: 'message', message: BUDGET_DECLINED_MESSAGE });
+        continue;
+      }
+      turnModel = message.mode.model;
+
       // Display user messages in the UI
       messageBuffer.addMessage(message.message, 'user');
 
       try {
         // Map permission mode to approval policy and sandbox for startSession
-        const approvalPolicy = (() => {
+        const modeApprovalPolicy = (() => {
           switch (message.mode.permissionMode) {
             // Codex native modes
             case 'default':
@@ -1282,6 +1313,11 @@ export async function runCodex(opts: {
               return 'untrusted' as const; // Safe fallback
           }
         })();
+        // Commands Codex runs without asking never reach the permission rules, so deny and
+        // ask rules need it to ask for everything it doesn't consider trusted
+        const approvalPolicy = (modeApprovalPolicy === 'on-failure' || modeApprovalPolicy === 'on-request') && permissionRules.hasRestrictiveRules()
+          ? 'untrusted' as const
+          : modeApprovalPolicy;
         const sandbox = (() => {
           switch (message.mode.permissionMode) {
             // Codex native modes
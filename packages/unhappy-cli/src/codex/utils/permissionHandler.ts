@@ -7,6 +7,7 @@
 
 import { logger } from "@/ui/logger";
 import { ApiSessionClient } from "@/api/apiSession";
+import { PermissionRules } from '@/utils/permissionRules';
 import {
     BasePermissionHandler,
     PermissionResult,
@@ -20,8 +21,8 @@ export type { PermissionResult, PendingRequest };
  * Codex-specific permission handler.
  */
 export class CodexPermissionHandler extends BasePermissionHandler {
-    constructor(session: ApiSessionClient) {
-        super(session);
+    constructor(session: ApiSessionClient, rules: PermissionRules) {
+        super(session, rules);
     }
 
     protected getLogPrefix(): string {
@@ -40,6 +41,16 @@ export class CodexPermissionHandler extends BasePermissionHandler {
         toolName: string,
         input: unknown
     ): Promise<PermissionResult> {
+        // Past the budget nothing runs until the user allows more spend
+        if (!await this.checkBudget()) {
+            return { decision: 'denied' };
+        }
+
+        const { result, match } = this.applyRules(toolCallId, toolName, input);
+        if (result) {
+            return result;
+        }
+
         return new Promise<PermissionResult>((resolve, reject) => {
             // Store the pending request
             this.pendingRequests.set(toolCallId, {
@@ -50,7 +61,7 @@ export class CodexPermissionHandler extends BasePermissionHandler {
             });
 
             // Update agent state with pending request
-            this.addPendingRequestToState(toolCallId, toolName, input);
+            this.addPendingRequestToState(toolCallId, toolName, input, match ?? undefined);
 
             logger.debug(`${this.getLogPrefix()} Permission request sent for tool: ${toolName} (${toolCallId})`);
         });
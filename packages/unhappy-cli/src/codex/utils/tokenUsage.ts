@@ -0,0 +1,61 @@
+/**
+ * Codex Token Usage
+ *
+ * Turns the `token_count` events of Codex into the token counts of each model
+ * response. An event carries the usage of the last response and the running
+ * total of the Codex session, and is sent again with the same numbers when
+ * only the rate limits changed, so a response is counted when the total moves.
+ */
+
+import type { AgentTokens } from '@/utils/pricing';
+
+type CodexUsage = {
+    input_tokens: number;
+    cached_input_tokens: number;
+    output_tokens: number;
+};
+
+function parseUsage(value: unknown): CodexUsage | null {
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+    const usage = value as Record<string, unknown>;
+    if (typeof usage.input_tokens !== 'number' || typeof usage.output_tokens !== 'number') {
+        return null;
+    }
+    return {
+        input_tokens: usage.input_tokens,
+        cached_input_tokens: typeof usage.cached_input_tokens === 'number' ? usage.cached_input_tokens : 0,
+        output_tokens: usage.output_tokens,
+    };
+}
+
+export class CodexTokenUsage {
+    private lastTotal: string | null = null;
+
+    /**
+     * Tokens of the response a `token_count` event reports, null when the
+     * event repeats the previous one or carries no usage
+     */
+    next(event: { info?: unknown }): AgentTokens | null {
+        const info = event.info && typeof event.info === 'object' ? event.info as Record<string, unknown> : null;
+        const total = parseUsage(info?.total_token_usage);
+        const last = parseUsage(info?.last_token_usage);
+        if (!total || !last) {
+            return null;
+        }
+        const signature = `${total.input_tokens}:${total.cached_input_tokens}:${total.output_tokens}`;
+        if (signature === this.lastTotal) {
+            return null;
+        }
+        this.lastTotal = signature;
+
+        // Codex counts cached tokens as part of the input, output includes reasoning
+        const cacheRead = Math.min(last.cached_input_tokens, last.input_tokens);
+        return {
+            input: last.input_tokens - cacheRead,
+            output: last.output_tokens,
+            cacheRead,
+        };
+    }
+}
@@ -0,0 +1,75 @@
+import { ApiClient } from '@/api/api';
+import { exportSessionAudit } from '@/modules/audit/exportAudit';
+import { renderAuditLine } from '@/modules/audit';
+import { readCredentials } from '@/persistence';
+import chalk from 'chalk';
+import { writeFile } from 'node:fs/promises';
+
+/**
+ * Handle audit subcommand
+ *
+ * - audit <session>: Print the permission decisions and tool executions of a session
+ * - audit help: Show help for audit command
+ */
+export async function handleAuditCommand(args: string[]): Promise<void> {
+  if (args.length === 0 || args[0] === 'help' || args[0] === '--help' || args[0] === '-h') {
+    showAuditHelp();
+    return;
+  }
+
+  let sessionId: string | undefined;
+  let format: 'text' | 'jsonl' = 'text';
+  let out: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--format') {
+      const value = args[++i];
+      if (value !== 'text' && value !== 'jsonl') {
+        throw new Error(`Unknown format: ${value}`);
+      }
+      format = value;
+    } else if (args[i] === '--out') {
+      out = args[++i];
+    } else if (!sessionId) {
+      sessionId = args[i];
+    }
+  }
+  if (!sessionId) {
+    throw new Error('Session ID required');
+  }
+
+  const credentials = await readCredentials();
+  if (!credentials) {
+    throw new Error('Not authenticated, run "unhappy auth login" first');
+  }
+  const api = await ApiClient.create(credentials);
+  const events = await exportSessionAudit(api, credentials, sessionId);
+
+  const content = events
+    .map((event) => (format === 'jsonl' ? JSON.stringify(event) : renderAuditLine(event)))
+    .map((line) => `${line}\n`)
+    .join('');
+  if (!out) {
+    process.stdout.write(content);
+    return;
+  }
+  await writeFile(out, content);
+  console.log(chalk.green(`✓ Exported ${events.length} audit events to ${out}`));
+}
+
+function showAuditHelp(): void {
+  console.log(`
+${chalk.bold('unhappy audit')} - Show what the agent did in a session
+
+${chalk.bold('Usage:')}
+  unhappy audit <session-id> [--format text|jsonl] [--out <file>]
+
+${chalk.bold('Description:')}
+  Prints every permission decision (who decided, from which device, in
+  which mode or by which rule) and every tool execution (arguments, exit
+  code and affected files) recorded for the session, oldest first.
+
+${chalk.bold('Notes:')}
+  • Sessions started from the app or another machine can only be read here
+    with a legacy secret key login, otherwise open Session Info in the app
+`);
+}
@@ -0,0 +1,100 @@
+import { ApiClient } from '@/api/api';
+import { exportSessionArchive } from '@/modules/sessionArchive/exportSession';
+import { sessionArchiveFileName } from '@/modules/sessionArchive';
+import { readCredentials } from '@/persistence';
+import chalk from 'chalk';
+import { writeFile } from 'node:fs/promises';
+
+/**
+ * Handle session subcommand
+ *
+ * - session export <id>: Write a session archive (or its markdown / JSONL rendering)
+ * - session help: Show help for session command
+ */
+export async function handleSessionCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  if (
+    !subcommand ||
+    subcommand === 'help' ||
+    subcommand === '--help' ||
+    subcommand === '-h'
+  ) {
+    showSessionHelp();
+    return;
+  }
+
+  switch (subcommand) {
+    case 'export':
+      await handleSessionExport(args.slice(1));
+      break;
+    default:
+      console.error(chalk.red(`Unknown session command: ${subcommand}`));
+      showSessionHelp();
+      process.exit(1);
+  }
+}
+
+function showSessionHelp(): void {
+  console.log(`
+${chalk.bold('unhappy session')} - Work with your sessions
+
+${chalk.bold('Usage:')}
+  unhappy session export <id> [--format archive|markdown|jsonl] [--out <file>]
+  unhappy session help
+
+${chalk.bold('Description:')}
+  Export writes a decrypted copy of the session. The archive format holds
+  metadata, agent state, every message and linked artifacts and can be
+  imported from the app (Settings > Account > Import Session) as a new
+  read-only session. Use --out - to print to stdout.
+
+${chalk.bold('Notes:')}
+  • Sessions started from the app or another machine can only be exported
+    here with a legacy secret key login, otherwise export them from the app
+`);
+}
+
+async function handleSessionExport(args: string[]): Promise<void> {
+  let sessionId: string | undefined;
+  let format: 'archive' | 'markdown' | 'jsonl' = 'archive';
+  let out: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--format') {
+      const value = args[++i];
+      if (value !== 'archive' && value !== 'markdown' && value !== 'jsonl') {
+        throw new Error(`Unknown format: ${value}`);
+      }
+      format = value;
+    } else if (args[i] === '--out') {
+      out = args[++i];
+    } else if (!sessionId) {
+      sessionId = args[i];
+    }
+  }
+  if (!sessionId) {
+    throw new Error('Session ID required');
+  }
+
+  const credentials = await readCredentials();
+  if (!credentials) {
+    throw new Error('Not authenticated, run "unhappy auth login" first');
+  }
+  const api = await ApiClient.create(credentials);
+  const archive = await exportSessionArchive(api, credentials, sessionId);
+
+  const content = format === 'markdown'
+    ? archive.renderings.markdown
+    : format === 'jsonl'
+      ? archive.renderings.jsonl
+      : JSON.stringify(archive, null, 2);
+  if (out === '-') {
+    process.stdout.write(content);
+    return;
+  }
+
+  const extension = format === 'markdown' ? '.md' : format === 'jsonl' ? '.jsonl' : '.json';
+  const target = out ?? sessionArchiveFileName(archive).replace(/\.json$/, extension);
+  await writeFile(target, content);
+  console.log(chalk.green(`✓ Exported ${archive.messages.length} messages to ${target}`));
+}
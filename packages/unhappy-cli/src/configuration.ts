@@ -24,6 +24,12 @@ class Configuration {
   public readonly daemonLockFile: string;
   public readonly codexResumeStateFile: string;
   public readonly codexResumeLockFile: string;
+  public readonly schedulesFile: string;
+  public readonly agentsFile: string;
+  public readonly dashboardTokenFile: string;
+  public readonly sessionKeysDir: string;
+  public readonly outboxDir: string;
+  public readonly outboxKeyFile: string;
   public readonly currentCliVersion: string;
 
   public readonly isExperimentalEnabled: boolean;
@@ -59,6 +65,12 @@ class Configuration {
     this.daemonLockFile = join(this.unhappyHomeDir, 'daemon.state.json.lock');
     this.codexResumeStateFile = join(this.unhappyHomeDir, 'codex.resume.json');
     this.codexResumeLockFile = join(this.unhappyHomeDir, 'codex.resume.json.lock');
+    this.schedulesFile = join(this.unhappyHomeDir, 'schedules.json');
+    this.agentsFile = join(this.unhappyHomeDir, 'agents.json');
+    this.dashboardTokenFile = join(this.unhappyHomeDir, 'dashboard.token');
+    this.sessionKeysDir = join(this.unhappyHomeDir, 'session-keys');
+    this.outboxDir = join(this.unhappyHomeDir, 'outbox');
+    this.outboxKeyFile = join(this.unhappyHomeDir, 'outbox.key');
 
     this.isExperimentalEnabled = ['true', '1', 'yes'].includes(
       process.env.UNHAPPY_EXPERIMENTAL?.toLowerCase() || '',
@@ -69,6 +69,12 @@ export async function notifyDaemonSessionStarted(
   });
 }
 
+export async function notifyDaemonScheduledRunFinished(
+  runId: string
+): Promise<{ error?: string } | any> {
+  return await daemonPost('/scheduled-run-finished', { runId });
+}
+
 export async function listDaemonSessions(): Promise<any[]> {
   const result = await daemonPost('/list');
   return result.children || [];
@@ -10,19 +10,29 @@ import { logger } from '@/ui/logger';
 import { Metadata } from '@/api/types';
 import { TrackedSession } from './types';
 import { SpawnSessionOptions, SpawnSessionResult } from '@/modules/common/registerCommonHandlers';
+import { DashboardHub } from './dashboard/hub';
+import { LocalSessionEventSchema } from './dashboard/types';
+
+/** Long poll window for session links, below the link's own request timeout */
+const SESSION_LINK_POLL_MS = 25_000;
 
 export function startDaemonControlServer({
   getChildren,
   stopSession,
   spawnSession,
   requestShutdown,
-  onUnhappySessionWebhook
+  onUnhappySessionWebhook,
+  onScheduledRunFinished,
+  dashboardHub
 }: {
   getChildren: () => TrackedSession[];
   stopSession: (sessionId: string) => boolean;
   spawnSession: (options: SpawnSessionOptions) => Promise<SpawnSessionResult>;
   requestShutdown: () => void;
   onUnhappySessionWebhook: (sessionId: string, metadata: Metadata) => void;
+  onScheduledRunFinished: (runId: string) => void;
+  /** Set while the LAN dashboard is enabled, adds the /session-link routes */
+  dashboardHub?: DashboardHub;
 }): Promise<{ port: number; stop: () => Promise<void> }> {
   return new Promise((resolve) => {
     const app = fastify({
@@ -52,10 +62,82 @@ export function startDaemonControlServer({
 
       logger.debug(`[CONTROL SERVER] Session started: ${sessionId}`);
       onUnhappySessionWebhook(sessionId, metadata);
+      dashboardHub?.registerSession(sessionId, metadata ?? null);
+
+      return { status: 'ok' as const };
+    });
+
+    // Session reports that the agent finished working on a scheduled prompt
+    typed.post('/scheduled-run-finished', {
+      schema: {
+        body: z.object({
+          runId: z.string()
+        }),
+        response: {
+          200: z.object({
+            status: z.literal('ok')
+          })
+        }
+      }
+    }, async (request) => {
+      const { runId } = request.body;
+
+      logger.debug(`[CONTROL SERVER] Scheduled run finished: ${runId}`);
+      onScheduledRunFinished(runId);
 
       return { status: 'ok' as const };
     });
 
+    if (dashboardHub) {
+      // Sessions mirror their messages and state for the LAN dashboard
+      typed.post('/session-link/events', {
+        schema: {
+          body: z.object({
+            sessionId: z.string(),
+            events: z.array(LocalSessionEventSchema)
+          }),
+          response: {
+            200: z.object({
+              status: z.literal('ok')
+            })
+          }
+        }
+      }, async (request) => {
+        dashboardHub.applyEvents(request.body.sessionId, request.body.events);
+        return { status: 'ok' as const };
+      });
+
+      // Sessions long poll for prompts and RPC calls from the dashboard
+      typed.post('/session-link/poll', {
+        schema: {
+          body: z.object({
+            sessionId: z.string()
+          })
+        }
+      }, async (request) => {
+        const commands = await dashboardHub.poll(request.body.sessionId, SESSION_LINK_POLL_MS);
+        return { commands };
+      });
+
+      typed.post('/session-link/rpc-result', {
+        schema: {
+          body: z.object({
+            sessionId: z.string(),
+            id: z.string(),
+            result: z.any()
+          }),
+          response: {
+            200: z.object({
+              status: z.literal('ok')
+            })
+          }
+        }
+      }, async (request) => {
+        dashboardHub.resolveRpc(request.body.sessionId, request.body.id, request.body.result);
+        return { status: 'ok' as const };
+      });
+    }
+
     // List all tracked sessions
     typed.post('/list', {
       schema: {
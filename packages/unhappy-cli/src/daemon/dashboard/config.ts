@@ -0,0 +1,101 @@
+/**
+ * Dashboard settings, access token and LAN checks
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { networkInterfaces } from 'node:os';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+import { DashboardConfig } from './types';
+
+export const DEFAULT_DASHBOARD_PORT = 7177;
+
+function parseFlag(value: string | undefined): boolean | undefined {
+  const flag = value?.trim().toLowerCase();
+  return flag ? ['true', '1', 'yes'].includes(flag) : undefined;
+}
+
+/**
+ * UNHAPPY_DASHBOARD, UNHAPPY_DASHBOARD_LAN, UNHAPPY_DASHBOARD_HOST and
+ * UNHAPPY_DASHBOARD_PORT win over `dashboard` in settings.json. Off unless
+ * enabled, and only reachable from this machine unless `lan` is set or a host
+ * is given.
+ */
+export function resolveDashboardConfig(
+  env: NodeJS.ProcessEnv,
+  settings: { enabled?: boolean; lan?: boolean; host?: string; port?: number } | undefined,
+): DashboardConfig {
+  const enabled = parseFlag(env.UNHAPPY_DASHBOARD) ?? settings?.enabled === true;
+  const lan = parseFlag(env.UNHAPPY_DASHBOARD_LAN) ?? settings?.lan === true;
+  const envPort = env.UNHAPPY_DASHBOARD_PORT ? parseInt(env.UNHAPPY_DASHBOARD_PORT, 10) : NaN;
+  const port = Number.isInteger(envPort) && envPort >= 0 && envPort < 65536
+    ? envPort
+    : settings?.port ?? DEFAULT_DASHBOARD_PORT;
+  const host = env.UNHAPPY_DASHBOARD_HOST?.trim() || settings?.host || (lan ? '0.0.0.0' : '127.0.0.1');
+  return { enabled, host, port };
+}
+
+/**
+ * Token stored in ~/.unhappy/dashboard.token, created on first use.
+ * Delete the file to rotate it.
+ */
+export async function loadOrCreateDashboardToken(): Promise<string> {
+  if (existsSync(configuration.dashboardTokenFile)) {
+    const token = (await readFile(configuration.dashboardTokenFile, 'utf8')).trim();
+    if (token.length >= 16) {
+      return token;
+    }
+    logger.debug('[DASHBOARD] Token file is too short, creating a new token');
+  }
+  const token = randomBytes(24).toString('base64url');
+  await writeFile(configuration.dashboardTokenFile, token + '\n', { mode: 0o600 });
+  return token;
+}
+
+export function tokensMatch(expected: string, provided: string | undefined): boolean {
+  if (!provided) {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Loopback, private (RFC 1918 / unique local) and link-local addresses
+ */
+export function isLanAddress(ip: string): boolean {
+  const address = ip.toLowerCase().replace(/^::ffff:/, '');
+  const v4 = address.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 127
+      || a === 10
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 169 && b === 254);
+  }
+  return address === '::1'
+    || /^f[cd][0-9a-f]{2}:/.test(address)
+    || /^fe[89ab][0-9a-f]:/.test(address);
+}
+
+/**
+ * URLs other devices on the network can open, one per LAN IPv4 address
+ */
+export function dashboardUrls(host: string, port: number): string[] {
+  if (host !== '0.0.0.0' && host !== '::') {
+    return [`http://${host}:${port}/`];
+  }
+  const urls: string[] = [];
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (address.family === 'IPv4' && !address.internal && isLanAddress(address.address)) {
+        urls.push(`http://${address.address}:${port}/`);
+      }
+    }
+  }
+  return urls.length > 0 ? urls : [`http://127.0.0.1:${port}/`];
+}
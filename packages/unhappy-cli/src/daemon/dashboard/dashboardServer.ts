@@ -0,0 +1,209 @@
+/**
+ * LAN dashboard served by the daemon
+ *
+ * A token-protected web UI and HTTP API for using sessions on this machine
+ * without the relay: list sessions, stream their messages, send prompts,
+ * answer permission requests and spawn sessions. Listens on loopback unless
+ * LAN access is turned on, and only clients on loopback or private network
+ * addresses are accepted.
+ *
+ * Streaming uses server-sent events (`GET /api/events`), which browsers
+ * support natively and which need no extra dependency.
+ */
+
+import fastify from 'fastify';
+import { z } from 'zod';
+import { serializerCompiler, validatorCompiler, ZodTypeProvider } from 'fastify-type-provider-zod';
+import { logger } from '@/ui/logger';
+import { SpawnSessionOptions, SpawnSessionResult } from '@/modules/common/registerCommonHandlers';
+import { DashboardHub } from './hub';
+import { isLanAddress, tokensMatch } from './config';
+import { DASHBOARD_PAGE } from './page';
+import { DashboardEvent } from './types';
+
+const HEARTBEAT_INTERVAL_MS = 20_000;
+const EVENTS_ROUTE = '/api/events';
+
+export async function startDashboardServer({
+  hub,
+  token,
+  host,
+  port,
+  spawnSession,
+  stopSession,
+}: {
+  hub: DashboardHub;
+  token: string;
+  host: string;
+  port: number;
+  spawnSession: (options: SpawnSessionOptions) => Promise<SpawnSessionResult>;
+  stopSession: (sessionId: string) => boolean;
+}): Promise<{ port: number; stop: () => Promise<void> }> {
+  const app = fastify({
+    logger: false,
+    // Lets request.ip reflect the real client, we never sit behind a proxy
+    trustProxy: false,
+  });
+  app.setValidatorCompiler(validatorCompiler);
+  app.setSerializerCompiler(serializerCompiler);
+  const typed = app.withTypeProvider<ZodTypeProvider>();
+  const closeStreams = new Set<() => void>();
+
+  app.addHook('onRequest', async (request, reply) => {
+    if (!isLanAddress(request.ip)) {
+      logger.debug(`[DASHBOARD] Rejected request from ${request.ip}`);
+      return reply.code(403).send({ error: 'The dashboard only accepts local network clients' });
+    }
+    if (request.url === '/' || request.url.startsWith('/?')) {
+      return;
+    }
+    // EventSource can't set headers, so only the stream takes the token as a
+    // query parameter. Everywhere else it would end up in history and logs.
+    const header = request.headers.authorization;
+    const provided = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : request.routeOptions.url === EVENTS_ROUTE
+        ? (request.query as { token?: string } | undefined)?.token
+        : undefined;
+    if (!tokensMatch(token, provided)) {
+      return reply.code(401).send({ error: 'Invalid dashboard token' });
+    }
+  });
+
+  app.get('/', async (_request, reply) => {
+    reply.header('Content-Type', 'text/html; charset=utf-8');
+    reply.header('Cache-Control', 'no-store');
+    return DASHBOARD_PAGE;
+  });
+
+  typed.get('/api/sessions', async () => {
+    return { sessions: hub.list() };
+  });
+
+  typed.get('/api/sessions/:id/messages', {
+    schema: {
+      params: z.object({ id: z.string() }),
+      querystring: z.object({ after: z.coerce.number().int().optional() }),
+    },
+  }, async (request, reply) => {
+    if (!hub.get(request.params.id)) {
+      return reply.code(404).send({ error: 'Session not found' });
+    }
+    return { messages: hub.messages(request.params.id, request.query.after) };
+  });
+
+  app.get(EVENTS_ROUTE, (request, reply) => {
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive',
+    });
+    const send = (event: DashboardEvent) => {
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+    for (const session of hub.list()) {
+      send({ type: 'session', session });
+    }
+    const unsubscribe = hub.subscribe(send);
+    const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      closeStreams.delete(close);
+      reply.raw.end();
+    };
+    closeStreams.add(close);
+    request.raw.on('close', close);
+  });
+
+  typed.post('/api/sessions/:id/messages', {
+    schema: {
+      params: z.object({ id: z.string() }),
+      body: z.object({ text: z.string().trim().min(1) }),
+    },
+  }, async (request, reply) => {
+    if (!hub.sendUserMessage(request.params.id, request.body.text)) {
+      return reply.code(404).send({ error: 'Session not found' });
+    }
+    return { success: true };
+  });
+
+  typed.post('/api/sessions/:id/permissions/:permissionId', {
+    schema: {
+      params: z.object({ id: z.string(), permissionId: z.string() }),
+      body: z.object({
+        approved: z.boolean(),
+        decision: z.enum(['approved', 'approved_for_session', 'denied', 'abort']).optional(),
+      }),
+    },
+  }, async (request, reply) => {
+    try {
+      await hub.callRpc(request.params.id, 'permission', {
+        id: request.params.permissionId,
+        approved: request.body.approved,
+        decision: request.body.decision ?? (request.body.approved ? 'approved' : 'denied'),
+        sentFrom: 'dashboard',
+      });
+      return { success: true };
+    } catch (error) {
+      return reply.code(502).send({ error: error instanceof Error ? error.message : 'Failed to answer permission' });
+    }
+  });
+
+  typed.post('/api/sessions/:id/abort', {
+    schema: { params: z.object({ id: z.string() }) },
+  }, async (request, reply) => {
+    try {
+      await hub.callRpc(request.params.id, 'abort', {});
+      return { success: true };
+    } catch (error) {
+      return reply.code(502).send({ error: error instanceof Error ? error.message : 'Failed to abort' });
+    }
+  });
+
+  typed.post('/api/sessions/:id/stop', {
+    schema: { params: z.object({ id: z.string() }) },
+  }, async (request) => {
+    return { success: stopSession(request.params.id) };
+  });
+
+  typed.post('/api/spawn', {
+    schema: {
+      body: z.object({
+        directory: z.string().trim().min(1),
+        agent: z.string().trim().min(1).optional(),
+        approvedNewDirectoryCreation: z.boolean().optional(),
+      }),
+    },
+  }, async (request, reply) => {
+    const result = await spawnSession({
+      directory: request.body.directory,
+      agent: request.body.agent,
+      approvedNewDirectoryCreation: request.body.approvedNewDirectoryCreation,
+    });
+    switch (result.type) {
+      case 'success':
+        return { success: true, sessionId: result.sessionId };
+      case 'requestToApproveDirectoryCreation':
+        return reply.code(409).send({ error: 'Directory does not exist', directory: result.directory });
+      case 'error':
+        return reply.code(500).send({ error: result.errorMessage });
+    }
+  });
+
+  const address = await app.listen({ port, host });
+  const boundPort = parseInt(address.split(':').pop()!);
+  logger.debug(`[DASHBOARD] Listening on ${host}:${boundPort}`);
+
+  return {
+    port: boundPort,
+    stop: async () => {
+      for (const close of [...closeStreams]) {
+        close();
+      }
+      await app.close();
+      logger.debug('[DASHBOARD] Stopped');
+    },
+  };
+}
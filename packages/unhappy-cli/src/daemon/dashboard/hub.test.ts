@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DashboardHub, MAX_MESSAGES_PER_SESSION } from './hub';
+import { isLanAddress, resolveDashboardConfig } from './config';
+import { startDashboardServer } from './dashboardServer';
+
+describe('DashboardHub', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps a bounded message backlog with increasing sequence numbers', () => {
+    const hub = new DashboardHub();
+    const events = Array.from({ length: MAX_MESSAGES_PER_SESSION + 5 }, (_, i) => ({ type: 'message' as const, time: i, message: { n: i } }));
+    hub.applyEvents('s1', events);
+
+    const messages = hub.messages('s1');
+    expect(messages).toHaveLength(MAX_MESSAGES_PER_SESSION);
+    expect(messages[0].seq).toBe(5);
+    expect(hub.messages('s1', MAX_MESSAGES_PER_SESSION + 2).map((m) => m.message)).toEqual([{ n: MAX_MESSAGES_PER_SESSION + 3 }, { n: MAX_MESSAGES_PER_SESSION + 4 }]);
+    expect(hub.get('s1')?.lastSeq).toBe(MAX_MESSAGES_PER_SESSION + 4);
+  });
+
+  it('delivers queued prompts to a waiting poll', async () => {
+    const hub = new DashboardHub();
+    hub.registerSession('s1', null);
+
+    const poll = hub.poll('s1', 10_000);
+    expect(hub.get('s1')?.linked).toBe(true);
+    expect(hub.sendUserMessage('s1', 'run the tests')).toBe(true);
+
+    const commands = await poll;
+    expect(commands).toMatchObject([{ type: 'user-message', message: { role: 'user', content: { text: 'run the tests' }, meta: { sentFrom: 'dashboard' } } }]);
+    expect(hub.sendUserMessage('unknown', 'hi')).toBe(false);
+  });
+
+  it('resolves RPC calls with the session result and times out otherwise', async () => {
+    vi.useFakeTimers();
+    const hub = new DashboardHub();
+    hub.registerSession('s1', null);
+
+    const answered = hub.callRpc('s1', 'permission', { id: 'p1', approved: true });
+    const [command] = await hub.poll('s1', 1000);
+    expect(command).toMatchObject({ type: 'rpc', method: 'permission', params: { id: 'p1' } });
+    hub.resolveRpc('s1', command.id, { ok: true });
+    await expect(answered).resolves.toEqual({ ok: true });
+
+    const unanswered = hub.callRpc('s1', 'abort', {}, 500);
+    const rejection = expect(unanswered).rejects.toThrow('Session did not answer abort');
+    await vi.advanceTimersByTimeAsync(500);
+    await rejection;
+  });
+
+  it('fails pending calls and refuses input once the session ends', async () => {
+    const hub = new DashboardHub();
+    hub.registerSession('s1', null);
+
+    const pending = hub.callRpc('s1', 'abort', {});
+    hub.applyEvents('s1', [{ type: 'end', time: Date.now() }]);
+
+    await expect(pending).rejects.toThrow('Session ended');
+    expect(hub.sendUserMessage('s1', 'hi')).toBe(false);
+    expect(hub.get('s1')).toMatchObject({ ended: true, linked: false });
+  });
+});
+
+describe('dashboard config', () => {
+  it('only accepts loopback and private addresses', () => {
+    expect(isLanAddress('127.0.0.1')).toBe(true);
+    expect(isLanAddress('::ffff:192.168.1.20')).toBe(true);
+    expect(isLanAddress('172.20.0.3')).toBe(true);
+    expect(isLanAddress('fd12:3456::1')).toBe(true);
+    expect(isLanAddress('172.32.0.1')).toBe(false);
+    expect(isLanAddress('8.8.8.8')).toBe(false);
+    expect(isLanAddress('2001:db8::1')).toBe(false);
+  });
+
+  it('lets the environment override settings', () => {
+    expect(resolveDashboardConfig({}, undefined)).toEqual({ enabled: false, host: '127.0.0.1', port: 7177 });
+    expect(resolveDashboardConfig({ UNHAPPY_DASHBOARD: '0', UNHAPPY_DASHBOARD_PORT: '8080' }, { enabled: true, port: 9000 }))
+      .toEqual({ enabled: false, host: '127.0.0.1', port: 8080 });
+    expect(resolveDashboardConfig({}, { enabled: true, host: '192.168.1.5' })).toEqual({ enabled: true, host: '192.168.1.5', port: 7177 });
+  });
+
+  it('only listens on the network once LAN access is turned on', () => {
+    expect(resolveDashboardConfig({}, { enabled: true, lan: true }).host).toBe('0.0.0.0');
+    expect(resolveDashboardConfig({ UNHAPPY_DASHBOARD_LAN: 'no' }, { enabled: true, lan: true }).host).toBe('127.0.0.1');
+    expect(resolveDashboardConfig({ UNHAPPY_DASHBOARD_LAN: '1' }, { enabled: true }).host).toBe('0.0.0.0');
+  });
+});
+
+describe('dashboard server', () => {
+  it('takes the token as a query parameter only on the event stream', async () => {
+    const token = 'test-token-0123456789';
+    const hub = new DashboardHub();
+    hub.registerSession('s1', null);
+    const server = await startDashboardServer({
+      hub,
+      token,
+      host: '127.0.0.1',
+      port: 0,
+      spawnSession: vi.fn(),
+      stopSession: vi.fn(),
+    });
+    const base = `http://127.0.0.1:${server.port}`;
+    try {
+      expect((await fetch(`${base}/api/sessions?token=${token}`)).status).toBe(401);
+      expect((await fetch(`${base}/api/sessions`, { headers: { Authorization: `Bearer ${token}` } })).status).toBe(200);
+
+      const controller = new AbortController();
+      const stream = await fetch(`${base}/api/events?token=${token}`, { signal: controller.signal });
+      expect(stream.status).toBe(200);
+      controller.abort();
+    } finally {
+      await server.stop();
+    }
+  });
+});
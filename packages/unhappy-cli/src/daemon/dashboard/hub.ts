@@ -0,0 +1,295 @@
+/**
+ * In-memory state behind the LAN dashboard
+ *
+ * Keeps the latest snapshot and a bounded message backlog per session, fed by
+ * the sessions' local links, and queues dashboard input until the session
+ * process polls for it.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { logger } from '@/ui/logger';
+import type { Metadata, UserMessage } from '@/api/types';
+import {
+  DashboardEvent,
+  DashboardMessage,
+  DashboardSessionSnapshot,
+  LocalSessionCommand,
+  LocalSessionEvent,
+} from './types';
+
+/** Messages kept per session, older ones are only in the relay transcript */
+export const MAX_MESSAGES_PER_SESSION = 500;
+
+/** A session counts as linked while it polled this recently */
+const LINK_STALE_MS = 60_000;
+
+/** Ended sessions stay listed this long */
+const ENDED_RETENTION_MS = 60 * 60 * 1000;
+
+const RPC_TIMEOUT_MS = 30_000;
+
+type PendingRpc = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+type HubSession = {
+  snapshot: Omit<DashboardSessionSnapshot, 'linked' | 'lastSeq'>;
+  messages: DashboardMessage[];
+  nextSeq: number;
+  endedAt: number | null;
+  lastPollAt: number;
+  commands: LocalSessionCommand[];
+  waiter: ((commands: LocalSessionCommand[]) => void) | null;
+  rpcs: Map<string, PendingRpc>;
+};
+
+export class DashboardHub {
+  private sessions = new Map<string, HubSession>();
+  private listeners = new Set<(event: DashboardEvent) => void>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Called from the session-started webhook, so sessions show up before their first event
+   */
+  registerSession(sessionId: string, metadata: Metadata | null): void {
+    const session = this.ensure(sessionId);
+    if (metadata) {
+      session.snapshot.metadata = metadata;
+    }
+    this.emitSession(session);
+  }
+
+  applyEvents(sessionId: string, events: LocalSessionEvent[]): void {
+    const session = this.ensure(sessionId);
+    for (const event of events) {
+      switch (event.type) {
+        case 'message': {
+          const message: DashboardMessage = { seq: session.nextSeq++, time: event.time, message: event.message };
+          session.messages.push(message);
+          if (session.messages.length > MAX_MESSAGES_PER_SESSION) {
+            session.messages.splice(0, session.messages.length - MAX_MESSAGES_PER_SESSION);
+          }
+          this.emit({ type: 'message', sessionId, message });
+          break;
+        }
+        case 'state':
+          session.snapshot.agentState = event.agentState;
+          break;
+        case 'metadata':
+          session.snapshot.metadata = event.metadata;
+          break;
+        case 'alive':
+          session.snapshot.thinking = event.thinking;
+          session.snapshot.mode = event.mode;
+          session.snapshot.activeAt = event.time;
+          break;
+        case 'end':
+          session.snapshot.ended = true;
+          session.snapshot.thinking = false;
+          session.endedAt = event.time;
+          this.failPendingRpcs(session, 'Session ended');
+          break;
+      }
+    }
+    this.emitSession(session);
+  }
+
+  /**
+   * Long poll from a session process. Resolves with the queued commands, or
+   * an empty list after the timeout.
+   */
+  poll(sessionId: string, timeoutMs: number): Promise<LocalSessionCommand[]> {
+    const session = this.ensure(sessionId);
+    const wasLinked = this.isLinked(session);
+    session.lastPollAt = this.now();
+    if (!wasLinked) {
+      this.emitSession(session);
+    }
+
+    // Only one poll per session, an older one is answered empty
+    session.waiter?.([]);
+    session.waiter = null;
+
+    if (session.commands.length > 0) {
+      return Promise.resolve(session.commands.splice(0));
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        if (session.waiter === deliver) {
+          session.waiter = null;
+        }
+        resolve([]);
+      }, timeoutMs);
+      const deliver = (commands: LocalSessionCommand[]) => {
+        clearTimeout(timer);
+        resolve(commands);
+      };
+      session.waiter = deliver;
+    });
+  }
+
+  resolveRpc(sessionId: string, id: string, result: unknown): void {
+    const pending = this.sessions.get(sessionId)?.rpcs.get(id);
+    if (!pending) {
+      logger.debug(`[DASHBOARD] RPC result for unknown call ${id}`);
+      return;
+    }
+    this.sessions.get(sessionId)!.rpcs.delete(id);
+    clearTimeout(pending.timer);
+    pending.resolve(result);
+  }
+
+  /**
+   * Queue a prompt for the session. False when the session is gone.
+   */
+  sendUserMessage(sessionId: string, text: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.snapshot.ended) {
+      return false;
+    }
+    const message: UserMessage = {
+      role: 'user',
+      content: { type: 'text', text },
+      meta: { sentFrom: 'dashboard' },
+    };
+    this.enqueue(session, { id: randomUUID(), type: 'user-message', message });
+    return true;
+  }
+
+  /**
+   * Call a session RPC handler (e.g. `permission`, `abort`) through the session's link
+   */
+  callRpc(sessionId: string, method: string, params: unknown, timeoutMs: number = RPC_TIMEOUT_MS): Promise<unknown> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.snapshot.ended) {
+      return Promise.reject(new Error('Session not found'));
+    }
+    const id = randomUUID();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        session.rpcs.delete(id);
+        reject(new Error(`Session did not answer ${method}`));
+      }, timeoutMs);
+      session.rpcs.set(id, { resolve, reject, timer });
+      this.enqueue(session, { id, type: 'rpc', method, params });
+    });
+  }
+
+  list(): DashboardSessionSnapshot[] {
+    this.prune();
+    return [...this.sessions.values()]
+      .map((session) => this.snapshot(session))
+      .sort((a, b) => b.activeAt - a.activeAt);
+  }
+
+  get(sessionId: string): DashboardSessionSnapshot | null {
+    const session = this.sessions.get(sessionId);
+    return session ? this.snapshot(session) : null;
+  }
+
+  messages(sessionId: string, after: number = -1): DashboardMessage[] {
+    return this.sessions.get(sessionId)?.messages.filter((m) => m.seq > after) ?? [];
+  }
+
+  subscribe(listener: (event: DashboardEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Answer all pending polls and RPC calls, used on daemon shutdown
+   */
+  close(): void {
+    for (const session of this.sessions.values()) {
+      session.waiter?.([]);
+      session.waiter = null;
+      this.failPendingRpcs(session, 'Daemon is shutting down');
+    }
+    this.listeners.clear();
+  }
+
+  private ensure(sessionId: string): HubSession {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = {
+        snapshot: {
+          id: sessionId,
+          metadata: null,
+          agentState: null,
+          thinking: false,
+          mode: 'remote',
+          activeAt: this.now(),
+          ended: false,
+        },
+        messages: [],
+        nextSeq: 0,
+        endedAt: null,
+        lastPollAt: 0,
+        commands: [],
+        waiter: null,
+        rpcs: new Map(),
+      };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private enqueue(session: HubSession, command: LocalSessionCommand): void {
+    if (session.waiter) {
+      const deliver = session.waiter;
+      session.waiter = null;
+      deliver([...session.commands.splice(0), command]);
+    } else {
+      session.commands.push(command);
+    }
+  }
+
+  private isLinked(session: HubSession): boolean {
+    return !session.snapshot.ended && (session.waiter !== null || this.now() - session.lastPollAt < LINK_STALE_MS);
+  }
+
+  private snapshot(session: HubSession): DashboardSessionSnapshot {
+    return {
+      ...session.snapshot,
+      linked: this.isLinked(session),
+      lastSeq: session.nextSeq - 1,
+    };
+  }
+
+  private failPendingRpcs(session: HubSession, reason: string): void {
+    for (const pending of session.rpcs.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+    }
+    session.rpcs.clear();
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - ENDED_RETENTION_MS;
+    for (const [id, session] of this.sessions) {
+      if (session.endedAt !== null && session.endedAt < cutoff) {
+        this.sessions.delete(id);
+        this.emit({ type: 'session-removed', sessionId: id });
+      }
+    }
+  }
+
+  private emitSession(session: HubSession): void {
+    this.emit({ type: 'session', session: this.snapshot(session) });
+  }
+
+  private emit(event: DashboardEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.debug('[DASHBOARD] Listener failed', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Single-page dashboard UI, served as-is from `GET /`
+ *
+ * Plain DOM code with no build step. The token comes from `#token=...` in the
+ * URL printed by `unhappy daemon dashboard` and is kept in localStorage.
+ */
+
+export const DASHBOARD_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Unhappy dashboard</title>
+<style>
+  :root { color-scheme: light dark; --border: #8884; --muted: #888; --accent: #007aff; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; display: flex; height: 100vh; }
+  aside { width: 300px; border-right: 1px solid var(--border); display: flex; flex-direction: column; }
+  main { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+  h1 { font-size: 16px; margin: 12px; }
+  #sessions { flex: 1; overflow: auto; }
+  .session { padding: 10px 12px; border-bottom: 1px solid var(--border); cursor: pointer; }
+  .session.selected { background: #8882; }
+  .session .path { font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .muted { color: var(--muted); font-size: 12px; }
+  .dot { display: inline-block; width: 8px; height: 8px; border-radius: 4px; margin-right: 6px; background: #34c759; }
+  .dot.thinking { background: var(--accent); }
+  .dot.ended, .dot.unlinked { background: #999; }
+  form { display: flex; gap: 6px; padding: 8px 12px; border-top: 1px solid var(--border); }
+  input, select, button { font: inherit; padding: 6px 8px; border-radius: 6px; border: 1px solid var(--border); }
+  input { flex: 1; min-width: 0; }
+  button { cursor: pointer; background: transparent; }
+  button.primary { background: var(--accent); color: white; border-color: var(--accent); }
+  #header { padding: 10px 16px; border-bottom: 1px solid var(--border); display: flex; gap: 8px; align-items: center; }
+  #header .title { flex: 1; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  #messages { flex: 1; overflow: auto; padding: 12px 16px; }
+  .message { margin-bottom: 10px; white-space: pre-wrap; word-break: break-word; }
+  .message.user { background: #8882; padding: 8px 10px; border-radius: 8px; }
+  .message.tool { font-family: ui-monospace, monospace; font-size: 12px; color: var(--muted); }
+  #permissions .permission { margin: 8px 16px; padding: 10px; border: 1px solid #ff9500; border-radius: 8px; }
+  #permissions pre { font-size: 12px; max-height: 160px; overflow: auto; }
+  #empty { margin: auto; color: var(--muted); }
+</style>
+</head>
+<body>
+<aside>
+  <h1>Sessions</h1>
+  <div id="sessions"></div>
+  <form id="spawn">
+    <input id="spawn-dir" placeholder="Directory for a new session" required>
+    <select id="spawn-agent"><option value="claude">Claude</option><option value="codex">Codex</option><option value="gemini">Gemini</option></select>
+    <button class="primary">Start</button>
+  </form>
+</aside>
+<main>
+  <div id="empty">Select a session</div>
+  <div id="header" hidden>
+    <span class="title" id="title"></span>
+    <button id="abort">Abort turn</button>
+    <button id="stop">Stop session</button>
+  </div>
+  <div id="messages" hidden></div>
+  <div id="permissions"></div>
+  <form id="send" hidden>
+    <input id="prompt" placeholder="Message" autocomplete="off">
+    <button class="primary">Send</button>
+  </form>
+</main>
+<script>
+(function () {
+  var hashToken = new URLSearchParams(location.hash.slice(1)).get('token');
+  if (hashToken) { localStorage.setItem('unhappy-dashboard-token', hashToken); history.replaceState(null, '', '/'); }
+  var token = localStorage.getItem('unhappy-dashboard-token') || prompt('Dashboard token (unhappy daemon dashboard)') || '';
+  localStorage.setItem('unhappy-dashboard-token', token);
+
+  var sessions = {};
+  var messages = {};
+  var selected = null;
+  var $ = function (id) { return document.getElementById(id); };
+
+  function api(method, path, body) {
+    var headers = { 'Authorization': 'Bearer ' + token };
+    if (body) { headers['Content-Type'] = 'application/json'; }
+    return fetch(path, { method: method, headers: headers, body: body ? JSON.stringify(body) : undefined }).then(function (r) {
+      return r.json().then(function (data) {
+        if (!r.ok) { throw new Error(data.error || ('HTTP ' + r.status)); }
+        return data;
+      });
+    });
+  }
+  function fail(error) { alert(error.message || String(error)); }
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) { node.className = className; }
+    if (text !== undefined) { node.textContent = text; }
+    return node;
+  }
+  function name(session) {
+    var path = session.metadata && session.metadata.path || session.id;
+    return path.split('/').filter(Boolean).pop() || path;
+  }
+
+  // Same message bodies the session sends to the relay, see ApiSessionClient
+  function describe(body) {
+    if (!body || typeof body !== 'object') { return null; }
+    if (body.role === 'user') { return { kind: 'user', text: body.content && body.content.text || '' }; }
+    var content = body.content || {};
+    var data = content.data || {};
+    if (content.type === 'output') {
+      if (data.type !== 'assistant' || !data.message || !Array.isArray(data.message.content)) { return null; }
+      var parts = data.message.content.map(function (block) {
+        if (block.type === 'text') { return block.text; }
+        if (block.type === 'tool_use') { return '\\u2192 ' + block.name; }
+        return null;
+      }).filter(Boolean);
+      return parts.length ? { kind: 'agent', text: parts.join('\\n') } : null;
+    }
+    if (content.type === 'codex' || content.type === 'acp') {
+      if (data.type === 'message') { return { kind: 'agent', text: data.message }; }
+      if (data.type === 'tool-call') { return { kind: 'tool', text: '\\u2192 ' + data.name }; }
+      return null;
+    }
+    if (content.type === 'event' && data.type === 'message') { return { kind: 'tool', text: data.message }; }
+    return null;
+  }
+
+  function renderSessions() {
+    var list = $('sessions');
+    list.textContent = '';
+    Object.values(sessions).sort(function (a, b) { return b.activeAt - a.activeAt; }).forEach(function (session) {
+      var row = el('div', 'session' + (session.id === selected ? ' selected' : ''));
+      var title = el('div', 'path');
+      var state = session.ended ? 'ended' : !session.linked ? 'unlinked' : session.thinking ? 'thinking' : '';
+      title.appendChild(el('span', 'dot ' + state));
+      title.appendChild(document.createTextNode(name(session)));
+      row.appendChild(title);
+      var meta = session.metadata || {};
+      row.appendChild(el('div', 'muted', [meta.flavor || 'claude', meta.host, session.ended ? 'ended' : session.thinking ? 'working' : 'idle'].filter(Boolean).join(' \\u00b7 ')));
+      row.onclick = function () { select(session.id); };
+      list.appendChild(row);
+    });
+  }
+
+  function renderMessages() {
+    var box = $('messages');
+    var atBottom = box.scrollHeight - box.scrollTop - box.clientHeight < 40;
+    box.textContent = '';
+    (messages[selected] || []).forEach(function (m) {
+      var d = describe(m.message);
+      if (d && d.text) { box.appendChild(el('div', 'message ' + d.kind, d.text)); }
+    });
+    if (atBottom) { box.scrollTop = box.scrollHeight; }
+  }
+
+  function renderPermissions() {
+    var box = $('permissions');
+    box.textContent = '';
+    var session = sessions[selected];
+    var requests = session && session.agentState && session.agentState.requests || {};
+    Object.keys(requests).forEach(function (id) {
+      var request = requests[id];
+      var card = el('div', 'permission');
+      card.appendChild(el('strong', '', request.tool));
+      card.appendChild(el('pre', '', JSON.stringify(request.arguments, null, 2)));
+      [['Approve', 'approved', true], ['Approve for session', 'approved_for_session', true], ['Deny', 'denied', false]].forEach(function (option) {
+        var button = el('button', option[2] ? 'primary' : '', option[0]);
+        button.onclick = function () {
+          api('POST', '/api/sessions/' + selected + '/permissions/' + encodeURIComponent(id), { approved: option[2], decision: option[1] }).catch(fail);
+        };
+        card.appendChild(button);
+      });
+      box.appendChild(card);
+    });
+  }
+
+  function select(id) {
+    selected = id;
+    ['header', 'messages', 'send'].forEach(function (part) { $(part).hidden = false; });
+    $('empty').hidden = true;
+    $('title').textContent = sessions[id] && sessions[id].metadata ? sessions[id].metadata.path : id;
+    renderSessions();
+    renderPermissions();
+    api('GET', '/api/sessions/' + id + '/messages').then(function (data) {
+      messages[id] = data.messages;
+      renderMessages();
+    }).catch(fail);
+  }
+
+  var events = new EventSource('/api/events?token=' + encodeURIComponent(token));
+  events.addEventListener('session', function (e) {
+    var session = JSON.parse(e.data).session;
+    sessions[session.id] = session;
+    renderSessions();
+    if (session.id === selected) { renderPermissions(); }
+  });
+  events.addEventListener('message', function (e) {
+    var event = JSON.parse(e.data);
+    if (!messages[event.sessionId]) { return; }
+    messages[event.sessionId].push(event.message);
+    if (event.sessionId === selected) { renderMessages(); }
+  });
+  events.addEventListener('session-removed', function (e) {
+    delete sessions[JSON.parse(e.data).sessionId];
+    renderSessions();
+  });
+
+  $('send').onsubmit = function (e) {
+    e.preventDefault();
+    var text = $('prompt').value.trim();
+    if (!text || !selected) { return; }
+    api('POST', '/api/sessions/' + selected + '/messages', { text: text }).then(function () { $('prompt').value = ''; }).catch(fail);
+  };
+  $('abort').onclick = function () { api('POST', '/api/sessions/' + selected + '/abort').catch(fail); };
+  $('stop').onclick = function () {
+    if (confirm('Stop this session?')) { api('POST', '/api/sessions/' + selected + '/stop').catch(fail); }
+  };
+  $('spawn').onsubmit = function (e) {
+    e.preventDefault();
+    var directory = $('spawn-dir').value.trim();
+    var body = { directory: directory, agent: $('spawn-agent').value };
+    api('POST', '/api/spawn', body).catch(function (error) {
+      if (error.message === 'Directory does not exist' && confirm('Create ' + directory + '?')) {
+        body.approvedNewDirectoryCreation = true;
+        return api('POST', '/api/spawn', body);
+      }
+      throw error;
+    }).then(function (result) {
+      if (result && result.sessionId) { $('spawn-dir').value = ''; }
+    }).catch(fail);
+  };
+})();
+</script>
+</body>
+</html>
+`;
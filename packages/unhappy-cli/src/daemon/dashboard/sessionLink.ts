@@ -0,0 +1,173 @@
+/**
+ * Session side of the local link to the daemon's LAN dashboard
+ *
+ * Only active while the daemon runs the dashboard (its state file has
+ * `dashboardPort`). Events are batched and posted to the control server,
+ * dashboard input is picked up by long polling. Both work without the relay.
+ */
+
+import { logger } from '@/ui/logger';
+import { readDaemonState } from '@/persistence';
+import type { UserMessage } from '@/api/types';
+import { LocalSessionCommand, LocalSessionEvent } from './types';
+
+const POLL_TIMEOUT_MS = 25_000;
+const RETRY_DELAY_MS = 5_000;
+const FLUSH_DELAY_MS = 50;
+/** Events kept while the daemon can't be reached */
+const MAX_QUEUED_EVENTS = 1000;
+
+export type SessionLinkHandlers = {
+  onUserMessage: (message: UserMessage) => void;
+  invokeRpc: (method: string, params: unknown) => Promise<unknown>;
+};
+
+export class SessionLink {
+  private queue: LocalSessionEvent[] = [];
+  private controlPort: number | null = null;
+  private active: boolean | null = null; // null until the daemon state was read
+  private closed = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private pollAbort: AbortController | null = null;
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly handlers: SessionLinkHandlers,
+  ) {}
+
+  async start(): Promise<void> {
+    let state: Awaited<ReturnType<typeof readDaemonState>> = null;
+    try {
+      state = await readDaemonState();
+    } catch (error) {
+      logger.debug('[SESSION LINK] Could not read daemon state', error);
+    }
+    this.active = !!state?.dashboardPort;
+    if (!this.active || !state) {
+      this.queue = [];
+      return;
+    }
+    this.controlPort = state.httpPort;
+    logger.debug(`[SESSION LINK] Linking session ${this.sessionId} to the daemon dashboard`);
+    this.scheduleFlush();
+    void this.pollLoop();
+  }
+
+  push(event: LocalSessionEvent): void {
+    if (this.active === false || this.closed) {
+      return;
+    }
+    this.queue.push(event);
+    if (this.queue.length > MAX_QUEUED_EVENTS) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUED_EVENTS);
+    }
+    if (this.active) {
+      this.scheduleFlush();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    if (this.active) {
+      this.queue.push({ type: 'end', time: Date.now() });
+      await this.flush();
+    }
+    this.closed = true;
+    this.pollAbort?.abort();
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  private async flush(): Promise<void> {
+    // One request at a time keeps events in order
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (this.queue.length === 0) {
+      return;
+    }
+    const events = this.queue.splice(0);
+    this.flushing = this.post('/session-link/events', { sessionId: this.sessionId, events }, 5_000)
+      .then(() => undefined)
+      .catch((error) => {
+        logger.debug('[SESSION LINK] Failed to push events, retrying', error);
+        this.queue.unshift(...events);
+        if (!this.closed) {
+          setTimeout(() => this.scheduleFlush(), RETRY_DELAY_MS);
+        }
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+    await this.flushing;
+  }
+
+  private async pollLoop(): Promise<void> {
+    while (!this.closed) {
+      try {
+        this.pollAbort = new AbortController();
+        const response = await this.post('/session-link/poll', { sessionId: this.sessionId }, POLL_TIMEOUT_MS + 10_000, this.pollAbort.signal);
+        for (const command of (response.commands ?? []) as LocalSessionCommand[]) {
+          await this.handle(command);
+        }
+      } catch (error) {
+        if (this.closed) {
+          return;
+        }
+        logger.debug('[SESSION LINK] Poll failed, retrying', error);
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+        // The daemon may have restarted on another port
+        const state = await readDaemonState().catch(() => null);
+        if (state?.httpPort) {
+          this.controlPort = state.httpPort;
+        }
+      }
+    }
+  }
+
+  private async handle(command: LocalSessionCommand): Promise<void> {
+    if (command.type === 'user-message') {
+      this.handlers.onUserMessage(command.message);
+      return;
+    }
+    let result: unknown;
+    try {
+      result = await this.handlers.invokeRpc(command.method, command.params);
+    } catch (error) {
+      result = { error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    await this.post('/session-link/rpc-result', { sessionId: this.sessionId, id: command.id, result: result ?? null }, 5_000)
+      .catch((error) => logger.debug('[SESSION LINK] Failed to post RPC result', error));
+  }
+
+  private async post(path: string, body: unknown, timeoutMs: number, signal?: AbortSignal): Promise<any> {
+    if (!this.controlPort) {
+      throw new Error('Daemon port unknown');
+    }
+    const response = await fetch(`http://127.0.0.1:${this.controlPort}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Request failed: ${path}, HTTP ${response.status}`);
+    }
+    return await response.json();
+  }
+}
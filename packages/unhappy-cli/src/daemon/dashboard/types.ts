@@ -0,0 +1,72 @@
+/**
+ * Types for the LAN dashboard and the local link between sessions and the daemon
+ *
+ * Sessions mirror what they send to the relay (same plaintext message bodies
+ * ApiSessionClient encrypts) to the daemon over its localhost control server.
+ * The daemon hands dashboard input back to them as commands.
+ */
+
+import { z } from 'zod';
+import type { AgentState, Metadata, UserMessage } from '@/api/types';
+
+/**
+ * Event a session pushes to the daemon
+ * - message: a message body exactly as sent to the relay (before encryption)
+ * - state / metadata: latest agent state or metadata snapshot
+ * - alive: keep-alive with the current turn state
+ * - end: the session process is exiting
+ */
+export const LocalSessionEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('message'), time: z.number(), message: z.any() }),
+  z.object({ type: z.literal('state'), agentState: z.any().nullable() }),
+  z.object({ type: z.literal('metadata'), metadata: z.any() }),
+  z.object({ type: z.literal('alive'), time: z.number(), thinking: z.boolean(), mode: z.enum(['local', 'remote']) }),
+  z.object({ type: z.literal('end'), time: z.number() }),
+]);
+
+export type LocalSessionEvent = z.infer<typeof LocalSessionEventSchema>;
+
+/**
+ * Command the daemon hands to a session, picked up by long polling
+ * - user-message: deliver like a message from the app
+ * - rpc: call a registered session RPC handler, the result is posted back
+ */
+export type LocalSessionCommand =
+  | { id: string; type: 'user-message'; message: UserMessage }
+  | { id: string; type: 'rpc'; method: string; params: unknown };
+
+export type DashboardMessage = {
+  seq: number;
+  time: number;
+  message: unknown;
+};
+
+/**
+ * What the dashboard shows for a session
+ */
+export type DashboardSessionSnapshot = {
+  id: string;
+  metadata: Metadata | null;
+  agentState: AgentState | null;
+  thinking: boolean;
+  mode: 'local' | 'remote';
+  activeAt: number;
+  ended: boolean;
+  /** Whether the session process is polling for commands, false means input can't be delivered */
+  linked: boolean;
+  lastSeq: number;
+};
+
+/**
+ * Pushed to dashboard clients over the event stream
+ */
+export type DashboardEvent =
+  | { type: 'session'; session: DashboardSessionSnapshot }
+  | { type: 'message'; sessionId: string; message: DashboardMessage }
+  | { type: 'session-removed'; sessionId: string };
+
+export type DashboardConfig = {
+  enabled: boolean;
+  host: string;
+  port: number;
+};
@@ -7,6 +7,7 @@
 
 import spawn from 'cross-spawn';
 import psList from 'ps-list';
+import { INHIBITOR_WHO } from '@/utils/keepAwake';
 
 /**
  * Find all Unhappy CLI processes (including current process)
@@ -69,6 +70,46 @@ export async function findAllUnhappyProcesses(): Promise<
   }
 }
 
+/**
+ * Find sleep inhibitors held by Unhappy processes, with the process each
+ * one belongs to (caffeinate -w <pid>, or the watcher under systemd-inhibit)
+ */
+export async function findKeepAwakeInhibitors(): Promise<
+  Array<{ pid: number; name: string; ownerPid: number | null }>
+> {
+  try {
+    const processes = await psList();
+    const inhibitors: Array<{ pid: number; name: string; ownerPid: number | null }> =
+      [];
+
+    for (const proc of processes) {
+      const cmd = proc.cmd || '';
+      if (proc.name === 'caffeinate' && cmd.includes('-im')) {
+        const owner = cmd.match(/-w (\d+)/);
+        inhibitors.push({
+          pid: proc.pid,
+          name: 'caffeinate',
+          ownerPid: owner ? Number(owner[1]) : null,
+        });
+      } else if (
+        proc.name === 'systemd-inhibit' &&
+        cmd.includes(`--who=${INHIBITOR_WHO}`)
+      ) {
+        const owner = cmd.match(/kill -0 (\d+)/);
+        inhibitors.push({
+          pid: proc.pid,
+          name: 'systemd-inhibit',
+          ownerPid: owner ? Number(owner[1]) : null,
+        });
+      }
+    }
+
+    return inhibitors;
+  } catch (error) {
+    return [];
+  }
+}
+
 /**
  * Find all runaway Unhappy CLI processes that should be killed
  */
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DaemonHealth } from './health';
+
+describe('DaemonHealth', () => {
+  it('keeps cumulative counters and drains latency samples per report', () => {
+    let now = 1_000;
+    const health = new DaemonHealth(() => 2, () => now);
+
+    health.recordConnect();
+    health.recordSpawn('success');
+    health.recordSpawn('error');
+    health.recordSpawn('requestToApproveDirectoryCreation');
+    health.recordRpc(12.4, true);
+    health.recordRpc(80, false);
+    now += 61_000;
+
+    expect(health.takeReport('m1')).toMatchObject({
+      machineId: 'm1',
+      time: 62_000,
+      uptimeSeconds: 61,
+      activeSessions: 2,
+      sessionsSpawned: 1,
+      spawnFailures: 1,
+      rpcCalls: 2,
+      rpcErrors: 1,
+      rpcLatencyMs: [12, 80],
+      reconnects: 0,
+    });
+
+    health.recordConnect();
+    health.recordConnect();
+    expect(health.takeReport('m1')).toMatchObject({ rpcCalls: 2, rpcLatencyMs: [], reconnects: 2 });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Operational counters the daemon reports to the server with `machine-health`
+ *
+ * Only numbers, nothing about session content. Counters are cumulative since
+ * the daemon started, the server turns them into deltas. RPC latencies are
+ * raw samples since the previous report.
+ */
+
+import packageJson from '../../package.json';
+
+/** Latency samples kept between two reports */
+const MAX_LATENCY_SAMPLES = 200;
+
+export type MachineHealthReport = {
+  machineId: string;
+  time: number;
+  cliVersion: string;
+  uptimeSeconds: number;
+  activeSessions: number;
+  sessionsSpawned: number;
+  spawnFailures: number;
+  rpcCalls: number;
+  rpcErrors: number;
+  rpcLatencyMs: number[];
+  reconnects: number;
+};
+
+export class DaemonHealth {
+  private readonly startedAt: number;
+  private sessionsSpawned = 0;
+  private spawnFailures = 0;
+  private rpcCalls = 0;
+  private rpcErrors = 0;
+  private rpcLatencyMs: number[] = [];
+  private connects = 0;
+
+  constructor(
+    private readonly activeSessions: () => number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.startedAt = now();
+  }
+
+  /** Directory approval prompts are neither a success nor a failure */
+  recordSpawn(result: 'success' | 'error' | 'requestToApproveDirectoryCreation'): void {
+    if (result === 'success') {
+      this.sessionsSpawned++;
+    } else if (result === 'error') {
+      this.spawnFailures++;
+    }
+  }
+
+  recordRpc(durationMs: number, ok: boolean): void {
+    this.rpcCalls++;
+    if (!ok) {
+      this.rpcErrors++;
+    }
+    if (this.rpcLatencyMs.length < MAX_LATENCY_SAMPLES) {
+      this.rpcLatencyMs.push(Math.max(0, Math.round(durationMs)));
+    }
+  }
+
+  /** Called on every socket connect, all but the first are reconnects */
+  recordConnect(): void {
+    this.connects++;
+  }
+
+  /**
+   * Report for the server, drains the latency samples
+   */
+  takeReport(machineId: string): MachineHealthReport {
+    const rpcLatencyMs = this.rpcLatencyMs;
+    this.rpcLatencyMs = [];
+    return {
+      machineId,
+      time: this.now(),
+      cliVersion: packageJson.version,
+      uptimeSeconds: Math.floor((this.now() - this.startedAt) / 1000),
+      activeSessions: this.activeSessions(),
+      sessionsSpawned: this.sessionsSpawned,
+      spawnFailures: this.spawnFailures,
+      rpcCalls: this.rpcCalls,
+      rpcErrors: this.rpcErrors,
+      rpcLatencyMs,
+      reconnects: Math.max(0, this.connects - 1),
+    };
+  }
+}
@@ -1,9 +1,24 @@
 import { logger } from '@/ui/logger';
 import { install as installMac } from './mac/install';
+import { install as installLinux } from './linux/install';
 
 export async function install(): Promise<void> {
+  if (process.platform === 'linux') {
+    // systemd --user units belong to the invoking user, root would install
+    // the daemon for the wrong account
+    if (process.getuid && process.getuid() === 0) {
+      throw new Error(
+        'Daemon installation on Linux uses a systemd user service. Please run without sudo.',
+      );
+    }
+
+    logger.info('Installing Unhappy CLI daemon for Linux (systemd user service)...');
+    await installLinux();
+    return;
+  }
+
   if (process.platform !== 'darwin') {
-    throw new Error('Daemon installation is currently only supported on macOS');
+    throw new Error('Daemon installation is currently only supported on macOS and Linux');
   }
 
   if (process.getuid && process.getuid() !== 0) {
@@ -0,0 +1,62 @@
+/**
+ * Installation script for Unhappy daemon as a systemd user service
+ *
+ * Writes `~/.config/systemd/user/unhappy-daemon.service`, enables and starts it,
+ * and enables lingering when the system allows it so the daemon keeps running
+ * while the user is logged out.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { dirname } from 'path';
+import os from 'os';
+import { logger } from '@/ui/logger';
+import { buildCurrentSystemdUnit, getSystemdUnitPath, SYSTEMD_UNIT_NAME, systemctlUser } from './systemd';
+
+export async function install(): Promise<void> {
+    try {
+        // systemd must be reachable for the current user
+        const manager = systemctlUser(['show-environment']);
+        if (!manager.ok) {
+            throw new Error(`systemd user manager is not available: ${manager.output}`);
+        }
+
+        // Write unit file
+        const unitPath = getSystemdUnitPath();
+        mkdirSync(dirname(unitPath), { recursive: true });
+        writeFileSync(unitPath, buildCurrentSystemdUnit(), { mode: 0o644 });
+        logger.info(`Created daemon unit at ${unitPath}`);
+
+        // Reload and (re)start
+        const reload = systemctlUser(['daemon-reload']);
+        if (!reload.ok) {
+            throw new Error(`Failed to reload systemd user units: ${reload.output}`);
+        }
+        const enable = systemctlUser(['enable', SYSTEMD_UNIT_NAME]);
+        if (!enable.ok) {
+            throw new Error(`Failed to enable ${SYSTEMD_UNIT_NAME}: ${enable.output}`);
+        }
+        const restart = systemctlUser(['restart', SYSTEMD_UNIT_NAME]);
+        if (!restart.ok) {
+            throw new Error(`Failed to start ${SYSTEMD_UNIT_NAME}: ${restart.output}`);
+        }
+
+        // Keep the user manager alive after logout - allowed by default polkit rules
+        // on most distributions, but not everywhere
+        const username = os.userInfo().username;
+        const linger = spawnSync('loginctl', ['enable-linger', username], { encoding: 'utf8' });
+        if (linger.error || linger.status !== 0) {
+            logger.info(`Could not enable lingering for ${username}, the daemon will stop when you log out`);
+            logger.info(`Ask an administrator to run: sudo loginctl enable-linger ${username}`);
+        } else {
+            logger.info(`Enabled lingering for ${username}`);
+        }
+
+        logger.info('Daemon installed and started successfully');
+        logger.info(`Check status with: systemctl --user status ${SYSTEMD_UNIT_NAME}`);
+
+    } catch (error) {
+        logger.debug('Failed to install daemon:', error);
+        throw error;
+    }
+}
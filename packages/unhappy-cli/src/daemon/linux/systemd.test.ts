@@ -0,0 +1,48 @@
+/**
+ * Unit tests for systemd user unit generation
+ */
+import { describe, expect, it } from 'vitest';
+import { buildSystemdUnit } from './systemd';
+
+describe('buildSystemdUnit', () => {
+    it('should run daemon start-sync with the given node and entrypoint', () => {
+        const unit = buildSystemdUnit({
+            nodePath: '/usr/bin/node',
+            entrypoint: '/opt/unhappy/dist/index.mjs',
+            env: {}
+        });
+
+        expect(unit).toContain('ExecStart=/usr/bin/node --no-warnings --no-deprecation /opt/unhappy/dist/index.mjs daemon start-sync');
+        expect(unit).toContain('KillMode=process');
+        expect(unit).toContain('Restart=on-failure');
+        expect(unit).toContain('WantedBy=default.target');
+        expect(unit.startsWith('[Unit]')).toBe(true);
+    });
+
+    it('should forward only known environment variables', () => {
+        const unit = buildSystemdUnit({
+            nodePath: '/usr/bin/node',
+            entrypoint: '/opt/unhappy/dist/index.mjs',
+            env: {
+                PATH: '/usr/local/bin:/usr/bin',
+                UNHAPPY_SERVER_URL: 'http://localhost:3005',
+                SECRET_TOKEN: 'do-not-leak'
+            }
+        });
+
+        expect(unit).toContain('Environment=PATH=/usr/local/bin:/usr/bin');
+        expect(unit).toContain('Environment=UNHAPPY_SERVER_URL=http://localhost:3005');
+        expect(unit).not.toContain('SECRET_TOKEN');
+    });
+
+    it('should quote values containing spaces', () => {
+        const unit = buildSystemdUnit({
+            nodePath: '/home/me/my tools/node',
+            entrypoint: '/opt/unhappy/dist/index.mjs',
+            env: { UNHAPPY_HOME_DIR: '/home/me/unhappy "dev"' }
+        });
+
+        expect(unit).toContain('ExecStart="/home/me/my tools/node" --no-warnings');
+        expect(unit).toContain('Environment="UNHAPPY_HOME_DIR=/home/me/unhappy \\"dev\\""');
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * Shared helpers for running the Unhappy daemon as a systemd user service
+ *
+ * The daemon is installed as a `--user` unit, so no root privileges are needed.
+ * Lingering (`loginctl enable-linger`) keeps the user manager alive after logout
+ * so the daemon survives SSH disconnects on dev boxes.
+ */
+
+import { spawnSync } from 'child_process';
+import { existsSync } from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { projectPath } from '@/projectPath';
+import { trimIdent } from '@/utils/trimIdent';
+
+export const SYSTEMD_UNIT_NAME = 'unhappy-daemon.service';
+
+// Variables forwarded into the unit so the service talks to the same server
+// and home directory as the CLI that installed it
+const FORWARDED_ENV = ['PATH', 'UNHAPPY_HOME_DIR', 'UNHAPPY_SERVER_URL', 'UNHAPPY_WEBAPP_URL', 'UNHAPPY_VARIANT'];
+
+export function getSystemdUnitPath(): string {
+    const configHome = process.env.XDG_CONFIG_HOME || join(os.homedir(), '.config');
+    return join(configHome, 'systemd', 'user', SYSTEMD_UNIT_NAME);
+}
+
+/**
+ * Quote a value for systemd unit files, only when needed
+ */
+function quoteSystemdValue(value: string): string {
+    if (!/[\s"'\\]/.test(value)) {
+        return value;
+    }
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+export function buildSystemdUnit(opts: {
+    nodePath: string;
+    entrypoint: string;
+    env: Record<string, string | undefined>;
+}): string {
+    const execStart = [opts.nodePath, '--no-warnings', '--no-deprecation', opts.entrypoint, 'daemon', 'start-sync']
+        .map(quoteSystemdValue)
+        .join(' ');
+    const environment = FORWARDED_ENV
+        .filter((key) => opts.env[key])
+        .map((key) => `Environment=${quoteSystemdValue(`${key}=${opts.env[key]}`)}`);
+
+    // KillMode=process - stopping the daemon must not take down the sessions it spawned
+    // Restart=on-failure - a clean exit (e.g. "daemon already running") must not loop
+    return trimIdent(`
+        [Unit]
+        Description=Unhappy CLI daemon
+        After=network-online.target
+        Wants=network-online.target
+
+        [Service]
+        Type=simple
+        ExecStart=${execStart}
+        ${environment.join('\n        ')}
+        Restart=on-failure
+        RestartSec=10
+        KillMode=process
+
+        [Install]
+        WantedBy=default.target
+    `) + '\n';
+}
+
+export function buildCurrentSystemdUnit(): string {
+    return buildSystemdUnit({
+        nodePath: process.execPath,
+        entrypoint: join(projectPath(), 'dist', 'index.mjs'),
+        env: process.env
+    });
+}
+
+/**
+ * Run `systemctl --user` and capture its output without throwing
+ */
+export function systemctlUser(args: string[]): { ok: boolean; output: string } {
+    const result = spawnSync('systemctl', ['--user', ...args], { encoding: 'utf8' });
+    if (result.error) {
+        return { ok: false, output: result.error.message };
+    }
+    return { ok: result.status === 0, output: `${result.stdout || ''}${result.stderr || ''}`.trim() };
+}
+
+export type SystemdUnitStatus = {
+    unitPath: string;
+    installed: boolean;
+    enabled: string;
+    active: string;
+    linger: boolean | null;
+};
+
+export function getSystemdUnitStatus(): SystemdUnitStatus {
+    const unitPath = getSystemdUnitPath();
+    const enabled = systemctlUser(['is-enabled', SYSTEMD_UNIT_NAME]);
+    const active = systemctlUser(['is-active', SYSTEMD_UNIT_NAME]);
+
+    let linger: boolean | null = null;
+    const lingerResult = spawnSync('loginctl', ['show-user', os.userInfo().username, '--property=Linger', '--value'], { encoding: 'utf8' });
+    if (!lingerResult.error && lingerResult.status === 0) {
+        linger = lingerResult.stdout.trim() === 'yes';
+    }
+
+    return {
+        unitPath,
+        installed: existsSync(unitPath),
+        enabled: enabled.output || 'unknown',
+        active: active.output || 'unknown',
+        linger
+    };
+}
@@ -0,0 +1,40 @@
+/**
+ * Uninstallation script for Unhappy daemon systemd user service
+ *
+ * Lingering is left untouched - it may have been enabled for other services.
+ */
+
+import { existsSync, unlinkSync } from 'fs';
+import { logger } from '@/ui/logger';
+import { getSystemdUnitPath, SYSTEMD_UNIT_NAME, systemctlUser } from './systemd';
+
+export async function uninstall(): Promise<void> {
+    try {
+        // Check if unit exists
+        const unitPath = getSystemdUnitPath();
+        if (!existsSync(unitPath)) {
+            logger.info('Daemon unit not found. Nothing to uninstall.');
+            return;
+        }
+
+        // Stop and disable the service
+        const disable = systemctlUser(['disable', '--now', SYSTEMD_UNIT_NAME]);
+        if (disable.ok) {
+            logger.info('Daemon stopped successfully');
+        } else {
+            // Service might not be loaded, continue with removal
+            logger.info('Failed to stop daemon (it might not be running)');
+        }
+
+        // Remove the unit file
+        unlinkSync(unitPath);
+        systemctlUser(['daemon-reload']);
+        logger.info(`Removed daemon unit from ${unitPath}`);
+
+        logger.info('Daemon uninstalled successfully');
+
+    } catch (error) {
+        logger.debug('Failed to uninstall daemon:', error);
+        throw error;
+    }
+}
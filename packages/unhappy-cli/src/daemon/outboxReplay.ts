@@ -0,0 +1,129 @@
+/**
+ * Delivers outboxes left behind by CLI processes that died before their
+ * queued messages reached the server. Runs in the daemon at startup and with
+ * every heartbeat, outboxes of running processes are left to their owner.
+ */
+
+import { unlinkSync } from 'node:fs';
+import { ApiClient } from '@/api/api';
+import { encodeBase64, encrypt } from '@/api/encryption';
+import { Outbox, OutboxSnapshot } from '@/api/outbox';
+import type { UsageReport } from '@/api/types';
+import { Credentials, readSessionKey, removeSessionKey } from '@/persistence';
+import { logger } from '@/ui/logger';
+
+/** Server limit for one import request */
+const IMPORT_BATCH_SIZE = 500;
+
+/** Sends a usage report over the daemon socket, false when the server can't be reached */
+export type ReportUsage = (report: UsageReport & { sessionId: string }) => Promise<boolean>;
+
+let replaying = false;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function removeOutbox(file: string): void {
+  try {
+    unlinkSync(file);
+  } catch (error) {
+    logger.debug(`[OUTBOX] Failed to remove ${file}:`, error);
+  }
+}
+
+/**
+ * Deliver one abandoned outbox. Returns false when the server can't be reached,
+ * the file is kept for the next attempt.
+ */
+async function replayOutbox(api: ApiClient, credentials: Credentials, reportUsage: ReportUsage, outbox: OutboxSnapshot): Promise<boolean> {
+  let sessionId = outbox.sessionId;
+  let key: Uint8Array | null;
+  let variant: 'legacy' | 'dataKey';
+  if (!sessionId) {
+    // The process never reached the server, create the session it was running
+    if (!outbox.metadata) {
+      logger.debug(`[OUTBOX] ${outbox.file} has no session and no metadata, dropping ${outbox.messages.length} messages`);
+      return true;
+    }
+    const session = await api.getOrCreateSession({ tag: outbox.tag, metadata: outbox.metadata, state: outbox.state });
+    if (!session) {
+      return false;
+    }
+    sessionId = session.id;
+    key = session.encryptionKey;
+    variant = session.encryptionVariant;
+  } else if (credentials.encryption.type === 'dataKey') {
+    key = await readSessionKey(sessionId, credentials.encryption.machineKey);
+    variant = 'dataKey';
+  } else {
+    key = credentials.encryption.secret;
+    variant = 'legacy';
+  }
+  if (!key) {
+    logger.debug(`[OUTBOX] No key for session ${sessionId}, dropping ${outbox.messages.length} messages`);
+    return true;
+  }
+
+  const messages = outbox.messages.filter((message) => message.kind !== 'usage');
+  for (let i = 0; i < messages.length; i += IMPORT_BATCH_SIZE) {
+    const batch = messages.slice(i, i + IMPORT_BATCH_SIZE).map((message) => ({
+      localId: message.localId,
+      content: encodeBase64(encrypt(key, variant, message.content)),
+      createdAt: message.createdAt,
+    }));
+    const imported = await api.importSessionMessages(sessionId, batch);
+    if (imported === null) {
+      logger.debug(`[OUTBOX] Session ${sessionId} no longer exists, dropping its outbox`);
+      await removeSessionKey(sessionId);
+      return true;
+    }
+  }
+  // Usage reports are upserted by key, resending them after a partial replay is harmless
+  for (const message of outbox.messages) {
+    if (message.kind === 'usage' && !(await reportUsage({ ...(message.content as UsageReport), sessionId }))) {
+      return false;
+    }
+  }
+  logger.debug(`[OUTBOX] Replayed ${outbox.messages.length} messages into session ${sessionId}`);
+  return true;
+}
+
+export async function replayOutboxes(api: ApiClient, credentials: Credentials, reportUsage: ReportUsage): Promise<void> {
+  if (replaying) {
+    return;
+  }
+  replaying = true;
+  try {
+    for (const file of Outbox.list()) {
+      const outbox = Outbox.load(file);
+      if (!outbox) {
+        logger.debug(`[OUTBOX] ${file} is unreadable, removing it`);
+        removeOutbox(file);
+        continue;
+      }
+      if (isProcessAlive(outbox.pid)) {
+        continue;
+      }
+      if (outbox.messages.length > 0) {
+        try {
+          if (!(await replayOutbox(api, credentials, reportUsage, outbox))) {
+            return;
+          }
+        } catch (error) {
+          logger.debug(`[OUTBOX] Failed to replay ${file}, will retry:`, error);
+          continue;
+        }
+      }
+      removeOutbox(file);
+    }
+  } finally {
+    replaying = false;
+  }
+}
@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import os from 'os';
 
+import { findCustomAgent } from '@/agent/factories/custom';
 import { ApiClient } from '@/api/api';
 import { DaemonState, MachineMetadata, Metadata } from '@/api/types';
 import { configuration } from '@/configuration';
@@ -21,7 +22,7 @@ import {
 import { authAndSetupMachineIfNeeded } from '@/ui/auth';
 import { getEnvironmentInfo } from '@/ui/doctor';
 import { logger } from '@/ui/logger';
-import { startCaffeinate, stopCaffeinate } from '@/utils/caffeinate';
+import { startKeepAwake, stopKeepAwake } from '@/utils/keepAwake';
 import { spawnUnhappyCLI } from '@/utils/spawnUnhappyCLI';
 import packageJson from '../../package.json';
 import { TrackedSession } from './types';
@@ -37,6 +38,13 @@ import {
   stopDaemon,
 } from './controlClient';
 import { startDaemonControlServer } from './controlServer';
+import { DashboardHub } from './dashboard/hub';
+import { dashboardUrls, loadOrCreateDashboardToken, resolveDashboardConfig } from './dashboard/config';
+import { startDashboardServer } from './dashboard/dashboardServer';
+import { ScheduleManager } from './schedules/scheduleManager';
+import { scheduledRunEnv } from './schedules/scheduledRun';
+import { DaemonHealth } from './health';
+import { replayOutboxes } from './outboxReplay';
 
 // Prepare initial metadata
 export const initialMachineMetadata: MachineMetadata = {
@@ -211,11 +219,9 @@ export async function startDaemon(): Promise<void> {
   // 2. Should not have another daemon process running
 
   try {
-    // Start caffeinate
-    const caffeinateStarted = startCaffeinate();
-    if (caffeinateStarted) {
-      logger.debug('[DAEMON RUN] Sleep prevention enabled');
-    }
+    // Prevent sleep while the daemon runs, sessions hold their own inhibitor for turns
+    const keepAwakePolicy = await startKeepAwake();
+    logger.debug(`[DAEMON RUN] Sleep prevention policy: ${keepAwakePolicy}`);
 
     // Ensure auth and machine registration BEFORE anything else
     const { credentials, machineId } = await authAndSetupMachineIfNeeded();
@@ -230,6 +236,9 @@ export async function startDaemon(): Promise<void> {
     // Helper functions
     const getCurrentChildren = () => Array.from(pidToTrackedSession.values());
 
+    // Counters reported to the server over `machine-health`
+    const daemonHealth = new DaemonHealth(() => pidToTrackedSession.size);
+
     // Handle webhook from unhappy session reporting itself
     const onUnhappySessionWebhook = (
       sessionId: string,
@@ -286,7 +295,7 @@ export async function startDaemon(): Promise<void> {
     };
 
     // Spawn a new session (sessionId reserved for future --resume functionality)
-    const spawnSession = async (
+    const spawnSessionProcess = async (
       options: SpawnSessionOptions,
     ): Promise<SpawnSessionResult> => {
       logger.debugLargeJson('[DAEMON RUN] Spawning session', options);
@@ -307,6 +316,19 @@ export async function startDaemon(): Promise<void> {
       } = options;
       let directoryCreated = false;
 
+      // Anything that isn't a built-in agent must be declared in agents.json.
+      // undefined: built-in agent, null: unknown custom agent.
+      const customAgent =
+        options.agent && !['claude', 'codex', 'gemini'].includes(options.agent)
+          ? findCustomAgent(options.agent)
+          : undefined;
+      if (customAgent === null) {
+        return {
+          type: 'error',
+          errorMessage: `Unsupported agent type: '${options.agent}'. Declare it in ${configuration.agentsFile} or update your CLI to the latest version.`,
+        };
+      }
+
       try {
         await fs.access(directory);
         logger.debug(`[DAEMON RUN] Directory exists: ${directory}`);
@@ -412,19 +434,30 @@ export async function startDaemon(): Promise<void> {
           // Fallback to CLI local active profile
           try {
             const settings = await readSettings();
-            if (settings.activeProfileId) {
+            if (settings.activeProfileId && customAgent) {
+              // Profiles declare compatibility with built-in agents only
+              logger.debug(
+                `[DAEMON RUN] Skipping CLI local profile for custom agent ${customAgent.name}`,
+              );
+            } else if (settings.activeProfileId) {
               logger.debug(
                 `[DAEMON RUN] No GUI profile provided, loading CLI local active profile: ${settings.activeProfileId}`,
               );
 
               // Get profile environment variables filtered for agent compatibility
+              const profileAgent =
+                options.agent === 'codex'
+                  ? 'codex'
+                  : options.agent === 'gemini'
+                    ? 'gemini'
+                    : 'claude';
               profileEnv = await getProfileEnvironmentVariablesForAgent(
                 settings.activeProfileId,
-                options.agent || 'claude',
+                profileAgent,
               );
 
               logger.debug(
-                `[DAEMON RUN] Loaded ${Object.keys(profileEnv).length} environment variables from CLI local profile for agent ${options.agent || 'claude'}`,
+                `[DAEMON RUN] Loaded ${Object.keys(profileEnv).length} environment variables from CLI local profile for agent ${profileAgent}`,
               );
               logger.debug(
                 `[DAEMON RUN] CLI profile env var keys: ${Object.keys(profileEnv).join(', ')}`,
@@ -455,6 +488,11 @@ export async function startDaemon(): Promise<void> {
           `[DAEMON RUN] After variable expansion: ${Object.keys(extraEnv).join(', ')}`,
         );
 
+        // Scheduled prompt hand-off is added after expansion so prompt text is passed verbatim
+        if (options.scheduledRun) {
+          extraEnv = { ...extraEnv, ...scheduledRunEnv(options.scheduledRun) };
+        }
+
         // Fail-fast validation: Check that auth variables relevant to this agent are fully expanded.
         //
         // Important nuance:
@@ -469,8 +507,10 @@ export async function startDaemon(): Promise<void> {
               ? 'codex'
               : 'claude';
 
-        const potentialAuthVars =
-          agentType === 'claude'
+        // Custom agents get their credentials from agents.json, nothing to check here
+        const potentialAuthVars = customAgent
+          ? []
+          : agentType === 'claude'
             ? [
                 'ANTHROPIC_AUTH_TOKEN',
                 'CLAUDE_CODE_OAUTH_TOKEN',
@@ -549,9 +589,10 @@ export async function startDaemon(): Promise<void> {
 
           // Construct command for the CLI
           const cliPath = join(projectPath(), 'dist', 'index.mjs');
-          // Determine agent command - support claude, codex, and gemini
-          const agent =
-            options.agent === 'gemini'
+          // Determine agent command - support claude, codex, gemini and custom ACP agents
+          const agent = customAgent
+            ? customAgent.name
+            : options.agent === 'gemini'
               ? 'gemini'
               : options.agent === 'codex'
                 ? 'codex'
@@ -666,10 +707,9 @@ export async function startDaemon(): Promise<void> {
               agentCommand = 'gemini';
               break;
             default:
-              return {
-                type: 'error',
-                errorMessage: `Unsupported agent type: '${options.agent}'. Please update your CLI to the latest version.`,
-              };
+              // Validated against agents.json at the top of spawnSession
+              agentCommand = customAgent!.name;
+              break;
           }
           const args = [
             agentCommand,
@@ -794,6 +834,14 @@ export async function startDaemon(): Promise<void> {
       }
     };
 
+    const spawnSession = async (
+      options: SpawnSessionOptions,
+    ): Promise<SpawnSessionResult> => {
+      const result = await spawnSessionProcess(options);
+      daemonHealth.recordSpawn(result.type);
+      return result;
+    };
+
     // Stop a session by sessionId or PID fallback
     const stopSession = (sessionId: string): boolean => {
       logger.debug(`[DAEMON RUN] Attempting to stop session ${sessionId}`);
@@ -852,6 +900,22 @@ export async function startDaemon(): Promise<void> {
       pidToTrackedSession.delete(pid);
     };
 
+    const getSessionPid = (sessionId: string): number | undefined => {
+      for (const [pid, session] of pidToTrackedSession.entries()) {
+        if (session.happySessionId === sessionId) {
+          return pid;
+        }
+      }
+      return undefined;
+    };
+
+    // Created once the API client exists (it needs it for push notifications)
+    let scheduleManager: ScheduleManager | null = null;
+
+    // LAN dashboard, started before the API client so it works without the relay
+    const dashboardConfig = resolveDashboardConfig(process.env, (await readSettings()).dashboard);
+    const dashboardHub = dashboardConfig.enabled ? new DashboardHub() : undefined;
+
     // Start control server
     const { port: controlPort, stop: stopControlServer } =
       await startDaemonControlServer({
@@ -860,8 +924,31 @@ export async function startDaemon(): Promise<void> {
         spawnSession,
         requestShutdown: () => requestShutdown('unhappy-cli'),
         onUnhappySessionWebhook,
+        onScheduledRunFinished: (runId) => void scheduleManager?.onRunFinished(runId),
+        dashboardHub,
       });
 
+    let dashboardPort: number | undefined;
+    let stopDashboard: (() => Promise<void>) | null = null;
+    if (dashboardHub) {
+      try {
+        const dashboard = await startDashboardServer({
+          hub: dashboardHub,
+          token: await loadOrCreateDashboardToken(),
+          host: dashboardConfig.host,
+          port: dashboardConfig.port,
+          spawnSession,
+          stopSession,
+        });
+        dashboardPort = dashboard.port;
+        stopDashboard = dashboard.stop;
+        logger.debug(`[DAEMON RUN] Dashboard available at ${dashboardUrls(dashboardConfig.host, dashboard.port).join(', ')}`);
+      } catch (error) {
+        // Not fatal, the daemon works without it
+        logger.debug('[DAEMON RUN] Failed to start dashboard', error);
+      }
+    }
+
     // Write initial daemon state (no lock needed for state file)
     const fileState: DaemonLocallyPersistedState = {
       pid: process.pid,
@@ -869,6 +956,7 @@ export async function startDaemon(): Promise<void> {
       startTime: new Date().toLocaleString(),
       startedWithCliVersion: packageJson.version,
       daemonLogPath: logger.logFilePath,
+      dashboardPort,
     };
     writeDaemonState(fileState);
     logger.debug('[DAEMON RUN] Daemon state written');
@@ -893,7 +981,7 @@ export async function startDaemon(): Promise<void> {
     logger.debug(`[DAEMON RUN] Machine registered: ${machine.id}`);
 
     // Create realtime machine session
-    const apiMachine = api.machineSyncClient(machine);
+    const apiMachine = api.machineSyncClient(machine, daemonHealth);
     let updateAlreadyRequested = false;
 
     const requestUpdate = (): { message: string } => {
@@ -922,22 +1010,36 @@ export async function startDaemon(): Promise<void> {
       }
     };
 
+    scheduleManager = new ScheduleManager({
+      spawnSession,
+      getSessionPid,
+      sendPush: (title, body, data) =>
+        api.push().sendToAllDevices(title, body, data),
+    });
+
     // Set RPC handlers
     apiMachine.setRPCHandlers({
       spawnSession,
       stopSession,
       requestShutdown: () => requestShutdown('unhappy-app'),
       requestUpdate,
+      scheduleManager,
     });
 
     // Connect to server
     apiMachine.connect();
 
+    await scheduleManager.start();
+
+    // Messages queued by CLI processes that died while offline
+    void replayOutboxes(api, credentials, (report) => apiMachine.reportUsage(report));
+
     // Every 60 seconds:
     // 1. Prune stale sessions
     // 2. Check if daemon needs update
     // 3. If outdated, restart with latest version
     // 4. Write heartbeat
+    // 5. Replay abandoned outboxes
     const heartbeatIntervalMs = parseInt(
       process.env.UNHAPPY_DAEMON_HEARTBEAT_INTERVAL || '60000',
     );
@@ -1030,6 +1132,7 @@ export async function startDaemon(): Promise<void> {
           startedWithCliVersion: packageJson.version,
           lastHeartbeat: new Date().toLocaleString(),
           daemonLogPath: fileState.daemonLogPath,
+          dashboardPort,
         };
         writeDaemonState(updatedState);
         if (process.env.DEBUG) {
@@ -1041,6 +1144,8 @@ export async function startDaemon(): Promise<void> {
         logger.debug('[DAEMON RUN] Failed to write heartbeat', error);
       }
 
+      void replayOutboxes(api, credentials, (report) => apiMachine.reportUsage(report));
+
       heartbeatRunning = false;
     }, heartbeatIntervalMs); // Every 60 seconds in production
 
@@ -1083,10 +1188,13 @@ export async function startDaemon(): Promise<void> {
         await new Promise((resolve) => setTimeout(resolve, 100));
       }
 
+      scheduleManager?.stop();
       apiMachine.shutdown();
+      dashboardHub?.close();
+      await stopDashboard?.();
       await stopControlServer();
       await cleanupDaemonState();
-      await stopCaffeinate();
+      stopKeepAwake();
       await releaseDaemonLock(daemonLockHandle);
 
       logger.debug('[DAEMON RUN] Cleanup completed, exiting process');
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { computeNextRunAt } from './recurrence';
+
+// Build timestamps in local time, the scheduler evaluates recurrences in the daemon's timezone
+const local = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+describe('computeNextRunAt', () => {
+  const weekdaysAtNine = { type: 'weekly' as const, days: [1, 2, 3, 4, 5], hour: 9, minute: 0 };
+
+  it('fires later the same day when the time has not passed yet', () => {
+    // Monday 2026-10-19 08:00
+    expect(computeNextRunAt(weekdaysAtNine, local(2026, 10, 19, 8))).toBe(local(2026, 10, 19, 9));
+  });
+
+  it('moves to the next matching day once the time has passed', () => {
+    // Monday 09:00 exactly is not strictly after, so next is Tuesday
+    expect(computeNextRunAt(weekdaysAtNine, local(2026, 10, 19, 9))).toBe(local(2026, 10, 20, 9));
+  });
+
+  it('skips days that are not selected', () => {
+    // Friday 2026-10-23 10:00 -> Monday 2026-10-26 09:00
+    expect(computeNextRunAt(weekdaysAtNine, local(2026, 10, 23, 10))).toBe(local(2026, 10, 26, 9));
+  });
+
+  it('handles a single weekday a full week ahead', () => {
+    const mondays = { type: 'weekly' as const, days: [1], hour: 9, minute: 30 };
+    expect(computeNextRunAt(mondays, local(2026, 10, 19, 10))).toBe(local(2026, 10, 26, 9, 30));
+  });
+
+  it('returns one-off runs only while they are in the future', () => {
+    const at = local(2026, 10, 20, 12);
+    expect(computeNextRunAt({ type: 'once', at }, local(2026, 10, 19))).toBe(at);
+    expect(computeNextRunAt({ type: 'once', at }, at)).toBeNull();
+  });
+
+  it('counts intervals from the given time', () => {
+    const after = local(2026, 10, 19, 12);
+    expect(computeNextRunAt({ type: 'interval', minutes: 90 }, after)).toBe(after + 90 * 60_000);
+  });
+});
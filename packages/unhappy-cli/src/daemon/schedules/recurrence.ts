@@ -0,0 +1,33 @@
+import { ScheduleRecurrence } from './types';
+
+/**
+ * Compute the first time strictly after `after` at which the recurrence fires.
+ * Returns null when the recurrence will never fire again (a one-off in the past).
+ */
+export function computeNextRunAt(recurrence: ScheduleRecurrence, after: number): number | null {
+  switch (recurrence.type) {
+    case 'once':
+      return recurrence.at > after ? recurrence.at : null;
+
+    case 'interval':
+      return after + recurrence.minutes * 60_000;
+
+    case 'weekly': {
+      // Walk forward day by day in local time so DST shifts land on the wall-clock time
+      const start = new Date(after);
+      for (let offset = 0; offset <= 7; offset++) {
+        const candidate = new Date(
+          start.getFullYear(),
+          start.getMonth(),
+          start.getDate() + offset,
+          recurrence.hour,
+          recurrence.minute,
+        );
+        if (candidate.getTime() > after && recurrence.days.includes(candidate.getDay())) {
+          return candidate.getTime();
+        }
+      }
+      return null;
+    }
+  }
+}
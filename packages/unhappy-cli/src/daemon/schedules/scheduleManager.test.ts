@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { SpawnSessionResult } from '@/modules/common/registerCommonHandlers';
+
+describe('ScheduleManager', () => {
+  let homeDir: string;
+
+  beforeEach(async () => {
+    homeDir = await mkdtemp(join(tmpdir(), 'unhappy-home-'));
+    process.env.UNHAPPY_HOME_DIR = homeDir;
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    delete process.env.UNHAPPY_HOME_DIR;
+    await rm(homeDir, { recursive: true, force: true });
+  });
+
+  async function createManager() {
+    const { ScheduleManager } = await import('./scheduleManager');
+    const spawnSession = vi.fn(async (): Promise<SpawnSessionResult> => ({ type: 'success', sessionId: 'session-1' }));
+    const sendPush = vi.fn();
+    const manager = new ScheduleManager({
+      spawnSession,
+      // The test process stands in for a live session
+      getSessionPid: () => process.pid,
+      sendPush,
+    });
+    await manager.start();
+    manager.stop();
+    return { manager, spawnSession, sendPush };
+  }
+
+  const input = {
+    name: 'Morning review',
+    directory: '/tmp/project',
+    prompt: '/review',
+    agent: 'claude' as const,
+    recurrence: { type: 'weekly' as const, days: [1, 2, 3, 4, 5], hour: 9, minute: 0 },
+    enabled: true,
+  };
+
+  it('persists schedules to the unhappy home dir', async () => {
+    const { manager } = await createManager();
+    const schedule = await manager.create(input);
+
+    expect(schedule.nextRunAt).not.toBeNull();
+    const stored = JSON.parse(await readFile(join(homeDir, 'schedules.json'), 'utf8'));
+    expect(stored.schedules).toHaveLength(1);
+    expect(stored.schedules[0].prompt).toBe('/review');
+  });
+
+  it('hands the prompt to the spawned session', async () => {
+    const { manager, spawnSession } = await createManager();
+    const schedule = await manager.create(input);
+
+    const run = await manager.runNow(schedule.id);
+
+    expect(run.status).toBe('running');
+    expect(run.sessionId).toBe('session-1');
+    expect(spawnSession).toHaveBeenCalledWith(expect.objectContaining({
+      directory: '/tmp/project',
+      agent: 'claude',
+      scheduledRun: { runId: run.id, prompt: '/review' },
+    }));
+  });
+
+  it('skips a run while the previous one is still active', async () => {
+    const { manager, spawnSession } = await createManager();
+    const schedule = await manager.create(input);
+
+    await manager.runNow(schedule.id);
+    const second = await manager.runNow(schedule.id);
+
+    expect(second.status).toBe('skipped');
+    expect(spawnSession).toHaveBeenCalledTimes(1);
+    expect(manager.history(schedule.id).map((r) => r.status).sort()).toEqual(['running', 'skipped']);
+  });
+
+  it('completes the run and sends a push notification', async () => {
+    const { manager, sendPush } = await createManager();
+    const schedule = await manager.create(input);
+    const run = await manager.runNow(schedule.id);
+
+    await manager.onRunFinished(run.id);
+
+    expect(manager.history(schedule.id).find((r) => r.id === run.id)?.status).toBe('completed');
+    expect(sendPush).toHaveBeenCalledWith('Morning review', 'Scheduled run finished', expect.objectContaining({
+      sessionId: 'session-1',
+      runId: run.id,
+    }));
+
+    // Finished runs no longer block the next one
+    const next = await manager.runNow(schedule.id);
+    expect(next.status).toBe('running');
+  });
+
+  it('records failed spawns', async () => {
+    const { manager, spawnSession, sendPush } = await createManager();
+    spawnSession.mockResolvedValueOnce({ type: 'error', errorMessage: 'boom' });
+    const schedule = await manager.create(input);
+
+    const run = await manager.runNow(schedule.id);
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('boom');
+    expect(sendPush).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Runs scheduled prompts on behalf of the app
+ *
+ * Schedules live in ~/.unhappy/schedules.json and are evaluated by a timer in the
+ * daemon. A due schedule spawns a regular daemon session and hands it the prompt
+ * (see scheduledRun.ts). A run is skipped while the previous run of the same
+ * schedule is still working, and a push notification is sent when it finishes.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  SpawnSessionOptions,
+  SpawnSessionResult,
+} from '@/modules/common/registerCommonHandlers';
+import { logger } from '@/ui/logger';
+import { AsyncLock } from '@/utils/lock';
+import { computeNextRunAt } from './recurrence';
+import { pruneRuns, readScheduleStore, writeScheduleStore } from './store';
+import {
+  Schedule,
+  ScheduleInput,
+  ScheduleRun,
+  ScheduleStore,
+} from './types';
+
+const TICK_INTERVAL_MS = 30_000;
+
+// Upper bound for a run to get its session spawned (the session webhook timeout is 30s)
+const SPAWN_GRACE_MS = 2 * 60_000;
+
+// Runs that were due while the daemon was not running are skipped rather than
+// fired late (a 9:00 review should not start at 23:00 after a reboot)
+const MISSED_RUN_GRACE_MS = 10 * 60_000;
+
+export type ScheduleManagerDeps = {
+  spawnSession: (options: SpawnSessionOptions) => Promise<SpawnSessionResult>;
+  getSessionPid: (sessionId: string) => number | undefined;
+  sendPush: (title: string, body: string, data: Record<string, unknown>) => void;
+};
+
+export class ScheduleManager {
+  private store: ScheduleStore = { schedules: [], runs: [] };
+  private lock = new AsyncLock();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly deps: ScheduleManagerDeps) {}
+
+  async start(): Promise<void> {
+    this.store = await readScheduleStore();
+    logger.debug(`[SCHEDULES] Loaded ${this.store.schedules.length} schedules`);
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, TICK_INTERVAL_MS);
+    this.timer.unref?.();
+    await this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  list(): { schedules: Schedule[]; runs: ScheduleRun[] } {
+    return {
+      schedules: this.store.schedules,
+      runs: this.latestRuns(),
+    };
+  }
+
+  history(scheduleId: string): ScheduleRun[] {
+    return this.store.runs
+      .filter((run) => run.scheduleId === scheduleId)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async create(input: ScheduleInput): Promise<Schedule> {
+    return this.lock.inLock(async () => {
+      const now = Date.now();
+      const schedule: Schedule = {
+        ...input,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        nextRunAt: input.enabled ? computeNextRunAt(input.recurrence, now) : null,
+        lastRunAt: null,
+      };
+      this.store.schedules.push(schedule);
+      await this.persist();
+      logger.debug(`[SCHEDULES] Created schedule ${schedule.id} (${schedule.name})`);
+      return schedule;
+    });
+  }
+
+  async update(id: string, input: ScheduleInput): Promise<Schedule> {
+    return this.lock.inLock(async () => {
+      const existing = this.requireSchedule(id);
+      const now = Date.now();
+      const schedule: Schedule = {
+        ...existing,
+        ...input,
+        updatedAt: now,
+        nextRunAt: input.enabled ? computeNextRunAt(input.recurrence, now) : null,
+      };
+      this.store.schedules = this.store.schedules.map((s) => (s.id === id ? schedule : s));
+      await this.persist();
+      logger.debug(`[SCHEDULES] Updated schedule ${id}`);
+      return schedule;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.lock.inLock(async () => {
+      this.requireSchedule(id);
+      this.store.schedules = this.store.schedules.filter((s) => s.id !== id);
+      await this.persist();
+      logger.debug(`[SCHEDULES] Deleted schedule ${id}`);
+    });
+  }
+
+  async runNow(id: string): Promise<ScheduleRun> {
+    const schedule = this.requireSchedule(id);
+    return this.fire(schedule, 'manual');
+  }
+
+  /**
+   * Called by the session (through the control server) once the agent
+   * finished working on the scheduled prompt
+   */
+  async onRunFinished(runId: string): Promise<void> {
+    const run = await this.lock.inLock(async () => {
+      const run = this.store.runs.find((r) => r.id === runId);
+      if (!run || run.status !== 'running') {
+        logger.debug(`[SCHEDULES] Ignoring finish for unknown or settled run ${runId}`);
+        return null;
+      }
+      this.settleRun(run, 'completed', null);
+      await this.persist();
+      return run;
+    });
+    if (!run) {
+      return;
+    }
+
+    const schedule = this.store.schedules.find((s) => s.id === run.scheduleId);
+    logger.debug(`[SCHEDULES] Run ${runId} completed`);
+    this.deps.sendPush(
+      schedule ? schedule.name : 'Scheduled prompt',
+      'Scheduled run finished',
+      { sessionId: run.sessionId, scheduleId: run.scheduleId, runId: run.id },
+    );
+  }
+
+  private async tick(): Promise<void> {
+    const due = await this.lock.inLock(async () => {
+      const now = Date.now();
+      let changed = this.reconcileRuns();
+      const due: Schedule[] = [];
+
+      for (const schedule of this.store.schedules) {
+        if (!schedule.enabled || schedule.nextRunAt === null || schedule.nextRunAt > now) {
+          continue;
+        }
+
+        if (now - schedule.nextRunAt > MISSED_RUN_GRACE_MS) {
+          logger.debug(`[SCHEDULES] Schedule ${schedule.id} missed its run at ${new Date(schedule.nextRunAt).toISOString()}`);
+          this.store.runs.push(this.newRun(schedule.id, 'schedule', {
+            status: 'skipped',
+            startedAt: schedule.nextRunAt,
+            finishedAt: now,
+            error: 'Missed while the daemon was not running',
+          }));
+        } else {
+          due.push(schedule);
+        }
+
+        schedule.nextRunAt = computeNextRunAt(schedule.recurrence, now);
+        if (schedule.recurrence.type === 'once') {
+          schedule.enabled = false;
+        }
+        changed = true;
+      }
+
+      if (changed) {
+        await this.persist();
+      }
+      return due;
+    });
+
+    for (const schedule of due) {
+      await this.fire(schedule, 'schedule');
+    }
+  }
+
+  private async fire(schedule: Schedule, trigger: ScheduleRun['trigger']): Promise<ScheduleRun> {
+    const run = await this.lock.inLock(async () => {
+      const previous = this.store.runs.find(
+        (r) => r.scheduleId === schedule.id && r.status === 'running' && this.isRunActive(r),
+      );
+      const now = Date.now();
+      const run = previous
+        ? this.newRun(schedule.id, trigger, {
+            status: 'skipped',
+            startedAt: now,
+            finishedAt: now,
+            error: 'Previous run is still active',
+          })
+        : this.newRun(schedule.id, trigger, { status: 'running', startedAt: now });
+      this.store.runs.push(run);
+      if (!previous) {
+        schedule.lastRunAt = now;
+      }
+      await this.persist();
+      return run;
+    });
+
+    if (run.status === 'skipped') {
+      logger.debug(`[SCHEDULES] Skipping schedule ${schedule.id}, previous run still active`);
+      return run;
+    }
+
+    logger.debug(`[SCHEDULES] Starting run ${run.id} of schedule ${schedule.id}`);
+    const result = await this.deps.spawnSession({
+      directory: schedule.directory,
+      agent: schedule.agent,
+      approvedNewDirectoryCreation: false,
+      scheduledRun: { runId: run.id, prompt: schedule.prompt },
+    });
+
+    await this.lock.inLock(async () => {
+      if (result.type === 'success') {
+        run.sessionId = result.sessionId;
+        run.pid = this.deps.getSessionPid(result.sessionId) ?? null;
+      } else {
+        const error = result.type === 'error'
+          ? result.errorMessage
+          : `Directory '${result.directory}' does not exist`;
+        this.settleRun(run, 'failed', error);
+      }
+      await this.persist();
+    });
+
+    if (run.status === 'failed') {
+      logger.debug(`[SCHEDULES] Run ${run.id} failed to start: ${run.error}`);
+      this.deps.sendPush(schedule.name, `Scheduled run failed: ${run.error}`, {
+        scheduleId: schedule.id,
+        runId: run.id,
+      });
+    }
+    return run;
+  }
+
+  /**
+   * Mark runs whose session process is gone as failed.
+   * Returns true when anything changed.
+   */
+  private reconcileRuns(): boolean {
+    let changed = false;
+    for (const run of this.store.runs) {
+      if (run.status === 'running' && !this.isRunActive(run)) {
+        this.settleRun(run, 'failed', 'Session exited before the run finished');
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private isRunActive(run: ScheduleRun): boolean {
+    if (run.pid === null) {
+      // Still spawning - the session has not reported back yet
+      return run.sessionId === null && Date.now() - run.startedAt < SPAWN_GRACE_MS;
+    }
+    try {
+      process.kill(run.pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private settleRun(run: ScheduleRun, status: 'completed' | 'failed', error: string | null): void {
+    run.status = status;
+    run.finishedAt = Date.now();
+    run.error = error;
+  }
+
+  private newRun(
+    scheduleId: string,
+    trigger: ScheduleRun['trigger'],
+    fields: Pick<ScheduleRun, 'status' | 'startedAt'> & Partial<ScheduleRun>,
+  ): ScheduleRun {
+    return {
+      id: randomUUID(),
+      scheduleId,
+      trigger,
+      finishedAt: null,
+      sessionId: null,
+      pid: null,
+      error: null,
+      ...fields,
+    };
+  }
+
+  private latestRuns(): ScheduleRun[] {
+    const latest = new Map<string, ScheduleRun>();
+    for (const run of this.store.runs) {
+      const current = latest.get(run.scheduleId);
+      if (!current || run.startedAt > current.startedAt) {
+        latest.set(run.scheduleId, run);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  private requireSchedule(id: string): Schedule {
+    const schedule = this.store.schedules.find((s) => s.id === id);
+    if (!schedule) {
+      throw new Error(`Schedule ${id} not found`);
+    }
+    return schedule;
+  }
+
+  private async persist(): Promise<void> {
+    this.store = pruneRuns(this.store);
+    try {
+      await writeScheduleStore(this.store);
+    } catch (error) {
+      logger.debug('[SCHEDULES] Failed to persist schedules', error);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Hand-off of a scheduled prompt from the daemon to the session process it spawns
+ *
+ * The daemon passes the run id and prompt through the environment. The session
+ * delivers the prompt as its first user message and reports back to the daemon
+ * once the agent is ready again, which marks the run as completed.
+ */
+
+export const SCHEDULED_RUN_ID_ENV = 'UNHAPPY_SCHEDULED_RUN_ID';
+export const SCHEDULED_PROMPT_ENV = 'UNHAPPY_SCHEDULED_PROMPT';
+
+export type ScheduledRunHandoff = {
+  runId: string;
+  prompt: string;
+};
+
+export function scheduledRunEnv(handoff: ScheduledRunHandoff): Record<string, string> {
+  return {
+    [SCHEDULED_RUN_ID_ENV]: handoff.runId,
+    [SCHEDULED_PROMPT_ENV]: handoff.prompt,
+  };
+}
+
+/**
+ * Read the hand-off once and remove it from the environment so processes
+ * spawned by the agent (shells, tools, nested sessions) do not inherit it
+ */
+export function takeScheduledRunFromEnv(): ScheduledRunHandoff | null {
+  const runId = process.env[SCHEDULED_RUN_ID_ENV];
+  const prompt = process.env[SCHEDULED_PROMPT_ENV];
+  delete process.env[SCHEDULED_RUN_ID_ENV];
+  delete process.env[SCHEDULED_PROMPT_ENV];
+  if (!runId || !prompt) {
+    return null;
+  }
+  return { runId, prompt };
+}
@@ -0,0 +1,58 @@
+/**
+ * Persistence for scheduled prompts in ~/.unhappy/schedules.json
+ *
+ * The daemon is the only writer, so no file lock is needed - writes are
+ * atomic (temp file + rename) and serialized by the schedule manager.
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+import { atomicFileWrite } from '@/utils/fileAtomic';
+import { ScheduleStore, ScheduleStoreSchema } from './types';
+
+/** Run history entries kept per schedule */
+export const MAX_RUNS_PER_SCHEDULE = 50;
+
+export async function readScheduleStore(): Promise<ScheduleStore> {
+  if (!existsSync(configuration.schedulesFile)) {
+    return { schedules: [], runs: [] };
+  }
+
+  try {
+    const content = await readFile(configuration.schedulesFile, 'utf8');
+    const parsed = ScheduleStoreSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+      logger.debug('[SCHEDULES] Invalid schedules file, starting empty', parsed.error);
+      return { schedules: [], runs: [] };
+    }
+    return parsed.data;
+  } catch (error) {
+    logger.debug('[SCHEDULES] Failed to read schedules file', error);
+    return { schedules: [], runs: [] };
+  }
+}
+
+export async function writeScheduleStore(store: ScheduleStore): Promise<void> {
+  await atomicFileWrite(configuration.schedulesFile, JSON.stringify(store, null, 2));
+}
+
+/**
+ * Drop history of deleted schedules and keep only the newest runs of each schedule
+ */
+export function pruneRuns(store: ScheduleStore): ScheduleStore {
+  const scheduleIds = new Set(store.schedules.map((s) => s.id));
+  const counts = new Map<string, number>();
+  const runs = [...store.runs]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .filter((run) => {
+      if (!scheduleIds.has(run.scheduleId)) {
+        return false;
+      }
+      const count = (counts.get(run.scheduleId) ?? 0) + 1;
+      counts.set(run.scheduleId, count);
+      return count <= MAX_RUNS_PER_SCHEDULE;
+    });
+  return { schedules: store.schedules, runs };
+}
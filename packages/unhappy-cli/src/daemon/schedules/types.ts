@@ -0,0 +1,77 @@
+/**
+ * Scheduled prompt types shared by the daemon store, scheduler and RPC handlers
+ */
+
+import { z } from 'zod';
+
+/**
+ * When a schedule fires. Times are evaluated in the daemon machine's local timezone.
+ * - once: a single run at an absolute timestamp
+ * - weekly: on the given weekdays (0 = Sunday) at hour:minute
+ * - interval: every N minutes, counted from the previous run
+ */
+export const ScheduleRecurrenceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('once'),
+    at: z.number().int(),
+  }),
+  z.object({
+    type: z.literal('weekly'),
+    days: z.array(z.number().int().min(0).max(6)).min(1),
+    hour: z.number().int().min(0).max(23),
+    minute: z.number().int().min(0).max(59),
+  }),
+  z.object({
+    type: z.literal('interval'),
+    minutes: z.number().int().min(5),
+  }),
+]);
+
+export type ScheduleRecurrence = z.infer<typeof ScheduleRecurrenceSchema>;
+
+/**
+ * Fields the app provides when creating or editing a schedule
+ */
+export const ScheduleInputSchema = z.object({
+  name: z.string().trim().min(1),
+  directory: z.string().trim().min(1),
+  prompt: z.string().trim().min(1),
+  agent: z.enum(['claude', 'codex', 'gemini']).default('claude'),
+  recurrence: ScheduleRecurrenceSchema,
+  enabled: z.boolean().default(true),
+});
+
+export type ScheduleInput = z.infer<typeof ScheduleInputSchema>;
+
+export const ScheduleSchema = ScheduleInputSchema.extend({
+  id: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  /** Next time the schedule fires, null when it will never fire again */
+  nextRunAt: z.number().nullable(),
+  lastRunAt: z.number().nullable(),
+});
+
+export type Schedule = z.infer<typeof ScheduleSchema>;
+
+export const ScheduleRunSchema = z.object({
+  id: z.string(),
+  scheduleId: z.string(),
+  trigger: z.enum(['schedule', 'manual']),
+  status: z.enum(['running', 'completed', 'skipped', 'failed']),
+  startedAt: z.number(),
+  finishedAt: z.number().nullable(),
+  sessionId: z.string().nullable(),
+  /** Session host PID, used to tell whether a run is still active across daemon restarts */
+  pid: z.number().nullable(),
+  error: z.string().nullable(),
+});
+
+export type ScheduleRun = z.infer<typeof ScheduleRunSchema>;
+
+export const ScheduleStoreSchema = z.object({
+  schedules: z.array(ScheduleSchema),
+  runs: z.array(ScheduleRunSchema),
+});
+
+export type ScheduleStore = z.infer<typeof ScheduleStoreSchema>;
@@ -1,10 +1,23 @@
 import { logger } from '@/ui/logger';
 import { uninstall as uninstallMac } from './mac/uninstall';
+import { uninstall as uninstallLinux } from './linux/uninstall';
 
 export async function uninstall(): Promise<void> {
+  if (process.platform === 'linux') {
+    if (process.getuid && process.getuid() === 0) {
+      throw new Error(
+        'Daemon uninstallation on Linux uses a systemd user service. Please run without sudo.',
+      );
+    }
+
+    logger.info('Uninstalling Unhappy CLI daemon for Linux (systemd user service)...');
+    await uninstallLinux();
+    return;
+  }
+
   if (process.platform !== 'darwin') {
     throw new Error(
-      'Daemon uninstallation is currently only supported on macOS',
+      'Daemon uninstallation is currently only supported on macOS and Linux',
     );
   }
 
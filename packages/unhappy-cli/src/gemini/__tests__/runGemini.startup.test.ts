@@ -114,8 +114,10 @@ vi.mock('@/utils/MessageQueue2', () => ({
   },
 }));
 
-vi.mock('@/utils/caffeinate', () => ({
-  stopCaffeinate: vi.fn(),
+vi.mock('@/utils/keepAwake', () => ({
+  startKeepAwake: vi.fn(async () => 'never'),
+  stopKeepAwake: vi.fn(),
+  setTurnRunning: vi.fn(),
 }));
 
 vi.mock('@/utils/createSessionMetadata', () => ({
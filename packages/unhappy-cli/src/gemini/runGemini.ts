@@ -12,7 +12,7 @@ import { join } from 'node:path';
 import React from 'react';
 
 import { ApiClient } from '@/api/api';
-import type { ApiSessionClient } from '@/api/apiSession';
+import { agentUsageReport, type ACPProvider, type ApiSessionClient } from '@/api/apiSession';
 import { registerKillSessionHandler } from '@/claude/registerKillSessionHandler';
 import { startHappyServer } from '@/claude/utils/startHappyServer';
 import { notifyDaemonSessionStarted } from '@/daemon/controlClient';
@@ -22,7 +22,7 @@ import { projectPath } from '@/projectPath';
 import { MessageBuffer } from '@/ui/ink/messageBuffer';
 import { logger } from '@/ui/logger';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
-import { stopCaffeinate } from '@/utils/caffeinate';
+import { startKeepAwake, stopKeepAwake } from '@/utils/keepAwake';
 import { createSessionMetadata } from '@/utils/createSessionMetadata';
 import { hashObject } from '@/utils/deterministicJson';
 import { buildReadyPushNotification } from '@/utils/readyPushNotification';
@@ -30,6 +30,11 @@ import { connectionState } from '@/utils/serverConnectionErrors';
 import { setupOfflineReconnection } from '@/utils/setupOfflineReconnection';
 
 import type { AgentBackend, AgentMessage } from '@/agent';
+import type { PromptUsage } from '@/agent/acp/promptUsage';
+import {
+    createCustomAcpBackend,
+    type CustomAgentDefinition,
+} from '@/agent/factories/custom';
 import { createGeminiBackend } from '@/agent/factories/gemini';
 import type { PermissionMode } from '@/api/types';
 import { CHANGE_TITLE_INSTRUCTION, GEMINI_MODEL_ENV } from '@/gemini/constants';
@@ -47,24 +52,33 @@ import {
     parseOptionsFromText,
 } from '@/gemini/utils/optionsParser';
 import { GeminiPermissionHandler } from '@/gemini/utils/permissionHandler';
+import { PermissionRules } from '@/utils/permissionRules';
+import { BUDGET_DECLINED_MESSAGE } from '@/utils/budget';
 import { GeminiReasoningProcessor } from '@/gemini/utils/reasoningProcessor';
 import { GeminiDisplay } from '@/ui/ink/GeminiDisplay';
 
 /**
- * Main entry point for the gemini command with ink UI
+ * Main entry point for the gemini command with ink UI.
+ *
+ * Also runs custom ACP agents from ~/.unhappy/agents.json when `agent` is set:
+ * they share the whole ACP session loop, minus Gemini auth and model handling.
  */
 export async function runGemini(opts: {
   credentials: Credentials;
   startedBy?: 'daemon' | 'terminal';
+  agent?: CustomAgentDefinition;
 }): Promise<void> {
   //
   // Define session
   //
 
   const sessionTag = randomUUID();
+  const customAgent = opts.agent;
+  const agentDisplayName = customAgent?.displayName ?? 'Gemini';
+  const provider: ACPProvider = customAgent?.name ?? 'gemini';
 
   // Set backend for offline warnings (before any API calls)
-  connectionState.setBackend('Gemini');
+  connectionState.setBackend(agentDisplayName);
 
   const api = await ApiClient.create(opts.credentials);
 
@@ -91,32 +105,34 @@ export async function runGemini(opts: {
   //
   let cloudToken: string | undefined = undefined;
   let currentUserEmail: string | undefined = undefined;
-  try {
-    const vendorToken = await api.getVendorToken('gemini');
-    if (vendorToken?.oauth?.access_token) {
-      cloudToken = vendorToken.oauth.access_token;
-      logger.debug('[Gemini] Using OAuth token from Unhappy cloud');
-
-      // Extract email from id_token for per-account project matching
-      if (vendorToken.oauth.id_token) {
-        try {
-          const parts = vendorToken.oauth.id_token.split('.');
-          if (parts.length === 3) {
-            const payload = JSON.parse(
-              Buffer.from(parts[1], 'base64url').toString('utf8'),
-            );
-            if (payload.email) {
-              currentUserEmail = payload.email;
-              logger.debug(`[Gemini] Current user email: ${currentUserEmail}`);
+  if (!customAgent) {
+    try {
+      const vendorToken = await api.getVendorToken('gemini');
+      if (vendorToken?.oauth?.access_token) {
+        cloudToken = vendorToken.oauth.access_token;
+        logger.debug('[Gemini] Using OAuth token from Unhappy cloud');
+
+        // Extract email from id_token for per-account project matching
+        if (vendorToken.oauth.id_token) {
+          try {
+            const parts = vendorToken.oauth.id_token.split('.');
+            if (parts.length === 3) {
+              const payload = JSON.parse(
+                Buffer.from(parts[1], 'base64url').toString('utf8'),
+              );
+              if (payload.email) {
+                currentUserEmail = payload.email;
+                logger.debug(`[Gemini] Current user email: ${currentUserEmail}`);
+              }
             }
+          } catch {
+            logger.debug('[Gemini] Failed to decode id_token for email');
           }
-        } catch {
-          logger.debug('[Gemini] Failed to decode id_token for email');
         }
       }
+    } catch (error) {
+      logger.debug('[Gemini] Failed to fetch cloud token:', error);
     }
-  } catch (error) {
-    logger.debug('[Gemini] Failed to fetch cloud token:', error);
   }
 
   //
@@ -124,7 +140,7 @@ export async function runGemini(opts: {
   //
 
   const { state, metadata } = createSessionMetadata({
-    flavor: 'gemini',
+    flavor: provider,
     machineId,
     startedBy: opts.startedBy,
   });
@@ -139,6 +155,9 @@ export async function runGemini(opts: {
   // Permission handler declared here so it can be updated in onSessionSwap callback
   // (assigned later after Unhappy server setup)
   let permissionHandler: GeminiPermissionHandler;
+  // Rules outlive session swaps and handler resets, account rules arrive with user messages
+  const permissionRules = new PermissionRules(process.cwd());
+  permissionRules.setSessionRules(response?.agentState?.sessionRules);
 
   // Session swap synchronization to prevent race conditions during message processing
   // When a swap is requested during processing, it's queued and applied after the current cycle
@@ -260,6 +279,15 @@ export async function runGemini(opts: {
       );
     }
 
+    if (message.meta?.hasOwnProperty('permissionRules')) {
+      permissionRules.setAccountRules(message.meta.permissionRules ?? []);
+    }
+
+    // The budget covers the whole session, a message without one leaves it as is
+    if (message.meta?.hasOwnProperty('budget')) {
+      session.budget.setBudget(message.meta.budget ?? null);
+    }
+
     // Initialize permission mode if not set yet
     if (currentPermissionMode === undefined) {
       currentPermissionMode = 'default';
@@ -268,7 +296,8 @@ export async function runGemini(opts: {
 
     // Resolve model; explicit null resets to default (undefined)
     let messageModel = currentModel;
-    if (message.meta?.hasOwnProperty('model')) {
+    // Custom ACP agents pick their own model, model switching is Gemini-only
+    if (!customAgent && message.meta?.hasOwnProperty('model')) {
       // If model is explicitly null, reset internal state but don't update displayed model
       // If model is provided, use it and update displayed model
       // Otherwise keep current model
@@ -329,6 +358,7 @@ export async function runGemini(opts: {
   });
 
   let thinking = false;
+  await startKeepAwake();
   session.keepAlive(thinking, 'remote');
   const keepAliveInterval = setInterval(() => {
     session.keepAlive(thinking, 'remote');
@@ -350,7 +380,7 @@ export async function runGemini(opts: {
     try {
       const metadataSnapshot = session.getMetadataSnapshot();
       const ready = buildReadyPushNotification({
-        agentName: 'Gemini',
+        agentName: agentDisplayName,
         cwd: metadataSnapshot?.path || metadata.path,
         sessionName: metadataSnapshot?.name,
       });
@@ -400,7 +430,7 @@ export async function runGemini(opts: {
     logger.debug('[Gemini] Abort requested - stopping current task');
 
     // Send turn_aborted event (like Codex) when abort is requested
-    session.sendAgentMessage('gemini', {
+    session.sendAgentMessage(provider, {
       type: 'turn_aborted',
       id: randomUUID(),
     });
@@ -445,7 +475,7 @@ export async function runGemini(opts: {
         await session.close();
       }
 
-      stopCaffeinate();
+      stopKeepAwake();
       happyServer.stop();
 
       if (geminiBackend) {
@@ -473,7 +503,9 @@ export async function runGemini(opts: {
 
   // Track current model for UI display
   // Initialize with env var or default to show correct model from start
-  let displayedModel: string | undefined = getInitialGeminiModel();
+  let displayedModel: string | undefined = customAgent
+    ? customAgent.displayName
+    : getInitialGeminiModel();
 
   // Log initial values
   const localConfig = readGeminiLocalConfig();
@@ -532,6 +564,7 @@ export async function runGemini(opts: {
         messageBuffer,
         logPath: process.env.DEBUG ? logger.getLogPath() : undefined,
         currentModel: currentModelValue,
+        agentName: agentDisplayName,
         onExit: async () => {
           logger.debug('[gemini]: Exiting agent via Ctrl-C');
           shouldExit = true;
@@ -573,12 +606,12 @@ export async function runGemini(opts: {
   };
 
   // Create permission handler for tool approval (variable declared earlier for onSessionSwap)
-  permissionHandler = new GeminiPermissionHandler(session);
+  permissionHandler = new GeminiPermissionHandler(session, permissionRules);
 
   // Create reasoning processor for handling thinking/reasoning chunks
   const reasoningProcessor = new GeminiReasoningProcessor((message) => {
     if (message && typeof message === 'object' && message.type === 'tool-stream') {
-      session.sendAgentMessage('gemini', {
+      session.sendAgentMessage(provider, {
         type: 'terminal-output',
         callId: message.callId,
         data: message.output,
@@ -587,15 +620,44 @@ export async function runGemini(opts: {
     }
 
     // Callback to send messages directly from the processor
-    session.sendAgentMessage('gemini', message);
+    session.sendAgentMessage(provider, message);
   });
 
   // Create diff processor for handling file edit events and diff tracking
   const diffProcessor = new GeminiDiffProcessor((message) => {
     // Callback to send messages directly from the processor
-    session.sendAgentMessage('gemini', message);
+    session.sendAgentMessage(provider, message);
   });
 
+  /**
+   * Create the ACP backend for this run.
+   * Gemini resolves the model from the message, local config, env or default;
+   * custom agents always run with the configuration from agents.json.
+   */
+  const createBackend = (model: string | null | undefined) => {
+    if (customAgent) {
+      return {
+        backend: createCustomAcpBackend(customAgent, {
+          cwd: process.cwd(),
+          mcpServers,
+          permissionHandler,
+        }),
+        model: customAgent.displayName,
+        modelSource: 'default' as const,
+      };
+    }
+    return createGeminiBackend({
+      cwd: process.cwd(),
+      mcpServers,
+      permissionHandler,
+      cloudToken,
+      currentUserEmail,
+      // Pass model from message - if undefined, will use local config/env/default
+      // If explicitly null, will skip local config and use env/default
+      model,
+    });
+  };
+
   // Update permission handler when permission mode changes
   const updatePermissionMode = (mode: PermissionMode) => {
     permissionHandler.setPermissionMode(mode);
@@ -659,7 +721,7 @@ export async function runGemini(opts: {
             );
 
             // Send turn_aborted event (like Codex) when error occurs
-            session.sendAgentMessage('gemini', {
+            session.sendAgentMessage(provider, {
               type: 'turn_aborted',
               id: randomUUID(),
             });
@@ -672,7 +734,7 @@ export async function runGemini(opts: {
             // Send task_started event ONCE per turn (like Codex) when agent starts working
             // Gemini may go running -> idle -> running multiple times during a turn
             if (!taskStartedSent) {
-              session.sendAgentMessage('gemini', {
+              session.sendAgentMessage(provider, {
                 type: 'task_started',
                 id: randomUUID(),
               });
@@ -731,7 +793,7 @@ export async function runGemini(opts: {
             messageBuffer.addMessage(`Error: ${errorMessage}`, 'status');
 
             // Use sendAgentMessage for consistency with ACP format
-            session.sendAgentMessage('gemini', {
+            session.sendAgentMessage(provider, {
               type: 'message',
               message: `Error: ${errorMessage}`,
             });
@@ -769,7 +831,7 @@ export async function runGemini(opts: {
             `Executing: ${msg.toolName}${toolArgs ? ` ${toolArgs}${toolArgs.length >= 100 ? '...' : ''}` : ''}`,
             'tool',
           );
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'tool-call',
             name: msg.toolName,
             callId: msg.callId,
@@ -839,7 +901,7 @@ export async function runGemini(opts: {
             messageBuffer.addMessage(`Result: ${truncatedResult}`, 'result');
           }
 
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'tool-result',
             callId: msg.callId,
             output: msg.result,
@@ -858,7 +920,7 @@ export async function runGemini(opts: {
             msg.diff,
           );
 
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'file-edit',
             description: msg.description,
             diff: msg.diff,
@@ -870,20 +932,24 @@ export async function runGemini(opts: {
         default:
           // Handle token-count and other potential message types
           if ((msg as any).type === 'token-count') {
-            // Forward token count to mobile app (like Codex)
-            // Note: Gemini ACP may not provide token_count events directly,
-            // but we handle them if they come from the backend
-            session.sendAgentMessage('gemini', {
+            // Forward token count to mobile app (like Codex), the backend
+            // sends one per turn when the agent reports its usage
+            session.sendAgentMessage(provider, {
               type: 'token_count',
               ...(msg as any),
               id: randomUUID(),
             });
+            // Usage parsed from the prompt response counts towards usage and the budget
+            const { tokens, model } = msg as Partial<PromptUsage>;
+            if (tokens) {
+              session.sendUsageReport(agentUsageReport(provider, tokens, model ?? displayedModel));
+            }
           }
           break;
 
         case 'terminal-output':
           messageBuffer.addMessage(msg.data, 'result');
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'terminal-output',
             data: msg.data,
             callId: (msg as any).callId || randomUUID(),
@@ -895,7 +961,7 @@ export async function runGemini(opts: {
           // Note: toolName is in msg.payload.toolName (from AcpBackend),
           // msg.reason also contains the tool name
           const payload = (msg as any).payload || {};
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'permission-request',
             permissionId: msg.id,
             toolName: payload.toolName || (msg as any).reason || 'unknown',
@@ -918,7 +984,7 @@ export async function runGemini(opts: {
             'tool',
           );
 
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'tool-call',
             name: 'GeminiBash', // Similar to Codex's CodexBash
             callId: callId,
@@ -948,7 +1014,7 @@ export async function runGemini(opts: {
             `[gemini] Patch apply begin: ${patchCallId}, files: ${changeCount}`,
           );
 
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'tool-call',
             name: 'GeminiPatch', // Similar to Codex's CodexPatch
             callId: patchCallId,
@@ -988,7 +1054,7 @@ export async function runGemini(opts: {
             `[gemini] Patch apply end: ${patchEndCallId}, success: ${success}`,
           );
 
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'tool-result',
             callId: patchEndCallId,
             output: {
@@ -1037,7 +1103,7 @@ export async function runGemini(opts: {
               // This ensures user sees progress during long reasoning operations
             }
             // Also forward to mobile for UI feedback
-            session.sendAgentMessage('gemini', {
+            session.sendAgentMessage(provider, {
               type: 'thinking',
               text: thinkingText,
             });
@@ -1093,6 +1159,12 @@ export async function runGemini(opts: {
         break;
       }
 
+      // Past the budget the turn only starts once the user allows more spend
+      if (!(await permissionHandler.checkBudget())) {
+        session.sendSessionEvent({ type: 'message', message: BUDGET_DECLINED_MESSAGE });
+        continue;
+      }
+
       // Track if we need to inject conversation history (after model change)
       let injectHistoryContext = false;
 
@@ -1137,16 +1209,7 @@ export async function runGemini(opts: {
           message.mode?.model === undefined
             ? undefined
             : message.mode.model || null;
-        const backendResult = createGeminiBackend({
-          cwd: process.cwd(),
-          mcpServers,
-          permissionHandler,
-          cloudToken,
-          currentUserEmail,
-          // Pass model from message - if undefined, will use local config/env/default
-          // If explicitly null, will skip local config and use env/default
-          model: modelToUse,
-        });
+        const backendResult = createBackend(modelToUse);
         geminiBackend = backendResult.backend;
 
         // Set up message handler again
@@ -1201,16 +1264,7 @@ export async function runGemini(opts: {
               message.mode?.model === undefined
                 ? undefined
                 : message.mode.model || null;
-            const backendResult = createGeminiBackend({
-              cwd: process.cwd(),
-              mcpServers,
-              permissionHandler,
-              cloudToken,
-              currentUserEmail,
-              // Pass model from message - if undefined, will use local config/env/default
-              // If explicitly null, will skip local config and use env/default
-              model: modelToUse,
-            });
+            const backendResult = createBackend(modelToUse);
             geminiBackend = backendResult.backend;
 
             // Set up message handler
@@ -1332,7 +1386,7 @@ export async function runGemini(opts: {
               }
               const quotaMsg = `Gemini quota exceeded.${resetTimeMsg} Try using a different model (gemini-2.5-flash-lite) or wait for quota reset.`;
               messageBuffer.addMessage(quotaMsg, 'status');
-              session.sendAgentMessage('gemini', {
+              session.sendAgentMessage(provider, {
                 type: 'message',
                 message: quotaMsg,
               });
@@ -1483,7 +1537,7 @@ export async function runGemini(opts: {
 
           messageBuffer.addMessage(errorMsg, 'status');
           // Use sendAgentMessage for consistency with ACP format
-          session.sendAgentMessage('gemini', {
+          session.sendAgentMessage(provider, {
             type: 'message',
             message: errorMsg,
           });
@@ -1526,14 +1580,14 @@ export async function runGemini(opts: {
           logger.debug(
             `[gemini] Sending complete message to mobile (length: ${finalMessageText.length}): ${finalMessageText.substring(0, 100)}...`,
           );
-          session.sendAgentMessage('gemini', messagePayload);
+          session.sendAgentMessage(provider, messagePayload);
           accumulatedResponse = '';
           isResponseInProgress = false;
         }
 
         // Send task_complete ONCE at the end of turn (not on every idle)
         // This signals to the UI that the agent has finished processing
-        session.sendAgentMessage('gemini', {
+        session.sendAgentMessage(provider, {
           type: 'task_complete',
           id: randomUUID(),
         });
@@ -8,6 +8,7 @@
 import { ApiSessionClient } from "@/api/apiSession";
 import type { PermissionMode } from '@/api/types';
 import { logger } from "@/ui/logger";
+import { PermissionRules } from '@/utils/permissionRules';
 import {
     BasePermissionHandler,
     PendingRequest,
@@ -23,8 +24,8 @@ export type { PendingRequest, PermissionResult };
 export class GeminiPermissionHandler extends BasePermissionHandler {
     private currentPermissionMode: PermissionMode = 'default';
 
-    constructor(session: ApiSessionClient) {
-        super(session);
+    constructor(session: ApiSessionClient, rules: PermissionRules) {
+        super(session, rules);
     }
 
     protected getLogPrefix(): string {
@@ -109,10 +110,30 @@ export class GeminiPermissionHandler extends BasePermissionHandler {
         toolName: string,
         input: unknown
     ): Promise<PermissionResult> {
+        // Past the budget nothing runs until the user allows more spend
+        if (!await this.checkBudget()) {
+            return { decision: 'denied' };
+        }
+
+        // Rules decide first, an ask rule also overrides the permission mode
+        const { result, match } = this.applyRules(toolCallId, toolName, input);
+        if (result) {
+            return result;
+        }
+
         // Check if we should auto-approve based on permission mode
         // Pass toolCallId to check by ID (e.g., change_title-* even if toolName is "other")
-        if (this.shouldAutoApprove(toolName, toolCallId, input)) {
+        if (!match && this.shouldAutoApprove(toolName, toolCallId, input)) {
             logger.debug(`${this.getLogPrefix()} Auto-approving tool ${toolName} (${toolCallId}) in ${this.currentPermissionMode} mode`);
+            const decision = this.currentPermissionMode === 'yolo' ? 'approved_for_session' : 'approved';
+            this.session.audit.recordPermission({
+                toolCallId,
+                tool: toolName,
+                arguments: input,
+                decision,
+                decidedBy: 'mode',
+                mode: this.currentPermissionMode
+            });
 
             // Update agent state with auto-approved request
             this.session.updateAgentState((currentState) => ({
@@ -125,14 +146,12 @@ export class GeminiPermissionHandler extends BasePermissionHandler {
                         createdAt: Date.now(),
                         completedAt: Date.now(),
                         status: 'approved',
-                        decision: this.currentPermissionMode === 'yolo' ? 'approved_for_session' : 'approved'
+                        decision
                     }
                 }
             }));
 
-            return {
-                decision: this.currentPermissionMode === 'yolo' ? 'approved_for_session' : 'approved'
-            };
+            return { decision };
         }
 
         // Otherwise, ask for permission
@@ -146,7 +165,7 @@ export class GeminiPermissionHandler extends BasePermissionHandler {
             });
 
             // Update agent state with pending request
-            this.addPendingRequestToState(toolCallId, toolName, input);
+            this.addPendingRequestToState(toolCallId, toolName, input, match ?? undefined);
 
             logger.debug(`${this.getLogPrefix()} Permission request sent for tool: ${toolName} (${toolCallId}) in ${this.currentPermissionMode} mode`);
         });
@@ -6,6 +6,7 @@
  * Simple argument parsing without any CLI framework dependencies
  */
 
+import type { CustomAgentDefinition } from '@/agent/factories/custom';
 import { runClaude, StartOptions } from '@/claude/runClaude';
 import chalk from 'chalk';
 import { execFileSync } from 'node:child_process';
@@ -15,6 +16,8 @@ import { ApiClient } from './api/api';
 import { claudeCliPath } from './claude/claudeLocal';
 import { handleAuthCommand } from './commands/auth';
 import { handleConnectCommand } from './commands/connect';
+import { handleSessionCommand } from './commands/session';
+import { handleAuditCommand } from './commands/audit';
 import {
   checkIfDaemonRunningAndCleanupStaleState,
   isDaemonRunningCurrentlyInstalledHappyVersion,
@@ -27,7 +30,8 @@ import { install } from './daemon/install';
 import { startDaemon } from './daemon/run';
 import { uninstall } from './daemon/uninstall';
 import { runDaemonUpdate } from './daemon/update';
-import { readCredentials, readSettings } from './persistence';
+import { configuration } from './configuration';
+import { readCredentials, readDaemonState, readSettings } from './persistence';
 import { authAndSetupMachineIfNeeded } from './ui/auth';
 import { runDoctorCommand } from './ui/doctor';
 import { getLatestDaemonLog, logger } from './ui/logger';
@@ -90,6 +94,35 @@ import { spawnUnhappyCLI } from './utils/spawnUnhappyCLI';
       process.exit(1);
     }
     return;
+  } else if (subcommand === 'session') {
+    // Handle session subcommands
+    try {
+      await handleSessionCommand(args.slice(1));
+    } catch (error) {
+      console.error(
+        chalk.red('Error:'),
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+      if (process.env.DEBUG) {
+        console.error(error);
+      }
+      process.exit(1);
+    }
+    return;
+  } else if (subcommand === 'audit') {
+    try {
+      await handleAuditCommand(args.slice(1));
+    } catch (error) {
+      console.error(
+        chalk.red('Error:'),
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+      if (process.env.DEBUG) {
+        console.error(error);
+      }
+      process.exit(1);
+    }
+    return;
   } else if (subcommand === 'codex') {
     // Handle codex command
     try {
@@ -334,45 +367,7 @@ import { spawnUnhappyCLI } from './utils/spawnUnhappyCLI';
     }
 
     // Handle gemini command (ACP-based agent)
-    try {
-      const { runGemini } = await import('@/gemini/runGemini');
-
-      // Parse startedBy argument
-      let startedBy: 'daemon' | 'terminal' | undefined = undefined;
-      for (let i = 1; i < args.length; i++) {
-        if (args[i] === '--started-by') {
-          startedBy = args[++i] as 'daemon' | 'terminal';
-        }
-      }
-
-      const { credentials } = await authAndSetupMachineIfNeeded();
-
-      // Auto-start daemon for gemini (same as claude)
-      logger.debug(
-        'Ensuring Unhappy background service is running & matches our version...',
-      );
-      if (!(await isDaemonRunningCurrentlyInstalledHappyVersion())) {
-        logger.debug('Starting Unhappy background service...');
-        const daemonProcess = spawnUnhappyCLI(['daemon', 'start-sync'], {
-          detached: true,
-          stdio: 'ignore',
-          env: process.env,
-        });
-        daemonProcess.unref();
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      }
-
-      await runGemini({ credentials, startedBy });
-    } catch (error) {
-      console.error(
-        chalk.red('Error:'),
-        error instanceof Error ? error.message : 'Unknown error',
-      );
-      if (process.env.DEBUG) {
-        console.error(error);
-      }
-      process.exit(1);
-    }
+    await runAcpAgentCommand(args);
     return;
   } else if (subcommand === 'logout') {
     // Keep for backward compatibility - redirect to auth logout
@@ -479,6 +474,30 @@ import { spawnUnhappyCLI } from './utils/spawnUnhappyCLI';
       // Show daemon-specific doctor output
       await runDoctorCommand('daemon');
       process.exit(0);
+    } else if (daemonSubcommand === 'dashboard') {
+      const { dashboardUrls, loadOrCreateDashboardToken, resolveDashboardConfig } = await import('./daemon/dashboard/config');
+      const dashboardConfig = resolveDashboardConfig(process.env, (await readSettings()).dashboard);
+      const state = await checkIfDaemonRunningAndCleanupStaleState() ? await readDaemonState() : null;
+      if (state?.dashboardPort) {
+        const token = await loadOrCreateDashboardToken();
+        const local = ['127.0.0.1', 'localhost', '::1'].includes(dashboardConfig.host);
+        console.log(local ? 'Dashboard (open on this machine):' : 'Dashboard (open on a device in the same network):');
+        for (const url of dashboardUrls(dashboardConfig.host, state.dashboardPort)) {
+          console.log(`  ${url}#token=${token}`);
+        }
+        if (local) {
+          console.log(chalk.gray(`\nTo open it from other devices, set ${chalk.cyan('"lan": true')} under "dashboard" in ${configuration.settingsFile} and restart the daemon.`));
+        }
+        console.log(chalk.gray(`\nThe token is stored in ${configuration.dashboardTokenFile}, delete it and restart the daemon to rotate it.`));
+      } else if (dashboardConfig.enabled) {
+        console.log('The dashboard is enabled but the running daemon does not serve it.');
+        console.log(`Restart the daemon: ${chalk.cyan('unhappy daemon stop && unhappy daemon start')}`);
+      } else {
+        console.log('The dashboard is disabled.');
+        console.log(`Enable it with ${chalk.cyan('"dashboard": { "enabled": true }')} in ${configuration.settingsFile}`);
+        console.log(`or ${chalk.cyan('UNHAPPY_DASHBOARD=1')} in the daemon's environment, then restart the daemon.`);
+      }
+      process.exit(0);
     } else if (daemonSubcommand === 'logs') {
       // Simply print the path to the latest daemon log file
       const latest = await getLatestDaemonLog();
@@ -535,6 +554,9 @@ ${chalk.bold('Usage:')}
   unhappy daemon update             Update CLI and restart daemon
   unhappy daemon status             Show daemon status
   unhappy daemon list               List active sessions
+  unhappy daemon dashboard          Show the LAN dashboard address and token
+  unhappy daemon install            Install as a service (launchd on macOS, systemd user unit on Linux)
+  unhappy daemon uninstall          Remove the installed service
 
   If you want to kill all unhappy related processes run
   ${chalk.cyan('unhappy doctor clean')}
@@ -546,6 +568,16 @@ ${chalk.bold('To clean up runaway processes:')} Use ${chalk.cyan('unhappy doctor
     }
     return;
   } else {
+    // Custom ACP agents declared in ~/.unhappy/agents.json
+    if (subcommand && !subcommand.startsWith('-')) {
+      const { findCustomAgent } = await import('@/agent/factories/custom');
+      const customAgent = findCustomAgent(subcommand);
+      if (customAgent) {
+        await runAcpAgentCommand(args, customAgent);
+        return;
+      }
+    }
+
     // If the first argument is claude, remove it
     if (args.length > 0 && args[0] === 'claude') {
       args.shift();
@@ -661,8 +693,11 @@ ${chalk.bold('Usage:')}
   unhappy auth              Manage authentication
   unhappy codex             Start Codex mode
   unhappy gemini            Start Gemini mode (ACP)
+  unhappy <agent>           Start a custom ACP agent from ~/.unhappy/agents.json
   unhappy connect           Connect AI vendor API keys
   unhappy notify            Send push notification
+  unhappy session           Export sessions (archive, markdown, JSONL)
+  unhappy audit <session>   Show permission decisions and tool runs
   unhappy daemon            Manage background service that allows
                             to spawn new sessions away from your computer
   unhappy doctor            System diagnostics & troubleshooting
@@ -843,3 +878,51 @@ ${chalk.bold('Examples:')}
     throw error;
   }
 }
+
+/**
+ * Run an ACP agent: Gemini, or a custom agent declared in ~/.unhappy/agents.json
+ */
+async function runAcpAgentCommand(
+  args: string[],
+  agent?: CustomAgentDefinition,
+): Promise<void> {
+  try {
+    const { runGemini } = await import('@/gemini/runGemini');
+
+    // Parse startedBy argument
+    let startedBy: 'daemon' | 'terminal' | undefined = undefined;
+    for (let i = 1; i < args.length; i++) {
+      if (args[i] === '--started-by') {
+        startedBy = args[++i] as 'daemon' | 'terminal';
+      }
+    }
+
+    const { credentials } = await authAndSetupMachineIfNeeded();
+
+    // Auto-start daemon for ACP agents (same as claude)
+    logger.debug(
+      'Ensuring Unhappy background service is running & matches our version...',
+    );
+    if (!(await isDaemonRunningCurrentlyInstalledHappyVersion())) {
+      logger.debug('Starting Unhappy background service...');
+      const daemonProcess = spawnUnhappyCLI(['daemon', 'start-sync'], {
+        detached: true,
+        stdio: 'ignore',
+        env: process.env,
+      });
+      daemonProcess.unref();
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+
+    await runGemini({ credentials, startedBy, agent });
+  } catch (error) {
+    console.error(
+      chalk.red('Error:'),
+      error instanceof Error ? error.message : 'Unknown error',
+    );
+    if (process.env.DEBUG) {
+      console.error(error);
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AuditLog, extractExitCode } from './auditLog';
+import { renderAuditLine, type AuditEvent } from './index';
+
+describe('AuditLog', () => {
+  it('records a tool execution once its result arrives', async () => {
+    const uploaded: AuditEvent[] = [];
+    const audit = new AuditLog(async (events) => { uploaded.push(...events); });
+
+    audit.toolStarted('call-1', 'CodexBash', { command: ['bash', '-lc', 'npm test'] });
+    audit.toolStarted('call-1', 'CodexBash', { command: ['ignored'] });
+    audit.toolStarted('call-2', 'Edit', { file_path: '/repo/a.ts' });
+    audit.toolFinished('call-1', { exit_code: 1, stdout: '' }, false);
+    audit.toolFinished('call-2', 'ok', false);
+    audit.toolFinished('call-3', 'unknown call', false);
+    await audit.flush();
+
+    expect(uploaded).toMatchObject([
+      { type: 'tool', toolCallId: 'call-1', arguments: { command: ['bash', '-lc', 'npm test'] }, status: 'error', exitCode: 1, files: [] },
+      { type: 'tool', toolCallId: 'call-2', status: 'success', exitCode: null, files: ['/repo/a.ts'] },
+    ]);
+  });
+
+  it('keeps events queued until an upload succeeds', async () => {
+    const upload = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(undefined);
+    const audit = new AuditLog(upload);
+
+    audit.recordPermission({ toolCallId: 'call-1', tool: 'Bash', arguments: { command: 'ls' }, decision: 'approved', decidedBy: 'user', sentFrom: 'ios' });
+    await audit.flush();
+    await audit.flush();
+
+    expect(upload).toHaveBeenCalledTimes(2);
+    expect(upload.mock.calls[1][0]).toEqual(upload.mock.calls[0][0]);
+    expect(upload.mock.calls[1][0][0]).toMatchObject({ type: 'permission', decidedBy: 'user', sentFrom: 'ios', mode: null, rule: null });
+  });
+});
+
+describe('extractExitCode', () => {
+  it('reads integer exit codes only', () => {
+    expect(extractExitCode({ exit_code: 0 })).toBe(0);
+    expect(extractExitCode({ exitCode: 2 })).toBe(2);
+    expect(extractExitCode({ exit_code: '1' })).toBeNull();
+    expect(extractExitCode('Exit code 1')).toBeNull();
+  });
+});
+
+describe('renderAuditLine', () => {
+  it('says who decided and what ran', () => {
+    const time = Date.UTC(2026, 0, 2, 3, 4, 5);
+    expect(renderAuditLine({
+      type: 'permission', id: '1', time, toolCallId: null, tool: 'Bash', arguments: { command: 'git push' },
+      decision: 'denied', decidedBy: 'rule', sentFrom: null, mode: null, reason: null,
+      rule: { action: 'deny', source: 'project', description: 'deny Bash(git push*)' },
+    })).toBe('2026-01-02 03:04:05Z  denied                Bash git push  by project rule "deny Bash(git push*)"');
+    expect(renderAuditLine({
+      type: 'tool', id: '2', time, toolCallId: 'c', tool: 'Edit', arguments: { file_path: 'a.ts' },
+      status: 'success', exitCode: null, files: ['a.ts'], durationMs: 5,
+    })).toBe('2026-01-02 03:04:05Z  ran success           Edit a.ts  files: a.ts');
+  });
+});
@@ -0,0 +1,172 @@
+import { randomUUID } from 'node:crypto';
+import { logger } from '@/ui/logger';
+import { extractToolPaths } from '@/utils/permissionRules';
+import type { AuditEvent, AuditPermissionEvent } from './index';
+
+/** Events kept while the server is unreachable, the oldest are dropped beyond this */
+const MAX_QUEUED_EVENTS = 5000;
+const FLUSH_DELAY_MS = 1000;
+const RETRY_DELAY_MS = 10000;
+
+type OpenToolCall = { tool: string; arguments: unknown; startedAt: number };
+
+export type AuditPermission = Omit<AuditPermissionEvent, 'type' | 'id' | 'time' | 'sentFrom' | 'mode' | 'rule' | 'reason'>
+  & Partial<Pick<AuditPermissionEvent, 'sentFrom' | 'mode' | 'rule' | 'reason'>>;
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+/**
+ * Exit code of a shell tool result, when the agent reports one
+ */
+export function extractExitCode(output: unknown): number | null {
+  const record = toRecord(output);
+  for (const key of ['exit_code', 'exitCode']) {
+    const value = record?.[key];
+    if (typeof value === 'number' && Number.isInteger(value)) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Collects audit events for one session and uploads them in batches. Tool
+ * executions are recorded when their result arrives, so an event carries the
+ * arguments, outcome and touched files together. Without an upload, as in a
+ * session started offline, events are held until they are handed over.
+ */
+export class AuditLog {
+  private queue: AuditEvent[] = [];
+  private openToolCalls = new Map<string, OpenToolCall>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(private readonly upload: ((events: AuditEvent[]) => Promise<void>) | null) { }
+
+  recordPermission(permission: AuditPermission): void {
+    this.push({
+      type: 'permission',
+      id: randomUUID(),
+      time: Date.now(),
+      sentFrom: null,
+      mode: null,
+      rule: null,
+      reason: null,
+      ...permission,
+    });
+  }
+
+  /**
+   * A tool call was sent to the app. Agents can announce the same call more
+   * than once (e.g. Codex on approval and on start), the first one wins
+   */
+  toolStarted(toolCallId: string, tool: string, args: unknown): void {
+    if (!this.openToolCalls.has(toolCallId)) {
+      this.openToolCalls.set(toolCallId, { tool, arguments: args, startedAt: Date.now() });
+    }
+  }
+
+  toolFinished(toolCallId: string, output: unknown, isError: boolean): void {
+    const call = this.openToolCalls.get(toolCallId);
+    if (!call) {
+      return;
+    }
+    this.openToolCalls.delete(toolCallId);
+
+    const exitCode = extractExitCode(output);
+    const success = toRecord(output)?.success;
+    this.push({
+      type: 'tool',
+      id: randomUUID(),
+      time: Date.now(),
+      toolCallId,
+      tool: call.tool,
+      arguments: call.arguments,
+      status: isError || success === false || (exitCode !== null && exitCode !== 0) ? 'error' : 'success',
+      exitCode,
+      files: extractToolPaths(call.arguments),
+      durationMs: Date.now() - call.startedAt,
+    });
+  }
+
+  /**
+   * Move the held events and open tool calls to the log of the session that
+   * replaces this one, which uploads them
+   */
+  handOver(target: AuditLog): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    for (const [toolCallId, call] of this.openToolCalls) {
+      if (!target.openToolCalls.has(toolCallId)) {
+        target.openToolCalls.set(toolCallId, call);
+      }
+    }
+    this.openToolCalls.clear();
+    if (this.queue.length > 0) {
+      target.queue.unshift(...this.queue.splice(0));
+      target.trimQueue();
+      target.schedule(FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Upload everything recorded so far
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    while (this.flushing) {
+      await this.flushing;
+    }
+    const upload = this.upload;
+    if (!upload || this.queue.length === 0) {
+      return;
+    }
+
+    const batch = this.queue.splice(0, 500);
+    this.flushing = upload(batch)
+      .catch((error) => {
+        logger.debug(`[audit] Failed to upload ${batch.length} events, retrying later`, error);
+        this.queue.unshift(...batch);
+        this.trimQueue();
+        this.schedule(RETRY_DELAY_MS);
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+    await this.flushing;
+    if (this.queue.length > 0 && !this.flushTimer) {
+      this.schedule(FLUSH_DELAY_MS);
+    }
+  }
+
+  private push(event: AuditEvent): void {
+    this.queue.push(event);
+    this.trimQueue();
+    this.schedule(FLUSH_DELAY_MS);
+  }
+
+  private trimQueue(): void {
+    if (this.queue.length > MAX_QUEUED_EVENTS) {
+      const dropped = this.queue.splice(0, this.queue.length - MAX_QUEUED_EVENTS);
+      logger.debug(`[audit] Dropped ${dropped.length} events while offline`);
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.flushTimer || !this.upload) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, delay);
+    this.flushTimer.unref?.();
+  }
+}
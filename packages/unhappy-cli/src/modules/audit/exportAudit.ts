@@ -0,0 +1,47 @@
+import { ApiClient } from '@/api/api';
+import { decodeBase64, decrypt } from '@/api/encryption';
+import { Credentials } from '@/persistence';
+import { logger } from '@/ui/logger';
+import { resolveSessionKey } from '@/modules/sessionArchive/exportSession';
+import { AuditEvent, AuditEventSchema } from './index';
+
+/**
+ * Fetch and decrypt the audit trail of a session, oldest event first
+ */
+export async function exportSessionAudit(
+  api: ApiClient,
+  credentials: Credentials,
+  sessionId: string,
+): Promise<AuditEvent[]> {
+  const session = await api.getSession(sessionId);
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  const sessionKey = await resolveSessionKey(credentials, session);
+  if (!sessionKey) {
+    throw new Error(
+      `Session ${sessionId} was not created on this machine and its key can't be opened here, view its audit log in the app instead`,
+    );
+  }
+
+  const events: AuditEvent[] = [];
+  let after = 0;
+  while (true) {
+    const page = await api.getSessionAudit(sessionId, after);
+    for (const stored of page.events) {
+      const parsed = AuditEventSchema.safeParse(decrypt(sessionKey.key, sessionKey.variant, decodeBase64(stored.content)));
+      if (parsed.success) {
+        events.push(parsed.data);
+      } else {
+        logger.debug(`[audit] Skipping unreadable event ${stored.id}`);
+      }
+    }
+    if (page.events.length > 0) {
+      after = page.events[page.events.length - 1].seq;
+    }
+    if (!page.hasMore || page.events.length === 0) {
+      break;
+    }
+  }
+  return events;
+}
@@ -0,0 +1,87 @@
+/**
+ * Session audit trail
+ *
+ * Append-only record of every permission decision and tool execution in a
+ * session, encrypted with the session key and stored next to its messages.
+ * Mirrors unhappy-app/sources/sync/auditTypes.ts.
+ */
+
+import { z } from 'zod';
+
+export const AuditPermissionEventSchema = z.object({
+  type: z.literal('permission'),
+  id: z.string(),
+  time: z.number(),
+  toolCallId: z.string().nullable(),
+  tool: z.string(),
+  arguments: z.unknown(),
+  decision: z.enum(['approved', 'approved_for_session', 'denied', 'abort']),
+  /** A person in the app or terminal, a permission rule, or the permission mode */
+  decidedBy: z.enum(['user', 'rule', 'mode']),
+  /** Device the decision was sent from, e.g. `ios`, `web` or `cli` */
+  sentFrom: z.string().nullable(),
+  mode: z.string().nullable(),
+  rule: z.object({
+    action: z.enum(['allow', 'deny', 'ask']),
+    source: z.enum(['project', 'account', 'session']),
+    description: z.string(),
+  }).nullable(),
+  reason: z.string().nullable(),
+});
+
+export const AuditToolEventSchema = z.object({
+  type: z.literal('tool'),
+  id: z.string(),
+  time: z.number(),
+  toolCallId: z.string(),
+  tool: z.string(),
+  arguments: z.unknown(),
+  status: z.enum(['success', 'error']),
+  exitCode: z.number().nullable(),
+  files: z.array(z.string()),
+  durationMs: z.number().nullable(),
+});
+
+export const AuditEventSchema = z.discriminatedUnion('type', [AuditPermissionEventSchema, AuditToolEventSchema]);
+
+export type AuditPermissionEvent = z.infer<typeof AuditPermissionEventSchema>;
+export type AuditToolEvent = z.infer<typeof AuditToolEventSchema>;
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+
+function summarizeArguments(args: unknown): string {
+  const record = args && typeof args === 'object' && !Array.isArray(args) ? (args as Record<string, unknown>) : null;
+  const command = record?.command;
+  if (typeof command === 'string') {
+    return command;
+  }
+  if (Array.isArray(command)) {
+    return command.map(String).join(' ');
+  }
+  for (const key of ['file_path', 'notebook_path', 'path', 'pattern', 'url']) {
+    if (typeof record?.[key] === 'string') {
+      return record[key] as string;
+    }
+  }
+  const json = JSON.stringify(args ?? null);
+  return json.length > 200 ? `${json.slice(0, 197)}...` : json;
+}
+
+/**
+ * One line per event, for reading an audit trail in a terminal
+ */
+export function renderAuditLine(event: AuditEvent): string {
+  const time = new Date(event.time).toISOString().replace('T', ' ').replace(/\.\d+Z$/, 'Z');
+  const target = `${event.tool} ${summarizeArguments(event.arguments)}`;
+  if (event.type === 'permission') {
+    const by = event.decidedBy === 'rule' && event.rule
+      ? `${event.rule.source} rule "${event.rule.description}"`
+      : event.decidedBy === 'mode'
+        ? `${event.mode ?? 'permission'} mode`
+        : `user${event.sentFrom ? ` on ${event.sentFrom}` : ''}`;
+    const mode = event.decidedBy === 'user' && event.mode ? ` (mode ${event.mode})` : '';
+    return `${time}  ${event.decision.padEnd(20)}  ${target}  by ${by}${mode}`;
+  }
+  const exit = event.exitCode !== null ? ` exit ${event.exitCode}` : '';
+  const files = event.files.length > 0 ? `  files: ${event.files.join(', ')}` : '';
+  return `${time}  ${`ran ${event.status}`.padEnd(20)}  ${target}${exit}${files}`;
+}
@@ -5,9 +5,11 @@ import { readFile, writeFile, readdir, stat } from 'fs/promises';
 import { createHash } from 'crypto';
 import { join } from 'path';
 import { run as runRipgrep } from '@/modules/ripgrep/index';
+import { LineBatcher } from '@/utils/lineBatcher';
 import { run as runDifftastic } from '@/modules/difftastic/index';
 import { RpcHandlerManager } from '../../api/rpc/RpcHandlerManager';
 import { validatePath } from './pathSecurity';
+import type { ScheduledRunHandoff } from '@/daemon/schedules/scheduledRun';
 
 const execAsync = promisify(exec);
 
@@ -125,7 +127,8 @@ export interface SpawnSessionOptions {
     directory: string;
     sessionId?: string;
     approvedNewDirectoryCreation?: boolean;
-    agent?: 'claude' | 'codex' | 'gemini';
+    // Built-in agent, or the name of a custom ACP agent from ~/.unhappy/agents.json
+    agent?: 'claude' | 'codex' | 'gemini' | (string & {});
     token?: string;
     environmentVariables?: {
         // Anthropic Claude API configuration
@@ -140,6 +143,8 @@ export interface SpawnSessionOptions {
         // Note: TMUX_TMPDIR is used by tmux to store socket files when default /tmp is not suitable
         // Common use case: When /tmp has limited space or different permissions
     };
+    /** Prompt to deliver as the first message, set by the daemon scheduler only */
+    scheduledRun?: ScheduledRunHandoff;
 }
 
 export type SpawnSessionResult =
@@ -153,7 +158,7 @@ export type SpawnSessionResult =
 export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, workingDirectory: string) {
 
     // Shell command handler - executes commands in the default shell
-    rpcHandlerManager.registerHandler<BashRequest, BashResponse>('bash', async (data) => {
+    rpcHandlerManager.registerHandler<BashRequest, BashResponse>('bash', async (data, { signal }) => {
         logger.debug('Shell command request:', data.command);
 
         // Validate cwd if provided
@@ -173,6 +178,7 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
             const options: ExecOptions = {
                 cwd: data.cwd === '/' ? undefined : data.cwd,
                 timeout: data.timeout || 30000, // Default 30 seconds timeout
+                signal,
             };
 
             logger.debug('Shell command executing...', { cwd: options.cwd, timeout: options.timeout });
@@ -200,6 +206,17 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
                 killed?: boolean;
             };
 
+            if (signal.aborted) {
+                logger.debug('Shell command cancelled');
+                return {
+                    success: false,
+                    stdout: execError.stdout ? execError.stdout.toString() : '',
+                    stderr: execError.stderr ? execError.stderr.toString() : '',
+                    exitCode: -1,
+                    error: 'Command cancelled'
+                };
+            }
+
             // Check if the error was due to timeout
             if (execError.code === 'ETIMEDOUT' || execError.killed) {
                 const result = {
@@ -412,7 +429,7 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
     });
 
     // Get directory tree handler - recursive with depth control
-    rpcHandlerManager.registerHandler<GetDirectoryTreeRequest, GetDirectoryTreeResponse>('getDirectoryTree', async (data) => {
+    rpcHandlerManager.registerHandler<GetDirectoryTreeRequest, GetDirectoryTreeResponse>('getDirectoryTree', async (data, { signal }) => {
         logger.debug('Get directory tree request:', data.path, 'maxDepth:', data.maxDepth);
 
         // Validate path is within working directory
@@ -423,6 +440,10 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
 
         // Helper function to build tree recursively
         async function buildTree(path: string, name: string, currentDepth: number): Promise<TreeNode | null> {
+            // Stop walking once the caller gave up, the result is discarded anyway
+            if (signal.aborted) {
+                return null;
+            }
             try {
                 const stats = await stat(path);
 
@@ -487,6 +508,9 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
             // Build the tree starting from the requested path
             const tree = await buildTree(data.path, baseName, 0);
 
+            if (signal.aborted) {
+                return { success: false, error: 'Cancelled' };
+            }
             if (!tree) {
                 return { success: false, error: 'Failed to access the specified path' };
             }
@@ -498,8 +522,8 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
         }
     });
 
-    // Ripgrep handler - raw interface to ripgrep
-    rpcHandlerManager.registerHandler<RipgrepRequest, RipgrepResponse>('ripgrep', async (data) => {
+    // Ripgrep handler - raw interface to ripgrep, output lines are also streamed as progress
+    rpcHandlerManager.registerHandler<RipgrepRequest, RipgrepResponse>('ripgrep', async (data, { signal, progress }) => {
         logger.debug('Ripgrep request with args:', data.args, 'cwd:', data.cwd);
 
         // Validate cwd if provided
@@ -511,7 +535,13 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
         }
 
         try {
-            const result = await runRipgrep(data.args, { cwd: data.cwd });
+            const batcher = new LineBatcher((lines) => progress({ lines }));
+            const result = await runRipgrep(data.args, {
+                cwd: data.cwd,
+                signal,
+                onStdout: (chunk) => batcher.push(chunk)
+            });
+            batcher.end();
             return {
                 success: true,
                 exitCode: result.exitCode,
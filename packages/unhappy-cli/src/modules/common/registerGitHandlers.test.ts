@@ -0,0 +1,182 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RpcHandlerManager } from '../../api/rpc/RpcHandlerManager';
+import { parseNumstat, parseStatusPorcelainV2, registerGitHandlers } from './registerGitHandlers';
+
+describe('parseStatusPorcelainV2', () => {
+    it('parses branch headers, changes, renames and untracked files', () => {
+        const out = [
+            '# branch.oid 1234',
+            '# branch.head feat/x',
+            '# branch.upstream origin/feat/x',
+            '# branch.ab +2 -1',
+            '# stash 3',
+            '1 M. N... 100644 100644 100644 aaa bbb src/a file.ts',
+            '1 .D N... 100644 100644 000000 aaa aaa gone.ts',
+            '2 R. N... 100644 100644 100644 aaa aaa R100 new.ts',
+            'old.ts',
+            'u UU N... 100644 100644 100644 100644 aaa bbb ccc both.ts',
+            '? notes.md',
+            ''
+        ].join('\0');
+
+        expect(parseStatusPorcelainV2(out)).toEqual({
+            branch: 'feat/x',
+            upstream: 'origin/feat/x',
+            ahead: 2,
+            behind: 1,
+            stashCount: 3,
+            files: [
+                { path: 'src/a file.ts', staged: { status: 'modified', linesAdded: 0, linesRemoved: 0 }, unstaged: null },
+                { path: 'gone.ts', staged: null, unstaged: { status: 'deleted', linesAdded: 0, linesRemoved: 0 } },
+                { path: 'new.ts', oldPath: 'old.ts', staged: { status: 'renamed', linesAdded: 0, linesRemoved: 0 }, unstaged: null },
+                { path: 'both.ts', staged: null, unstaged: { status: 'conflicted', linesAdded: 0, linesRemoved: 0 } },
+                { path: 'notes.md', staged: null, unstaged: { status: 'untracked', linesAdded: 0, linesRemoved: 0 } }
+            ]
+        });
+    });
+
+    it('reports a detached head as null', () => {
+        expect(parseStatusPorcelainV2('# branch.head (detached)\0').branch).toBeNull();
+    });
+});
+
+describe('parseNumstat', () => {
+    it('parses counts, binaries and renames', () => {
+        expect(parseNumstat('3\t1\ta.ts\0-\t-\tlogo.png\x000\t0\t\0old.ts\0new.ts\0')).toEqual([
+            { path: 'a.ts', linesAdded: 3, linesRemoved: 1, binary: false },
+            { path: 'logo.png', linesAdded: 0, linesRemoved: 0, binary: true },
+            { path: 'new.ts', oldPath: 'old.ts', linesAdded: 0, linesRemoved: 0, binary: false }
+        ]);
+    });
+});
+
+describe('git handlers', () => {
+    let root: string;
+    let repo: string;
+    const handlers = new Map<string, (data: any) => Promise<any>>();
+    const call = (method: string, data: any) => handlers.get(method)!(data);
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' });
+
+    beforeAll(() => {
+        process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = 'Test';
+        process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = 'test@example.com';
+        root = realpathSync(mkdtempSync(join(tmpdir(), 'unhappy-git-')));
+        repo = join(root, 'repo');
+        execFileSync('git', ['init', '-q', '-b', 'main', repo]);
+        writeFileSync(join(repo, 'README.md'), 'hello\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'init');
+
+        const manager = { registerHandler: (method: string, handler: any) => handlers.set(method, handler) };
+        registerGitHandlers(manager as unknown as RpcHandlerManager, root);
+    });
+
+    afterAll(() => {
+        rmSync(root, { recursive: true, force: true });
+    });
+
+    it('reports status with line counts', async () => {
+        writeFileSync(join(repo, 'README.md'), 'hello\nworld\n');
+        writeFileSync(join(repo, 'new.txt'), 'x\n');
+
+        const status = await call('git-status', { path: repo });
+        expect(status).toMatchObject({ success: true, repoRoot: repo, branch: 'main', upstream: null });
+        expect(status.files).toEqual([
+            { path: 'README.md', staged: null, unstaged: { status: 'modified', linesAdded: 1, linesRemoved: 0 } },
+            { path: 'new.txt', staged: null, unstaged: { status: 'untracked', linesAdded: 0, linesRemoved: 0 } }
+        ]);
+
+        const diff = await call('git-diff', { path: repo });
+        expect(diff).toMatchObject({ success: true, repoRoot: repo, mode: 'head' });
+        expect(diff.diff).toContain('+world');
+        expect(diff.files).toEqual([{ path: 'README.md', linesAdded: 1, linesRemoved: 0, binary: false }]);
+    });
+
+    it('rejects paths outside the working directory and non repositories', async () => {
+        expect(await call('git-status', { path: '/' })).toMatchObject({ success: false, errorCode: 'INVALID_DIR' });
+        expect(await call('git-status', { path: root })).toMatchObject({ success: false, errorCode: 'NOT_GIT_REPO' });
+    });
+
+    it('creates, commits, merges and removes a worktree', async () => {
+        git('add', '-A');
+        git('commit', '-q', '-m', 'base');
+
+        const created = await call('git-worktree-create', { path: repo, branch: 'feat/login' });
+        expect(created).toEqual({
+            success: true,
+            worktreePath: join(repo, '.unhappy', 'worktree', 'feat-login'),
+            branchName: 'feat/login'
+        });
+        expect(await call('git-worktree-create', { path: repo, branch: '-x' })).toMatchObject({ errorCode: 'INVALID_WORKTREE_NAME' });
+
+        const worktreePath = created.worktreePath;
+        expect(await call('git-commit', { path: worktreePath, message: 'empty' })).toMatchObject({ errorCode: 'NOTHING_TO_COMMIT' });
+        writeFileSync(join(worktreePath, 'login.ts'), 'export {}\n');
+        const commit = await call('git-commit', { path: worktreePath, message: 'Add login' });
+        expect(commit.success).toBe(true);
+        expect(commit.commit).toMatch(/^[0-9a-f]{40}$/);
+
+        const branches = await call('git-branches', { path: worktreePath, compareTo: 'main' });
+        expect(branches).toMatchObject({ success: true, current: 'feat/login', main: 'main', remotes: [] });
+        expect(branches.branches).toContainEqual({ name: 'feat/login', current: true, upstream: null, ahead: 1, behind: 0 });
+
+        writeFileSync(join(worktreePath, 'README.md'), 'hello\nworld\nagain\n');
+        const sinceBase = await call('git-diff', { path: worktreePath, base: 'main' });
+        expect(sinceBase.files).toEqual([
+            { path: 'README.md', linesAdded: 1, linesRemoved: 0, binary: false },
+            { path: 'login.ts', linesAdded: 1, linesRemoved: 0, binary: false }
+        ]);
+        git('-C', worktreePath, 'checkout', '--', 'README.md');
+
+        const merged = await call('git-merge', { path: repo, branch: 'feat/login', worktreePath });
+        expect(merged).toEqual({ success: true, into: 'main' });
+        expect(git('log', '-1', '--format=%s').trim()).toBe('Add login');
+
+        expect(await call('git-worktree-remove', { path: repo, worktreePath, branch: 'feat/login' })).toEqual({ success: true });
+        expect(git('branch', '--list', 'feat/login').trim()).toBe('');
+    });
+
+    it('aborts a conflicting merge and lists the conflicts', async () => {
+        git('checkout', '-q', '-b', 'other');
+        writeFileSync(join(repo, 'README.md'), 'other\n');
+        git('commit', '-q', '-am', 'other');
+        git('checkout', '-q', 'main');
+        writeFileSync(join(repo, 'README.md'), 'main\n');
+        git('commit', '-q', '-am', 'main');
+
+        const merged = await call('git-merge', { path: repo, branch: 'other', into: 'main' });
+        expect(merged).toMatchObject({ success: false, errorCode: 'MERGE_CONFLICT', conflicts: ['README.md'] });
+        expect(git('status', '--porcelain').trim()).toBe('');
+    });
+
+    it('refuses to merge into a dirty checkout or a branch git does not accept', async () => {
+        writeFileSync(join(repo, 'README.md'), 'edited\n');
+        expect(await call('git-merge', { path: repo, branch: 'other', into: 'main' })).toMatchObject({ success: false, errorCode: 'DIRTY' });
+        git('checkout', '--', 'README.md');
+
+        expect(await call('git-merge', { path: repo, branch: 'other', into: 'main..x' })).toMatchObject({ success: false, errorCode: 'INVALID_ARGUMENT' });
+        expect(git('branch', '--show-current').trim()).toBe('main');
+    });
+
+    it('pushes a branch to its remote and validates pull request arguments', async () => {
+        const remote = join(root, 'remote.git');
+        execFileSync('git', ['init', '-q', '--bare', remote]);
+        git('remote', 'add', 'origin', remote);
+        git('checkout', '-q', '-b', 'feat/push');
+
+        expect(await call('git-push', { path: repo, branch: 'feat/push' })).toEqual({ success: true });
+        expect(execFileSync('git', ['branch', '--list', 'feat/push'], { cwd: remote, encoding: 'utf8' })).toContain('feat/push');
+        expect(git('rev-parse', '--abbrev-ref', 'feat/push@{upstream}').trim()).toBe('origin/feat/push');
+        expect(await call('git-push', { path: repo, branch: '--force' })).toMatchObject({ errorCode: 'INVALID_ARGUMENT' });
+        expect(await call('git-push', { path: '/', branch: 'feat/push' })).toMatchObject({ errorCode: 'INVALID_DIR' });
+
+        expect(await call('git-pr-create', { path: '/', base: 'main', head: 'feat/push' })).toMatchObject({ errorCode: 'INVALID_DIR' });
+        expect(await call('git-pr-create', { path: repo, base: 'main', head: 'feat/push', repo: 'a; rm -rf /' })).toMatchObject({ errorCode: 'INVALID_ARGUMENT' });
+        expect(await call('git-pr-create', { path: repo, base: '-x', head: 'feat/push' })).toMatchObject({ errorCode: 'INVALID_ARGUMENT' });
+        git('checkout', '-q', 'main');
+    });
+});
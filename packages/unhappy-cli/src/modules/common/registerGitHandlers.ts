@@ -0,0 +1,807 @@
+import { logger } from '@/ui/logger';
+import { execFile } from 'child_process';
+import { mkdir, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { RpcHandlerManager } from '../../api/rpc/RpcHandlerManager';
+import { validatePath } from './pathSecurity';
+
+const GIT_TIMEOUT_MS = 30000;
+const GIT_NETWORK_TIMEOUT_MS = 120000;
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+const WORKTREE_ATTEMPTS = 4;
+
+/**
+ * Stable error codes, the app branches on these instead of matching git's messages
+ */
+export type GitErrorCode =
+    | 'INVALID_DIR'
+    | 'INVALID_ARGUMENT'
+    | 'NOT_GIT_REPO'
+    | 'INVALID_WORKTREE_NAME'
+    | 'WORKTREE_ERROR'
+    | 'DIRTY'
+    | 'NOTHING_TO_COMMIT'
+    | 'FETCH_FAILED'
+    | 'CHECKOUT_FAILED'
+    | 'MERGE_CONFLICT'
+    | 'PUSH_REJECTED'
+    | 'PUSH_FAILED'
+    | 'GH_UNAVAILABLE'
+    | 'PR_FAILED'
+    | 'GIT_ERROR';
+
+interface GitFailure {
+    success: false;
+    errorCode: GitErrorCode;
+    error: string;
+}
+
+export type GitChangeKind = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'untracked' | 'conflicted';
+
+export interface GitFileSide {
+    status: GitChangeKind;
+    linesAdded: number;
+    linesRemoved: number;
+    binary?: boolean;
+}
+
+export interface GitFileChange {
+    path: string; // Relative to the repository root
+    oldPath?: string; // Set for renames and copies
+    staged: GitFileSide | null;
+    unstaged: GitFileSide | null;
+}
+
+interface GitStatusRequest {
+    path?: string;
+}
+
+export interface GitStatusResponse {
+    success: boolean;
+    repoRoot?: string;
+    branch?: string | null; // null when detached
+    upstream?: string | null;
+    ahead?: number;
+    behind?: number;
+    stashCount?: number;
+    files?: GitFileChange[];
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitDiffRequest {
+    path?: string;
+    // head: staged and unstaged changes against HEAD (falls back to staged in a repo without commits)
+    mode?: 'head' | 'staged' | 'unstaged';
+    // Diff against the merge base with this branch instead, including commits made on the current branch
+    base?: string;
+    files?: string[];
+    contextLines?: number;
+}
+
+interface GitDiffFile {
+    path: string;
+    oldPath?: string;
+    linesAdded: number;
+    linesRemoved: number;
+    binary: boolean;
+}
+
+interface GitDiffResponse {
+    success: boolean;
+    repoRoot?: string;
+    mode?: 'head' | 'staged' | 'unstaged';
+    diff?: string; // Unified diff
+    files?: GitDiffFile[];
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitWorktreeCreateRequest {
+    path: string;
+    branch: string;
+    // The branch name was generated, retry with -2, -3... suffixes instead of reusing an existing branch
+    autoName?: boolean;
+}
+
+interface GitWorktreeCreateResponse {
+    success: boolean;
+    worktreePath?: string;
+    branchName?: string;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitWorktreeRemoveRequest {
+    path: string;
+    worktreePath: string;
+    branch?: string; // Local branch to delete after removing the worktree
+    deleteRemoteBranch?: boolean;
+}
+
+interface GitResponse {
+    success: boolean;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitCommitRequest {
+    path: string;
+    message: string;
+    all?: boolean; // Stage every change first, default true
+}
+
+interface GitCommitResponse {
+    success: boolean;
+    commit?: string;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitMergeRequest {
+    path: string;
+    branch: string;
+    into?: string; // Defaults to the repository's main branch
+    worktreePath?: string; // Refuse to merge while this worktree has uncommitted changes
+    push?: boolean;
+}
+
+interface GitMergeResponse {
+    success: boolean;
+    into?: string;
+    conflicts?: string[];
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitPushRequest {
+    path: string;
+    branch: string;
+    remote?: string; // Defaults to origin, the branch is set to track it
+}
+
+interface GitPrCreateRequest {
+    path: string;
+    base: string;
+    head: string;
+    repo?: string; // owner/name, gh picks it from the remotes otherwise
+}
+
+interface GitPrCreateResponse {
+    success: boolean;
+    url?: string;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitBranchesRequest {
+    path?: string;
+    compareTo?: string; // Fill ahead/behind of every local branch relative to this ref
+}
+
+export interface GitBranch {
+    name: string;
+    current: boolean;
+    upstream: string | null;
+    ahead?: number;
+    behind?: number;
+}
+
+interface GitBranchesResponse {
+    success: boolean;
+    current?: string | null;
+    main?: string;
+    branches?: GitBranch[];
+    remotes?: Array<{ name: string; url: string }>;
+    errorCode?: GitErrorCode;
+    error?: string;
+}
+
+interface GitResult {
+    ok: boolean;
+    stdout: string;
+    stderr: string;
+    missing?: boolean; // The executable is not installed
+}
+
+/**
+ * Run a command without a shell, arguments are passed as-is
+ */
+function runCommand(command: string, cwd: string, args: string[], timeout: number): Promise<GitResult> {
+    return new Promise((resolvePromise) => {
+        execFile(command, args, {
+            cwd,
+            timeout,
+            maxBuffer: MAX_OUTPUT_BYTES,
+            // Never block on credential prompts, and keep messages parseable
+            env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GH_PROMPT_DISABLED: '1', LC_ALL: 'C' }
+        }, (error, stdout, stderr) => {
+            resolvePromise({
+                ok: !error,
+                stdout: stdout ? stdout.toString() : '',
+                stderr: stderr ? stderr.toString() : (error?.message ?? ''),
+                missing: (error as NodeJS.ErrnoException | null)?.code === 'ENOENT'
+            });
+        });
+    });
+}
+
+function runGit(cwd: string, args: string[], timeout: number = GIT_TIMEOUT_MS): Promise<GitResult> {
+    return runCommand('git', cwd, args, timeout);
+}
+
+function isRepoSlug(value: unknown): value is string {
+    return typeof value === 'string' && /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/.test(value);
+}
+
+function fail(errorCode: GitErrorCode, error: string): GitFailure {
+    return { success: false, errorCode, error };
+}
+
+function output(result: GitResult, fallback: string): string {
+    return (result.stderr.trim() || result.stdout.trim() || fallback).trim();
+}
+
+function isSafeRef(name: unknown): name is string {
+    // Refs are passed as separate arguments, but a leading dash would still read as an option
+    return typeof name === 'string' && name.trim().length > 0 && !name.startsWith('-') && !/[\r\n\0]/.test(name);
+}
+
+async function checkDirectory(path: string | undefined, workingDirectory: string): Promise<string | GitFailure> {
+    const target = path || workingDirectory;
+    const validation = validatePath(target, workingDirectory);
+    if (!validation.valid) {
+        return fail('INVALID_DIR', validation.error!);
+    }
+    const absolute = resolve(workingDirectory, target);
+    try {
+        if ((await stat(absolute)).isDirectory()) {
+            return absolute;
+        }
+    } catch {
+        // Reported below
+    }
+    return fail('INVALID_DIR', `Invalid directory: ${target}`);
+}
+
+async function findRepoRoot(dir: string): Promise<string | GitFailure> {
+    const result = await runGit(dir, ['rev-parse', '--show-toplevel']);
+    if (!result.ok) {
+        if (/not a git repository/i.test(result.stderr)) {
+            return fail('NOT_GIT_REPO', 'Not a Git repository');
+        }
+        return fail('GIT_ERROR', output(result, 'Failed to detect git repository'));
+    }
+    const root = result.stdout.trim();
+    return root ? root : fail('GIT_ERROR', 'Failed to detect git repository root');
+}
+
+/**
+ * Resolve a request path to the root of its repository
+ */
+async function openRepo(path: string | undefined, workingDirectory: string): Promise<string | GitFailure> {
+    const dir = await checkDirectory(path, workingDirectory);
+    return typeof dir === 'string' ? findRepoRoot(dir) : dir;
+}
+
+function changeKind(code: string): GitChangeKind | null {
+    switch (code) {
+        case '.':
+        case ' ':
+            return null;
+        case 'A': return 'added';
+        case 'D': return 'deleted';
+        case 'R': return 'renamed';
+        case 'C': return 'copied';
+        case 'U': return 'conflicted';
+        default: return 'modified';
+    }
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch --show-stash -z`
+ */
+export function parseStatusPorcelainV2(out: string): Omit<GitStatusResponse, 'success' | 'repoRoot'> {
+    const records = out.split('\0');
+    let branch: string | null = null;
+    let upstream: string | null = null;
+    let ahead = 0;
+    let behind = 0;
+    let stashCount = 0;
+    const files: GitFileChange[] = [];
+
+    for (let i = 0; i < records.length; i++) {
+        const record = records[i];
+        if (!record) continue;
+
+        if (record.startsWith('# ')) {
+            const [key, ...rest] = record.slice(2).split(' ');
+            const value = rest.join(' ');
+            if (key === 'branch.head') {
+                branch = value === '(detached)' ? null : value;
+            } else if (key === 'branch.upstream') {
+                upstream = value;
+            } else if (key === 'branch.ab') {
+                const match = value.match(/^\+(\d+) -(\d+)$/);
+                if (match) {
+                    ahead = Number(match[1]);
+                    behind = Number(match[2]);
+                }
+            } else if (key === 'stash') {
+                stashCount = Number(value) || 0;
+            }
+            continue;
+        }
+
+        const type = record[0];
+        if (type === '?') {
+            files.push({ path: record.slice(2), staged: null, unstaged: { status: 'untracked', linesAdded: 0, linesRemoved: 0 } });
+            continue;
+        }
+        if (type !== '1' && type !== '2' && type !== 'u') {
+            continue; // Ignored entries
+        }
+
+        // Ordinary entries have 8 fields before the path, renames 9 and unmerged 10
+        const fieldCount = type === '1' ? 8 : type === '2' ? 9 : 10;
+        const fields = record.split(' ');
+        const path = fields.slice(fieldCount).join(' ');
+        const xy = fields[1];
+        const change: GitFileChange = { path, staged: null, unstaged: null };
+        if (type === 'u') {
+            change.unstaged = { status: 'conflicted', linesAdded: 0, linesRemoved: 0 };
+        } else {
+            const stagedKind = changeKind(xy[0]);
+            const unstagedKind = changeKind(xy[1]);
+            change.staged = stagedKind ? { status: stagedKind, linesAdded: 0, linesRemoved: 0 } : null;
+            change.unstaged = unstagedKind ? { status: unstagedKind, linesAdded: 0, linesRemoved: 0 } : null;
+        }
+        if (type === '2') {
+            change.oldPath = records[++i];
+        }
+        files.push(change);
+    }
+
+    return { branch, upstream, ahead, behind, stashCount, files };
+}
+
+/**
+ * Parse `git diff --numstat -z`
+ */
+export function parseNumstat(out: string): GitDiffFile[] {
+    const records = out.split('\0');
+    const files: GitDiffFile[] = [];
+    for (let i = 0; i < records.length; i++) {
+        const record = records[i];
+        if (!record) continue;
+        const [added, removed, path] = record.split('\t');
+        const binary = added === '-' || removed === '-';
+        const file: GitDiffFile = {
+            path,
+            linesAdded: binary ? 0 : Number(added) || 0,
+            linesRemoved: binary ? 0 : Number(removed) || 0,
+            binary
+        };
+        // Renames leave the path empty and list the old and new paths as separate records
+        if (!path) {
+            file.oldPath = records[++i];
+            file.path = records[++i];
+        }
+        files.push(file);
+    }
+    return files;
+}
+
+function applyLineStats(files: GitFileChange[], stats: GitDiffFile[], side: 'staged' | 'unstaged') {
+    const byPath = new Map(stats.map((file) => [file.path, file]));
+    for (const file of files) {
+        const entry = file[side];
+        const stat = byPath.get(file.path);
+        if (entry && stat) {
+            entry.linesAdded = stat.linesAdded;
+            entry.linesRemoved = stat.linesRemoved;
+            if (stat.binary) entry.binary = true;
+        }
+    }
+}
+
+async function isWorktreeClean(dir: string, includeUntracked: boolean = true): Promise<boolean | GitFailure> {
+    const result = await runGit(dir, ['status', '--porcelain', ...(includeUntracked ? [] : ['--untracked-files=no'])]);
+    if (!result.ok) {
+        return fail('GIT_ERROR', output(result, 'Failed to get git status'));
+    }
+    return result.stdout.trim().length === 0;
+}
+
+async function hasRemote(root: string, name: string): Promise<boolean> {
+    const result = await runGit(root, ['remote']);
+    return result.ok && result.stdout.split('\n').some((line) => line.trim() === name);
+}
+
+async function resolveMainBranch(root: string): Promise<string> {
+    const symbolic = await runGit(root, ['symbolic-ref', '--quiet', 'refs/remotes/origin/HEAD']);
+    const fromOrigin = symbolic.ok ? symbolic.stdout.trim().replace(/^refs\/remotes\/origin\//, '') : '';
+    if (fromOrigin) return fromOrigin;
+
+    // Without origin/HEAD, look for the usual names on the remote, then locally
+    for (const prefix of ['refs/remotes/origin/', 'refs/heads/']) {
+        for (const candidate of ['main', 'master']) {
+            if ((await runGit(root, ['rev-parse', '--verify', '--quiet', prefix + candidate])).ok) {
+                return candidate;
+            }
+        }
+    }
+    return 'main';
+}
+
+function isNonFastForward(message: string): boolean {
+    const text = message.toLowerCase();
+    return text.includes('non-fast-forward')
+        || text.includes('fetch first')
+        || text.includes('remote contains work that you do not have locally');
+}
+
+function deriveWorktreeFolderName(branchName: string): string {
+    // Branch names may contain slashes, folder names can't
+    let folder = branchName.trim()
+        .replace(/[\\/]/g, '-')
+        .replace(/\s+/g, '-')
+        .replace(/[^A-Za-z0-9._-]/g, '-')
+        .replace(/-+/g, '-')
+        .replace(/^[^A-Za-z0-9]+/, '');
+
+    if (!folder || folder === '.' || folder === '..') folder = 'worktree';
+    return folder.slice(0, 64);
+}
+
+async function pathExists(path: string): Promise<boolean> {
+    try {
+        await stat(path);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Register typed git RPC handlers.
+ *
+ * Every path is validated against the working directory and git runs without
+ * a shell, so clients never need to build command strings.
+ */
+export function registerGitHandlers(rpcHandlerManager: RpcHandlerManager, workingDirectory: string) {
+
+    rpcHandlerManager.registerHandler<GitStatusRequest, GitStatusResponse>('git-status', async (data) => {
+        const root = await openRepo(data?.path, workingDirectory);
+        if (typeof root !== 'string') return root;
+
+        const status = await runGit(root, ['status', '--porcelain=v2', '--branch', '--show-stash', '--untracked-files=all', '-z']);
+        if (!status.ok) {
+            return fail('GIT_ERROR', output(status, 'Failed to get git status'));
+        }
+        const parsed = parseStatusPorcelainV2(status.stdout);
+
+        const [unstaged, staged] = await Promise.all([
+            runGit(root, ['diff', '--no-ext-diff', '--numstat', '-z']),
+            runGit(root, ['diff', '--no-ext-diff', '--cached', '--numstat', '-z'])
+        ]);
+        if (unstaged.ok) applyLineStats(parsed.files!, parseNumstat(unstaged.stdout), 'unstaged');
+        if (staged.ok) applyLineStats(parsed.files!, parseNumstat(staged.stdout), 'staged');
+
+        return { success: true, repoRoot: root, ...parsed };
+    });
+
+    rpcHandlerManager.registerHandler<GitDiffRequest, GitDiffResponse>('git-diff', async (data) => {
+        const root = await openRepo(data?.path, workingDirectory);
+        if (typeof root !== 'string') return root;
+
+        let mode = data?.mode ?? 'head';
+        let target: string[];
+        if (data?.base !== undefined) {
+            if (!isSafeRef(data.base)) {
+                return fail('GIT_ERROR', `Invalid base: ${data.base}`);
+            }
+            const mergeBase = await runGit(root, ['merge-base', data.base, 'HEAD']);
+            if (!mergeBase.ok) {
+                return fail('GIT_ERROR', output(mergeBase, `No common history with ${data.base}`));
+            }
+            mode = 'head';
+            target = [mergeBase.stdout.trim()];
+        } else {
+            if (mode === 'head' && !(await runGit(root, ['rev-parse', '--verify', '--quiet', 'HEAD'])).ok) {
+                mode = 'staged';
+            }
+            target = mode === 'head' ? ['HEAD'] : mode === 'staged' ? ['--cached'] : [];
+        }
+        const context = typeof data?.contextLines === 'number' ? [`-U${Math.max(0, Math.floor(data.contextLines))}`] : [];
+        const pathspec = Array.isArray(data?.files) && data.files.length > 0 ? ['--', ...data.files.map(String)] : [];
+
+        const [diff, numstat] = await Promise.all([
+            runGit(root, ['diff', '--no-ext-diff', '--no-color', ...context, ...target, ...pathspec]),
+            runGit(root, ['diff', '--no-ext-diff', '--numstat', '-z', ...target, ...pathspec])
+        ]);
+        if (!diff.ok) {
+            return fail('GIT_ERROR', output(diff, 'git diff failed'));
+        }
+        return { success: true, repoRoot: root, mode, diff: diff.stdout, files: numstat.ok ? parseNumstat(numstat.stdout) : [] };
+    });
+
+    rpcHandlerManager.registerHandler<GitWorktreeCreateRequest, GitWorktreeCreateResponse>('git-worktree-create', async (data) => {
+        const dir = await checkDirectory(data?.path, workingDirectory);
+        if (typeof dir !== 'string') return dir;
+        const root = await findRepoRoot(dir);
+        if (typeof root !== 'string') return root;
+
+        const branch = typeof data?.branch === 'string' ? data.branch.trim() : '';
+        if (!branch) {
+            return fail('INVALID_WORKTREE_NAME', 'Worktree name cannot be empty');
+        }
+        if (!isSafeRef(branch)) {
+            return fail('INVALID_WORKTREE_NAME', `Invalid branch name: ${branch}`);
+        }
+        const refCheck = await runGit(root, ['check-ref-format', '--branch', branch]);
+        if (!refCheck.ok) {
+            return fail('INVALID_WORKTREE_NAME', output(refCheck, 'Invalid branch name'));
+        }
+
+        // Generated names keep branch and folder aligned (name, name-2, ...), user names keep
+        // the branch and only move the folder
+        const autoName = data.autoName === true;
+        const folderBase = autoName ? branch : deriveWorktreeFolderName(branch);
+        const worktreeRoot = join(root, '.unhappy', 'worktree');
+
+        let lastError = 'Failed to create worktree after multiple attempts';
+        for (let attempt = 1; attempt <= WORKTREE_ATTEMPTS; attempt++) {
+            const suffix = attempt === 1 ? '' : `-${attempt}`;
+            const candidateBranch = autoName ? branch + suffix : branch;
+            const worktreePath = join(worktreeRoot, folderBase + suffix);
+
+            // Check the folder first so a taken folder isn't reported as an existing branch
+            if (await pathExists(worktreePath)) continue;
+
+            try {
+                await mkdir(worktreeRoot, { recursive: true });
+            } catch (error) {
+                return fail('WORKTREE_ERROR', error instanceof Error ? error.message : 'Failed to prepare worktree root');
+            }
+
+            const created = await runGit(root, ['worktree', 'add', '-b', candidateBranch, worktreePath]);
+            if (created.ok) {
+                return { success: true, worktreePath, branchName: candidateBranch };
+            }
+            lastError = output(created, 'Failed to create worktree');
+
+            if (!autoName) {
+                // A user-provided branch that already exists is checked out in the new worktree
+                if (/already exists/.test(lastError) && /branch/.test(lastError)) {
+                    const attached = await runGit(root, ['worktree', 'add', worktreePath, candidateBranch]);
+                    if (attached.ok) {
+                        return { success: true, worktreePath, branchName: candidateBranch };
+                    }
+                    lastError = output(attached, 'Failed to attach existing branch worktree');
+                }
+                return fail('WORKTREE_ERROR', lastError);
+            }
+        }
+        return fail('WORKTREE_ERROR', lastError);
+    });
+
+    rpcHandlerManager.registerHandler<GitWorktreeRemoveRequest, GitResponse>('git-worktree-remove', async (data) => {
+        const root = await openRepo(data?.path, workingDirectory);
+        if (typeof root !== 'string') return root;
+        if (typeof data.worktreePath !== 'string' || !data.worktreePath) {
+            return fail('INVALID_ARGUMENT', 'Worktree path is required');
+        }
+        const validation = validatePath(data.worktreePath, workingDirectory);
+        if (!validation.valid) {
+            return fail('INVALID_DIR', validation.error!);
+        }
+        const worktreePath = resolve(workingDirectory, data.worktreePath);
+
+        const removed = await runGit(root, ['worktree', 'remove', '--force', worktreePath]);
+        if (!removed.ok) {
+            return fail('WORKTREE_ERROR', output(removed, 'git worktree remove failed'));
+        }
+
+        // Branch cleanup is best effort, the worktree itself is gone
+        if (isSafeRef(data.branch)) {
+            const deleted = await runGit(root, ['branch', '-D', data.branch]);
+            if (!deleted.ok) logger.debug('[git] Failed to delete branch', output(deleted, ''));
+            if (data.deleteRemoteBranch && await hasRemote(root, 'origin')) {
+                const pushed = await runGit(root, ['push', 'origin', '--delete', data.branch], GIT_NETWORK_TIMEOUT_MS);
+                if (!pushed.ok) logger.debug('[git] Failed to delete remote branch', output(pushed, ''));
+            }
+        }
+        await runGit(root, ['worktree', 'prune']);
+        return { success: true };
+    });
+
+    rpcHandlerManager.registerHandler<GitCommitRequest, GitCommitResponse>('git-commit', async (data) => {
+        const dir = await openRepo(data?.path, workingDirectory);
+        if (typeof dir !== 'string') return dir;
+        const message = typeof data.message === 'string' ? data.message.trim() : '';
+        if (!message) {
+            return fail('INVALID_ARGUMENT', 'Commit message is required.');
+        }
+
+        const clean = await isWorktreeClean(dir);
+        if (typeof clean !== 'boolean') return clean;
+        if (clean) {
+            return fail('NOTHING_TO_COMMIT', 'No changes to commit.');
+        }
+
+        if (data.all !== false) {
+            const added = await runGit(dir, ['add', '-A']);
+            if (!added.ok) {
+                return fail('GIT_ERROR', `Failed to stage changes:\n${output(added, 'git add failed')}`);
+            }
+        }
+        const committed = await runGit(dir, ['commit', '-m', message]);
+        if (!committed.ok) {
+            const reason = output(committed, 'git commit failed');
+            return fail(/nothing (added )?to commit/.test(reason) ? 'NOTHING_TO_COMMIT' : 'GIT_ERROR', `Failed to commit:\n${reason}`);
+        }
+        const head = await runGit(dir, ['rev-parse', 'HEAD']);
+        return { success: true, commit: head.ok ? head.stdout.trim() : undefined };
+    });
+
+    rpcHandlerManager.registerHandler<GitMergeRequest, GitMergeResponse>('git-merge', async (data) => {
+        const root = await openRepo(data?.path, workingDirectory);
+        if (typeof root !== 'string') return root;
+        if (!isSafeRef(data.branch) || (data.into !== undefined && !isSafeRef(data.into))) {
+            return fail('INVALID_ARGUMENT', 'Invalid branch name');
+        }
+
+        if (data.worktreePath) {
+            const worktree = await checkDirectory(data.worktreePath, workingDirectory);
+            if (typeof worktree !== 'string') return worktree;
+            const clean = await isWorktreeClean(worktree);
+            if (typeof clean !== 'boolean') return clean;
+            if (!clean) {
+                return fail('DIRTY', 'Worktree has uncommitted changes. Please commit or stash before merging.');
+            }
+        }
+
+        // Switching branches in the main checkout must not carry over or clobber local edits,
+        // untracked files are left alone by the switch
+        const rootClean = await isWorktreeClean(root, false);
+        if (typeof rootClean !== 'boolean') return rootClean;
+        if (!rootClean) {
+            return fail('DIRTY', 'The repository has uncommitted changes. Please commit or stash before merging.');
+        }
+
+        const withOrigin = await hasRemote(root, 'origin');
+        if (withOrigin) {
+            const fetched = await runGit(root, ['fetch', 'origin'], GIT_NETWORK_TIMEOUT_MS);
+            if (!fetched.ok) {
+                return fail('FETCH_FAILED', `Failed to fetch:\n${output(fetched, 'git fetch failed')}`);
+            }
+        }
+
+        const into = data.into ?? await resolveMainBranch(root);
+        const branchName = await runGit(root, ['check-ref-format', '--branch', into]);
+        if (!branchName.ok) {
+            return { ...fail('INVALID_ARGUMENT', `Invalid branch name: ${into}`), into };
+        }
+        const checkout = await runGit(root, ['switch', into]);
+        if (!checkout.ok) {
+            return { ...fail('CHECKOUT_FAILED', `Failed to checkout ${into}:\n${output(checkout, 'git switch failed')}`), into };
+        }
+        if (withOrigin) {
+            // Non-fatal, the target may not track a remote branch
+            await runGit(root, ['pull', '--ff-only'], GIT_NETWORK_TIMEOUT_MS);
+        }
+
+        const merged = await runGit(root, ['merge', '--no-edit', data.branch]);
+        if (!merged.ok) {
+            const unmerged = await runGit(root, ['diff', '--name-only', '--diff-filter=U', '-z']);
+            const conflicts = unmerged.ok ? unmerged.stdout.split('\0').filter(Boolean) : [];
+            await runGit(root, ['merge', '--abort']);
+            return {
+                ...fail('MERGE_CONFLICT', `Merge failed (possible conflict). The merge has been aborted.\n\n${output(merged, 'git merge failed')}`),
+                into,
+                conflicts
+            };
+        }
+
+        if (data.push) {
+            const pushed = await runGit(root, ['push'], GIT_NETWORK_TIMEOUT_MS);
+            if (!pushed.ok) {
+                const reason = output(pushed, 'git push failed');
+                return { ...fail(isNonFastForward(reason) ? 'PUSH_REJECTED' : 'PUSH_FAILED', reason), into };
+            }
+        }
+        return { success: true, into };
+    });
+
+    rpcHandlerManager.registerHandler<GitPushRequest, GitResponse>('git-push', async (data) => {
+        const dir = await openRepo(data?.path, workingDirectory);
+        if (typeof dir !== 'string') return dir;
+        const remote = data.remote ?? 'origin';
+        if (!isSafeRef(data.branch) || !isSafeRef(remote)) {
+            return fail('INVALID_ARGUMENT', 'Invalid branch or remote name');
+        }
+
+        const pushed = await runGit(dir, ['push', '-u', remote, data.branch], GIT_NETWORK_TIMEOUT_MS);
+        if (!pushed.ok) {
+            const reason = output(pushed, 'git push failed');
+            return fail(isNonFastForward(reason) ? 'PUSH_REJECTED' : 'PUSH_FAILED', reason);
+        }
+        return { success: true };
+    });
+
+    rpcHandlerManager.registerHandler<GitPrCreateRequest, GitPrCreateResponse>('git-pr-create', async (data) => {
+        const dir = await openRepo(data?.path, workingDirectory);
+        if (typeof dir !== 'string') return dir;
+        if (!isSafeRef(data.base) || !isSafeRef(data.head)) {
+            return fail('INVALID_ARGUMENT', 'Invalid branch name');
+        }
+        if (data.repo !== undefined && !isRepoSlug(data.repo)) {
+            return fail('INVALID_ARGUMENT', `Invalid repository: ${data.repo}`);
+        }
+        const repo = data.repo ? ['--repo', data.repo] : [];
+
+        const created = await runCommand('gh', dir, ['pr', 'create', ...repo, '--base', data.base, '--head', data.head, '--fill'], GIT_NETWORK_TIMEOUT_MS);
+        if (created.missing) {
+            return fail('GH_UNAVAILABLE', 'GitHub CLI (gh) is not installed');
+        }
+        if (!created.ok) {
+            const reason = output(created, 'gh pr create failed');
+            if (reason.includes('already exists')) {
+                const viewed = await runCommand('gh', dir, ['pr', 'view', data.head, ...repo, '--json', 'url', '--jq', '.url'], GIT_NETWORK_TIMEOUT_MS);
+                if (viewed.ok && viewed.stdout.trim()) {
+                    return { success: true, url: viewed.stdout.trim() };
+                }
+            }
+            return fail('PR_FAILED', reason);
+        }
+        const url = created.stdout.trim().split('\n').pop()?.trim();
+        return { success: true, url: url || undefined };
+    });
+
+    rpcHandlerManager.registerHandler<GitBranchesRequest, GitBranchesResponse>('git-branches', async (data) => {
+        // Inside a worktree this is the worktree root, so the current branch is the worktree's own
+        const dir = await openRepo(data?.path, workingDirectory);
+        if (typeof dir !== 'string') return dir;
+
+        const [refs, head, remotes] = await Promise.all([
+            runGit(dir, ['for-each-ref', '--format=%(refname:short)%00%(upstream:short)', 'refs/heads']),
+            runGit(dir, ['symbolic-ref', '--quiet', '--short', 'HEAD']),
+            runGit(dir, ['remote', '-v'])
+        ]);
+        if (!refs.ok) {
+            return fail('GIT_ERROR', output(refs, 'Failed to list branches'));
+        }
+        // Empty when detached
+        const current = head.ok && head.stdout.trim() ? head.stdout.trim() : null;
+
+        const branches: GitBranch[] = refs.stdout.split('\n').filter(Boolean).map((line) => {
+            const [name, upstream] = line.split('\0');
+            return { name, current: name === current, upstream: upstream || null };
+        });
+        if (isSafeRef(data?.compareTo)) {
+            for (const branch of branches) {
+                const counts = await runGit(dir, ['rev-list', '--left-right', '--count', `${data.compareTo}...${branch.name}`]);
+                const match = counts.ok ? counts.stdout.trim().match(/^(\d+)\s+(\d+)$/) : null;
+                if (match) {
+                    branch.behind = Number(match[1]);
+                    branch.ahead = Number(match[2]);
+                }
+            }
+        }
+
+        const remoteList: Array<{ name: string; url: string }> = [];
+        for (const line of remotes.ok ? remotes.stdout.split('\n') : []) {
+            const match = line.match(/^(\S+)\s+(\S+)\s+\(fetch\)$/);
+            if (match) remoteList.push({ name: match[1], url: match[2] });
+        }
+
+        return {
+            success: true,
+            current,
+            main: await resolveMainBranch(dir),
+            branches,
+            remotes: remoteList
+        };
+    });
+}
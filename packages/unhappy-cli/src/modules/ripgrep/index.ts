@@ -14,6 +14,10 @@ export interface RipgrepResult {
 
 export interface RipgrepOptions {
     cwd?: string
+    /** Kills ripgrep, the returned promise rejects with the abort reason */
+    signal?: AbortSignal
+    /** Called with every stdout chunk as it arrives */
+    onStdout?: (chunk: string) => void
 }
 
 /**
@@ -33,8 +37,21 @@ export function run(args: string[], options?: RipgrepOptions): Promise<RipgrepRe
         let stdout = '';
         let stderr = '';
 
+        const signal = options?.signal;
+        const onAbort = () => {
+            child.kill();
+            reject(signal?.reason ?? new Error('Aborted'));
+        };
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+
         child.stdout.on('data', (data) => {
-            stdout += data.toString();
+            const chunk = data.toString();
+            stdout += chunk;
+            options?.onStdout?.(chunk);
         });
 
         child.stderr.on('data', (data) => {
@@ -42,6 +59,7 @@ export function run(args: string[], options?: RipgrepOptions): Promise<RipgrepRe
         });
 
         child.on('close', (code) => {
+            signal?.removeEventListener('abort', onAbort);
             resolve({
                 exitCode: code || 0,
                 stdout,
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ApiClient } from '@/api/api';
+import {
+  encodeBase64,
+  encrypt,
+  getRandomBytes,
+  libsodiumEncryptForPublicKey,
+  libsodiumPublicKeyFromSecretKey,
+} from '@/api/encryption';
+import { deriveKey } from '@/utils/deriveKey';
+import { exportSessionArchive } from './exportSession';
+
+vi.mock('@/persistence', () => ({
+  readSessionKey: vi.fn(async () => null),
+}));
+
+async function wrapForAccount(secret: Uint8Array, key: Uint8Array): Promise<string> {
+  const contentSeed = await deriveKey(secret, 'Unhappy EnCoder', ['content']);
+  const wrapped = libsodiumEncryptForPublicKey(key, libsodiumPublicKeyFromSecretKey(contentSeed));
+  return encodeBase64(new Uint8Array([0, ...wrapped]));
+}
+
+describe('exportSessionArchive', () => {
+  it('decrypts app sessions and linked artifacts with a legacy secret', async () => {
+    const secret = getRandomBytes(32);
+    const sessionKey = getRandomBytes(32);
+    const artifactKey = getRandomBytes(32);
+    const seal = (key: Uint8Array, value: any) => encodeBase64(encrypt(key, 'dataKey', value));
+
+    const api = {
+      getSession: vi.fn(async () => ({
+        id: 's1',
+        seq: 2,
+        createdAt: 1,
+        updatedAt: 2,
+        metadata: seal(sessionKey, { path: '/work/app', host: 'laptop' }),
+        metadataVersion: 1,
+        agentState: null,
+        agentStateVersion: 0,
+        dataEncryptionKey: await wrapForAccount(secret, sessionKey),
+      })),
+      getSessionMessages: vi.fn(async () => ({
+        messages: [
+          {
+            id: 'm1',
+            seq: 1,
+            localId: null,
+            createdAt: 1,
+            updatedAt: 1,
+            content: { t: 'encrypted' as const, c: seal(sessionKey, { role: 'user', content: { type: 'text', text: 'hello' } }) },
+          },
+        ],
+        hasMore: false,
+      })),
+      listArtifacts: vi.fn(async () => [
+        { id: 'a1', header: seal(artifactKey, { title: 'Plan', sessions: ['s1'] }), dataEncryptionKey: await wrapForAccount(secret, artifactKey), createdAt: 1, updatedAt: 1 },
+        { id: 'a2', header: seal(artifactKey, { title: 'Other', sessions: ['s2'] }), dataEncryptionKey: await wrapForAccount(secret, artifactKey), createdAt: 1, updatedAt: 1 },
+      ]),
+      getArtifact: vi.fn(async (id: string) => ({
+        id,
+        header: '',
+        body: seal(artifactKey, { body: 'Steps' }),
+        dataEncryptionKey: '',
+        createdAt: 1,
+        updatedAt: 1,
+      })),
+    } as unknown as ApiClient;
+
+    const archive = await exportSessionArchive(api, { token: 't', encryption: { type: 'legacy', secret } }, 's1');
+
+    expect(archive.session.metadata).toEqual({ path: '/work/app', host: 'laptop' });
+    expect(archive.messages.map((m) => m.content.content.text)).toEqual(['hello']);
+    expect(archive.artifacts).toEqual([{ id: 'a1', title: 'Plan', body: 'Steps', createdAt: 1, updatedAt: 1 }]);
+    expect(archive.renderings.markdown).toContain('## User\n\nhello');
+  });
+
+  it('refuses sessions it has no key for', async () => {
+    const api = {
+      getSession: vi.fn(async () => ({ id: 's1', dataEncryptionKey: 'AAAA' })),
+    } as unknown as ApiClient;
+    const credentials = { token: 't', encryption: { type: 'dataKey' as const, publicKey: getRandomBytes(32), machineKey: getRandomBytes(32) } };
+
+    await expect(exportSessionArchive(api, credentials, 's1')).rejects.toThrow('export it from the app');
+  });
+});
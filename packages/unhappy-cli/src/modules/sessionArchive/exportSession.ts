@@ -0,0 +1,133 @@
+import { ApiClient } from '@/api/api';
+import {
+  decodeBase64,
+  decrypt,
+  decryptWithDataKey,
+  libsodiumDecryptForSecretKey,
+} from '@/api/encryption';
+import { StoredSession } from '@/api/types';
+import { Credentials, readSessionKey, removeSessionKey } from '@/persistence';
+import { deriveKey } from '@/utils/deriveKey';
+import {
+  buildSessionArchive,
+  SessionArchive,
+  SessionArchiveArtifact,
+  SessionArchiveMessage,
+} from './index';
+
+type Key = { key: Uint8Array; variant: 'legacy' | 'dataKey' };
+
+/**
+ * Decrypt a `dataEncryptionKey` wrapped for the account content key. Only
+ * possible with legacy credentials, which hold the master secret.
+ */
+async function openDataEncryptionKey(
+  credentials: Credentials,
+  dataEncryptionKey: string,
+): Promise<Uint8Array | null> {
+  if (credentials.encryption.type !== 'legacy') {
+    return null;
+  }
+  const wrapped = decodeBase64(dataEncryptionKey);
+  if (wrapped[0] !== 0) {
+    return null;
+  }
+  const contentSeed = await deriveKey(credentials.encryption.secret, 'Unhappy EnCoder', ['content']);
+  return libsodiumDecryptForSecretKey(wrapped.slice(1), contentSeed);
+}
+
+/**
+ * Key for a session's content, null when it can't be opened with these credentials
+ */
+export async function resolveSessionKey(credentials: Credentials, session: StoredSession): Promise<Key | null> {
+  if (!session.dataEncryptionKey) {
+    return credentials.encryption.type === 'legacy'
+      ? { key: credentials.encryption.secret, variant: 'legacy' }
+      : null;
+  }
+  const stored = credentials.encryption.type === 'dataKey'
+    ? await readSessionKey(session.id, credentials.encryption.machineKey)
+    : null;
+  const key = stored ?? (await openDataEncryptionKey(credentials, session.dataEncryptionKey));
+  return key ? { key, variant: 'dataKey' } : null;
+}
+
+/**
+ * Build an archive of a session from the server: metadata, agent state,
+ * every message and the artifacts linked to it, all decrypted.
+ */
+export async function exportSessionArchive(
+  api: ApiClient,
+  credentials: Credentials,
+  sessionId: string,
+): Promise<SessionArchive> {
+  const session = await api.getSession(sessionId);
+  if (!session) {
+    await removeSessionKey(sessionId);
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  const sessionKey = await resolveSessionKey(credentials, session);
+  if (!sessionKey) {
+    throw new Error(
+      `Session ${sessionId} was not created on this machine and its key can't be opened here, export it from the app instead`,
+    );
+  }
+  const open = (value: string) => decrypt(sessionKey.key, sessionKey.variant, decodeBase64(value));
+
+  const messages: SessionArchiveMessage[] = [];
+  let after = 0;
+  while (true) {
+    const page = await api.getSessionMessages(sessionId, after);
+    for (const message of page.messages) {
+      const content = open(message.content.c);
+      if (content) {
+        messages.push({
+          id: message.id,
+          seq: message.seq,
+          localId: message.localId,
+          createdAt: message.createdAt,
+          content,
+        });
+      }
+    }
+    if (page.messages.length > 0) {
+      after = page.messages[page.messages.length - 1].seq;
+    }
+    if (!page.hasMore || page.messages.length === 0) {
+      break;
+    }
+  }
+
+  // Artifact keys are wrapped for the content key, skip them when it is not available
+  const artifacts: SessionArchiveArtifact[] = [];
+  if (credentials.encryption.type === 'legacy') {
+    for (const listed of await api.listArtifacts()) {
+      const key = await openDataEncryptionKey(credentials, listed.dataEncryptionKey);
+      const header = key ? decryptWithDataKey(decodeBase64(listed.header), key) : null;
+      if (!key || !Array.isArray(header?.sessions) || !header.sessions.includes(sessionId)) {
+        continue;
+      }
+      const artifact = await api.getArtifact(listed.id);
+      const body = artifact.body ? decryptWithDataKey(decodeBase64(artifact.body), key) : null;
+      artifacts.push({
+        id: artifact.id,
+        title: typeof header.title === 'string' ? header.title : null,
+        body: typeof body?.body === 'string' ? body.body : null,
+        createdAt: artifact.createdAt,
+        updatedAt: artifact.updatedAt,
+      });
+    }
+  }
+
+  return buildSessionArchive({
+    session: {
+      id: session.id,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      metadata: open(session.metadata),
+      agentState: session.agentState ? open(session.agentState) : null,
+    },
+    messages,
+    artifacts,
+  });
+}
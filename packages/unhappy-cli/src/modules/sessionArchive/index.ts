@@ -0,0 +1,177 @@
+/**
+ * Session archive format
+ *
+ * Mirrors unhappy-app/sources/sync/sessionArchive.ts, both sides must produce
+ * the same document so archives exported here can be imported in the app.
+ */
+
+export const SESSION_ARCHIVE_FORMAT = 'unhappy-session-archive';
+export const SESSION_ARCHIVE_VERSION = 1;
+
+export type SessionArchiveMessage = {
+  id: string;
+  seq: number;
+  localId: string | null;
+  createdAt: number;
+  content: any;
+};
+
+export type SessionArchiveArtifact = {
+  id: string;
+  title: string | null;
+  body: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type SessionArchive = {
+  format: typeof SESSION_ARCHIVE_FORMAT;
+  version: typeof SESSION_ARCHIVE_VERSION;
+  exportedAt: number;
+  session: {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+    metadata: any | null;
+    agentState: any | null;
+  };
+  messages: SessionArchiveMessage[];
+  artifacts: SessionArchiveArtifact[];
+  renderings: {
+    markdown: string;
+    jsonl: string;
+  };
+};
+
+type ArchiveBlock = { role: 'user' | 'assistant' | 'note'; text: string };
+
+function renderRecord(content: any): ArchiveBlock[] {
+  if (!content || typeof content !== 'object') {
+    return [];
+  }
+  if (content.role === 'user') {
+    return content.content?.type === 'text' ? [{ role: 'user', text: content.content.text }] : [];
+  }
+  if (content.role !== 'agent') {
+    return [];
+  }
+  const record = content.content;
+  if (record?.type === 'output') {
+    const data = record.data;
+    if (data?.type === 'summary') {
+      return [{ role: 'note', text: `Summary: ${data.summary}` }];
+    }
+    if (data?.type !== 'assistant' || !Array.isArray(data.message?.content)) {
+      return [];
+    }
+    const blocks: ArchiveBlock[] = [];
+    for (const block of data.message.content) {
+      if (block?.type === 'text' && block.text) {
+        blocks.push({ role: 'assistant', text: block.text });
+      } else if (block?.type === 'tool_use' || block?.type === 'tool-call') {
+        blocks.push({ role: 'note', text: `Tool: ${block.name}` });
+      }
+    }
+    return blocks;
+  }
+  if (record?.type === 'codex' || record?.type === 'acp') {
+    const data = record.data;
+    if (data?.type === 'message') {
+      return [{ role: 'assistant', text: data.message }];
+    }
+    if (data?.type === 'tool-call') {
+      return [{ role: 'note', text: `Tool: ${data.name}` }];
+    }
+  }
+  return [];
+}
+
+function archiveTitle(metadata: any, sessionId: string): string {
+  if (metadata?.summary?.text) {
+    return metadata.summary.text;
+  }
+  if (metadata?.name) {
+    return metadata.name;
+  }
+  if (metadata?.path) {
+    return String(metadata.path).split('/').filter(Boolean).pop() ?? sessionId;
+  }
+  return sessionId;
+}
+
+/**
+* Render a transcript of the conversation, tool calls are listed by name only
+*/
+export function renderSessionMarkdown(
+  session: SessionArchive['session'],
+  messages: SessionArchiveMessage[],
+  exportedAt: number
+): string {
+  const lines: string[] = [`# ${archiveTitle(session.metadata, session.id)}`, ''];
+  if (session.metadata?.path) {
+    lines.push(`- Path: \`${session.metadata.path}\``);
+  }
+  if (session.metadata?.host) {
+    lines.push(`- Host: ${session.metadata.host}`);
+  }
+  if (session.metadata?.flavor) {
+    lines.push(`- Agent: ${session.metadata.flavor}`);
+  }
+  lines.push(`- Created: ${new Date(session.createdAt).toISOString()}`);
+  lines.push(`- Exported: ${new Date(exportedAt).toISOString()}`);
+
+  let lastRole: ArchiveBlock['role'] | null = null;
+  for (const message of messages) {
+    for (const block of renderRecord(message.content)) {
+      if (block.role === 'note') {
+        lines.push('', `> ${block.text}`);
+        continue;
+      }
+      if (block.role !== lastRole) {
+        lines.push('', block.role === 'user' ? '## User' : '## Assistant');
+        lastRole = block.role;
+      }
+      lines.push('', block.text);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+* One raw message record per line
+*/
+export function renderSessionJsonl(messages: SessionArchiveMessage[]): string {
+  return messages.map((message) => JSON.stringify(message)).join('\n') + (messages.length > 0 ? '\n' : '');
+}
+
+export function buildSessionArchive(opts: {
+  session: SessionArchive['session'];
+  messages: SessionArchiveMessage[];
+  artifacts: SessionArchiveArtifact[];
+  exportedAt?: number;
+}): SessionArchive {
+  const exportedAt = opts.exportedAt ?? Date.now();
+  const messages = [...opts.messages].sort((a, b) => a.seq - b.seq);
+  return {
+    format: SESSION_ARCHIVE_FORMAT,
+    version: SESSION_ARCHIVE_VERSION,
+    exportedAt,
+    session: opts.session,
+    messages,
+    artifacts: opts.artifacts,
+    renderings: {
+      markdown: renderSessionMarkdown(opts.session, messages, exportedAt),
+      jsonl: renderSessionJsonl(messages),
+    },
+  };
+}
+
+export function sessionArchiveFileName(archive: SessionArchive): string {
+  const title = archiveTitle(archive.session.metadata, archive.session.id)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+  const date = new Date(archive.exportedAt).toISOString().slice(0, 10);
+  return `${title || 'session'}-${date}.unhappy.json`;
+}
@@ -0,0 +1,144 @@
+import { randomUUID } from 'node:crypto';
+import { logger } from '@/ui/logger';
+import { isTmuxAvailable } from '@/utils/tmux';
+import { RpcHandlerManager } from '../../api/rpc/RpcHandlerManager';
+import { ScriptTerminal } from './scriptTerminal';
+import { TmuxTerminal } from './tmuxTerminal';
+import type { TerminalBackend, TerminalBackendKind, TerminalFrame } from './types';
+
+const MAX_TERMINALS = 4;
+
+interface TerminalOpenRequest {
+    cols: number;
+    rows: number;
+    command?: string;
+}
+
+interface TerminalOpenResponse {
+    success: boolean;
+    terminalId?: string;
+    backend?: TerminalBackendKind;
+    error?: string;
+}
+
+interface TerminalInputRequest {
+    terminalId: string;
+    data: string;
+}
+
+interface TerminalResizeRequest {
+    terminalId: string;
+    cols: number;
+    rows: number;
+}
+
+interface TerminalCloseRequest {
+    terminalId: string;
+}
+
+interface TerminalResponse {
+    success: boolean;
+    error?: string;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return fallback;
+    }
+    return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+/**
+ * Register interactive terminal RPC handlers for a session.
+ *
+ * Output is not returned from RPCs, it is pushed through `emitFrame` and
+ * streamed to the app over the session socket. Returns a function that closes
+ * every terminal, call it when the session ends.
+ */
+export function registerTerminalHandlers(
+    rpcHandlerManager: RpcHandlerManager,
+    workingDirectory: string,
+    emitFrame: (terminalId: string, frame: TerminalFrame) => void
+): () => Promise<void> {
+    const terminals = new Map<string, TerminalBackend>();
+    let useTmux: Promise<boolean> | null = null;
+
+    rpcHandlerManager.registerHandler<TerminalOpenRequest, TerminalOpenResponse>('terminal-open', async (data) => {
+        if (terminals.size >= MAX_TERMINALS) {
+            return { success: false, error: `Too many open terminals (max ${MAX_TERMINALS})` };
+        }
+
+        const terminalId = randomUUID();
+        const options = {
+            id: terminalId,
+            cwd: workingDirectory,
+            cols: clamp(data?.cols, 10, 500, 80),
+            rows: clamp(data?.rows, 2, 200, 24),
+            command: typeof data?.command === 'string' && data.command.trim() ? data.command : undefined,
+            onFrame: (frame: TerminalFrame) => {
+                if (frame.t === 'exit') {
+                    terminals.delete(terminalId);
+                }
+                emitFrame(terminalId, frame);
+            }
+        };
+
+        try {
+            useTmux ??= isTmuxAvailable();
+            const terminal = (await useTmux)
+                ? await TmuxTerminal.open(options)
+                : await ScriptTerminal.open(options);
+            terminals.set(terminalId, terminal);
+            logger.debug(`[TERMINAL] Opened ${terminal.kind} terminal ${terminalId}`);
+            return { success: true, terminalId, backend: terminal.kind };
+        } catch (error) {
+            logger.debug('[TERMINAL] Failed to open terminal:', error);
+            return { success: false, error: error instanceof Error ? error.message : 'Failed to open terminal' };
+        }
+    });
+
+    rpcHandlerManager.registerHandler<TerminalInputRequest, TerminalResponse>('terminal-input', async (data) => {
+        const terminal = terminals.get(data?.terminalId);
+        if (!terminal) {
+            return { success: false, error: 'Terminal not found' };
+        }
+        if (typeof data.data !== 'string') {
+            return { success: false, error: 'Invalid input' };
+        }
+        try {
+            await terminal.write(data.data);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : 'Failed to write to terminal' };
+        }
+    });
+
+    rpcHandlerManager.registerHandler<TerminalResizeRequest, TerminalResponse>('terminal-resize', async (data) => {
+        const terminal = terminals.get(data?.terminalId);
+        if (!terminal) {
+            return { success: false, error: 'Terminal not found' };
+        }
+        try {
+            await terminal.resize(clamp(data.cols, 10, 500, 80), clamp(data.rows, 2, 200, 24));
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : 'Failed to resize terminal' };
+        }
+    });
+
+    rpcHandlerManager.registerHandler<TerminalCloseRequest, TerminalResponse>('terminal-close', async (data) => {
+        const terminal = terminals.get(data?.terminalId);
+        if (!terminal) {
+            return { success: false, error: 'Terminal not found' };
+        }
+        terminals.delete(data.terminalId);
+        await terminal.close();
+        return { success: true };
+    });
+
+    return async () => {
+        const open = Array.from(terminals.values());
+        terminals.clear();
+        await Promise.all(open.map((terminal) => terminal.close()));
+    };
+}
@@ -0,0 +1,91 @@
+/**
+ * Raw PTY terminal for machines without tmux
+ *
+ * Uses the system `script` utility to allocate a pseudo terminal, so we don't
+ * need a native module. Output is streamed as-is and interpreted by the app.
+ * `script` can't change the window size after start, so resize is a no-op.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+import { logger } from '@/ui/logger';
+import type { TerminalBackend, TerminalOpenOptions } from './types';
+
+/**
+ * Build the `script` invocation for the current platform
+ */
+export function scriptCommand(platform: NodeJS.Platform, command: string): { file: string; args: string[] } | null {
+    if (platform === 'linux') {
+        return { file: 'script', args: ['-qefc', command, '/dev/null'] };
+    }
+    if (platform === 'darwin' || platform === 'freebsd' || platform === 'openbsd') {
+        return { file: 'script', args: ['-q', '/dev/null', 'sh', '-c', command] };
+    }
+    return null;
+}
+
+export class ScriptTerminal implements TerminalBackend {
+    readonly kind = 'pty' as const;
+    private closed = false;
+
+    private constructor(private readonly child: ChildProcess) { }
+
+    static async open(options: TerminalOpenOptions): Promise<ScriptTerminal> {
+        const shell = process.env.SHELL || '/bin/sh';
+        const invocation = scriptCommand(process.platform, options.command ?? `exec ${shell} -l`);
+        if (!invocation) {
+            throw new Error(`Terminals are not supported on ${process.platform} without tmux`);
+        }
+
+        const child = spawn(invocation.file, invocation.args, {
+            cwd: options.cwd,
+            env: {
+                ...process.env,
+                TERM: 'xterm-256color',
+                COLUMNS: String(options.cols),
+                LINES: String(options.rows)
+            },
+            stdio: ['pipe', 'pipe', 'pipe']
+        });
+        const terminal = new ScriptTerminal(child);
+
+        // Keep multi-byte characters intact across chunks
+        const decoder = new StringDecoder('utf8');
+        const emit = (chunk: Buffer) => {
+            const data = decoder.write(chunk);
+            if (data.length > 0) {
+                options.onFrame({ t: 'data', data });
+            }
+        };
+        child.stdout?.on('data', emit);
+        child.stderr?.on('data', emit);
+        child.on('error', (error) => {
+            logger.debug('[TERMINAL] script failed:', error);
+        });
+        child.on('exit', (code) => {
+            terminal.closed = true;
+            options.onFrame({ t: 'exit', code });
+        });
+
+        return terminal;
+    }
+
+    async write(data: string): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.child.stdin?.write(data);
+    }
+
+    async resize(): Promise<void> {
+        // Not supported by script(1)
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.child.kill('SIGHUP');
+    }
+}
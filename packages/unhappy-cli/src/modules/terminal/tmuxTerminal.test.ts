@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseSnapshot, toHexKeys } from './tmuxTerminal';
+import { scriptCommand } from './scriptTerminal';
+
+describe('toHexKeys', () => {
+    it('encodes control sequences and utf8 as bytes', () => {
+        expect(toHexKeys('a\r')).toEqual(['61', '0d']);
+        expect(toHexKeys('\x1b[A')).toEqual(['1b', '5b', '41']);
+        expect(toHexKeys('é')).toEqual(['c3', 'a9']);
+    });
+});
+
+describe('parseSnapshot', () => {
+    it('parses cursor, size and pane lines', () => {
+        const snapshot = parseSnapshot('3 1 80 24 0 \n$ ls\n\x1b[34msrc\x1b[39m\n');
+        expect(snapshot).toEqual({
+            frame: {
+                t: 'screen',
+                lines: ['$ ls', '\x1b[34msrc\x1b[39m'],
+                cursor: { x: 3, y: 1 },
+                cols: 80,
+                rows: 24
+            },
+            dead: false,
+            exitCode: null
+        });
+    });
+
+    it('reports a dead pane with its exit status', () => {
+        const snapshot = parseSnapshot('0 0 80 24 1 130\n\n');
+        expect(snapshot?.dead).toBe(true);
+        expect(snapshot?.exitCode).toBe(130);
+    });
+
+    it('rejects malformed output', () => {
+        expect(parseSnapshot('')).toBeNull();
+        expect(parseSnapshot('garbage\n')).toBeNull();
+    });
+});
+
+describe('scriptCommand', () => {
+    it('uses the platform specific script syntax', () => {
+        expect(scriptCommand('linux', 'bash')).toEqual({ file: 'script', args: ['-qefc', 'bash', '/dev/null'] });
+        expect(scriptCommand('darwin', 'bash')).toEqual({ file: 'script', args: ['-q', '/dev/null', 'sh', '-c', 'bash'] });
+        expect(scriptCommand('win32', 'bash')).toBeNull();
+    });
+});
@@ -0,0 +1,186 @@
+/**
+ * tmux-backed terminal
+ *
+ * Each terminal lives in its own detached tmux session, so the shell survives
+ * app disconnects and can be attached from the machine itself with
+ * `tmux attach -t unhappy-term-<id>`. The pane is polled with capture-pane
+ * and a snapshot is emitted only when it changed.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { logger } from '@/ui/logger';
+import type { TerminalBackend, TerminalFrame, TerminalOpenOptions } from './types';
+
+const execFileAsync = promisify(execFile);
+
+const POLL_INTERVAL_MS = 100;
+const SESSION_PREFIX = 'unhappy-term-';
+
+async function tmux(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('tmux', args, {
+        timeout: 5000,
+        maxBuffer: 4 * 1024 * 1024
+    });
+    return stdout;
+}
+
+/**
+ * Encode input as space separated hex bytes for `send-keys -H`, which passes
+ * control characters and escape sequences through untouched.
+ */
+export function toHexKeys(data: string): string[] {
+    return Array.from(Buffer.from(data, 'utf8'), (byte) => byte.toString(16).padStart(2, '0'));
+}
+
+/**
+ * Parse the output of a poll: one status line from display-message followed
+ * by the captured pane lines.
+ */
+export function parseSnapshot(output: string): { frame: Extract<TerminalFrame, { t: 'screen' }>; dead: boolean; exitCode: number | null } | null {
+    const newline = output.indexOf('\n');
+    if (newline === -1) {
+        return null;
+    }
+    const status = output.slice(0, newline).trim().split(' ');
+    if (status.length < 5) {
+        return null;
+    }
+    const [x, y, cols, rows, dead, deadStatus] = status;
+    const lines = output.slice(newline + 1).split('\n');
+    // capture-pane terminates every line, including the last one
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    const exitCode = deadStatus !== undefined && deadStatus !== '' ? parseInt(deadStatus, 10) : NaN;
+    return {
+        frame: {
+            t: 'screen',
+            lines,
+            cursor: { x: parseInt(x, 10) || 0, y: parseInt(y, 10) || 0 },
+            cols: parseInt(cols, 10) || 0,
+            rows: parseInt(rows, 10) || 0
+        },
+        dead: dead === '1',
+        exitCode: Number.isNaN(exitCode) ? null : exitCode
+    };
+}
+
+export class TmuxTerminal implements TerminalBackend {
+    readonly kind = 'tmux' as const;
+    private timer: NodeJS.Timeout | null = null;
+    private polling = false;
+    private lastSnapshot = '';
+    private closed = false;
+
+    private constructor(
+        private readonly target: string,
+        private readonly onFrame: (frame: TerminalFrame) => void
+    ) { }
+
+    static async open(options: TerminalOpenOptions): Promise<TmuxTerminal> {
+        const target = `${SESSION_PREFIX}${options.id}`;
+        const args = [
+            'new-session', '-d',
+            '-s', target,
+            '-x', String(options.cols),
+            '-y', String(options.rows),
+            '-c', options.cwd
+        ];
+        if (options.command) {
+            args.push(options.command);
+        }
+        await tmux(args);
+
+        // Size follows the app, not whichever client attaches locally. Keep the
+        // pane around after exit so we can report the exit status.
+        for (const [option, value] of [['status', 'off'], ['window-size', 'manual'], ['remain-on-exit', 'on']]) {
+            try {
+                await tmux(['set-option', '-t', target, option, value]);
+            } catch (error) {
+                logger.debug(`[TERMINAL] tmux does not support ${option}:`, error);
+            }
+        }
+
+        const terminal = new TmuxTerminal(target, options.onFrame);
+        terminal.timer = setInterval(() => void terminal.poll(), POLL_INTERVAL_MS);
+        void terminal.poll();
+        return terminal;
+    }
+
+    async write(data: string): Promise<void> {
+        if (this.closed || data.length === 0) {
+            return;
+        }
+        await tmux(['send-keys', '-t', this.target, '-H', ...toHexKeys(data)]);
+        void this.poll();
+    }
+
+    async resize(cols: number, rows: number): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        await tmux(['resize-window', '-t', this.target, '-x', String(cols), '-y', String(rows)]);
+        // Always answer a resize with a snapshot, the app uses it to redraw
+        // when it reattaches to a running terminal
+        this.lastSnapshot = '';
+        void this.poll();
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.stop();
+        try {
+            await tmux(['kill-session', '-t', this.target]);
+        } catch (error) {
+            logger.debug(`[TERMINAL] Failed to kill ${this.target}:`, error);
+        }
+    }
+
+    private stop() {
+        this.closed = true;
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async poll(): Promise<void> {
+        if (this.closed || this.polling) {
+            return;
+        }
+        this.polling = true;
+        try {
+            const output = await tmux([
+                'display-message', '-p', '-t', this.target,
+                '#{cursor_x} #{cursor_y} #{pane_width} #{pane_height} #{pane_dead} #{pane_dead_status}',
+                ';',
+                'capture-pane', '-p', '-e', '-t', this.target
+            ]);
+            const snapshot = parseSnapshot(output);
+            if (!snapshot || this.closed) {
+                return;
+            }
+            if (output !== this.lastSnapshot) {
+                this.lastSnapshot = output;
+                this.onFrame(snapshot.frame);
+            }
+            if (snapshot.dead) {
+                this.stop();
+                this.onFrame({ t: 'exit', code: snapshot.exitCode });
+                await tmux(['kill-session', '-t', this.target]).catch(() => { });
+            }
+        } catch (error) {
+            // The session is gone, either killed locally or the tmux server died
+            if (!this.closed) {
+                logger.debug(`[TERMINAL] Lost ${this.target}:`, error);
+                this.stop();
+                this.onFrame({ t: 'exit', code: null });
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Terminal frames streamed from the CLI to the app.
+ *
+ * - `screen` frames are full snapshots of a tmux pane. Lines keep their SGR
+ *   escapes so the app can render colors, everything else is already
+ *   interpreted by tmux.
+ * - `data` frames are raw PTY output for the fallback backend and have to be
+ *   fed through a terminal emulator on the app side.
+ * - `exit` is sent once when the shell goes away.
+ */
+export type TerminalFrame =
+    | { t: 'screen'; lines: string[]; cursor: { x: number; y: number }; cols: number; rows: number }
+    | { t: 'data'; data: string }
+    | { t: 'exit'; code: number | null };
+
+export type TerminalBackendKind = 'tmux' | 'pty';
+
+export interface TerminalBackend {
+    readonly kind: TerminalBackendKind;
+    write(data: string): Promise<void>;
+    resize(cols: number, rows: number): Promise<void>;
+    close(): Promise<void>;
+}
+
+export interface TerminalOpenOptions {
+    id: string;
+    cwd: string;
+    cols: number;
+    rows: number;
+    /** Command to run instead of the user's shell */
+    command?: string;
+    onFrame: (frame: TerminalFrame) => void;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile, mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+
+describe('Session key persistence', () => {
+  let homeDir: string;
+
+  beforeEach(async () => {
+    homeDir = await mkdtemp(join(tmpdir(), 'unhappy-home-'));
+    process.env.UNHAPPY_HOME_DIR = homeDir;
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    delete process.env.UNHAPPY_HOME_DIR;
+    await rm(homeDir, { recursive: true, force: true });
+  });
+
+  it('seals keys with the machine key', async () => {
+    const { writeSessionKey, readSessionKey } = await import('@/persistence');
+    const { configuration } = await import('@/configuration');
+    const key = new Uint8Array(randomBytes(32));
+    const machineKey = new Uint8Array(randomBytes(32));
+
+    await writeSessionKey('s1', key, machineKey);
+
+    const stored = await readFile(join(configuration.sessionKeysDir, 's1.key'), 'utf8');
+    expect(stored).not.toContain(Buffer.from(key).toString('base64'));
+    expect(await readSessionKey('s1', machineKey)).toEqual(key);
+    expect(await readSessionKey('s1', new Uint8Array(randomBytes(32)))).toBeNull();
+  });
+
+  it('seals keys written in plain text on read', async () => {
+    const { readSessionKey } = await import('@/persistence');
+    const { configuration } = await import('@/configuration');
+    const key = new Uint8Array(randomBytes(32));
+    const machineKey = new Uint8Array(randomBytes(32));
+    await mkdir(configuration.sessionKeysDir, { recursive: true });
+    await writeFile(join(configuration.sessionKeysDir, 's1.key'), Buffer.from(key).toString('base64'));
+
+    expect(await readSessionKey('s1', machineKey)).toEqual(key);
+    const stored = await readFile(join(configuration.sessionKeysDir, 's1.key'), 'utf8');
+    expect(stored).not.toBe(Buffer.from(key).toString('base64'));
+    expect(await readSessionKey('s1', machineKey)).toEqual(key);
+  });
+
+  it('removes keys', async () => {
+    const { writeSessionKey, readSessionKey, removeSessionKey } = await import('@/persistence');
+    const machineKey = new Uint8Array(randomBytes(32));
+    await writeSessionKey('s1', new Uint8Array(randomBytes(32)), machineKey);
+
+    await removeSessionKey('s1');
+    await removeSessionKey('s1');
+
+    expect(await readSessionKey('s1', machineKey)).toBeNull();
+  });
+});
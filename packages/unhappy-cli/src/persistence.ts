@@ -10,9 +10,10 @@ import { existsSync, writeFileSync, readFileSync, unlinkSync } from 'node:fs'
 import { constants } from 'node:fs'
 import { configuration } from '@/configuration'
 import * as z from 'zod';
-import { encodeBase64 } from '@/api/encryption';
+import { decryptWithDataKey, encodeBase64, encryptWithDataKey } from '@/api/encryption';
 import { logger } from '@/ui/logger';
 import { resolve } from 'node:path';
+import type { KeepAwakePolicy } from '@/utils/keepAwake';
 
 // AI backend profile schema - MUST match unhappy app exactly
 // Using same Zod schema as GUI for runtime validation consistency
@@ -205,6 +206,8 @@ interface Settings {
   machineIdConfirmedByServer?: boolean
   daemonAutoStartWhenRunningHappy?: boolean
   chromeMode?: boolean  // Default Chrome mode setting for Claude
+  keepAwake?: KeepAwakePolicy  // When to prevent sleep, see utils/keepAwake.ts
+  dashboard?: { enabled?: boolean, lan?: boolean, host?: string, port?: number }  // LAN dashboard served by the daemon, see daemon/dashboard
   // Profile management settings (synced with unhappy app)
   activeProfileId?: string
   profiles: AIBackendProfile[]
@@ -257,6 +260,8 @@ export interface DaemonLocallyPersistedState {
   startedWithCliVersion: string;
   lastHeartbeat?: string;
   daemonLogPath?: string;
+  /** Set while the LAN dashboard runs, sessions then mirror themselves to the daemon */
+  dashboardPort?: number;
 }
 
 //
@@ -604,6 +609,7 @@ export async function updateSettings(
 
 const credentialsSchema = z.object({
   token: z.string(),
+  deviceId: z.string().nullish(), // Set once the token is bound to a device
   secret: z.string().base64().nullish(), // Legacy
   encryption: z.object({
     publicKey: z.string().base64(),
@@ -613,6 +619,7 @@ const credentialsSchema = z.object({
 
 export type Credentials = {
   token: string,
+  deviceId?: string,
   encryption: {
     type: 'legacy', secret: Uint8Array
   } | {
@@ -630,6 +637,7 @@ export async function readCredentials(): Promise<Credentials | null> {
     if (credentials.secret) {
       return {
         token: credentials.token,
+        ...(credentials.deviceId ? { deviceId: credentials.deviceId } : {}),
         encryption: {
           type: 'legacy',
           secret: new Uint8Array(Buffer.from(credentials.secret, 'base64'))
@@ -638,6 +646,7 @@ export async function readCredentials(): Promise<Credentials | null> {
     } else if (credentials.encryption) {
       return {
         token: credentials.token,
+        ...(credentials.deviceId ? { deviceId: credentials.deviceId } : {}),
         encryption: {
           type: 'dataKey',
           publicKey: new Uint8Array(Buffer.from(credentials.encryption.publicKey, 'base64')),
@@ -671,6 +680,59 @@ export async function writeCredentialsDataKey(credentials: { publicKey: Uint8Arr
   }, null, 2));
 }
 
+/**
+ * Swap the token for one bound to a device, keeping the encryption keys
+ */
+export async function writeCredentialsDevice(device: { deviceId: string, token: string }): Promise<void> {
+  const stored = JSON.parse(await readFile(configuration.privateKeyFile, 'utf8'));
+  await writeFile(configuration.privateKeyFile, JSON.stringify({
+    ...stored,
+    token: device.token,
+    deviceId: device.deviceId
+  }, null, 2));
+}
+
+/**
+ * Data keys of sessions created by this CLI. With dataKey credentials the CLI
+ * only holds the content public key, so it keeps its own copy to be able to
+ * read those sessions back (e.g. for `unhappy session export`). The copy is
+ * sealed with the machine key and removed once the session is gone.
+ */
+export async function writeSessionKey(sessionId: string, key: Uint8Array, machineKey: Uint8Array): Promise<void> {
+  if (!existsSync(configuration.sessionKeysDir)) {
+    await mkdir(configuration.sessionKeysDir, { recursive: true, mode: 0o700 })
+  }
+  const sealed = encryptWithDataKey(encodeBase64(key), machineKey);
+  await writeFile(sessionKeyFile(sessionId), encodeBase64(sealed), { mode: 0o600 });
+}
+
+export async function readSessionKey(sessionId: string, machineKey: Uint8Array): Promise<Uint8Array | null> {
+  const file = sessionKeyFile(sessionId);
+  if (!existsSync(file)) {
+    return null
+  }
+  try {
+    const stored = new Uint8Array(Buffer.from((await readFile(file, 'utf8')).trim(), 'base64'));
+    if (stored.length === 32) {
+      // Written before keys were sealed, seal it now
+      await writeSessionKey(sessionId, stored, machineKey);
+      return stored
+    }
+    const key = decryptWithDataKey(stored, machineKey);
+    return typeof key === 'string' ? new Uint8Array(Buffer.from(key, 'base64')) : null
+  } catch {
+    return null
+  }
+}
+
+export async function removeSessionKey(sessionId: string): Promise<void> {
+  await unlink(sessionKeyFile(sessionId)).catch(() => { });
+}
+
+function sessionKeyFile(sessionId: string): string {
+  return resolve(configuration.sessionKeysDir, `${encodeURIComponent(sessionId)}.key`);
+}
+
 export async function clearCredentials(): Promise<void> {
   if (existsSync(configuration.privateKeyFile)) {
     await unlink(configuration.privateKeyFile);
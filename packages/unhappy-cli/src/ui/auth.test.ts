@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import type { Credentials } from '@/persistence';
+import { deviceKeyPair } from './auth';
+
+function legacy(fill: number): Credentials {
+  return { token: 't', encryption: { type: 'legacy', secret: new Uint8Array(32).fill(fill) } };
+}
+
+describe('deviceKeyPair', () => {
+  it('derives the same sub-key from the same credentials', () => {
+    expect(deviceKeyPair(legacy(1)).publicKey).toEqual(deviceKeyPair(legacy(1)).publicKey);
+    expect(deviceKeyPair(legacy(1)).publicKey).not.toEqual(deviceKeyPair(legacy(2)).publicKey);
+    expect(deviceKeyPair(legacy(1)).publicKey).not.toEqual(deviceKeyPair({
+      token: 't',
+      encryption: { type: 'dataKey', publicKey: new Uint8Array(32).fill(1), machineKey: new Uint8Array(32).fill(3) },
+    }).publicKey);
+  });
+});
@@ -6,13 +6,15 @@ import {
   readCredentials,
   updateSettings,
   writeCredentialsDataKey,
+  writeCredentialsDevice,
   writeCredentialsLegacy,
 } from '@/persistence';
 import { openBrowser } from '@/utils/browser';
 import { delay } from '@/utils/time';
 import axios from 'axios';
 import { render } from 'ink';
-import { randomBytes, randomUUID } from 'node:crypto';
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
 import React from 'react';
 import tweetnacl from 'tweetnacl';
 import { AuthMethod, AuthSelector } from './ink/AuthSelector';
@@ -47,6 +49,7 @@ export async function doAuth(): Promise<Credentials | null> {
       publicKey: encodeBase64(keypair.publicKey),
       supportsV2: true,
       supportsEncryptedToken: true,
+      name: hostname(),
     });
     if (process.env.DEBUG) {
       console.log(`[AUTH DEBUG] Auth request sent successfully`);
@@ -192,6 +195,7 @@ async function waitForAuthentication(
             publicKey: encodeBase64(keypair.publicKey),
             supportsV2: true,
             supportsEncryptedToken: true,
+            name: hostname(),
           },
         );
         if (response.data.state === 'authorized') {
@@ -331,6 +335,7 @@ export async function authAndSetupMachineIfNeeded(): Promise<{
   } else {
     logger.debug('[AUTH] Using existing credentials');
   }
+  credentials = await registerDevice(credentials);
 
   // Make sure we have a machine ID
   // Server machine entity will be created either by the daemon or by the CLI
@@ -348,3 +353,48 @@ export async function authAndSetupMachineIfNeeded(): Promise<{
 
   return { credentials, machineId: settings.machineId! };
 }
+
+/**
+ * Device sub-key of this CLI. Derived from the stored credentials rather than
+ * generated, so processes registering at the same time end up with one device.
+ */
+export function deviceKeyPair(credentials: Credentials): tweetnacl.SignKeyPair {
+  const material = credentials.encryption.type === 'legacy'
+    ? credentials.encryption.secret
+    : credentials.encryption.machineKey;
+  const seed = createHmac('sha256', material).update('unhappy-cli-device').digest();
+  return tweetnacl.sign.keyPair.fromSeed(new Uint8Array(seed));
+}
+
+/**
+ * Swap a token without a device (issued before device management, or by the
+ * terminal auth flow which doesn't report the device) for a device-bound one,
+ * so the CLI shows up in the app's device list and can be revoked there.
+ * Failures keep the current token, registration is retried on the next start.
+ */
+async function registerDevice(credentials: Credentials): Promise<Credentials> {
+  if (credentials.deviceId) {
+    return credentials;
+  }
+  try {
+    const keypair = deviceKeyPair(credentials);
+    const challenge = new Uint8Array(randomBytes(32));
+    const response = await axios.post(`${configuration.serverUrl}/v1/devices`, {
+      publicKey: encodeBase64(keypair.publicKey),
+      challenge: encodeBase64(challenge),
+      signature: encodeBase64(tweetnacl.sign.detached(challenge, keypair.secretKey)),
+      name: hostname(),
+      kind: 'cli',
+    }, {
+      headers: { Authorization: `Bearer ${credentials.token}` },
+      timeout: 5000,
+    });
+    const device = response.data as { deviceId: string; token: string };
+    await writeCredentialsDevice(device);
+    logger.debug(`[AUTH] Registered as device ${device.deviceId}`);
+    return { ...credentials, token: device.token, deviceId: device.deviceId };
+  } catch (error) {
+    logger.debug('[AUTH] Device registration failed, keeping the current token:', error);
+    return credentials;
+  }
+}
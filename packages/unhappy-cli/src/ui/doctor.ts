@@ -7,9 +7,15 @@
 
 import { configuration } from '@/configuration';
 import { checkIfDaemonRunningAndCleanupStaleState } from '@/daemon/controlClient';
-import { findAllUnhappyProcesses } from '@/daemon/doctor';
+import { findAllUnhappyProcesses, findKeepAwakeInhibitors } from '@/daemon/doctor';
+import { getSystemdUnitStatus } from '@/daemon/linux/systemd';
 import { readCredentials, readDaemonState, readSettings } from '@/persistence';
 import { projectPath } from '@/projectPath';
+import {
+  detectSleepInhibitor,
+  isOnBatteryPower,
+  resolveKeepAwakePolicy,
+} from '@/utils/keepAwake';
 import chalk from 'chalk';
 import { existsSync, readdirSync, statSync } from 'node:fs';
 import { join } from 'node:path';
@@ -171,6 +177,9 @@ export async function runDoctorCommand(
       if (state.httpPort) {
         console.log(`  HTTP Port: ${state.httpPort}`);
       }
+      if (state.dashboardPort) {
+        console.log(`  Dashboard Port: ${state.dashboardPort} (${chalk.cyan('unhappy daemon dashboard')} for the address)`);
+      }
     } else if (state && !isRunning) {
       console.log(
         chalk.yellow('⚠️  Daemon state exists but process not running (stale)'),
@@ -179,6 +188,28 @@ export async function runDoctorCommand(
       console.log(chalk.red('❌ Daemon is not running'));
     }
 
+    // systemd user service - only relevant on Linux
+    if (process.platform === 'linux') {
+      const unit = getSystemdUnitStatus();
+      console.log(chalk.bold('\n🐧 systemd User Service'));
+      if (unit.installed) {
+        console.log(`  Unit: ${chalk.blue(unit.unitPath)}`);
+        console.log(
+          `  Enabled: ${unit.enabled === 'enabled' ? chalk.green(unit.enabled) : chalk.yellow(unit.enabled)}`,
+        );
+        console.log(
+          `  Active: ${unit.active === 'active' ? chalk.green(unit.active) : chalk.yellow(unit.active)}`,
+        );
+      } else {
+        console.log(
+          chalk.gray('  Not installed (run `unhappy daemon install` to install)'),
+        );
+      }
+      console.log(
+        `  Lingering: ${unit.linger === null ? chalk.gray('unknown') : unit.linger ? chalk.green('enabled') : chalk.yellow('disabled (daemon stops on logout)')}`,
+      );
+    }
+
     // Show daemon state file
     if (state) {
       console.log(chalk.bold('\n📄 Daemon State:'));
@@ -246,6 +277,37 @@ export async function runDoctorCommand(
     console.log(chalk.red('❌ Error checking daemon status'));
   }
 
+  // Sleep prevention - shown for both filters, the daemon holds an inhibitor too
+  console.log(chalk.bold('\n☕ Keep Awake'));
+  try {
+    const settings = await readSettings();
+    const policy = resolveKeepAwakePolicy(
+      process.env.UNHAPPY_KEEP_AWAKE,
+      settings.keepAwake,
+    );
+    const inhibitor = detectSleepInhibitor();
+    console.log(`  Policy: ${chalk.green(policy)}`);
+    console.log(
+      `  Inhibitor: ${inhibitor ? chalk.green(inhibitor.name) : chalk.yellow('none available on this platform')}`,
+    );
+    console.log(
+      `  Power: ${isOnBatteryPower() ? chalk.yellow('battery') : chalk.green('AC or unknown')}`,
+    );
+
+    const active = await findKeepAwakeInhibitors();
+    if (active.length > 0) {
+      active.forEach(({ pid, name, ownerPid }) => {
+        console.log(
+          `  ${chalk.green('Active')}: ${name} PID ${pid}${ownerPid ? chalk.gray(` for PID ${ownerPid}`) : ''}`,
+        );
+      });
+    } else {
+      console.log(`  Active: ${chalk.gray('none')}`);
+    }
+  } catch (error) {
+    console.log(chalk.red('❌ Error checking sleep prevention'));
+  }
+
   // Log files - only show for 'all' filter
   if (filter === 'all') {
     console.log(chalk.bold('\n📝 Log Files'));
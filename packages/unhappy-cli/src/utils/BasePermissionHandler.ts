@@ -7,9 +7,12 @@
  * @module BasePermissionHandler
  */
 
+import { randomUUID } from "node:crypto";
 import { logger } from "@/ui/logger";
 import { ApiSessionClient } from "@/api/apiSession";
 import { AgentState } from "@/api/types";
+import { BUDGET_TOOL } from "@/utils/budget";
+import { PermissionRuleMatch, PermissionRules, sessionRuleFor } from "@/utils/permissionRules";
 
 /**
  * Permission response from the mobile app.
@@ -18,6 +21,8 @@ export interface PermissionResponse {
     id: string;
     approved: boolean;
     decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
+    /** Device the decision was made on */
+    sentFrom?: string;
 }
 
 /**
@@ -46,15 +51,18 @@ export interface PermissionResult {
 export abstract class BasePermissionHandler {
     protected pendingRequests = new Map<string, PendingRequest>();
     protected session: ApiSessionClient;
+    protected rules: PermissionRules;
     private isResetting = false;
+    private budgetRequest: Promise<boolean> | null = null;
 
     /**
      * Returns the log prefix for this handler.
      */
     protected abstract getLogPrefix(): string;
 
-    constructor(session: ApiSessionClient) {
+    constructor(session: ApiSessionClient, rules: PermissionRules) {
         this.session = session;
+        this.rules = rules;
         this.setupRpcHandler();
     }
 
@@ -104,7 +112,21 @@ export abstract class BasePermissionHandler {
                     ? { decision: response.decision === 'approved_for_session' ? 'approved_for_session' : 'approved' }
                     : { decision: response.decision === 'denied' ? 'denied' : 'abort' };
 
+                if (result.decision === 'approved_for_session') {
+                    this.rules.addSessionRule(sessionRuleFor(pending.toolName, pending.input));
+                    const sessionRules = this.rules.getSessionRules();
+                    this.session.updateAgentState((currentState) => ({ ...currentState, sessionRules }));
+                }
+
                 pending.resolve(result);
+                this.session.audit.recordPermission({
+                    toolCallId: response.id,
+                    tool: pending.toolName,
+                    arguments: pending.input,
+                    decision: result.decision,
+                    decidedBy: 'user',
+                    sentFrom: response.sentFrom ?? null
+                });
 
                 // Move request to completed in agent state
                 this.session.updateAgentState((currentState) => {
@@ -137,7 +159,7 @@ export abstract class BasePermissionHandler {
     /**
      * Add a pending request to the agent state.
      */
-    protected addPendingRequestToState(toolCallId: string, toolName: string, input: unknown): void {
+    protected addPendingRequestToState(toolCallId: string, toolName: string, input: unknown, matchedRule?: PermissionRuleMatch): void {
         this.session.updateAgentState((currentState) => ({
             ...currentState,
             requests: {
@@ -145,10 +167,82 @@ export abstract class BasePermissionHandler {
                 [toolCallId]: {
                     tool: toolName,
                     arguments: input,
-                    createdAt: Date.now()
+                    createdAt: Date.now(),
+                    ...(matchedRule ? { matchedRule } : {})
+                }
+            }
+        }));
+    }
+
+    /**
+     * Once the session budget is used up, ask the user whether to allow more
+     * spend. Checked before every turn and tool call, the ones waiting at the
+     * same time share one request
+     */
+    checkBudget(): Promise<boolean> {
+        if (!this.session.budget.isExceeded()) {
+            return Promise.resolve(true);
+        }
+        if (!this.budgetRequest) {
+            const id = `budget-${randomUUID()}`;
+            const state = this.session.budget.state();
+            this.budgetRequest = new Promise<PermissionResult>((resolve, reject) => {
+                this.pendingRequests.set(id, { resolve, reject, toolName: BUDGET_TOOL, input: state });
+                this.addPendingRequestToState(id, BUDGET_TOOL, state);
+                logger.debug(`${this.getLogPrefix()} Budget used up, asking to continue (${id})`);
+            })
+                .then((result) => {
+                    const approved = result.decision === 'approved' || result.decision === 'approved_for_session';
+                    if (approved) {
+                        this.session.budget.extend();
+                    }
+                    return approved;
+                }, () => false)
+                .finally(() => {
+                    this.budgetRequest = null;
+                });
+        }
+        return this.budgetRequest;
+    }
+
+    /**
+     * Evaluate the permission rules for a tool call. Allow and deny rules
+     * decide the call right away and are recorded as completed requests, an
+     * ask rule is returned so the caller asks even when its mode wouldn't.
+     */
+    protected applyRules(toolCallId: string, toolName: string, input: unknown): { result: PermissionResult | null; match: PermissionRuleMatch | null } {
+        const match = this.rules.evaluate(toolName, input);
+        if (!match || match.action === 'ask') {
+            return { result: null, match };
+        }
+
+        const approved = match.action === 'allow';
+        this.session.updateAgentState((currentState) => ({
+            ...currentState,
+            completedRequests: {
+                ...currentState.completedRequests,
+                [toolCallId]: {
+                    tool: toolName,
+                    arguments: input,
+                    createdAt: Date.now(),
+                    completedAt: Date.now(),
+                    status: approved ? 'approved' : 'denied',
+                    decision: approved ? 'approved' : 'denied',
+                    reason: approved ? undefined : `Denied by ${match.source} rule: ${match.description}`,
+                    matchedRule: match
                 }
             }
         }));
+        this.session.audit.recordPermission({
+            toolCallId,
+            tool: toolName,
+            arguments: input,
+            decision: approved ? 'approved' : 'denied',
+            decidedBy: 'rule',
+            rule: match
+        });
+        logger.debug(`${this.getLogPrefix()} ${toolName} (${toolCallId}) ${approved ? 'allowed' : 'denied'} by ${match.source} rule`);
+        return { result: { decision: approved ? 'approved' : 'denied' }, match };
     }
 
     /**
@@ -167,6 +261,7 @@ export abstract class BasePermissionHandler {
             // Snapshot pending requests to avoid Map mutation during iteration
             const pendingSnapshot = Array.from(this.pendingRequests.entries());
             this.pendingRequests.clear(); // Clear immediately to prevent new entries being processed
+            this.rules.clearSessionRules();
 
             // Reject all pending requests from snapshot
             for (const [id, pending] of pendingSnapshot) {
@@ -195,7 +290,8 @@ export abstract class BasePermissionHandler {
                 return {
                     ...currentState,
                     requests: {},
-                    completedRequests
+                    completedRequests,
+                    sessionRules: []
                 };
             });
 
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BudgetTracker } from './budget';
+
+describe('BudgetTracker', () => {
+    it('counts spend in the budget unit and pauses at the limit', () => {
+        const tracker = new BudgetTracker(() => {});
+        tracker.record(1000, 0.5);
+        expect(tracker.isExceeded()).toBe(false);
+
+        tracker.setBudget({ unit: 'usd', limit: 1 });
+        expect(tracker.state()).toEqual({ unit: 'usd', limit: 1, spent: 0.5, pauseAt: 1 });
+        tracker.record(1000, 0.5);
+        expect(tracker.isExceeded()).toBe(true);
+
+        tracker.setBudget({ unit: 'tokens', limit: 5000 });
+        expect(tracker.isExceeded()).toBe(false);
+        expect(tracker.state()?.spent).toBe(2000);
+    });
+
+    it('continues from the state of an earlier run', () => {
+        const tracker = new BudgetTracker(() => {});
+        tracker.restore({ unit: 'usd', limit: 1, spent: 0.8, pauseAt: 2 });
+        expect(tracker.state()).toEqual({ unit: 'usd', limit: 1, spent: 0.8, pauseAt: 2 });
+
+        // The same budget sent again keeps what the user allowed on top
+        tracker.setBudget({ unit: 'usd', limit: 1 });
+        tracker.record(100, 1.2);
+        expect(tracker.isExceeded()).toBe(true);
+
+        const fresh = new BudgetTracker(() => {});
+        fresh.restore(null);
+        fresh.restore({ unit: 'usd', limit: -1, spent: 1, pauseAt: 1 });
+        expect(fresh.state()).toBeNull();
+    });
+
+    it('allows another budget worth of spend once approved', () => {
+        const tracker = new BudgetTracker(() => {});
+        tracker.setBudget({ unit: 'tokens', limit: 100 });
+        tracker.record(150, 0);
+        expect(tracker.isExceeded()).toBe(true);
+
+        tracker.extend();
+        expect(tracker.state()?.pauseAt).toBe(250);
+        tracker.record(99, 0);
+        expect(tracker.isExceeded()).toBe(false);
+        tracker.record(1, 0);
+        expect(tracker.isExceeded()).toBe(true);
+    });
+
+    it('keeps an approved extension while the same budget is resent and drops it on removal', () => {
+        const onChange = vi.fn();
+        const tracker = new BudgetTracker(onChange);
+        tracker.setBudget({ unit: 'usd', limit: 2 });
+        tracker.record(0, 3);
+        tracker.extend();
+        onChange.mockClear();
+
+        tracker.setBudget({ unit: 'usd', limit: 2 });
+        expect(onChange).not.toHaveBeenCalled();
+        expect(tracker.isExceeded()).toBe(false);
+
+        tracker.setBudget({ unit: 'usd', limit: -1 });
+        expect(tracker.state()?.limit).toBe(2);
+
+        tracker.setBudget(null);
+        expect(tracker.state()).toBeNull();
+        expect(tracker.isExceeded()).toBe(false);
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Session Budget
+ *
+ * Spending limit of a session in USD or tokens. The app resolves the budget
+ * from the session, its profile or the account settings and sends it with
+ * every message. Spend is counted from the usage of each model response while
+ * the CLI runs the session, and picked up again from the agent state when the
+ * session is resumed. Once it reaches the limit the agent is paused with a
+ * permission request before the next tool call or turn, approving it allows
+ * another budget's worth of spend.
+ *
+ * @module budget
+ */
+
+import { z } from 'zod';
+import { logger } from '@/ui/logger';
+
+export const BudgetSchema = z.object({
+    unit: z.enum(['usd', 'tokens']),
+    limit: z.number().positive(),
+});
+
+export type Budget = z.infer<typeof BudgetSchema>;
+
+/**
+ * Published in the agent state so the app can show what is left
+ */
+export type BudgetState = Budget & {
+    /** Spend so far, in the budget unit */
+    spent: number;
+    /** Spend at which the agent is paused next, the limit plus what the user allowed on top */
+    pauseAt: number;
+};
+
+/** Tool name of the permission request asking to continue past the budget */
+export const BUDGET_TOOL = 'BudgetExceeded';
+
+/** Shown when the user declined to spend more, the message was not run */
+export const BUDGET_DECLINED_MESSAGE = 'The session budget is used up, the message was not sent to the agent. Send another message to be asked again.';
+
+/** Denial reason for tool calls the user didn't allow past the budget */
+export const BUDGET_DENIED_REASON = 'The session budget is used up and the user did not allow more spending. STOP what you are doing and wait for the user to tell you how to proceed.';
+
+export class BudgetTracker {
+    private budget: Budget | null = null;
+    private spentUsd = 0;
+    private spentTokens = 0;
+    private pauseAt = 0;
+
+    constructor(private readonly onChange: () => void) {}
+
+    /**
+     * Apply the budget sent with a message, null removes it
+     */
+    setBudget(value: unknown) {
+        let budget: Budget | null = null;
+        if (value !== null && value !== undefined) {
+            const parsed = BudgetSchema.safeParse(value);
+            if (!parsed.success) {
+                logger.debug('[budget] Ignoring invalid budget', value);
+                return;
+            }
+            budget = parsed.data;
+        }
+        if (budget?.unit === this.budget?.unit && budget?.limit === this.budget?.limit) {
+            return;
+        }
+        this.budget = budget;
+        this.pauseAt = budget?.limit ?? 0;
+        this.onChange();
+    }
+
+    /**
+     * Continue from the state published by an earlier run of the session. Only
+     * the spend in the budget unit is known, the other starts over.
+     */
+    restore(state: unknown) {
+        const parsed = BudgetSchema.extend({ spent: z.number().nonnegative(), pauseAt: z.number() }).safeParse(state);
+        if (!parsed.success) {
+            return;
+        }
+        const { spent, pauseAt, ...budget } = parsed.data;
+        this.budget = budget;
+        this.pauseAt = pauseAt;
+        if (budget.unit === 'tokens') {
+            this.spentTokens = spent;
+        } else {
+            this.spentUsd = spent;
+        }
+    }
+
+    /**
+     * Move the spend counted so far to the tracker of the session replacing this one
+     */
+    handOver(target: BudgetTracker) {
+        target.record(this.spentTokens, this.spentUsd);
+        this.spentTokens = 0;
+        this.spentUsd = 0;
+    }
+
+    record(tokens: number, usd: number) {
+        this.spentTokens += tokens;
+        this.spentUsd += usd;
+        if (this.budget) {
+            this.onChange();
+        }
+    }
+
+    isExceeded(): boolean {
+        return this.budget !== null && this.spent() >= this.pauseAt;
+    }
+
+    /**
+     * Allow another budget's worth of spend from now on
+     */
+    extend() {
+        if (!this.budget) {
+            return;
+        }
+        this.pauseAt = this.spent() + this.budget.limit;
+        this.onChange();
+    }
+
+    state(): BudgetState | null {
+        if (!this.budget) {
+            return null;
+        }
+        return { ...this.budget, spent: this.spent(), pauseAt: this.pauseAt };
+    }
+
+    private spent(): number {
+        return this.budget?.unit === 'tokens' ? this.spentTokens : this.spentUsd;
+    }
+}
@@ -17,8 +17,9 @@ import packageJson from '../../package.json';
 
 /**
  * Backend flavor identifier for session metadata.
+ * Custom ACP agents use their name from agents.json.
  */
-export type BackendFlavor = 'claude' | 'codex' | 'gemini';
+export type BackendFlavor = 'claude' | 'codex' | 'gemini' | (string & {});
 
 /**
  * Options for creating session metadata.
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { resolveKeepAwakePolicy, shouldKeepAwake } from './keepAwake';
+
+describe('resolveKeepAwakePolicy', () => {
+    it('prefers the environment over settings and defaults to always', () => {
+        expect(resolveKeepAwakePolicy('turn', 'never')).toBe('turn');
+        expect(resolveKeepAwakePolicy(undefined, 'never')).toBe('never');
+        expect(resolveKeepAwakePolicy(' Never ', undefined)).toBe('never');
+        expect(resolveKeepAwakePolicy('sometimes', 'turn')).toBe('turn');
+        expect(resolveKeepAwakePolicy(undefined, undefined)).toBe('always');
+    });
+});
+
+describe('shouldKeepAwake', () => {
+    it('holds the inhibitor according to the policy', () => {
+        expect(shouldKeepAwake('never', true, false)).toBe(false);
+        expect(shouldKeepAwake('turn', false, false)).toBe(false);
+        expect(shouldKeepAwake('turn', true, true)).toBe(true);
+        expect(shouldKeepAwake('always', false, false)).toBe(true);
+    });
+
+    it('lets an idle machine on battery sleep', () => {
+        expect(shouldKeepAwake('always', false, true)).toBe(false);
+        expect(shouldKeepAwake('always', true, true)).toBe(true);
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * Keep-awake utility for preventing the machine from sleeping during sessions
+ *
+ * Uses a platform inhibitor: `caffeinate` on macOS and `systemd-inhibit`
+ * (a logind D-Bus inhibitor lock) on Linux. Elsewhere it does nothing.
+ *
+ * The policy decides when the inhibitor is held:
+ * - `always`: for as long as a session or the daemon is running
+ * - `turn`: only while an agent turn is running
+ * - `never`: not at all
+ * On battery power `always` falls back to `turn`, so an idle laptop can still sleep.
+ */
+
+import { spawn, spawnSync, ChildProcess } from 'child_process';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { logger } from '@/ui/logger';
+import { configuration } from '@/configuration';
+import { readSettings } from '@/persistence';
+
+export type KeepAwakePolicy = 'always' | 'turn' | 'never';
+
+export const KEEP_AWAKE_POLICIES: readonly KeepAwakePolicy[] = ['always', 'turn', 'never'];
+
+export type SleepInhibitor = {
+    name: 'caffeinate' | 'systemd-inhibit';
+    /** Whether the spawned process leads its own process group */
+    processGroup: boolean;
+    spawn: (pid: number) => ChildProcess;
+};
+
+/** Marks our inhibitor processes, also used by the doctor to find them */
+export const INHIBITOR_WHO = 'unhappy';
+
+const POWER_CHECK_INTERVAL_MS = 60_000;
+
+const caffeinate: SleepInhibitor = {
+    name: 'caffeinate',
+    processGroup: false,
+    // -i: prevent idle sleep, -m: prevent disk sleep, -w: exit together with this process
+    spawn: (pid) => spawn('caffeinate', ['-im', '-w', String(pid)], {
+        stdio: 'ignore',
+        detached: false
+    })
+};
+
+const systemdInhibit: SleepInhibitor = {
+    name: 'systemd-inhibit',
+    processGroup: true,
+    // The lock is held until the child exits. The child watches this process,
+    // so the lock is released even when we are killed without cleanup.
+    spawn: (pid) => spawn('systemd-inhibit', [
+        '--what=sleep:idle',
+        `--who=${INHIBITOR_WHO}`,
+        '--why=Agent session is running',
+        '--mode=block',
+        'sh', '-c', `while kill -0 ${pid} 2>/dev/null; do sleep 10; done`
+    ], {
+        stdio: 'ignore',
+        // Stopping the group takes the watcher down too
+        detached: true
+    })
+};
+
+function commandExists(command: string): boolean {
+    const result = spawnSync('sh', ['-c', `command -v ${command}`], { stdio: 'ignore', timeout: 2000 });
+    return result.status === 0;
+}
+
+/**
+ * Inhibitor available on this machine, null when sleep can't be prevented
+ */
+export function detectSleepInhibitor(): SleepInhibitor | null {
+    if (process.platform === 'darwin') {
+        return caffeinate;
+    }
+    // systemd-inhibit needs logind, which is missing in containers and on non-systemd distros
+    if (process.platform === 'linux' && existsSync('/run/systemd/system') && commandExists('systemd-inhibit')) {
+        return systemdInhibit;
+    }
+    return null;
+}
+
+/**
+ * Policy from UNHAPPY_KEEP_AWAKE, then `keepAwake` in settings.json. The
+ * legacy UNHAPPY_DISABLE_CAFFEINATE still turns it off.
+ */
+export function resolveKeepAwakePolicy(envValue: string | undefined, settingsValue: string | undefined): KeepAwakePolicy {
+    if (configuration.disableCaffeinate) {
+        return 'never';
+    }
+    for (const value of [envValue, settingsValue]) {
+        const normalized = value?.trim().toLowerCase();
+        if (normalized && (KEEP_AWAKE_POLICIES as readonly string[]).includes(normalized)) {
+            return normalized as KeepAwakePolicy;
+        }
+        if (normalized) {
+            logger.debug(`[keepAwake] Ignoring unknown policy "${value}"`);
+        }
+    }
+    return 'always';
+}
+
+/**
+ * Whether the machine is running on battery, false when unknown
+ */
+export function isOnBatteryPower(): boolean {
+    try {
+        if (process.platform === 'darwin') {
+            const result = spawnSync('pmset', ['-g', 'batt'], { encoding: 'utf8', timeout: 2000 });
+            return typeof result.stdout === 'string' && result.stdout.includes("'Battery Power'");
+        }
+        if (process.platform === 'linux') {
+            const root = '/sys/class/power_supply';
+            if (!existsSync(root)) {
+                return false;
+            }
+            const supplies = readdirSync(root).map((name) => {
+                const read = (file: string) => {
+                    try {
+                        return readFileSync(join(root, name, file), 'utf8').trim();
+                    } catch {
+                        return null;
+                    }
+                };
+                return { type: read('type'), online: read('online') };
+            });
+            // Desktops and servers have no battery and may not report a mains supply
+            const mains = supplies.filter((s) => s.type === 'Mains');
+            return supplies.some((s) => s.type === 'Battery') && mains.length > 0 && mains.every((s) => s.online === '0');
+        }
+    } catch (error) {
+        logger.debug('[keepAwake] Failed to read power source:', error);
+    }
+    return false;
+}
+
+/**
+ * Whether the inhibitor should be held right now
+ */
+export function shouldKeepAwake(policy: KeepAwakePolicy, turnRunning: boolean, onBattery: boolean): boolean {
+    switch (policy) {
+        case 'never': return false;
+        case 'turn': return turnRunning;
+        case 'always': return turnRunning || !onBattery;
+    }
+}
+
+let policy: KeepAwakePolicy | null = null;
+let inhibitor: SleepInhibitor | null = null;
+let inhibitorProcess: { child: ChildProcess; processGroup: boolean } | null = null;
+let turnRunning = false;
+let powerCheckTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Load the policy and hold the inhibitor if the policy asks for it now.
+ * Call once per process, turns are reported through setTurnRunning.
+ */
+export async function startKeepAwake(): Promise<KeepAwakePolicy> {
+    if (policy) {
+        return policy;
+    }
+
+    let settingsValue: string | undefined;
+    try {
+        settingsValue = (await readSettings()).keepAwake;
+    } catch (error) {
+        logger.debug('[keepAwake] Failed to read settings:', error);
+    }
+    policy = resolveKeepAwakePolicy(process.env.UNHAPPY_KEEP_AWAKE, settingsValue);
+    inhibitor = policy === 'never' ? null : detectSleepInhibitor();
+    logger.debug(`[keepAwake] Policy ${policy}, inhibitor ${inhibitor?.name ?? 'none'}`);
+
+    if (inhibitor && policy === 'always') {
+        // Power source can change while idle
+        powerCheckTimer = setInterval(update, POWER_CHECK_INTERVAL_MS);
+        powerCheckTimer.unref();
+    }
+    setupCleanupHandlers();
+    update();
+    return policy;
+}
+
+/**
+ * Report whether an agent turn is running, cheap to call repeatedly
+ */
+export function setTurnRunning(running: boolean): void {
+    if (turnRunning === running) {
+        return;
+    }
+    turnRunning = running;
+    update();
+}
+
+function update(): void {
+    if (!policy || !inhibitor) {
+        return;
+    }
+    const onBattery = policy === 'always' && !turnRunning ? isOnBatteryPower() : false;
+    if (shouldKeepAwake(policy, turnRunning, onBattery)) {
+        acquire(inhibitor);
+    } else {
+        release();
+    }
+}
+
+function acquire(current: SleepInhibitor): void {
+    if (inhibitorProcess) {
+        return;
+    }
+    try {
+        const child = current.spawn(process.pid);
+        child.on('error', (error) => {
+            logger.debug(`[keepAwake] Error starting ${current.name}:`, error);
+            if (inhibitorProcess?.child === child) {
+                inhibitorProcess = null;
+            }
+        });
+        child.on('exit', (code, signal) => {
+            logger.debug(`[keepAwake] ${current.name} exited with code ${code}, signal ${signal}`);
+            if (inhibitorProcess?.child === child) {
+                inhibitorProcess = null;
+            }
+        });
+        inhibitorProcess = { child, processGroup: current.processGroup };
+        logger.debug(`[keepAwake] Started ${current.name} with PID ${child.pid}`);
+    } catch (error) {
+        logger.debug(`[keepAwake] Failed to start ${current.name}:`, error);
+    }
+}
+
+function release(): void {
+    const current = inhibitorProcess;
+    inhibitorProcess = null;
+    const pid = current?.child.pid;
+    if (!current || pid === undefined) {
+        return;
+    }
+    logger.debug(`[keepAwake] Stopping inhibitor PID ${pid}`);
+    try {
+        process.kill(current.processGroup ? -pid : pid, 'SIGTERM');
+    } catch (error) {
+        logger.debug('[keepAwake] Error stopping inhibitor:', error);
+    }
+}
+
+/**
+ * Release the inhibitor for good
+ */
+export function stopKeepAwake(): void {
+    if (powerCheckTimer) {
+        clearInterval(powerCheckTimer);
+        powerCheckTimer = null;
+    }
+    policy = null;
+    release();
+}
+
+let cleanupHandlersSet = false;
+
+function setupCleanupHandlers(): void {
+    if (cleanupHandlersSet) {
+        return;
+    }
+    cleanupHandlersSet = true;
+
+    // The inhibitors also exit on their own once this process is gone,
+    // this just releases the lock without waiting for that
+    process.on('exit', () => {
+        release();
+    });
+}
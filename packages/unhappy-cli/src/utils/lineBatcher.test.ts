@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { LineBatcher } from './lineBatcher';
+
+describe('LineBatcher', () => {
+    it('joins lines split across chunks and batches by size', () => {
+        const batches: string[][] = [];
+        const batcher = new LineBatcher((lines) => batches.push(lines), 2, 1000, () => 0);
+
+        batcher.push('src/a.ts\nsrc/');
+        expect(batches).toEqual([]);
+        batcher.push('b.ts\n\nsrc/c.ts');
+        expect(batches).toEqual([['src/a.ts', 'src/b.ts']]);
+        batcher.end();
+        expect(batches).toEqual([['src/a.ts', 'src/b.ts'], ['src/c.ts']]);
+    });
+
+    it('flushes a small batch once the interval passed', () => {
+        let now = 0;
+        const batches: string[][] = [];
+        const batcher = new LineBatcher((lines) => batches.push(lines), 100, 250, () => now);
+
+        batcher.push('one\n');
+        now = 300;
+        batcher.push('two\n');
+        expect(batches).toEqual([['one', 'two']]);
+        batcher.end();
+        expect(batches).toHaveLength(1);
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * Splits streamed output into complete lines and hands them out in batches,
+ * either when enough lines piled up or when the last batch is old enough.
+ * Used to stream partial RPC results without one event per line.
+ */
+export class LineBatcher {
+    private partial = '';
+    private batch: string[] = [];
+    private lastFlush: number;
+
+    constructor(
+        private readonly emit: (lines: string[]) => void,
+        private readonly maxLines = 500,
+        private readonly intervalMs = 250,
+        private readonly now: () => number = Date.now,
+    ) {
+        this.lastFlush = now();
+    }
+
+    push(chunk: string): void {
+        const lines = (this.partial + chunk).split('\n');
+        this.partial = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.length > 0) {
+                this.batch.push(line);
+            }
+        }
+        if (this.batch.length >= this.maxLines || this.now() - this.lastFlush >= this.intervalMs) {
+            this.flush();
+        }
+    }
+
+    /** Emit everything left, including a last line without a newline */
+    end(): void {
+        if (this.partial.length > 0) {
+            this.batch.push(this.partial);
+            this.partial = '';
+        }
+        this.flush();
+    }
+
+    private flush(): void {
+        this.lastFlush = this.now();
+        if (this.batch.length === 0) {
+            return;
+        }
+        const lines = this.batch;
+        this.batch = [];
+        this.emit(lines);
+    }
+}
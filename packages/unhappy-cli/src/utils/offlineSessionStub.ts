@@ -1,8 +1,11 @@
 /**
  * Offline Session Stub Factory
  *
- * Creates a no-op session stub for offline mode that can be used across all backends
- * (Claude, Codex, Gemini, etc.). All session methods become no-ops until reconnection.
+ * Creates a session stub for offline mode that can be used across all backends
+ * (Claude, Codex, Gemini, etc.). Transcript messages and usage reports are
+ * queued in an outbox and delivered after reconnection, audit events and budget
+ * spend are held until the real session takes them over, every other session
+ * method is a no-op.
  *
  * This follows DRY principles by providing a single implementation for all backends,
  * satisfying REQ-8 from serverConnectionErrors.ts.
@@ -10,35 +13,100 @@
  * @module offlineSessionStub
  */
 
-import type { ApiSessionClient } from '@/api/apiSession';
+import {
+    agentMessageContent,
+    claudeMessageContent,
+    claudeUsageReport,
+    codexMessageContent,
+    sessionEventContent,
+    type ACPMessageData,
+    type ACPProvider,
+    type ApiSessionClient,
+    type SessionEvent
+} from '@/api/apiSession';
+import type { RawJSONLines } from '@/claude/types';
+import type { Outbox } from '@/api/outbox';
+import type { UsageReport } from '@/api/types';
+import { AuditLog } from '@/modules/audit/auditLog';
+import { BudgetTracker } from '@/utils/budget';
+import { logger } from '@/ui/logger';
 
 /**
- * Creates a no-op session stub for offline mode.
+ * Creates a session stub for offline mode.
  *
- * The stub implements the ApiSessionClient interface with no-op methods,
- * allowing the application to continue running while offline. When reconnection
- * succeeds, the real session replaces this stub.
+ * The stub implements the ApiSessionClient interface, allowing the application
+ * to continue running while offline. Messages go to the outbox when one is
+ * given, otherwise they are dropped. When reconnection succeeds, the real
+ * session replaces this stub and takes over the outbox, the audit events and
+ * the budget spend (see `AuditLog.handOver` and `BudgetTracker.handOver`).
  *
  * @param sessionTag - Unique session tag (used to create offline session ID)
- * @returns A no-op ApiSessionClient stub
+ * @param outbox - Where agent output is queued until the session exists
+ * @returns An ApiSessionClient stub
  *
  * @example
  * ```typescript
- * const offlineStub = createOfflineSessionStub(sessionTag);
+ * const outbox = new Outbox({ tag: sessionTag, metadata, state });
+ * const offlineStub = createOfflineSessionStub(sessionTag, outbox);
  * let session: ApiSessionClient = offlineStub;
  *
  * // When reconnected:
- * session = api.sessionSyncClient(response);
+ * session = api.sessionSyncClient(response, outbox);
  * ```
  */
-export function createOfflineSessionStub(sessionTag: string): ApiSessionClient {
+export function createOfflineSessionStub(sessionTag: string, outbox?: Outbox): ApiSessionClient {
+    const queue = (content: unknown, kind?: 'usage') => {
+        if (!outbox) {
+            return;
+        }
+        try {
+            outbox.append(content, kind);
+        } catch (error) {
+            logger.debug('[OFFLINE] Failed to queue message in the outbox:', error);
+        }
+    };
+    const audit = new AuditLog(null);
+    // Counts spend until the real session takes it over, no budget is set while offline
+    const budget = new BudgetTracker(() => {});
+    let lastUsage: { messageId: string, tokens: number, usd: number } | null = null;
     return {
         sessionId: `offline-${sessionTag}`,
-        sendCodexMessage: () => {},
-        sendAgentMessage: () => {},
-        sendClaudeSessionMessage: () => {},
+        audit,
+        budget,
+        sendCodexMessage: (body: any) => {
+            if (body.type === 'tool-call') {
+                audit.toolStarted(body.callId, body.name, body.input);
+            } else if (body.type === 'tool-call-result') {
+                audit.toolFinished(body.callId, body.output, body.is_error === true);
+            }
+            queue(codexMessageContent(body));
+        },
+        sendAgentMessage: (provider: ACPProvider, body: ACPMessageData) => {
+            if (body.type === 'tool-call') {
+                audit.toolStarted(body.callId, body.name, body.input);
+            } else if (body.type === 'tool-result') {
+                audit.toolFinished(body.callId, body.output, body.isError === true);
+            }
+            queue(agentMessageContent(provider, body));
+        },
+        sendClaudeSessionMessage: (body: RawJSONLines) => {
+            queue(claudeMessageContent(body));
+            if (body.type === 'assistant' && body.message?.usage) {
+                const messageId = typeof body.message.id === 'string' ? body.message.id : undefined;
+                const report = claudeUsageReport(body.message.usage, body.message.model, messageId);
+                // Streamed parts of a response repeat its usage, only the difference is spent
+                const previous = messageId && lastUsage?.messageId === messageId ? lastUsage : null;
+                budget.record(report.tokens.total - (previous?.tokens ?? 0), report.cost.total - (previous?.usd ?? 0));
+                lastUsage = messageId ? { messageId, tokens: report.tokens.total, usd: report.cost.total } : null;
+                queue(report, 'usage');
+            }
+        },
+        sendUsageReport: (report: UsageReport) => {
+            budget.record(report.tokens.total, report.cost.total);
+            queue(report, 'usage');
+        },
         keepAlive: () => {},
-        sendSessionEvent: () => {},
+        sendSessionEvent: (event: SessionEvent, id?: string) => queue(sessionEventContent(event, id)),
         sendSessionDeath: () => {},
         updateLifecycleState: () => {},
         requestControlTransfer: async () => {},
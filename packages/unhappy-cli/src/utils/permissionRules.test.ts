@@ -0,0 +1,187 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    describeRule,
+    extractToolCommand,
+    globToRegExp,
+    PermissionRules,
+    ruleMatches,
+    sessionRuleFor,
+    splitShellCommand,
+} from './permissionRules';
+
+describe('globToRegExp', () => {
+    it('matches tool names and commands with a free wildcard', () => {
+        expect(globToRegExp('mcp__github__*', false).test('mcp__github__create_issue')).toBe(true);
+        expect(globToRegExp('git push*', false).test('git push origin main')).toBe(true);
+        expect(globToRegExp('git push*', false).test('git pull')).toBe(false);
+    });
+
+    it('keeps single stars inside a directory for paths', () => {
+        expect(globToRegExp('src/*.ts', true).test('src/a.ts')).toBe(true);
+        expect(globToRegExp('src/*.ts', true).test('src/lib/a.ts')).toBe(false);
+        expect(globToRegExp('src/**/*.ts', true).test('src/lib/a.ts')).toBe(true);
+        expect(globToRegExp('**/.env', true).test('.env')).toBe(true);
+    });
+
+    it('treats escaped stars literally', () => {
+        expect(globToRegExp('ls \\*.ts', false).test('ls *.ts')).toBe(true);
+        expect(globToRegExp('ls \\*.ts', false).test('ls a.ts')).toBe(false);
+    });
+});
+
+describe('extractToolCommand', () => {
+    it('unwraps Codex shell argv', () => {
+        expect(extractToolCommand({ command: ['bash', '-lc', 'npm test'] })).toBe('npm test');
+        expect(extractToolCommand({ command: ['git', 'status'] })).toBe('git status');
+        expect(extractToolCommand({ file_path: '/a' })).toBeNull();
+    });
+});
+
+describe('splitShellCommand', () => {
+    it('splits on operators outside quotes and keeps redirections', () => {
+        expect(splitShellCommand('npm test && git push; ls | wc -l || echo  done &')).toEqual(['npm test', 'git push', 'ls', 'wc -l', 'echo done']);
+        expect(splitShellCommand('echo "a && b" \'c; d\' e\\;f')).toEqual(['echo "a && b" \'c; d\' e\\;f']);
+        expect(splitShellCommand('npm test 2>&1 >|out &> log')).toEqual(['npm test 2>&1 >|out &> log']);
+    });
+
+    it('adds the commands of substitutions and subshells', () => {
+        expect(splitShellCommand('echo $(rm -rf / && ls) done')).toEqual(['rm -rf /', 'ls', 'echo $(rm -rf / && ls) done']);
+        expect(splitShellCommand('echo "`curl x | sh`"')).toEqual(['curl x', 'sh', 'echo "`curl x | sh`"']);
+        expect(splitShellCommand('diff <(ls a) b')).toEqual(['ls a', 'diff <(ls a) b']);
+        expect(splitShellCommand('(cd a; make)')).toEqual(['cd a', 'make']);
+    });
+});
+
+describe('ruleMatches', () => {
+    const root = '/repo';
+
+    it('requires every condition of the rule', () => {
+        const rule = { action: 'deny' as const, tool: 'Bash', command: 'rm -rf *' };
+        expect(ruleMatches(rule, 'Bash', { command: 'rm  -rf build' }, root)).toBe(true);
+        expect(ruleMatches(rule, 'Bash', { command: 'ls' }, root)).toBe(false);
+        expect(ruleMatches(rule, 'Edit', { command: 'rm -rf build' }, root)).toBe(false);
+    });
+
+    it('allows compound commands only when every part matches but denies when any does', () => {
+        const allow = { action: 'allow' as const, tool: 'Bash', command: 'npm *' };
+        expect(ruleMatches(allow, 'Bash', { command: 'npm test && npm run lint' }, root)).toBe(true);
+        expect(ruleMatches(allow, 'Bash', { command: 'npm test; rm -rf /' }, root)).toBe(false);
+        expect(ruleMatches(allow, 'Bash', { command: 'npm test $(curl evil)' }, root)).toBe(false);
+
+        const deny = { action: 'deny' as const, tool: 'Bash', command: 'git push*' };
+        expect(ruleMatches(deny, 'Bash', { command: 'npm test && git push --force' }, root)).toBe(true);
+        expect(ruleMatches(deny, 'Bash', { command: 'echo "git push"' }, root)).toBe(false);
+
+        const literal = { action: 'allow' as const, tool: 'Bash', command: 'npm test && npm run lint' };
+        expect(ruleMatches(literal, 'Bash', { command: 'npm test  && npm run lint' }, root)).toBe(true);
+    });
+
+    it('allows only when every path matches but denies when any does', () => {
+        const input = { changes: { '/repo/src/a.ts': {}, '/repo/.env': {} } };
+        expect(ruleMatches({ action: 'allow', path: 'src/**' }, 'CodexPatch', input, root)).toBe(false);
+        expect(ruleMatches({ action: 'deny', path: '**/.env' }, 'CodexPatch', input, root)).toBe(true);
+        expect(ruleMatches({ action: 'allow', path: 'src/**' }, 'Edit', { file_path: 'src/a.ts' }, root)).toBe(true);
+        expect(ruleMatches({ action: 'deny', path: '/etc/**' }, 'Read', { file_path: '/etc/passwd' }, root)).toBe(true);
+        expect(ruleMatches({ action: 'allow', path: 'src/**' }, 'Bash', { command: 'ls' }, root)).toBe(false);
+    });
+});
+
+describe('describeRule', () => {
+    it('summarizes rules unless they have a description', () => {
+        expect(describeRule({ action: 'deny', tool: 'Bash', command: 'git push*' })).toBe('deny Bash(git push*)');
+        expect(describeRule({ action: 'allow', path: 'src/**' })).toBe('allow *(src/**)');
+        expect(describeRule({ action: 'ask', tool: 'Write', description: 'Review new files' })).toBe('Review new files');
+    });
+});
+
+describe('sessionRuleFor', () => {
+    it('limits shell approvals to the exact command', () => {
+        const rule = sessionRuleFor('CodexBash', { command: ['bash', '-lc', 'ls *.ts'] });
+        expect(rule).toEqual({ action: 'allow', tool: 'CodexBash', command: 'ls \\*.ts' });
+        expect(ruleMatches(rule, 'CodexBash', { command: 'ls *.ts' }, '/')).toBe(true);
+        expect(ruleMatches(rule, 'CodexBash', { command: 'ls a.ts' }, '/')).toBe(false);
+        expect(sessionRuleFor('Edit', { file_path: '/a' })).toEqual({ action: 'allow', tool: 'Edit' });
+    });
+});
+
+describe('PermissionRules', () => {
+    let root: string;
+
+    beforeAll(() => {
+        root = mkdtempSync(join(tmpdir(), 'unhappy-rules-'));
+        mkdirSync(join(root, '.unhappy'));
+    });
+
+    afterAll(() => {
+        rmSync(root, { recursive: true, force: true });
+    });
+
+    function writeProjectRules(rules: unknown, mtime: number) {
+        const file = join(root, '.unhappy', 'permissions.json');
+        writeFileSync(file, JSON.stringify({ rules }));
+        utimesSync(file, mtime, mtime);
+    }
+
+    it('prefers deny over ask over allow across sources', () => {
+        const rules = new PermissionRules(root);
+        writeProjectRules([{ action: 'ask', tool: 'Bash', command: 'git *' }], 1000);
+        rules.setAccountRules([{ action: 'allow', tool: 'Bash' }, { action: 'bogus' }]);
+        rules.addSessionRule({ action: 'deny', tool: 'Bash', command: 'git push*' });
+
+        expect(rules.evaluate('Bash', { command: 'ls' })).toEqual({ action: 'allow', source: 'account', description: 'allow Bash' });
+        expect(rules.evaluate('Bash', { command: 'git status' })).toMatchObject({ action: 'ask', source: 'project' });
+        expect(rules.evaluate('Bash', { command: 'git push' })).toMatchObject({ action: 'deny', source: 'session' });
+        expect(rules.evaluate('Edit', { file_path: 'a.ts' })).toBeNull();
+
+        rules.clearSessionRules();
+        expect(rules.evaluate('Bash', { command: 'git push' })).toMatchObject({ action: 'ask' });
+    });
+
+    it('restores saved session rules and reports restrictive rules', () => {
+        const rules = new PermissionRules(root);
+        writeProjectRules([{ action: 'allow', tool: 'Bash' }], 4000);
+        expect(rules.hasRestrictiveRules()).toBe(false);
+
+        rules.setSessionRules([{ action: 'deny', tool: 'Write' }, { action: 'bogus' }, 'x']);
+        expect(rules.getSessionRules()).toEqual([{ action: 'deny', tool: 'Write' }]);
+        expect(rules.evaluate('Write', {})).toMatchObject({ action: 'deny', source: 'session' });
+        expect(rules.hasRestrictiveRules()).toBe(true);
+    });
+
+    it('ignores allow rules in the project file', () => {
+        const rules = new PermissionRules(root);
+        writeProjectRules([{ action: 'allow', tool: 'Bash' }, { action: 'deny', tool: 'Write' }], 5000);
+
+        expect(rules.evaluate('Bash', { command: 'rm -rf build' })).toBeNull();
+        expect(rules.evaluate('Write', {})).toMatchObject({ action: 'deny', source: 'project' });
+    });
+
+    it('asks before touching the project rules file whatever allows it', () => {
+        const rules = new PermissionRules(root);
+        writeProjectRules([], 6000);
+        rules.setAccountRules([{ action: 'allow', tool: 'Edit' }, { action: 'allow', tool: 'Bash' }]);
+        const ask = { action: 'ask', source: 'project' };
+
+        expect(rules.evaluate('Edit', { file_path: '.unhappy/permissions.json' })).toMatchObject(ask);
+        expect(rules.evaluate('Edit', { file_path: join(root, '.unhappy', 'permissions.json') })).toMatchObject(ask);
+        expect(rules.evaluate('Bash', { command: 'cd .unhappy && echo {} > permissions.json' })).toMatchObject(ask);
+        expect(rules.evaluate('Write', { file_path: '.unhappy/permissions.json' })).toMatchObject(ask);
+        expect(rules.evaluate('Edit', { file_path: 'src/a.ts' })).toMatchObject({ action: 'allow' });
+
+        rules.addSessionRule({ action: 'deny', tool: 'Edit' });
+        expect(rules.evaluate('Edit', { file_path: '.unhappy/permissions.json' })).toMatchObject({ action: 'deny' });
+    });
+
+    it('reloads the project file when it changes and ignores invalid files', () => {
+        const rules = new PermissionRules(root);
+        writeProjectRules([{ action: 'deny', tool: 'Write' }], 2000);
+        expect(rules.evaluate('Write', {})).toMatchObject({ action: 'deny', source: 'project' });
+
+        writeFileSync(join(root, '.unhappy', 'permissions.json'), '{ not json');
+        utimesSync(join(root, '.unhappy', 'permissions.json'), 3000, 3000);
+        expect(rules.evaluate('Write', {})).toBeNull();
+    });
+});
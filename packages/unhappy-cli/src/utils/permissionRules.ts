@@ -0,0 +1,453 @@
+/**
+ * Permission Rules
+ *
+ * Declarative allow / deny / ask rules evaluated before a permission request
+ * reaches the app. Rules come from three places:
+ * - project: `.unhappy/permissions.json` in the session's working directory,
+ *   deny and ask only since anyone who can commit to the repository can edit it
+ * - account: rules stored in the account settings, sent by the app with each message
+ * - session: tools and commands the user approved for the rest of the session
+ *
+ * Tool calls that touch the project rules file always ask, whatever allow
+ * rule or permission mode would approve them.
+ *
+ * A rule matches when every condition it sets matches the tool call. When
+ * several rules match, deny wins over ask and ask wins over allow. Compound
+ * shell commands are checked part by part: an allow rule has to match every
+ * part, a deny or ask rule any of them.
+ *
+ * @module permissionRules
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { z } from 'zod';
+import { logger } from '@/ui/logger';
+
+export const PermissionRuleSchema = z.object({
+    action: z.enum(['allow', 'deny', 'ask']),
+    /** Glob on the tool name, e.g. `Bash`, `Edit` or `mcp__github__*` */
+    tool: z.string().min(1).optional(),
+    /** Glob on each part of the shell command, `*` matches anything including spaces */
+    command: z.string().min(1).optional(),
+    /** Glob on the file paths the tool touches, relative to the project root unless absolute */
+    path: z.string().min(1).optional(),
+    /** Shown in the app instead of the generated rule summary */
+    description: z.string().optional(),
+});
+
+export type PermissionRule = z.infer<typeof PermissionRuleSchema>;
+
+export const PermissionRulesFileSchema = z.object({
+    rules: z.array(PermissionRuleSchema),
+});
+
+export type PermissionRuleAction = PermissionRule['action'];
+export type PermissionRuleSource = 'project' | 'account' | 'session';
+
+/**
+ * The rule that decided a tool call, stored with the request in the agent state
+ */
+export type PermissionRuleMatch = {
+    action: PermissionRuleAction;
+    source: PermissionRuleSource;
+    description: string;
+};
+
+export const PROJECT_RULES_FILE = join('.unhappy', 'permissions.json');
+
+const ACTION_PRIORITY: Record<PermissionRuleAction, number> = { deny: 0, ask: 1, allow: 2 };
+
+/**
+ * Convert a glob to a regular expression. `**` matches anything, `*` matches
+ * anything but `/` when `pathMode` is set and anything otherwise, and a
+ * backslash escapes the next character.
+ */
+export function globToRegExp(glob: string, pathMode: boolean): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '\\' && i + 1 < glob.length) {
+            source += escapeRegExp(glob[++i]);
+        } else if (char === '*') {
+            if (glob[i + 1] === '*') {
+                i++;
+                // `**/` also matches no directory at all
+                if (pathMode && glob[i + 1] === '/') {
+                    i++;
+                    source += '(?:.*/)?';
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += pathMode ? '[^/]*' : '.*';
+            }
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`, 's');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Escape a literal so it can be used as a glob
+ */
+export function escapeGlob(text: string): string {
+    return text.replace(/[\\*]/g, '\\$&');
+}
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+    return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+/**
+ * Shell command of a tool call. Codex sends argv arrays, usually wrapped in `bash -lc`
+ */
+export function extractToolCommand(input: unknown): string | null {
+    const command = toRecord(input)?.command;
+    if (typeof command === 'string') {
+        return command.trim() || null;
+    }
+    if (Array.isArray(command) && command.every((part) => typeof part === 'string')) {
+        const argv = command as string[];
+        if (argv.length === 3 && /(^|\/)(ba|z)?sh$/.test(argv[0]) && /^-l?c$/.test(argv[1])) {
+            return argv[2].trim() || null;
+        }
+        return argv.join(' ').trim() || null;
+    }
+    return null;
+}
+
+/**
+ * Index of the parenthesis closing the one before `start`, or the end of the command
+ */
+function findClosingParen(command: string, start: number): number {
+    let depth = 1;
+    let quote: string | null = null;
+    for (let i = start; i < command.length; i++) {
+        const char = command[i];
+        if (char === '\\' && quote !== "'") {
+            i++;
+        } else if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === "'" || char === '"') {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')' && --depth === 0) {
+            return i;
+        }
+    }
+    return command.length;
+}
+
+/**
+ * Split a shell command into the simple commands it runs: parts joined by
+ * `;`, `&&`, `||`, `|`, `&` or newlines, subshells, and the contents of `$(...)`,
+ * backticks and process substitutions. Quotes and escapes are respected,
+ * whitespace is collapsed.
+ */
+export function splitShellCommand(command: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    const push = () => {
+        const part = current.replace(/\s+/g, ' ').trim();
+        if (part) parts.push(part);
+        current = '';
+    };
+
+    for (let i = 0; i < command.length; i++) {
+        const char = command[i];
+        const next = command[i + 1];
+        if (quote === "'") {
+            current += char;
+            if (char === "'") quote = null;
+        } else if (char === '\\') {
+            current += char + (next ?? '');
+            i++;
+        } else if ((char === '$' || (!quote && (char === '<' || char === '>'))) && next === '(') {
+            const end = findClosingParen(command, i + 2);
+            parts.push(...splitShellCommand(command.slice(i + 2, end)));
+            current += command.slice(i, end + 1);
+            i = end;
+        } else if (char === '`') {
+            let end = i + 1;
+            while (end < command.length && command[end] !== '`') {
+                end += command[end] === '\\' ? 2 : 1;
+            }
+            parts.push(...splitShellCommand(command.slice(i + 1, end)));
+            current += command.slice(i, end + 1);
+            i = end;
+        } else if (quote) {
+            current += char;
+            if (char === quote) quote = null;
+        } else if (char === "'" || char === '"') {
+            quote = char;
+            current += char;
+        } else if (char === '&' && (current.endsWith('>') || current.endsWith('<') || next === '>')) {
+            // Redirections such as `2>&1` and `&>`
+            current += char;
+        } else if (char === '|' && current.endsWith('>')) {
+            current += char;
+        } else if (char === ';' || char === '&' || char === '|' || char === '\n' || char === '(' || char === ')') {
+            push();
+        } else {
+            current += char;
+        }
+    }
+    push();
+    return parts;
+}
+
+function hasWildcard(glob: string): boolean {
+    return /(^|[^\\])\*/.test(glob);
+}
+
+function matchesCommand(rule: PermissionRule, command: string): boolean {
+    const regexp = globToRegExp(rule.command!, false);
+    const whole = command.replace(/\s+/g, ' ');
+    const parts = splitShellCommand(command);
+    if (rule.action === 'allow') {
+        // A literal rule approves exactly that command, compound or not
+        if (!hasWildcard(rule.command!) && regexp.test(whole)) {
+            return true;
+        }
+        return parts.length > 0 && parts.every((part) => regexp.test(part));
+    }
+    return regexp.test(whole) || parts.some((part) => regexp.test(part));
+}
+
+/**
+ * File paths a tool call touches
+ */
+export function extractToolPaths(input: unknown): string[] {
+    const obj = toRecord(input);
+    if (!obj) return [];
+
+    const paths = new Set<string>();
+    for (const key of ['file_path', 'notebook_path', 'path']) {
+        const value = obj[key];
+        if (typeof value === 'string' && value) paths.add(value);
+    }
+    // Codex patches list their files as object keys
+    for (const key of ['changes', 'fileChanges']) {
+        const changes = toRecord(obj[key]);
+        if (changes) Object.keys(changes).forEach((path) => paths.add(path));
+    }
+    // Gemini reads include locations[].path
+    if (Array.isArray(obj.locations)) {
+        for (const location of obj.locations) {
+            const path = toRecord(location)?.path;
+            if (typeof path === 'string' && path) paths.add(path);
+        }
+    }
+    return Array.from(paths);
+}
+
+function matchesPath(glob: string, path: string, root: string): boolean {
+    const absolute = isAbsolute(path) ? path : join(root, path);
+    const fromRoot = relative(root, absolute);
+    const candidates = [absolute.split(sep).join('/')];
+    if (fromRoot && !fromRoot.startsWith('..') && !isAbsolute(fromRoot)) {
+        candidates.push(fromRoot.split(sep).join('/'));
+    }
+    const regexp = globToRegExp(glob, true);
+    return candidates.some((candidate) => regexp.test(candidate));
+}
+
+/**
+ * Whether a rule applies to a tool call. A rule with a path glob only allows
+ * a call when every path matches, but denies or asks when any of them does
+ */
+export function ruleMatches(rule: PermissionRule, toolName: string, input: unknown, root: string): boolean {
+    if (rule.tool && !globToRegExp(rule.tool, false).test(toolName)) {
+        return false;
+    }
+    if (rule.command) {
+        const command = extractToolCommand(input);
+        if (!command || !matchesCommand(rule, command)) {
+            return false;
+        }
+    }
+    if (rule.path) {
+        const paths = extractToolPaths(input);
+        if (paths.length === 0) {
+            return false;
+        }
+        const matches = (path: string) => matchesPath(rule.path!, path, root);
+        if (rule.action === 'allow' ? !paths.every(matches) : !paths.some(matches)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Short summary of a rule such as `deny Bash(git push*)` or `allow Edit(src/**)`
+ */
+export function describeRule(rule: PermissionRule): string {
+    if (rule.description) {
+        return rule.description;
+    }
+    const args = [rule.command, rule.path].filter(Boolean).join(', ');
+    const target = rule.tool ?? '*';
+    return `${rule.action} ${args ? `${target}(${args})` : target}`;
+}
+
+function parseRules(rules: unknown, source: PermissionRuleSource): PermissionRule[] {
+    const list = Array.isArray(rules) ? rules : [];
+    return list.flatMap((rule) => {
+        const parsed = PermissionRuleSchema.safeParse(rule);
+        if (!parsed.success) {
+            logger.debug(`[permissionRules] Ignoring invalid ${source} rule`, rule);
+            return [];
+        }
+        return [parsed.data];
+    });
+}
+
+/**
+ * Rules for one session, with the project file re-read whenever it changes
+ */
+export class PermissionRules {
+    private readonly root: string;
+    private projectRules: PermissionRule[] = [];
+    private projectRulesMtime: number | null = null;
+    private accountRules: PermissionRule[] = [];
+    private sessionRules: PermissionRule[] = [];
+
+    constructor(root: string) {
+        this.root = root;
+    }
+
+    /**
+     * Replace the account rules, invalid entries are dropped
+     */
+    setAccountRules(rules: unknown): void {
+        this.accountRules = parseRules(rules, 'account');
+    }
+
+    /**
+     * Remember an approval for the rest of the session
+     */
+    addSessionRule(rule: PermissionRule): void {
+        this.sessionRules.push(rule);
+    }
+
+    /**
+     * Approvals made so far, saved in the agent state so they stay with the session
+     */
+    getSessionRules(): PermissionRule[] {
+        return [...this.sessionRules];
+    }
+
+    /**
+     * Restore approvals saved in the agent state, invalid entries are dropped
+     */
+    setSessionRules(rules: unknown): void {
+        this.sessionRules = parseRules(rules, 'session');
+    }
+
+    clearSessionRules(): void {
+        this.sessionRules = [];
+    }
+
+    /**
+     * Find the deciding rule for a tool call, or null when no rule applies
+     */
+    evaluate(toolName: string, input: unknown): PermissionRuleMatch | null {
+        const sources: [PermissionRuleSource, PermissionRule[]][] = [
+            ['project', this.loadProjectRules()],
+            ['account', this.accountRules],
+            ['session', this.sessionRules],
+        ];
+
+        let best: { rule: PermissionRule; source: PermissionRuleSource } | null = null;
+        for (const [source, rules] of sources) {
+            for (const rule of rules) {
+                if (best && ACTION_PRIORITY[rule.action] >= ACTION_PRIORITY[best.rule.action]) {
+                    continue;
+                }
+                if (ruleMatches(rule, toolName, input, this.root)) {
+                    best = { rule, source };
+                }
+            }
+        }
+
+        if (best?.rule.action !== 'deny' && this.touchesProjectRules(input)) {
+            return { action: 'ask', source: 'project', description: `ask before touching ${PROJECT_RULES_FILE}` };
+        }
+        if (!best) {
+            return null;
+        }
+        logger.debug(`[permissionRules] ${toolName} matched ${best.source} rule: ${describeRule(best.rule)}`);
+        return { action: best.rule.action, source: best.source, description: describeRule(best.rule) };
+    }
+
+    /**
+     * Whether any deny or ask rule applies, agents that auto-run some tools
+     * without asking must send every call through the rules then
+     */
+    hasRestrictiveRules(): boolean {
+        return [this.loadProjectRules(), this.accountRules, this.sessionRules]
+            .some((rules) => rules.some((rule) => rule.action !== 'allow'));
+    }
+
+    private loadProjectRules(): PermissionRule[] {
+        const file = join(this.root, PROJECT_RULES_FILE);
+        let mtime: number | null = null;
+        try {
+            mtime = statSync(file).mtimeMs;
+        } catch {
+            // No rules file
+        }
+        if (mtime === this.projectRulesMtime) {
+            return this.projectRules;
+        }
+
+        this.projectRulesMtime = mtime;
+        this.projectRules = [];
+        if (mtime !== null) {
+            try {
+                const parsed = PermissionRulesFileSchema.safeParse(JSON.parse(readFileSync(file, 'utf8')));
+                if (parsed.success) {
+                    // An allow rule in the repository would approve calls the user never saw
+                    this.projectRules = parsed.data.rules.filter((rule) => rule.action !== 'allow');
+                    if (this.projectRules.length < parsed.data.rules.length) {
+                        logger.debug(`[permissionRules] Ignoring allow rules in ${file}, add them to the account rules instead`);
+                    }
+                } else {
+                    logger.debug(`[permissionRules] Ignoring ${file}: ${parsed.error.message}`);
+                }
+            } catch (error) {
+                logger.debug(`[permissionRules] Failed to read ${file}:`, error);
+            }
+        }
+        return this.projectRules;
+    }
+
+    private touchesProjectRules(input: unknown): boolean {
+        const file = join(this.root, PROJECT_RULES_FILE);
+        if (extractToolPaths(input).some((path) => resolve(this.root, path) === file)) {
+            return true;
+        }
+        // Shell commands can reach the file in too many ways to resolve, any mention counts
+        return extractToolCommand(input)?.includes('permissions.json') ?? false;
+    }
+}
+
+/**
+ * Rule remembering an "approve for this session" decision, limited to the
+ * exact command for shell tools
+ */
+export function sessionRuleFor(toolName: string, input: unknown): PermissionRule {
+    const command = extractToolCommand(input);
+    return command
+        ? { action: 'allow', tool: escapeGlob(toolName), command: escapeGlob(command.replace(/\s+/g, ' ')) }
+        : { action: 'allow', tool: escapeGlob(toolName) };
+}
@@ -93,7 +93,7 @@ const DEFAULT_MODEL = 'claude-3-5-sonnet-20241022';
  * @param usage - Usage stats
  * @param modelId - Model ID (optional, defaults to Sonnet 3.5)
  */
-export function calculateCost(usage: Usage, modelId?: string): { total: number, input: number, output: number } {
+export function calculateCost(usage: Usage, modelId?: string): { total: number, input: number, output: number, cacheCreation: number, cacheRead: number } {
     let pricing = PRICING[modelId as ModelId];
 
     // Fallback if model not found
@@ -130,6 +130,66 @@ export function calculateCost(usage: Usage, modelId?: string): { total: number,
     return {
         total: totalInputCost + outputCost,
         input: totalInputCost,
-        output: outputCost
+        output: outputCost,
+        cacheCreation: cacheWriteCost,
+        cacheRead: cacheReadCost
+    };
+}
+
+/**
+ * Rates per million tokens for the models Codex and Gemini run, matched by
+ * the longest prefix so dated and `-codex` variants share a rate
+ * Source: OpenAI and Google API pricing pages (approximate as of late 2025)
+ */
+export const AGENT_PRICING: Record<string, { input: number, output: number, cache_read: number }> = {
+    'gpt-5': { input: 1.25, output: 10.0, cache_read: 0.125 },
+    'gpt-5-mini': { input: 0.25, output: 2.0, cache_read: 0.025 },
+    'gpt-5-nano': { input: 0.05, output: 0.4, cache_read: 0.005 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.0, cache_read: 0.31 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50, cache_read: 0.075 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40, cache_read: 0.025 },
+};
+
+// Model each agent runs when none is selected
+const AGENT_DEFAULT_MODEL: Record<string, string> = {
+    codex: 'gpt-5',
+    gemini: 'gemini-2.5-pro',
+};
+
+/**
+ * Token counts reported by agents other than Claude. Input excludes the
+ * cached part, output includes reasoning
+ */
+export type AgentTokens = {
+    input: number;
+    output: number;
+    cacheRead: number;
+};
+
+/**
+ * Calculate cost for usage of Codex, Gemini or another ACP agent, zero for
+ * models without a known rate
+ * @param agent - Agent name, picks the default model
+ * @param modelId - Model ID, when one was selected
+ */
+export function calculateAgentCost(agent: string, tokens: AgentTokens, modelId?: string): { total: number, input: number, output: number, cacheRead: number } {
+    const model = modelId ?? AGENT_DEFAULT_MODEL[agent];
+    const prefix = model
+        ? Object.keys(AGENT_PRICING).filter((key) => model.startsWith(key)).sort((a, b) => b.length - a.length)[0]
+        : undefined;
+    if (!prefix) {
+        return { total: 0, input: 0, output: 0, cacheRead: 0 };
+    }
+    const pricing = AGENT_PRICING[prefix];
+
+    const inputCost = (tokens.input / 1_000_000) * pricing.input;
+    const outputCost = (tokens.output / 1_000_000) * pricing.output;
+    const cacheReadCost = (tokens.cacheRead / 1_000_000) * pricing.cache_read;
+
+    return {
+        total: inputCost + cacheReadCost + outputCost,
+        input: inputCost + cacheReadCost,
+        output: outputCost,
+        cacheRead: cacheReadCost
     };
 }
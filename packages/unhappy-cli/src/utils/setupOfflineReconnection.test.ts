@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiClient } from '@/api/api';
+import type { ApiSessionClient } from '@/api/apiSession';
+import type { AuditEvent } from '@/modules/audit';
+import { AuditLog } from '@/modules/audit/auditLog';
+import { BUDGET_TOOL, BudgetTracker } from './budget';
+import { CodexPermissionHandler } from '@/codex/utils/permissionHandler';
+import { GeminiPermissionHandler } from '@/gemini/utils/permissionHandler';
+import { PermissionRules } from './permissionRules';
+import { setupOfflineReconnection } from './setupOfflineReconnection';
+
+const reconnection = vi.hoisted(() => ({ onReconnected: null as null | (() => Promise<unknown>) }));
+
+vi.mock('@/utils/serverConnectionErrors', () => ({
+    startOfflineReconnection: (opts: { onReconnected: () => Promise<unknown> }) => {
+        reconnection.onReconnected = opts.onReconnected;
+        return { cancel: vi.fn() };
+    },
+}));
+
+vi.mock('@/api/outbox', () => ({
+    Outbox: class {
+        messages: unknown[] = [];
+        append(content: unknown) {
+            this.messages.push(content);
+        }
+    },
+}));
+
+function realSession(uploaded: AuditEvent[]) {
+    return {
+        sessionId: 'remote-session',
+        audit: new AuditLog(async (events) => { uploaded.push(...events); }),
+        budget: new BudgetTracker(() => {}),
+        updateAgentState: vi.fn(),
+        rpcHandlerManager: { registerHandler: vi.fn() },
+    } as unknown as ApiSessionClient;
+}
+
+const agents = [
+    {
+        name: 'Codex',
+        createHandler: (session: ApiSessionClient, rules: PermissionRules) => new CodexPermissionHandler(session, rules),
+        runTool: (session: ApiSessionClient) => {
+            session.sendCodexMessage({ type: 'tool-call', callId: 'call-2', name: 'Read', input: { path: 'a.ts' } });
+            session.sendCodexMessage({ type: 'tool-call-result', callId: 'call-2', output: 'ok' });
+        },
+    },
+    {
+        name: 'Gemini',
+        createHandler: (session: ApiSessionClient, rules: PermissionRules) => new GeminiPermissionHandler(session, rules),
+        runTool: (session: ApiSessionClient) => {
+            session.sendAgentMessage('gemini', { type: 'tool-call', callId: 'call-2', name: 'Read', input: { path: 'a.ts' }, id: 'm1' });
+            session.sendAgentMessage('gemini', { type: 'tool-result', callId: 'call-2', output: 'ok', id: 'm2' });
+        },
+    },
+];
+
+describe.each(agents)('$name started offline', ({ createHandler, runTool }) => {
+    beforeEach(() => {
+        reconnection.onReconnected = null;
+    });
+
+    it('audits rule decisions and tool runs, and uploads them once the session exists', async () => {
+        const uploaded: AuditEvent[] = [];
+        const remote = realSession(uploaded);
+        const api = { getOrCreateSession: vi.fn(async () => ({ id: 'remote-session' })), sessionSyncClient: vi.fn(() => remote) };
+        let session: ApiSessionClient | null = null;
+        const result = setupOfflineReconnection({
+            api: api as unknown as ApiClient,
+            sessionTag: 'tag',
+            metadata: {} as any,
+            state: {},
+            response: null,
+            onSessionSwap: (next) => { session = next; },
+        });
+        expect(result.isOffline).toBe(true);
+
+        const rules = new PermissionRules('/nonexistent');
+        rules.setAccountRules([{ action: 'deny', tool: 'Bash', command: 'git push*' }]);
+        const handler = createHandler(result.session, rules);
+        expect(await handler.handleToolCall('call-1', 'Bash', { command: 'git push' })).toEqual({ decision: 'denied' });
+        runTool(result.session);
+
+        await reconnection.onReconnected!();
+        expect(session).toBe(remote);
+        await remote.audit.flush();
+        expect(uploaded).toMatchObject([
+            { type: 'permission', toolCallId: 'call-1', decision: 'denied', decidedBy: 'rule' },
+            { type: 'tool', toolCallId: 'call-2', tool: 'Read', status: 'success', files: ['a.ts'] },
+        ]);
+    });
+
+    it('counts usage reported offline against the budget once the session exists', async () => {
+        const remote = realSession([]);
+        const api = { getOrCreateSession: vi.fn(async () => ({ id: 'remote-session' })), sessionSyncClient: vi.fn(() => remote) };
+        const result = setupOfflineReconnection({
+            api: api as unknown as ApiClient,
+            sessionTag: 'tag',
+            metadata: {} as any,
+            state: {},
+            response: null,
+            onSessionSwap: () => {},
+        });
+        result.session.sendUsageReport({ key: 'codex', agent: 'codex', tokens: { total: 1000 }, cost: { total: 0.5 } });
+        await reconnection.onReconnected!();
+        remote.budget.setBudget({ unit: 'usd', limit: 0.5 });
+
+        // Tool calls wait for the user to allow more spend, declining denies them
+        const handler = createHandler(remote, new PermissionRules('/nonexistent'));
+        const decision = handler.handleToolCall('call-3', 'Read', { path: 'a.ts' });
+        await vi.waitFor(() => expect(remote.updateAgentState).toHaveBeenCalled());
+        const update = vi.mocked(remote.updateAgentState).mock.calls[0][0] as (state: object) => { requests: Record<string, { tool: string }> };
+        const [[requestId, request]] = Object.entries(update({}).requests);
+        expect(request.tool).toBe(BUDGET_TOOL);
+
+        const respond = vi.mocked(remote.rpcHandlerManager.registerHandler).mock.calls.at(-1)![1] as (response: object) => Promise<void>;
+        await respond({ id: requestId, approved: false });
+        expect(await decision).toEqual({ decision: 'denied' });
+        expect(remote.budget.isExceeded()).toBe(true);
+    });
+});
@@ -9,6 +9,7 @@
 
 import type { ApiClient } from '@/api/api';
 import type { ApiSessionClient } from '@/api/apiSession';
+import { Outbox } from '@/api/outbox';
 import type { AgentState, Metadata, Session } from '@/api/types';
 import { configuration } from '@/configuration';
 import { createOfflineSessionStub } from '@/utils/offlineSessionStub';
@@ -82,8 +83,11 @@ export function setupOfflineReconnection(opts: SetupOfflineReconnectionOptions):
 
     // Note: connectionState.notifyOffline() was already called by api.ts with error details
     if (!response) {
-        // Create a no-op session stub for offline mode using shared utility
-        session = createOfflineSessionStub(sessionTag);
+        // Agent output is queued on disk until the session exists, the outbox
+        // keeps what it takes to create the session if this process dies first
+        const outbox = new Outbox({ tag: sessionTag, metadata, state });
+        const offlineSession = createOfflineSessionStub(sessionTag, outbox);
+        session = offlineSession;
 
         // Start background reconnection
         reconnectionHandle = startOfflineReconnection<ApiSessionClient>({
@@ -91,7 +95,11 @@ export function setupOfflineReconnection(opts: SetupOfflineReconnectionOptions):
             onReconnected: async () => {
                 const resp = await api.getOrCreateSession({ tag: sessionTag, metadata, state });
                 if (!resp) throw new Error('Server unavailable');
-                const realSession = api.sessionSyncClient(resp);
+                // The real session delivers the queued messages once its socket connects
+                const realSession = api.sessionSyncClient(resp, outbox);
+                // and uploads what was audited while offline
+                offlineSession.audit.handOver(realSession.audit);
+                offlineSession.budget.handOver(realSession.budget);
                 // Notify caller to swap the session reference
                 onSessionSwap(realSession);
                 return realSession;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN     "contentPublicKey" BYTEA;
+
+-- CreateTable
+CREATE TABLE "SessionShare" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "sharedWithId" TEXT NOT NULL,
+    "encryptedDataKey" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SessionShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SessionShare_sharedWithId_idx" ON "SessionShare"("sharedWithId");
+
+-- CreateIndex
+CREATE INDEX "SessionShare_ownerId_idx" ON "SessionShare"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionShare_sessionId_sharedWithId_key" ON "SessionShare"("sessionId", "sharedWithId");
+
+-- AddForeignKey
+ALTER TABLE "SessionShare" ADD CONSTRAINT "SessionShare_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionShare" ADD CONSTRAINT "SessionShare_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionShare" ADD CONSTRAINT "SessionShare_sharedWithId_fkey" FOREIGN KEY ("sharedWithId") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
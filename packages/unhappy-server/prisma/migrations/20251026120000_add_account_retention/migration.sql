@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "UploadedFile" ADD COLUMN     "size" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "AccountRetention" (
+    "accountId" TEXT NOT NULL,
+    "inactiveSessionDays" INTEGER,
+    "maxMessagesPerSession" INTEGER,
+    "usageReportDays" INTEGER,
+    "maxStorageBytes" BIGINT,
+    "lastAppliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountRetention_pkey" PRIMARY KEY ("accountId")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountRetention_lastAppliedAt_idx" ON "AccountRetention"("lastAppliedAt");
+
+-- AddForeignKey
+ALTER TABLE "AccountRetention" ADD CONSTRAINT "AccountRetention_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "auditSeq" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "SessionAuditEvent" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "localId" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SessionAuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SessionAuditEvent_sessionId_seq_idx" ON "SessionAuditEvent"("sessionId", "seq");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionAuditEvent_sessionId_localId_key" ON "SessionAuditEvent"("sessionId", "localId");
+
+-- AddForeignKey
+ALTER TABLE "SessionAuditEvent" ADD CONSTRAINT "SessionAuditEvent_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN     "keyVersion" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "AccountDevice" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "name" TEXT,
+    "publicKey" TEXT NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountDevice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountDevice_accountId_idx" ON "AccountDevice"("accountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountDevice_accountId_publicKey_key" ON "AccountDevice"("accountId", "publicKey");
+
+-- AddForeignKey
+ALTER TABLE "AccountDevice" ADD CONSTRAINT "AccountDevice_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Uploads from before sizes were recorded are unknown until the retention worker measures them
+ALTER TABLE "UploadedFile" ALTER COLUMN "size" DROP NOT NULL,
+ALTER COLUMN "size" DROP DEFAULT;
+
+UPDATE "UploadedFile" SET "size" = NULL WHERE "size" = 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "readOnly" BOOLEAN NOT NULL DEFAULT false;
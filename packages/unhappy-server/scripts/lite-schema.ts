@@ -0,0 +1,8 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { toLiteSchema } from '../sources/storage/lite/liteSchema';
+
+const source = new URL('../prisma/schema.prisma', import.meta.url);
+const target = new URL('../prisma/lite/schema.prisma', import.meta.url);
+
+writeFileSync(target, toLiteSchema(readFileSync(source, 'utf8')));
+console.log('Wrote prisma/lite/schema.prisma');
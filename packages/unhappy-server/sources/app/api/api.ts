@@ -13,9 +13,13 @@ import { authRoutes } from './routes/authRoutes';
 import { connectRoutes } from './routes/connectRoutes';
 import { devRoutes } from './routes/devRoutes';
 import { feedRoutes } from './routes/feedRoutes';
+import { fileRoutes } from './routes/fileRoutes';
 import { kvRoutes } from './routes/kvRoutes';
 import { machinesRoutes } from './routes/machinesRoutes';
 import { pushRoutes } from './routes/pushRoutes';
+import { retentionRoutes } from './routes/retentionRoutes';
+import { webhookRoutes } from './routes/webhookRoutes';
+import { deviceRoutes } from './routes/deviceRoutes';
 import { sessionRoutes } from './routes/sessionRoutes';
 import { userRoutes } from './routes/userRoutes';
 import { versionRoutes } from './routes/versionRoutes';
@@ -69,6 +73,10 @@ export async function startApi() {
   userRoutes(typed);
   feedRoutes(typed);
   kvRoutes(typed);
+  retentionRoutes(typed);
+  webhookRoutes(typed);
+  deviceRoutes(typed);
+  fileRoutes(typed);
 
   // Start HTTP
   const port = process.env.PORT ? parseInt(process.env.PORT, 10) : 3005;
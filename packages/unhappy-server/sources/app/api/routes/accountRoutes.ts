@@ -7,6 +7,17 @@ import { randomKeyNaked } from "@/utils/randomKeyNaked";
 import { allocateUserSeq } from "@/storage/seq";
 import { log } from "@/utils/log";
 import { AccountProfile } from "@/types";
+import { Context } from "@/context";
+import * as privacyKit from "privacy-kit";
+import tweetnacl from "tweetnacl";
+import { keyRotationGet } from "@/app/devices/keyRotationGet";
+import { keyRotate } from "@/app/devices/keyRotate";
+import { aggregateUsage } from "@/app/usage/usageAggregate";
+
+const WrappedKeySchema = z.object({
+    id: z.string(),
+    key: z.string() // Base64
+});
 
 export function accountRoutes(app: Fastify) {
     app.get('/v1/account/profile', {
@@ -36,6 +47,100 @@ export function accountRoutes(app: Fastify) {
         });
     });
 
+    // Publish the content public key, friends encrypt shared session keys with it
+    app.post('/v1/account/content-key', {
+        preHandler: app.authenticate,
+        schema: {
+            body: z.object({
+                contentPublicKey: z.string() // Base64
+            })
+        }
+    }, async (request, reply) => {
+        const contentPublicKey = new Uint8Array(Buffer.from(request.body.contentPublicKey, 'base64'));
+        if (contentPublicKey.length !== 32) {
+            return reply.code(400).send({ error: 'Invalid content public key' });
+        }
+        await db.account.update({
+            where: { id: request.userId },
+            data: { contentPublicKey }
+        });
+        return reply.send({ success: true });
+    });
+
+    // Everything encrypted for the account key, read before a key rotation
+    app.get('/v1/account/keys', {
+        preHandler: app.authenticate,
+    }, async (request, reply) => {
+        return reply.send(await keyRotationGet(Context.create(request.userId)));
+    });
+
+    // Replace the account key, the body carries everything re-encrypted for the new one
+    app.post('/v1/account/keys/rotate', {
+        preHandler: app.authenticate,
+        schema: {
+            body: z.object({
+                keyVersion: z.number().int().min(0),
+                publicKey: z.string(), // Base64, new account signing key
+                challenge: z.string(),
+                signature: z.string(),
+                contentPublicKey: z.string(), // Base64
+                settings: z.string().nullable(),
+                settingsVersion: z.number().int().min(0),
+                sessions: z.array(WrappedKeySchema),
+                machines: z.array(WrappedKeySchema),
+                artifacts: z.array(WrappedKeySchema),
+                shares: z.array(WrappedKeySchema),
+                kv: z.array(z.object({
+                    key: z.string(),
+                    value: z.string(), // Base64
+                    version: z.number().int().min(0)
+                }))
+            }),
+            response: {
+                200: z.object({
+                    success: z.literal(true),
+                    token: z.string(),
+                    keyVersion: z.number()
+                }),
+                400: z.object({
+                    error: z.string()
+                }),
+                409: z.object({
+                    error: z.enum(['keys-changed', 'legacy-encryption'])
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const body = request.body;
+        const publicKey = privacyKit.decodeBase64(body.publicKey);
+        const contentPublicKey = privacyKit.decodeBase64(body.contentPublicKey);
+        const isValid = publicKey.length === tweetnacl.sign.publicKeyLength
+            && tweetnacl.sign.detached.verify(privacyKit.decodeBase64(body.challenge), privacyKit.decodeBase64(body.signature), publicKey);
+        if (!isValid) {
+            return reply.code(400).send({ error: 'Invalid signature' });
+        }
+        if (contentPublicKey.length !== 32) {
+            return reply.code(400).send({ error: 'Invalid content public key' });
+        }
+        const decodeKeys = (keys: { id: string, key: string }[]) => keys.map((k) => ({ id: k.id, key: privacyKit.decodeBase64(k.key) }));
+        const result = await keyRotate(Context.create(request.userId), request.deviceId, {
+            keyVersion: body.keyVersion,
+            publicKey: privacyKit.encodeHex(publicKey),
+            contentPublicKey,
+            settings: body.settings,
+            settingsVersion: body.settingsVersion,
+            sessions: decodeKeys(body.sessions),
+            machines: decodeKeys(body.machines),
+            artifacts: decodeKeys(body.artifacts),
+            shares: decodeKeys(body.shares),
+            kv: body.kv.map((entry) => ({ key: entry.key, value: privacyKit.decodeBase64(entry.value), version: entry.version }))
+        });
+        if (result.type !== 'success') {
+            return reply.code(409).send({ error: result.type });
+        }
+        return reply.send({ success: true, token: result.token, keyVersion: result.keyVersion });
+    });
+
     // Get Account Settings API
     app.get('/v1/account/settings', {
         preHandler: app.authenticate,
@@ -182,13 +287,14 @@ export function accountRoutes(app: Fastify) {
                 sessionId: z.string().nullish(),
                 startTime: z.number().int().positive().nullish(),
                 endTime: z.number().int().positive().nullish(),
-                groupBy: z.enum(['hour', 'day']).nullish()
+                groupBy: z.enum(['hour', 'day']).nullish(),
+                breakdown: z.array(z.enum(['model', 'agent', 'session'])).max(3).nullish()
             })
         },
         preHandler: app.authenticate
     }, async (request, reply) => {
         const userId = request.userId;
-        const { sessionId, startTime, endTime, groupBy } = request.body;
+        const { sessionId, startTime, endTime, groupBy, breakdown } = request.body;
         const actualGroupBy = groupBy || 'day';
 
         try {
@@ -236,68 +342,11 @@ export function accountRoutes(app: Fastify) {
                 }
             });
 
-            // Aggregate data by time period
-            const aggregated = new Map<string, {
-                tokens: Record<string, number>;
-                cost: Record<string, number>;
-                count: number;
-                timestamp: number;
-            }>();
-
-            for (const report of reports) {
-                const data = report.data as PrismaJson.UsageReportData;
-                const date = new Date(report.createdAt);
-
-                // Calculate timestamp based on groupBy
-                let timestamp: number;
-                if (actualGroupBy === 'hour') {
-                    // Round down to hour
-                    const hourDate = new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), 0, 0, 0);
-                    timestamp = Math.floor(hourDate.getTime() / 1000);
-                } else {
-                    // Round down to day
-                    const dayDate = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, 0, 0, 0);
-                    timestamp = Math.floor(dayDate.getTime() / 1000);
-                }
-
-                const key = timestamp.toString();
-
-                if (!aggregated.has(key)) {
-                    aggregated.set(key, {
-                        tokens: {},
-                        cost: {},
-                        count: 0,
-                        timestamp
-                    });
-                }
-
-                const agg = aggregated.get(key)!;
-                agg.count++;
-
-                // Aggregate tokens
-                for (const [tokenKey, tokenValue] of Object.entries(data.tokens)) {
-                    if (typeof tokenValue === 'number') {
-                        agg.tokens[tokenKey] = (agg.tokens[tokenKey] || 0) + tokenValue;
-                    }
-                }
-
-                // Aggregate costs
-                for (const [costKey, costValue] of Object.entries(data.cost)) {
-                    if (typeof costValue === 'number') {
-                        agg.cost[costKey] = (agg.cost[costKey] || 0) + costValue;
-                    }
-                }
-            }
-
-            // Convert to array and sort by timestamp
-            const result = Array.from(aggregated.values())
-                .map(data => ({
-                    timestamp: data.timestamp,
-                    tokens: data.tokens,
-                    cost: data.cost,
-                    reportCount: data.count
-                }))
-                .sort((a, b) => a.timestamp - b.timestamp);
+            const result = aggregateUsage(reports.map((report) => ({
+                sessionId: report.sessionId,
+                createdAt: report.createdAt,
+                data: report.data as PrismaJson.UsageReportData
+            })), actualGroupBy, breakdown ?? []);
 
             return reply.send({
                 usage: result,
@@ -8,6 +8,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 const {
     mockDb,
     mockAuth,
+    mockDeviceAuthorize,
     mockLog,
 } = vi.hoisted(() => {
     const terminalAuthRequest = {
@@ -35,6 +36,7 @@ const {
         mockAuth: {
             createToken: vi.fn(),
         },
+        mockDeviceAuthorize: vi.fn(),
         mockLog: vi.fn(),
     };
 });
@@ -47,6 +49,10 @@ vi.mock("@/app/auth/auth", () => ({
     auth: mockAuth,
 }));
 
+vi.mock("@/app/devices/deviceAuthorize", () => ({
+    deviceAuthorize: mockDeviceAuthorize,
+}));
+
 vi.mock("@/utils/log", () => ({
     log: mockLog,
 }));
@@ -100,7 +106,7 @@ describe("authRoutes", () => {
             createdAt: new Date(),
             updatedAt: new Date(),
         });
-        mockAuth.createToken.mockResolvedValue("token-account-1");
+        mockDeviceAuthorize.mockResolvedValue({ token: "token-account-1", deviceId: "device-1" });
 
         const response = await app.inject({
             method: "POST",
@@ -135,7 +141,7 @@ describe("authRoutes", () => {
             createdAt: new Date(),
             updatedAt: new Date(),
         });
-        mockAuth.createToken.mockResolvedValue("token-terminal-1");
+        mockDeviceAuthorize.mockResolvedValue({ token: "token-terminal-1", deviceId: "device-2" });
 
         const response = await app.inject({
             method: "POST",
@@ -143,6 +149,7 @@ describe("authRoutes", () => {
             payload: {
                 publicKey,
                 supportsV2: true,
+                name: "laptop",
             },
         });
 
@@ -153,7 +160,41 @@ describe("authRoutes", () => {
         expect(body.encryptedToken).toEqual(expect.any(String));
         expect(body.token).toBeUndefined();
         expect(decryptEphemeralBundleToText(body.encryptedToken, keypair.secretKey)).toBe("token-terminal-1");
-        expect(mockAuth.createToken).toHaveBeenCalledWith("account-2", { session: "terminal-req-1" });
+        expect(mockDeviceAuthorize).toHaveBeenCalledWith("account-2", {
+            kind: "cli",
+            publicKey: publicKeyHex,
+            name: "laptop",
+        }, { session: "terminal-req-1" });
+
+        await app.close();
+    });
+
+    it("keeps a terminal waiting when its device was revoked", async () => {
+        const app = await createTestApp();
+        const keypair = tweetnacl.box.keyPair();
+        const publicKeyBytes = new Uint8Array(keypair.publicKey);
+        const publicKeyHex = privacyKit.encodeHex(publicKeyBytes);
+
+        mockDb.terminalAuthRequest.findUnique.mockResolvedValue({
+            id: "terminal-req-2",
+            publicKey: publicKeyHex,
+            supportsV2: true,
+            response: "encrypted-terminal-bundle",
+            responseAccountId: "account-2",
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        });
+        mockDeviceAuthorize.mockResolvedValue(null);
+
+        const response = await app.inject({
+            method: "POST",
+            url: "/v1/auth/request",
+            payload: { publicKey: privacyKit.encodeBase64(publicKeyBytes), supportsV2: true },
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toEqual({ state: "requested" });
+        expect(mockDb.terminalAuthRequest.delete).toHaveBeenCalledWith({ where: { id: "terminal-req-2" } });
 
         await app.close();
     });
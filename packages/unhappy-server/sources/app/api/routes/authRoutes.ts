@@ -6,6 +6,7 @@ import tweetnacl from "tweetnacl";
 import { db } from "@/storage/db";
 import { auth } from "@/app/auth/auth";
 import { log } from "@/utils/log";
+import { deviceAuthorize } from "@/app/devices/deviceAuthorize";
 
 const AUTH_REQUEST_TTL_MS = 5 * 60 * 1000;
 
@@ -40,7 +41,13 @@ export function authRoutes(app: Fastify) {
             body: z.object({
                 publicKey: z.string(),
                 challenge: z.string(),
-                signature: z.string()
+                signature: z.string(),
+                // Device sub-key signing the same challenge, binds the token to the device
+                device: z.object({
+                    publicKey: z.string(),
+                    signature: z.string(),
+                    name: z.string().max(100).nullish()
+                }).nullish()
             })
         }
     }, async (request, reply) => {
@@ -60,9 +67,30 @@ export function authRoutes(app: Fastify) {
             create: { publicKey: publicKeyHex }
         });
 
+        const device = request.body.device;
+        if (!device) {
+            return reply.send({
+                success: true,
+                token: await auth.createToken(user.id, { keyVersion: user.keyVersion })
+            });
+        }
+        const devicePublicKey = privacyKit.decodeBase64(device.publicKey);
+        const deviceSignature = privacyKit.decodeBase64(device.signature);
+        if (devicePublicKey.length !== tweetnacl.sign.publicKeyLength || !tweetnacl.sign.detached.verify(challenge, deviceSignature, devicePublicKey)) {
+            return reply.code(401).send({ error: 'Invalid device signature' });
+        }
+        const authorized = await deviceAuthorize(user.id, {
+            kind: 'app',
+            publicKey: privacyKit.encodeHex(devicePublicKey),
+            name: device.name
+        });
+        if (!authorized) {
+            return reply.code(401).send({ error: 'Device revoked' });
+        }
         return reply.send({
             success: true,
-            token: await auth.createToken(user.id)
+            token: authorized.token,
+            deviceId: authorized.deviceId
         });
     });
 
@@ -72,6 +100,7 @@ export function authRoutes(app: Fastify) {
                 publicKey: z.string(),
                 supportsV2: z.boolean().nullish(),
                 supportsEncryptedToken: z.boolean().nullish(),
+                name: z.string().max(100).nullish(), // Shown in the devices list
             }),
             response: {
                 200: z.union([z.object({
@@ -150,7 +179,17 @@ export function authRoutes(app: Fastify) {
         }
 
         if (answer.response && answer.responseAccountId) {
-            const token = await auth.createToken(answer.responseAccountId!, { session: answer.id });
+            // The request key becomes the CLI's device key
+            const authorized = await deviceAuthorize(answer.responseAccountId, {
+                kind: 'cli',
+                publicKey: publicKeyHex,
+                name: request.body.name
+            }, { session: answer.id });
+            if (!authorized) {
+                await db.terminalAuthRequest.delete({ where: { id: answer.id } });
+                return reply.send({ state: 'requested' });
+            }
+            const token = authorized.token;
             const encryptedTokenBundle = new Uint8Array(
                 encryptForPublicKey(new TextEncoder().encode(token), publicKey),
             );
@@ -265,6 +304,7 @@ export function authRoutes(app: Fastify) {
             body: z.object({
                 publicKey: z.string(),
                 supportsEncryptedToken: z.boolean().nullish(),
+                name: z.string().max(100).nullish(), // Shown in the devices list
             }),
             response: {
                 200: z.union([z.object({
@@ -330,7 +370,16 @@ export function authRoutes(app: Fastify) {
         }
 
         if (answer.response && answer.responseAccountId) {
-            const token = await auth.createToken(answer.responseAccountId!);
+            const authorized = await deviceAuthorize(answer.responseAccountId, {
+                kind: 'app',
+                publicKey: publicKeyHex,
+                name: request.body.name
+            });
+            if (!authorized) {
+                await db.accountAuthRequest.delete({ where: { id: answer.id } });
+                return reply.send({ state: 'requested' });
+            }
+            const token = authorized.token;
             const encryptedTokenBundle = new Uint8Array(
                 encryptForPublicKey(new TextEncoder().encode(token), publicKey),
             );
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import * as privacyKit from "privacy-kit";
+import tweetnacl from "tweetnacl";
+import { Fastify } from "../types";
+import { Context } from "@/context";
+import { deviceAuthorize } from "@/app/devices/deviceAuthorize";
+import { deviceList } from "@/app/devices/deviceList";
+import { deviceRevoke } from "@/app/devices/deviceRevoke";
+
+const DeviceSchema = z.object({
+    id: z.string(),
+    kind: z.enum(['app', 'cli']),
+    name: z.string().nullable(),
+    current: z.boolean(),
+    lastSeenAt: z.number(),
+    createdAt: z.number()
+});
+
+export function deviceRoutes(app: Fastify) {
+    // GET /v1/devices - App installs and CLIs that can sign in
+    app.get('/v1/devices', {
+        preHandler: app.authenticate,
+        schema: {
+            response: {
+                200: z.object({
+                    devices: z.array(DeviceSchema)
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const devices = await deviceList(Context.create(request.userId), request.deviceId);
+        return reply.send({ devices });
+    });
+
+    // POST /v1/devices - Register the caller's device sub-key, returns a token bound to the device.
+    // Apps and CLIs that signed in before device management call it on start.
+    app.post('/v1/devices', {
+        preHandler: app.authenticate,
+        schema: {
+            body: z.object({
+                publicKey: z.string(), // Base64 ed25519 public key
+                challenge: z.string(),
+                signature: z.string(),
+                name: z.string().max(100).nullish(),
+                kind: z.enum(['app', 'cli']).default('app')
+            }),
+            response: {
+                200: z.object({
+                    deviceId: z.string(),
+                    token: z.string()
+                }),
+                401: z.object({
+                    error: z.enum(['Invalid signature', 'Device revoked'])
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const publicKey = privacyKit.decodeBase64(request.body.publicKey);
+        const challenge = privacyKit.decodeBase64(request.body.challenge);
+        const signature = privacyKit.decodeBase64(request.body.signature);
+        if (publicKey.length !== tweetnacl.sign.publicKeyLength || !tweetnacl.sign.detached.verify(challenge, signature, publicKey)) {
+            return reply.code(401).send({ error: 'Invalid signature' });
+        }
+        const result = await deviceAuthorize(request.userId, {
+            kind: request.body.kind,
+            publicKey: privacyKit.encodeHex(publicKey),
+            name: request.body.name
+        }, undefined, request.deviceId);
+        if (!result) {
+            return reply.code(401).send({ error: 'Device revoked' });
+        }
+        return reply.send(result);
+    });
+
+    // DELETE /v1/devices/:id - Revoke a device, its tokens stop working
+    app.delete('/v1/devices/:id', {
+        preHandler: app.authenticate,
+        schema: {
+            params: z.object({
+                id: z.string()
+            }),
+            response: {
+                200: z.object({
+                    success: z.literal(true)
+                }),
+                404: z.object({
+                    error: z.literal('Device not found')
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const revoked = await deviceRevoke(Context.create(request.userId), request.params.id);
+        if (!revoked) {
+            return reply.code(404).send({ error: 'Device not found' });
+        }
+        return reply.send({ success: true });
+    });
+}
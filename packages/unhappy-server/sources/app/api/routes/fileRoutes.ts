@@ -0,0 +1,45 @@
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import * as path from 'node:path';
+import { isLite } from '@/storage/mode';
+import { resolveLocalFile } from '@/storage/files';
+import { Fastify } from '../types';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+};
+
+/**
+ * Serve uploaded files from local disk. Only in lite mode, otherwise files
+ * are served by S3 at S3_PUBLIC_URL.
+ */
+export function fileRoutes(app: Fastify) {
+    if (!isLite) {
+        return;
+    }
+
+    app.get('/files/*', async (request, reply) => {
+        const filePath = resolveLocalFile((request.params as { '*': string })['*']);
+        if (!filePath) {
+            return reply.code(404).send({ error: 'Not found' });
+        }
+        try {
+            const info = await stat(filePath);
+            if (!info.isFile()) {
+                return reply.code(404).send({ error: 'Not found' });
+            }
+            // Uploaded files are content addressed by random keys and never change
+            return reply
+                .header('Content-Type', CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream')
+                .header('Content-Length', info.size)
+                .header('Cache-Control', 'public, max-age=31536000, immutable')
+                .send(createReadStream(filePath));
+        } catch {
+            return reply.code(404).send({ error: 'Not found' });
+        }
+    });
+}
@@ -174,4 +174,30 @@ export function machinesRoutes(app: Fastify) {
         };
     });
 
-}
\ No newline at end of file
+    // GET /v1/machines/:id/health - Latest daemon health report, null until the daemon sends one
+    app.get('/v1/machines/:id/health', {
+        preHandler: app.authenticate,
+        schema: {
+            params: z.object({
+                id: z.string()
+            })
+        }
+    }, async (request, reply) => {
+        const machine = await db.machine.findFirst({
+            where: {
+                accountId: request.userId,
+                id: request.params.id
+            },
+            select: { active: true, health: true }
+        });
+
+        if (!machine) {
+            return reply.code(404).send({ error: 'Machine not found' });
+        }
+
+        return {
+            active: machine.active,
+            health: machine.health ?? null
+        };
+    });
+}
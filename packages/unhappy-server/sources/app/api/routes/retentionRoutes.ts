@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { Fastify } from "../types";
+import { retentionGetPolicy, retentionGetUsage } from "@/app/retention/retentionGet";
+import { retentionSet } from "@/app/retention/retentionSet";
+import { log } from "@/utils/log";
+
+const PolicySchema = z.object({
+    inactiveSessionDays: z.number().int().min(1).nullable(),
+    maxMessagesPerSession: z.number().int().min(1).nullable(),
+    usageReportDays: z.number().int().min(1).nullable(),
+    maxStorageBytes: z.number().int().min(0).nullable()
+});
+
+const UsageSchema = z.object({
+    sessions: z.number(),
+    messages: z.number(),
+    largestSessionMessages: z.number(),
+    usageReports: z.number(),
+    files: z.number(),
+    storageBytes: z.number(),
+    unmeasuredFiles: z.number()
+});
+
+export function retentionRoutes(app: Fastify) {
+    // GET /v1/account/retention - Current policy and usage against it
+    app.get('/v1/account/retention', {
+        preHandler: app.authenticate,
+        schema: {
+            response: {
+                200: z.object({
+                    policy: PolicySchema,
+                    usage: UsageSchema,
+                    lastAppliedAt: z.number().nullable()
+                }),
+                500: z.object({
+                    error: z.literal('Failed to get retention')
+                })
+            }
+        }
+    }, async (request, reply) => {
+        try {
+            const ctx = { uid: request.userId };
+            const [{ lastAppliedAt, ...policy }, usage] = await Promise.all([
+                retentionGetPolicy(ctx),
+                retentionGetUsage(ctx)
+            ]);
+            return reply.send({ policy, usage, lastAppliedAt });
+        } catch (error) {
+            log({ module: 'api', level: 'error' }, `Failed to get retention: ${error}`);
+            return reply.code(500).send({ error: 'Failed to get retention' });
+        }
+    });
+
+    // POST /v1/account/retention - Replace the policy, applied in the background
+    app.post('/v1/account/retention', {
+        preHandler: app.authenticate,
+        schema: {
+            body: PolicySchema,
+            response: {
+                200: z.object({
+                    success: z.literal(true)
+                }),
+                500: z.object({
+                    error: z.literal('Failed to update retention')
+                })
+            }
+        }
+    }, async (request, reply) => {
+        try {
+            await retentionSet({ uid: request.userId }, request.body);
+            return reply.send({ success: true });
+        } catch (error) {
+            log({ module: 'api', level: 'error' }, `Failed to update retention: ${error}`);
+            return reply.code(500).send({ error: 'Failed to update retention' });
+        }
+    });
+}
@@ -7,6 +7,11 @@ import { log } from "@/utils/log";
 import { randomKeyNaked } from "@/utils/randomKeyNaked";
 import { allocateUserSeq } from "@/storage/seq";
 import { sessionDelete } from "@/app/session/sessionDelete";
+import { sessionShareCreate } from "@/app/session/sessionShareCreate";
+import { sessionShareRevoke } from "@/app/session/sessionShareRevoke";
+import { sessionMessagesImport } from "@/app/session/sessionMessagesImport";
+import { sessionAuditAppend } from "@/app/session/sessionAuditAppend";
+import { Context } from "@/context";
 
 export function sessionRoutes(app: Fastify) {
 
@@ -215,6 +220,18 @@ export function sessionRoutes(app: Fastify) {
         });
     });
 
+    // Ids of all sessions of the user, lets clients with a cached list drop
+    // sessions deleted while they were away without fetching the full list
+    app.get('/v2/sessions/ids', {
+        preHandler: app.authenticate
+    }, async (request, reply) => {
+        const sessions = await db.session.findMany({
+            where: { accountId: request.userId },
+            select: { id: true }
+        });
+        return reply.send({ ids: sessions.map((v) => v.id) });
+    });
+
     // Create or load session by tag
     app.post('/v1/sessions', {
         schema: {
@@ -222,13 +239,14 @@ export function sessionRoutes(app: Fastify) {
                 tag: z.string(),
                 metadata: z.string(),
                 agentState: z.string().nullish(),
-                dataEncryptionKey: z.string().nullish()
+                dataEncryptionKey: z.string().nullish(),
+                readOnly: z.boolean().optional()
             })
         },
         preHandler: app.authenticate
     }, async (request, reply) => {
         const userId = request.userId;
-        const { tag, metadata, dataEncryptionKey } = request.body;
+        const { tag, metadata, agentState, dataEncryptionKey, readOnly } = request.body;
 
         const session = await db.session.findFirst({
             where: {
@@ -266,7 +284,9 @@ export function sessionRoutes(app: Fastify) {
                     accountId: userId,
                     tag: tag,
                     metadata: metadata,
-                    dataEncryptionKey: dataEncryptionKey ? new Uint8Array(Buffer.from(dataEncryptionKey, 'base64')) : undefined
+                    agentState: agentState ?? undefined,
+                    dataEncryptionKey: dataEncryptionKey ? new Uint8Array(Buffer.from(dataEncryptionKey, 'base64')) : undefined,
+                    readOnly: readOnly ?? false
                 }
             });
             log({ module: 'session-create', sessionId: session.id, userId }, `Session created: ${session.id}`);
@@ -316,11 +336,14 @@ export function sessionRoutes(app: Fastify) {
         const userId = request.userId;
         const { sessionId } = request.params;
 
-        // Verify session belongs to user
+        // Verify session belongs to user or is shared with them
         const session = await db.session.findFirst({
             where: {
                 id: sessionId,
-                accountId: userId
+                OR: [
+                    { accountId: userId },
+                    { shares: { some: { sharedWithId: userId } } }
+                ]
             }
         });
 
@@ -354,6 +377,324 @@ export function sessionRoutes(app: Fastify) {
         });
     });
 
+    // Append encrypted messages in bulk, used to import session archives.
+    // The only way to add messages to a read-only session.
+    app.post('/v1/sessions/:sessionId/messages', {
+        schema: {
+            params: z.object({
+                sessionId: z.string()
+            }),
+            body: z.object({
+                messages: z.array(z.object({
+                    localId: z.string(),
+                    content: z.string(),
+                    createdAt: z.number().int().min(0).optional()
+                })).min(1).max(500)
+            })
+        },
+        preHandler: app.authenticate
+    }, async (request, reply) => {
+        const imported = await sessionMessagesImport(Context.create(request.userId), request.params.sessionId, request.body.messages);
+        if (imported === null) {
+            return reply.code(404).send({ error: 'Session not found' });
+        }
+        return reply.send({ imported });
+    });
+
+    // V2 Messages API - Seq-based cursors over the full message history
+    app.get('/v2/sessions/:sessionId/messages', {
+        schema: {
+            params: z.object({
+                sessionId: z.string()
+            }),
+            querystring: z.object({
+                before: z.coerce.number().int().min(0).optional(),
+                after: z.coerce.number().int().min(0).optional(),
+                limit: z.coerce.number().int().min(1).max(500).default(150)
+            }).optional()
+        },
+        preHandler: app.authenticate
+    }, async (request, reply) => {
+        const userId = request.userId;
+        const { sessionId } = request.params;
+        const { before, after, limit = 150 } = request.query || {};
+
+        if (before !== undefined && after !== undefined) {
+            return reply.code(400).send({ error: 'Only one of before or after can be specified' });
+        }
+
+        // Verify session belongs to user or is shared with them
+        const session = await db.session.findFirst({
+            where: {
+                id: sessionId,
+                OR: [
+                    { accountId: userId },
+                    { shares: { some: { sharedWithId: userId } } }
+                ]
+            }
+        });
+
+        if (!session) {
+            return reply.code(404).send({ error: 'Session not found' });
+        }
+
+        // Forward pages (after) walk up from the cursor, everything else walks
+        // down from the cursor (or from the newest message) towards the start
+        const where: Prisma.SessionMessageWhereInput = { sessionId };
+        if (after !== undefined) {
+            where.seq = { gt: after };
+        } else if (before !== undefined) {
+            where.seq = { lt: before };
+        }
+
+        const messages = await db.sessionMessage.findMany({
+            where,
+            orderBy: { seq: after !== undefined ? 'asc' : 'desc' },
+            take: limit + 1, // Fetch one extra to determine if there are more
+            select: {
+                id: true,
+                seq: true,
+                localId: true,
+                content: true,
+                createdAt: true,
+                updatedAt: true
+            }
+        });
+
+        const hasMore = messages.length > limit;
+        const page = hasMore ? messages.slice(0, limit) : messages;
+
+        // Always return messages in ascending seq order
+        if (after === undefined) {
+            page.reverse();
+        }
+
+        return reply.send({
+            messages: page.map((v) => ({
+                id: v.id,
+                seq: v.seq,
+                content: v.content,
+                localId: v.localId,
+                createdAt: v.createdAt.getTime(),
+                updatedAt: v.updatedAt.getTime()
+            })),
+            hasMore
+        });
+    });
+
+    // Append encrypted audit events, written by the CLI as the agent works
+    app.post('/v1/sessions/:sessionId/audit', {
+        schema: {
+            params: z.object({
+                sessionId: z.string()
+            }),
+            body: z.object({
+                events: z.array(z.object({
+                    localId: z.string(),
+                    content: z.string(),
+                    createdAt: z.number().int().min(0).optional()
+                })).min(1).max(500)
+            })
+        },
+        preHandler: app.authenticate
+    }, async (request, reply) => {
+        const appended = await sessionAuditAppend(Context.create(request.userId), request.params.sessionId, request.body.events);
+        if (appended === null) {
+            return reply.code(404).send({ error: 'Session not found' });
+        }
+        return reply.send({ appended });
+    });
+
+    // Audit events in seq order, only for the session owner
+    app.get('/v1/sessions/:sessionId/audit', {
+        schema: {
+            params: z.object({
+                sessionId: z.string()
+            }),
+            querystring: z.object({
+                after: z.coerce.number().int().min(0).default(0),
+                limit: z.coerce.number().int().min(1).max(500).default(150)
+            }).optional()
+        },
+        preHandler: app.authenticate
+    }, async (request, reply) => {
+        const userId = request.userId;
+        const { sessionId } = request.params;
+        const { after = 0, limit = 150 } = request.query || {};
+
+        const session = await db.session.findFirst({
+            where: { id: sessionId, accountId: userId },
+            select: { id: true }
+        });
+        if (!session) {
+            return reply.code(404).send({ error: 'Session not found' });
+        }
+
+        const events = await db.sessionAuditEvent.findMany({
+            where: { sessionId, seq: { gt: after } },
+            orderBy: { seq: 'asc' },
+            take: limit + 1, // Fetch one extra to determine if there are more
+            select: {
+                id: true,
+                seq: true,
+                localId: true,
+                content: true,
+                createdAt: true
+            }
+        });
+
+        const hasMore = events.length > limit;
+        const page = hasMore ? events.slice(0, limit) : events;
+
+        return reply.send({
+            events: page.map((v) => ({
+                id: v.id,
+                seq: v.seq,
+                localId: v.localId,
+                content: v.content,
+                createdAt: v.createdAt.getTime()
+            })),
+            hasMore
+        });
+    });
+
+    // Sessions shared with the user by friends, read-only
+    app.get('/v1/sessions/shared', {
+        preHandler: app.authenticate,
+    }, async (request, reply) => {
+        const userId = request.userId;
+
+        const shares = await db.sessionShare.findMany({
+            where: { sharedWithId: userId },
+            orderBy: { session: { updatedAt: 'desc' } },
+            take: 150,
+            select: {
+                ownerId: true,
+                encryptedDataKey: true,
+                session: {
+                    select: {
+                        id: true,
+                        seq: true,
+                        createdAt: true,
+                        updatedAt: true,
+                        metadata: true,
+                        metadataVersion: true,
+                        agentState: true,
+                        agentStateVersion: true,
+                        active: true,
+                        lastActiveAt: true,
+                    }
+                }
+            }
+        });
+
+        return reply.send({
+            sessions: shares.map(({ ownerId, encryptedDataKey, session: v }) => ({
+                id: v.id,
+                seq: v.seq,
+                createdAt: v.createdAt.getTime(),
+                updatedAt: v.updatedAt.getTime(),
+                active: v.active,
+                activeAt: v.lastActiveAt.getTime(),
+                metadata: v.metadata,
+                metadataVersion: v.metadataVersion,
+                agentState: v.agentState,
+                agentStateVersion: v.agentStateVersion,
+                // Re-encrypted by the owner for this user's content key
+                dataEncryptionKey: Buffer.from(encryptedDataKey).toString('base64'),
+                sharedBy: ownerId,
+                lastMessage: null
+            }))
+        });
+    });
+
+    // List friends a session is shared with
+    app.get('/v1/sessions/:sessionId/shares', {
+        schema: {
+            params: z.object({
+                sessionId: z.string()
+            })
+        },
+        preHandler: app.authenticate
+    }, async (request, reply) => {
+        const userId = request.userId;
+        const { sessionId } = request.params;
+
+        const session = await db.session.findFirst({
+            where: { id: sessionId, accountId: userId },
+            select: {
+                shares: {
+                    orderBy: { createdAt: 'asc' },
+                    select: { sharedWithId: true, createdAt: true }
+                }
+            }
+        });
+        if (!session) {
+            return reply.code(404).send({ error: 'Session not found' });
+        }
+
+        return reply.send({
+            shares: session.shares.map((v) => ({
+                userId: v.sharedWithId,
+                createdAt: v.createdAt.getTime()
+            }))
+        });
+    });
+
+    // Share a session read-only with a friend
+    app.post('/v1/sessions/:sessionId/shares', {
+        schema: {
+            params: z.object({
+                sessionId: z.string()
+            }),
+            body: z.object({
+                userId: z.string(),
+                encryptedDataKey: z.string() // Base64, session data key encrypted for the friend's content key
+            })
+        },
+        preHandler: app.authenticate
+    }, async (request, reply) => {
+        const { sessionId } = request.params;
+        const { userId, encryptedDataKey } = request.body;
+
+        const result = await sessionShareCreate(
+            Context.create(request.userId),
+            sessionId,
+            userId,
+            new Uint8Array(Buffer.from(encryptedDataKey, 'base64'))
+        );
+        switch (result.result) {
+            case 'success':
+                return reply.send({ success: true });
+            case 'session-not-found':
+                return reply.code(404).send({ error: 'Session not found' });
+            case 'not-shareable':
+                return reply.code(400).send({ error: 'Session has no data encryption key' });
+            case 'not-friends':
+                return reply.code(403).send({ error: 'Sessions can only be shared with friends' });
+        }
+    });
+
+    // Revoke a friend's access to a session
+    app.delete('/v1/sessions/:sessionId/shares/:userId', {
+        schema: {
+            params: z.object({
+                sessionId: z.string(),
+                userId: z.string()
+            })
+        },
+        preHandler: app.authenticate
+    }, async (request, reply) => {
+        const { sessionId, userId } = request.params;
+
+        const revoked = await sessionShareRevoke(Context.create(request.userId), sessionId, userId);
+        if (!revoked) {
+            return reply.code(404).send({ error: 'Share not found' });
+        }
+
+        return reply.send({ success: true });
+    });
+
     // Delete session
     app.delete('/v1/sessions/:sessionId', {
         schema: {
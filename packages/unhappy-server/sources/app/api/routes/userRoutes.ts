@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { Fastify } from "../types";
 import { db } from "@/storage/db";
+import { isLite } from "@/storage/mode";
 import { RelationshipStatus } from "@prisma/client";
 import { friendAdd } from "@/app/social/friendAdd";
 import { Context } from "@/context";
@@ -79,7 +80,8 @@ export async function userRoutes(app: Fastify) {
             where: {
                 username: {
                     startsWith: query,
-                    mode: 'insensitive'
+                    // SQLite has no mode option, its LIKE is already case-insensitive
+                    ...(isLite ? {} : { mode: 'insensitive' as const })
                 }
             },
             include: {
@@ -179,5 +181,6 @@ const UserProfileSchema = z.object({
     }).nullable(),
     username: z.string(),
     bio: z.string().nullable(),
-    status: RelationshipStatusSchema
+    status: RelationshipStatusSchema,
+    contentPublicKey: z.string().nullable()
 });
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { Fastify } from "../types";
+import { Context } from "@/context";
+import { webhookEvents } from "@/app/webhooks/types";
+import { webhookCreate } from "@/app/webhooks/webhookCreate";
+import { webhookUpdate } from "@/app/webhooks/webhookUpdate";
+import { webhookDelete } from "@/app/webhooks/webhookDelete";
+import { webhookDeliveries, webhookList } from "@/app/webhooks/webhookList";
+import { webhookEmit } from "@/app/webhooks/webhookEmit";
+import { log } from "@/utils/log";
+
+const EventsSchema = z.array(z.enum(webhookEvents)).min(1);
+
+const WebhookSchema = z.object({
+    id: z.string(),
+    url: z.string(),
+    events: z.array(z.enum(webhookEvents)),
+    enabled: z.boolean(),
+    createdAt: z.number(),
+    updatedAt: z.number()
+});
+
+const DeliverySchema = z.object({
+    id: z.string(),
+    event: z.string(),
+    status: z.enum(['pending', 'delivered', 'failed']),
+    attempts: z.number(),
+    responseStatus: z.number().nullable(),
+    lastError: z.string().nullable(),
+    nextAttemptAt: z.number().nullable(),
+    createdAt: z.number(),
+    updatedAt: z.number()
+});
+
+export function webhookRoutes(app: Fastify) {
+    // GET /v1/webhooks - List webhooks, secrets are not included
+    app.get('/v1/webhooks', {
+        preHandler: app.authenticate,
+        schema: {
+            response: {
+                200: z.object({
+                    webhooks: z.array(WebhookSchema)
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const webhooks = await webhookList(Context.create(request.userId));
+        return reply.send({ webhooks });
+    });
+
+    // POST /v1/webhooks - Subscribe a URL, returns the signing secret once
+    app.post('/v1/webhooks', {
+        preHandler: app.authenticate,
+        schema: {
+            body: z.object({
+                url: z.string().url().max(2048),
+                events: EventsSchema
+            }),
+            response: {
+                200: z.object({
+                    webhook: z.object({
+                        id: z.string(),
+                        url: z.string(),
+                        events: z.array(z.enum(webhookEvents)),
+                        enabled: z.boolean(),
+                        secret: z.string(),
+                        createdAt: z.number()
+                    })
+                }),
+                400: z.object({
+                    error: z.string()
+                }),
+                409: z.object({
+                    error: z.literal('Webhook limit reached')
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const result = await webhookCreate(Context.create(request.userId), request.body.url, request.body.events);
+        switch (result.type) {
+            case 'success':
+                return reply.send({ webhook: result.webhook });
+            case 'invalid-url':
+                return reply.code(400).send({ error: result.error });
+            case 'limit-reached':
+                return reply.code(409).send({ error: 'Webhook limit reached' });
+        }
+    });
+
+    // POST /v1/webhooks/:id - Change URL, events or enable/disable
+    app.post('/v1/webhooks/:id', {
+        preHandler: app.authenticate,
+        schema: {
+            params: z.object({
+                id: z.string()
+            }),
+            body: z.object({
+                url: z.string().url().max(2048).optional(),
+                events: EventsSchema.optional(),
+                enabled: z.boolean().optional()
+            }),
+            response: {
+                200: z.object({
+                    success: z.literal(true)
+                }),
+                400: z.object({
+                    error: z.string()
+                }),
+                404: z.object({
+                    error: z.literal('Webhook not found')
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const result = await webhookUpdate(Context.create(request.userId), request.params.id, request.body);
+        switch (result.type) {
+            case 'success':
+                return reply.send({ success: true });
+            case 'invalid-url':
+                return reply.code(400).send({ error: result.error });
+            case 'not-found':
+                return reply.code(404).send({ error: 'Webhook not found' });
+        }
+    });
+
+    // DELETE /v1/webhooks/:id - Remove the webhook and its delivery log
+    app.delete('/v1/webhooks/:id', {
+        preHandler: app.authenticate,
+        schema: {
+            params: z.object({
+                id: z.string()
+            }),
+            response: {
+                200: z.object({
+                    success: z.literal(true)
+                }),
+                404: z.object({
+                    error: z.literal('Webhook not found')
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const deleted = await webhookDelete(Context.create(request.userId), request.params.id);
+        if (!deleted) {
+            return reply.code(404).send({ error: 'Webhook not found' });
+        }
+        return reply.send({ success: true });
+    });
+
+    // GET /v1/webhooks/:id/deliveries - Delivery log, newest first
+    app.get('/v1/webhooks/:id/deliveries', {
+        preHandler: app.authenticate,
+        schema: {
+            params: z.object({
+                id: z.string()
+            }),
+            querystring: z.object({
+                limit: z.coerce.number().int().min(1).max(200).default(50)
+            }),
+            response: {
+                200: z.object({
+                    deliveries: z.array(DeliverySchema)
+                }),
+                404: z.object({
+                    error: z.literal('Webhook not found')
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const deliveries = await webhookDeliveries(Context.create(request.userId), request.params.id, request.query.limit);
+        if (!deliveries) {
+            return reply.code(404).send({ error: 'Webhook not found' });
+        }
+        return reply.send({ deliveries });
+    });
+
+    // POST /v1/webhooks/:id/test - Queue a `ping` delivery
+    app.post('/v1/webhooks/:id/test', {
+        preHandler: app.authenticate,
+        schema: {
+            params: z.object({
+                id: z.string()
+            }),
+            response: {
+                200: z.object({
+                    success: z.literal(true)
+                }),
+                404: z.object({
+                    error: z.literal('Webhook not found')
+                })
+            }
+        }
+    }, async (request, reply) => {
+        const queued = await webhookEmit(request.userId, 'ping', {}, request.params.id);
+        if (queued === 0) {
+            log({ module: 'api', userId: request.userId }, `Webhook test for missing or disabled webhook ${request.params.id}`);
+            return reply.code(404).send({ error: 'Webhook not found' });
+        }
+        return reply.send({ success: true });
+    });
+}
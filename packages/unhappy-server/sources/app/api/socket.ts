@@ -1,9 +1,12 @@
 import { onShutdown } from "@/utils/shutdown";
 import { Fastify } from "./types";
 import { buildMachineActivityEphemeral, ClientConnection, eventRouter } from "@/app/events/eventRouter";
+import { webhookMachineDisconnected } from "@/app/webhooks/webhookPresence";
+import { machineHealthForget } from "@/app/monitoring/machineHealthRecord";
 import { Server, Socket } from "socket.io";
 import { log } from "@/utils/log";
 import { auth } from "@/app/auth/auth";
+import { deviceSeen } from "@/app/devices/deviceSeen";
 import { decrementWebSocketConnection, incrementWebSocketConnection, websocketEventsCounter } from "../monitoring/metrics2";
 import { usageHandler } from "./socket/usageHandler";
 import { rpcHandler } from "./socket/rpcHandler";
@@ -71,6 +74,12 @@ export function startSocket(app: Fastify) {
         }
 
         const userId = verified.userId;
+        const deviceId = verified.extras?.device as string | undefined;
+        if (deviceId) {
+            // Lets revoking the device close its sockets
+            socket.data.deviceId = deviceId;
+            deviceSeen(deviceId);
+        }
         log({ module: 'websocket' }, `Token verified: ${userId}, clientType: ${clientType || 'user-scoped'}, sessionId: ${sessionId || 'none'}, machineId: ${machineId || 'none'}, socketId: ${socket.id}`);
 
         // Store connection based on type
@@ -128,6 +137,8 @@ export function startSocket(app: Fastify) {
                     payload: machineActivity,
                     recipientFilter: { type: 'user-scoped-only' }
                 });
+                webhookMachineDisconnected(userId, connection.machineId);
+                machineHealthForget(userId, connection.machineId);
             }
         });
 
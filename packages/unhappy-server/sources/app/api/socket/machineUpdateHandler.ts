@@ -6,6 +6,8 @@ import { db } from "@/storage/db";
 import { Socket } from "socket.io";
 import { allocateUserSeq } from "@/storage/seq";
 import { randomKeyNaked } from "@/utils/randomKeyNaked";
+import { MachineHealthReportSchema } from "@/app/monitoring/machineHealth";
+import { machineHealthRecord } from "@/app/monitoring/machineHealthRecord";
 
 export function machineUpdateHandler(userId: string, socket: Socket) {
     socket.on('machine-alive', async (data: {
@@ -50,6 +52,27 @@ export function machineUpdateHandler(userId: string, socket: Socket) {
         }
     });
 
+    // Daemon health counters, no session content
+    socket.on('machine-health', async (data: unknown) => {
+        try {
+            websocketEventsCounter.inc({ event_type: 'machine-health' });
+
+            const parsed = MachineHealthReportSchema.safeParse(data);
+            if (!parsed.success) {
+                return;
+            }
+
+            const isValid = await activityCache.isMachineValid(parsed.data.machineId, userId);
+            if (!isValid) {
+                return;
+            }
+
+            await machineHealthRecord(userId, parsed.data);
+        } catch (error) {
+            log({ module: 'websocket', level: 'error' }, `Error in machine-health: ${error}`);
+        }
+    });
+
     // Machine metadata update with optimistic concurrency control
     socket.on('machine-update-metadata', async (data: any, callback: (response: any) => void) => {
         try {
@@ -1,8 +1,28 @@
 import { eventRouter } from "@/app/events/eventRouter";
 import { log } from "@/utils/log";
+import { randomKeyNaked } from "@/utils/randomKeyNaked";
 import { Socket } from "socket.io";
 
+/** Upper bound for caller supplied deadlines */
+const MAX_RPC_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Time the handler gets to answer after its deadline passed */
+const RPC_DEADLINE_GRACE_MS = 5000;
+
+type InFlightCall = {
+    caller: Socket;
+    callerCallId: string;
+    target: Socket;
+};
+
+// Calls that can be cancelled or report progress, by the id the target sees.
+// The relay picks that id so a caller can't address somebody else's call.
+const inFlightCalls = new Map<string, InFlightCall>();
+
 export function rpcHandler(userId: string, socket: Socket, rpcListeners: Map<string, Socket>) {
+
+    // Calls made by this socket: caller's callId -> relay id
+    const ownCalls = new Map<string, string>();
     
     // RPC register - Register this socket as a listener for an RPC method
     socket.on('rpc-register', async (data: any) => {
@@ -65,8 +85,9 @@ export function rpcHandler(userId: string, socket: Socket, rpcListeners: Map<str
 
     // RPC call - Call an RPC method on another socket of the same user
     socket.on('rpc-call', async (data: any, callback: (response: any) => void) => {
+        let relayCallId: string | null = null;
         try {
-            const { method, params } = data;
+            const { method, params, callId, timeoutMs: requestedTimeoutMs } = data;
 
             if (!method || typeof method !== 'string') {
                 if (callback) {
@@ -106,16 +127,30 @@ export function rpcHandler(userId: string, socket: Socket, rpcListeners: Map<str
             const startTime = Date.now();
             // log({ module: 'websocket-rpc' }, `RPC call initiated: ${socket.id} -> ${method} (target: ${targetSocket.id})`);
 
+            // Callers that pass a callId can cancel the call and receive `rpc-progress`
+            if (typeof callId === 'string' && callId.length > 0 && callId.length <= 64 && !ownCalls.has(callId)) {
+                relayCallId = randomKeyNaked(16);
+                ownCalls.set(callId, relayCallId);
+                inFlightCalls.set(relayCallId, { caller: socket, callerCallId: callId, target: targetSocket });
+            }
+
             // Forward the RPC request to the target socket using emitWithAck
             try {
-                // Default 30s is too short for some handlers (notably `bash`, which can run long commands and/or
-                // call external CLIs). We can't inspect encrypted params to derive timeouts, so use a method-based
-                // heuristic with a generous upper bound.
-                const timeoutMs = method.endsWith(':bash') ? 10 * 60 * 1000 : 30000;
+                // A caller deadline is passed on so the handler stops by itself. Without one, 30s is too short for
+                // some handlers (notably `bash`, which can run long commands and/or call external CLIs). We can't
+                // inspect encrypted params to derive timeouts, so use a method-based heuristic with a generous upper bound.
+                const deadlineMs = typeof requestedTimeoutMs === 'number' && requestedTimeoutMs > 0
+                    ? Math.min(requestedTimeoutMs, MAX_RPC_TIMEOUT_MS)
+                    : null;
+                const timeoutMs = deadlineMs !== null
+                    ? deadlineMs + RPC_DEADLINE_GRACE_MS
+                    : method.endsWith(':bash') ? 10 * 60 * 1000 : 30000;
 
                 const response = await targetSocket.timeout(timeoutMs).emitWithAck('rpc-request', {
                     method,
-                    params
+                    params,
+                    ...(relayCallId ? { callId: relayCallId } : {}),
+                    ...(deadlineMs !== null ? { timeoutMs: deadlineMs } : {})
                 });
 
                 const duration = Date.now() - startTime;
@@ -134,6 +169,11 @@ export function rpcHandler(userId: string, socket: Socket, rpcListeners: Map<str
                 const errorMsg = error instanceof Error ? error.message : 'RPC call failed';
                 // log({ module: 'websocket-rpc' }, `RPC call failed: ${method} - ${errorMsg} (${duration}ms)`);
 
+                // Nobody waits for the answer anymore, let the handler stop
+                if (relayCallId && targetSocket.connected) {
+                    targetSocket.emit('rpc-cancel', { callId: relayCallId });
+                }
+
                 // Timeout or error occurred
                 if (callback) {
                     callback({
@@ -150,11 +190,45 @@ export function rpcHandler(userId: string, socket: Socket, rpcListeners: Map<str
                     error: 'Internal error'
                 });
             }
+        } finally {
+            if (relayCallId) {
+                const call = inFlightCalls.get(relayCallId);
+                inFlightCalls.delete(relayCallId);
+                if (call) {
+                    ownCalls.delete(call.callerCallId);
+                }
+            }
+        }
+    });
+
+    // RPC cancel - The caller gave up, the target still answers the original call
+    socket.on('rpc-cancel', (data: any) => {
+        const relayCallId = data && typeof data.callId === 'string' ? ownCalls.get(data.callId) : undefined;
+        const call = relayCallId ? inFlightCalls.get(relayCallId) : undefined;
+        if (relayCallId && call && call.target.connected) {
+            call.target.emit('rpc-cancel', { callId: relayCallId });
+        }
+    });
+
+    // RPC progress - Partial result from a running handler, forwarded to its caller only
+    socket.on('rpc-progress', (data: any) => {
+        const call = data && typeof data.callId === 'string' ? inFlightCalls.get(data.callId) : undefined;
+        if (!call || call.target !== socket || typeof data.data !== 'string') {
+            return;
         }
+        call.caller.emit('rpc-progress', { callId: call.callerCallId, data: data.data });
     });
 
     socket.on('disconnect', () => {
 
+        // Stop work nobody can receive anymore
+        for (const relayCallId of ownCalls.values()) {
+            const call = inFlightCalls.get(relayCallId);
+            if (call && call.target.connected) {
+                call.target.emit('rpc-cancel', { callId: relayCallId });
+            }
+        }
+
         const methodsToRemove: string[] = [];
         for (const [method, registeredSocket] of rpcListeners.entries()) {
             if (registeredSocket === socket) {
@@ -1,8 +1,11 @@
-import { sessionAliveEventsCounter, websocketEventsCounter } from "@/app/monitoring/metrics2";
+import { observeSessionMessages, sessionAliveEventsCounter, websocketEventsCounter } from "@/app/monitoring/metrics2";
 import { activityCache } from "@/app/presence/sessionCache";
-import { buildNewMessageUpdate, buildSessionActivityEphemeral, buildUpdateSessionUpdate, ClientConnection, eventRouter } from "@/app/events/eventRouter";
+import { buildNewMessageUpdate, buildSessionActivityEphemeral, buildTerminalOutputEphemeral, buildUpdateSessionUpdate, ClientConnection, eventRouter } from "@/app/events/eventRouter";
 import { db } from "@/storage/db";
 import { allocateSessionSeq, allocateUserSeq } from "@/storage/seq";
+import { sessionShareFanout } from "@/app/session/sessionShareFanout";
+import { webhookEmit } from "@/app/webhooks/webhookEmit";
+import { webhookSessionAlive, webhookSessionEnded } from "@/app/webhooks/webhookPresence";
 import { AsyncLock } from "@/utils/lock";
 import { log } from "@/utils/log";
 import { randomKeyNaked } from "@/utils/randomKeyNaked";
@@ -28,6 +31,10 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
             if (!session) {
                 return;
             }
+            if (session.readOnly) {
+                callback({ result: 'error' });
+                return;
+            }
 
             // Check version
             if (session.metadataVersion !== expectedVersion) {
@@ -60,6 +67,7 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                 payload: updatePayload,
                 recipientFilter: { type: 'all-interested-in-session', sessionId: sid }
             });
+            await sessionShareFanout(sid, (seq) => buildUpdateSessionUpdate(sid, seq, randomKeyNaked(12), metadataUpdate));
 
             // Send success response with new version via callback
             callback({ result: 'success', version: expectedVersion + 1, metadata: metadata });
@@ -90,7 +98,7 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                     accountId: userId
                 }
             });
-            if (!session) {
+            if (!session || session.readOnly) {
                 callback({ result: 'error' });
                 return null;
             }
@@ -126,6 +134,7 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                 payload: updatePayload,
                 recipientFilter: { type: 'all-interested-in-session', sessionId: sid }
             });
+            await sessionShareFanout(sid, (seq) => buildUpdateSessionUpdate(sid, seq, randomKeyNaked(12), undefined, agentStateUpdate));
 
             // Send success response with new version via callback
             callback({ result: 'success', version: expectedVersion + 1, agentState: agentState });
@@ -177,13 +186,15 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                 payload: sessionActivity,
                 recipientFilter: { type: 'user-scoped-only' }
             });
+            webhookSessionAlive(userId, sid, thinking || false);
         } catch (error) {
             log({ module: 'websocket', level: 'error' }, `Error in session-alive: ${error}`);
         }
     });
 
     const receiveMessageLock = new AsyncLock();
-    socket.on('message', async (data: any) => {
+    // The optional ack lets clients with an outbox drop a message once it is stored
+    socket.on('message', async (data: any, callback?: (answer: { ok: boolean }) => void) => {
         await receiveMessageLock.inLock(async () => {
             try {
                 websocketEventsCounter.inc({ event_type: 'message' });
@@ -195,7 +206,8 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                 const session = await db.session.findUnique({
                     where: { id: sid, accountId: userId }
                 });
-                if (!session) {
+                if (!session || session.readOnly) {
+                    callback?.({ ok: false });
                     return;
                 }
                 let useLocalId = typeof localId === 'string' ? localId : null;
@@ -216,6 +228,7 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                         where: { sessionId: sid, localId: useLocalId }
                     });
                     if (existing) {
+                        callback?.({ ok: true });
                         return { msg: existing, update: null };
                     }
                 }
@@ -229,6 +242,7 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                         localId: useLocalId
                     }
                 });
+                callback?.({ ok: true });
 
                 // Emit new message update to relevant clients
                 const updatePayload = buildNewMessageUpdate(msg, sid, updSeq, randomKeyNaked(12));
@@ -238,6 +252,7 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                     recipientFilter: { type: 'all-interested-in-session', sessionId: sid },
                     skipSenderConnection: connection
                 });
+                await sessionShareFanout(sid, (seq) => buildNewMessageUpdate(msg, sid, seq, randomKeyNaked(12)));
             } catch (error) {
                 log({ module: 'websocket', level: 'error' }, `Error in message handler: ${error}`);
             }
@@ -282,9 +297,60 @@ export function sessionUpdateHandler(userId: string, socket: Socket, connection:
                 payload: sessionActivity,
                 recipientFilter: { type: 'user-scoped-only' }
             });
+            webhookSessionEnded(userId, sid, 'ended');
+            await observeSessionMessages(sid);
         } catch (error) {
             log({ module: 'websocket', level: 'error' }, `Error in session-end: ${error}`);
         }
     });
 
+    // The agent asked for a permission. Agent state is encrypted, so the CLI
+    // reports this separately for webhooks, without any detail.
+    socket.on('session-permission-requested', async (data: {
+        sid: string;
+    }) => {
+        try {
+            websocketEventsCounter.inc({ event_type: 'session-permission-requested' });
+            if (!data || typeof data.sid !== 'string') {
+                return;
+            }
+            const isValid = await activityCache.isSessionValid(data.sid, userId);
+            if (!isValid) {
+                return;
+            }
+            await webhookEmit(userId, 'session.permission-requested', { sessionId: data.sid });
+        } catch (error) {
+            log({ module: 'websocket', level: 'error' }, `Error in session-permission-requested: ${error}`);
+        }
+    });
+
+    socket.on('terminal-output', async (data: {
+        sid: string;
+        terminalId: string;
+        frame: string;
+    }) => {
+        try {
+            websocketEventsCounter.inc({ event_type: 'terminal-output' });
+
+            // Frames are encrypted by the CLI, we only relay them
+            if (!data || typeof data.sid !== 'string' || typeof data.terminalId !== 'string' || typeof data.frame !== 'string') {
+                return;
+            }
+
+            const isValid = await activityCache.isSessionValid(data.sid, userId);
+            if (!isValid) {
+                return;
+            }
+
+            // Terminals are owner-only, sharees never receive the stream
+            eventRouter.emitEphemeral({
+                userId,
+                payload: buildTerminalOutputEphemeral(data.sid, data.terminalId, data.frame),
+                recipientFilter: { type: 'user-scoped-only' }
+            });
+        } catch (error) {
+            log({ module: 'websocket', level: 'error' }, `Error in terminal-output: ${error}`);
+        }
+    });
+
 }
\ No newline at end of file
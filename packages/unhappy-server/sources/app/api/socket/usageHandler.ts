@@ -9,7 +9,7 @@ export function usageHandler(userId: string, socket: Socket) {
     socket.on('usage-report', async (data: any, callback?: (response: any) => void) => {
         await receiveUsageLock.inLock(async () => {
             try {
-                const { key, sessionId, tokens, cost } = data;
+                const { key, sessionId, tokens, cost, model, agent } = data;
 
                 // Validate required fields
                 if (!key || typeof key !== 'string') {
@@ -42,6 +42,15 @@ export function usageHandler(userId: string, socket: Socket) {
                     return;
                 }
 
+                // Validate optional tags
+                if ((model !== undefined && (typeof model !== 'string' || model.length > 200))
+                    || (agent !== undefined && (typeof agent !== 'string' || agent.length > 50))) {
+                    if (callback) {
+                        callback({ success: false, error: 'Invalid model or agent' });
+                    }
+                    return;
+                }
+
                 try {
                     // If sessionId provided, verify it belongs to the user
                     if (sessionId) {
@@ -63,7 +72,9 @@ export function usageHandler(userId: string, socket: Socket) {
                     // Prepare usage data
                     const usageData: PrismaJson.UsageReportData = {
                         tokens,
-                        cost
+                        cost,
+                        ...(model ? { model } : {}),
+                        ...(agent ? { agent } : {})
                     };
 
                     // Upsert the usage report
@@ -53,6 +53,7 @@ export type Fastify = FastifyInstance<
 declare module 'fastify' {
     interface FastifyRequest {
         userId: string;
+        deviceId?: string; // Set for tokens issued to a registered device
         startTime?: number;
     }
     interface FastifyInstance {
@@ -1,6 +1,7 @@
 import { Fastify } from "../types";
 import { log } from "@/utils/log";
 import { auth } from "@/app/auth/auth";
+import { deviceSeen } from "@/app/devices/deviceSeen";
 
 export function enableAuthentication(app: Fastify) {
     app.decorate('authenticate', async function (request: any, reply: any) {
@@ -21,6 +22,10 @@ export function enableAuthentication(app: Fastify) {
 
             log({ module: 'auth-decorator' }, `Auth success - user: ${verified.userId}`);
             request.userId = verified.userId;
+            request.deviceId = verified.extras?.device;
+            if (request.deviceId) {
+                deviceSeen(request.deviceId);
+            }
         } catch (error) {
             return reply.code(401).send({ error: 'Authentication failed' });
         }
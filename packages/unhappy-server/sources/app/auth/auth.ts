@@ -1,5 +1,16 @@
 import * as privacyKit from "privacy-kit";
 import { log } from "@/utils/log";
+import { db } from "@/storage/db";
+
+/**
+ * Extras of tokens issued to a registered device. Tokens without a device
+ * predate device management and can only be invalidated by key rotation.
+ */
+export interface DeviceTokenExtras {
+    device?: string;
+    keyVersion?: number;
+    [key: string]: any;
+}
 
 interface TokenCacheEntry {
     userId: string;
@@ -98,6 +109,12 @@ class AuthModule {
             
             const userId = verified.user as string;
             const extras = verified.extras;
+
+            // Tokens never expire, revoked devices and rotated keys are checked here
+            if (!(await this.isTokenCurrent(userId, extras))) {
+                log({ module: 'auth' }, `Rejected revoked token for user: ${userId}`);
+                return null;
+            }
             
             // Cache the result permanently
             this.tokenCache.set(token, {
@@ -129,6 +146,36 @@ class AuthModule {
     invalidateToken(token: string): void {
         this.tokenCache.delete(token);
     }
+
+    invalidateDeviceTokens(deviceId: string): void {
+        for (const [token, entry] of this.tokenCache.entries()) {
+            if (entry.extras?.device === deviceId) {
+                this.tokenCache.delete(token);
+            }
+        }
+
+        log({ module: 'auth' }, `Invalidated tokens for device: ${deviceId}`);
+    }
+
+    private async isTokenCurrent(userId: string, extras: DeviceTokenExtras | undefined): Promise<boolean> {
+        const account = await db.account.findUnique({
+            where: { id: userId },
+            select: { keyVersion: true }
+        });
+        if (!account || (extras?.keyVersion ?? 0) !== account.keyVersion) {
+            return false;
+        }
+        if (extras?.device) {
+            const device = await db.accountDevice.findUnique({
+                where: { id: extras.device },
+                select: { accountId: true, revokedAt: true }
+            });
+            if (!device || device.accountId !== userId || device.revokedAt) {
+                return false;
+            }
+        }
+        return true;
+    }
     
     getCacheStats(): { size: number; oldestEntry: number | null } {
         if (this.tokenCache.size === 0) {
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+type DeviceRow = { id: string, name?: string | null, revokedAt: Date | null };
+
+const db = vi.hoisted(() => ({
+    account: {
+        findUniqueOrThrow: vi.fn<(args: unknown) => Promise<{ keyVersion: number }>>()
+    },
+    accountDevice: {
+        findFirst: vi.fn<(args: unknown) => Promise<DeviceRow | null>>(),
+        findUnique: vi.fn<(args: unknown) => Promise<DeviceRow | null>>(),
+        update: vi.fn<(args: unknown) => Promise<DeviceRow>>(),
+        create: vi.fn<(args: unknown) => Promise<DeviceRow>>()
+    }
+}));
+const auth = vi.hoisted(() => ({
+    createToken: vi.fn<(userId: string, extras?: unknown) => Promise<string>>()
+}));
+
+vi.mock("@/storage/db", () => ({ db }));
+vi.mock("@/app/auth/auth", () => ({ auth }));
+
+// Import after mocking
+import { deviceAuthorize } from "./deviceAuthorize";
+
+describe("deviceAuthorize", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        db.account.findUniqueOrThrow.mockResolvedValue({ keyVersion: 2 });
+        auth.createToken.mockResolvedValue("token-1");
+    });
+
+    it("registers a new device and binds the token to it and the key version", async () => {
+        db.accountDevice.findUnique.mockResolvedValue(null);
+        db.accountDevice.create.mockResolvedValue({ id: 'd1', revokedAt: null });
+
+        const result = await deviceAuthorize('user-1', { kind: 'cli', publicKey: 'aa', name: 'laptop' }, { session: 'req-1' });
+
+        expect(result).toEqual({ token: 'token-1', deviceId: 'd1' });
+        expect(db.accountDevice.create).toHaveBeenCalledWith({
+            data: { accountId: 'user-1', kind: 'cli', publicKey: 'aa', name: 'laptop' }
+        });
+        expect(auth.createToken).toHaveBeenCalledWith('user-1', { session: 'req-1', device: 'd1', keyVersion: 2 });
+    });
+
+    it("moves the caller's device to a new sub-key instead of adding one", async () => {
+        db.accountDevice.findFirst.mockResolvedValue({ id: 'd2', name: 'Phone', revokedAt: null });
+        db.accountDevice.update.mockResolvedValue({ id: 'd2', name: 'Phone', revokedAt: null });
+
+        const result = await deviceAuthorize('user-1', { kind: 'app', publicKey: 'bb' }, undefined, 'd2');
+
+        expect(result?.deviceId).toBe('d2');
+        expect(db.accountDevice.update).toHaveBeenCalledWith({
+            where: { id: 'd2' },
+            data: { publicKey: 'bb', name: 'Phone', lastSeenAt: expect.any(Date) }
+        });
+        expect(db.accountDevice.create).not.toHaveBeenCalled();
+    });
+
+    it("issues nothing to a revoked device", async () => {
+        db.accountDevice.findUnique.mockResolvedValue({ id: 'd3', revokedAt: new Date() });
+
+        expect(await deviceAuthorize('user-1', { kind: 'cli', publicKey: 'cc' })).toBeNull();
+        expect(db.accountDevice.update).not.toHaveBeenCalled();
+        expect(auth.createToken).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,52 @@
+import { db } from "@/storage/db";
+import { auth, DeviceTokenExtras } from "@/app/auth/auth";
+import { log } from "@/utils/log";
+
+export type DeviceKind = 'app' | 'cli';
+
+export interface DeviceInfo {
+    kind: DeviceKind;
+    publicKey: string; // Hex
+    name?: string | null;
+}
+
+/**
+ * Record the device a token is issued to and issue it. A device that was
+ * revoked stays revoked, null is returned instead of a token.
+ *
+ * @param currentDeviceId - Device the caller is already signed in as, it is
+ * moved to the new sub-key instead of registering another device
+ */
+export async function deviceAuthorize(
+    accountId: string,
+    info: DeviceInfo,
+    extras?: Record<string, unknown>,
+    currentDeviceId?: string
+): Promise<{ token: string, deviceId: string } | null> {
+    const account = await db.account.findUniqueOrThrow({
+        where: { id: accountId },
+        select: { keyVersion: true }
+    });
+
+    let device = currentDeviceId
+        ? await db.accountDevice.findFirst({ where: { id: currentDeviceId, accountId } })
+        : await db.accountDevice.findUnique({ where: { accountId_publicKey: { accountId, publicKey: info.publicKey } } });
+    if (device?.revokedAt) {
+        log({ module: 'devices' }, `Refused token for revoked device ${device.id}`);
+        return null;
+    }
+    if (device) {
+        device = await db.accountDevice.update({
+            where: { id: device.id },
+            data: { publicKey: info.publicKey, name: info.name ?? device.name, lastSeenAt: new Date() }
+        });
+    } else {
+        device = await db.accountDevice.create({
+            data: { accountId, kind: info.kind, publicKey: info.publicKey, name: info.name ?? null }
+        });
+    }
+
+    const tokenExtras: DeviceTokenExtras = { ...extras, device: device.id, keyVersion: account.keyVersion };
+    const token = await auth.createToken(accountId, tokenExtras);
+    return { token, deviceId: device.id };
+}
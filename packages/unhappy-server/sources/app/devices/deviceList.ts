@@ -0,0 +1,21 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+import { DeviceKind } from "./deviceAuthorize";
+
+/**
+ * Devices that can still sign in, most recently seen first
+ */
+export async function deviceList(ctx: Context, currentDeviceId?: string) {
+    const devices = await db.accountDevice.findMany({
+        where: { accountId: ctx.uid, revokedAt: null },
+        orderBy: { lastSeenAt: 'desc' }
+    });
+    return devices.map((device) => ({
+        id: device.id,
+        kind: device.kind as DeviceKind,
+        name: device.name,
+        current: device.id === currentDeviceId,
+        lastSeenAt: device.lastSeenAt.getTime(),
+        createdAt: device.createdAt.getTime()
+    }));
+}
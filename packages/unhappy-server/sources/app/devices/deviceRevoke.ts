@@ -0,0 +1,29 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+import { auth } from "@/app/auth/auth";
+import { eventRouter } from "@/app/events/eventRouter";
+import { log } from "@/utils/log";
+
+/**
+ * Revoke a device: its tokens stop working and its sockets are closed.
+ * A device that still holds the secret key can sign in again, only key
+ * rotation locks it out for good.
+ */
+export async function deviceRevoke(ctx: Context, id: string): Promise<boolean> {
+    const { count } = await db.accountDevice.updateMany({
+        where: { id, accountId: ctx.uid, revokedAt: null },
+        data: { revokedAt: new Date() }
+    });
+    if (count === 0) {
+        return false;
+    }
+
+    auth.invalidateDeviceTokens(id);
+    for (const connection of [...(eventRouter.getConnections(ctx.uid) ?? [])]) {
+        if (connection.socket.data.deviceId === id) {
+            connection.socket.disconnect(true);
+        }
+    }
+    log({ module: 'devices' }, `Revoked device ${id} of user ${ctx.uid}`);
+    return true;
+}
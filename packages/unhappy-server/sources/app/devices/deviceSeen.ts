@@ -0,0 +1,25 @@
+import { db } from "@/storage/db";
+import { log } from "@/utils/log";
+
+// Last-seen only needs minute precision, don't write on every request
+const SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+const lastWrites = new Map<string, number>();
+
+/**
+ * Record that a device used its token, at most every few minutes
+ */
+export function deviceSeen(deviceId: string) {
+    const now = Date.now();
+    const last = lastWrites.get(deviceId);
+    if (last && now - last < SEEN_INTERVAL_MS) {
+        return;
+    }
+    lastWrites.set(deviceId, now);
+    db.accountDevice.update({
+        where: { id: deviceId },
+        data: { lastSeenAt: new Date(now) }
+    }).catch((error) => {
+        log({ module: 'devices', level: 'warn' }, `Failed to update last seen of device ${deviceId}: ${error}`);
+    });
+}
@@ -0,0 +1,133 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+import { auth } from "@/app/auth/auth";
+import { eventRouter } from "@/app/events/eventRouter";
+import { log } from "@/utils/log";
+
+type WrappedKey = { id: string, key: Uint8Array };
+
+export interface KeyRotation {
+    keyVersion: number; // Version the keys were read at
+    publicKey: string; // Hex, the new account signing key
+    contentPublicKey: Uint8Array;
+    settings: string | null;
+    settingsVersion: number;
+    sessions: WrappedKey[];
+    machines: WrappedKey[];
+    artifacts: WrappedKey[];
+    shares: WrappedKey[];
+    kv: { key: string, value: Uint8Array, version: number }[];
+}
+
+export type KeyRotateResult =
+    | { type: 'success', token: string, keyVersion: number }
+    | { type: 'keys-changed' }
+    | { type: 'legacy-encryption' };
+
+class KeysChangedError extends Error { }
+
+function sameIds(current: { id: string }[], rotated: { id: string }[]): boolean {
+    const ids = new Set(rotated.map((r) => r.id));
+    return ids.size === current.length && current.every((c) => ids.has(c.id));
+}
+
+/**
+ * Replace the account key: every wrapped data key, the settings and the
+ * key-value entries are swapped for the ones the client re-encrypted, all or
+ * nothing. Tokens of the old key stop working and every other device is
+ * revoked, the caller gets a new token.
+ *
+ * The client must cover everything `keyRotationGet` returned, anything that
+ * changed since is reported as `keys-changed` so it can read and retry.
+ */
+export async function keyRotate(ctx: Context, deviceId: string | undefined, rotation: KeyRotation): Promise<KeyRotateResult> {
+    let keyVersion: number;
+    try {
+        keyVersion = await db.$transaction(async (tx) => {
+            const account = await tx.account.findUniqueOrThrow({
+                where: { id: ctx.uid },
+                select: { keyVersion: true, settingsVersion: true }
+            });
+            if (account.keyVersion !== rotation.keyVersion || account.settingsVersion !== rotation.settingsVersion) {
+                throw new KeysChangedError();
+            }
+
+            // Legacy records are encrypted with the secret itself, there is no key to re-wrap
+            const legacy = await tx.session.count({ where: { accountId: ctx.uid, dataEncryptionKey: null } })
+                + await tx.machine.count({ where: { accountId: ctx.uid, dataEncryptionKey: null } });
+            if (legacy > 0) {
+                return -1;
+            }
+
+            const [sessions, machines, artifacts, shares, kv] = await Promise.all([
+                tx.session.findMany({ where: { accountId: ctx.uid }, select: { id: true } }),
+                tx.machine.findMany({ where: { accountId: ctx.uid }, select: { id: true } }),
+                tx.artifact.findMany({ where: { accountId: ctx.uid }, select: { id: true } }),
+                tx.sessionShare.findMany({ where: { sharedWithId: ctx.uid }, select: { id: true } }),
+                tx.userKVStore.findMany({ where: { accountId: ctx.uid, value: { not: null } }, select: { key: true, version: true } })
+            ]);
+            const kvVersions = new Map(rotation.kv.map((entry) => [entry.key, entry.version]));
+            if (!sameIds(sessions, rotation.sessions)
+                || !sameIds(machines, rotation.machines)
+                || !sameIds(artifacts, rotation.artifacts)
+                || !sameIds(shares, rotation.shares)
+                || kv.length !== kvVersions.size
+                || kv.some((entry) => kvVersions.get(entry.key) !== entry.version)) {
+                throw new KeysChangedError();
+            }
+
+            for (const session of rotation.sessions) {
+                await tx.session.update({ where: { id: session.id }, data: { dataEncryptionKey: new Uint8Array(session.key) } });
+            }
+            for (const machine of rotation.machines) {
+                await tx.machine.update({ where: { accountId_id: { accountId: ctx.uid, id: machine.id } }, data: { dataEncryptionKey: new Uint8Array(machine.key) } });
+            }
+            for (const artifact of rotation.artifacts) {
+                await tx.artifact.update({ where: { id: artifact.id }, data: { dataEncryptionKey: new Uint8Array(artifact.key) } });
+            }
+            for (const share of rotation.shares) {
+                await tx.sessionShare.update({ where: { id: share.id }, data: { encryptedDataKey: new Uint8Array(share.key) } });
+            }
+            for (const entry of rotation.kv) {
+                await tx.userKVStore.update({
+                    where: { accountId_key: { accountId: ctx.uid, key: entry.key } },
+                    data: { value: new Uint8Array(entry.value), version: entry.version + 1 }
+                });
+            }
+
+            const updated = await tx.account.update({
+                where: { id: ctx.uid },
+                data: {
+                    publicKey: rotation.publicKey,
+                    contentPublicKey: new Uint8Array(rotation.contentPublicKey),
+                    settings: rotation.settings,
+                    settingsVersion: rotation.settingsVersion + 1,
+                    keyVersion: { increment: 1 }
+                },
+                select: { keyVersion: true }
+            });
+            await tx.accountDevice.updateMany({
+                where: { accountId: ctx.uid, revokedAt: null, id: { not: deviceId } },
+                data: { revokedAt: new Date() }
+            });
+            return updated.keyVersion;
+        }, { isolationLevel: 'Serializable', timeout: 60000 });
+    } catch (error) {
+        if (error instanceof KeysChangedError) {
+            return { type: 'keys-changed' };
+        }
+        throw error;
+    }
+    if (keyVersion < 0) {
+        return { type: 'legacy-encryption' };
+    }
+
+    // Everything signed in with the old key has to sign in again
+    auth.invalidateUserTokens(ctx.uid);
+    for (const connection of [...(eventRouter.getConnections(ctx.uid) ?? [])]) {
+        connection.socket.disconnect(true);
+    }
+    const token = await auth.createToken(ctx.uid, deviceId ? { device: deviceId, keyVersion } : { keyVersion });
+    log({ module: 'devices' }, `Rotated account key of user ${ctx.uid} to version ${keyVersion}`);
+    return { type: 'success', token, keyVersion };
+}
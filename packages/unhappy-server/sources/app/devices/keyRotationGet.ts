@@ -0,0 +1,32 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+
+/**
+ * Everything encrypted for the account key, what a key rotation has to
+ * re-encrypt. Data keys are wrapped for the content public key, settings and
+ * key-value entries are encrypted with the secret itself.
+ */
+export async function keyRotationGet(ctx: Context) {
+    const account = await db.account.findUniqueOrThrow({
+        where: { id: ctx.uid },
+        select: { keyVersion: true, settings: true, settingsVersion: true }
+    });
+    const [sessions, machines, artifacts, shares, kv] = await Promise.all([
+        db.session.findMany({ where: { accountId: ctx.uid }, select: { id: true, dataEncryptionKey: true } }),
+        db.machine.findMany({ where: { accountId: ctx.uid }, select: { id: true, dataEncryptionKey: true } }),
+        db.artifact.findMany({ where: { accountId: ctx.uid }, select: { id: true, dataEncryptionKey: true } }),
+        db.sessionShare.findMany({ where: { sharedWithId: ctx.uid }, select: { id: true, encryptedDataKey: true } }),
+        db.userKVStore.findMany({ where: { accountId: ctx.uid, value: { not: null } }, select: { key: true, value: true, version: true } })
+    ]);
+    const encode = (key: Uint8Array | null) => key ? Buffer.from(key).toString('base64') : null;
+    return {
+        keyVersion: account.keyVersion,
+        settings: account.settings,
+        settingsVersion: account.settingsVersion,
+        sessions: sessions.map((s) => ({ id: s.id, dataEncryptionKey: encode(s.dataEncryptionKey) })),
+        machines: machines.map((m) => ({ id: m.id, dataEncryptionKey: encode(m.dataEncryptionKey) })),
+        artifacts: artifacts.map((a) => ({ id: a.id, dataEncryptionKey: encode(a.dataEncryptionKey)! })),
+        shares: shares.map((s) => ({ id: s.id, encryptedDataKey: encode(s.encryptedDataKey)! })),
+        kv: kv.map((entry) => ({ key: entry.key, value: encode(entry.value)!, version: entry.version }))
+    };
+}
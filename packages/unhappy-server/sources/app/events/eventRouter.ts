@@ -179,6 +179,11 @@ export type EphemeralEvent = {
     machineId: string;
     online: boolean;
     timestamp: number;
+} | {
+    type: 'terminal-output';
+    id: string;
+    terminalId: string;
+    frame: string;
 };
 
 // === EVENT PAYLOAD TYPES ===
@@ -520,6 +525,15 @@ export function buildMachineStatusEphemeral(machineId: string, online: boolean):
     };
 }
 
+export function buildTerminalOutputEphemeral(sessionId: string, terminalId: string, frame: string): EphemeralPayload {
+    return {
+        type: 'terminal-output',
+        id: sessionId,
+        terminalId,
+        frame
+    };
+}
+
 export function buildNewArtifactUpdate(artifact: {
     id: string;
     seq: number;
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { MachineHealthReport, activeSessionBucket, machineHealthDelta, machineHealthSnapshot, percentile } from "./machineHealth";
+
+function report(overrides: Partial<MachineHealthReport>): MachineHealthReport {
+    return {
+        machineId: 'm1',
+        time: 0,
+        cliVersion: '1.0.0',
+        uptimeSeconds: 600,
+        activeSessions: 1,
+        sessionsSpawned: 0,
+        spawnFailures: 0,
+        rpcCalls: 0,
+        rpcErrors: 0,
+        rpcLatencyMs: [],
+        reconnects: 0,
+        ...overrides
+    };
+}
+
+describe("machineHealthDelta", () => {
+    it("counts increments between reports", () => {
+        const prev = report({ rpcCalls: 10, rpcErrors: 1, reconnects: 2 });
+        const next = report({ rpcCalls: 15, rpcErrors: 1, reconnects: 5, sessionsSpawned: 1 });
+        expect(machineHealthDelta(prev, next)).toEqual({
+            sessionsSpawned: 1,
+            spawnFailures: 0,
+            rpcCalls: 5,
+            rpcErrors: 0,
+            reconnects: 3
+        });
+    });
+
+    it("treats a counter that went down as a daemon restart", () => {
+        const prev = report({ rpcCalls: 100 });
+        const next = report({ rpcCalls: 4, uptimeSeconds: 60 });
+        expect(machineHealthDelta(prev, next).rpcCalls).toBe(4);
+    });
+
+    it("only counts the first report of a freshly started daemon", () => {
+        expect(machineHealthDelta(undefined, report({ rpcCalls: 7, uptimeSeconds: 60 })).rpcCalls).toBe(7);
+        expect(machineHealthDelta(undefined, report({ rpcCalls: 7, uptimeSeconds: 3600 })).rpcCalls).toBe(0);
+    });
+});
+
+describe("percentile", () => {
+    it("uses the nearest rank", () => {
+        expect(percentile([], 50)).toBeNull();
+        expect(percentile([30, 10, 20], 50)).toBe(20);
+        expect(percentile(Array.from({ length: 100 }, (_, i) => i + 1), 95)).toBe(95);
+        expect(percentile([5], 95)).toBe(5);
+    });
+
+    it("is stored in the snapshot instead of raw samples", () => {
+        const snapshot = machineHealthSnapshot(report({ rpcLatencyMs: [10, 20, 30, 40] }), 123);
+        expect(snapshot).toMatchObject({ reportedAt: 123, rpcLatencyP50Ms: 20, rpcLatencyP95Ms: 40 });
+        expect(snapshot).not.toHaveProperty('rpcLatencyMs');
+    });
+});
+
+describe("activeSessionBucket", () => {
+    it("puts every session count in a fixed bucket", () => {
+        expect([0, 1, 2, 4, 5, 9, 10, 250].map(activeSessionBucket)).toEqual(['0', '1', '2-4', '2-4', '5-9', '5-9', '10+', '10+']);
+    });
+});
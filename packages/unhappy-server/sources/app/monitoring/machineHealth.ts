@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+/**
+ * Report a daemon sends with `machine-health` about once a minute. Counters
+ * are cumulative since the daemon started, latencies are samples since the
+ * previous report.
+ */
+export const MachineHealthReportSchema = z.object({
+    machineId: z.string(),
+    time: z.number(),
+    cliVersion: z.string().max(64),
+    uptimeSeconds: z.number().int().nonnegative(),
+    activeSessions: z.number().int().nonnegative(),
+    sessionsSpawned: z.number().int().nonnegative(),
+    spawnFailures: z.number().int().nonnegative(),
+    rpcCalls: z.number().int().nonnegative(),
+    rpcErrors: z.number().int().nonnegative(),
+    rpcLatencyMs: z.array(z.number().nonnegative()).max(200),
+    reconnects: z.number().int().nonnegative()
+});
+
+export type MachineHealthReport = z.infer<typeof MachineHealthReportSchema>;
+
+/** Latest snapshot kept on the machine row for the apps */
+export type MachineHealth = {
+    reportedAt: number;
+    cliVersion: string;
+    uptimeSeconds: number;
+    activeSessions: number;
+    sessionsSpawned: number;
+    spawnFailures: number;
+    rpcCalls: number;
+    rpcErrors: number;
+    rpcLatencyP50Ms: number | null;
+    rpcLatencyP95Ms: number | null;
+    reconnects: number;
+};
+
+export type MachineHealthCounters = Pick<MachineHealthReport, 'sessionsSpawned' | 'spawnFailures' | 'rpcCalls' | 'rpcErrors' | 'reconnects'>;
+
+const counterKeys = ['sessionsSpawned', 'spawnFailures', 'rpcCalls', 'rpcErrors', 'reconnects'] as const;
+
+/** Daemons report every minute, a younger daemon has nothing counted yet */
+const FRESH_DAEMON_SECONDS = 120;
+
+/**
+ * Counter increments since the previous report of the same daemon. Without a
+ * previous report (first report, or the daemon moved to this instance) only
+ * a freshly started daemon is counted in full, anything else sets the
+ * baseline. A counter that went down means the daemon restarted.
+ */
+export function machineHealthDelta(prev: MachineHealthReport | undefined, next: MachineHealthReport): MachineHealthCounters {
+    const delta = {} as MachineHealthCounters;
+    for (const key of counterKeys) {
+        if (!prev) {
+            delta[key] = next.uptimeSeconds < FRESH_DAEMON_SECONDS ? next[key] : 0;
+        } else if (next[key] < prev[key]) {
+            delta[key] = next[key];
+        } else {
+            delta[key] = next[key] - prev[key];
+        }
+    }
+    return delta;
+}
+
+/** Fixed buckets for the per-machine session gauge, so its labels stay bounded */
+export const ACTIVE_SESSION_BUCKETS = ['0', '1', '2-4', '5-9', '10+'] as const;
+
+export type ActiveSessionBucket = typeof ACTIVE_SESSION_BUCKETS[number];
+
+export function activeSessionBucket(activeSessions: number): ActiveSessionBucket {
+    if (activeSessions <= 1) {
+        return activeSessions === 0 ? '0' : '1';
+    }
+    if (activeSessions < 5) {
+        return '2-4';
+    }
+    return activeSessions < 10 ? '5-9' : '10+';
+}
+
+/** Nearest-rank percentile, `null` without samples */
+export function percentile(samples: number[], p: number): number | null {
+    if (samples.length === 0) {
+        return null;
+    }
+    const sorted = [...samples].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function machineHealthSnapshot(report: MachineHealthReport, reportedAt: number): MachineHealth {
+    return {
+        reportedAt,
+        cliVersion: report.cliVersion,
+        uptimeSeconds: report.uptimeSeconds,
+        activeSessions: report.activeSessions,
+        sessionsSpawned: report.sessionsSpawned,
+        spawnFailures: report.spawnFailures,
+        rpcCalls: report.rpcCalls,
+        rpcErrors: report.rpcErrors,
+        rpcLatencyP50Ms: percentile(report.rpcLatencyMs, 50),
+        rpcLatencyP95Ms: percentile(report.rpcLatencyMs, 95),
+        reconnects: report.reconnects
+    };
+}
@@ -0,0 +1,65 @@
+import { db } from "@/storage/db";
+import {
+    daemonActiveSessionsGauge,
+    daemonMachinesByActiveSessionsGauge,
+    daemonReconnectsCounter,
+    daemonReportingMachinesGauge,
+    daemonRpcCallsCounter,
+    daemonRpcDurationHistogram,
+    daemonSessionsSpawnedCounter
+} from "./metrics2";
+import { ACTIVE_SESSION_BUCKETS, MachineHealthReport, activeSessionBucket, machineHealthDelta, machineHealthSnapshot } from "./machineHealth";
+
+// Last report per connected daemon on this instance, keyed by account and
+// machine id, daemon sockets stick to one instance
+const lastReports = new Map<string, MachineHealthReport>();
+
+function reportKey(userId: string, machineId: string) {
+    return `${userId}:${machineId}`;
+}
+
+function updateGauges() {
+    let activeSessions = 0;
+    const machinesByBucket = new Map<string, number>(ACTIVE_SESSION_BUCKETS.map((bucket) => [bucket, 0]));
+    for (const report of lastReports.values()) {
+        activeSessions += report.activeSessions;
+        const bucket = activeSessionBucket(report.activeSessions);
+        machinesByBucket.set(bucket, machinesByBucket.get(bucket)! + 1);
+    }
+    daemonReportingMachinesGauge.set(lastReports.size);
+    daemonActiveSessionsGauge.set(activeSessions);
+    for (const [sessions, machines] of machinesByBucket) {
+        daemonMachinesByActiveSessionsGauge.set({ sessions }, machines);
+    }
+}
+
+/**
+ * Feed a daemon report into the Prometheus metrics and store the snapshot
+ * on the machine row. The caller checked that the machine belongs to the user.
+ */
+export async function machineHealthRecord(userId: string, report: MachineHealthReport) {
+    const key = reportKey(userId, report.machineId);
+    const delta = machineHealthDelta(lastReports.get(key), report);
+    lastReports.set(key, report);
+    updateGauges();
+
+    daemonSessionsSpawnedCounter.inc({ result: 'success' }, delta.sessionsSpawned);
+    daemonSessionsSpawnedCounter.inc({ result: 'error' }, delta.spawnFailures);
+    daemonRpcCallsCounter.inc({ result: 'success' }, delta.rpcCalls - Math.min(delta.rpcCalls, delta.rpcErrors));
+    daemonRpcCallsCounter.inc({ result: 'error' }, delta.rpcErrors);
+    daemonReconnectsCounter.inc(delta.reconnects);
+    for (const ms of report.rpcLatencyMs) {
+        daemonRpcDurationHistogram.observe(ms / 1000);
+    }
+
+    await db.machine.updateMany({
+        where: { id: report.machineId, accountId: userId },
+        data: { health: machineHealthSnapshot(report, Date.now()) }
+    });
+}
+
+export function machineHealthForget(userId: string, machineId: string) {
+    if (lastReports.delete(reportKey(userId, machineId))) {
+        updateGauges();
+    }
+}
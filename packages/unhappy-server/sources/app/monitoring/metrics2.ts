@@ -60,6 +60,63 @@ export const httpRequestDurationHistogram = new Histogram({
     registers: [register]
 });
 
+// Daemon health, aggregated over all machines. Machine and account ids are
+// never used as labels: every machine would add a series that outlives it, and
+// the ids would leak into the monitoring stack. Per-machine spread is shown by
+// bucketing machines instead, exact per-machine numbers are served by the API.
+export const daemonSessionsSpawnedCounter = new Counter({
+    name: 'daemon_sessions_spawned_total',
+    help: 'Sessions spawned by daemons',
+    labelNames: ['result'] as const,
+    registers: [register]
+});
+
+export const daemonRpcCallsCounter = new Counter({
+    name: 'daemon_rpc_calls_total',
+    help: 'RPC calls handled by daemons',
+    labelNames: ['result'] as const,
+    registers: [register]
+});
+
+export const daemonRpcDurationHistogram = new Histogram({
+    name: 'daemon_rpc_duration_seconds',
+    help: 'RPC handler duration measured on the daemon',
+    buckets: [0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 30],
+    registers: [register]
+});
+
+export const daemonReconnectsCounter = new Counter({
+    name: 'daemon_socket_reconnects_total',
+    help: 'Daemon socket reconnects',
+    registers: [register]
+});
+
+export const daemonReportingMachinesGauge = new Gauge({
+    name: 'daemon_reporting_machines',
+    help: 'Connected daemons that sent a health report',
+    registers: [register]
+});
+
+export const daemonActiveSessionsGauge = new Gauge({
+    name: 'daemon_active_sessions',
+    help: 'Sessions tracked by connected daemons',
+    registers: [register]
+});
+
+export const daemonMachinesByActiveSessionsGauge = new Gauge({
+    name: 'daemon_machines_by_active_sessions',
+    help: 'Connected daemons by how many sessions they track',
+    labelNames: ['sessions'] as const,
+    registers: [register]
+});
+
+export const sessionMessagesHistogram = new Histogram({
+    name: 'session_messages_per_session',
+    help: 'Messages in a session when it ends',
+    buckets: [1, 5, 10, 25, 50, 100, 250, 500, 1000, 5000],
+    registers: [register]
+});
+
 // Database count metrics
 export const databaseRecordCountGauge = new Gauge({
     name: 'database_records_total',
@@ -111,5 +168,10 @@ export function startDatabaseMetricsUpdater(): void {
     });
 }
 
+export async function observeSessionMessages(sessionId: string): Promise<void> {
+    const count = await db.sessionMessage.count({ where: { sessionId } });
+    sessionMessagesHistogram.observe(count);
+}
+
 // Export the register for combining metrics
 export { register };
\ No newline at end of file
@@ -3,6 +3,8 @@ import { delay } from "@/utils/delay";
 import { forever } from "@/utils/forever";
 import { shutdownSignal } from "@/utils/shutdown";
 import { buildMachineActivityEphemeral, buildSessionActivityEphemeral, eventRouter } from "@/app/events/eventRouter";
+import { webhookSessionEnded } from "@/app/webhooks/webhookPresence";
+import { observeSessionMessages } from "@/app/monitoring/metrics2";
 
 export function startTimeout() {
     forever('session-timeout', async () => {
@@ -29,6 +31,8 @@ export function startTimeout() {
                     payload: buildSessionActivityEphemeral(session.id, false, updated[0].lastActiveAt.getTime(), false),
                     recipientFilter: { type: 'user-scoped-only' }
                 });
+                webhookSessionEnded(session.accountId, session.id, 'timeout');
+                await observeSessionMessages(session.id);
             }
 
             // Find timed out machines
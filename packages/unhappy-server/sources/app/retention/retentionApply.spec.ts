@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+type Count = { count: number };
+
+const db = vi.hoisted(() => ({
+    session: {
+        findMany: vi.fn<(args: unknown) => Promise<{ id: string }[]>>()
+    },
+    sessionMessage: {
+        groupBy: vi.fn<(args: unknown) => Promise<{ sessionId: string, _count: { _all: number } }[]>>(),
+        findFirst: vi.fn<(args: unknown) => Promise<{ seq: number } | null>>(),
+        deleteMany: vi.fn<(args: unknown) => Promise<Count>>()
+    },
+    usageReport: {
+        deleteMany: vi.fn<(args: unknown) => Promise<Count>>()
+    },
+    uploadedFile: {
+        aggregate: vi.fn<(args: unknown) => Promise<{ _sum: { size: number | null } }>>(),
+        findMany: vi.fn<(args: unknown) => Promise<{ id: string, path: string, size: number | null }[]>>(),
+        update: vi.fn<(args: unknown) => Promise<{ id: string }>>(),
+        delete: vi.fn<(args: unknown) => Promise<{ id: string }>>()
+    },
+    account: {
+        findUniqueOrThrow: vi.fn<(args: unknown) => Promise<{ avatar: { path: string } | null }>>()
+    }
+}));
+
+vi.mock("@/storage/db", () => ({ db }));
+
+vi.mock("@/storage/files", () => ({
+    deleteFile: vi.fn(),
+    fileSize: vi.fn()
+}));
+
+vi.mock("@/app/session/sessionDelete", () => ({
+    sessionDelete: vi.fn()
+}));
+
+// Import after mocking
+import { deleteFile, fileSize } from "@/storage/files";
+import { sessionDelete } from "@/app/session/sessionDelete";
+import { Context } from "@/context";
+import { retentionApply, retentionMeasureFiles, selectFilesToEvict } from "./retentionApply";
+import { emptyRetentionPolicy } from "./types";
+
+describe("selectFilesToEvict", () => {
+    const files = [
+        { path: 'a', size: 100 },
+        { path: 'avatar', size: 100 },
+        { path: 'b', size: 100 },
+        { path: 'c', size: 100 }
+    ];
+
+    it("picks the oldest files until the total fits", () => {
+        expect(selectFilesToEvict(files, 400, 250, new Set()).map(f => f.path)).toEqual(['a', 'avatar']);
+    });
+
+    it("never picks kept files", () => {
+        expect(selectFilesToEvict(files, 400, 150, new Set(['avatar'])).map(f => f.path)).toEqual(['a', 'b', 'c']);
+    });
+
+    it("picks nothing when under quota", () => {
+        expect(selectFilesToEvict(files, 400, 400, new Set())).toEqual([]);
+    });
+});
+
+describe("retentionApply", () => {
+    const ctx = Context.create('user-1');
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("does nothing without limits", async () => {
+        const result = await retentionApply(ctx, emptyRetentionPolicy);
+        expect(result).toEqual({ deletedSessions: 0, deletedMessages: 0, deletedUsageReports: 0, deletedFiles: 0 });
+        expect(db.session.findMany).not.toHaveBeenCalled();
+        expect(db.sessionMessage.groupBy).not.toHaveBeenCalled();
+        expect(db.usageReport.deleteMany).not.toHaveBeenCalled();
+        expect(db.uploadedFile.aggregate).not.toHaveBeenCalled();
+    });
+
+    it("deletes inactive sessions through sessionDelete", async () => {
+        db.session.findMany.mockResolvedValue([{ id: 's1' }, { id: 's2' }]);
+        vi.mocked(sessionDelete).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+        const now = Date.UTC(2025, 0, 31);
+        const result = await retentionApply(ctx, { ...emptyRetentionPolicy, inactiveSessionDays: 30 }, now);
+
+        expect(db.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: { accountId: 'user-1', active: false, lastActiveAt: { lt: new Date(Date.UTC(2025, 0, 1)) } }
+        }));
+        expect(sessionDelete).toHaveBeenCalledWith(ctx, 's1');
+        expect(sessionDelete).toHaveBeenCalledWith(ctx, 's2');
+        expect(result.deletedSessions).toBe(1);
+    });
+
+    it("trims messages older than the newest N", async () => {
+        db.sessionMessage.groupBy.mockResolvedValue([{ sessionId: 's1', _count: { _all: 15 } }]);
+        db.sessionMessage.findFirst.mockResolvedValue({ seq: 5 });
+        db.sessionMessage.deleteMany.mockResolvedValue({ count: 5 });
+
+        const result = await retentionApply(ctx, { ...emptyRetentionPolicy, maxMessagesPerSession: 10 });
+
+        expect(db.sessionMessage.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+            where: { sessionId: 's1' },
+            orderBy: { seq: 'desc' },
+            skip: 10
+        }));
+        expect(db.sessionMessage.deleteMany).toHaveBeenCalledWith({
+            where: { sessionId: 's1', seq: { lte: 5 } }
+        });
+        expect(result.deletedMessages).toBe(5);
+    });
+
+    it("evicts uploads over quota but keeps the avatar", async () => {
+        db.uploadedFile.aggregate.mockResolvedValue({ _sum: { size: 300 } });
+        db.account.findUniqueOrThrow.mockResolvedValue({ avatar: { path: 'avatar.jpg' } });
+        db.uploadedFile.findMany
+            .mockResolvedValueOnce([])
+            .mockResolvedValueOnce([
+                { id: 'f1', path: 'avatar.jpg', size: 100 },
+                { id: 'f2', path: 'old.jpg', size: 100 },
+                { id: 'f3', path: 'new.jpg', size: 100 }
+            ]);
+
+        const result = await retentionApply(ctx, { ...emptyRetentionPolicy, maxStorageBytes: 200 });
+
+        expect(deleteFile).toHaveBeenCalledTimes(1);
+        expect(deleteFile).toHaveBeenCalledWith('old.jpg');
+        expect(db.uploadedFile.delete).toHaveBeenCalledWith({ where: { id: 'f2' } });
+        expect(result.deletedFiles).toBe(1);
+    });
+
+    it("measures uploads from before sizes were recorded", async () => {
+        db.uploadedFile.findMany.mockResolvedValue([
+            { id: 'f1', path: 'old.jpg', size: null },
+            { id: 'f2', path: 'gone.jpg', size: null }
+        ]);
+        vi.mocked(fileSize).mockImplementation(async (path: string) => path === 'old.jpg' ? 2048 : null);
+
+        expect(await retentionMeasureFiles('user-1')).toBe(2);
+
+        expect(db.uploadedFile.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { accountId: 'user-1', size: null } }));
+        expect(db.uploadedFile.update).toHaveBeenCalledWith({ where: { id: 'f1' }, data: { size: 2048 } });
+        expect(db.uploadedFile.update).toHaveBeenCalledWith({ where: { id: 'f2' }, data: { size: 0 } });
+    });
+});
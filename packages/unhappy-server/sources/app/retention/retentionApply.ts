@@ -0,0 +1,162 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+import { deleteFile, fileSize, ImageRef } from "@/storage/files";
+import { sessionDelete } from "@/app/session/sessionDelete";
+import { log } from "@/utils/log";
+import { RetentionPolicy, RetentionResult } from "./types";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Bounds the work done for one account per pass, the rest is picked up next time
+const SESSION_BATCH = 100;
+const MEASURE_BATCH = 100;
+
+/**
+ * Pick the oldest files to delete until the total fits into maxBytes.
+ * Files listed in keep (e.g. the current avatar) are never picked.
+ */
+export function selectFilesToEvict<T extends { path: string; size: number }>(
+    files: T[],
+    totalBytes: number,
+    maxBytes: number,
+    keep: Set<string>
+): T[] {
+    const evict: T[] = [];
+    let remaining = totalBytes;
+    for (const file of files) {
+        if (remaining <= maxBytes) {
+            break;
+        }
+        if (keep.has(file.path)) {
+            continue;
+        }
+        evict.push(file);
+        remaining -= file.size;
+    }
+    return evict;
+}
+
+/**
+ * Record the size of uploads from before sizes were recorded, so they count
+ * against the quota. A file missing from storage takes no space.
+ *
+ * @returns the number of files measured
+ */
+export async function retentionMeasureFiles(accountId: string): Promise<number> {
+    const files = await db.uploadedFile.findMany({
+        where: { accountId, size: null },
+        select: { id: true, path: true },
+        take: MEASURE_BATCH
+    });
+    for (const file of files) {
+        const size = await fileSize(file.path);
+        await db.uploadedFile.update({ where: { id: file.id }, data: { size: size ?? 0 } });
+    }
+    return files.length;
+}
+
+/**
+ * Apply a retention policy to an account
+ */
+export async function retentionApply(ctx: Context, policy: RetentionPolicy, now: number = Date.now()): Promise<RetentionResult> {
+    const result: RetentionResult = {
+        deletedSessions: 0,
+        deletedMessages: 0,
+        deletedUsageReports: 0,
+        deletedFiles: 0
+    };
+
+    // Inactive sessions, deleted the same way as from the app
+    if (policy.inactiveSessionDays !== null) {
+        const sessions = await db.session.findMany({
+            where: {
+                accountId: ctx.uid,
+                active: false,
+                lastActiveAt: { lt: new Date(now - policy.inactiveSessionDays * DAY_MS) }
+            },
+            select: { id: true },
+            take: SESSION_BATCH
+        });
+        for (const session of sessions) {
+            if (await sessionDelete(ctx, session.id)) {
+                result.deletedSessions++;
+            }
+        }
+    }
+
+    // Messages beyond the cap, oldest first
+    if (policy.maxMessagesPerSession !== null) {
+        const maxMessages = policy.maxMessagesPerSession;
+        const overLimit = await db.sessionMessage.groupBy({
+            by: ['sessionId'],
+            where: { session: { accountId: ctx.uid } },
+            _count: { _all: true },
+            having: { sessionId: { _count: { gt: maxMessages } } },
+            take: SESSION_BATCH,
+            orderBy: { sessionId: 'asc' }
+        });
+        for (const session of overLimit) {
+            const boundary = await db.sessionMessage.findFirst({
+                where: { sessionId: session.sessionId },
+                orderBy: { seq: 'desc' },
+                skip: maxMessages,
+                select: { seq: true }
+            });
+            if (!boundary) {
+                continue;
+            }
+            const deleted = await db.sessionMessage.deleteMany({
+                where: { sessionId: session.sessionId, seq: { lte: boundary.seq } }
+            });
+            result.deletedMessages += deleted.count;
+        }
+    }
+
+    // Usage reports
+    if (policy.usageReportDays !== null) {
+        const deleted = await db.usageReport.deleteMany({
+            where: {
+                accountId: ctx.uid,
+                updatedAt: { lt: new Date(now - policy.usageReportDays * DAY_MS) }
+            }
+        });
+        result.deletedUsageReports = deleted.count;
+    }
+
+    // Uploads over the storage quota, oldest first
+    if (policy.maxStorageBytes !== null) {
+        await retentionMeasureFiles(ctx.uid);
+        const total = await db.uploadedFile.aggregate({
+            where: { accountId: ctx.uid },
+            _sum: { size: true }
+        });
+        const totalBytes = total._sum.size ?? 0;
+        if (totalBytes > policy.maxStorageBytes) {
+            const account = await db.account.findUniqueOrThrow({
+                where: { id: ctx.uid },
+                select: { avatar: true }
+            });
+            const keep = new Set<string>();
+            if (account.avatar) {
+                keep.add((account.avatar as ImageRef).path);
+            }
+            // Files still unmeasured aren't in the total, so they can't be picked either
+            const files = (await db.uploadedFile.findMany({
+                where: { accountId: ctx.uid, size: { not: null } },
+                orderBy: { createdAt: 'asc' },
+                select: { id: true, path: true, size: true }
+            })).map((file) => ({ ...file, size: file.size ?? 0 }));
+            for (const file of selectFilesToEvict(files, totalBytes, policy.maxStorageBytes, keep)) {
+                await deleteFile(file.path);
+                await db.uploadedFile.delete({ where: { id: file.id } });
+                result.deletedFiles++;
+            }
+        }
+    }
+
+    if (result.deletedSessions + result.deletedMessages + result.deletedUsageReports + result.deletedFiles > 0) {
+        log({ module: 'retention', userId: ctx.uid, ...result }, `Applied retention policy`);
+    }
+
+    return result;
+}
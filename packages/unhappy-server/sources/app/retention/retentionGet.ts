@@ -0,0 +1,54 @@
+import { db } from "@/storage/db";
+import { emptyRetentionPolicy, RetentionPolicy, RetentionUsage } from "./types";
+
+/**
+ * Read the retention policy of an account, unlimited when none was set
+ */
+export async function retentionGetPolicy(ctx: { uid: string }): Promise<RetentionPolicy & { lastAppliedAt: number | null }> {
+    const row = await db.accountRetention.findUnique({
+        where: { accountId: ctx.uid }
+    });
+    if (!row) {
+        return { ...emptyRetentionPolicy, lastAppliedAt: null };
+    }
+    return {
+        inactiveSessionDays: row.inactiveSessionDays,
+        maxMessagesPerSession: row.maxMessagesPerSession,
+        usageReportDays: row.usageReportDays,
+        maxStorageBytes: row.maxStorageBytes !== null ? Number(row.maxStorageBytes) : null,
+        lastAppliedAt: row.lastAppliedAt ? row.lastAppliedAt.getTime() : null
+    };
+}
+
+/**
+ * Count what an account currently stores, to compare against its policy
+ */
+export async function retentionGetUsage(ctx: { uid: string }): Promise<RetentionUsage> {
+    const [sessions, messages, largest, usageReports, files, unmeasuredFiles] = await Promise.all([
+        db.session.count({ where: { accountId: ctx.uid } }),
+        db.sessionMessage.count({ where: { session: { accountId: ctx.uid } } }),
+        db.sessionMessage.groupBy({
+            by: ['sessionId'],
+            where: { session: { accountId: ctx.uid } },
+            _count: { _all: true },
+            orderBy: { _count: { sessionId: 'desc' } },
+            take: 1
+        }),
+        db.usageReport.count({ where: { accountId: ctx.uid } }),
+        db.uploadedFile.aggregate({
+            where: { accountId: ctx.uid },
+            _count: { _all: true },
+            _sum: { size: true }
+        }),
+        db.uploadedFile.count({ where: { accountId: ctx.uid, size: null } })
+    ]);
+    return {
+        sessions,
+        messages,
+        largestSessionMessages: largest.length > 0 ? largest[0]._count._all : 0,
+        usageReports,
+        files: files._count._all,
+        storageBytes: files._sum.size ?? 0,
+        unmeasuredFiles
+    };
+}
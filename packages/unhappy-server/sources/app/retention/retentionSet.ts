@@ -0,0 +1,21 @@
+import { db } from "@/storage/db";
+import { RetentionPolicy } from "./types";
+
+/**
+ * Replace the retention policy of an account. The worker picks it up on its
+ * next pass, nothing is deleted synchronously.
+ */
+export async function retentionSet(ctx: { uid: string }, policy: RetentionPolicy): Promise<void> {
+    const data = {
+        inactiveSessionDays: policy.inactiveSessionDays,
+        maxMessagesPerSession: policy.maxMessagesPerSession,
+        usageReportDays: policy.usageReportDays,
+        maxStorageBytes: policy.maxStorageBytes !== null ? BigInt(policy.maxStorageBytes) : null,
+        lastAppliedAt: null
+    };
+    await db.accountRetention.upsert({
+        where: { accountId: ctx.uid },
+        create: { accountId: ctx.uid, ...data },
+        update: data
+    });
+}
@@ -0,0 +1,50 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+import { delay } from "@/utils/delay";
+import { forever } from "@/utils/forever";
+import { log } from "@/utils/log";
+import { shutdownSignal } from "@/utils/shutdown";
+import { retentionApply } from "./retentionApply";
+
+const APPLY_INTERVAL_MS = 1000 * 60 * 60; // 1 hour
+const BATCH_SIZE = 20;
+
+export function startRetention() {
+    forever('retention', async () => {
+        while (true) {
+            // Accounts whose policy is new or was last applied an hour ago
+            const policies = await db.accountRetention.findMany({
+                where: {
+                    OR: [
+                        { lastAppliedAt: null },
+                        { lastAppliedAt: { lte: new Date(Date.now() - APPLY_INTERVAL_MS) } }
+                    ]
+                },
+                orderBy: { lastAppliedAt: { sort: 'asc', nulls: 'first' } },
+                take: BATCH_SIZE
+            });
+            for (const policy of policies) {
+                try {
+                    await retentionApply(Context.create(policy.accountId), {
+                        inactiveSessionDays: policy.inactiveSessionDays,
+                        maxMessagesPerSession: policy.maxMessagesPerSession,
+                        usageReportDays: policy.usageReportDays,
+                        maxStorageBytes: policy.maxStorageBytes !== null ? Number(policy.maxStorageBytes) : null
+                    });
+                } catch (error) {
+                    log({ module: 'retention', level: 'error', userId: policy.accountId }, `Failed to apply retention policy: ${error}`);
+                }
+                // Mark as applied even on failure so one account can't stall the rest
+                await db.accountRetention.updateMany({
+                    where: { accountId: policy.accountId, updatedAt: policy.updatedAt },
+                    data: { lastAppliedAt: new Date() }
+                });
+            }
+
+            // Keep going while there is a backlog, otherwise wait for 1 minute
+            if (policies.length < BATCH_SIZE) {
+                await delay(1000 * 60, shutdownSignal);
+            }
+        }
+    });
+}
@@ -0,0 +1,39 @@
+/**
+ * Per-account retention policy, null means unlimited
+ */
+export type RetentionPolicy = {
+    /** Delete sessions that have been inactive for this many days */
+    inactiveSessionDays: number | null;
+    /** Keep only the newest N messages of each session */
+    maxMessagesPerSession: number | null;
+    /** Delete usage reports older than this many days */
+    usageReportDays: number | null;
+    /** Delete the oldest uploads once they take more than this many bytes */
+    maxStorageBytes: number | null;
+};
+
+export type RetentionUsage = {
+    sessions: number;
+    messages: number;
+    largestSessionMessages: number;
+    usageReports: number;
+    files: number;
+    /** Bytes of the files with a known size */
+    storageBytes: number;
+    /** Uploads from before sizes were recorded, not in storageBytes until measured */
+    unmeasuredFiles: number;
+};
+
+export type RetentionResult = {
+    deletedSessions: number;
+    deletedMessages: number;
+    deletedUsageReports: number;
+    deletedFiles: number;
+};
+
+export const emptyRetentionPolicy: RetentionPolicy = {
+    inactiveSessionDays: null,
+    maxMessagesPerSession: null,
+    usageReportDays: null,
+    maxStorageBytes: null
+};
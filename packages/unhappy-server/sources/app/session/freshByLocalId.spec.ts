@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { freshByLocalId } from "./freshByLocalId";
+
+describe("freshByLocalId", () => {
+    it("skips stored localIds and repeats within the batch", () => {
+        const items = [
+            { localId: "a", content: "AA" },
+            { localId: "b", content: "BB" },
+            { localId: "b", content: "BB again" },
+            { localId: "c", content: "CC" }
+        ];
+
+        expect(freshByLocalId(items, ["a"])).toEqual([
+            { localId: "b", content: "BB" },
+            { localId: "c", content: "CC" }
+        ]);
+        expect(freshByLocalId(items, [])).toHaveLength(3);
+    });
+});
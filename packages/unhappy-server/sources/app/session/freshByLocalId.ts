@@ -0,0 +1,14 @@
+/**
+ * Items of a batch that aren't stored yet. An item is skipped when its localId
+ * is in `storedIds` or appeared earlier in the batch, the first copy wins.
+ */
+export function freshByLocalId<T extends { localId: string }>(items: T[], storedIds: Iterable<string | null>): T[] {
+    const seenIds = new Set<string | null>(storedIds);
+    return items.filter((item) => {
+        if (seenIds.has(item.localId)) {
+            return false;
+        }
+        seenIds.add(item.localId);
+        return true;
+    });
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+type AuditRow = { sessionId: string, seq: number, localId: string, content: string };
+
+const tx = vi.hoisted(() => ({
+    session: {
+        findFirst: vi.fn<(args: unknown) => Promise<{ id: string } | null>>(),
+        update: vi.fn<(args: unknown) => Promise<{ auditSeq: number }>>()
+    },
+    sessionAuditEvent: {
+        findMany: vi.fn<(args: unknown) => Promise<{ localId: string }[]>>(),
+        createMany: vi.fn<(args: { data: AuditRow[] }) => Promise<{ count: number }>>()
+    }
+}));
+
+vi.mock("@/storage/inTx", () => ({
+    inTx: <T>(fn: (client: typeof tx) => Promise<T>) => fn(tx)
+}));
+
+// Import after mocking
+import { Context } from "@/context";
+import { sessionAuditAppend } from "./sessionAuditAppend";
+
+describe("sessionAuditAppend", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        tx.session.findFirst.mockResolvedValue({ id: "session-1" });
+    });
+
+    it("skips events already stored and repeated within the batch", async () => {
+        tx.sessionAuditEvent.findMany.mockResolvedValue([{ localId: "a" }]);
+        tx.session.update.mockResolvedValue({ auditSeq: 5 });
+
+        const created = await sessionAuditAppend(Context.create("user-1"), "session-1", [
+            { localId: "a", content: "AA" },
+            { localId: "b", content: "BB" },
+            { localId: "b", content: "BB again" },
+            { localId: "c", content: "CC" }
+        ]);
+
+        expect(created).toBe(2);
+        expect(tx.session.update).toHaveBeenCalledWith(expect.objectContaining({ data: { auditSeq: { increment: 2 } } }));
+        const rows = tx.sessionAuditEvent.createMany.mock.calls[0][0].data;
+        expect(rows.map((row) => [row.localId, row.seq, row.content])).toEqual([["b", 4, "BB"], ["c", 5, "CC"]]);
+    });
+
+    it("returns null for sessions of other users", async () => {
+        tx.session.findFirst.mockResolvedValue(null);
+
+        expect(await sessionAuditAppend(Context.create("user-2"), "session-1", [{ localId: "a", content: "AA" }])).toBeNull();
+        expect(tx.sessionAuditEvent.createMany).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,65 @@
+import { Context } from "@/context";
+import { inTx } from "@/storage/inTx";
+import { log } from "@/utils/log";
+import { freshByLocalId } from "@/app/session/freshByLocalId";
+
+export type AuditEventInput = {
+    localId: string;
+    content: string; // Base64 encrypted
+    createdAt?: number;
+};
+
+/**
+ * Append a batch of encrypted audit events to a session. The audit trail is
+ * append-only: events can't be edited or deleted on their own, only together
+ * with the session. Events are deduplicated by localId, within the batch and
+ * against the session, so a retried batch is a no-op.
+ *
+ * @returns number of events created, null if the session is not owned by the user
+ */
+export async function sessionAuditAppend(ctx: Context, sessionId: string, events: AuditEventInput[]): Promise<number | null> {
+    return await inTx(async (tx) => {
+        const session = await tx.session.findFirst({
+            where: { id: sessionId, accountId: ctx.uid }
+        });
+        if (!session) {
+            return null;
+        }
+
+        const existing = await tx.sessionAuditEvent.findMany({
+            where: { sessionId, localId: { in: events.map((e) => e.localId) } },
+            select: { localId: true }
+        });
+        const fresh = freshByLocalId(events, existing.map((e) => e.localId));
+        if (fresh.length === 0) {
+            return 0;
+        }
+
+        // Reserve a block of seqs for the whole batch
+        const updated = await tx.session.update({
+            where: { id: sessionId },
+            select: { auditSeq: true },
+            data: { auditSeq: { increment: fresh.length } }
+        });
+        const firstSeq = updated.auditSeq - fresh.length + 1;
+
+        await tx.sessionAuditEvent.createMany({
+            data: fresh.map((e, i) => ({
+                sessionId,
+                seq: firstSeq + i,
+                localId: e.localId,
+                content: e.content,
+                createdAt: e.createdAt !== undefined ? new Date(e.createdAt) : undefined
+            }))
+        });
+
+        log({
+            module: 'session-audit',
+            userId: ctx.uid,
+            sessionId,
+            count: fresh.length
+        }, `Appended ${fresh.length} audit events`);
+
+        return fresh.length;
+    });
+}
@@ -4,6 +4,7 @@ import { eventRouter, buildDeleteSessionUpdate } from "@/app/events/eventRouter"
 import { allocateUserSeq } from "@/storage/seq";
 import { randomKeyNaked } from "@/utils/randomKeyNaked";
 import { log } from "@/utils/log";
+import { sessionShareRecipientsInvalidate } from "@/app/session/sessionShareFanout";
 
 /**
  * Delete a session and all its related data.
@@ -11,6 +12,8 @@ import { log } from "@/utils/log";
  * - Deleting all session messages
  * - Deleting all usage reports for the session
  * - Deleting all access keys for the session
+ * - Deleting all shares of the session
+ * - Deleting the session's audit trail
  * - Deleting the session itself
  * - Sending socket notification to all connected clients
  * 
@@ -73,7 +76,33 @@ export async function sessionDelete(ctx: Context, sessionId: string): Promise<bo
             deletedCount: deletedAccessKeys.count
         }, `Deleted ${deletedAccessKeys.count} access keys`);
 
-        // 4. Delete the session itself
+        // 4. Delete shares, friends are notified below
+        const shares = await tx.sessionShare.findMany({
+            where: { sessionId },
+            select: { sharedWithId: true }
+        });
+        await tx.sessionShare.deleteMany({
+            where: { sessionId }
+        });
+        log({ 
+            module: 'session-delete', 
+            userId: ctx.uid, 
+            sessionId,
+            deletedCount: shares.length
+        }, `Deleted ${shares.length} session shares`);
+
+        // 5. Delete the audit trail
+        const deletedAuditEvents = await tx.sessionAuditEvent.deleteMany({
+            where: { sessionId }
+        });
+        log({ 
+            module: 'session-delete', 
+            userId: ctx.uid, 
+            sessionId,
+            deletedCount: deletedAuditEvents.count
+        }, `Deleted ${deletedAuditEvents.count} audit events`);
+
+        // 6. Delete the session itself
         await tx.session.delete({
             where: { id: sessionId }
         });
@@ -85,6 +114,7 @@ export async function sessionDelete(ctx: Context, sessionId: string): Promise<bo
 
         // Send notification after transaction commits
         afterTx(tx, async () => {
+            sessionShareRecipientsInvalidate(sessionId);
             const updSeq = await allocateUserSeq(ctx.uid);
             const updatePayload = buildDeleteSessionUpdate(sessionId, updSeq, randomKeyNaked(12));
             
@@ -101,6 +131,15 @@ export async function sessionDelete(ctx: Context, sessionId: string): Promise<bo
                 payload: updatePayload,
                 recipientFilter: { type: 'user-scoped-only' }
             });
+
+            for (const share of shares) {
+                const shareSeq = await allocateUserSeq(share.sharedWithId);
+                eventRouter.emitUpdate({
+                    userId: share.sharedWithId,
+                    payload: buildDeleteSessionUpdate(sessionId, shareSeq, randomKeyNaked(12)),
+                    recipientFilter: { type: 'user-scoped-only' }
+                });
+            }
         });
 
         return true;
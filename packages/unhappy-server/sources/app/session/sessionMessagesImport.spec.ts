@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+type MessageRow = { sessionId: string, seq: number, localId: string, content: { t: "encrypted", c: string } };
+
+const tx = vi.hoisted(() => ({
+    session: {
+        findFirst: vi.fn<(args: unknown) => Promise<{ id: string } | null>>(),
+        update: vi.fn<(args: unknown) => Promise<{ seq: number }>>()
+    },
+    sessionMessage: {
+        findMany: vi.fn<(args: unknown) => Promise<{ localId: string }[]>>(),
+        createMany: vi.fn<(args: { data: MessageRow[] }) => Promise<{ count: number }>>()
+    }
+}));
+
+vi.mock("@/storage/inTx", () => ({
+    inTx: <T>(fn: (client: typeof tx) => Promise<T>) => fn(tx)
+}));
+
+// Import after mocking
+import { Context } from "@/context";
+import { sessionMessagesImport } from "./sessionMessagesImport";
+
+describe("sessionMessagesImport", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        tx.session.findFirst.mockResolvedValue({ id: "session-1" });
+    });
+
+    it("skips messages already stored and repeated within the batch", async () => {
+        tx.sessionMessage.findMany.mockResolvedValue([{ localId: "a" }]);
+        tx.session.update.mockResolvedValue({ seq: 12 });
+
+        const created = await sessionMessagesImport(Context.create("user-1"), "session-1", [
+            { localId: "a", content: "AA" },
+            { localId: "b", content: "BB" },
+            { localId: "b", content: "BB again" },
+            { localId: "c", content: "CC" }
+        ]);
+
+        expect(created).toBe(2);
+        expect(tx.session.update).toHaveBeenCalledWith(expect.objectContaining({ data: { seq: { increment: 2 } } }));
+        const rows = tx.sessionMessage.createMany.mock.calls[0][0].data;
+        expect(rows.map((row) => [row.localId, row.seq, row.content.c])).toEqual([["b", 11, "BB"], ["c", 12, "CC"]]);
+    });
+});
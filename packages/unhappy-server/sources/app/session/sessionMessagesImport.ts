@@ -0,0 +1,66 @@
+import { Context } from "@/context";
+import { inTx } from "@/storage/inTx";
+import { log } from "@/utils/log";
+import { freshByLocalId } from "@/app/session/freshByLocalId";
+
+export type ImportedMessage = {
+    localId: string;
+    content: string; // Base64 encrypted
+    createdAt?: number;
+};
+
+/**
+ * Append a batch of already encrypted messages to a session, used to import
+ * session archives and to replay CLI outboxes left behind by a crashed
+ * process. Messages are deduplicated by localId, within the batch
+ * and against the session, so a retried batch is a no-op, and keep their
+ * original timestamps.
+ *
+ * @returns number of messages created, null if the session is not owned by the user
+ */
+export async function sessionMessagesImport(ctx: Context, sessionId: string, messages: ImportedMessage[]): Promise<number | null> {
+    return await inTx(async (tx) => {
+        const session = await tx.session.findFirst({
+            where: { id: sessionId, accountId: ctx.uid }
+        });
+        if (!session) {
+            return null;
+        }
+
+        const existing = await tx.sessionMessage.findMany({
+            where: { sessionId, localId: { in: messages.map((m) => m.localId) } },
+            select: { localId: true }
+        });
+        const fresh = freshByLocalId(messages, existing.map((m) => m.localId));
+        if (fresh.length === 0) {
+            return 0;
+        }
+
+        // Reserve a block of seqs for the whole batch
+        const updated = await tx.session.update({
+            where: { id: sessionId },
+            select: { seq: true },
+            data: { seq: { increment: fresh.length } }
+        });
+        const firstSeq = updated.seq - fresh.length + 1;
+
+        await tx.sessionMessage.createMany({
+            data: fresh.map((m, i) => ({
+                sessionId,
+                seq: firstSeq + i,
+                localId: m.localId,
+                content: { t: 'encrypted', c: m.content } satisfies PrismaJson.SessionMessageContent,
+                createdAt: m.createdAt !== undefined ? new Date(m.createdAt) : undefined
+            }))
+        });
+
+        log({
+            module: 'session-import',
+            userId: ctx.uid,
+            sessionId,
+            count: fresh.length
+        }, `Imported ${fresh.length} messages`);
+
+        return fresh.length;
+    });
+}
@@ -0,0 +1,71 @@
+import { Context } from "@/context";
+import { inTx, afterTx } from "@/storage/inTx";
+import { eventRouter, buildNewSessionUpdate } from "@/app/events/eventRouter";
+import { relationshipGet } from "@/app/social/relationshipGet";
+import { allocateUserSeq } from "@/storage/seq";
+import { randomKeyNaked } from "@/utils/randomKeyNaked";
+import { log } from "@/utils/log";
+import { sessionShareRecipientsInvalidate } from "@/app/session/sessionShareFanout";
+import { RelationshipStatus } from "@prisma/client";
+
+export type SessionShareCreateResult =
+    | { result: 'success' }
+    | { result: 'session-not-found' }
+    | { result: 'not-shareable' }
+    | { result: 'not-friends' };
+
+/**
+ * Share a session read-only with a friend.
+ *
+ * The caller re-encrypts the session data key for the friend's content public
+ * key, the server only stores the result. Sessions without a data key use the
+ * owner's master secret directly and can't be shared.
+ *
+ * Sharing again with the same friend replaces the stored key.
+ */
+export async function sessionShareCreate(ctx: Context, sessionId: string, sharedWithId: string, encryptedDataKey: Uint8Array): Promise<SessionShareCreateResult> {
+    return await inTx(async (tx) => {
+        const session = await tx.session.findFirst({
+            where: { id: sessionId, accountId: ctx.uid }
+        });
+        if (!session) {
+            return { result: 'session-not-found' };
+        }
+        if (!session.dataEncryptionKey) {
+            return { result: 'not-shareable' };
+        }
+
+        // Only friends can be collaborators
+        const status = await relationshipGet(tx, ctx.uid, sharedWithId);
+        if (status !== RelationshipStatus.friend) {
+            return { result: 'not-friends' };
+        }
+
+        await tx.sessionShare.upsert({
+            where: { sessionId_sharedWithId: { sessionId, sharedWithId } },
+            create: {
+                sessionId,
+                ownerId: ctx.uid,
+                sharedWithId,
+                encryptedDataKey: new Uint8Array(encryptedDataKey)
+            },
+            update: {
+                encryptedDataKey: new Uint8Array(encryptedDataKey)
+            }
+        });
+        log({ module: 'session-share', userId: ctx.uid, sessionId, sharedWithId }, `Session shared`);
+
+        // Let the friend's clients pick up the new session
+        afterTx(tx, async () => {
+            sessionShareRecipientsInvalidate(sessionId);
+            const updSeq = await allocateUserSeq(sharedWithId);
+            eventRouter.emitUpdate({
+                userId: sharedWithId,
+                payload: buildNewSessionUpdate({ ...session, dataEncryptionKey: encryptedDataKey }, updSeq, randomKeyNaked(12)),
+                recipientFilter: { type: 'user-scoped-only' }
+            });
+        });
+
+        return { result: 'success' };
+    });
+}
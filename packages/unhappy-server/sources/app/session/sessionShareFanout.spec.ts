@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+    sessionShare: {
+        findMany: vi.fn<(args: { where: { sessionId: string } }) => Promise<{ sharedWithId: string }[]>>()
+    }
+}));
+
+vi.mock("@/storage/db", () => ({ db }));
+
+vi.mock("@/storage/seq", () => ({
+    allocateUserSeq: vi.fn()
+}));
+
+vi.mock("@/app/events/eventRouter", () => ({
+    eventRouter: {
+        emitUpdate: vi.fn()
+    }
+}));
+
+// Import after mocking
+import { allocateUserSeq } from "@/storage/seq";
+import { eventRouter } from "@/app/events/eventRouter";
+import { sessionShareFanout, sessionShareRecipientsInvalidate } from "./sessionShareFanout";
+
+describe("sessionShareFanout", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        sessionShareRecipientsInvalidate("session-1");
+    });
+
+    it("should emit to every friend with their own seq", async () => {
+        db.sessionShare.findMany.mockResolvedValue([
+            { sharedWithId: "friend-a" },
+            { sharedWithId: "friend-b" }
+        ]);
+        vi.mocked(allocateUserSeq).mockImplementation(async (uid: string) => uid === "friend-a" ? 7 : 42);
+
+        await sessionShareFanout("session-1", (seq) => ({
+            id: `update-${seq}`,
+            seq,
+            body: { t: "delete-session", sid: "session-1" },
+            createdAt: 0
+        }));
+
+        expect(db.sessionShare.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { sessionId: "session-1" } }));
+        expect(eventRouter.emitUpdate).toHaveBeenCalledTimes(2);
+        expect(eventRouter.emitUpdate).toHaveBeenCalledWith(expect.objectContaining({
+            userId: "friend-a",
+            payload: expect.objectContaining({ seq: 7 }),
+            recipientFilter: { type: "user-scoped-only" }
+        }));
+        expect(eventRouter.emitUpdate).toHaveBeenCalledWith(expect.objectContaining({
+            userId: "friend-b",
+            payload: expect.objectContaining({ seq: 42 }),
+            recipientFilter: { type: "user-scoped-only" }
+        }));
+    });
+
+    it("should do nothing when the session is not shared", async () => {
+        db.sessionShare.findMany.mockResolvedValue([]);
+
+        await sessionShareFanout("session-1", () => {
+            throw new Error("should not be called");
+        });
+
+        expect(allocateUserSeq).not.toHaveBeenCalled();
+        expect(eventRouter.emitUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should look up the recipients again only after the shares changed", async () => {
+        db.sessionShare.findMany.mockResolvedValue([{ sharedWithId: "friend-a" }]);
+        vi.mocked(allocateUserSeq).mockResolvedValue(1);
+        const build = (seq: number) => ({ id: `update-${seq}`, seq, body: { t: "delete-session" as const, sid: "session-1" }, createdAt: 0 });
+
+        await sessionShareFanout("session-1", build);
+        await sessionShareFanout("session-1", build);
+        expect(db.sessionShare.findMany).toHaveBeenCalledTimes(1);
+
+        db.sessionShare.findMany.mockResolvedValue([]);
+        sessionShareRecipientsInvalidate("session-1");
+        await sessionShareFanout("session-1", build);
+        expect(db.sessionShare.findMany).toHaveBeenCalledTimes(2);
+        expect(eventRouter.emitUpdate).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,59 @@
+import { db } from "@/storage/db";
+import { eventRouter, UpdatePayload } from "@/app/events/eventRouter";
+import { allocateUserSeq } from "@/storage/seq";
+
+//
+// Friends each session is shared with. Fanout runs for every message, so the
+// list is cached and dropped whenever a share is created or revoked
+//
+
+const RECIPIENTS_TTL = 5 * 60 * 1000;
+const RECIPIENTS_MAX = 10_000;
+const recipientsCache = new Map<string, { sharedWithIds: string[], validUntil: number }>();
+
+async function sessionShareRecipients(sessionId: string): Promise<string[]> {
+    const now = Date.now();
+    const cached = recipientsCache.get(sessionId);
+    if (cached && cached.validUntil > now) {
+        return cached.sharedWithIds;
+    }
+
+    const shares = await db.sessionShare.findMany({
+        where: { sessionId },
+        select: { sharedWithId: true }
+    });
+    const sharedWithIds = shares.map((share) => share.sharedWithId);
+
+    // Oldest entries go first once the cache is full
+    recipientsCache.delete(sessionId);
+    if (recipientsCache.size >= RECIPIENTS_MAX) {
+        recipientsCache.delete(recipientsCache.keys().next().value!);
+    }
+    recipientsCache.set(sessionId, { sharedWithIds, validUntil: now + RECIPIENTS_TTL });
+    return sharedWithIds;
+}
+
+/**
+ * Forget the cached recipients of a session after its shares changed.
+ */
+export function sessionShareRecipientsInvalidate(sessionId: string) {
+    recipientsCache.delete(sessionId);
+}
+
+/**
+ * Forward a session update to every friend the session is shared with.
+ *
+ * Every recipient gets its own update seq, so the payload is built once per
+ * friend. Friends only have user-scoped connections to the session.
+ */
+export async function sessionShareFanout(sessionId: string, build: (updSeq: number) => UpdatePayload) {
+    const sharedWithIds = await sessionShareRecipients(sessionId);
+    for (const sharedWithId of sharedWithIds) {
+        const updSeq = await allocateUserSeq(sharedWithId);
+        eventRouter.emitUpdate({
+            userId: sharedWithId,
+            payload: build(updSeq),
+            recipientFilter: { type: 'user-scoped-only' }
+        });
+    }
+}
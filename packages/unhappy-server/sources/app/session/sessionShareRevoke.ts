@@ -0,0 +1,65 @@
+import { Context } from "@/context";
+import { inTx, afterTx, Tx } from "@/storage/inTx";
+import { eventRouter, buildDeleteSessionUpdate } from "@/app/events/eventRouter";
+import { allocateUserSeq } from "@/storage/seq";
+import { randomKeyNaked } from "@/utils/randomKeyNaked";
+import { log } from "@/utils/log";
+import { sessionShareRecipientsInvalidate } from "@/app/session/sessionShareFanout";
+
+/**
+ * Revoke a friend's access to a session.
+ * The friend's clients receive a delete-session update and drop the session.
+ *
+ * @returns true if a share was removed, false if the session isn't owned by the user or wasn't shared
+ */
+export async function sessionShareRevoke(ctx: Context, sessionId: string, sharedWithId: string): Promise<boolean> {
+    return await inTx(async (tx) => {
+        const { count } = await tx.sessionShare.deleteMany({
+            where: { sessionId, sharedWithId, ownerId: ctx.uid }
+        });
+        if (count === 0) {
+            return false;
+        }
+        log({ module: 'session-share', userId: ctx.uid, sessionId, sharedWithId }, `Session share revoked`);
+        notifyRevoked(tx, [{ sessionId, sharedWithId }]);
+        return true;
+    });
+}
+
+/**
+ * Revoke every share between two users, in both directions.
+ * Used when a friendship ends.
+ */
+export async function sessionShareRevokeBetween(tx: Tx, userA: string, userB: string) {
+    const shares = await tx.sessionShare.findMany({
+        where: {
+            OR: [
+                { ownerId: userA, sharedWithId: userB },
+                { ownerId: userB, sharedWithId: userA }
+            ]
+        },
+        select: { id: true, sessionId: true, sharedWithId: true }
+    });
+    if (shares.length === 0) {
+        return;
+    }
+    await tx.sessionShare.deleteMany({
+        where: { id: { in: shares.map((s) => s.id) } }
+    });
+    log({ module: 'session-share', userA, userB, count: shares.length }, `Revoked ${shares.length} session shares`);
+    notifyRevoked(tx, shares);
+}
+
+function notifyRevoked(tx: Tx, shares: { sessionId: string, sharedWithId: string }[]) {
+    afterTx(tx, async () => {
+        for (const share of shares) {
+            sessionShareRecipientsInvalidate(share.sessionId);
+            const updSeq = await allocateUserSeq(share.sharedWithId);
+            eventRouter.emitUpdate({
+                userId: share.sharedWithId,
+                payload: buildDeleteSessionUpdate(share.sessionId, updSeq, randomKeyNaked(12)),
+                recipientFilter: { type: 'user-scoped-only' }
+            });
+        }
+    });
+}
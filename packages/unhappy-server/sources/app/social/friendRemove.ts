@@ -4,6 +4,7 @@ import { inTx } from "@/storage/inTx";
 import { RelationshipStatus } from "@prisma/client";
 import { relationshipSet } from "./relationshipSet";
 import { relationshipGet } from "./relationshipGet";
+import { sessionShareRevokeBetween } from "@/app/session/sessionShareRevoke";
 
 export async function friendRemove(ctx: Context, uid: string): Promise<UserProfile | null> {
     return await inTx(async (tx) => {
@@ -35,6 +36,9 @@ export async function friendRemove(ctx: Context, uid: string): Promise<UserProfi
         if (currentUserRelationship === RelationshipStatus.friend) {
             await relationshipSet(tx, targetUser.id, currentUser.id, RelationshipStatus.requested);
             await relationshipSet(tx, currentUser.id, targetUser.id, RelationshipStatus.pending);
+
+            // Sessions are only shared between friends
+            await sessionShareRevokeBetween(tx, currentUser.id, targetUser.id);
             return buildUserProfile(targetUser, RelationshipStatus.requested);
         }
 
@@ -16,6 +16,7 @@ export type UserProfile = {
     username: string;
     bio: string | null;
     status: RelationshipStatus;
+    contentPublicKey: string | null; // Base64, used to share session keys
 }
 
 export function buildUserProfile(
@@ -25,6 +26,7 @@ export function buildUserProfile(
         lastName: string | null;
         username: string | null;
         avatar: ImageRef | null;
+        contentPublicKey: Uint8Array | null;
         githubUser: { profile: GitHubProfile } | null;
     },
     status: RelationshipStatus
@@ -51,6 +53,7 @@ export function buildUserProfile(
         avatar,
         username: account.username || githubProfile?.login || '',
         bio: githubProfile?.bio || null,
-        status
+        status,
+        contentPublicKey: account.contentPublicKey ? Buffer.from(account.contentPublicKey).toString('base64') : null
     };
 }
\ No newline at end of file
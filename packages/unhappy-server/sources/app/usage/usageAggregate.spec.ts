@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { aggregateUsage } from "./usageAggregate";
+
+function report(createdAt: Date, sessionId: string | null, total: number, cost: number, tags: { model?: string, agent?: string } = {}) {
+    return { sessionId, createdAt, data: { tokens: { total, input: total }, cost: { total: cost }, ...tags } };
+}
+
+describe("aggregateUsage", () => {
+    const morning = new Date(2026, 2, 1, 9, 15);
+    const evening = new Date(2026, 2, 1, 18, 40);
+    const nextDay = new Date(2026, 2, 2, 10, 0);
+
+    it("sums reports per day", () => {
+        const buckets = aggregateUsage([
+            report(evening, 's1', 200, 2),
+            report(morning, 's1', 100, 1),
+            report(nextDay, 's2', 50, 0.5)
+        ], 'day');
+
+        expect(buckets).toEqual([
+            { timestamp: Math.floor(new Date(2026, 2, 1).getTime() / 1000), tokens: { total: 300, input: 300 }, cost: { total: 3 }, reportCount: 2 },
+            { timestamp: Math.floor(new Date(2026, 2, 2).getTime() / 1000), tokens: { total: 50, input: 50 }, cost: { total: 0.5 }, reportCount: 1 }
+        ]);
+    });
+
+    it("splits buckets by the requested fields and groups untagged reports under null", () => {
+        const buckets = aggregateUsage([
+            report(morning, 's1', 100, 1, { model: 'claude-sonnet-4-5', agent: 'claude' }),
+            report(evening, 's2', 200, 2, { model: 'claude-sonnet-4-5', agent: 'claude' }),
+            report(evening, 's1', 10, 0.1, { model: 'claude-haiku-4-5', agent: 'claude' }),
+            report(evening, 's3', 5, 0.05)
+        ], 'day', ['model', 'agent']);
+
+        expect(buckets.map((b) => [b.model, b.agent, b.tokens.total, b.reportCount])).toEqual([
+            ['claude-sonnet-4-5', 'claude', 300, 2],
+            ['claude-haiku-4-5', 'claude', 10, 1],
+            [null, null, 5, 1]
+        ]);
+        expect(buckets[0]).not.toHaveProperty('sessionId');
+    });
+});
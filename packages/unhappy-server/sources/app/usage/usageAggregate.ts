@@ -0,0 +1,73 @@
+export type UsageGroupBy = 'hour' | 'day';
+
+/**
+ * Report fields a query can split its buckets by, besides time
+ */
+export type UsageBreakdown = 'model' | 'agent' | 'session';
+
+export type UsageBucket = {
+    timestamp: number;
+    model?: string | null;
+    agent?: string | null;
+    sessionId?: string | null;
+    tokens: Record<string, number>;
+    cost: Record<string, number>;
+    reportCount: number;
+};
+
+type UsageRow = {
+    sessionId: string | null;
+    createdAt: Date;
+    data: PrismaJson.UsageReportData;
+};
+
+/**
+ * Start of the hour or day a report falls in, unix seconds in server time
+ */
+function bucketStart(date: Date, groupBy: UsageGroupBy): number {
+    const start = groupBy === 'hour'
+        ? new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), 0, 0, 0)
+        : new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, 0, 0, 0);
+    return Math.floor(start.getTime() / 1000);
+}
+
+function addValues(target: Record<string, number>, values: Record<string, number>) {
+    for (const [key, value] of Object.entries(values)) {
+        if (typeof value === 'number') {
+            target[key] = (target[key] || 0) + value;
+        }
+    }
+}
+
+/**
+ * Sum usage reports per time bucket and, when asked, per model, agent or session.
+ * Reports sent before the CLI tagged them have no model or agent, they land in a null group.
+ */
+export function aggregateUsage(reports: UsageRow[], groupBy: UsageGroupBy, breakdown: UsageBreakdown[] = []): UsageBucket[] {
+    const byModel = breakdown.includes('model');
+    const byAgent = breakdown.includes('agent');
+    const bySession = breakdown.includes('session');
+    const buckets = new Map<string, UsageBucket>();
+
+    for (const report of reports) {
+        const timestamp = bucketStart(report.createdAt, groupBy);
+        const model = byModel ? (report.data.model ?? null) : undefined;
+        const agent = byAgent ? (report.data.agent ?? null) : undefined;
+        const sessionId = bySession ? report.sessionId : undefined;
+        const key = JSON.stringify([timestamp, model, agent, sessionId]);
+
+        let bucket = buckets.get(key);
+        if (!bucket) {
+            bucket = { timestamp, tokens: {}, cost: {}, reportCount: 0 };
+            if (byModel) bucket.model = model;
+            if (byAgent) bucket.agent = agent;
+            if (bySession) bucket.sessionId = sessionId;
+            buckets.set(key, bucket);
+        }
+        bucket.reportCount++;
+        addValues(bucket.tokens, report.data.tokens);
+        addValues(bucket.cost, report.data.cost);
+    }
+
+    return Array.from(buckets.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,56 @@
+/**
+ * Lifecycle events a webhook can subscribe to. Payloads only carry ids and
+ * timestamps, session content is end-to-end encrypted and never leaves the
+ * clients.
+ */
+export const webhookEvents = [
+    'session.idle',
+    'session.permission-requested',
+    'session.ended',
+    'machine.offline'
+] as const;
+
+export type WebhookEvent = typeof webhookEvents[number];
+
+export type WebhookEventData = {
+    'session.idle': { sessionId: string };
+    'session.permission-requested': { sessionId: string };
+    'session.ended': { sessionId: string; reason: 'ended' | 'timeout' };
+    'machine.offline': { machineId: string };
+    /** Sent by the test endpoint, not subscribable */
+    'ping': {};
+};
+
+export type WebhookPayload<E extends keyof WebhookEventData = keyof WebhookEventData> = {
+    /** Delivery id, stable across retries */
+    id: string;
+    type: E;
+    createdAt: number;
+    data: WebhookEventData[E];
+};
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/** Attempts before a delivery is marked failed */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/** Wait before the next attempt, after `attempts` failed ones */
+const RETRY_DELAYS_MS = [
+    30 * 1000,
+    2 * 60 * 1000,
+    10 * 60 * 1000,
+    30 * 60 * 1000,
+    60 * 60 * 1000,
+    3 * 60 * 60 * 1000,
+    6 * 60 * 60 * 1000
+];
+
+export function webhookRetryDelay(attempts: number): number {
+    return RETRY_DELAYS_MS[Math.min(Math.max(attempts, 1), RETRY_DELAYS_MS.length) - 1];
+}
+
+/** Subscriptions per account */
+export const WEBHOOK_LIMIT = 10;
+
+/** Deliveries are kept this long as the delivery log */
+export const WEBHOOK_DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
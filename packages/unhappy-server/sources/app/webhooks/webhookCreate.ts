@@ -0,0 +1,43 @@
+import { randomBytes } from "node:crypto";
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+import { WEBHOOK_LIMIT, WebhookEvent } from "./types";
+import { webhookUrlError } from "./webhookDeliver";
+
+export type WebhookCreateResult =
+    | { type: 'success'; webhook: { id: string; url: string; events: WebhookEvent[]; enabled: boolean; secret: string; createdAt: number } }
+    | { type: 'invalid-url'; error: string }
+    | { type: 'limit-reached' };
+
+/**
+ * Subscribe a URL to lifecycle events. The signing secret is only returned here.
+ */
+export async function webhookCreate(ctx: Context, url: string, events: WebhookEvent[]): Promise<WebhookCreateResult> {
+    const urlError = await webhookUrlError(url);
+    if (urlError) {
+        return { type: 'invalid-url', error: urlError };
+    }
+    const count = await db.accountWebhook.count({ where: { accountId: ctx.uid } });
+    if (count >= WEBHOOK_LIMIT) {
+        return { type: 'limit-reached' };
+    }
+    const webhook = await db.accountWebhook.create({
+        data: {
+            accountId: ctx.uid,
+            url,
+            secret: 'whsec_' + randomBytes(24).toString('base64url'),
+            events: [...new Set(events)]
+        }
+    });
+    return {
+        type: 'success',
+        webhook: {
+            id: webhook.id,
+            url: webhook.url,
+            events: webhook.events,
+            enabled: webhook.enabled,
+            secret: webhook.secret,
+            createdAt: webhook.createdAt.getTime()
+        }
+    };
+}
@@ -0,0 +1,12 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+
+/**
+ * Deleting a webhook also deletes its delivery log
+ */
+export async function webhookDelete(ctx: Context, id: string): Promise<boolean> {
+    const { count } = await db.accountWebhook.deleteMany({
+        where: { id, accountId: ctx.uid }
+    });
+    return count > 0;
+}
@@ -0,0 +1,198 @@
+import { createHmac } from "node:crypto";
+import { lookup as dnsLookup } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, LookupFunction } from "node:net";
+import { db } from "@/storage/db";
+import { isLite } from "@/storage/mode";
+import { log } from "@/utils/log";
+import { WEBHOOK_MAX_ATTEMPTS, webhookRetryDelay } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/** Self-hosted relays usually post to services on their own network */
+const allowPrivateUrls = isLite || process.env.WEBHOOKS_ALLOW_PRIVATE_URLS === 'true';
+
+const privateRanges = new BlockList();
+privateRanges.addSubnet('0.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('10.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('100.64.0.0', 10, 'ipv4');
+privateRanges.addSubnet('127.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('169.254.0.0', 16, 'ipv4');
+privateRanges.addSubnet('172.16.0.0', 12, 'ipv4');
+privateRanges.addSubnet('192.168.0.0', 16, 'ipv4');
+privateRanges.addAddress('::', 'ipv6');
+privateRanges.addAddress('::1', 'ipv6');
+privateRanges.addSubnet('fc00::', 7, 'ipv6');
+privateRanges.addSubnet('fe80::', 10, 'ipv6');
+
+export function isPrivateAddress(address: string): boolean {
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+        return privateRanges.check(mapped[1], 'ipv4');
+    }
+    const family = isIP(address);
+    if (family === 0) {
+        return false;
+    }
+    return privateRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Webhook URLs must be http(s) and, on hosted relays, resolve to public
+ * addresses so subscriptions can't be used to reach the internal network.
+ * Checked on creation and again before every attempt.
+ */
+export async function webhookUrlError(url: string): Promise<string | null> {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return 'Invalid URL';
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        return 'URL must use http or https';
+    }
+    if (parsed.username || parsed.password) {
+        return 'URL must not contain credentials';
+    }
+    if (allowPrivateUrls) {
+        return null;
+    }
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+        addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+    } catch {
+        return 'Host can not be resolved';
+    }
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        return 'URL must point to a public address';
+    }
+    return null;
+}
+
+/**
+ * Resolves like `dns.lookup` but fails on private addresses. Requests connect
+ * through it, so a host that resolved to a public address during the URL
+ * check can't be pointed at the internal network right after.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, options, (error, address, family) => {
+        if (error) {
+            callback(error, address, family);
+            return;
+        }
+        const addresses = Array.isArray(address) ? address.map((a) => a.address) : [address];
+        if (addresses.some(isPrivateAddress)) {
+            callback(new Error('URL must point to a public address'), address, family);
+            return;
+        }
+        callback(null, address, family);
+    });
+};
+
+/**
+ * POST without following redirects, resolving with the response status.
+ */
+function post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+    const parsed = new URL(url);
+    const request = parsed.protocol === 'https:' ? httpsRequest : httpRequest;
+    return new Promise((resolve, reject) => {
+        const req = request(parsed, {
+            method: 'POST',
+            headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+            lookup: allowPrivateUrls ? undefined : publicLookup,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        }, (response) => {
+            // The body is not used, release the connection
+            response.resume();
+            resolve(response.statusCode ?? 0);
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+/**
+ * `sha256=` + hex HMAC of `<timestamp>.<body>` with the webhook secret.
+ * Receivers recompute it and compare, and reject old timestamps.
+ */
+export function webhookSignature(secret: string, timestamp: number, body: string): string {
+    return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export type WebhookSendResult = {
+    ok: boolean;
+    status: number | null;
+    error: string | null;
+};
+
+export async function webhookSend(opts: {
+    url: string;
+    secret: string;
+    event: string;
+    deliveryId: string;
+    body: string;
+}): Promise<WebhookSendResult> {
+    const urlError = await webhookUrlError(opts.url);
+    if (urlError) {
+        return { ok: false, status: null, error: urlError };
+    }
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+        const status = await post(opts.url, {
+            'Content-Type': 'application/json',
+            'User-Agent': 'Unhappy-Webhooks/1',
+            'X-Unhappy-Event': opts.event,
+            'X-Unhappy-Delivery': opts.deliveryId,
+            'X-Unhappy-Timestamp': String(timestamp),
+            'X-Unhappy-Signature': webhookSignature(opts.secret, timestamp, opts.body)
+        }, opts.body);
+        if (status >= 200 && status < 300) {
+            return { ok: true, status, error: null };
+        }
+        return { ok: false, status, error: `HTTP ${status}` };
+    } catch (error) {
+        return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/**
+ * Make one attempt of a claimed delivery and record the outcome, scheduling
+ * a retry with backoff until the attempts run out.
+ */
+export async function webhookAttempt(delivery: {
+    id: string;
+    event: string;
+    payload: string;
+    attempts: number;
+    webhook: { url: string; secret: string; enabled: boolean };
+}): Promise<void> {
+    const result = delivery.webhook.enabled
+        ? await webhookSend({
+            url: delivery.webhook.url,
+            secret: delivery.webhook.secret,
+            event: delivery.event,
+            deliveryId: delivery.id,
+            body: delivery.payload
+        })
+        : { ok: false, status: null, error: 'Webhook disabled' };
+
+    const attempts = delivery.attempts + 1;
+    const failed = !result.ok && (attempts >= WEBHOOK_MAX_ATTEMPTS || !delivery.webhook.enabled);
+    await db.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+            attempts,
+            status: result.ok ? 'delivered' : failed ? 'failed' : 'pending',
+            nextAttemptAt: result.ok || failed ? null : new Date(Date.now() + webhookRetryDelay(attempts)),
+            responseStatus: result.status,
+            lastError: result.error
+        }
+    });
+    if (!result.ok) {
+        log({ module: 'webhooks', level: 'warn' }, `Delivery ${delivery.id} attempt ${attempts} failed: ${result.error}`);
+    }
+}
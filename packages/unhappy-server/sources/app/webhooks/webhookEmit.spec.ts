@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+type DeliveryRow = { id: string, webhookId: string, event: string, payload: string, nextAttemptAt: Date };
+
+const db = vi.hoisted(() => ({
+    accountWebhook: {
+        findMany: vi.fn<(args: unknown) => Promise<{ id: string, events: string[] }[]>>()
+    },
+    webhookDelivery: {
+        createMany: vi.fn<(args: { data: DeliveryRow[] }) => Promise<{ count: number }>>()
+    }
+}));
+
+vi.mock("@/storage/db", () => ({ db }));
+
+vi.mock("./webhookWorker", () => ({
+    webhookWake: vi.fn()
+}));
+
+// Import after mocking
+import { webhookEmit } from "./webhookEmit";
+import { webhookWake } from "./webhookWorker";
+
+describe("webhookEmit", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("queues one delivery per subscribed webhook with an envelope-only payload", async () => {
+        db.accountWebhook.findMany.mockResolvedValue([
+            { id: 'w1', events: ['session.idle', 'session.ended'] },
+            { id: 'w2', events: ['machine.offline'] }
+        ]);
+
+        expect(await webhookEmit('user-1', 'session.ended', { sessionId: 's1', reason: 'ended' })).toBe(1);
+
+        const { data } = db.webhookDelivery.createMany.mock.calls[0][0];
+        expect(data).toHaveLength(1);
+        expect(data[0]).toMatchObject({ webhookId: 'w1', event: 'session.ended' });
+        expect(JSON.parse(data[0].payload)).toEqual({
+            id: data[0].id,
+            type: 'session.ended',
+            createdAt: expect.any(Number),
+            data: { sessionId: 's1', reason: 'ended' }
+        });
+        expect(webhookWake).toHaveBeenCalled();
+    });
+
+    it("does nothing without subscribers and swallows database errors", async () => {
+        db.accountWebhook.findMany.mockResolvedValueOnce([{ id: 'w2', events: ['machine.offline'] }]);
+        expect(await webhookEmit('user-1', 'session.idle', { sessionId: 's1' })).toBe(0);
+
+        db.accountWebhook.findMany.mockRejectedValueOnce(new Error('db down'));
+        expect(await webhookEmit('user-1', 'session.idle', { sessionId: 's1' })).toBe(0);
+        expect(db.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+
+    it("sends pings to the given webhook regardless of its events", async () => {
+        db.accountWebhook.findMany.mockResolvedValue([{ id: 'w2', events: ['machine.offline'] }]);
+
+        expect(await webhookEmit('user-1', 'ping', {}, 'w2')).toBe(1);
+        expect(db.accountWebhook.findMany.mock.calls[0][0]).toMatchObject({ where: { accountId: 'user-1', enabled: true, id: 'w2' } });
+    });
+});
@@ -0,0 +1,49 @@
+import { randomUUID } from "node:crypto";
+import { db } from "@/storage/db";
+import { log } from "@/utils/log";
+import { WebhookEvent, WebhookEventData, WebhookPayload } from "./types";
+import { webhookWake } from "./webhookWorker";
+
+/**
+ * Queue a delivery of the event for every enabled webhook of the account
+ * that subscribes to it. Never throws, callers fire and forget.
+ */
+export async function webhookEmit<E extends WebhookEvent | 'ping'>(
+    userId: string,
+    event: E,
+    data: WebhookEventData[E],
+    onlyWebhookId?: string
+): Promise<number> {
+    try {
+        const webhooks = await db.accountWebhook.findMany({
+            where: { accountId: userId, enabled: true, ...(onlyWebhookId ? { id: onlyWebhookId } : {}) },
+            select: { id: true, events: true }
+        });
+        const targets = event === 'ping'
+            ? webhooks
+            : webhooks.filter((webhook) => webhook.events.includes(event as WebhookEvent));
+        if (targets.length === 0) {
+            return 0;
+        }
+
+        const now = new Date();
+        await db.webhookDelivery.createMany({
+            data: targets.map((webhook) => {
+                const id = randomUUID();
+                const payload: WebhookPayload<E> = { id, type: event, createdAt: now.getTime(), data };
+                return {
+                    id,
+                    webhookId: webhook.id,
+                    event,
+                    payload: JSON.stringify(payload),
+                    nextAttemptAt: now
+                };
+            })
+        });
+        webhookWake();
+        return targets.length;
+    } catch (error) {
+        log({ module: 'webhooks', level: 'error', userId }, `Failed to queue ${event} webhooks: ${error}`);
+        return 0;
+    }
+}
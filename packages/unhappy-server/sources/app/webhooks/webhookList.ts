@@ -0,0 +1,47 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+import { WebhookDeliveryStatus } from "./types";
+
+export async function webhookList(ctx: Context) {
+    const webhooks = await db.accountWebhook.findMany({
+        where: { accountId: ctx.uid },
+        orderBy: { createdAt: 'asc' }
+    });
+    return webhooks.map((webhook) => ({
+        id: webhook.id,
+        url: webhook.url,
+        events: webhook.events,
+        enabled: webhook.enabled,
+        createdAt: webhook.createdAt.getTime(),
+        updatedAt: webhook.updatedAt.getTime()
+    }));
+}
+
+/**
+ * Newest deliveries of a webhook, null when the webhook is not the account's
+ */
+export async function webhookDeliveries(ctx: Context, id: string, limit: number) {
+    const webhook = await db.accountWebhook.findFirst({
+        where: { id, accountId: ctx.uid },
+        select: { id: true }
+    });
+    if (!webhook) {
+        return null;
+    }
+    const deliveries = await db.webhookDelivery.findMany({
+        where: { webhookId: id },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+    });
+    return deliveries.map((delivery) => ({
+        id: delivery.id,
+        event: delivery.event,
+        status: delivery.status as WebhookDeliveryStatus,
+        attempts: delivery.attempts,
+        responseStatus: delivery.responseStatus,
+        lastError: delivery.lastError,
+        nextAttemptAt: delivery.nextAttemptAt?.getTime() ?? null,
+        createdAt: delivery.createdAt.getTime(),
+        updatedAt: delivery.updatedAt.getTime()
+    }));
+}
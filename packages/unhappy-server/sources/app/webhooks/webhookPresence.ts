@@ -0,0 +1,43 @@
+import { db } from "@/storage/db";
+import { webhookEmit } from "./webhookEmit";
+
+/** A daemon that reconnects within this window didn't go offline */
+const MACHINE_OFFLINE_GRACE_MS = 2 * 60 * 1000;
+
+// Last `thinking` flag per session on this instance, session sockets stick to one instance
+const sessionThinking = new Map<string, boolean>();
+
+/**
+ * Called for every session keep-alive, emits `session.idle` when a turn ends
+ */
+export function webhookSessionAlive(userId: string, sessionId: string, thinking: boolean) {
+    const wasThinking = sessionThinking.get(sessionId) ?? false;
+    sessionThinking.set(sessionId, thinking);
+    if (wasThinking && !thinking) {
+        void webhookEmit(userId, 'session.idle', { sessionId });
+    }
+}
+
+export function webhookSessionEnded(userId: string, sessionId: string, reason: 'ended' | 'timeout') {
+    sessionThinking.delete(sessionId);
+    void webhookEmit(userId, 'session.ended', { sessionId, reason });
+}
+
+/**
+ * Emits `machine.offline` unless the machine reported activity again within
+ * the grace period, on any instance.
+ */
+export function webhookMachineDisconnected(userId: string, machineId: string) {
+    const disconnectedAt = Date.now();
+    const timer = setTimeout(async () => {
+        const machine = await db.machine.findUnique({
+            where: { accountId_id: { accountId: userId, id: machineId } },
+            select: { lastActiveAt: true }
+        }).catch(() => null);
+        if (!machine || machine.lastActiveAt.getTime() > disconnectedAt) {
+            return;
+        }
+        void webhookEmit(userId, 'machine.offline', { machineId });
+    }, MACHINE_OFFLINE_GRACE_MS);
+    timer.unref();
+}
@@ -0,0 +1,31 @@
+import { Context } from "@/context";
+import { db } from "@/storage/db";
+import { WebhookEvent } from "./types";
+import { webhookUrlError } from "./webhookDeliver";
+
+export type WebhookUpdateResult =
+    | { type: 'success' }
+    | { type: 'invalid-url'; error: string }
+    | { type: 'not-found' };
+
+export async function webhookUpdate(ctx: Context, id: string, changes: {
+    url?: string;
+    events?: WebhookEvent[];
+    enabled?: boolean;
+}): Promise<WebhookUpdateResult> {
+    if (changes.url !== undefined) {
+        const urlError = await webhookUrlError(changes.url);
+        if (urlError) {
+            return { type: 'invalid-url', error: urlError };
+        }
+    }
+    const { count } = await db.accountWebhook.updateMany({
+        where: { id, accountId: ctx.uid },
+        data: {
+            url: changes.url,
+            events: changes.events ? [...new Set(changes.events)] : undefined,
+            enabled: changes.enabled
+        }
+    });
+    return count > 0 ? { type: 'success' } : { type: 'not-found' };
+}
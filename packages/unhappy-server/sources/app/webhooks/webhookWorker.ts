@@ -0,0 +1,69 @@
+import { db } from "@/storage/db";
+import { delay } from "@/utils/delay";
+import { forever } from "@/utils/forever";
+import { log } from "@/utils/log";
+import { shutdownSignal } from "@/utils/shutdown";
+import { webhookAttempt } from "./webhookDeliver";
+import { WEBHOOK_DELIVERY_RETENTION_MS } from "./types";
+
+const BATCH_SIZE = 20;
+const IDLE_INTERVAL_MS = 5 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Claimed deliveries are retried by any instance once this runs out */
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+
+let wakeController = new AbortController();
+
+/**
+ * Skip the idle wait, called when new deliveries are queued
+ */
+export function webhookWake() {
+    wakeController.abort();
+}
+
+export function startWebhooks() {
+    let lastPruneAt = 0;
+    forever('webhooks', async () => {
+        while (true) {
+            const due = await db.webhookDelivery.findMany({
+                where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+                include: { webhook: { select: { url: true, secret: true, enabled: true } } },
+                orderBy: { nextAttemptAt: 'asc' },
+                take: BATCH_SIZE
+            });
+            for (const delivery of due) {
+                // Claim it so other instances don't send the same attempt, the lease
+                // moves nextAttemptAt so only the first claim of a read matches
+                const { count } = await db.webhookDelivery.updateMany({
+                    where: { id: delivery.id, status: 'pending', attempts: delivery.attempts, nextAttemptAt: delivery.nextAttemptAt },
+                    data: { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) }
+                });
+                if (count === 0) {
+                    continue;
+                }
+                try {
+                    await webhookAttempt(delivery);
+                } catch (error) {
+                    log({ module: 'webhooks', level: 'error' }, `Failed to attempt delivery ${delivery.id}: ${error}`);
+                }
+            }
+
+            // Delivery log retention
+            if (Date.now() - lastPruneAt > PRUNE_INTERVAL_MS) {
+                lastPruneAt = Date.now();
+                await db.webhookDelivery.deleteMany({
+                    where: { createdAt: { lt: new Date(Date.now() - WEBHOOK_DELIVERY_RETENTION_MS) } }
+                });
+            }
+
+            // Keep going while there is a backlog, otherwise wait for new deliveries
+            if (due.length < BATCH_SIZE) {
+                if (wakeController.signal.aborted) {
+                    wakeController = new AbortController();
+                }
+                await delay(IDLE_INTERVAL_MS, AbortSignal.any([shutdownSignal, wakeController.signal]));
+            }
+        }
+    });
+}
@@ -3,6 +3,8 @@ import { log } from "@/utils/log";
 import { awaitShutdown, onShutdown } from "@/utils/shutdown";
 import { db } from './storage/db';
 import { startTimeout } from "./app/presence/timeout";
+import { startRetention } from "./app/retention/retentionWorker";
+import { startWebhooks } from "./app/webhooks/webhookWorker";
 import { redis } from "./storage/redis";
 import { startMetricsServer } from "@/app/monitoring/metrics";
 import { activityCache } from "@/app/presence/sessionCache";
@@ -11,10 +13,12 @@ import { startDatabaseMetricsUpdater } from "@/app/monitoring/metrics2";
 import { initEncrypt } from "./modules/encrypt";
 import { initGithub } from "./modules/github";
 import { loadFiles } from "./storage/files";
+import { serverMode } from "./storage/mode";
 
 async function main() {
 
     // Storage
+    log(`Storage mode: ${serverMode}`);
     await db.$connect();
     onShutdown('db', async () => {
         await db.$disconnect();
@@ -38,6 +42,8 @@ async function main() {
     await startMetricsServer();
     startDatabaseMetricsUpdater();
     startTimeout();
+    startRetention();
+    startWebhooks();
 
     //
     // Ready
@@ -1,3 +1,16 @@
 import { PrismaClient } from "@prisma/client";
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import { dataDir, isLite } from "./mode";
 
-export const db = new PrismaClient();
\ No newline at end of file
+function createLiteClient(): PrismaClient {
+    // Generated from prisma/lite/schema.prisma, same models on SQLite.
+    // Resolved from the package root, the server always runs from there.
+    const require = createRequire(path.resolve('package.json'));
+    const { PrismaClient: LitePrismaClient } = require("./prisma/lite/client");
+    return new LitePrismaClient({
+        datasourceUrl: process.env.DATABASE_URL || `file:${path.join(dataDir, 'unhappy.db')}`
+    }) as PrismaClient;
+}
+
+export const db = isLite ? createLiteClient() : new PrismaClient();
@@ -1,10 +1,14 @@
 import * as Minio from 'minio';
+import { mkdir, rm, stat, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { dataDir, isLite } from './mode';
 
 const s3Host = process.env.S3_HOST!;
 const s3Port = process.env.S3_PORT ? parseInt(process.env.S3_PORT, 10) : undefined;
 const s3UseSSL = process.env.S3_USE_SSL ? process.env.S3_USE_SSL === 'true' : true;
 
-export const s3client = new Minio.Client({
+// Lite mode stores files on local disk, there is no S3 endpoint to configure
+const s3client = isLite ? null : new Minio.Client({
     endPoint: s3Host,
     port: s3Port,
     useSSL: s3UseSSL,
@@ -18,12 +22,83 @@ export const s3host = process.env.S3_HOST!
 
 export const s3public = process.env.S3_PUBLIC_URL!;
 
+/** Lite mode file storage, served under /files */
+export const filesDir = path.join(dataDir, 'files');
+
+const publicUrl = isLite
+    ? `${process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3005}`}/files`
+    : s3public;
+
 export async function loadFiles() {
+    if (!s3client) {
+        await mkdir(filesDir, { recursive: true });
+        return;
+    }
     await s3client.bucketExists(s3bucket); // Throws if bucket does not exist or is not accessible
 }
 
+export async function putFile(filePath: string, data: Buffer) {
+    if (!s3client) {
+        const target = resolveLocalFile(filePath);
+        if (!target) {
+            throw new Error(`Invalid file path: ${filePath}`);
+        }
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, data);
+        return;
+    }
+    await s3client.putObject(s3bucket, filePath, data);
+}
+
+export async function deleteFile(filePath: string) {
+    if (!s3client) {
+        const target = resolveLocalFile(filePath);
+        if (target) {
+            await rm(target, { force: true });
+        }
+        return;
+    }
+    await s3client.removeObject(s3bucket, filePath);
+}
+
+/**
+ * Size of a stored file in bytes, null if it doesn't exist
+ */
+export async function fileSize(filePath: string): Promise<number | null> {
+    if (!s3client) {
+        const target = resolveLocalFile(filePath);
+        if (!target) {
+            return null;
+        }
+        try {
+            return (await stat(target)).size;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+    try {
+        return (await s3client.statObject(s3bucket, filePath)).size;
+    } catch (error) {
+        if ((error as { code?: string }).code === 'NotFound' || (error as { code?: string }).code === 'NoSuchKey') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Resolve a stored path to a file inside filesDir, null if it escapes it
+ */
+export function resolveLocalFile(filePath: string): string | null {
+    const resolved = path.resolve(filesDir, filePath);
+    return resolved.startsWith(filesDir + path.sep) ? resolved : null;
+}
+
 export function getPublicUrl(path: string) {
-    return `${s3public}/${path}`;
+    return `${publicUrl}/${path}`;
 }
 
 export type ImageRef = {
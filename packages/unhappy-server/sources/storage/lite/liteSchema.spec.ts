@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { toLiteSchema } from './liteSchema';
+
+describe('toLiteSchema', () => {
+    it('switches the datasource to sqlite with its own client', () => {
+        const lite = toLiteSchema(`// header
+
+generator client {
+    provider        = "prisma-client-js"
+    previewFeatures = ["metrics", "relationJoins"]
+}
+
+generator json {
+    provider = "prisma-json-types-generator"
+}
+
+datasource db {
+    provider = "postgresql"
+    url      = env("DATABASE_URL")
+}
+
+model A {
+    id String @id
+}
+`);
+        expect(lite).toContain('provider = "sqlite"');
+        expect(lite).toContain('output          = "./client"');
+        expect(lite).not.toContain('relationJoins');
+        expect(lite).not.toContain('prisma-json-types-generator');
+        expect(lite).not.toContain('// header');
+        expect(lite).toContain('model A {');
+    });
+
+    it('matches the committed lite schema', () => {
+        const schema = readFileSync('prisma/schema.prisma', 'utf8');
+        const committed = readFileSync('prisma/lite/schema.prisma', 'utf8');
+        // Run `yarn schema:lite` after changing prisma/schema.prisma
+        expect(committed).toBe(toLiteSchema(schema));
+    });
+});
@@ -0,0 +1,30 @@
+/**
+ * Derive the SQLite schema used by lite mode from the main Postgres schema.
+ *
+ * Models are shared, only the datasource and generators differ. The result is
+ * committed as prisma/lite/schema.prisma (regenerate with `yarn schema:lite`)
+ * and the spec checks it stays in sync.
+ */
+
+const LITE_HEADER = `// Generated from ../schema.prisma by \`yarn schema:lite\`, do not edit.
+// SQLite schema for SERVER_MODE=lite.
+
+`;
+
+const LITE_CLIENT_GENERATOR = `generator client {
+    provider        = "prisma-client-js"
+    output          = "./client"
+    previewFeatures = ["metrics"]
+}`;
+
+export function toLiteSchema(schema: string): string {
+    let lite = schema
+        // Comments at the top of the main schema
+        .replace(/^(\/\/.*\n)+\n?/, '')
+        // Own client output, relationJoins is Postgres/MySQL only
+        .replace(/generator client \{[^}]*\}/, LITE_CLIENT_GENERATOR)
+        // JSON typings come from the main client
+        .replace(/generator json \{[^}]*\}\n*/, '')
+        .replace(/provider\s*=\s*"postgresql"/, 'provider = "sqlite"');
+    return LITE_HEADER + lite;
+}
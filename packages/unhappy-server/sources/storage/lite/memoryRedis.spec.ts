@@ -0,0 +1,8 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryRedis } from './memoryRedis';
+
+describe('MemoryRedis', () => {
+    it('answers the startup health check', async () => {
+        expect(await new MemoryRedis().ping()).toBe('PONG');
+    });
+});
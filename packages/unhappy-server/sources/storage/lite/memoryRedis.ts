@@ -0,0 +1,14 @@
+import type { RedisClient } from '../redis';
+
+/**
+ * In-process stand-in for Redis in lite mode.
+ *
+ * Lite mode runs a single server process, so nothing has to be shared between
+ * replicas. Implements the commands in RedisClient, which today is only the
+ * startup health check.
+ */
+export class MemoryRedis implements RedisClient {
+    async ping(): Promise<'PONG'> {
+        return 'PONG';
+    }
+}
@@ -0,0 +1,16 @@
+import * as path from 'node:path';
+
+/**
+ * Server storage mode.
+ *
+ * - `full` (default): Postgres, Redis and S3/MinIO, for hosted deployments.
+ * - `lite`: SQLite, in-process Redis replacement and local-disk files served
+ *   under /files. One container is a complete relay, meant for small
+ *   self-hosted teams. Selected with SERVER_MODE=lite.
+ */
+export const serverMode: 'full' | 'lite' = process.env.SERVER_MODE === 'lite' ? 'lite' : 'full';
+
+export const isLite = serverMode === 'lite';
+
+/** Where lite mode keeps its database and uploaded files */
+export const dataDir = path.resolve(process.env.DATA_DIR || './data');
@@ -1,3 +1,16 @@
 import { Redis } from 'ioredis';
+import { isLite } from './mode';
+import { MemoryRedis } from './lite/memoryRedis';
 
-export const redis = new Redis(process.env.REDIS_URL!);
\ No newline at end of file
+/**
+ * Redis commands available to the server. Lite mode swaps in an in-process
+ * implementation, so a command added here has to be implemented by MemoryRedis
+ * too, and the compiler checks both.
+ */
+export interface RedisClient {
+    ping(): Promise<string>;
+}
+
+export const redis: RedisClient = isLite
+    ? new MemoryRedis()
+    : new Redis(process.env.REDIS_URL!);
@@ -1,5 +1,7 @@
 import { GitHubProfile as GitHubProfileType, GitHubOrg as GitHubOrgType } from "../app/api/types";
 import { ImageRef as ImageRefType } from "./files";
+import { WebhookEvent } from "../app/webhooks/types";
+import { MachineHealth as MachineHealthType } from "../app/monitoring/machineHealth";
 declare global {
     namespace PrismaJson {
         // Session message content types
@@ -18,6 +20,8 @@ declare global {
                 total: number;
                 [key: string]: number;
             };
+            model?: string; // Model that produced the response, when the agent reports it
+            agent?: string; // Agent flavor that sent the report (claude, codex, gemini)
         };
 
         // Update content types
@@ -94,6 +98,8 @@ declare global {
         type GitHubProfile = GitHubProfileType;
         type GitHubOrg = GitHubOrgType;
         type ImageRef = ImageRefType;
+        type WebhookEvents = WebhookEvent[];
+        type MachineHealth = MachineHealthType;
     }
 }
 
@@ -1,6 +1,6 @@
 import { randomKey } from "@/utils/randomKey";
 import { processImage } from "./processImage";
-import { s3bucket, s3client, s3host } from "./files";
+import { putFile, s3bucket, s3host } from "./files";
 import { db } from "./db";
 
 export async function uploadImage(userId: string, directory: string, prefix: string, url: string, src: Buffer) {
@@ -25,7 +25,7 @@ export async function uploadImage(userId: string, directory: string, prefix: str
     const processed = await processImage(src);
     const key = randomKey(prefix);
     let filename = `${key}.${processed.format === 'png' ? 'png' : 'jpg'}`;
-    await s3client.putObject(s3bucket, 'public/users/' + userId + '/' + directory + '/' + filename, src);
+    await putFile('public/users/' + userId + '/' + directory + '/' + filename, src);
     await db.uploadedFile.create({
         data: {
             accountId: userId,
@@ -33,7 +33,8 @@ export async function uploadImage(userId: string, directory: string, prefix: str
             reuseKey: 'image-url:' + url,
             width: processed.width,
             height: processed.height,
-            thumbhash: processed.thumbhash
+            thumbhash: processed.thumbhash,
+            size: src.length
         }
     });
     return {